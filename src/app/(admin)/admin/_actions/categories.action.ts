@@ -1,11 +1,10 @@
 "use server"
 import "server-only";
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
 import { categoryTable, productTable, productCategoryTable } from "@/db/schema";
 import { eq, and, ne, count, inArray } from "drizzle-orm";
-import { requireAdmin } from "@/utils/auth";
 import {
   createCategorySchema,
   updateCategorySchema,
@@ -13,16 +12,15 @@ import {
   reorderCategoriesSchema,
   checkSlugSchema,
 } from "@/schemas/category.schema";
-import { PRODUCT_STATUS } from "@/db/schema";
+import { PRODUCT_STATUS, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
+import { recordAdminAudit } from "@/utils/admin-audit";
 
 // Hardcoded category slugs that should be excluded from dynamic management
 const HARDCODED_CATEGORY_SLUGS = ['cakes', 'cookies', 'gift-boxes', 'custom-orders'];
 
 // Get all dynamic categories (excludes hardcoded ones)
-export const getDynamicCategoriesAction = createServerAction()
+export const getDynamicCategoriesAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB();
     const categories = await db
       .select()
@@ -71,10 +69,8 @@ export const getDynamicCategoriesAction = createServerAction()
   });
 
 // Get all categories including hardcoded ones (for product forms)
-export const getAllCategoriesAction = createServerAction()
+export const getAllCategoriesAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB();
     const categories = await db
       .select()
@@ -86,11 +82,9 @@ export const getAllCategoriesAction = createServerAction()
   });
 
 // Get single category by ID
-export const getCategoryAction = createServerAction()
+export const getCategoryAction = adminAction.createServerAction()
   .input(checkSlugSchema.pick({ slug: true }).extend({ id: checkSlugSchema.shape.excludeId }))
   .handler(async ({ input }) => {
-    await requireAdmin();
-
     const db = getDB();
     const [category] = await db
       .select()
@@ -106,11 +100,9 @@ export const getCategoryAction = createServerAction()
   });
 
 // Check if slug is unique
-export const checkSlugUniqueAction = createServerAction()
+export const checkSlugUniqueAction = adminAction.createServerAction()
   .input(checkSlugSchema)
   .handler(async ({ input }) => {
-    await requireAdmin();
-
     const db = getDB();
     const conditions = [eq(categoryTable.slug, input.slug)];
 
@@ -129,11 +121,9 @@ export const checkSlugUniqueAction = createServerAction()
   });
 
 // Create new category
-export const createCategoryAction = createServerAction()
+export const createCategoryAction = adminAction.createServerAction()
   .input(createCategorySchema)
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Check if slug already exists
@@ -155,24 +145,30 @@ export const createCategoryAction = createServerAction()
     const displayOrder = (maxOrder?.max ?? 0) + 1;
 
     // Insert new category
-    await db.insert(categoryTable).values({
+    const [category] = await db.insert(categoryTable).values({
       name: input.name,
       slug: input.slug,
       description: input.description || null,
       imageUrl: input.imageUrl || null,
       displayOrder,
       active: input.active ? 1 : 0,
+    }).returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "category.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.CATEGORY,
+      entityId: category.id,
+      after: category,
     });
 
     return { success: true };
   });
 
 // Update existing category
-export const updateCategoryAction = createServerAction()
+export const updateCategoryAction = adminAction.createServerAction()
   .input(updateCategorySchema)
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Check if category exists
@@ -201,7 +197,7 @@ export const updateCategoryAction = createServerAction()
     }
 
     // Update category
-    await db
+    const [category] = await db
       .update(categoryTable)
       .set({
         name: input.name,
@@ -211,17 +207,25 @@ export const updateCategoryAction = createServerAction()
         active: input.active ? 1 : 0,
         updatedAt: new Date(),
       })
-      .where(eq(categoryTable.id, input.id));
+      .where(eq(categoryTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "category.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.CATEGORY,
+      entityId: input.id,
+      before: existing,
+      after: category,
+    });
 
     return { success: true };
   });
 
 // Delete category
-export const deleteCategoryAction = createServerAction()
+export const deleteCategoryAction = adminAction.createServerAction()
   .input(deleteCategorySchema)
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Check if category exists
@@ -255,17 +259,27 @@ export const deleteCategoryAction = createServerAction()
       .delete(categoryTable)
       .where(eq(categoryTable.id, input.id));
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "category.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.CATEGORY,
+      entityId: input.id,
+      before: existing,
+    });
+
     return { success: true };
   });
 
 // Reorder categories (bulk update display order)
-export const reorderCategoriesAction = createServerAction()
+export const reorderCategoriesAction = adminAction.createServerAction()
   .input(reorderCategoriesSchema)
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
+    const previousOrder = await db
+      .select({ id: categoryTable.id, displayOrder: categoryTable.displayOrder })
+      .from(categoryTable);
+
     // Update display order for each category
     // Note: D1 doesn't support transactions, so we do this sequentially
     for (const category of input.categories) {
@@ -278,14 +292,23 @@ export const reorderCategoriesAction = createServerAction()
         .where(eq(categoryTable.id, category.id));
     }
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "category.reorder",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.CATEGORY,
+      before: Object.fromEntries(previousOrder.map((c) => [c.id, c.displayOrder])),
+      after: {
+        ...Object.fromEntries(previousOrder.map((c) => [c.id, c.displayOrder])),
+        ...Object.fromEntries(input.categories.map((c) => [c.id, c.displayOrder])),
+      },
+    });
+
     return { success: true };
   });
 
 // Get active/featured products for category form dropdown
-export const getProductsForCategoryAction = createServerAction()
+export const getProductsForCategoryAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB();
     const products = await db
       .select({
@@ -302,11 +325,9 @@ export const getProductsForCategoryAction = createServerAction()
   });
 
 // Get products currently in a category
-export const getProductsByCategoryAction = createServerAction()
+export const getProductsByCategoryAction = adminAction.createServerAction()
   .input(z.object({ id: z.string().min(1) }))
   .handler(async ({ input }) => {
-    await requireAdmin();
-
     const db = getDB();
 
     // Get products in this category via junction table
@@ -321,14 +342,12 @@ export const getProductsByCategoryAction = createServerAction()
   });
 
 // Update product associations for a category
-export const updateCategoryProductsAction = createServerAction()
+export const updateCategoryProductsAction = adminAction.createServerAction()
   .input(z.object({
     categoryId: z.string().min(1),
     productIds: z.array(z.string()),
   }))
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Get all products currently in this category via junction table
@@ -365,6 +384,15 @@ export const updateCategoryProductsAction = createServerAction()
       );
     }
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "category.update_products",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.CATEGORY,
+      entityId: input.categoryId,
+      before: { productIds: currentProductIds },
+      after: { productIds: input.productIds },
+    });
+
     return {
       success: true,
       added: toAdd.length,
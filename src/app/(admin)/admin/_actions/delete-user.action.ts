@@ -1,35 +1,22 @@
 "use server"
 
-import { createServerAction } from "zsa"
+import { adminAction } from "@/lib/admin-action"
 import { z } from "zod"
 import { getDB } from "@/db"
 import { eq } from "drizzle-orm"
-import { userTable } from "@/db/schema"
-import { getSessionFromCookie } from "@/utils/auth"
+import { userTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema"
 import { revalidatePath } from "next/cache"
+import { recordAdminAudit } from "@/utils/admin-audit"
 
 const deleteUserSchema = z.object({
   userId: z.string().min(1, "User ID is required"),
 })
 
-export const deleteUserAction = createServerAction()
+export const deleteUserAction = adminAction.createServerAction()
   .input(deleteUserSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie()
-
-    if (!session) {
-      throw new Error("Unauthorized")
-    }
-
-    // Check if current user is admin
+  .handler(async ({ input, ctx }) => {
+    const { session } = ctx
     const db = getDB()
-    const currentUser = await db.query.userTable.findFirst({
-      where: eq(userTable.id, session.userId),
-    })
-
-    if (!currentUser || currentUser.role !== "admin") {
-      throw new Error("Unauthorized: Admin access required")
-    }
 
     // Prevent self-deletion
     if (input.userId === session.userId) {
@@ -48,6 +35,20 @@ export const deleteUserAction = createServerAction()
     // Delete the user
     await db.delete(userTable).where(eq(userTable.id, input.userId))
 
+    // Only identifying fields - never copy credentials into the audit log
+    await recordAdminAudit({
+      session,
+      action: "user.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.USER,
+      entityId: input.userId,
+      before: {
+        email: userToDelete.email,
+        firstName: userToDelete.firstName,
+        lastName: userToDelete.lastName,
+        role: userToDelete.role,
+      },
+    })
+
     // Revalidate the users page
     revalidatePath("/admin")
 
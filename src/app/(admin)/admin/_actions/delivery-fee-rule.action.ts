@@ -0,0 +1,198 @@
+"use server";
+
+import { getDB } from "@/db";
+import { deliveryFeeRuleTable, ADMIN_AUDIT_ENTITY_TYPE, deliveryFeeRuleTypeTuple, DELIVERY_FEE_RULE_TYPE } from "@/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { z } from "zod";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
+
+// Schema for creating/updating delivery fee rule
+const deliveryFeeRuleSchema = z.object({
+  name: z.string().min(1).max(255), // e.g., "Free Delivery Over $75"
+  ruleType: z.enum(deliveryFeeRuleTypeTuple),
+  feeAmount: z.number().int(), // In cents - custom rules may be negative (discount)
+  isActive: z.boolean().default(true),
+  priority: z.number().int().default(0), // Higher priority overrides lower
+  minimumOrderAmount: z.number().int().min(0).nullable().optional(), // In cents
+  freeDeliveryThreshold: z.number().int().min(0).nullable().optional(), // In cents
+  deliveryZoneId: z.string().nullable().optional(),
+  productCategoryIds: z.array(z.string()).nullable().optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.ZONE && !rule.deliveryZoneId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Select a delivery zone", path: ["deliveryZoneId"] });
+  }
+  if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY && !rule.productCategoryIds?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Select at least one category", path: ["productCategoryIds"] });
+  }
+  if (rule.ruleType !== DELIVERY_FEE_RULE_TYPE.CUSTOM && rule.feeAmount < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Fee amount can't be negative", path: ["feeAmount"] });
+  }
+});
+
+const updateDeliveryFeeRuleSchema = deliveryFeeRuleSchema.and(z.object({
+  id: z.string(),
+}));
+
+// Only keep the conditional fields that apply to the rule type
+function toDeliveryFeeRuleValues(input: z.infer<typeof deliveryFeeRuleSchema>) {
+  return {
+    name: input.name,
+    ruleType: input.ruleType,
+    feeAmount: input.feeAmount,
+    isActive: input.isActive ? 1 : 0,
+    priority: input.priority,
+    minimumOrderAmount: input.ruleType === DELIVERY_FEE_RULE_TYPE.ORDER_AMOUNT
+      ? input.minimumOrderAmount ?? null
+      : null,
+    freeDeliveryThreshold: input.freeDeliveryThreshold ?? null,
+    deliveryZoneId: input.ruleType === DELIVERY_FEE_RULE_TYPE.ZONE
+      ? input.deliveryZoneId ?? null
+      : null,
+    productCategoryIds: input.ruleType === DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY && input.productCategoryIds
+      ? JSON.stringify(input.productCategoryIds)
+      : null,
+  };
+}
+
+function parseDeliveryFeeRule<T extends { productCategoryIds: string | null }>(rule: T) {
+  return {
+    ...rule,
+    productCategoryIds: rule.productCategoryIds ? JSON.parse(rule.productCategoryIds) as string[] : [],
+  };
+}
+
+/**
+ * Get all delivery fee rules
+ */
+export const getDeliveryFeeRulesAction = adminAction.createServerAction()
+  .handler(async () => {
+    const db = getDB();
+
+    const rules = await db
+      .select()
+      .from(deliveryFeeRuleTable)
+      .orderBy(desc(deliveryFeeRuleTable.priority), deliveryFeeRuleTable.name);
+
+    // Parse JSON fields
+    return rules.map(parseDeliveryFeeRule);
+  });
+
+/**
+ * Create a new delivery fee rule
+ */
+export const createDeliveryFeeRuleAction = adminAction.createServerAction()
+  .input(deliveryFeeRuleSchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [newRule] = await db
+      .insert(deliveryFeeRuleTable)
+      .values(toDeliveryFeeRuleValues(input))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_fee_rule.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: newRule.id,
+      after: newRule,
+    });
+
+    return parseDeliveryFeeRule(newRule);
+  });
+
+/**
+ * Update an existing delivery fee rule
+ */
+export const updateDeliveryFeeRuleAction = adminAction.createServerAction()
+  .input(updateDeliveryFeeRuleSchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    // Verify rule exists
+    const [existingRule] = await db
+      .select()
+      .from(deliveryFeeRuleTable)
+      .where(eq(deliveryFeeRuleTable.id, input.id))
+      .limit(1);
+
+    if (!existingRule) {
+      throw new Error("Delivery fee rule not found");
+    }
+
+    const [updatedRule] = await db
+      .update(deliveryFeeRuleTable)
+      .set(toDeliveryFeeRuleValues(input))
+      .where(eq(deliveryFeeRuleTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_fee_rule.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingRule,
+      after: updatedRule,
+    });
+
+    return parseDeliveryFeeRule(updatedRule);
+  });
+
+/**
+ * Delete a delivery fee rule
+ */
+export const deleteDeliveryFeeRuleAction = adminAction.createServerAction()
+  .input(z.string())
+  .handler(async ({ input: id, ctx }) => {
+    const db = getDB();
+
+    const [deletedRule] = await db
+      .delete(deliveryFeeRuleTable)
+      .where(eq(deliveryFeeRuleTable.id, id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_fee_rule.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: deletedRule,
+    });
+
+    return { success: true };
+  });
+
+/**
+ * Toggle delivery fee rule active status
+ */
+export const toggleDeliveryFeeRuleAction = adminAction.createServerAction()
+  .input(z.object({
+    id: z.string(),
+    isActive: z.boolean(),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [updatedRule] = await db
+      .update(deliveryFeeRuleTable)
+      .set({
+        isActive: input.isActive ? 1 : 0,
+      })
+      .where(eq(deliveryFeeRuleTable.id, input.id))
+      .returning();
+
+    if (!updatedRule) {
+      throw new Error("Delivery fee rule not found");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_fee_rule.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      after: updatedRule,
+    });
+
+    return parseDeliveryFeeRule(updatedRule);
+  });
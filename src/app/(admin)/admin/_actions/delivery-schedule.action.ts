@@ -1,11 +1,12 @@
 "use server";
 
 import { getDB } from "@/db";
-import { deliveryScheduleTable, ROLES_ENUM } from "@/db/schema";
+import { deliveryScheduleTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
-import { createServerAction } from "zsa";
-import { getSessionFromCookie } from "@/utils/auth";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { toTimeSlotSource } from "@/utils/time-slots";
 
 // Schema for creating/updating delivery schedule
 const deliveryScheduleSchema = z.object({
@@ -15,6 +16,11 @@ const deliveryScheduleSchema = z.object({
   cutoffTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/), // HH:MM format
   leadTimeDays: z.number().min(0).default(2),
   deliveryTimeWindow: z.string().optional(),
+  // Bookable slots; leave slotDurationMinutes empty to offer none
+  slotStartTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).nullable().optional(), // HH:MM format
+  slotEndTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).nullable().optional(), // HH:MM format
+  slotDurationMinutes: z.number().int().min(5).max(720).nullable().optional(),
+  slotCapacity: z.number().int().min(1).nullable().optional(), // Max orders per slot, null = unlimited
   isActive: z.boolean().default(true),
 });
 
@@ -25,14 +31,8 @@ const updateDeliveryScheduleSchema = deliveryScheduleSchema.extend({
 /**
  * Get all delivery schedules
  */
-export const getDeliverySchedulesAction = createServerAction()
+export const getDeliverySchedulesAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const schedules = await db
@@ -46,15 +46,9 @@ export const getDeliverySchedulesAction = createServerAction()
 /**
  * Get a single delivery schedule by ID
  */
-export const getDeliveryScheduleByIdAction = createServerAction()
+export const getDeliveryScheduleByIdAction = adminAction.createServerAction()
   .input(z.string())
   .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const [schedule] = await db
@@ -73,15 +67,9 @@ export const getDeliveryScheduleByIdAction = createServerAction()
 /**
  * Create a new delivery schedule
  */
-export const createDeliveryScheduleAction = createServerAction()
+export const createDeliveryScheduleAction = adminAction.createServerAction()
   .input(deliveryScheduleSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     const [newSchedule] = await db
@@ -93,25 +81,28 @@ export const createDeliveryScheduleAction = createServerAction()
         cutoffTime: input.cutoffTime,
         leadTimeDays: input.leadTimeDays,
         deliveryTimeWindow: input.deliveryTimeWindow || null,
+        ...toTimeSlotSource(input),
         isActive: input.isActive ? 1 : 0,
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_schedule.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: newSchedule.id,
+      after: newSchedule,
+    });
+
     return newSchedule;
   });
 
 /**
  * Update an existing delivery schedule
  */
-export const updateDeliveryScheduleAction = createServerAction()
+export const updateDeliveryScheduleAction = adminAction.createServerAction()
   .input(updateDeliveryScheduleSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify schedule exists
@@ -135,26 +126,30 @@ export const updateDeliveryScheduleAction = createServerAction()
         cutoffTime: input.cutoffTime,
         leadTimeDays: input.leadTimeDays,
         deliveryTimeWindow: input.deliveryTimeWindow || null,
+        ...toTimeSlotSource(input),
         isActive: input.isActive ? 1 : 0,
       })
       .where(eq(deliveryScheduleTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_schedule.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingSchedule,
+      after: updatedSchedule,
+    });
+
     return updatedSchedule;
   });
 
 /**
  * Delete a delivery schedule
  */
-export const deleteDeliveryScheduleAction = createServerAction()
+export const deleteDeliveryScheduleAction = adminAction.createServerAction()
   .input(z.string())
-  .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input: id, ctx }) => {
     const db = getDB();
 
     // Verify schedule exists
@@ -173,24 +168,26 @@ export const deleteDeliveryScheduleAction = createServerAction()
       .delete(deliveryScheduleTable)
       .where(eq(deliveryScheduleTable.id, id));
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_schedule.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: existingSchedule,
+    });
+
     return { success: true };
   });
 
 /**
  * Toggle delivery schedule active status
  */
-export const toggleDeliveryScheduleAction = createServerAction()
+export const toggleDeliveryScheduleAction = adminAction.createServerAction()
   .input(z.object({
     id: z.string(),
     isActive: z.boolean(),
   }))
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify schedule exists
@@ -213,5 +210,14 @@ export const toggleDeliveryScheduleAction = createServerAction()
       .where(eq(deliveryScheduleTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_schedule.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingSchedule,
+      after: updatedSchedule,
+    });
+
     return updatedSchedule;
   });
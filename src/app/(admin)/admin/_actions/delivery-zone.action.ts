@@ -1,11 +1,11 @@
 "use server";
 
 import { getDB } from "@/db";
-import { deliveryZoneTable, ROLES_ENUM } from "@/db/schema";
+import { deliveryZoneTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { z } from "zod";
-import { createServerAction } from "zsa";
-import { getSessionFromCookie } from "@/utils/auth";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
 
 // Schema for creating/updating delivery zone
 const deliveryZoneSchema = z.object({
@@ -23,14 +23,8 @@ const updateDeliveryZoneSchema = deliveryZoneSchema.extend({
 /**
  * Get all delivery zones
  */
-export const getDeliveryZonesAction = createServerAction()
+export const getDeliveryZonesAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const zones = await db
@@ -48,15 +42,9 @@ export const getDeliveryZonesAction = createServerAction()
 /**
  * Get a single delivery zone by ID
  */
-export const getDeliveryZoneByIdAction = createServerAction()
+export const getDeliveryZoneByIdAction = adminAction.createServerAction()
   .input(z.string())
   .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const [zone] = await db
@@ -79,15 +67,9 @@ export const getDeliveryZoneByIdAction = createServerAction()
 /**
  * Create a new delivery zone
  */
-export const createDeliveryZoneAction = createServerAction()
+export const createDeliveryZoneAction = adminAction.createServerAction()
   .input(deliveryZoneSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     const [newZone] = await db
@@ -101,6 +83,14 @@ export const createDeliveryZoneAction = createServerAction()
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_zone.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: newZone.id,
+      after: newZone,
+    });
+
     // Parse JSON fields for response
     return {
       ...newZone,
@@ -111,15 +101,9 @@ export const createDeliveryZoneAction = createServerAction()
 /**
  * Update an existing delivery zone
  */
-export const updateDeliveryZoneAction = createServerAction()
+export const updateDeliveryZoneAction = adminAction.createServerAction()
   .input(updateDeliveryZoneSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify zone exists
@@ -146,6 +130,15 @@ export const updateDeliveryZoneAction = createServerAction()
       .where(eq(deliveryZoneTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_zone.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingZone,
+      after: updatedZone,
+    });
+
     // Parse JSON fields for response
     return {
       ...updatedZone,
@@ -156,15 +149,9 @@ export const updateDeliveryZoneAction = createServerAction()
 /**
  * Delete a delivery zone
  */
-export const deleteDeliveryZoneAction = createServerAction()
+export const deleteDeliveryZoneAction = adminAction.createServerAction()
   .input(z.string())
-  .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input: id, ctx }) => {
     const db = getDB();
 
     // Verify zone exists
@@ -183,24 +170,26 @@ export const deleteDeliveryZoneAction = createServerAction()
       .delete(deliveryZoneTable)
       .where(eq(deliveryZoneTable.id, id));
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_zone.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: existingZone,
+    });
+
     return { success: true };
   });
 
 /**
  * Toggle delivery zone active status
  */
-export const toggleDeliveryZoneAction = createServerAction()
+export const toggleDeliveryZoneAction = adminAction.createServerAction()
   .input(z.object({
     id: z.string(),
     isActive: z.boolean(),
   }))
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify zone exists
@@ -223,6 +212,15 @@ export const toggleDeliveryZoneAction = createServerAction()
       .where(eq(deliveryZoneTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "delivery_zone.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingZone,
+      after: updatedZone,
+    });
+
     // Parse JSON fields for response
     return {
       ...updatedZone,
@@ -233,15 +231,9 @@ export const toggleDeliveryZoneAction = createServerAction()
 /**
  * Lookup delivery zone by ZIP code
  */
-export const lookupDeliveryZoneAction = createServerAction()
+export const lookupDeliveryZoneAction = adminAction.createServerAction()
   .input(z.string())
   .handler(async ({ input: zipCode }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     // Get all active zones
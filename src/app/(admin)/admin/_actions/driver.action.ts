@@ -0,0 +1,251 @@
+"use server";
+
+import { getDB } from "@/db";
+import { driverTable, userTable, ADMIN_AUDIT_ENTITY_TYPE, ROLES_ENUM } from "@/db/schema";
+import { and, eq, ne, asc, desc } from "drizzle-orm";
+import { z } from "zod";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { updateAllSessionsOfUser } from "@/utils/kv-session";
+
+// Schema for creating/updating a driver
+const driverSchema = z.object({
+  name: z.string().min(1).max(255),
+  phone: z.string().max(50).nullable().optional(),
+  vehicleName: z.string().max(255).nullable().optional(), // e.g., "White van"
+  maxStops: z.number().int().min(1).nullable().optional(), // null = unlimited
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #2563eb"),
+  isActive: z.boolean().default(true),
+  userEmail: z.string().email().nullable().optional(), // Account that opens the run sheet
+});
+
+const updateDriverSchema = driverSchema.extend({
+  id: z.string(),
+});
+
+function toDriverValues(input: z.infer<typeof driverSchema>, userId: string | null) {
+  return {
+    name: input.name,
+    phone: input.phone || null,
+    vehicleName: input.vehicleName || null,
+    maxStops: input.maxStops ?? null,
+    color: input.color,
+    isActive: input.isActive ? 1 : 0,
+    userId,
+  };
+}
+
+/**
+ * Find the account a driver logs in with. Customer accounts become drivers
+ * so they can open the run sheet; admins keep their role.
+ */
+async function linkDriverAccount(
+  email: string | null | undefined,
+  driverId?: string
+): Promise<string | null> {
+  if (!email) {
+    return null;
+  }
+
+  const db = getDB();
+
+  const [user] = await db
+    .select()
+    .from(userTable)
+    .where(eq(userTable.email, email.toLowerCase()))
+    .limit(1);
+
+  if (!user) {
+    throw new Error(`No account found for ${email}. Ask the driver to sign up first.`);
+  }
+
+  const [otherDriver] = await db
+    .select({ name: driverTable.name })
+    .from(driverTable)
+    .where(and(
+      eq(driverTable.userId, user.id),
+      driverId ? ne(driverTable.id, driverId) : undefined
+    ))
+    .limit(1);
+
+  if (otherDriver) {
+    throw new Error(`${email} is already linked to ${otherDriver.name}`);
+  }
+
+  if (user.role === ROLES_ENUM.USER) {
+    await db
+      .update(userTable)
+      .set({ role: ROLES_ENUM.DRIVER })
+      .where(eq(userTable.id, user.id));
+    await updateAllSessionsOfUser(user.id);
+  }
+
+  return user.id;
+}
+
+/**
+ * An account that no longer drives goes back to being a customer
+ */
+async function unlinkDriverAccount(userId: string | null): Promise<void> {
+  if (!userId) {
+    return;
+  }
+
+  const db = getDB();
+
+  const [user] = await db
+    .update(userTable)
+    .set({ role: ROLES_ENUM.USER })
+    .where(and(eq(userTable.id, userId), eq(userTable.role, ROLES_ENUM.DRIVER)))
+    .returning({ id: userTable.id });
+
+  if (user) {
+    await updateAllSessionsOfUser(user.id);
+  }
+}
+
+/**
+ * Get all drivers with their login email, active ones first
+ */
+export const getDriversAction = adminAction.createServerAction()
+  .handler(async () => {
+    const db = getDB();
+
+    const rows = await db
+      .select({
+        driver: driverTable,
+        userEmail: userTable.email,
+      })
+      .from(driverTable)
+      .leftJoin(userTable, eq(driverTable.userId, userTable.id))
+      .orderBy(desc(driverTable.isActive), asc(driverTable.name));
+
+    return rows.map(({ driver, userEmail }) => ({ ...driver, userEmail }));
+  });
+
+/**
+ * Create a new driver
+ */
+export const createDriverAction = adminAction.createServerAction()
+  .input(driverSchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const userId = await linkDriverAccount(input.userEmail);
+
+    const [driver] = await db
+      .insert(driverTable)
+      .values(toDriverValues(input, userId))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "driver.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: driver.id,
+      after: driver,
+    });
+
+    return driver;
+  });
+
+/**
+ * Update an existing driver
+ */
+export const updateDriverAction = adminAction.createServerAction()
+  .input(updateDriverSchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [existing] = await db
+      .select()
+      .from(driverTable)
+      .where(eq(driverTable.id, input.id))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error("Driver not found");
+    }
+
+    const userId = await linkDriverAccount(input.userEmail, input.id);
+
+    const [driver] = await db
+      .update(driverTable)
+      .set(toDriverValues(input, userId))
+      .where(eq(driverTable.id, input.id))
+      .returning();
+
+    if (existing.userId !== userId) {
+      await unlinkDriverAccount(existing.userId);
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "driver.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existing,
+      after: driver,
+    });
+
+    return driver;
+  });
+
+/**
+ * Delete a driver. Their stops go back to the unassigned route.
+ */
+export const deleteDriverAction = adminAction.createServerAction()
+  .input(z.string())
+  .handler(async ({ input: id, ctx }) => {
+    const db = getDB();
+
+    const [deleted] = await db
+      .delete(driverTable)
+      .where(eq(driverTable.id, id))
+      .returning();
+
+    await unlinkDriverAccount(deleted?.userId ?? null);
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "driver.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: deleted,
+    });
+
+    return { success: true };
+  });
+
+/**
+ * Toggle driver active status
+ */
+export const toggleDriverAction = adminAction.createServerAction()
+  .input(z.object({
+    id: z.string(),
+    isActive: z.boolean(),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [driver] = await db
+      .update(driverTable)
+      .set({
+        isActive: input.isActive ? 1 : 0,
+      })
+      .where(eq(driverTable.id, input.id))
+      .returning();
+
+    if (!driver) {
+      throw new Error("Driver not found");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "driver.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      after: driver,
+    });
+
+    return driver;
+  });
@@ -1,18 +1,21 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { orderTable, orderItemTable, productTable, pickupLocationTable, deliveryZoneTable } from "@/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { orderTable, orderItemTable, productTable, pickupLocationTable, deliveryZoneTable, driverTable } from "@/db/schema";
+import { eq, and, sql, isNull } from "drizzle-orm";
 
 /**
- * Export delivery orders for a specific date as CSV for route planning
+ * Export delivery orders for a specific date as CSV for route planning,
+ * in route order. A driver ID limits the export to that driver's route;
+ * null exports the unassigned route.
  */
-export const exportDeliveryRoutesAction = createServerAction()
+export const exportDeliveryRoutesAction = adminAction.createServerAction()
   .input(
     z.object({
       deliveryDate: z.string(), // ISO date string
+      driverId: z.string().nullable().optional(), // Omit for every route
     })
   )
   .handler(async ({ input }) => {
@@ -26,23 +29,32 @@ export const exportDeliveryRoutesAction = createServerAction()
         item: orderItemTable,
         product: productTable,
         deliveryZone: deliveryZoneTable,
+        driver: driverTable,
       })
       .from(orderTable)
       .leftJoin(orderItemTable, eq(orderTable.id, orderItemTable.orderId))
       .leftJoin(productTable, eq(orderItemTable.productId, productTable.id))
       .leftJoin(deliveryZoneTable, eq(orderTable.deliveryZoneId, deliveryZoneTable.id))
+      .leftJoin(driverTable, eq(orderTable.deliveryDriverId, driverTable.id))
       .where(
         and(
           eq(orderTable.fulfillmentMethod, "delivery"),
-          sql`substr(${orderTable.deliveryDate}, 1, 10) = ${input.deliveryDate}`
+          sql`substr(${orderTable.deliveryDate}, 1, 10) = ${input.deliveryDate}`,
+          input.driverId === undefined
+            ? undefined
+            : input.driverId === null
+              ? isNull(orderTable.deliveryDriverId)
+              : eq(orderTable.deliveryDriverId, input.driverId)
         )
-      );
+      )
+      .orderBy(driverTable.name, orderTable.deliverySequence);
 
     // Group items by order
     const orderMap = new Map<string, {
       order: typeof orders[0]["order"];
       items: Array<{ item: typeof orders[0]["item"]; product: typeof orders[0]["product"] }>;
       deliveryZone: typeof orders[0]["deliveryZone"];
+      driver: typeof orders[0]["driver"];
     }>();
 
     for (const row of orders) {
@@ -51,6 +63,7 @@ export const exportDeliveryRoutesAction = createServerAction()
           order: row.order,
           items: [],
           deliveryZone: row.deliveryZone,
+          driver: row.driver,
         });
       }
       if (row.item && row.product) {
@@ -64,7 +77,7 @@ export const exportDeliveryRoutesAction = createServerAction()
     // Build CSV content
     const csvRows: string[] = [
       // Header row
-      "Order ID,Customer Name,Phone,Address,City,State,ZIP,Delivery Window,Zone,Fee,Total,Items,Instructions,Status",
+      "Driver,Stop,ETA,Order ID,Customer Name,Phone,Address,City,State,ZIP,Delivery Window,Zone,Fee,Total,Items,Instructions,Status",
     ];
 
     for (const orderData of orderMap.values()) {
@@ -92,6 +105,9 @@ export const exportDeliveryRoutesAction = createServerAction()
 
       csvRows.push(
         [
+          `"${orderData.driver?.name || ""}"`,
+          order.deliverySequence !== null ? order.deliverySequence + 1 : "",
+          order.estimatedArrivalTime || "",
           order.id,
           `"${order.customerName}"`,
           order.customerPhone || "",
@@ -111,10 +127,15 @@ export const exportDeliveryRoutesAction = createServerAction()
     }
 
     const csvContent = csvRows.join("\n");
+    const driverName = input.driverId
+      ? orderMap.values().next().value?.driver?.name
+      : null;
 
     return {
       csvContent,
-      filename: `delivery-routes-${input.deliveryDate}.csv`,
+      filename: driverName
+        ? `delivery-route-${driverName.replace(/\s+/g, "-")}-${input.deliveryDate}.csv`
+        : `delivery-routes-${input.deliveryDate}.csv`,
       orderCount: orderMap.size,
     };
   });
@@ -122,7 +143,7 @@ export const exportDeliveryRoutesAction = createServerAction()
 /**
  * Export pickup orders for a specific date and location for printing
  */
-export const exportPickupListAction = createServerAction()
+export const exportPickupListAction = adminAction.createServerAction()
   .input(
     z.object({
       pickupDate: z.string(), // ISO date string
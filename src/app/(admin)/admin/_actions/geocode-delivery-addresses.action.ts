@@ -1,9 +1,16 @@
 'use server'
 
-import { createServerAction } from 'zsa';
+import { adminAction } from '@/lib/admin-action';
 import { z } from 'zod';
+import { ADMIN_AUDIT_ENTITY_TYPE } from '@/db/schema';
+import { recordAdminAudit } from '@/utils/admin-audit';
+import { geocodeAddress, geocodeOrderAddress, pinOrderLocation } from '@/utils/geocoding';
 
-export const geocodeDeliveryAddresses = createServerAction()
+/**
+ * Geocode addresses through the geocode cache. Addresses that can't be
+ * found come back as null, in the same position as the input.
+ */
+export const geocodeDeliveryAddresses = adminAction.createServerAction()
   .input(z.object({
     addresses: z.array(z.object({
       street: z.string(),
@@ -13,42 +20,53 @@ export const geocodeDeliveryAddresses = createServerAction()
     })),
   }))
   .handler(async ({ input }) => {
-    const geocodeResults = await Promise.all(
+    return await Promise.all(
       input.addresses.map(async (address) => {
-        const addressString = `${address.street}, ${address.city}, ${address.state} ${address.zip}`;
+        const result = await geocodeAddress(address);
+        return result ? { ...address, ...result } : null;
+      })
+    );
+  });
 
-        try {
-          // Use Google Geocoding API (server-side)
-          const response = await fetch(
-            `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(addressString)}&key=${process.env.GOOGLE_MAPS_API_KEY}`
-          );
+/**
+ * Stored delivery coordinates for orders, geocoding (and storing) any that
+ * don't have them yet
+ */
+export const getDeliveryLocationsAction = adminAction.createServerAction()
+  .input(z.object({
+    orderIds: z.array(z.string()),
+  }))
+  .handler(async ({ input }) => {
+    const locations = await Promise.all(
+      input.orderIds.map(async (orderId) => {
+        const result = await geocodeOrderAddress(orderId);
+        return result ? { orderId, ...result } : null;
+      })
+    );
 
-          const data = await response.json() as {
-            results?: Array<{
-              geometry: {
-                location: {
-                  lat: number;
-                  lng: number;
-                };
-              };
-            }>;
-          };
+    return locations.filter((location) => location !== null);
+  });
 
-          if (data.results?.[0]) {
-            return {
-              ...address,
-              lat: data.results[0].geometry.location.lat,
-              lng: data.results[0].geometry.location.lng,
-            };
-          }
+/**
+ * Pin a delivery stop's location by hand when the geocoded one is wrong
+ */
+export const pinDeliveryLocationAction = adminAction.createServerAction()
+  .input(z.object({
+    orderId: z.string(),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const before = await pinOrderLocation(input);
 
-          return null;
-        } catch (error) {
-          console.error(`Failed to geocode address: ${addressString}`, error);
-          return null;
-        }
-      })
-    );
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "order.pin_delivery_location",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+      entityId: input.orderId,
+      before,
+      after: { lat: input.lat, lng: input.lng },
+    });
 
-    return geocodeResults.filter(Boolean);
+    return { success: true };
   });
@@ -1,12 +1,12 @@
 'use server'
 
-import { createServerAction } from 'zsa';
+import { adminAction } from '@/lib/admin-action';
 import { z } from 'zod';
 import { getDB } from '@/db';
 import { orderTable } from '@/db/schema';
 import { eq, and, isNotNull } from 'drizzle-orm';
 
-export const getDeliveryRoute = createServerAction()
+export const getDeliveryRoute = adminAction.createServerAction()
   .input(z.object({
     deliveryDate: z.string(), // ISO date "2024-10-26"
   }))
@@ -17,6 +17,7 @@ export const getDeliveryRoute = createServerAction()
     const orders = await db
       .select({
         id: orderTable.id,
+        deliveryDriverId: orderTable.deliveryDriverId,
         deliverySequence: orderTable.deliverySequence,
         estimatedArrivalTime: orderTable.estimatedArrivalTime,
         routeDurationFromPrevious: orderTable.routeDurationFromPrevious,
@@ -29,7 +30,7 @@ export const getDeliveryRoute = createServerAction()
           isNotNull(orderTable.deliverySequence)
         )
       )
-      .orderBy(orderTable.deliverySequence);
+      .orderBy(orderTable.deliveryDriverId, orderTable.deliverySequence);
 
     if (orders.length === 0) {
       return null;
@@ -39,6 +40,7 @@ export const getDeliveryRoute = createServerAction()
       deliveryDate: input.deliveryDate,
       routeSegments: orders.map(order => ({
         orderId: order.id,
+        driverId: order.deliveryDriverId, // null = unassigned route
         sequence: order.deliverySequence!,
         estimatedArrival: order.estimatedArrivalTime!,
         durationFromPrevious: order.routeDurationFromPrevious!,
@@ -1,6 +1,6 @@
 "use server"
 
-import { createServerAction } from "zsa"
+import { adminAction } from "@/lib/admin-action"
 import { getDB } from "@/db"
 import { requireAdmin } from "@/utils/auth"
 import { z } from "zod"
@@ -38,7 +38,7 @@ const getUserHandler = async ({ input }: { input: { userId: string } }) => {
   }
 }
 
-export const getUserAction = createServerAction()
+export const getUserAction = adminAction.createServerAction()
   .input(getUserSchema)
   .handler(getUserHandler)
 
@@ -1,8 +1,7 @@
 "use server"
 
-import { createServerAction } from "zsa"
+import { adminAction } from "@/lib/admin-action"
 import { getDB } from "@/db"
-import { requireAdmin } from "@/utils/auth"
 import { z } from "zod"
 import { sql } from "drizzle-orm"
 import { userTable } from "@/db/schema"
@@ -14,11 +13,9 @@ const getUsersSchema = z.object({
   emailFilter: z.string().optional(),
 })
 
-export const getUsersAction = createServerAction()
+export const getUsersAction = adminAction.createServerAction()
   .input(getUsersSchema)
   .handler(async ({ input }) => {
-    await requireAdmin()
-
     const db = getDB()
     const { page, pageSize, emailFilter } = input
 
@@ -1,6 +1,6 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
 import { orderTable } from "@/db/schema";
@@ -101,7 +101,7 @@ async function sendBrevoEmail({
   return response.json();
 }
 
-export const notifyDeliveryETA = createServerAction()
+export const notifyDeliveryETA = adminAction.createServerAction()
   .input(
     z.object({
       deliveryDate: z.string(), // ISO date "2024-10-26"
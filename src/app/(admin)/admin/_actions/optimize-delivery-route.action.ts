@@ -1,7 +1,22 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
+import { inArray } from "drizzle-orm";
+import { getDB } from "@/db";
+import { driverTable } from "@/db/schema";
+import { saveRouteStops } from "@/utils/delivery-routes";
+import {
+  GOOGLE_MAX_WAYPOINTS,
+  ROUTE_BALANCE,
+  ROUTE_ENGINE,
+  getRouteLegs,
+  buildHaversineMatrix,
+  optimizeRouteOffline,
+  partitionStops,
+  type RouteEngine,
+  type RouteLeg,
+} from "@/utils/route-optimizer";
 
 const DeliveryStopSchema = z.object({
   orderId: z.string(),
@@ -15,9 +30,13 @@ const DeliveryStopSchema = z.object({
   lng: z.number(),
   customerName: z.string(),
   timeWindow: z.string().optional(),
+  timeSlotStart: z.string().optional(), // "10:00" - booked delivery window, HH:mm
+  timeSlotEnd: z.string().optional(), // "12:00"
   estimatedArrival: z.string().optional(),
 });
 
+type DeliveryStop = z.infer<typeof DeliveryStopSchema>;
+
 const DepotAddressSchema = z.object({
   lat: z.number(),
   lng: z.number(),
@@ -31,6 +50,7 @@ interface RouteSegment {
   estimatedDeparture: string;
   durationFromPrevious: number; // seconds
   distanceFromPrevious: number; // meters
+  isLate: boolean; // Arrives after the stop's booked window ends
 }
 
 // Google Maps API Response Types
@@ -51,168 +71,324 @@ interface GoogleMapsDirectionsResponse {
   routes: GoogleMapsRoute[];
 }
 
-/**
- * Optimize delivery route using Google Directions API
- * Returns optimized order of stops with timing information
- */
-export const optimizeDeliveryRoute = createServerAction()
-  .input(
-    z.object({
-      deliveries: z.array(DeliveryStopSchema),
-      depotAddress: DepotAddressSchema,
-      startTime: z.string().default("09:00:00"), // HH:mm:ss
-      stopDuration: z.number().default(300), // seconds (5 min)
-    })
-  )
-  .handler(async ({ input }) => {
-    const { deliveries, depotAddress, startTime, stopDuration } = input;
-
-    if (!process.env.GOOGLE_MAPS_API_KEY) {
-      throw new Error("GOOGLE_MAPS_API_KEY not configured");
-    }
-
-    if (deliveries.length === 0) {
-      return {
-        optimizedDeliveries: [],
-        segments: [],
-        totalDistance: 0,
-        totalDuration: 0,
-        savings: {
-          distanceSaved: 0,
-          timeSaved: 0,
-        },
-      };
-    }
+async function getDirections({
+  origin,
+  waypoints,
+  optimize,
+}: {
+  origin: string;
+  waypoints: string[];
+  optimize: boolean;
+}): Promise<GoogleMapsDirectionsResponse> {
+  const url = new URL(
+    "https://maps.googleapis.com/maps/api/directions/json"
+  );
+  url.searchParams.set("origin", origin);
+  url.searchParams.set("destination", origin); // Return to depot
+  // IMPORTANT: Don't use 'via:' prefix - that makes them pass-through points, not stops!
+  url.searchParams.set(
+    "waypoints",
+    optimize ? `optimize:true|${waypoints.join("|")}` : waypoints.join("|")
+  );
+  url.searchParams.set("mode", "driving");
+  url.searchParams.set("key", process.env.GOOGLE_MAPS_API_KEY!);
+
+  const response = await fetch(url.toString());
+  return (await response.json()) as GoogleMapsDirectionsResponse;
+}
 
-    // Build waypoints for Google Directions API
-    const waypoints = deliveries.map((d) => `${d.lat},${d.lng}`);
+// "HH:mm" or "HH:mm:ss" on the route's day
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
 
-    // Call Google Directions API with optimization enabled
-    const origin = `${depotAddress.lat},${depotAddress.lng}`;
-    const destination = origin; // Return to depot
+/**
+ * Google can't optimize with time windows, so keep its order within each
+ * booked window but visit earlier windows first. Stops without a window
+ * stay with the stop before them.
+ */
+function orderByTimeWindow(stops: DeliveryStop[]): DeliveryStop[] {
+  let windowStart = "";
 
-    // IMPORTANT: Don't use 'via:' prefix - that makes them pass-through points, not stops!
-    const waypointsParam = waypoints.join("|");
+  return stops
+    .map((stop, index) => {
+      windowStart = stop.timeSlotStart ?? windowStart;
+      return { stop, index, windowStart };
+    })
+    .sort((a, b) => a.windowStart.localeCompare(b.windowStart) || a.index - b.index)
+    .map(({ stop }) => stop);
+}
 
-    const url = new URL(
-      "https://maps.googleapis.com/maps/api/directions/json"
+/**
+ * Optimize with Google's waypoint optimization, then move booked windows
+ * into order. Returns the visiting order as indices into deliveries, the
+ * legs including the return to the depot, and the legs in the original order.
+ */
+async function optimizeWithGoogle({
+  deliveries,
+  depotAddress,
+}: {
+  deliveries: DeliveryStop[];
+  depotAddress: z.infer<typeof DepotAddressSchema>;
+}): Promise<{ waypointOrder: number[]; legs: RouteLeg[]; originalLegs: RouteLeg[] }> {
+  if (!process.env.GOOGLE_MAPS_API_KEY) {
+    throw new Error("GOOGLE_MAPS_API_KEY not configured");
+  }
+
+  if (deliveries.length > GOOGLE_MAX_WAYPOINTS) {
+    throw new Error(
+      `Google can optimize at most ${GOOGLE_MAX_WAYPOINTS} stops; use the built-in optimizer for ${deliveries.length}`
     );
-    url.searchParams.set("origin", origin);
-    url.searchParams.set("destination", destination);
-    url.searchParams.set("waypoints", `optimize:true|${waypointsParam}`);
-    url.searchParams.set("mode", "driving");
-    url.searchParams.set("key", process.env.GOOGLE_MAPS_API_KEY);
-
-    const response = await fetch(url.toString());
-    const data = (await response.json()) as GoogleMapsDirectionsResponse;
+  }
+
+  const toLegs = (route: GoogleMapsRoute): RouteLeg[] =>
+    route.legs.map((leg) => ({ duration: leg.duration.value, distance: leg.distance.value }));
+
+  // Build waypoints for Google Directions API
+  const toWaypoint = (d: DeliveryStop) => `${d.lat},${d.lng}`;
+  const waypoints = deliveries.map(toWaypoint);
+
+  // Call Google Directions API with optimization enabled
+  const origin = `${depotAddress.lat},${depotAddress.lng}`;
+  const data = await getDirections({ origin, waypoints, optimize: true });
+
+  if (data.status !== "OK" || !data.routes?.[0]) {
+    throw new Error(`Route optimization failed: ${data.status}`);
+  }
+
+  const route = data.routes[0];
+  let waypointOrder = route.waypoint_order as number[];
+  let legs = toLegs(route);
+
+  console.log('[Optimize] Input deliveries count:', deliveries.length);
+  console.log('[Optimize] Waypoint order from Google:', waypointOrder);
+  console.log('[Optimize] Legs count:', legs.length);
+
+  // Booked delivery windows come first; re-route if they changed the order
+  const optimizedDeliveries = waypointOrder.map((idx) => deliveries[idx]);
+  const windowOrdered = orderByTimeWindow(optimizedDeliveries);
+  if (windowOrdered.some((stop, index) => stop !== optimizedDeliveries[index])) {
+    const windowData = await getDirections({
+      origin,
+      waypoints: windowOrdered.map(toWaypoint),
+      optimize: false,
+    });
 
-    if (data.status !== "OK" || !data.routes?.[0]) {
-      throw new Error(`Route optimization failed: ${data.status}`);
+    if (windowData.status !== "OK" || !windowData.routes?.[0]) {
+      throw new Error(`Route optimization failed: ${windowData.status}`);
     }
 
-    const route = data.routes[0];
-    const waypointOrder = route.waypoint_order as number[];
-    const legs = route.legs;
+    waypointOrder = windowOrdered.map((stop) => deliveries.indexOf(stop));
+    legs = toLegs(windowData.routes[0]);
+    console.log('[Optimize] Reordered for delivery windows:', waypointOrder);
+  }
 
-    console.log('[Optimize] Input deliveries count:', deliveries.length);
-    console.log('[Optimize] Waypoint order from Google:', waypointOrder);
-    console.log('[Optimize] Legs count:', legs.length);
+  // The original route, to report savings
+  const originalData = await getDirections({ origin, waypoints, optimize: false });
+  const originalLegs = originalData.status === "OK" && originalData.routes?.[0]
+    ? toLegs(originalData.routes[0])
+    : [];
 
-    // Reorder deliveries based on optimized waypoint order
-    const optimizedDeliveries = waypointOrder.map((idx) => deliveries[idx]);
-    console.log('[Optimize] Optimized deliveries count:', optimizedDeliveries.length);
-
-    // Calculate segment timing
-    const [hours, minutes] = startTime.split(":").map(Number);
-    let currentTime = new Date();
-    currentTime.setHours(hours, minutes, 0, 0);
-
-    const segments: RouteSegment[] = [];
+  return { waypointOrder, legs, originalLegs };
+}
 
-    legs.forEach((leg, index) => {
-      // Skip last leg (return to depot)
-      if (index >= optimizedDeliveries.length) {
-        console.log(`[Optimize] Skipping leg ${index} (return to depot)`);
-        return;
-      }
+const OptimizeRouteInputSchema = z.object({
+  deliveries: z.array(DeliveryStopSchema),
+  depotAddress: DepotAddressSchema,
+  startTime: z.string().default("09:00:00"), // HH:mm:ss
+  stopDuration: z.number().default(300), // seconds (5 min)
+  engine: z.enum([ROUTE_ENGINE.GOOGLE, ROUTE_ENGINE.BUILT_IN]).optional(),
+});
 
-      const driveDuration = leg.duration.value; // seconds
-      const driveDistance = leg.distance.value; // meters
+type OptimizeRouteInput = z.infer<typeof OptimizeRouteInputSchema>;
 
-      // Arrival time = current time + drive time
-      const arrivalTime = new Date(currentTime.getTime() + driveDuration * 1000);
-      // Departure time = arrival time + stop duration
-      const departureTime = new Date(
-        arrivalTime.getTime() + stopDuration * 1000
-      );
+/**
+ * Optimize one route with Google Directions or the built-in optimizer.
+ * Without an engine, Google is used when there's an API key and the stops
+ * fit in one request.
+ */
+async function optimizeRoute(input: OptimizeRouteInput) {
+  const { deliveries, depotAddress, startTime, stopDuration } = input;
+  const engine: RouteEngine = input.engine ?? (
+    process.env.GOOGLE_MAPS_API_KEY && deliveries.length <= GOOGLE_MAX_WAYPOINTS
+      ? ROUTE_ENGINE.GOOGLE
+      : ROUTE_ENGINE.BUILT_IN
+  );
+
+  if (deliveries.length === 0) {
+    return {
+      optimizedDeliveries: [],
+      segments: [],
+      totalDistance: 0,
+      totalDuration: 0,
+      savings: {
+        distanceSaved: 0,
+        timeSaved: 0,
+      },
+      lateStops: [],
+      engine,
+    };
+  }
+
+  let waypointOrder: number[];
+  let legs: RouteLeg[];
+  let originalLegs: RouteLeg[];
+
+  if (engine === ROUTE_ENGINE.GOOGLE) {
+    ({ waypointOrder, legs, originalLegs } = await optimizeWithGoogle({ deliveries, depotAddress }));
+  } else {
+    const matrix = buildHaversineMatrix(depotAddress, deliveries);
+    ({ order: waypointOrder, legs } = optimizeRouteOffline({
+      depot: depotAddress,
+      stops: deliveries,
+      startTime,
+      stopDuration,
+      matrix,
+    }));
+    originalLegs = getRouteLegs(matrix, deliveries.map((_, index) => index));
+  }
+
+  // Reorder deliveries based on optimized waypoint order
+  const optimizedDeliveries = waypointOrder.map((idx) => deliveries[idx]);
+  console.log(`[Optimize] ${engine}: ${optimizedDeliveries.length} stops`);
+
+  // Calculate segment timing
+  const [hours, minutes] = startTime.split(":").map(Number);
+  let currentTime = new Date();
+  currentTime.setHours(hours, minutes, 0, 0);
+
+  const segments: RouteSegment[] = [];
+
+  legs.forEach((leg, index) => {
+    // Skip last leg (return to depot)
+    if (index >= optimizedDeliveries.length) return;
+
+    const driveDuration = leg.duration; // seconds
+    const driveDistance = leg.distance; // meters
+
+    const stop = optimizedDeliveries[index];
+
+    // Arrival time = current time + drive time
+    let arrivalTime = new Date(currentTime.getTime() + driveDuration * 1000);
+
+    // Arriving before a booked window opens means waiting for it
+    if (stop.timeSlotStart && arrivalTime < atTime(currentTime, stop.timeSlotStart)) {
+      arrivalTime = atTime(currentTime, stop.timeSlotStart);
+    }
 
-      segments.push({
-        orderId: optimizedDeliveries[index].orderId,
-        sequence: index,
-        estimatedArrival: arrivalTime.toTimeString().slice(0, 8), // HH:mm:ss
-        estimatedDeparture: departureTime.toTimeString().slice(0, 8),
-        durationFromPrevious: driveDuration,
-        distanceFromPrevious: driveDistance,
-      });
+    // Departure time = arrival time + stop duration
+    const departureTime = new Date(
+      arrivalTime.getTime() + stopDuration * 1000
+    );
 
-      // Update current time for next leg
-      currentTime = departureTime;
+    segments.push({
+      orderId: stop.orderId,
+      sequence: index,
+      estimatedArrival: arrivalTime.toTimeString().slice(0, 8), // HH:mm:ss
+      estimatedDeparture: departureTime.toTimeString().slice(0, 8),
+      durationFromPrevious: driveDuration,
+      distanceFromPrevious: driveDistance,
+      isLate: !!stop.timeSlotEnd && arrivalTime > atTime(currentTime, stop.timeSlotEnd),
     });
 
-    console.log('[Optimize] Segments built:', segments.length);
+    // Update current time for next leg
+    currentTime = departureTime;
+  });
 
-    // Calculate totals
-    const totalDistance = legs.reduce(
-      (sum, leg) => sum + leg.distance.value,
-      0
-    );
-    const totalDuration = legs.reduce(
-      (sum, leg) => sum + leg.duration.value,
-      0
-    );
+  // Calculate totals
+  const sumLegs = (routeLegs: RouteLeg[], key: keyof RouteLeg) =>
+    routeLegs.reduce((sum, leg) => sum + leg[key], 0);
+  const totalDistance = sumLegs(legs, "distance");
+  const totalDuration = sumLegs(legs, "duration");
+
+  return {
+    optimizedDeliveries,
+    segments,
+    totalDistance,
+    totalDuration,
+    waypointOrder,
+    savings: {
+      distanceSaved: Math.max(0, sumLegs(originalLegs, "distance") - totalDistance),
+      timeSaved: Math.max(0, sumLegs(originalLegs, "duration") - totalDuration),
+    },
+    // Stops the route can't reach before their booked window ends
+    lateStops: segments.filter((segment) => segment.isLate).map((segment) => segment.orderId),
+    // Built-in distances and times are estimates, not road routes
+    engine,
+  };
+}
 
-    // Calculate savings (we'll need to compare with original route)
-    // For now, we'll calculate the original route distance/duration
-    const originalUrl = new URL(
-      "https://maps.googleapis.com/maps/api/directions/json"
-    );
-    originalUrl.searchParams.set("origin", origin);
-    originalUrl.searchParams.set("destination", destination);
-    originalUrl.searchParams.set(
-      "waypoints",
-      waypoints.join("|") // No 'via:' prefix - we want actual stops, not pass-through points
-    );
-    originalUrl.searchParams.set("mode", "driving");
-    originalUrl.searchParams.set("key", process.env.GOOGLE_MAPS_API_KEY);
+/**
+ * Optimize delivery route with Google Directions or the built-in optimizer
+ * Returns optimized order of stops with timing information
+ */
+export const optimizeDeliveryRoute = adminAction.createServerAction()
+  .input(OptimizeRouteInputSchema)
+  .handler(async ({ input }) => {
+    return await optimizeRoute(input);
+  });
 
-    const originalResponse = await fetch(originalUrl.toString());
-    const originalData =
-      (await originalResponse.json()) as GoogleMapsDirectionsResponse;
+/**
+ * Split a date's deliveries into one route per driver, balanced by stop
+ * count or estimated drive time, then optimize and save each route. With
+ * fewer than two drivers every stop goes on a single route.
+ */
+export const planDeliveryRoutesAction = adminAction.createServerAction()
+  .input(
+    OptimizeRouteInputSchema.extend({
+      driverIds: z.array(z.string()),
+      balanceBy: z.enum([ROUTE_BALANCE.STOPS, ROUTE_BALANCE.DURATION]).default(ROUTE_BALANCE.DURATION),
+    })
+  )
+  .handler(async ({ input, ctx }) => {
+    const { deliveries, depotAddress, startTime, stopDuration, driverIds, balanceBy } = input;
+
+    const drivers = driverIds.length > 0
+      ? await getDB().select().from(driverTable).where(inArray(driverTable.id, driverIds))
+      : [];
+    // Keep the drivers in the order they were picked
+    const routeDrivers = driverIds
+      .map((id) => drivers.find((driver) => driver.id === id))
+      .filter((driver) => driver !== undefined);
+
+    if (routeDrivers.length !== driverIds.length) {
+      throw new Error("Driver not found");
+    }
 
-    let originalDistance = 0;
-    let originalDuration = 0;
+    const partitions = routeDrivers.length > 1
+      ? partitionStops({
+        depot: depotAddress,
+        stops: deliveries,
+        routeCount: routeDrivers.length,
+        balanceBy,
+        maxStops: routeDrivers.map((driver) => driver.maxStops),
+        startTime,
+        stopDuration,
+      })
+      : [deliveries.map((_, index) => index)];
+
+    // Every driver leaves the depot at the start time
+    const routes = [];
+    for (const [index, partition] of partitions.entries()) {
+      const driver = routeDrivers[index] ?? null;
+      const route = await optimizeRoute({
+        ...input,
+        deliveries: partition.map((stopIndex) => deliveries[stopIndex]),
+      });
 
-    if (originalData.status === "OK" && originalData.routes?.[0]) {
-      const originalRoute = originalData.routes[0];
-      originalDistance = originalRoute.legs.reduce(
-        (sum, leg) => sum + (leg as GoogleMapsLeg).distance.value,
-        0
-      );
-      originalDuration = originalRoute.legs.reduce(
-        (sum, leg) => sum + (leg as GoogleMapsLeg).duration.value,
-        0
+      await saveRouteStops(
+        route.segments.map((segment) => ({ ...segment, driverId: driver?.id ?? null })),
+        { session: ctx.session, action: "order.plan_route" }
       );
+
+      routes.push({ driverId: driver?.id ?? null, ...route });
     }
 
     return {
-      optimizedDeliveries,
-      segments,
-      totalDistance,
-      totalDuration,
-      waypointOrder,
-      savings: {
-        distanceSaved: Math.max(0, originalDistance - totalDistance),
-        timeSaved: Math.max(0, originalDuration - totalDuration),
-      },
+      routes,
+      lateStops: routes.flatMap((route) => route.lateStops),
     };
   });
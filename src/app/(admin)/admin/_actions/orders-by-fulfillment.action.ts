@@ -1,16 +1,16 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { orderTable, orderItemTable, productTable, pickupLocationTable, deliveryZoneTable } from "@/db/schema";
-import { eq, and, or, gte, lte, isNotNull, desc, sql } from "drizzle-orm";
+import { orderTable, orderItemTable, productTable, pickupLocationTable, deliveryZoneTable, ORDER_STATUS } from "@/db/schema";
+import { eq, and, or, gte, lte, isNotNull, desc, sql, ne, type SQL } from "drizzle-orm";
 
 /**
  * Get orders grouped by delivery date and pickup location
  * For admin order management by fulfillment method
  */
-export const getOrdersByFulfillmentAction = createServerAction()
+export const getOrdersByFulfillmentAction = adminAction.createServerAction()
   .input(
     z.object({
       startDate: z.string().optional(), // ISO date string
@@ -22,7 +22,8 @@ export const getOrdersByFulfillmentAction = createServerAction()
     const db = getDB();
 
     // Build query conditions
-    const conditions = [];
+    // Orders still waiting on the card charge aren't real orders yet
+    const conditions: (SQL | undefined)[] = [ne(orderTable.status, ORDER_STATUS.PENDING_PAYMENT)];
 
     // Date filtering based on fulfillment method
     // Note: deliveryDate and pickupDate are stored as ISO strings with timestamps,
@@ -114,9 +115,7 @@ export const getOrdersByFulfillmentAction = createServerAction()
         .leftJoin(pickupLocationTable, eq(orderTable.pickupLocationId, pickupLocationTable.id))
         .leftJoin(deliveryZoneTable, eq(orderTable.deliveryZoneId, deliveryZoneTable.id));
 
-      orders = conditions.length > 0
-        ? await baseQuery.where(and(...conditions)).orderBy(desc(orderTable.createdAt))
-        : await baseQuery.orderBy(desc(orderTable.createdAt));
+      orders = await baseQuery.where(and(...conditions)).orderBy(desc(orderTable.createdAt));
     } catch (error) {
       console.error("Database query error:", error);
       throw new Error(
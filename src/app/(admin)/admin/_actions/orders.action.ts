@@ -1,17 +1,29 @@
 "use server";
 
 import { getDB } from "@/db";
-import { orderTable, orderItemTable, productTable, orderStatusTuple, PAYMENT_STATUS } from "@/db/schema";
-import { desc, eq, like, or, sql } from "drizzle-orm";
+import { orderTable, orderItemTable, orderRefundTable, notificationLogTable, productTable, userTable, orderStatusTuple, ORDER_STATUS, ORDER_STATUS_EVENT_FIELD, PAYMENT_STATUS, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
+import { and, desc, eq, like, or, sql } from "drizzle-orm";
 import { z } from "zod";
-import { createServerAction } from "zsa";
-import { getSessionFromCookie } from "@/utils/auth";
-import { ROLES_ENUM } from "@/db/schema";
+import { adminAction } from "@/lib/admin-action";
+import {
+  dispatchOrderNotification,
+  getNotificationTypeForOrderStatus,
+} from "@/utils/notifications";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { getOrderStatusEvents, recordOrderStatusEvent } from "@/utils/order-status-events";
+import {
+  deductOrderItems,
+  hasDeductedInventory,
+  releaseOrderDropClaims,
+  restockOrderItems,
+} from "@/utils/inventory";
+import { assertOrderStatusChange, getSyncedFulfillmentStatus } from "@/utils/order-status-workflow";
 
 // Schema for updating order status
 const updateOrderStatusSchema = z.object({
   orderId: z.string(),
   status: z.enum(orderStatusTuple),
+  note: z.string().trim().max(1000).optional(), // Kept with the status history
 });
 
 // Schema for order filtering
@@ -25,15 +37,9 @@ const getOrdersSchema = z.object({
 /**
  * Get all orders with pagination and filtering
  */
-export const getOrdersAction = createServerAction()
+export const getOrdersAction = adminAction.createServerAction()
   .input(getOrdersSchema)
   .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
     const { page, limit, search, status } = input;
     const offset = (page - 1) * limit;
@@ -97,15 +103,9 @@ export const getOrdersAction = createServerAction()
 /**
  * Get a single order with all its items
  */
-export const getOrderByIdAction = createServerAction()
+export const getOrderByIdAction = adminAction.createServerAction()
   .input(z.string())
   .handler(async ({ input: orderId }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const [order] = await db
@@ -126,6 +126,7 @@ export const getOrderByIdAction = createServerAction()
         productId: orderItemTable.productId,
         quantity: orderItemTable.quantity,
         priceAtPurchase: orderItemTable.priceAtPurchase,
+        refundedQuantity: orderItemTable.refundedQuantity,
         productName: productTable.name,
         productImageUrl: productTable.imageUrl,
       })
@@ -133,26 +134,53 @@ export const getOrderByIdAction = createServerAction()
       .leftJoin(productTable, eq(orderItemTable.productId, productTable.id))
       .where(eq(orderItemTable.orderId, orderId));
 
+    // Refund ledger, newest first
+    const refunds = await db
+      .select({
+        id: orderRefundTable.id,
+        amount: orderRefundTable.amount,
+        reason: orderRefundTable.reason,
+        status: orderRefundTable.status,
+        items: orderRefundTable.items,
+        restocked: orderRefundTable.restocked,
+        providerRefundId: orderRefundTable.providerRefundId,
+        createdAt: orderRefundTable.createdAt,
+        refundedByFirstName: userTable.firstName,
+        refundedByLastName: userTable.lastName,
+      })
+      .from(orderRefundTable)
+      .leftJoin(userTable, eq(orderRefundTable.refundedByUserId, userTable.id))
+      .where(eq(orderRefundTable.orderId, orderId))
+      .orderBy(desc(orderRefundTable.createdAt));
+
+    // Customer notification history, newest first
+    const notifications = await db
+      .select()
+      .from(notificationLogTable)
+      .where(eq(notificationLogTable.orderId, orderId))
+      .orderBy(desc(notificationLogTable.createdAt));
+
+    // Every status change, oldest first
+    const statusEvents = await getOrderStatusEvents(orderId);
+
     return {
       ...order,
       items,
+      refunds,
+      notifications,
+      statusEvents,
     };
   });
 
 /**
- * Update order status
+ * Update order status. Only changes the workflow allows are accepted, and the
+ * delivery or pickup status moves along with it.
  */
-export const updateOrderStatusAction = createServerAction()
+export const updateOrderStatusAction = adminAction.createServerAction()
   .input(updateOrderStatusSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
-    const { orderId, status } = input;
+    const { orderId, status, note } = input;
 
     // Verify order exists
     const [existingOrder] = await db
@@ -165,21 +193,82 @@ export const updateOrderStatusAction = createServerAction()
       throw new Error("Order not found");
     }
 
+    assertOrderStatusChange(existingOrder, status);
+
+    // The delivery or pickup status moves along with it
+    const synced = getSyncedFulfillmentStatus(existingOrder, status);
+
     // Update the order status
     const [updatedOrder] = await db
       .update(orderTable)
       .set({
         status,
+        ...(synced?.field === ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS && {
+          deliveryStatus: synced.status,
+          ...(synced.status === "delivered" && { deliveredAt: new Date() }),
+        }),
+        ...(synced?.field === ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS && { pickupStatus: synced.status }),
         updatedAt: new Date(),
       })
-      .where(eq(orderTable.id, orderId))
+      // Only from the status checked above, so two concurrent changes can't
+      // both restock or deduct the same items
+      .where(and(eq(orderTable.id, orderId), eq(orderTable.status, existingOrder.status)))
       .returning();
 
-    // TODO: In the future, trigger email notification here based on status change
-    // For example:
-    // if (status === ORDER_STATUS.BAKED) {
-    //   await sendOrderStatusEmail(updatedOrder);
-    // }
+    if (!updatedOrder) {
+      throw new Error("This order's status was just changed by someone else. Reload and try again.");
+    }
+
+    // Cancelling puts the order's items back in stock; un-cancelling takes them again
+    const wasCancelled = existingOrder.status === ORDER_STATUS.CANCELLED;
+    const isCancelled = status === ORDER_STATUS.CANCELLED;
+    if (wasCancelled !== isCancelled && hasDeductedInventory(existingOrder)) {
+      if (isCancelled) {
+        await restockOrderItems(orderId);
+      } else {
+        await deductOrderItems(orderId);
+      }
+    } else if (isCancelled && existingOrder.status === ORDER_STATUS.PENDING_PAYMENT) {
+      // An unpaid checkout only claimed drop quantity, never stock
+      await releaseOrderDropClaims(orderId);
+    }
+
+    await recordOrderStatusEvent({
+      orderId,
+      field: ORDER_STATUS_EVENT_FIELD.STATUS,
+      fromStatus: existingOrder.status,
+      toStatus: status,
+      session: ctx.session,
+      note: note || null,
+    });
+
+    if (synced) {
+      await recordOrderStatusEvent({
+        orderId,
+        field: synced.field,
+        fromStatus: synced.field === ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS
+          ? existingOrder.deliveryStatus
+          : existingOrder.pickupStatus,
+        toStatus: synced.status,
+        session: ctx.session,
+        note: "Synced from order status",
+      });
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "order.update_status",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+      entityId: orderId,
+      before: existingOrder,
+      after: updatedOrder,
+    });
+
+    // Let the customer know about fulfillment milestones
+    const notificationType = getNotificationTypeForOrderStatus(updatedOrder);
+    if (notificationType) {
+      await dispatchOrderNotification({ orderId, type: notificationType });
+    }
 
     return updatedOrder;
   });
@@ -187,14 +276,8 @@ export const updateOrderStatusAction = createServerAction()
 /**
  * Get order statistics
  */
-export const getOrderStatsAction = createServerAction()
+export const getOrderStatsAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     // Get counts by status
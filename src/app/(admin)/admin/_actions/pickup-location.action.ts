@@ -1,11 +1,12 @@
 "use server";
 
 import { getDB } from "@/db";
-import { pickupLocationTable, ROLES_ENUM } from "@/db/schema";
+import { pickupLocationTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
-import { createServerAction } from "zsa";
-import { getSessionFromCookie } from "@/utils/auth";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { toTimeSlotSource } from "@/utils/time-slots";
 
 // Schema for address (stored as JSON)
 const addressSchema = z.object({
@@ -27,6 +28,11 @@ const pickupLocationSchema = z.object({
   cutoffDay: z.number().min(0).max(6).optional(),
   cutoffTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).optional(), // HH:MM format
   leadTimeDays: z.number().min(0).default(0),
+  // Bookable slots; leave slotDurationMinutes empty to offer none
+  slotStartTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).nullable().optional(), // HH:MM format
+  slotEndTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/).nullable().optional(), // HH:MM format
+  slotDurationMinutes: z.number().int().min(5).max(720).nullable().optional(),
+  slotCapacity: z.number().int().min(1).nullable().optional(), // Max orders per slot, null = unlimited
 });
 
 const updatePickupLocationSchema = pickupLocationSchema.extend({
@@ -36,14 +42,8 @@ const updatePickupLocationSchema = pickupLocationSchema.extend({
 /**
  * Get all pickup locations
  */
-export const getPickupLocationsAction = createServerAction()
+export const getPickupLocationsAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const locations = await db
@@ -62,15 +62,9 @@ export const getPickupLocationsAction = createServerAction()
 /**
  * Get a single pickup location by ID
  */
-export const getPickupLocationByIdAction = createServerAction()
+export const getPickupLocationByIdAction = adminAction.createServerAction()
   .input(z.string())
   .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
     const db = getDB();
 
     const [location] = await db
@@ -94,15 +88,9 @@ export const getPickupLocationByIdAction = createServerAction()
 /**
  * Create a new pickup location
  */
-export const createPickupLocationAction = createServerAction()
+export const createPickupLocationAction = adminAction.createServerAction()
   .input(pickupLocationSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     const [newLocation] = await db
@@ -118,9 +106,18 @@ export const createPickupLocationAction = createServerAction()
         cutoffDay: input.cutoffDay ?? null,
         cutoffTime: input.cutoffTime || null,
         leadTimeDays: input.leadTimeDays,
+        ...toTimeSlotSource(input),
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "pickup_location.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: newLocation.id,
+      after: newLocation,
+    });
+
     // Parse JSON fields for response
     return {
       ...newLocation,
@@ -132,15 +129,9 @@ export const createPickupLocationAction = createServerAction()
 /**
  * Update an existing pickup location
  */
-export const updatePickupLocationAction = createServerAction()
+export const updatePickupLocationAction = adminAction.createServerAction()
   .input(updatePickupLocationSchema)
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify location exists
@@ -168,10 +159,20 @@ export const updatePickupLocationAction = createServerAction()
         cutoffDay: input.cutoffDay ?? null,
         cutoffTime: input.cutoffTime || null,
         leadTimeDays: input.leadTimeDays,
+        ...toTimeSlotSource(input),
       })
       .where(eq(pickupLocationTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "pickup_location.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingLocation,
+      after: updatedLocation,
+    });
+
     // Parse JSON fields for response
     return {
       ...updatedLocation,
@@ -183,15 +184,9 @@ export const updatePickupLocationAction = createServerAction()
 /**
  * Delete a pickup location
  */
-export const deletePickupLocationAction = createServerAction()
+export const deletePickupLocationAction = adminAction.createServerAction()
   .input(z.string())
-  .handler(async ({ input: id }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input: id, ctx }) => {
     const db = getDB();
 
     // Verify location exists
@@ -210,24 +205,26 @@ export const deletePickupLocationAction = createServerAction()
       .delete(pickupLocationTable)
       .where(eq(pickupLocationTable.id, id));
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "pickup_location.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: existingLocation,
+    });
+
     return { success: true };
   });
 
 /**
  * Toggle pickup location active status
  */
-export const togglePickupLocationAction = createServerAction()
+export const togglePickupLocationAction = adminAction.createServerAction()
   .input(z.object({
     id: z.string(),
     isActive: z.boolean(),
   }))
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-
-    if (!session?.user || session.user.role !== ROLES_ENUM.ADMIN) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // Verify location exists
@@ -250,6 +247,15 @@ export const togglePickupLocationAction = createServerAction()
       .where(eq(pickupLocationTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "pickup_location.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existingLocation,
+      after: updatedLocation,
+    });
+
     // Parse JSON fields for response
     return {
       ...updatedLocation,
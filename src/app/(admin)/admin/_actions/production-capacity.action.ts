@@ -0,0 +1,192 @@
+"use server";
+
+import { getDB } from "@/db";
+import { productionCapacityTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
+import { eq, asc } from "drizzle-orm";
+import { z } from "zod";
+import { addDays, format, parseISO } from "date-fns";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { getDateCapacities } from "@/utils/production-capacity";
+
+// Utilization is computed per day, so keep ranges to about a quarter
+const MAX_UTILIZATION_DAYS = 92;
+
+// Schema for creating/updating a production capacity limit
+const productionCapacitySchema = z.object({
+  name: z.string().min(1).max(255), // e.g., "Daily bake limit"
+  categoryId: z.string().nullable().optional(), // null = all products
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(), // null = every day
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable().optional(),
+  maxUnits: z.number().int().min(0),
+  isActive: z.boolean().default(true),
+});
+
+const updateProductionCapacitySchema = productionCapacitySchema.extend({
+  id: z.string(),
+});
+
+// A one-day limit ignores the day of week
+function toProductionCapacityValues(input: z.infer<typeof productionCapacitySchema>) {
+  return {
+    name: input.name,
+    categoryId: input.categoryId || null,
+    dayOfWeek: input.date ? null : input.dayOfWeek ?? null,
+    date: input.date || null,
+    maxUnits: input.maxUnits,
+    isActive: input.isActive ? 1 : 0,
+  };
+}
+
+/**
+ * Get all production capacity limits
+ */
+export const getProductionCapacitiesAction = adminAction.createServerAction()
+  .handler(async () => {
+    const db = getDB();
+
+    return await db
+      .select()
+      .from(productionCapacityTable)
+      .orderBy(asc(productionCapacityTable.date), asc(productionCapacityTable.dayOfWeek), asc(productionCapacityTable.name));
+  });
+
+/**
+ * Create a new production capacity limit
+ */
+export const createProductionCapacityAction = adminAction.createServerAction()
+  .input(productionCapacitySchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [capacity] = await db
+      .insert(productionCapacityTable)
+      .values(toProductionCapacityValues(input))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "production_capacity.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: capacity.id,
+      after: capacity,
+    });
+
+    return capacity;
+  });
+
+/**
+ * Update an existing production capacity limit
+ */
+export const updateProductionCapacityAction = adminAction.createServerAction()
+  .input(updateProductionCapacitySchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [existing] = await db
+      .select()
+      .from(productionCapacityTable)
+      .where(eq(productionCapacityTable.id, input.id))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error("Capacity limit not found");
+    }
+
+    const [capacity] = await db
+      .update(productionCapacityTable)
+      .set(toProductionCapacityValues(input))
+      .where(eq(productionCapacityTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "production_capacity.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: existing,
+      after: capacity,
+    });
+
+    return capacity;
+  });
+
+/**
+ * Delete a production capacity limit
+ */
+export const deleteProductionCapacityAction = adminAction.createServerAction()
+  .input(z.string())
+  .handler(async ({ input: id, ctx }) => {
+    const db = getDB();
+
+    const [deleted] = await db
+      .delete(productionCapacityTable)
+      .where(eq(productionCapacityTable.id, id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "production_capacity.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: id,
+      before: deleted,
+    });
+
+    return { success: true };
+  });
+
+/**
+ * Toggle production capacity limit active status
+ */
+export const toggleProductionCapacityAction = adminAction.createServerAction()
+  .input(z.object({
+    id: z.string(),
+    isActive: z.boolean(),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+
+    const [capacity] = await db
+      .update(productionCapacityTable)
+      .set({
+        isActive: input.isActive ? 1 : 0,
+      })
+      .where(eq(productionCapacityTable.id, input.id))
+      .returning();
+
+    if (!capacity) {
+      throw new Error("Capacity limit not found");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "production_capacity.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      after: capacity,
+    });
+
+    return capacity;
+  });
+
+/**
+ * Booked units against each limit, for every limited date in a range
+ */
+export const getCapacityUtilizationAction = adminAction.createServerAction()
+  .input(z.object({
+    startDate: z.string(), // ISO date
+    endDate: z.string(), // ISO date
+  }))
+  .handler(async ({ input }) => {
+    const dates: string[] = [];
+    let date = parseISO(input.startDate);
+    const end = parseISO(input.endDate);
+
+    while (date <= end && dates.length < MAX_UTILIZATION_DAYS) {
+      dates.push(format(date, "yyyy-MM-dd"));
+      date = addDays(date, 1);
+    }
+
+    const capacities = await getDateCapacities(dates);
+    return [...capacities.values()];
+  });
@@ -1,19 +1,17 @@
 "use server"
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { productTable, categoryTable, productCategoryTable, PRODUCT_STATUS } from "@/db/schema";
+import { productTable, categoryTable, productCategoryTable, PRODUCT_STATUS, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq, desc, inArray } from "drizzle-orm";
-import { requireAdmin } from "@/utils/auth";
 import { getMerchantProvider } from "@/lib/merchant-provider/factory";
 import { productCustomizationsSchema } from "@/schemas/customizations.schema";
 import { SizeVariant } from "@/types/customizations";
+import { recordAdminAudit } from "@/utils/admin-audit";
 
 // Get all products with category info
-export const getProductsAction = createServerAction()
+export const getProductsAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB()
     const products = await db
       .select({
@@ -80,11 +78,9 @@ export const getProductsAction = createServerAction()
   });
 
 // Get single product
-export const getProductAction = createServerAction()
+export const getProductAction = adminAction.createServerAction()
   .input(z.object({ id: z.string() }))
   .handler(async ({ input }) => {
-    await requireAdmin();
-
     const db = getDB()
     const product = await db
       .select()
@@ -104,10 +100,8 @@ export const getProductAction = createServerAction()
   });
 
 // Get all categories
-export const getCategoriesAction = createServerAction()
+export const getCategoriesAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB()
     const categories = await db
       .select()
@@ -119,7 +113,7 @@ export const getCategoriesAction = createServerAction()
   });
 
 // Create product
-export const createProductAction = createServerAction()
+export const createProductAction = adminAction.createServerAction()
   .input(
     z.object({
       name: z.string().min(1, "Name is required"),
@@ -132,18 +126,16 @@ export const createProductAction = createServerAction()
       customizations: productCustomizationsSchema.optional(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const priceInCents = Math.round(input.price * 100);
 
     // Normalize empty imageUrl to undefined
     const imageUrl = input.imageUrl && input.imageUrl.trim() !== "" ? input.imageUrl : undefined;
 
-    // Create product in Square Catalog API
+    // Create product in the active provider's catalog
     const provider = await getMerchantProvider();
 
-    // Prepare variants for Square if using size variants
+    // Prepare variants for the catalog if using size variants
     const variants = input.customizations?.type === 'size_variants'
       ? input.customizations.variants.map(v => ({
           id: v.id,
@@ -165,7 +157,7 @@ export const createProductAction = createServerAction()
     });
 
     // Store Square variation IDs in customizations if using size variants
-    if (input.customizations?.type === 'size_variants' && catalogResult.variantIds) {
+    if (provider.name === 'square' && input.customizations?.type === 'size_variants' && catalogResult.variantIds) {
       for (const variant of input.customizations.variants) {
         const squareVariantId = catalogResult.variantIds[variant.id];
         if (squareVariantId) {
@@ -185,9 +177,11 @@ export const createProductAction = createServerAction()
         imageUrl: imageUrl || null,
         status: input.status,
         quantityAvailable: input.quantityAvailable,
-        merchantProvider: 'square',
+        merchantProvider: provider.name,
         merchantProductId: catalogResult.productId,
         merchantPriceId: catalogResult.priceId || null,
+        stripeProductId: provider.name === 'stripe' ? catalogResult.productId : null,
+        stripePriceId: provider.name === 'stripe' ? catalogResult.priceId || null : null,
         customizations: input.customizations ? JSON.stringify(input.customizations) : null,
       })
       .returning();
@@ -202,6 +196,14 @@ export const createProductAction = createServerAction()
       });
     }
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "product.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.PRODUCT,
+      entityId: product.id,
+      after: { ...product, categoryIds: input.categoryIds },
+    });
+
     return {
       ...product,
       customizations: product.customizations ? JSON.parse(product.customizations) : null,
@@ -209,7 +211,7 @@ export const createProductAction = createServerAction()
   });
 
 // Update product
-export const updateProductAction = createServerAction()
+export const updateProductAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
@@ -223,9 +225,7 @@ export const updateProductAction = createServerAction()
       customizations: productCustomizationsSchema.optional(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const priceInCents = Math.round(input.price * 100);
 
     // Normalize empty imageUrl to undefined
@@ -233,6 +233,16 @@ export const updateProductAction = createServerAction()
 
     const db = getDB();
 
+    const existing = await db
+      .select()
+      .from(productTable)
+      .where(eq(productTable.id, input.id))
+      .get();
+    const existingCategoryIds = await db
+      .select({ categoryId: productCategoryTable.categoryId })
+      .from(productCategoryTable)
+      .where(eq(productCategoryTable.productId, input.id));
+
     const [product] = await db
       .update(productTable)
       .set({
@@ -263,6 +273,18 @@ export const updateProductAction = createServerAction()
       });
     }
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "product.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.PRODUCT,
+      entityId: input.id,
+      before: existing && {
+        ...existing,
+        categoryIds: existingCategoryIds.map(a => a.categoryId),
+      },
+      after: { ...product, categoryIds: input.categoryIds },
+    });
+
     return {
       ...product,
       customizations: product.customizations ? JSON.parse(product.customizations) : null,
@@ -270,23 +292,33 @@ export const updateProductAction = createServerAction()
   });
 
 // Delete product
-export const deleteProductAction = createServerAction()
+export const deleteProductAction = adminAction.createServerAction()
   .input(z.object({ id: z.string() }))
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB()
+    const existing = await db
+      .select()
+      .from(productTable)
+      .where(eq(productTable.id, input.id))
+      .get();
+
     await db.delete(productTable).where(eq(productTable.id, input.id));
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "product.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.PRODUCT,
+      entityId: input.id,
+      before: existing,
+    });
+
     return { success: true };
   });
 
 // Get product category IDs (for edit form)
-export const getProductCategoryIdsAction = createServerAction()
+export const getProductCategoryIdsAction = adminAction.createServerAction()
   .input(z.object({ productId: z.string() }))
   .handler(async ({ input }) => {
-    await requireAdmin();
-
     const db = getDB();
     const associations = await db
       .select({ categoryId: productCategoryTable.categoryId })
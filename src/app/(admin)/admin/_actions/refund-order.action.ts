@@ -0,0 +1,78 @@
+"use server";
+
+import { z } from "zod";
+import { adminAction } from "@/lib/admin-action";
+import { revalidatePath } from "next/cache";
+import { refundOrder } from "@/utils/refunds";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { recordOrderStatusEvent } from "@/utils/order-status-events";
+import { ADMIN_AUDIT_ENTITY_TYPE, ORDER_STATUS, ORDER_STATUS_EVENT_FIELD } from "@/db/schema";
+
+const refundOrderSchema = z.object({
+  orderId: z.string(),
+  reason: z.string().trim().min(1, "Please provide a reason for the refund").max(1000),
+  // Refund specific line items, a custom amount, or (neither) the full remaining balance
+  items: z.array(
+    z.object({
+      orderItemId: z.string(),
+      quantity: z.number().int().positive(),
+    })
+  ).optional(),
+  amount: z.number().int().positive().optional(),
+  restock: z.boolean().default(false),
+  cancelOrder: z.boolean().default(false),
+}).refine((data) => !(data.items?.length && data.amount), {
+  message: "Refund either line items or a custom amount, not both",
+  path: ["amount"],
+});
+
+/**
+ * Refund an order in full or in part through the merchant provider
+ */
+export const refundOrderAction = adminAction.createServerAction()
+  .input(refundOrderSchema)
+  .handler(async ({ input, ctx }) => {
+    const { session } = ctx;
+    const result = await refundOrder({
+      ...input,
+      refundedByUserId: session.user.id,
+    });
+
+    if (input.cancelOrder) {
+      await recordOrderStatusEvent({
+        orderId: input.orderId,
+        field: ORDER_STATUS_EVENT_FIELD.STATUS,
+        fromStatus: result.previousStatus,
+        toStatus: ORDER_STATUS.CANCELLED,
+        session,
+        note: `Refunded: ${input.reason}`,
+      });
+    }
+
+    await recordAdminAudit({
+      session,
+      action: "order.refund",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+      entityId: input.orderId,
+      after: {
+        refundId: result.refund.id,
+        amount: result.refund.amount,
+        reason: input.reason,
+        items: input.items ?? null,
+        restock: input.restock,
+        cancelOrder: input.cancelOrder,
+      },
+    });
+
+    revalidatePath(`/admin/orders/${input.orderId}`);
+    revalidatePath("/admin/orders");
+    revalidatePath("/admin/revenue");
+
+    return {
+      refundId: result.refund.id,
+      amount: result.refund.amount,
+      status: result.refund.status,
+      totalRefunded: result.totalRefunded,
+      isFullyRefunded: result.isFullyRefunded,
+    };
+  });
@@ -1,12 +1,10 @@
 'use server'
 
-import { createServerAction } from 'zsa';
+import { adminAction } from '@/lib/admin-action';
 import { z } from 'zod';
-import { getDB } from '@/db';
-import { orderTable } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { saveRouteStops } from '@/utils/delivery-routes';
 
-export const saveDeliveryRoute = createServerAction()
+export const saveDeliveryRoute = adminAction.createServerAction()
   .input(z.object({
     deliveryDate: z.string(), // ISO date "2024-10-26"
     routeSegments: z.array(z.object({
@@ -15,24 +13,15 @@ export const saveDeliveryRoute = createServerAction()
       estimatedArrival: z.string(), // "09:15:00"
       durationFromPrevious: z.number(), // seconds
       distanceFromPrevious: z.number(), // meters
+      driverId: z.string().nullable().optional(), // Route the stop is on, null = unassigned
     })),
   }))
-  .handler(async ({ input }) => {
-    const db = getDB();
-
+  .handler(async ({ input, ctx }) => {
     // Update each order with its route information
-    for (const segment of input.routeSegments) {
-      await db
-        .update(orderTable)
-        .set({
-          deliverySequence: segment.sequence,
-          estimatedArrivalTime: segment.estimatedArrival,
-          routeDurationFromPrevious: segment.durationFromPrevious,
-          routeDistanceFromPrevious: segment.distanceFromPrevious,
-          updatedAt: new Date(),
-        })
-        .where(eq(orderTable.id, segment.orderId));
-    }
+    await saveRouteStops(input.routeSegments, {
+      session: ctx.session,
+      action: "order.save_route",
+    });
 
     return {
       success: true,
@@ -1,18 +1,29 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
 import { orderTable } from "@/db/schema";
-import { eq } from "drizzle-orm";
-
-// Delivery status workflow: pending → confirmed → preparing → out_for_delivery → delivered
+import { inArray } from "drizzle-orm";
+import { updateDeliveryStatus, type DeliveryStatus } from "@/utils/delivery-status";
+import { updatePickupStatus } from "@/utils/pickup-status";
+import {
+  getFulfillmentStatusChangeError,
+  type FulfillmentMethod,
+  type PickupStatus,
+} from "@/utils/order-status-workflow";
+
+// Delivery status workflow: pending → confirmed → preparing → out_for_delivery → arrived → delivered
+// A stop the driver couldn't complete is failed instead of delivered
+// Which changes are allowed is declared in @/utils/order-status-workflow
 const deliveryStatusEnum = z.enum([
   "pending",
   "confirmed",
   "preparing",
   "out_for_delivery",
+  "arrived",
   "delivered",
+  "failed",
 ]);
 
 // Pickup status workflow: pending → confirmed → preparing → ready_for_pickup → picked_up
@@ -24,10 +35,35 @@ const pickupStatusEnum = z.enum([
   "picked_up",
 ]);
 
+/**
+ * Orders the workflow won't let move to `toStatus` are left alone in batch
+ * updates and reported back, rather than failing the whole batch
+ */
+async function splitByWorkflow(
+  orderIds: string[],
+  method: FulfillmentMethod,
+  toStatus: DeliveryStatus | PickupStatus
+) {
+  const db = getDB();
+
+  const orders = orderIds.length > 0
+    ? await db.select().from(orderTable).where(inArray(orderTable.id, orderIds))
+    : [];
+
+  const movableOrderIds = orders
+    .filter((order) => !getFulfillmentStatusChangeError(order, method, toStatus))
+    .map((order) => order.id);
+
+  return {
+    movableOrderIds,
+    skippedOrderIds: orderIds.filter((orderId) => !movableOrderIds.includes(orderId)),
+  };
+}
+
 /**
  * Update delivery status for an order
  */
-export const updateDeliveryStatusAction = createServerAction()
+export const updateDeliveryStatusAction = adminAction.createServerAction()
   .input(
     z.object({
       orderId: z.string(),
@@ -35,19 +71,13 @@ export const updateDeliveryStatusAction = createServerAction()
       notifyCustomer: z.boolean().default(false),
     })
   )
-  .handler(async ({ input }) => {
-    const db = getDB();
-
-    // Update delivery status
-    await db
-      .update(orderTable)
-      .set({
-        deliveryStatus: input.deliveryStatus,
-        updatedAt: new Date(),
-      })
-      .where(eq(orderTable.id, input.orderId));
-
-    // TODO: Send customer notification if notifyCustomer is true
+  .handler(async ({ input, ctx }) => {
+    await updateDeliveryStatus({
+      session: ctx.session,
+      orderId: input.orderId,
+      deliveryStatus: input.deliveryStatus,
+      notifyCustomer: input.notifyCustomer,
+    });
 
     return {
       success: true,
@@ -59,7 +89,7 @@ export const updateDeliveryStatusAction = createServerAction()
 /**
  * Update pickup status for an order
  */
-export const updatePickupStatusAction = createServerAction()
+export const updatePickupStatusAction = adminAction.createServerAction()
   .input(
     z.object({
       orderId: z.string(),
@@ -67,19 +97,13 @@ export const updatePickupStatusAction = createServerAction()
       notifyCustomer: z.boolean().default(false),
     })
   )
-  .handler(async ({ input }) => {
-    const db = getDB();
-
-    // Update pickup status
-    await db
-      .update(orderTable)
-      .set({
-        pickupStatus: input.pickupStatus,
-        updatedAt: new Date(),
-      })
-      .where(eq(orderTable.id, input.orderId));
-
-    // TODO: Send customer notification if notifyCustomer is true
+  .handler(async ({ input, ctx }) => {
+    await updatePickupStatus({
+      session: ctx.session,
+      orderId: input.orderId,
+      pickupStatus: input.pickupStatus,
+      notifyCustomer: input.notifyCustomer,
+    });
 
     return {
       success: true,
@@ -92,7 +116,7 @@ export const updatePickupStatusAction = createServerAction()
  * Batch update delivery status for multiple orders
  * Useful for marking all deliveries as "out_for_delivery" at once
  */
-export const batchUpdateDeliveryStatusAction = createServerAction()
+export const batchUpdateDeliveryStatusAction = adminAction.createServerAction()
   .input(
     z.object({
       orderIds: z.array(z.string()),
@@ -100,25 +124,26 @@ export const batchUpdateDeliveryStatusAction = createServerAction()
       notifyCustomers: z.boolean().default(false),
     })
   )
-  .handler(async ({ input }) => {
-    const db = getDB();
-
-    // Update all orders
-    for (const orderId of input.orderIds) {
-      await db
-        .update(orderTable)
-        .set({
-          deliveryStatus: input.deliveryStatus,
-          updatedAt: new Date(),
-        })
-        .where(eq(orderTable.id, orderId));
-
-      // TODO: Send customer notification if notifyCustomers is true
+  .handler(async ({ input, ctx }) => {
+    const { movableOrderIds, skippedOrderIds } = await splitByWorkflow(
+      input.orderIds,
+      "delivery",
+      input.deliveryStatus
+    );
+
+    for (const orderId of movableOrderIds) {
+      await updateDeliveryStatus({
+        session: ctx.session,
+        orderId,
+        deliveryStatus: input.deliveryStatus,
+        notifyCustomer: input.notifyCustomers,
+      });
     }
 
     return {
       success: true,
-      updatedCount: input.orderIds.length,
+      updatedCount: movableOrderIds.length,
+      skippedOrderIds,
       newStatus: input.deliveryStatus,
     };
   });
@@ -127,7 +152,7 @@ export const batchUpdateDeliveryStatusAction = createServerAction()
  * Batch update pickup status for multiple orders
  * Useful for marking all pickups at a location as "ready_for_pickup"
  */
-export const batchUpdatePickupStatusAction = createServerAction()
+export const batchUpdatePickupStatusAction = adminAction.createServerAction()
   .input(
     z.object({
       orderIds: z.array(z.string()),
@@ -135,25 +160,26 @@ export const batchUpdatePickupStatusAction = createServerAction()
       notifyCustomers: z.boolean().default(false),
     })
   )
-  .handler(async ({ input }) => {
-    const db = getDB();
-
-    // Update all orders
-    for (const orderId of input.orderIds) {
-      await db
-        .update(orderTable)
-        .set({
-          pickupStatus: input.pickupStatus,
-          updatedAt: new Date(),
-        })
-        .where(eq(orderTable.id, orderId));
-
-      // TODO: Send customer notification if notifyCustomers is true
+  .handler(async ({ input, ctx }) => {
+    const { movableOrderIds, skippedOrderIds } = await splitByWorkflow(
+      input.orderIds,
+      "pickup",
+      input.pickupStatus
+    );
+
+    for (const orderId of movableOrderIds) {
+      await updatePickupStatus({
+        session: ctx.session,
+        orderId,
+        pickupStatus: input.pickupStatus,
+        notifyCustomer: input.notifyCustomers,
+      });
     }
 
     return {
       success: true,
-      updatedCount: input.orderIds.length,
+      updatedCount: movableOrderIds.length,
+      skippedOrderIds,
       newStatus: input.pickupStatus,
     };
   });
@@ -1,12 +1,9 @@
 "use server";
-import { createServerAction } from "zsa";
-import { requireAdmin } from "@/utils/auth";
+import { adminAction } from "@/lib/admin-action";
 import { uploadProductImage } from "@/utils/upload-image";
 
-export const uploadProductImageAction = createServerAction()
+export const uploadProductImageAction = adminAction.createServerAction()
   .handler(async ({ request }) => {
-    await requireAdmin();
-
     const formData = await request?.formData();
     const file = formData?.get("file") as File;
 
@@ -16,6 +16,9 @@ import {
   DollarSign,
   FileText,
   FolderTree,
+  Sparkles,
+  History,
+  Webhook,
 } from "lucide-react";
 
 import { NavMain } from "@/components/nav-main";
@@ -56,6 +59,12 @@ const adminNavItems: NavMainItem[] = [
     icon: FolderTree,
     isActive: true,
   },
+  {
+    title: "Drops",
+    url: "/admin/drops",
+    icon: Sparkles,
+    isActive: true,
+  },
   {
     title: "Orders",
     url: "/admin/orders",
@@ -89,6 +98,16 @@ const adminNavItems: NavMainItem[] = [
     url: "/admin/revenue",
     icon: DollarSign,
     isActive: true,
+    items: [
+      {
+        title: "Overview",
+        url: "/admin/revenue",
+      },
+      {
+        title: "Payment Reconciliation",
+        url: "/admin/revenue/reconciliation",
+      },
+    ],
   },
   {
     title: "User Management",
@@ -96,6 +115,18 @@ const adminNavItems: NavMainItem[] = [
     icon: Users,
     isActive: true,
   },
+  {
+    title: "Audit Log",
+    url: "/admin/audit",
+    icon: History,
+    isActive: true,
+  },
+  {
+    title: "Webhook Events",
+    url: "/admin/webhooks",
+    icon: Webhook,
+    isActive: true,
+  },
   {
     title: "Settings",
     url: "/admin/settings",
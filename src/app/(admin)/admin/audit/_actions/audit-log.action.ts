@@ -0,0 +1,54 @@
+"use server";
+
+import { z } from "zod";
+import { isNotNull } from "drizzle-orm";
+import { getDB } from "@/db";
+import { adminAuditEntityTypeTuple, adminAuditLogTable } from "@/db/schema";
+import { adminAction } from "@/lib/admin-action";
+import {
+  getAdminAuditLogs,
+  parseAuditSnapshot,
+  type AdminAuditEntityType,
+} from "@/utils/admin-audit";
+
+const getAuditLogsSchema = z.object({
+  entityType: z.enum(adminAuditEntityTypeTuple).optional(),
+  entityId: z.string().optional(),
+  actorUserId: z.string().optional(),
+  limit: z.number().min(1).max(500).default(100),
+});
+
+/**
+ * Get audit log entries, newest first, with their before/after diffs parsed
+ */
+export const getAuditLogsAction = adminAction.createServerAction()
+  .input(getAuditLogsSchema)
+  .handler(async ({ input }) => {
+    const logs = await getAdminAuditLogs({
+      ...input,
+      entityType: input.entityType as AdminAuditEntityType | undefined,
+    });
+
+    return logs.map((log) => ({
+      ...log,
+      before: parseAuditSnapshot(log.before),
+      after: parseAuditSnapshot(log.after),
+    }));
+  });
+
+/**
+ * Get every admin who appears in the audit log (for the actor filter)
+ */
+export const getAuditActorsAction = adminAction.createServerAction()
+  .handler(async () => {
+    const db = getDB();
+
+    return db
+      .selectDistinct({
+        actorUserId: adminAuditLogTable.actorUserId,
+        actorEmail: adminAuditLogTable.actorEmail,
+      })
+      .from(adminAuditLogTable)
+      .where(isNotNull(adminAuditLogTable.actorUserId))
+      .orderBy(adminAuditLogTable.actorEmail);
+  });
@@ -0,0 +1,95 @@
+"use client";
+
+import { useQueryState } from "nuqs";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  ADMIN_AUDIT_ENTITY_TYPE_LABELS,
+} from "@/db/schema";
+
+interface AuditFiltersProps {
+  actors: Array<{ actorUserId: string | null; actorEmail: string | null }>;
+}
+
+export function AuditFilters({ actors }: AuditFiltersProps) {
+  const [entityType, setEntityType] = useQueryState("entityType", {
+    defaultValue: "all",
+    shallow: false,
+  });
+  const [entityId, setEntityId] = useQueryState("entityId", {
+    defaultValue: "",
+    shallow: false,
+    throttleMs: 500,
+  });
+  const [actor, setActor] = useQueryState("actor", {
+    defaultValue: "all",
+    shallow: false,
+  });
+
+  function handleReset() {
+    setEntityType(null);
+    setEntityId(null);
+    setActor(null);
+  }
+
+  return (
+    <div className="bg-muted/50 p-3 sm:p-4 rounded-lg border">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:gap-3">
+        <div className="flex flex-col gap-1 flex-1 min-w-0">
+          <label className="text-xs text-muted-foreground">Entity</label>
+          <Select value={entityType} onValueChange={(v) => setEntityType(v)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="All" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {Object.entries(ADMIN_AUDIT_ENTITY_TYPE).map(([key, value]) => (
+                <SelectItem key={value} value={value}>
+                  {ADMIN_AUDIT_ENTITY_TYPE_LABELS[key as keyof typeof ADMIN_AUDIT_ENTITY_TYPE]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1 flex-1 min-w-0">
+          <label className="text-xs text-muted-foreground">Entity ID</label>
+          <Input
+            value={entityId}
+            placeholder="e.g. prod_..."
+            onChange={(e) => setEntityId(e.target.value || null)}
+            className="h-9 text-sm"
+          />
+        </div>
+        <div className="flex flex-col gap-1 flex-1 min-w-0">
+          <label className="text-xs text-muted-foreground">Admin</label>
+          <Select value={actor} onValueChange={(v) => setActor(v)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue placeholder="All" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {actors.map(({ actorUserId, actorEmail }) =>
+                actorUserId ? (
+                  <SelectItem key={actorUserId} value={actorUserId}>
+                    {actorEmail || actorUserId}
+                  </SelectItem>
+                ) : null
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" className="h-9" onClick={handleReset}>
+          Reset
+        </Button>
+      </div>
+    </div>
+  );
+}
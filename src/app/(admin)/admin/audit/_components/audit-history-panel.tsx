@@ -0,0 +1,52 @@
+import Link from "next/link";
+import type { Route } from "next";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getAuditLogsAction } from "../_actions/audit-log.action";
+import { AuditLogEntry } from "./audit-log-entry";
+import type { AdminAuditEntityType } from "@/utils/admin-audit";
+
+interface AuditHistoryPanelProps {
+  entityType: AdminAuditEntityType;
+  entityId: string;
+  limit?: number;
+}
+
+/**
+ * Admin change history for a single record, shown on its detail page
+ */
+export async function AuditHistoryPanel({
+  entityType,
+  entityId,
+  limit = 20,
+}: AuditHistoryPanelProps) {
+  const [logs] = await getAuditLogsAction({ entityType, entityId, limit });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Change History</CardTitle>
+          <Link
+            href={`/admin/audit?entityType=${entityType}&entityId=${entityId}` as Route}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            View in audit log
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!logs || logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No admin changes have been recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {logs.map((log) => (
+              <AuditLogEntry key={log.id} log={log} showEntity={false} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { formatDateTime } from "@/utils/format-date";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  ADMIN_AUDIT_ENTITY_TYPE_LABELS,
+} from "@/db/schema";
+
+export interface AuditLogEntryData {
+  id: string;
+  createdAt: Date;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+}
+
+interface AuditLogEntryProps {
+  log: AuditLogEntryData;
+  showEntity?: boolean;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+
+  if (typeof value === "string") {
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+export function AuditLogEntry({ log, showEntity = true }: AuditLogEntryProps) {
+  const entityTypeKey = Object.entries(ADMIN_AUDIT_ENTITY_TYPE).find(
+    ([, value]) => value === log.entityType
+  )?.[0] as keyof typeof ADMIN_AUDIT_ENTITY_TYPE | undefined;
+
+  const fields = Array.from(
+    new Set([...Object.keys(log.before ?? {}), ...Object.keys(log.after ?? {})])
+  );
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium font-mono text-sm">{log.action}</p>
+          <p className="text-sm text-muted-foreground">
+            {log.actorEmail || "Deleted admin"} · {formatDateTime(log.createdAt)}
+            {log.ipAddress && ` · ${log.ipAddress}`}
+          </p>
+        </div>
+        {showEntity && (
+          <div className="text-right text-sm">
+            <p>
+              {entityTypeKey
+                ? ADMIN_AUDIT_ENTITY_TYPE_LABELS[entityTypeKey]
+                : log.entityType}
+            </p>
+            {log.entityId && (
+              <p className="font-mono text-xs text-muted-foreground">
+                {log.entityId}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {fields.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 pr-4 font-medium">Field</th>
+                <th className="py-1 pr-4 font-medium">Before</th>
+                <th className="py-1 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field} className="border-t align-top">
+                  <td className="py-1 pr-4 font-mono">{field}</td>
+                  <td className="py-1 pr-4 text-red-700 dark:text-red-400 break-all">
+                    {log.before ? formatValue(log.before[field]) : "—"}
+                  </td>
+                  <td className="py-1 text-green-700 dark:text-green-400 break-all">
+                    {log.after ? formatValue(log.after[field]) : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { PageHeader } from "@/components/page-header";
+import type { Metadata } from "next";
+import { NuqsAdapter } from "nuqs/adapters/next/app";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { adminAuditEntityTypeTuple } from "@/db/schema";
+import type { AdminAuditEntityType } from "@/utils/admin-audit";
+import { getAuditActorsAction, getAuditLogsAction } from "./_actions/audit-log.action";
+import { AuditFilters } from "./_components/audit-filters";
+import { AuditLogEntry } from "./_components/audit-log-entry";
+
+export const metadata: Metadata = {
+  title: "Audit Log",
+  description: "History of changes made in the admin panel",
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    entityType?: string;
+    entityId?: string;
+    actor?: string;
+  }>;
+}
+
+export default async function AuditLogPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+
+  const entityType = adminAuditEntityTypeTuple.includes(params.entityType ?? "")
+    ? (params.entityType as AdminAuditEntityType)
+    : undefined;
+  const entityId = params.entityId?.trim() || undefined;
+  const actorUserId = params.actor && params.actor !== "all" ? params.actor : undefined;
+
+  const [[logs, err], [actors]] = await Promise.all([
+    getAuditLogsAction({ entityType, entityId, actorUserId, limit: 200 }),
+    getAuditActorsAction(),
+  ]);
+
+  if (err) {
+    throw new Error(err.message);
+  }
+
+  return (
+    <NuqsAdapter>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/audit", label: "Audit Log" },
+        ]}
+      />
+      <div className="container mx-auto py-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Who changed what in the admin panel, newest first
+          </p>
+        </div>
+
+        <AuditFilters actors={actors ?? []} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {logs.length} {logs.length === 1 ? "entry" : "entries"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {logs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No changes match these filters.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {logs.map((log) => (
+                  <AuditLogEntry key={log.id} log={log} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </NuqsAdapter>
+  );
+}
@@ -1,20 +1,15 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { deliveryCalendarClosureTable } from "@/db/schema";
+import { deliveryCalendarClosureTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq } from "drizzle-orm";
-import { getSessionFromCookie } from "@/utils/auth";
 
 // List all calendar closures
-export const listCalendarClosuresAction = createServerAction()
+export const listCalendarClosuresAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
     const db = await getDB();
     const closures = await db
       .select()
@@ -27,7 +22,7 @@ export const listCalendarClosuresAction = createServerAction()
 // Add a calendar closure
 // NOTE: closureDate is stored as ISO string (YYYY-MM-DD) in Mountain Time (America/Boise)
 // The delivery system (src/utils/delivery.ts) reads these dates and treats them as MT dates
-export const addCalendarClosureAction = createServerAction()
+export const addCalendarClosureAction = adminAction.createServerAction()
   .input(
     z.object({
       closureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
@@ -36,12 +31,7 @@ export const addCalendarClosureAction = createServerAction()
       affectsPickup: z.boolean().default(true),
     })
   )
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = await getDB();
 
     // Check if closure already exists for this date
@@ -65,26 +55,38 @@ export const addCalendarClosureAction = createServerAction()
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "calendar_closure.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: closure.id,
+      after: closure,
+    });
+
     return closure;
   });
 
 // Delete a calendar closure
-export const deleteCalendarClosureAction = createServerAction()
+export const deleteCalendarClosureAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
     })
   )
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = await getDB();
-    await db
+    const [deletedClosure] = await db
       .delete(deliveryCalendarClosureTable)
-      .where(eq(deliveryCalendarClosureTable.id, input.id));
+      .where(eq(deliveryCalendarClosureTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "calendar_closure.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: deletedClosure,
+    });
 
     return { success: true };
   });
@@ -1,21 +1,16 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { deliveryOneOffDateTable } from "@/db/schema";
+import { deliveryOneOffDateTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
-import { getSessionFromCookie } from "@/utils/auth";
 import { futureMountainDateSchema } from "@/schemas/date.schema";
 
 // List all one-off dates
-export const listOneOffDatesAction = createServerAction()
+export const listOneOffDatesAction = adminAction.createServerAction()
   .handler(async () => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
     const db = await getDB();
     const oneOffDates = await db
       .select()
@@ -28,7 +23,7 @@ export const listOneOffDatesAction = createServerAction()
 // Add a one-off date
 // NOTE: date is stored as ISO string (YYYY-MM-DD) in Mountain Time (America/Boise)
 // The delivery system (src/utils/delivery.ts) reads these dates and treats them as MT dates
-export const addOneOffDateAction = createServerAction()
+export const addOneOffDateAction = adminAction.createServerAction()
   .input(
     z.object({
       date: futureMountainDateSchema,
@@ -42,12 +37,7 @@ export const addOneOffDateAction = createServerAction()
       leadTimeDays: z.number().min(0).optional(),
     })
   )
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = await getDB();
 
     // Check if one-off date already exists for this date and type
@@ -81,26 +71,38 @@ export const addOneOffDateAction = createServerAction()
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "one_off_date.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: oneOffDate.id,
+      after: oneOffDate,
+    });
+
     return oneOffDate;
   });
 
 // Delete a one-off date
-export const deleteOneOffDateAction = createServerAction()
+export const deleteOneOffDateAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
     })
   )
-  .handler(async ({ input }) => {
-    const session = await getSessionFromCookie();
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
+  .handler(async ({ input, ctx }) => {
     const db = await getDB();
-    await db
+    const [deletedOneOffDate] = await db
       .delete(deliveryOneOffDateTable)
-      .where(eq(deliveryOneOffDateTable.id, input.id));
+      .where(eq(deliveryOneOffDateTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "one_off_date.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DELIVERY_SETTINGS,
+      entityId: input.id,
+      before: deletedOneOffDate,
+    });
 
     return { success: true };
   });
@@ -0,0 +1,399 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useServerAction } from "zsa-react";
+import {
+  createDeliveryFeeRuleAction,
+  updateDeliveryFeeRuleAction,
+} from "../../_actions/delivery-fee-rule.action";
+import { toast } from "sonner";
+import { DELIVERY_FEE_RULE_TYPE, DELIVERY_FEE_RULE_TYPE_LABELS } from "@/db/schema";
+import type { DeliveryFeeRuleWithParsed } from "./delivery-fee-rules-table";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  ruleType: z.string().min(1, "Rule type is required"),
+  feeAmount: z.string(),
+  priority: z.string().min(1, "Priority is required"),
+  minimumOrderAmount: z.string(),
+  freeDeliveryThreshold: z.string(),
+  deliveryZoneId: z.string(),
+  productCategoryIds: z.array(z.string()),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface DeliveryFeeRuleDialogProps {
+  rule?: DeliveryFeeRuleWithParsed;
+  zones: Array<{ id: string; name: string }>;
+  categories: Array<{ id: string; name: string }>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyValues: FormValues = {
+  name: "",
+  ruleType: DELIVERY_FEE_RULE_TYPE.ORDER_AMOUNT,
+  feeAmount: "0",
+  priority: "0",
+  minimumOrderAmount: "",
+  freeDeliveryThreshold: "",
+  deliveryZoneId: "",
+  productCategoryIds: [],
+};
+
+function centsToDollars(cents: number | null) {
+  return cents === null ? "" : (cents / 100).toString();
+}
+
+function dollarsToCents(dollars: string) {
+  if (dollars.trim() === "") return null;
+  const value = parseFloat(dollars);
+  return isNaN(value) ? null : Math.round(value * 100);
+}
+
+export function DeliveryFeeRuleDialog({
+  rule,
+  zones,
+  categories,
+  open,
+  onOpenChange,
+}: DeliveryFeeRuleDialogProps) {
+  const router = useRouter();
+  const { execute: createRule, isPending: isCreating } =
+    useServerAction(createDeliveryFeeRuleAction);
+  const { execute: updateRule, isPending: isUpdating } =
+    useServerAction(updateDeliveryFeeRuleAction);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (rule) {
+      form.reset({
+        name: rule.name,
+        ruleType: rule.ruleType,
+        feeAmount: centsToDollars(rule.feeAmount),
+        priority: rule.priority.toString(),
+        minimumOrderAmount: centsToDollars(rule.minimumOrderAmount),
+        freeDeliveryThreshold: centsToDollars(rule.freeDeliveryThreshold),
+        deliveryZoneId: rule.deliveryZoneId || "",
+        productCategoryIds: rule.productCategoryIds,
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [rule, form]);
+
+  const ruleType = form.watch("ruleType");
+
+  async function onSubmit(values: FormValues) {
+    const feeAmount = dollarsToCents(values.feeAmount) ?? 0;
+
+    const data = {
+      name: values.name,
+      ruleType: values.ruleType,
+      feeAmount,
+      priority: parseInt(values.priority),
+      isActive: rule ? !!rule.isActive : true,
+      minimumOrderAmount: dollarsToCents(values.minimumOrderAmount),
+      freeDeliveryThreshold: dollarsToCents(values.freeDeliveryThreshold),
+      deliveryZoneId: values.deliveryZoneId || null,
+      productCategoryIds: values.productCategoryIds,
+    };
+
+    if (rule) {
+      const [, error] = await updateRule({ id: rule.id, ...data });
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Rule updated");
+        onOpenChange(false);
+        router.refresh();
+      }
+    } else {
+      const [, error] = await createRule(data);
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Rule created");
+        onOpenChange(false);
+        router.refresh();
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? "Edit Delivery Fee Rule" : "Add Delivery Fee Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            Rules adjust the zone fee. The rule name is shown to customers when it applies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Free Delivery Over $75" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="ruleType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rule Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(DELIVERY_FEE_RULE_TYPE) as Array<keyof typeof DELIVERY_FEE_RULE_TYPE>).map((key) => (
+                          <SelectItem key={key} value={DELIVERY_FEE_RULE_TYPE[key]}>
+                            {DELIVERY_FEE_RULE_TYPE_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <FormControl>
+                      <Input type="number" placeholder="0" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Higher = takes precedence
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {ruleType === DELIVERY_FEE_RULE_TYPE.ZONE && (
+              <FormField
+                control={form.control}
+                name="deliveryZoneId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delivery Zone</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select zone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {zones.map((zone) => (
+                          <SelectItem key={zone.id} value={zone.id}>
+                            {zone.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {ruleType === DELIVERY_FEE_RULE_TYPE.ORDER_AMOUNT && (
+              <FormField
+                control={form.control}
+                name="minimumOrderAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Subtotal</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="50.00" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Applies when the cart subtotal is at least this amount (USD)
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {ruleType === DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY && (
+              <FormField
+                control={form.control}
+                name="productCategoryIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categories</FormLabel>
+                    <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                      {categories.map((category) => (
+                        <label key={category.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(category.id)}
+                            onCheckedChange={(checked) => {
+                              field.onChange(
+                                checked
+                                  ? [...field.value, category.id]
+                                  : field.value.filter((id) => id !== category.id)
+                              );
+                            }}
+                          />
+                          {category.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription className="text-xs">
+                      Applies when the cart has any product in these categories
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="feeAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {ruleType === DELIVERY_FEE_RULE_TYPE.CUSTOM ? "Surcharge" : "Delivery Fee"}
+                    </FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                          $
+                        </span>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="5.00"
+                          className="pl-6"
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      {ruleType === DELIVERY_FEE_RULE_TYPE.CUSTOM
+                        ? "Added to the fee (negative for a discount)"
+                        : "Replaces the fee when the rule applies"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="freeDeliveryThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Free Delivery Over</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                          $
+                        </span>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="75.00"
+                          className="pl-6"
+                          {...field}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Optional - delivery is free once the subtotal reaches this
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="bg-muted p-3 rounded-md text-sm">
+              <p className="font-medium mb-1">Examples:</p>
+              <ul className="text-muted-foreground space-y-1">
+                <li>• Free Delivery Over $75 - Order Amount, free over $75.00</li>
+                <li>• Cake Delivery - Product Category (Cakes), $15.00</li>
+                <li>• Holiday Surcharge - Custom, +$3.00</li>
+              </ul>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || isUpdating}>
+                {isCreating || isUpdating ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { MoreHorizontal, Pencil, Trash, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { useServerAction } from "zsa-react";
+import { deleteDeliveryFeeRuleAction, toggleDeliveryFeeRuleAction } from "../../_actions/delivery-fee-rule.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { DELIVERY_FEE_RULE_TYPE, DELIVERY_FEE_RULE_TYPE_LABELS } from "@/db/schema";
+import { DeliveryFeeRuleDialog } from "./delivery-fee-rule-dialog";
+
+export interface DeliveryFeeRuleWithParsed {
+  id: string;
+  name: string;
+  ruleType: string;
+  feeAmount: number;
+  isActive: number;
+  priority: number;
+  minimumOrderAmount: number | null;
+  freeDeliveryThreshold: number | null;
+  deliveryZoneId: string | null;
+  productCategoryIds: string[];
+}
+
+interface DeliveryFeeRulesTableProps {
+  rules: DeliveryFeeRuleWithParsed[];
+  zones: Array<{ id: string; name: string }>;
+  categories: Array<{ id: string; name: string }>;
+}
+
+function formatFee(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function getRuleTypeLabel(ruleType: string) {
+  const key = (Object.keys(DELIVERY_FEE_RULE_TYPE) as Array<keyof typeof DELIVERY_FEE_RULE_TYPE>).find(
+    (k) => DELIVERY_FEE_RULE_TYPE[k] === ruleType
+  );
+  return key ? DELIVERY_FEE_RULE_TYPE_LABELS[key] : ruleType;
+}
+
+export function DeliveryFeeRulesTable({ rules, zones, categories }: DeliveryFeeRulesTableProps) {
+  const router = useRouter();
+  const { execute: deleteRule } = useServerAction(deleteDeliveryFeeRuleAction);
+  const { execute: toggleRule } = useServerAction(toggleDeliveryFeeRuleAction);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<DeliveryFeeRuleWithParsed | undefined>();
+
+  async function handleDelete(id: string) {
+    if (!confirm("Delete this delivery fee rule?")) return;
+    setDeletingId(id);
+    const [, error] = await deleteRule(id);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Rule deleted");
+      router.refresh();
+    }
+    setDeletingId(null);
+  }
+
+  async function handleToggle(id: string, currentStatus: boolean) {
+    const [, error] = await toggleRule({ id, isActive: !currentStatus });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(`Rule ${!currentStatus ? 'enabled' : 'disabled'}`);
+      router.refresh();
+    }
+  }
+
+  function describeConditions(rule: DeliveryFeeRuleWithParsed) {
+    const conditions: string[] = [];
+
+    if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.ZONE) {
+      const zone = zones.find((z) => z.id === rule.deliveryZoneId);
+      conditions.push(`Zone: ${zone?.name ?? 'Unknown zone'}`);
+    }
+    if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.ORDER_AMOUNT && rule.minimumOrderAmount !== null) {
+      conditions.push(`Subtotal ≥ ${formatFee(rule.minimumOrderAmount)}`);
+    }
+    if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY) {
+      const names = rule.productCategoryIds
+        .map((id) => categories.find((c) => c.id === id)?.name)
+        .filter(Boolean);
+      conditions.push(`Categories: ${names.join(', ') || 'None'}`);
+    }
+    if (rule.freeDeliveryThreshold !== null) {
+      conditions.push(`Free over ${formatFee(rule.freeDeliveryThreshold)}`);
+    }
+
+    return conditions.length > 0 ? conditions.join(' · ') : 'All deliveries';
+  }
+
+  function describeEffect(rule: DeliveryFeeRuleWithParsed) {
+    if (rule.freeDeliveryThreshold !== null) {
+      return 'FREE';
+    }
+    if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.CUSTOM) {
+      return `${rule.feeAmount < 0 ? '-' : '+'}${formatFee(Math.abs(rule.feeAmount))}`;
+    }
+    return formatFee(rule.feeAmount);
+  }
+
+  function handleAdd() {
+    setEditingRule(undefined);
+    setDialogOpen(true);
+  }
+
+  function handleEdit(rule: DeliveryFeeRuleWithParsed) {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-muted-foreground">
+          Rules run after the zone fee, lowest priority first, so higher priority rules have the final say
+        </p>
+        <Button size="sm" onClick={handleAdd}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Conditions</TableHead>
+              <TableHead>Fee</TableHead>
+              <TableHead>Priority</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[70px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No delivery fee rules configured - zone fees apply as-is
+                </TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{getRuleTypeLabel(rule.ruleType)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {describeConditions(rule)}
+                  </TableCell>
+                  <TableCell className="font-semibold">
+                    {describeEffect(rule)}
+                  </TableCell>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.isActive ? "default" : "secondary"}>
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleEdit(rule)}
+                        >
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleToggle(rule.id, !!rule.isActive)}
+                        >
+                          {rule.isActive ? 'Disable' : 'Enable'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(rule.id)}
+                          disabled={deletingId === rule.id}
+                          className="text-destructive"
+                        >
+                          <Trash className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <DeliveryFeeRuleDialog
+        rule={editingRule}
+        zones={zones}
+        categories={categories}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </div>
+  );
+}
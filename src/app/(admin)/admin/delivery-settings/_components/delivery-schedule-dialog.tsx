@@ -45,6 +45,10 @@ const formSchema = z.object({
   cutoffDay: z.string().min(1, "Cutoff day is required"),
   cutoffTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Invalid time format (HH:MM)"),
   deliveryTimeWindow: z.string().optional(),
+  slotStartTime: z.string(),
+  slotEndTime: z.string(),
+  slotDurationMinutes: z.string(),
+  slotCapacity: z.string(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -84,6 +88,10 @@ export function DeliveryScheduleDialog({
       cutoffDay: schedule?.cutoffDay?.toString() || "",
       cutoffTime: schedule?.cutoffTime || "",
       deliveryTimeWindow: schedule?.deliveryTimeWindow || "",
+      slotStartTime: schedule?.slotStartTime || "",
+      slotEndTime: schedule?.slotEndTime || "",
+      slotDurationMinutes: schedule?.slotDurationMinutes?.toString() || "",
+      slotCapacity: schedule?.slotCapacity?.toString() || "",
     },
   });
 
@@ -96,6 +104,10 @@ export function DeliveryScheduleDialog({
         cutoffDay: schedule.cutoffDay.toString(),
         cutoffTime: schedule.cutoffTime,
         deliveryTimeWindow: schedule.deliveryTimeWindow || "",
+        slotStartTime: schedule.slotStartTime || "",
+        slotEndTime: schedule.slotEndTime || "",
+        slotDurationMinutes: schedule.slotDurationMinutes?.toString() || "",
+        slotCapacity: schedule.slotCapacity?.toString() || "",
       });
     } else {
       form.reset({
@@ -104,6 +116,10 @@ export function DeliveryScheduleDialog({
         cutoffDay: "",
         cutoffTime: "",
         deliveryTimeWindow: "",
+        slotStartTime: "",
+        slotEndTime: "",
+        slotDurationMinutes: "",
+        slotCapacity: "",
       });
     }
   }, [schedule, form]);
@@ -116,6 +132,10 @@ export function DeliveryScheduleDialog({
       cutoffTime: values.cutoffTime,
       leadTimeDays: 0, // Not used - controlled by cutoff time only
       deliveryTimeWindow: values.deliveryTimeWindow,
+      slotStartTime: values.slotStartTime || null,
+      slotEndTime: values.slotEndTime || null,
+      slotDurationMinutes: values.slotDurationMinutes ? parseInt(values.slotDurationMinutes) : null,
+      slotCapacity: values.slotCapacity ? parseInt(values.slotCapacity) : null,
       isActive: true,
     };
 
@@ -142,7 +162,7 @@ export function DeliveryScheduleDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {schedule ? "Edit Delivery Schedule" : "Add Delivery Schedule"}
@@ -254,6 +274,70 @@ export function DeliveryScheduleDialog({
               )}
             />
 
+            <div className="space-y-2">
+              <FormLabel>Time Slots</FormLabel>
+              <p className="text-xs text-muted-foreground">
+                Optional - let customers book a delivery window, e.g. 2 hours long. Leave the slot length empty to show only the time window.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="slotStartTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">First Slot Starts</FormLabel>
+                      <FormControl>
+                        <Input type="time" placeholder="09:00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotEndTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Last Slot Ends</FormLabel>
+                      <FormControl>
+                        <Input type="time" placeholder="17:00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotDurationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Slot Length (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="5" placeholder="120" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotCapacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Max Orders per Slot</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <DialogFooter>
               <Button
                 type="button"
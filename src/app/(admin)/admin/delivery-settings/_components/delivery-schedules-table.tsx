@@ -107,7 +107,15 @@ export function DeliverySchedulesTable({ schedules }: { schedules: DeliverySched
                   <TableCell>
                     {DAYS[schedule.cutoffDay]} {schedule.cutoffTime}
                   </TableCell>
-                  <TableCell>{schedule.deliveryTimeWindow || '-'}</TableCell>
+                  <TableCell>
+                    {schedule.deliveryTimeWindow || '-'}
+                    {schedule.slotDurationMinutes && (
+                      <div className="text-xs text-muted-foreground">
+                        {schedule.slotDurationMinutes}-min slots
+                        {schedule.slotCapacity ? `, ${schedule.slotCapacity} orders each` : ''}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <Badge variant={schedule.isActive ? "default" : "secondary"}>
                       {schedule.isActive ? 'Active' : 'Inactive'}
@@ -6,7 +6,10 @@ import { PickupLocationsTable } from "./pickup-locations-table";
 import { DeliveryZonesTable } from "./delivery-zones-table";
 import { CalendarClosuresTable } from "./calendar-closures-table";
 import { OneOffDatesTable } from "./one-off-dates-table";
-import type { DeliverySchedule, PickupLocation, DeliveryZone, DeliveryCalendarClosure, DeliveryOneOffDate } from "@/db/schema";
+import { DeliveryFeeRulesTable, type DeliveryFeeRuleWithParsed } from "./delivery-fee-rules-table";
+import { ProductionCapacityTable } from "./production-capacity-table";
+import { DriversTable, type DriverWithAccount } from "./drivers-table";
+import type { DeliverySchedule, PickupLocation, DeliveryZone, DeliveryCalendarClosure, DeliveryOneOffDate, Category, ProductionCapacity } from "@/db/schema";
 
 interface LocationWithParsedData extends Omit<PickupLocation, 'address' | 'pickupDays'> {
   address: { street: string; city: string; state: string; zip: string };
@@ -23,6 +26,10 @@ interface DeliverySettingsTabsProps {
   initialZones: ZoneWithParsedData[];
   initialClosures: DeliveryCalendarClosure[];
   initialOneOffDates: DeliveryOneOffDate[];
+  initialFeeRules: DeliveryFeeRuleWithParsed[];
+  initialCapacities: ProductionCapacity[];
+  initialDrivers: DriverWithAccount[];
+  categories: Category[];
 }
 
 export function DeliverySettingsTabs({
@@ -31,13 +38,20 @@ export function DeliverySettingsTabs({
   initialZones,
   initialClosures,
   initialOneOffDates,
+  initialFeeRules,
+  initialCapacities,
+  initialDrivers,
+  categories,
 }: DeliverySettingsTabsProps) {
   return (
     <Tabs defaultValue="schedules" className="w-full">
-      <TabsList className="grid w-full grid-cols-3 lg:grid-cols-5">
+      <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8">
         <TabsTrigger value="schedules">Schedules</TabsTrigger>
         <TabsTrigger value="locations">Locations</TabsTrigger>
         <TabsTrigger value="zones">Zones</TabsTrigger>
+        <TabsTrigger value="fee-rules">Fee Rules</TabsTrigger>
+        <TabsTrigger value="capacity">Capacity</TabsTrigger>
+        <TabsTrigger value="drivers">Drivers</TabsTrigger>
         <TabsTrigger value="closures">Closures</TabsTrigger>
         <TabsTrigger value="one-off">One-Off</TabsTrigger>
       </TabsList>
@@ -54,6 +68,25 @@ export function DeliverySettingsTabs({
         <DeliveryZonesTable zones={initialZones} />
       </TabsContent>
 
+      <TabsContent value="fee-rules" className="mt-6">
+        <DeliveryFeeRulesTable
+          rules={initialFeeRules}
+          zones={initialZones}
+          categories={categories}
+        />
+      </TabsContent>
+
+      <TabsContent value="capacity" className="mt-6">
+        <ProductionCapacityTable
+          capacities={initialCapacities}
+          categories={categories}
+        />
+      </TabsContent>
+
+      <TabsContent value="drivers" className="mt-6">
+        <DriversTable drivers={initialDrivers} />
+      </TabsContent>
+
       <TabsContent value="closures" className="mt-6">
         <CalendarClosuresTable closures={initialClosures} />
       </TabsContent>
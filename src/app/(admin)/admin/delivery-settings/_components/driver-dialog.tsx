@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useServerAction } from "zsa-react";
+import {
+  createDriverAction,
+  updateDriverAction,
+} from "../../_actions/driver.action";
+import { toast } from "sonner";
+import type { DriverWithAccount } from "./drivers-table";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  phone: z.string(),
+  vehicleName: z.string(),
+  maxStops: z.string(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Pick a color"),
+  userEmail: z.union([z.literal(""), z.string().email("Enter a valid email")]),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface DriverDialogProps {
+  driver?: DriverWithAccount;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyValues: FormValues = {
+  name: "",
+  phone: "",
+  vehicleName: "",
+  maxStops: "",
+  color: "#2563eb",
+  userEmail: "",
+};
+
+export function DriverDialog({
+  driver,
+  open,
+  onOpenChange,
+}: DriverDialogProps) {
+  const router = useRouter();
+  const { execute: createDriver, isPending: isCreating } =
+    useServerAction(createDriverAction);
+  const { execute: updateDriver, isPending: isUpdating } =
+    useServerAction(updateDriverAction);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (driver) {
+      form.reset({
+        name: driver.name,
+        phone: driver.phone || "",
+        vehicleName: driver.vehicleName || "",
+        maxStops: driver.maxStops?.toString() || "",
+        color: driver.color,
+        userEmail: driver.userEmail || "",
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [driver, form]);
+
+  async function onSubmit(values: FormValues) {
+    const data = {
+      name: values.name,
+      phone: values.phone || null,
+      vehicleName: values.vehicleName || null,
+      maxStops: values.maxStops ? parseInt(values.maxStops) : null,
+      color: values.color,
+      isActive: driver ? !!driver.isActive : true,
+      userEmail: values.userEmail || null,
+    };
+
+    if (driver) {
+      const [, error] = await updateDriver({ id: driver.id, ...data });
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Driver updated");
+        onOpenChange(false);
+        router.refresh();
+      }
+    } else {
+      const [, error] = await createDriver(data);
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Driver created");
+        onOpenChange(false);
+        router.refresh();
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {driver ? "Edit Driver" : "Add Driver"}
+          </DialogTitle>
+          <DialogDescription>
+            Each driver gets one route when a delivery day is split across drivers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Maria" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="(208) 555-0123" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vehicleName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., White van" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxStops"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Stops</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Most deliveries the vehicle can carry
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="userEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Login Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="Not linked" {...field} />
+                  </FormControl>
+                  <FormDescription className="text-xs">
+                    The driver&apos;s account; signing in with it opens their run sheet at /driver
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Route Color</FormLabel>
+                  <FormControl>
+                    <Input type="color" className="h-10 w-20 p-1" {...field} />
+                  </FormControl>
+                  <FormDescription className="text-xs">
+                    Color of this driver&apos;s route on the delivery map
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || isUpdating}>
+                {isCreating || isUpdating ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { MoreHorizontal, Pencil, Trash, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { useServerAction } from "zsa-react";
+import {
+  deleteDriverAction,
+  toggleDriverAction,
+} from "../../_actions/driver.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import type { Driver } from "@/db/schema";
+import { DriverDialog } from "./driver-dialog";
+
+// Driver with the email of the account linked to their run sheet
+export type DriverWithAccount = Driver & { userEmail: string | null };
+
+interface DriversTableProps {
+  drivers: DriverWithAccount[];
+}
+
+export function DriversTable({ drivers }: DriversTableProps) {
+  const router = useRouter();
+  const { execute: deleteDriver } = useServerAction(deleteDriverAction);
+  const { execute: toggleDriver } = useServerAction(toggleDriverAction);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDriver, setEditingDriver] = useState<DriverWithAccount | undefined>();
+
+  async function handleDelete(id: string) {
+    if (!confirm("Delete this driver? Their planned stops go back to the unassigned route.")) return;
+    setDeletingId(id);
+    const [, error] = await deleteDriver(id);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Driver deleted");
+      router.refresh();
+    }
+    setDeletingId(null);
+  }
+
+  async function handleToggle(id: string, currentStatus: boolean) {
+    const [, error] = await toggleDriver({ id, isActive: !currentStatus });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(`Driver ${!currentStatus ? 'enabled' : 'disabled'}`);
+      router.refresh();
+    }
+  }
+
+  function handleAdd() {
+    setEditingDriver(undefined);
+    setDialogOpen(true);
+  }
+
+  function handleEdit(driver: DriverWithAccount) {
+    setEditingDriver(driver);
+    setDialogOpen(true);
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-muted-foreground">
+          Active drivers can be given their own route when a delivery day is split
+        </p>
+        <Button size="sm" onClick={handleAdd}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Driver
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Vehicle</TableHead>
+              <TableHead>Max Stops</TableHead>
+              <TableHead>Login</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[70px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drivers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No drivers configured - every delivery day is one route
+                </TableCell>
+              </TableRow>
+            ) : (
+              drivers.map((driver) => (
+                <TableRow key={driver.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full shrink-0"
+                        style={{ backgroundColor: driver.color }}
+                      />
+                      {driver.name}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {driver.phone || '-'}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {driver.vehicleName || '-'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {driver.maxStops ?? 'Unlimited'}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {driver.userEmail || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={driver.isActive ? "default" : "secondary"}>
+                      {driver.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleEdit(driver)}
+                        >
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleToggle(driver.id, !!driver.isActive)}
+                        >
+                          {driver.isActive ? 'Disable' : 'Enable'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(driver.id)}
+                          disabled={deletingId === driver.id}
+                          className="text-destructive"
+                        >
+                          <Trash className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <DriverDialog
+        driver={editingDriver}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </div>
+  );
+}
@@ -41,6 +41,10 @@ const formSchema = z.object({
   zip: z.string().min(1, "ZIP code is required"),
   pickupTimeWindows: z.string().min(1, "Pickup hours are required"),
   instructions: z.string().optional(),
+  slotStartTime: z.string(),
+  slotEndTime: z.string(),
+  slotDurationMinutes: z.string(),
+  slotCapacity: z.string(),
   pickupDays: z.object({
     sunday: z.boolean(),
     monday: z.boolean(),
@@ -62,6 +66,10 @@ interface PickupLocationWithParsed {
   pickupTimeWindows: string;
   instructions: string | null;
   leadTimeDays: number;
+  slotStartTime: string | null;
+  slotEndTime: string | null;
+  slotDurationMinutes: number | null;
+  slotCapacity: number | null;
 }
 
 interface PickupLocationDialogProps {
@@ -91,6 +99,10 @@ export function PickupLocationDialog({
       zip: location?.address?.zip || "",
       pickupTimeWindows: location?.pickupTimeWindows || "",
       instructions: location?.instructions || "",
+      slotStartTime: location?.slotStartTime || "",
+      slotEndTime: location?.slotEndTime || "",
+      slotDurationMinutes: location?.slotDurationMinutes?.toString() || "",
+      slotCapacity: location?.slotCapacity?.toString() || "",
       pickupDays: {
         sunday: location?.pickupDays?.includes(0) || false,
         monday: location?.pickupDays?.includes(1) || false,
@@ -113,6 +125,10 @@ export function PickupLocationDialog({
         zip: location.address.zip,
         pickupTimeWindows: location.pickupTimeWindows,
         instructions: location.instructions || "",
+        slotStartTime: location.slotStartTime || "",
+        slotEndTime: location.slotEndTime || "",
+        slotDurationMinutes: location.slotDurationMinutes?.toString() || "",
+        slotCapacity: location.slotCapacity?.toString() || "",
         pickupDays: {
           sunday: location.pickupDays.includes(0),
           monday: location.pickupDays.includes(1),
@@ -132,6 +148,10 @@ export function PickupLocationDialog({
         zip: "",
         pickupTimeWindows: "",
         instructions: "",
+        slotStartTime: "",
+        slotEndTime: "",
+        slotDurationMinutes: "",
+        slotCapacity: "",
         pickupDays: {
           sunday: false,
           monday: false,
@@ -172,6 +192,10 @@ export function PickupLocationDialog({
       pickupDays: pickupDaysArray,
       pickupTimeWindows: values.pickupTimeWindows,
       instructions: values.instructions,
+      slotStartTime: values.slotStartTime || null,
+      slotEndTime: values.slotEndTime || null,
+      slotDurationMinutes: values.slotDurationMinutes ? parseInt(values.slotDurationMinutes) : null,
+      slotCapacity: values.slotCapacity ? parseInt(values.slotCapacity) : null,
       leadTimeDays: 0, // No longer used
       isActive: true,
       requiresPreorder: false,
@@ -346,6 +370,70 @@ export function PickupLocationDialog({
               )}
             />
 
+            <div className="space-y-2">
+              <FormLabel>Time Slots</FormLabel>
+              <p className="text-xs text-muted-foreground">
+                Optional - let customers book a pickup time, e.g. every 30 minutes. Leave the slot length empty to show only the pickup hours.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="slotStartTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">First Slot Starts</FormLabel>
+                      <FormControl>
+                        <Input type="time" placeholder="10:00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotEndTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Last Slot Ends</FormLabel>
+                      <FormControl>
+                        <Input type="time" placeholder="18:00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotDurationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Slot Length (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="5" placeholder="30" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotCapacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-normal">Max Orders per Slot</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
             <DialogFooter>
               <Button
                 type="button"
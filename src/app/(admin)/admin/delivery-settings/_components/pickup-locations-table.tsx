@@ -41,6 +41,10 @@ interface PickupLocationWithParsed {
   isActive: number;
   requiresPreorder: number;
   leadTimeDays: number;
+  slotStartTime: string | null;
+  slotEndTime: string | null;
+  slotDurationMinutes: number | null;
+  slotCapacity: number | null;
 }
 
 export function PickupLocationsTable({ locations }: { locations: PickupLocationWithParsed[] }) {
@@ -132,7 +136,15 @@ export function PickupLocationsTable({ locations }: { locations: PickupLocationW
                     </div>
                   </TableCell>
                   <TableCell>{formatPickupDays(location.pickupDays)}</TableCell>
-                  <TableCell>{location.pickupTimeWindows}</TableCell>
+                  <TableCell>
+                    {location.pickupTimeWindows}
+                    {location.slotDurationMinutes && (
+                      <div className="text-xs text-muted-foreground">
+                        {location.slotDurationMinutes}-min slots
+                        {location.slotCapacity ? `, ${location.slotCapacity} orders each` : ''}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <Badge variant={location.isActive ? "default" : "secondary"}>
                       {location.isActive ? 'Active' : 'Inactive'}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useServerAction } from "zsa-react";
+import {
+  createProductionCapacityAction,
+  updateProductionCapacityAction,
+} from "../../_actions/production-capacity.action";
+import { toast } from "sonner";
+import type { ProductionCapacity } from "@/db/schema";
+
+// Select values can't be empty strings
+const ALL_PRODUCTS = "all";
+const EVERY_DAY = "every";
+
+const DAY_OPTIONS = [
+  { value: EVERY_DAY, label: "Every day" },
+  { value: "0", label: "Sunday" },
+  { value: "1", label: "Monday" },
+  { value: "2", label: "Tuesday" },
+  { value: "3", label: "Wednesday" },
+  { value: "4", label: "Thursday" },
+  { value: "5", label: "Friday" },
+  { value: "6", label: "Saturday" },
+];
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  categoryId: z.string(),
+  dayOfWeek: z.string(),
+  date: z.string(),
+  maxUnits: z.string().min(1, "Max units is required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface ProductionCapacityDialogProps {
+  capacity?: ProductionCapacity;
+  categories: Array<{ id: string; name: string }>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyValues: FormValues = {
+  name: "",
+  categoryId: ALL_PRODUCTS,
+  dayOfWeek: EVERY_DAY,
+  date: "",
+  maxUnits: "",
+};
+
+export function ProductionCapacityDialog({
+  capacity,
+  categories,
+  open,
+  onOpenChange,
+}: ProductionCapacityDialogProps) {
+  const router = useRouter();
+  const { execute: createCapacity, isPending: isCreating } =
+    useServerAction(createProductionCapacityAction);
+  const { execute: updateCapacity, isPending: isUpdating } =
+    useServerAction(updateProductionCapacityAction);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (capacity) {
+      form.reset({
+        name: capacity.name,
+        categoryId: capacity.categoryId || ALL_PRODUCTS,
+        dayOfWeek: capacity.dayOfWeek !== null ? capacity.dayOfWeek.toString() : EVERY_DAY,
+        date: capacity.date || "",
+        maxUnits: capacity.maxUnits.toString(),
+      });
+    } else {
+      form.reset(emptyValues);
+    }
+  }, [capacity, form]);
+
+  const date = form.watch("date");
+
+  async function onSubmit(values: FormValues) {
+    const data = {
+      name: values.name,
+      categoryId: values.categoryId === ALL_PRODUCTS ? null : values.categoryId,
+      dayOfWeek: values.dayOfWeek === EVERY_DAY ? null : parseInt(values.dayOfWeek),
+      date: values.date || null,
+      maxUnits: parseInt(values.maxUnits),
+      isActive: capacity ? !!capacity.isActive : true,
+    };
+
+    if (capacity) {
+      const [, error] = await updateCapacity({ id: capacity.id, ...data });
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Capacity limit updated");
+        onOpenChange(false);
+        router.refresh();
+      }
+    } else {
+      const [, error] = await createCapacity(data);
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success("Capacity limit created");
+        onOpenChange(false);
+        router.refresh();
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>
+            {capacity ? "Edit Capacity Limit" : "Add Capacity Limit"}
+          </DialogTitle>
+          <DialogDescription>
+            Dates stop being offered at checkout once their booked units reach the limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Daily bake limit" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applies To</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_PRODUCTS}>All products</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxUnits"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Units</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" placeholder="120" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="dayOfWeek"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Day</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={!!date}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select day" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DAY_OPTIONS.map((day) => (
+                          <SelectItem key={day.value} value={day.value}>
+                            {day.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Specific Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">
+                      Optional - limit a single date only
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="bg-muted p-3 rounded-md text-sm">
+              <p className="font-medium mb-1">Examples:</p>
+              <ul className="text-muted-foreground space-y-1">
+                <li>• Daily bake limit - All products, every day, 120</li>
+                <li>• Custom cakes - Cakes, every day, 6</li>
+                <li>• Christmas Eve - All products, 2025-12-24, 300</li>
+              </ul>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || isUpdating}>
+                {isCreating || isUpdating ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { MoreHorizontal, Pencil, Trash, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { useServerAction } from "zsa-react";
+import {
+  deleteProductionCapacityAction,
+  toggleProductionCapacityAction,
+} from "../../_actions/production-capacity.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import type { ProductionCapacity } from "@/db/schema";
+import { ProductionCapacityDialog } from "./production-capacity-dialog";
+
+interface ProductionCapacityTableProps {
+  capacities: ProductionCapacity[];
+  categories: Array<{ id: string; name: string }>;
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function ProductionCapacityTable({ capacities, categories }: ProductionCapacityTableProps) {
+  const router = useRouter();
+  const { execute: deleteCapacity } = useServerAction(deleteProductionCapacityAction);
+  const { execute: toggleCapacity } = useServerAction(toggleProductionCapacityAction);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCapacity, setEditingCapacity] = useState<ProductionCapacity | undefined>();
+
+  async function handleDelete(id: string) {
+    if (!confirm("Delete this capacity limit?")) return;
+    setDeletingId(id);
+    const [, error] = await deleteCapacity(id);
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Capacity limit deleted");
+      router.refresh();
+    }
+    setDeletingId(null);
+  }
+
+  async function handleToggle(id: string, currentStatus: boolean) {
+    const [, error] = await toggleCapacity({ id, isActive: !currentStatus });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(`Capacity limit ${!currentStatus ? 'enabled' : 'disabled'}`);
+      router.refresh();
+    }
+  }
+
+  function describeDays(capacity: ProductionCapacity) {
+    if (capacity.date) return capacity.date;
+    if (capacity.dayOfWeek !== null) return `Every ${DAYS[capacity.dayOfWeek]}`;
+    return 'Every day';
+  }
+
+  function handleAdd() {
+    setEditingCapacity(undefined);
+    setDialogOpen(true);
+  }
+
+  function handleEdit(capacity: ProductionCapacity) {
+    setEditingCapacity(capacity);
+    setDialogOpen(true);
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-muted-foreground">
+          Cap the units booked per delivery or pickup date. A specific date overrides a day of week, which overrides every day
+        </p>
+        <Button size="sm" onClick={handleAdd}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Limit
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead>Max Units</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[70px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {capacities.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No capacity limits configured - dates never fill up
+                </TableCell>
+              </TableRow>
+            ) : (
+              capacities.map((capacity) => (
+                <TableRow key={capacity.id}>
+                  <TableCell className="font-medium">{capacity.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {capacity.categoryId
+                        ? categories.find((c) => c.id === capacity.categoryId)?.name ?? 'Unknown category'
+                        : 'All products'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {describeDays(capacity)}
+                  </TableCell>
+                  <TableCell className="font-semibold">{capacity.maxUnits}</TableCell>
+                  <TableCell>
+                    <Badge variant={capacity.isActive ? "default" : "secondary"}>
+                      {capacity.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleEdit(capacity)}
+                        >
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleToggle(capacity.id, !!capacity.isActive)}
+                        >
+                          {capacity.isActive ? 'Disable' : 'Enable'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(capacity.id)}
+                          disabled={deletingId === capacity.id}
+                          className="text-destructive"
+                        >
+                          <Trash className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ProductionCapacityDialog
+        capacity={editingCapacity}
+        categories={categories}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </div>
+  );
+}
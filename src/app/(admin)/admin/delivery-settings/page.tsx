@@ -1,23 +1,31 @@
 import { getDeliverySchedulesAction } from "../_actions/delivery-schedule.action";
 import { getPickupLocationsAction } from "../_actions/pickup-location.action";
 import { getDeliveryZonesAction } from "../_actions/delivery-zone.action";
+import { getDeliveryFeeRulesAction } from "../_actions/delivery-fee-rule.action";
+import { getCategoriesAction } from "../_actions/products.action";
+import { getProductionCapacitiesAction } from "../_actions/production-capacity.action";
+import { getDriversAction } from "../_actions/driver.action";
 import { listCalendarClosuresAction } from "./_actions/calendar-closures.action";
 import { listOneOffDatesAction } from "./_actions/one-off-dates.action";
 import { DeliverySettingsTabs } from "./_components/delivery-settings-tabs";
 
 export const metadata = {
   title: "Delivery Settings | Admin",
-  description: "Configure delivery schedules, pickup locations, delivery zones, and calendar closures",
+  description: "Configure delivery schedules, pickup locations, delivery zones, fee rules, production capacity, drivers, and calendar closures",
 };
 
 export default async function DeliverySettingsPage() {
   // Fetch all data in parallel
-  const [schedules, locations, zones, closures, oneOffDates] = await Promise.all([
+  const [schedules, locations, zones, closures, oneOffDates, feeRules, capacities, drivers, categories] = await Promise.all([
     getDeliverySchedulesAction().then(([data]) => data || []),
     getPickupLocationsAction().then(([data]) => data || []),
     getDeliveryZonesAction().then(([data]) => data || []),
     listCalendarClosuresAction().then(([data]) => data || []),
     listOneOffDatesAction().then(([data]) => data || []),
+    getDeliveryFeeRulesAction().then(([data]) => data || []),
+    getProductionCapacitiesAction().then(([data]) => data || []),
+    getDriversAction().then(([data]) => data || []),
+    getCategoriesAction().then(([data]) => data || []),
   ]);
 
   return (
@@ -25,7 +33,7 @@ export default async function DeliverySettingsPage() {
       <div className="mb-6">
         <h1 className="text-3xl font-bold">Delivery Settings</h1>
         <p className="text-muted-foreground mt-1">
-          Configure delivery schedules, pickup locations, delivery zones, calendar closures, and one-off dates
+          Configure delivery schedules, pickup locations, delivery zones, fee rules, production capacity, drivers, calendar closures, and one-off dates
         </p>
       </div>
 
@@ -35,6 +43,10 @@ export default async function DeliverySettingsPage() {
         initialZones={zones}
         initialClosures={closures}
         initialOneOffDates={oneOffDates}
+        initialFeeRules={feeRules}
+        initialCapacities={capacities}
+        initialDrivers={drivers}
+        categories={categories}
       />
     </div>
   );
@@ -0,0 +1,340 @@
+"use server";
+
+import { adminAction } from "@/lib/admin-action";
+import { z } from "zod";
+import { getDB } from "@/db";
+import {
+  productDropTable,
+  productDropItemTable,
+  productTable,
+  orderItemTable,
+  ADMIN_AUDIT_ENTITY_TYPE,
+} from "@/db/schema";
+import { eq, desc, inArray, and, sql } from "drizzle-orm";
+import { getDropStatusAt, syncDropStatuses } from "@/utils/drops";
+import { recordAdminAudit } from "@/utils/admin-audit";
+
+const dropScheduleSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(255),
+    description: z.string().max(2000).optional(),
+    loyaltyEarlyAccessStart: z.date(),
+    publicReleaseStart: z.date(),
+    endTime: z.date().optional(),
+  })
+  .refine((data) => data.loyaltyEarlyAccessStart <= data.publicReleaseStart, {
+    message: "Early access must start before the public release",
+    path: ["loyaltyEarlyAccessStart"],
+  })
+  .refine((data) => !data.endTime || data.endTime > data.publicReleaseStart, {
+    message: "End time must be after the public release",
+    path: ["endTime"],
+  });
+
+// List all drops with their products
+export const listDropsAction = adminAction.createServerAction()
+  .handler(async () => {
+    // Keep stored statuses in step with the schedule before displaying
+    await syncDropStatuses();
+
+    const db = getDB();
+    const drops = await db
+      .select()
+      .from(productDropTable)
+      .orderBy(desc(productDropTable.loyaltyEarlyAccessStart));
+
+    if (drops.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .select({
+        id: productDropItemTable.id,
+        dropId: productDropItemTable.dropId,
+        productId: productDropItemTable.productId,
+        productName: productTable.name,
+        limitedQuantity: productDropItemTable.limitedQuantity,
+        remainingQuantity: productDropItemTable.remainingQuantity,
+        maxPerCustomer: productDropItemTable.maxPerCustomer,
+      })
+      .from(productDropItemTable)
+      .innerJoin(productTable, eq(productDropItemTable.productId, productTable.id))
+      .where(inArray(productDropItemTable.dropId, drops.map((d) => d.id)))
+      .orderBy(productTable.name);
+
+    return drops.map((drop) => ({
+      ...drop,
+      items: items.filter((item) => item.dropId === drop.id),
+    }));
+  });
+
+// Products that can be attached to a drop
+export const listDropProductOptionsAction = adminAction.createServerAction()
+  .handler(async () => {
+    const db = getDB();
+    return db
+      .select({
+        id: productTable.id,
+        name: productTable.name,
+        quantityAvailable: productTable.quantityAvailable,
+      })
+      .from(productTable)
+      .orderBy(productTable.name);
+  });
+
+// Create a drop
+export const createDropAction = adminAction.createServerAction()
+  .input(dropScheduleSchema)
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const [drop] = await db
+      .insert(productDropTable)
+      .values({
+        name: input.name,
+        description: input.description,
+        loyaltyEarlyAccessStart: input.loyaltyEarlyAccessStart,
+        publicReleaseStart: input.publicReleaseStart,
+        endTime: input.endTime,
+        status: getDropStatusAt(input),
+      })
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "drop.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+      entityId: drop.id,
+      after: drop,
+    });
+
+    return drop;
+  });
+
+// Update a drop's schedule
+export const updateDropAction = adminAction.createServerAction()
+  .input(dropScheduleSchema.and(z.object({ id: z.string() })))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const [existing] = await db
+      .select()
+      .from(productDropTable)
+      .where(eq(productDropTable.id, input.id))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error("Drop not found");
+    }
+
+    const [drop] = await db
+      .update(productDropTable)
+      .set({
+        name: input.name,
+        description: input.description ?? null,
+        loyaltyEarlyAccessStart: input.loyaltyEarlyAccessStart,
+        publicReleaseStart: input.publicReleaseStart,
+        endTime: input.endTime ?? null,
+        status: getDropStatusAt(input),
+        updatedAt: new Date(),
+      })
+      .where(eq(productDropTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "drop.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+      entityId: drop.id,
+      before: existing,
+      after: drop,
+    });
+
+    return drop;
+  });
+
+// Delete a drop (only if nothing has been sold through it)
+export const deleteDropAction = adminAction.createServerAction()
+  .input(z.object({ id: z.string() }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const items = await db
+      .select()
+      .from(productDropItemTable)
+      .where(eq(productDropItemTable.dropId, input.id));
+
+    if (items.length > 0) {
+      const [sale] = await db
+        .select({ id: orderItemTable.id })
+        .from(orderItemTable)
+        .where(inArray(orderItemTable.dropItemId, items.map((i) => i.id)))
+        .limit(1);
+
+      if (sale) {
+        throw new Error("This drop has orders and can't be deleted. Set an end time instead.");
+      }
+
+      await db
+        .delete(productDropItemTable)
+        .where(eq(productDropItemTable.dropId, input.id));
+    }
+
+    const [deleted] = await db
+      .delete(productDropTable)
+      .where(eq(productDropTable.id, input.id))
+      .returning();
+
+    if (deleted) {
+      await recordAdminAudit({
+        session: ctx.session,
+        action: "drop.delete",
+        entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+        entityId: deleted.id,
+        before: { ...deleted, items },
+      });
+    }
+
+    return { success: true };
+  });
+
+// Attach a product to a drop
+export const addDropItemAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      dropId: z.string(),
+      productId: z.string(),
+      limitedQuantity: z.number().int().positive("Quantity must be at least 1"),
+      maxPerCustomer: z.number().int().nonnegative().default(0),
+    })
+  )
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const [existing] = await db
+      .select({ id: productDropItemTable.id })
+      .from(productDropItemTable)
+      .where(
+        and(
+          eq(productDropItemTable.dropId, input.dropId),
+          eq(productDropItemTable.productId, input.productId)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      throw new Error("This product is already part of the drop");
+    }
+
+    const [item] = await db
+      .insert(productDropItemTable)
+      .values({
+        dropId: input.dropId,
+        productId: input.productId,
+        limitedQuantity: input.limitedQuantity,
+        remainingQuantity: input.limitedQuantity,
+        maxPerCustomer: input.maxPerCustomer,
+      })
+      .returning();
+
+    // Item changes are filed under their drop so its history shows them
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "drop.add_item",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+      entityId: item.dropId,
+      after: item,
+    });
+
+    return item;
+  });
+
+// Update a drop item's limits
+export const updateDropItemAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      id: z.string(),
+      limitedQuantity: z.number().int().positive("Quantity must be at least 1"),
+      maxPerCustomer: z.number().int().nonnegative(),
+    })
+  )
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const [current] = await db
+      .select()
+      .from(productDropItemTable)
+      .where(eq(productDropItemTable.id, input.id))
+      .limit(1);
+
+    if (!current) {
+      throw new Error("Drop item not found");
+    }
+
+    // Keep units already sold when the total changes
+    const sold = current.limitedQuantity - current.remainingQuantity;
+    if (input.limitedQuantity < sold) {
+      throw new Error(`${sold} units have already sold - quantity can't go below that`);
+    }
+
+    // Shift the remaining count by the change rather than writing the value
+    // read above, so a sale claimed in between isn't lost
+    const [item] = await db
+      .update(productDropItemTable)
+      .set({
+        limitedQuantity: input.limitedQuantity,
+        remainingQuantity: sql`${productDropItemTable.remainingQuantity} + ${input.limitedQuantity} - ${productDropItemTable.limitedQuantity}`,
+        maxPerCustomer: input.maxPerCustomer,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(productDropItemTable.id, input.id),
+          sql`${productDropItemTable.limitedQuantity} - ${productDropItemTable.remainingQuantity} <= ${input.limitedQuantity}`
+        )
+      )
+      .returning();
+
+    if (!item) {
+      throw new Error("More units sold while you were editing - quantity can't go below what has sold");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "drop.update_item",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+      entityId: item.dropId,
+      before: current,
+      after: item,
+    });
+
+    return item;
+  });
+
+// Remove a product from a drop
+export const removeDropItemAction = adminAction.createServerAction()
+  .input(z.object({ id: z.string() }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const [sale] = await db
+      .select({ id: orderItemTable.id })
+      .from(orderItemTable)
+      .where(eq(orderItemTable.dropItemId, input.id))
+      .limit(1);
+
+    if (sale) {
+      throw new Error("This product has already sold in the drop and can't be removed");
+    }
+
+    const [removed] = await db
+      .delete(productDropItemTable)
+      .where(eq(productDropItemTable.id, input.id))
+      .returning();
+
+    if (removed) {
+      await recordAdminAudit({
+        session: ctx.session,
+        action: "drop.remove_item",
+        entityType: ADMIN_AUDIT_ENTITY_TYPE.DROP,
+        entityId: removed.dropId,
+        before: removed,
+      });
+    }
+
+    return { success: true };
+  });
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useServerAction } from "zsa-react";
+import { createDropAction, updateDropAction } from "../_actions/drops.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import type { ProductDrop } from "@/db/schema";
+import { format } from "date-fns";
+
+interface DropFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  drop?: ProductDrop | null;
+}
+
+function toDateTimeInput(date: Date | null | undefined) {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+export function DropFormDialog({
+  open,
+  onOpenChange,
+  drop,
+}: DropFormDialogProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [loyaltyEarlyAccessStart, setLoyaltyEarlyAccessStart] = useState("");
+  const [publicReleaseStart, setPublicReleaseStart] = useState("");
+  const [endTime, setEndTime] = useState("");
+
+  // Populate form when editing
+  useEffect(() => {
+    if (drop) {
+      setName(drop.name);
+      setDescription(drop.description || "");
+      setLoyaltyEarlyAccessStart(toDateTimeInput(drop.loyaltyEarlyAccessStart));
+      setPublicReleaseStart(toDateTimeInput(drop.publicReleaseStart));
+      setEndTime(toDateTimeInput(drop.endTime));
+    } else {
+      resetForm();
+    }
+  }, [drop]);
+
+  const { execute: createDrop, isPending: isCreating } = useServerAction(
+    createDropAction,
+    {
+      onSuccess: () => {
+        toast.success("Drop scheduled successfully");
+        resetForm();
+        onOpenChange(false);
+        router.refresh();
+      },
+      onError: ({ err }) => {
+        toast.error(err.message);
+      },
+    }
+  );
+
+  const { execute: updateDrop, isPending: isUpdating } = useServerAction(
+    updateDropAction,
+    {
+      onSuccess: () => {
+        toast.success("Drop updated successfully");
+        resetForm();
+        onOpenChange(false);
+        router.refresh();
+      },
+      onError: ({ err }) => {
+        toast.error(err.message);
+      },
+    }
+  );
+
+  const isPending = isCreating || isUpdating;
+
+  function resetForm() {
+    setName("");
+    setDescription("");
+    setLoyaltyEarlyAccessStart("");
+    setPublicReleaseStart("");
+    setEndTime("");
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name || !loyaltyEarlyAccessStart || !publicReleaseStart) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    const data = {
+      name,
+      description: description || undefined,
+      loyaltyEarlyAccessStart: new Date(loyaltyEarlyAccessStart),
+      publicReleaseStart: new Date(publicReleaseStart),
+      endTime: endTime ? new Date(endTime) : undefined,
+    };
+
+    if (drop) {
+      updateDrop({
+        id: drop.id,
+        ...data,
+      });
+    } else {
+      createDrop(data);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{drop ? "Edit Drop" : "Schedule Drop"}</DialogTitle>
+          <DialogDescription>
+            Loyalty members can buy from the start of early access. Everyone else can buy once the public release starts.
+            All times are in Mountain Time (America/Boise).
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Name *</Label>
+            <Input
+              id="name"
+              placeholder="e.g., Pumpkin Spice Weekend"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isPending}
+              maxLength={255}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="What's in this drop?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isPending}
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loyaltyEarlyAccessStart">Early Access Starts (MT) *</Label>
+              <Input
+                id="loyaltyEarlyAccessStart"
+                type="datetime-local"
+                value={loyaltyEarlyAccessStart}
+                onChange={(e) => setLoyaltyEarlyAccessStart(e.target.value)}
+                disabled={isPending}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Loyalty members can start buying
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="publicReleaseStart">Public Release (MT) *</Label>
+              <Input
+                id="publicReleaseStart"
+                type="datetime-local"
+                value={publicReleaseStart}
+                onChange={(e) => setPublicReleaseStart(e.target.value)}
+                disabled={isPending}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Everyone can start buying
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="endTime">Ends (Optional, MT)</Label>
+            <Input
+              id="endTime"
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              disabled={isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              After this time the drop ends and its products go back to regular inventory rules
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                resetForm();
+                onOpenChange(false);
+              }}
+              disabled={isPending}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isPending || !name || !loyaltyEarlyAccessStart || !publicReleaseStart}
+              className="flex-1"
+            >
+              {isPending
+                ? drop
+                  ? "Updating..."
+                  : "Scheduling..."
+                : drop
+                ? "Update Drop"
+                : "Schedule Drop"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useServerAction } from "zsa-react";
+import { addDropItemAction, updateDropItemAction } from "../_actions/drops.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import type { DropItemRow, DropProductOption, DropWithItems } from "./drops-table";
+
+interface DropItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  drop: DropWithItems | null;
+  item?: DropItemRow | null;
+  products: DropProductOption[];
+}
+
+export function DropItemDialog({
+  open,
+  onOpenChange,
+  drop,
+  item,
+  products,
+}: DropItemDialogProps) {
+  const router = useRouter();
+  const [productId, setProductId] = useState("");
+  const [limitedQuantity, setLimitedQuantity] = useState(12);
+  const [maxPerCustomer, setMaxPerCustomer] = useState(0);
+
+  // Populate form when editing
+  useEffect(() => {
+    if (item) {
+      setProductId(item.productId);
+      setLimitedQuantity(item.limitedQuantity);
+      setMaxPerCustomer(item.maxPerCustomer);
+    } else {
+      resetForm();
+    }
+  }, [item]);
+
+  const { execute: addItem, isPending: isAdding } = useServerAction(
+    addDropItemAction,
+    {
+      onSuccess: () => {
+        toast.success("Product added to drop");
+        resetForm();
+        onOpenChange(false);
+        router.refresh();
+      },
+      onError: ({ err }) => {
+        toast.error(err.message);
+      },
+    }
+  );
+
+  const { execute: updateItem, isPending: isUpdating } = useServerAction(
+    updateDropItemAction,
+    {
+      onSuccess: () => {
+        toast.success("Drop limits updated");
+        resetForm();
+        onOpenChange(false);
+        router.refresh();
+      },
+      onError: ({ err }) => {
+        toast.error(err.message);
+      },
+    }
+  );
+
+  const isPending = isAdding || isUpdating;
+
+  // Products already in the drop can't be added twice
+  const availableProducts = products.filter(
+    (product) => !drop?.items.some((i) => i.productId === product.id)
+  );
+
+  function resetForm() {
+    setProductId("");
+    setLimitedQuantity(12);
+    setMaxPerCustomer(0);
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!drop) return;
+
+    if (item) {
+      updateItem({
+        id: item.id,
+        limitedQuantity,
+        maxPerCustomer,
+      });
+    } else {
+      if (!productId) {
+        toast.error("Please select a product");
+        return;
+      }
+
+      addItem({
+        dropId: drop.id,
+        productId,
+        limitedQuantity,
+        maxPerCustomer,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {item ? `Edit ${item.productName}` : `Add Product to ${drop?.name ?? "Drop"}`}
+          </DialogTitle>
+          <DialogDescription>
+            Limit how many units are released in this drop and how many each customer can buy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!item && (
+            <div className="space-y-2">
+              <Label htmlFor="productId">Product *</Label>
+              <Select value={productId} onValueChange={setProductId} disabled={isPending}>
+                <SelectTrigger id="productId">
+                  <SelectValue placeholder="Select a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProducts.map((product) => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.quantityAvailable} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="limitedQuantity">Drop Quantity *</Label>
+              <Input
+                id="limitedQuantity"
+                type="number"
+                min={1}
+                value={limitedQuantity}
+                onChange={(e) => setLimitedQuantity(Number(e.target.value))}
+                disabled={isPending}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Total units released in this drop
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxPerCustomer">Max Per Customer</Label>
+              <Input
+                id="maxPerCustomer"
+                type="number"
+                min={0}
+                value={maxPerCustomer}
+                onChange={(e) => setMaxPerCustomer(Number(e.target.value))}
+                disabled={isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                0 = no limit
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                resetForm();
+                onOpenChange(false);
+              }}
+              disabled={isPending}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isPending || (!item && !productId) || limitedQuantity < 1}
+              className="flex-1"
+            >
+              {isPending ? "Saving..." : item ? "Update Limits" : "Add Product"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
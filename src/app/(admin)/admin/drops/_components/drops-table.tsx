@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { PlusCircle, Trash, Pencil, PackagePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useServerAction } from "zsa-react";
+import { deleteDropAction, removeDropItemAction } from "../_actions/drops.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { DROP_STATUS, DROP_STATUS_COLORS, DROP_STATUS_LABELS, type ProductDrop } from "@/db/schema";
+import { format } from "date-fns";
+import { DropFormDialog } from "./drop-form-dialog";
+import { DropItemDialog } from "./drop-item-dialog";
+
+export type DropItemRow = {
+  id: string;
+  dropId: string;
+  productId: string;
+  productName: string;
+  limitedQuantity: number;
+  remainingQuantity: number;
+  maxPerCustomer: number;
+};
+
+export type DropWithItems = ProductDrop & { items: DropItemRow[] };
+
+export type DropProductOption = {
+  id: string;
+  name: string;
+  quantityAvailable: number;
+};
+
+function getStatusKey(status: string) {
+  return (Object.keys(DROP_STATUS) as Array<keyof typeof DROP_STATUS>).find(
+    (key) => DROP_STATUS[key] === status
+  ) ?? "SCHEDULED";
+}
+
+export function DropsTable({
+  drops,
+  products,
+}: {
+  drops: DropWithItems[];
+  products: DropProductOption[];
+}) {
+  const router = useRouter();
+  const { execute: deleteDrop } = useServerAction(deleteDropAction);
+  const { execute: removeItem } = useServerAction(removeDropItemAction);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [dropDialogOpen, setDropDialogOpen] = useState(false);
+  const [editingDrop, setEditingDrop] = useState<DropWithItems | null>(null);
+  const [itemDialogDrop, setItemDialogDrop] = useState<DropWithItems | null>(null);
+  const [editingItem, setEditingItem] = useState<DropItemRow | null>(null);
+
+  async function handleDelete(id: string) {
+    if (!confirm("Delete this drop and its products?")) return;
+    setDeletingId(id);
+    const [, error] = await deleteDrop({ id });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Drop deleted");
+      router.refresh();
+    }
+    setDeletingId(null);
+  }
+
+  async function handleRemoveItem(id: string) {
+    if (!confirm("Remove this product from the drop?")) return;
+    const [, error] = await removeItem({ id });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Product removed from drop");
+      router.refresh();
+    }
+  }
+
+  function handleEditDrop(drop: DropWithItems) {
+    setEditingDrop(drop);
+    setDropDialogOpen(true);
+  }
+
+  function handleDropDialogClose() {
+    setDropDialogOpen(false);
+    setEditingDrop(null);
+  }
+
+  function handleItemDialogClose() {
+    setItemDialogDrop(null);
+    setEditingItem(null);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Drops</h2>
+          <p className="text-sm text-muted-foreground">
+            Status moves from scheduled to early access, live, and ended automatically based on the schedule.
+            All times are in Mountain Time (America/Boise).
+          </p>
+        </div>
+        <Button onClick={() => setDropDialogOpen(true)}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Schedule Drop
+        </Button>
+      </div>
+
+      {drops.length === 0 ? (
+        <div className="text-center py-12 border rounded-lg">
+          <p className="text-muted-foreground">No drops scheduled</p>
+          <Button
+            onClick={() => setDropDialogOpen(true)}
+            variant="outline"
+            className="mt-4"
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Schedule First Drop
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {drops.map((drop) => {
+            const statusKey = getStatusKey(drop.status);
+
+            return (
+              <div key={drop.id} className="border rounded-lg">
+                <div className="flex items-start justify-between gap-4 p-4 border-b">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold">{drop.name}</h3>
+                      <Badge className={DROP_STATUS_COLORS[statusKey]}>
+                        {DROP_STATUS_LABELS[statusKey]}
+                      </Badge>
+                    </div>
+                    {drop.description && (
+                      <p className="text-sm text-muted-foreground">{drop.description}</p>
+                    )}
+                    <div className="text-sm text-muted-foreground">
+                      <div>Early access: {format(new Date(drop.loyaltyEarlyAccessStart), "MMM d, yyyy h:mm a")}</div>
+                      <div>Public release: {format(new Date(drop.publicReleaseStart), "MMM d, yyyy h:mm a")}</div>
+                      {drop.endTime && (
+                        <div>Ends: {format(new Date(drop.endTime), "MMM d, yyyy h:mm a")}</div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setItemDialogDrop(drop)}
+                      disabled={drop.status === DROP_STATUS.ENDED}
+                    >
+                      <PackagePlus className="h-4 w-4 mr-2" />
+                      Add Product
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEditDrop(drop)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(drop.id)}
+                      disabled={deletingId === drop.id}
+                    >
+                      <Trash className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+
+                {drop.items.length === 0 ? (
+                  <p className="p-4 text-sm text-muted-foreground">
+                    No products in this drop yet
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Remaining</TableHead>
+                        <TableHead>Sold</TableHead>
+                        <TableHead>Per Customer</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {drop.items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">{item.productName}</TableCell>
+                          <TableCell>
+                            {item.remainingQuantity} / {item.limitedQuantity}
+                          </TableCell>
+                          <TableCell>{item.limitedQuantity - item.remainingQuantity}</TableCell>
+                          <TableCell>
+                            {item.maxPerCustomer > 0 ? (
+                              item.maxPerCustomer
+                            ) : (
+                              <Badge variant="outline">No limit</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setEditingItem(item);
+                                  setItemDialogDrop(drop);
+                                }}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveItem(item.id)}
+                              >
+                                <Trash className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <DropFormDialog
+        open={dropDialogOpen}
+        onOpenChange={handleDropDialogClose}
+        drop={editingDrop}
+      />
+
+      <DropItemDialog
+        open={!!itemDialogDrop}
+        onOpenChange={handleItemDialogClose}
+        drop={itemDialogDrop}
+        item={editingItem}
+        products={products}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { listDropsAction, listDropProductOptionsAction } from "./_actions/drops.action";
+import { DropsTable } from "./_components/drops-table";
+
+export const metadata = {
+  title: "Product Drops | Admin",
+  description: "Schedule limited product drops with loyalty early access",
+};
+
+export default async function DropsPage() {
+  // Fetch data in parallel
+  const [drops, products] = await Promise.all([
+    listDropsAction().then(([data]) => data || []),
+    listDropProductOptionsAction().then(([data]) => data || []),
+  ]);
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Product Drops</h1>
+        <p className="text-muted-foreground mt-1">
+          Schedule limited releases. Loyalty members shop during early access, everyone else after the public release.
+        </p>
+      </div>
+
+      <DropsTable drops={drops} products={products} />
+    </div>
+  );
+}
@@ -3,13 +3,32 @@ import { getOrderByIdAction } from "../../_actions/orders.action";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { OrderStatusBadge } from "../_components/order-status-badge";
 import { UpdateOrderStatusDialog } from "../_components/update-order-status-dialog";
-import { formatDate } from "@/utils/format-date";
+import { RefundOrderDialog } from "../_components/refund-order-dialog";
+import { AuditHistoryPanel } from "../../audit/_components/audit-history-panel";
+import { OrderStatusTimeline } from "@/components/order-status-timeline";
+import { formatDate, formatDateTime } from "@/utils/format-date";
 import Image from "next/image";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  DELIVERY_FAILURE_REASON,
+  DELIVERY_FAILURE_REASON_LABELS,
+  NOTIFICATION_STATUS,
+  NOTIFICATION_STATUS_COLORS,
+  NOTIFICATION_TYPE,
+  NOTIFICATION_TYPE_LABELS,
+  PAYMENT_STATUS,
+  PAYMENT_STATUS_COLORS,
+  PAYMENT_STATUS_LABELS,
+  REFUND_STATUS,
+  REFUND_STATUS_LABELS,
+  SMS_DELIVERY_STATUS,
+  SMS_DELIVERY_STATUS_LABELS,
+} from "@/db/schema";
 import type { orderStatusTuple } from "@/db/schema";
 import { Button } from "@/components/ui/button";
-import { MapPin } from "lucide-react";
+import { Mail, MapPin, MessageSquare } from "lucide-react";
 
 interface PageProps {
   params: Promise<{
@@ -33,6 +52,23 @@ export default async function OrderDetailPage({ params }: PageProps) {
 
   const order = result;
 
+  // Failed refund attempts stay in the ledger but didn't move money
+  const totalRefunded = order.refunds
+    .filter((refund) => refund.status !== REFUND_STATUS.FAILED)
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const refundableAmount =
+    order.paymentStatus === PAYMENT_STATUS.PAID
+      ? order.totalAmount - totalRefunded
+      : 0;
+
+  const paymentStatusKey = Object.entries(PAYMENT_STATUS).find(
+    ([, value]) => value === order.paymentStatus
+  )?.[0] as keyof typeof PAYMENT_STATUS | undefined;
+
+  const failureReasonKey = Object.entries(DELIVERY_FAILURE_REASON).find(
+    ([, value]) => value === order.deliveryFailureReason
+  )?.[0] as keyof typeof DELIVERY_FAILURE_REASON | undefined;
+
   // Parse delivery address for display
   let deliveryAddress: {
     street: string;
@@ -88,11 +124,21 @@ export default async function OrderDetailPage({ params }: PageProps) {
                     Placed on {formatDate(order.createdAt)}
                   </p>
                 </div>
-                <UpdateOrderStatusDialog
-                  orderId={order.id}
-                  currentStatus={order.status}
-                  fulfillmentMethod={(order.fulfillmentMethod || order.fulfillmentType) as "delivery" | "pickup" | null}
-                />
+                <div className="flex items-center gap-2">
+                  {refundableAmount > 0 && (
+                    <RefundOrderDialog
+                      orderId={order.id}
+                      refundableAmount={refundableAmount}
+                      items={order.items}
+                    />
+                  )}
+                  <UpdateOrderStatusDialog
+                    orderId={order.id}
+                    currentStatus={order.status}
+                    paymentStatus={order.paymentStatus}
+                    fulfillmentMethod={(order.fulfillmentMethod || order.fulfillmentType) as "delivery" | "pickup" | null}
+                  />
+                </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -124,6 +170,23 @@ export default async function OrderDetailPage({ params }: PageProps) {
                   <p className="text-lg font-semibold">
                     ${(order.totalAmount / 100).toFixed(2)}
                   </p>
+                  {totalRefunded > 0 && (
+                    <p className="text-sm text-red-600">
+                      -${(totalRefunded / 100).toFixed(2)} refunded
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Payment Status
+                  </p>
+                  <span
+                    className={`mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
+                      paymentStatusKey ? PAYMENT_STATUS_COLORS[paymentStatusKey] : ""
+                    }`}
+                  >
+                    {PAYMENT_STATUS_LABELS[paymentStatusKey || "PENDING"]}
+                  </span>
                 </div>
                 {order.stripePaymentIntentId && (
                   <div className="col-span-2">
@@ -171,6 +234,44 @@ export default async function OrderDetailPage({ params }: PageProps) {
                       <p className="text-sm">{order.deliveryInstructions}</p>
                     </div>
                   )}
+                  {(order.deliveredAt || order.deliveryFailureReason) && (
+                    <div className="pt-2 border-t">
+                      <p className="text-sm font-medium text-muted-foreground mb-1">
+                        {order.deliveryStatus === "failed" ? "Delivery Failed" : "Proof of Delivery"}
+                      </p>
+                      {order.deliveryStatus === "failed" ? (
+                        <p className="text-sm">
+                          {failureReasonKey
+                            ? DELIVERY_FAILURE_REASON_LABELS[failureReasonKey]
+                            : order.deliveryFailureReason}
+                          {order.deliveryFailureNote && ` - ${order.deliveryFailureNote}`}
+                        </p>
+                      ) : (
+                        <div className="space-y-2">
+                          <p className="text-sm">
+                            {order.deliveredAt && formatDateTime(order.deliveredAt)}
+                            {order.deliveryRecipientName && ` · Received by ${order.deliveryRecipientName}`}
+                          </p>
+                          {order.deliveryProofImageKey && (
+                            <a
+                              href={`/api/delivery-proof/${order.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block relative aspect-[4/3] w-full max-w-xs overflow-hidden rounded-lg border"
+                            >
+                              <Image
+                                src={`/api/delivery-proof/${order.id}`}
+                                alt="Proof of delivery"
+                                fill
+                                unoptimized
+                                className="object-cover"
+                              />
+                            </a>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   {mapsUrl && (
                     <div className="pt-2">
                       <Button variant="default" size="sm" asChild>
@@ -220,6 +321,11 @@ export default async function OrderDetailPage({ params }: PageProps) {
                       <p className="text-sm text-muted-foreground">
                         Price: ${(item.priceAtPurchase / 100).toFixed(2)} each
                       </p>
+                      {item.refundedQuantity > 0 && (
+                        <p className="text-sm text-red-600">
+                          {item.refundedQuantity} refunded
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-semibold">
@@ -243,16 +349,140 @@ export default async function OrderDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
-          {/* Order Timeline - Placeholder for future enhancement */}
+          {/* Refund History */}
+          {order.refunds.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Refunds</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {order.refunds.map((refund) => {
+                    const statusKey = Object.entries(REFUND_STATUS).find(
+                      ([, value]) => value === refund.status
+                    )?.[0] as keyof typeof REFUND_STATUS | undefined;
+                    const refundedBy = [refund.refundedByFirstName, refund.refundedByLastName]
+                      .filter(Boolean)
+                      .join(" ");
+
+                    return (
+                      <div
+                        key={refund.id}
+                        className="flex items-start justify-between gap-4 p-4 border rounded-lg"
+                      >
+                        <div className="space-y-1">
+                          <p className="font-medium">{refund.reason}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(refund.createdAt)}
+                            {refundedBy && ` by ${refundedBy}`}
+                            {refund.restocked ? " · Restocked" : ""}
+                          </p>
+                          {refund.providerRefundId && (
+                            <p className="text-xs font-mono text-muted-foreground">
+                              {refund.providerRefundId}
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p
+                            className={`font-semibold ${
+                              refund.status === REFUND_STATUS.FAILED
+                                ? "text-muted-foreground line-through"
+                                : "text-red-600"
+                            }`}
+                          >
+                            -${(refund.amount / 100).toFixed(2)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {statusKey ? REFUND_STATUS_LABELS[statusKey] : refund.status}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Customer Notifications */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Notifications</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {order.notifications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No notifications have been sent for this order yet.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {order.notifications.map((notification) => {
+                    const typeKey = Object.entries(NOTIFICATION_TYPE).find(
+                      ([, value]) => value === notification.type
+                    )?.[0] as keyof typeof NOTIFICATION_TYPE | undefined;
+                    const statusKey = Object.entries(NOTIFICATION_STATUS).find(
+                      ([, value]) => value === notification.status
+                    )?.[0] as keyof typeof NOTIFICATION_STATUS | undefined;
+                    const deliveryStatusKey = Object.entries(SMS_DELIVERY_STATUS).find(
+                      ([, value]) => value === notification.deliveryStatus
+                    )?.[0] as keyof typeof SMS_DELIVERY_STATUS | undefined;
+                    const ChannelIcon = notification.channel === "sms" ? MessageSquare : Mail;
+
+                    return (
+                      <div
+                        key={notification.id}
+                        className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+                      >
+                        <div className="flex items-start gap-3">
+                          <ChannelIcon className="h-4 w-4 mt-1 text-muted-foreground" />
+                          <div>
+                            <p className="font-medium">
+                              {typeKey ? NOTIFICATION_TYPE_LABELS[typeKey] : notification.type}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {notification.recipient} · {formatDate(notification.createdAt)}
+                            </p>
+                            {deliveryStatusKey && (
+                              <p className="text-sm text-muted-foreground">
+                                {SMS_DELIVERY_STATUS_LABELS[deliveryStatusKey]}
+                                {notification.provider && ` via ${notification.provider}`}
+                                {notification.deliveryError && ` · ${notification.deliveryError}`}
+                              </p>
+                            )}
+                            {notification.error && (
+                              <p className="text-sm text-red-600">{notification.error}</p>
+                            )}
+                          </div>
+                        </div>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                            statusKey ? NOTIFICATION_STATUS_COLORS[statusKey] : ""
+                          }`}
+                        >
+                          {notification.status}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Admin change history */}
+          <AuditHistoryPanel
+            entityType={ADMIN_AUDIT_ENTITY_TYPE.ORDER}
+            entityId={order.id}
+          />
+
+          {/* Every status change, with who made it */}
           <Card>
             <CardHeader>
               <CardTitle>Order Timeline</CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-sm text-muted-foreground">
-                Order timeline feature coming soon. This will show all status
-                changes and when they occurred.
-              </p>
+              <OrderStatusTimeline events={order.statusEvents} showActors />
             </CardContent>
           </Card>
         </div>
@@ -9,16 +9,24 @@ import { toast } from "sonner";
 
 interface ExportDeliveryButtonProps {
   deliveryDate: string;
+  driverId?: string | null; // Export one driver's route; null = the unassigned route
+  label?: string;
   variant?: "default" | "outline";
   size?: "default" | "sm" | "lg";
 }
 
-export function ExportDeliveryButton({ deliveryDate, variant = "outline", size = "sm" }: ExportDeliveryButtonProps) {
+export function ExportDeliveryButton({
+  deliveryDate,
+  driverId,
+  label = "Export Route",
+  variant = "outline",
+  size = "sm",
+}: ExportDeliveryButtonProps) {
   const { execute, isPending } = useServerAction(exportDeliveryRoutesAction);
 
   const handleExport = async () => {
     try {
-      const [result, err] = await execute({ deliveryDate });
+      const [result, err] = await execute({ deliveryDate, driverId });
 
       if (err) {
         throw new Error(err.message);
@@ -51,7 +59,7 @@ export function ExportDeliveryButton({ deliveryDate, variant = "outline", size =
       ) : (
         <>
           <FileDown className="mr-2 h-4 w-4" />
-          Export Route
+          {label}
         </>
       )}
     </Button>
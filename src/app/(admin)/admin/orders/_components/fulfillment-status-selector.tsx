@@ -17,6 +17,12 @@ import {
 import { Button } from "@/components/ui/button";
 import { ChevronDown, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import type { DeliveryStatus } from "@/utils/delivery-status";
+import {
+  FULFILLMENT_STATUS_LABELS,
+  getNextFulfillmentStatuses,
+  type PickupStatus,
+} from "@/utils/order-status-workflow";
 
 interface FulfillmentStatusSelectorProps {
   orderId: string;
@@ -25,20 +31,22 @@ interface FulfillmentStatusSelectorProps {
   onStatusChange?: () => void;
 }
 
-const deliveryStatuses = [
-  { value: "pending", label: "Pending" },
-  { value: "confirmed", label: "Confirmed" },
-  { value: "preparing", label: "Preparing" },
-  { value: "out_for_delivery", label: "Out for Delivery" },
-  { value: "delivered", label: "Delivered" },
+const deliveryStatuses: DeliveryStatus[] = [
+  "pending",
+  "confirmed",
+  "preparing",
+  "out_for_delivery",
+  "arrived",
+  "delivered",
+  "failed",
 ];
 
-const pickupStatuses = [
-  { value: "pending", label: "Pending" },
-  { value: "confirmed", label: "Confirmed" },
-  { value: "preparing", label: "Preparing" },
-  { value: "ready_for_pickup", label: "Ready for Pickup" },
-  { value: "picked_up", label: "Picked Up" },
+const pickupStatuses: PickupStatus[] = [
+  "pending",
+  "confirmed",
+  "preparing",
+  "ready_for_pickup",
+  "picked_up",
 ];
 
 export function FulfillmentStatusSelector({
@@ -56,14 +64,16 @@ export function FulfillmentStatusSelector({
 
   const isUpdating = isUpdatingDelivery || isUpdatingPickup;
 
-  const statuses = fulfillmentMethod === "delivery" ? deliveryStatuses : pickupStatuses;
+  const statuses: (DeliveryStatus | PickupStatus)[] = fulfillmentMethod === "delivery" ? deliveryStatuses : pickupStatuses;
+  // Only the steps the workflow allows from here can be picked
+  const nextStatuses = getNextFulfillmentStatuses(fulfillmentMethod, currentStatus);
 
-  const handleStatusChange = async (newStatus: string) => {
+  const handleStatusChange = async (newStatus: DeliveryStatus | PickupStatus) => {
     try {
       if (fulfillmentMethod === "delivery") {
         const [, err] = await updateDelivery({
           orderId,
-          deliveryStatus: newStatus as "pending" | "confirmed" | "preparing" | "out_for_delivery" | "delivered",
+          deliveryStatus: newStatus as DeliveryStatus,
           notifyCustomer: true,
         });
 
@@ -73,7 +83,7 @@ export function FulfillmentStatusSelector({
       } else {
         const [, err] = await updatePickup({
           orderId,
-          pickupStatus: newStatus as "pending" | "confirmed" | "preparing" | "ready_for_pickup" | "picked_up",
+          pickupStatus: newStatus as PickupStatus,
           notifyCustomer: true,
         });
 
@@ -82,7 +92,7 @@ export function FulfillmentStatusSelector({
         }
       }
 
-      toast.success(`Order status changed to ${statuses.find((s) => s.value === newStatus)?.label}`);
+      toast.success(`Order status changed to ${FULFILLMENT_STATUS_LABELS[newStatus]}`);
 
       setIsOpen(false);
       onStatusChange?.();
@@ -91,7 +101,7 @@ export function FulfillmentStatusSelector({
     }
   };
 
-  const currentStatusLabel = statuses.find((s) => s.value === currentStatus)?.label || "Pending";
+  const currentStatusLabel = FULFILLMENT_STATUS_LABELS[(currentStatus || "pending") as DeliveryStatus | PickupStatus] || "Pending";
 
   return (
     <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
@@ -115,12 +125,12 @@ export function FulfillmentStatusSelector({
         <DropdownMenuSeparator />
         {statuses.map((status) => (
           <DropdownMenuItem
-            key={status.value}
-            onSelect={() => handleStatusChange(status.value)}
-            disabled={status.value === currentStatus}
+            key={status}
+            onSelect={() => handleStatusChange(status)}
+            disabled={!nextStatuses.includes(status)}
           >
-            {status.label}
-            {status.value === currentStatus && <span className="ml-2 text-muted-foreground">(current)</span>}
+            {FULFILLMENT_STATUS_LABELS[status]}
+            {status === (currentStatus || "pending") && <span className="ml-2 text-muted-foreground">(current)</span>}
           </DropdownMenuItem>
         ))}
       </DropdownMenuContent>
@@ -225,6 +225,7 @@ export function OrdersTable({
                           <UpdateOrderStatusDialog
                             orderId={order.id}
                             currentStatus={order.status}
+                            paymentStatus={order.paymentStatus}
                             fulfillmentMethod={fulfillmentMethod}
                             trigger={
                               <Button variant="outline" size="sm">
@@ -357,6 +358,7 @@ export function OrdersTable({
                         <UpdateOrderStatusDialog
                           orderId={order.id}
                           currentStatus={order.status}
+                          paymentStatus={order.paymentStatus}
                           fulfillmentMethod={fulfillmentMethod}
                           trigger={
                             <Button variant="outline" size="sm" className="flex-1">
@@ -0,0 +1,280 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { refundOrderAction } from "../../_actions/refund-order.action";
+import { formatCents } from "@/utils/tax";
+import { Loader2, Undo2 } from "lucide-react";
+
+type RefundMode = "full" | "items" | "amount";
+
+interface RefundOrderDialogProps {
+  orderId: string;
+  refundableAmount: number; // cents
+  items: Array<{
+    id: string;
+    productName: string | null;
+    quantity: number;
+    refundedQuantity: number;
+    priceAtPurchase: number;
+  }>;
+}
+
+export function RefundOrderDialog({
+  orderId,
+  refundableAmount,
+  items,
+}: RefundOrderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<RefundMode>("full");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(false);
+  const [cancelOrder, setCancelOrder] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  const refundableItems = items.filter(
+    (item) => item.quantity > item.refundedQuantity
+  );
+
+  function resetForm() {
+    setMode("full");
+    setQuantities({});
+    setAmount("");
+    setReason("");
+    setRestock(false);
+    setCancelOrder(false);
+  }
+
+  async function handleRefund() {
+    if (!reason.trim()) {
+      toast.error("Please provide a reason for the refund");
+      return;
+    }
+
+    const selectedItems = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+    if (mode === "items" && selectedItems.length === 0) {
+      toast.error("Select at least one item to refund");
+      return;
+    }
+
+    const amountInCents = Math.round(parseFloat(amount) * 100);
+    if (mode === "amount" && (!amountInCents || amountInCents <= 0)) {
+      toast.error("Enter a valid refund amount");
+      return;
+    }
+
+    if (mode === "amount" && amountInCents > refundableAmount) {
+      toast.error(`Refund cannot exceed ${formatCents(refundableAmount)}`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [data, err] = await refundOrderAction({
+        orderId,
+        reason,
+        items: mode === "items" ? selectedItems : undefined,
+        amount: mode === "amount" ? amountInCents : undefined,
+        restock: mode !== "amount" && restock,
+        cancelOrder,
+      });
+
+      if (err) {
+        toast.error(err.message || "Failed to refund order");
+        return;
+      }
+
+      toast.success(
+        data.isFullyRefunded
+          ? `Order fully refunded (${formatCents(data.amount)})`
+          : `Refunded ${formatCents(data.amount)}`
+      );
+      setOpen(false);
+      resetForm();
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={refundableAmount <= 0}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund Order</DialogTitle>
+          <DialogDescription>
+            Up to {formatCents(refundableAmount)} can still be refunded. The
+            customer will be notified by email.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <RadioGroup
+            value={mode}
+            onValueChange={(value) => setMode(value as RefundMode)}
+            className="grid gap-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full">
+                Full refund ({formatCents(refundableAmount)})
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem
+                value="items"
+                id="refund-items"
+                disabled={refundableItems.length === 0}
+              />
+              <Label htmlFor="refund-items">Refund specific items</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="amount" id="refund-amount" />
+              <Label htmlFor="refund-amount">Refund a custom amount</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === "items" && (
+            <div className="space-y-2 rounded-md border p-3">
+              {refundableItems.map((item) => {
+                const refundable = item.quantity - item.refundedQuantity;
+                return (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <div className="text-sm">
+                      <p className="font-medium">{item.productName || "Item"}</p>
+                      <p className="text-muted-foreground">
+                        {formatCents(item.priceAtPurchase)} each ·{" "}
+                        {refundable} refundable
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={refundable}
+                      className="w-20"
+                      value={quantities[item.id] ?? 0}
+                      onChange={(e) =>
+                        setQuantities((current) => ({
+                          ...current,
+                          [item.id]: Math.min(
+                            Math.max(parseInt(e.target.value) || 0, 0),
+                            refundable
+                          ),
+                        }))
+                      }
+                    />
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">
+                Item refunds include their share of sales tax.
+              </p>
+            </div>
+          )}
+
+          {mode === "amount" && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount-value">Amount ($)</Label>
+              <Input
+                id="refund-amount-value"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="e.g. Item was damaged during delivery"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {mode !== "amount" && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="refund-restock"
+                checked={restock}
+                onCheckedChange={(checked) => setRestock(checked === true)}
+              />
+              <Label htmlFor="refund-restock">
+                Return refunded items to inventory
+              </Label>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="refund-cancel"
+              checked={cancelOrder}
+              onCheckedChange={(checked) => setCancelOrder(checked === true)}
+            />
+            <Label htmlFor="refund-cancel">Cancel this order</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRefund}
+            disabled={isLoading}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Issue Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
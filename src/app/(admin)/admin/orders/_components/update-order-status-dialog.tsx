@@ -20,23 +20,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { ORDER_STATUS, ORDER_STATUS_LABELS } from "@/db/schema";
+import { getNextOrderStatuses } from "@/utils/order-status-workflow";
 import { updateOrderStatusAction } from "../../_actions/orders.action";
 import { Loader2 } from "lucide-react";
 
-// Simplified order statuses for admin interface
-const ALLOWED_ORDER_STATUSES = [
-  'PENDING',
-  'CONFIRMED',
-  'IN_PRODUCTION',
-  'READY_FOR_PICKUP',
-  'OUT_FOR_DELIVERY',
-  'COMPLETED',
-] as const;
+function getStatusLabel(status: string): string {
+  const statusKey = Object.entries(ORDER_STATUS).find(
+    ([, value]) => value === status
+  )?.[0] as keyof typeof ORDER_STATUS | undefined;
+
+  return statusKey ? ORDER_STATUS_LABELS[statusKey] : status;
+}
 
 interface UpdateOrderStatusDialogProps {
   orderId: string;
   currentStatus: string;
+  paymentStatus: string;
   fulfillmentMethod: "delivery" | "pickup" | null;
   trigger?: React.ReactNode;
 }
@@ -44,23 +45,22 @@ interface UpdateOrderStatusDialogProps {
 export function UpdateOrderStatusDialog({
   orderId,
   currentStatus,
+  paymentStatus,
   fulfillmentMethod,
   trigger,
 }: UpdateOrderStatusDialogProps) {
   const [open, setOpen] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<string>(currentStatus);
+  const [note, setNote] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
 
-  // Filter statuses based on fulfillment method
-  const availableStatuses = ALLOWED_ORDER_STATUSES.filter((status) => {
-    if (status === 'READY_FOR_PICKUP') {
-      return fulfillmentMethod === 'pickup';
-    }
-    if (status === 'OUT_FOR_DELIVERY') {
-      return fulfillmentMethod === 'delivery';
-    }
-    return true; // Include all other statuses
+  // Only the steps the workflow allows from here
+  const availableStatuses = getNextOrderStatuses({
+    status: currentStatus,
+    paymentStatus,
+    fulfillmentMethod,
+    fulfillmentType: null,
   });
 
   async function handleUpdateStatus() {
@@ -74,6 +74,7 @@ export function UpdateOrderStatusDialog({
       const [, err] = await updateOrderStatusAction({
         orderId,
         status: selectedStatus as typeof ORDER_STATUS[keyof typeof ORDER_STATUS],
+        note: note.trim() || undefined,
       });
 
       if (err) {
@@ -81,16 +82,8 @@ export function UpdateOrderStatusDialog({
         return;
       }
 
-      // Find the label for the new status
-      const statusKey = Object.entries(ORDER_STATUS).find(
-        ([, value]) => value === selectedStatus
-      )?.[0] as keyof typeof ORDER_STATUS | undefined;
-
-      const statusLabel = statusKey
-        ? ORDER_STATUS_LABELS[statusKey]
-        : selectedStatus;
-
-      toast.success(`Order status updated to ${statusLabel}`);
+      toast.success(`Order status updated to ${getStatusLabel(selectedStatus)}`);
+      setNote("");
       setOpen(false);
       router.refresh();
     } catch {
@@ -114,21 +107,34 @@ export function UpdateOrderStatusDialog({
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
-          <Select value={selectedStatus} onValueChange={setSelectedStatus}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select status" />
-            </SelectTrigger>
-            <SelectContent>
-              {availableStatuses.map((key) => (
-                <SelectItem
-                  key={key}
-                  value={ORDER_STATUS[key as keyof typeof ORDER_STATUS]}
-                >
-                  {ORDER_STATUS_LABELS[key as keyof typeof ORDER_STATUS_LABELS]}
+          {availableStatuses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {getStatusLabel(currentStatus)} orders can&apos;t be moved to another status.
+            </p>
+          ) : (
+            <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={currentStatus} disabled>
+                  {getStatusLabel(currentStatus)} (current)
                 </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+                {availableStatuses.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {getStatusLabel(status)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Textarea
+            className="mt-4"
+            placeholder="Note for the order history (optional)"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={1000}
+          />
         </div>
         <DialogFooter>
           <Button
@@ -138,7 +144,10 @@ export function UpdateOrderStatusDialog({
           >
             Cancel
           </Button>
-          <Button onClick={handleUpdateStatus} disabled={isLoading}>
+          <Button
+            onClick={handleUpdateStatus}
+            disabled={isLoading || availableStatuses.length === 0}
+          >
             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Update Status
           </Button>
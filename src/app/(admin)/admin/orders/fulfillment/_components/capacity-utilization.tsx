@@ -0,0 +1,73 @@
+import { format } from "date-fns";
+import { Gauge } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { DateCapacity } from "@/utils/production-capacity";
+
+interface CapacityUtilizationProps {
+  capacities: DateCapacity[];
+}
+
+function getBarColor(percent: number) {
+  if (percent >= 100) return "bg-destructive";
+  if (percent >= 80) return "bg-amber-500";
+  return "bg-primary";
+}
+
+/**
+ * Booked units against each production capacity limit, per date
+ */
+export function CapacityUtilization({ capacities }: CapacityUtilizationProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Production Capacity
+        </CardTitle>
+        <CardDescription>
+          Units booked for each date against its limits
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {capacities.map((capacity) => (
+          <div key={capacity.date} className="rounded-lg border p-3 space-y-3">
+            <p className="font-semibold text-sm">
+              {format(new Date(`${capacity.date}T12:00:00`), "EEE, MMM d")}
+            </p>
+            {capacity.limits.map((limit) => {
+              const percent = limit.maxUnits > 0
+                ? Math.round((limit.bookedUnits / limit.maxUnits) * 100)
+                : 100;
+
+              return (
+                <div key={limit.capacityId} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">
+                      {limit.categoryName ?? "All products"}
+                    </span>
+                    <span className={cn("font-medium", percent >= 100 && "text-destructive")}>
+                      {limit.bookedUnits} / {limit.maxUnits}
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={cn("h-full rounded-full", getBarColor(percent))}
+                      style={{ width: `${Math.min(percent, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,12 +4,22 @@ import { GoogleMap, Marker, DirectionsRenderer, InfoWindow, useJsApiLoader } fro
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { addSeconds, format } from 'date-fns';
 import { Button } from '@/components/ui/button';
-import { Save, RotateCcw, Zap, ExternalLink, TrendingDown, Info, GripVertical, Bell } from 'lucide-react';
+import { Save, RotateCcw, Zap, ExternalLink, TrendingDown, Info, GripVertical, Bell, MapPin } from 'lucide-react';
 import { useServerAction } from 'zsa-react';
 import { saveDeliveryRoute } from '../../../_actions/save-delivery-route.action';
 import { getDeliveryRoute } from '../../../_actions/get-delivery-route.action';
 import { optimizeDeliveryRoute } from '../../../_actions/optimize-delivery-route.action';
 import { notifyDeliveryETA } from '../../../_actions/notify-delivery-eta.action';
+import { pinDeliveryLocationAction } from '../../../_actions/geocode-delivery-addresses.action';
+import { GEOCODE_QUALITY } from '@/db/schema';
+import { ROUTE_ENGINE, type RouteEngine } from '@/utils/route-optimizer';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import { generateGoogleMapsRouteUrl } from '@/utils/google-maps';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -27,8 +37,11 @@ interface DeliveryStop {
   };
   lat: number;
   lng: number;
+  geocodeQuality?: string; // "rooftop", "approximate", "manual"...
   customerName: string;
   timeWindow?: string;
+  timeSlotStart?: string; // "10:00" - booked delivery window
+  timeSlotEnd?: string; // "12:00"
   estimatedArrival?: string; // "09:15:00"
 }
 
@@ -38,6 +51,15 @@ interface RouteSegment {
   estimatedDeparture: string;
   durationFromPrevious: number;
   distanceFromPrevious: number;
+  isLate: boolean; // Arrives after the booked window ends
+}
+
+// "HH:mm" or "HH:mm:ss" on the route's day
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
 }
 
 interface Props {
@@ -50,6 +72,8 @@ interface Props {
   deliveryDate: string; // ISO date "2024-10-26"
   startTime?: string; // "09:00:00"
   stopDuration?: number; // seconds, default 300 (5 min)
+  driverId?: string | null; // Driver whose route this is, null = unassigned
+  routeColor?: string; // Driver's route color, e.g. "#2563eb"
 }
 
 // Sortable Stop Item Component
@@ -91,10 +115,21 @@ function SortableStopItem({ delivery, segment, index, stopDuration, onClick }: {
             <span className="font-semibold text-xs sm:text-sm">Stop {index + 1}:</span>{' '}
             <span className="text-xs sm:text-sm truncate">{delivery.customerName}</span>
           </div>
-          <div className="font-mono text-xs text-muted-foreground sm:whitespace-nowrap">
+          <div className={`font-mono text-xs sm:whitespace-nowrap ${segment.isLate ? 'text-destructive' : 'text-muted-foreground'}`}>
             {segment.estimatedArrival} - {segment.estimatedDeparture}
           </div>
         </div>
+        {delivery.timeSlotStart && delivery.timeSlotEnd && (
+          <div className={`text-xs mt-1 ${segment.isLate ? 'text-destructive font-semibold' : 'text-muted-foreground'}`}>
+            Window {delivery.timeSlotStart} - {delivery.timeSlotEnd}
+            {segment.isLate && ' · late'}
+          </div>
+        )}
+        {delivery.geocodeQuality === GEOCODE_QUALITY.APPROXIMATE && (
+          <div className="text-xs mt-1 text-amber-600">
+            Approximate location - check the pin on the map
+          </div>
+        )}
         <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-x-2">
           <span>{(segment.durationFromPrevious / 60).toFixed(0)} min drive</span>
           <span>·</span>
@@ -112,7 +147,9 @@ export function DeliveryMapView({
   depotAddress,
   deliveryDate,
   startTime = "09:00:00",
-  stopDuration = 300
+  stopDuration = 300,
+  driverId,
+  routeColor,
 }: Props) {
   const { isLoaded, loadError } = useJsApiLoader({
     googleMapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '',
@@ -132,12 +169,16 @@ export function DeliveryMapView({
     timeSaved: number;
   } | null>(null);
   const [isLoadingSavedRoute, setIsLoadingSavedRoute] = useState(true);
+  const [pinningOrderId, setPinningOrderId] = useState<string | null>(null);
+  // "auto" lets the server pick Google when it can handle the route
+  const [routeEngine, setRouteEngine] = useState<RouteEngine | 'auto'>('auto');
   const isCalculatingRef = useRef(false);
 
   const { execute: saveRoute, isPending: isSaving } = useServerAction(saveDeliveryRoute);
   const { execute: getRoute } = useServerAction(getDeliveryRoute);
   const { execute: optimizeRoute, isPending: isOptimizing } = useServerAction(optimizeDeliveryRoute);
   const { execute: sendNotifications, isPending: isSendingNotifications } = useServerAction(notifyDeliveryETA);
+  const { execute: pinLocation, isPending: isPinning } = useServerAction(pinDeliveryLocationAction);
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -236,16 +277,22 @@ export function DeliveryMapView({
           // Skip the last leg (return to depot)
           if (index >= orderedDeliveries.length) return;
 
-          // Add drive time to current time
-          const arrivalTime = addSeconds(currentTime, leg.duration?.value || 0);
+          const stop = orderedDeliveries[index];
+
+          // Add drive time to current time, waiting if the booked window isn't open yet
+          let arrivalTime = addSeconds(currentTime, leg.duration?.value || 0);
+          if (stop.timeSlotStart && arrivalTime < atTime(currentTime, stop.timeSlotStart)) {
+            arrivalTime = atTime(currentTime, stop.timeSlotStart);
+          }
           const departureTime = addSeconds(arrivalTime, stopDuration);
 
           calculatedSegments.push({
-            orderId: orderedDeliveries[index].orderId,
+            orderId: stop.orderId,
             estimatedArrival: format(arrivalTime, 'HH:mm:ss'),
             estimatedDeparture: format(departureTime, 'HH:mm:ss'),
             durationFromPrevious: leg.duration?.value || 0,
             distanceFromPrevious: leg.distance?.value || 0,
+            isLate: !!stop.timeSlotEnd && arrivalTime > atTime(currentTime, stop.timeSlotEnd),
           });
 
           // Update current time for next leg
@@ -303,6 +350,7 @@ export function DeliveryMapView({
           estimatedArrival: seg.estimatedArrival,
           durationFromPrevious: seg.durationFromPrevious,
           distanceFromPrevious: seg.distanceFromPrevious,
+          driverId,
         })),
       });
 
@@ -336,6 +384,7 @@ export function DeliveryMapView({
         depotAddress,
         startTime,
         stopDuration,
+        engine: routeEngine === 'auto' ? undefined : routeEngine,
       });
 
       if (err) {
@@ -367,12 +416,21 @@ export function DeliveryMapView({
 
       if (data.savings.distanceSaved > 0 || data.savings.timeSaved > 0) {
         toast.success(
-          `Route optimized! Saved ${distanceSavedMiles} mi and ${timeSavedMinutes} min`,
+          data.engine === ROUTE_ENGINE.BUILT_IN
+            ? `Route optimized! Saved about ${distanceSavedMiles} mi and ${timeSavedMinutes} min (estimated)`
+            : `Route optimized! Saved ${distanceSavedMiles} mi and ${timeSavedMinutes} min`,
           { duration: 5000 }
         );
       } else {
         toast.info('Route is already optimal');
       }
+
+      if (data.lateStops.length > 0) {
+        toast.warning(
+          `${data.lateStops.length} stop${data.lateStops.length === 1 ? '' : 's'} can't be reached within the booked delivery window`,
+          { duration: 8000 }
+        );
+      }
     } catch (error) {
       toast.error('Failed to optimize route');
       console.error(error);
@@ -380,6 +438,35 @@ export function DeliveryMapView({
   };
 
   // Open route in Google Maps
+  // Pin a stop where the admin clicked or dropped its marker
+  const handlePinLocation = async (orderId: string, latLng: google.maps.LatLng | null) => {
+    if (!latLng || isPinning) return;
+
+    const lat = latLng.lat();
+    const lng = latLng.lng();
+
+    try {
+      const [, err] = await pinLocation({ orderId, lat, lng });
+
+      if (err) {
+        toast.error('Failed to pin location: ' + err.message);
+        return;
+      }
+
+      const movePin = (stops: DeliveryStop[]) => stops.map(stop =>
+        stop.orderId === orderId ? { ...stop, lat, lng, geocodeQuality: GEOCODE_QUALITY.MANUAL } : stop
+      );
+      setOrderedDeliveries(movePin);
+      setOriginalOrder(movePin);
+      toast.success('Location pinned');
+    } catch (error) {
+      toast.error('Failed to pin location');
+      console.error(error);
+    } finally {
+      setPinningOrderId(null);
+    }
+  };
+
   const handleOpenInGoogleMaps = () => {
     const url = generateGoogleMapsRouteUrl(orderedDeliveries, depotAddress);
     if (url) {
@@ -479,6 +566,16 @@ export function DeliveryMapView({
             <RotateCcw className="h-4 w-4 sm:mr-1" />
             <span className="hidden sm:inline">Revert</span>
           </Button>
+          <Select value={routeEngine} onValueChange={(value) => setRouteEngine(value as RouteEngine | 'auto')}>
+            <SelectTrigger className="h-9 w-[130px] flex-1 sm:flex-none" title="Route optimization engine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto</SelectItem>
+              <SelectItem value={ROUTE_ENGINE.GOOGLE}>Google</SelectItem>
+              <SelectItem value={ROUTE_ENGINE.BUILT_IN}>Built-in</SelectItem>
+            </SelectContent>
+          </Select>
           <Button
             variant="secondary"
             size="sm"
@@ -528,6 +625,22 @@ export function DeliveryMapView({
         </AlertDescription>
       </Alert>
 
+      {/* Pinning Alert */}
+      {pinningOrderId && (
+        <Alert className="bg-amber-50 border-amber-200 py-2 sm:py-3">
+          <MapPin className="h-3 w-3 sm:h-4 sm:w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800 text-xs sm:text-sm flex items-center justify-between gap-2">
+            <span>
+              Click the map or drag the marker to pin{' '}
+              {orderedDeliveries.find(d => d.orderId === pinningOrderId)?.customerName}&apos;s location.
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setPinningOrderId(null)} disabled={isPinning}>
+              Cancel
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Optimization Savings Alert */}
       {optimizationSavings && (optimizationSavings.distanceSaved > 0 || optimizationSavings.timeSaved > 0) && (
         <Alert className="bg-green-50 border-green-200 py-2 sm:py-3">
@@ -577,6 +690,7 @@ export function DeliveryMapView({
           center={depotAddress}
           zoom={12}
           onLoad={setMap}
+          onClick={(e) => pinningOrderId && handlePinLocation(pinningOrderId, e.latLng)}
         >
           {/* Depot Marker */}
           <Marker
@@ -600,7 +714,7 @@ export function DeliveryMapView({
                 suppressMarkers: true, // We'll add custom markers
                 draggable: true, // Enable drag-and-drop reordering
                 polylineOptions: {
-                  strokeColor: '#2563eb',
+                  strokeColor: routeColor ?? '#2563eb',
                   strokeWeight: 4,
                   strokeOpacity: 0.7,
                 },
@@ -620,10 +734,13 @@ export function DeliveryMapView({
                 color: 'white',
                 fontWeight: 'bold',
               }}
+              draggable={delivery.orderId === pinningOrderId}
+              onDragEnd={(e) => handlePinLocation(delivery.orderId, e.latLng)}
               icon={{
                 path: google.maps.SymbolPath.CIRCLE,
                 scale: 15,
-                fillColor: '#dc2626',
+                // Amber for approximate locations that may need a manual pin
+                fillColor: delivery.geocodeQuality === GEOCODE_QUALITY.APPROXIMATE ? '#d97706' : routeColor ?? '#dc2626',
                 fillOpacity: 1,
                 strokeColor: '#ffffff',
                 strokeWeight: 2,
@@ -658,6 +775,24 @@ export function DeliveryMapView({
                 <div className="text-xs text-gray-500 mt-1">
                   {(segments[selectedStop].durationFromPrevious / 60).toFixed(0)} min drive
                 </div>
+                {orderedDeliveries[selectedStop].geocodeQuality === GEOCODE_QUALITY.APPROXIMATE && (
+                  <div className="text-xs text-amber-600 mt-1">Approximate location</div>
+                )}
+                {orderedDeliveries[selectedStop].geocodeQuality === GEOCODE_QUALITY.MANUAL && (
+                  <div className="text-xs text-gray-500 mt-1">Pinned by hand</div>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => {
+                    setPinningOrderId(orderedDeliveries[selectedStop].orderId);
+                    setSelectedStop(null);
+                  }}
+                >
+                  <MapPin className="h-3 w-3 mr-1" />
+                  Move pin
+                </Button>
               </div>
             </InfoWindow>
           )}
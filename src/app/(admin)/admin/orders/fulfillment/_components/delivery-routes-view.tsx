@@ -0,0 +1,345 @@
+'use client';
+
+import { GoogleMap, Marker, Polyline, useJsApiLoader } from '@react-google-maps/api';
+import { useEffect, useMemo, useState } from 'react';
+import { Split } from 'lucide-react';
+import { useServerAction } from 'zsa-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ROUTE_BALANCE, type RouteBalance } from '@/utils/route-optimizer';
+import { getDeliveryRoute } from '../../../_actions/get-delivery-route.action';
+import { planDeliveryRoutesAction } from '../../../_actions/optimize-delivery-route.action';
+import { ExportDeliveryButton } from '../../_components/export-delivery-button';
+import { DeliveryMapView } from './delivery-map-view';
+
+interface DeliveryStop {
+  orderId: string;
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+  };
+  lat: number;
+  lng: number;
+  geocodeQuality?: string;
+  customerName: string;
+  timeWindow?: string;
+  timeSlotStart?: string;
+  timeSlotEnd?: string;
+}
+
+interface RouteDriver {
+  id: string;
+  name: string;
+  color: string;
+  vehicleName: string | null;
+  maxStops: number | null;
+}
+
+interface Props {
+  deliveries: DeliveryStop[];
+  depotAddress: {
+    lat: number;
+    lng: number;
+    name: string;
+  };
+  deliveryDate: string; // ISO date "2024-10-26"
+  drivers: RouteDriver[]; // Active drivers
+  startTime?: string; // "09:00:00"
+  stopDuration?: number; // seconds
+}
+
+// Stops with no driver, or one that's since been removed
+const UNASSIGNED = 'unassigned';
+const UNASSIGNED_COLOR = '#dc2626';
+
+/**
+ * A delivery day as one route per driver. The overview map shows every
+ * route in its driver's color; each route is planned in its own tab.
+ */
+export function DeliveryRoutesView({
+  deliveries,
+  depotAddress,
+  deliveryDate,
+  drivers,
+  startTime = "09:00:00",
+  stopDuration = 300,
+}: Props) {
+  const { isLoaded } = useJsApiLoader({
+    googleMapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '',
+    libraries: ['places'],
+  });
+
+  // Driver and place in route for each order, from the saved plan
+  const [plan, setPlan] = useState<Map<string, { driverId: string | null; sequence: number }>>(new Map());
+  const [isLoadingPlan, setIsLoadingPlan] = useState(true);
+  // Bumped after a split so each route's map reloads its saved order
+  const [planVersion, setPlanVersion] = useState(0);
+  const [selectedDriverIds, setSelectedDriverIds] = useState<string[]>([]);
+  const [balanceBy, setBalanceBy] = useState<RouteBalance>(ROUTE_BALANCE.DURATION);
+
+  const { execute: getRoute } = useServerAction(getDeliveryRoute);
+  const { execute: planRoutes, isPending: isPlanning } = useServerAction(planDeliveryRoutesAction);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      const [data, err] = await getRoute({ deliveryDate });
+
+      if (err) {
+        console.error('Failed to load saved routes:', err);
+      } else if (data) {
+        setPlan(new Map(data.routeSegments.map((segment) => [
+          segment.orderId,
+          { driverId: segment.driverId, sequence: segment.sequence },
+        ])));
+        setSelectedDriverIds(
+          drivers
+            .filter((driver) => data.routeSegments.some((segment) => segment.driverId === driver.id))
+            .map((driver) => driver.id)
+        );
+      }
+
+      setIsLoadingPlan(false);
+    };
+
+    loadPlan();
+  }, [deliveryDate]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Stops grouped into routes in saved order; drivers in settings order
+  const routes = useMemo(() => {
+    const routeKey = (stop: DeliveryStop) => {
+      const driverId = plan.get(stop.orderId)?.driverId;
+      return driverId && drivers.some((driver) => driver.id === driverId) ? driverId : UNASSIGNED;
+    };
+    const bySequence = (a: DeliveryStop, b: DeliveryStop) =>
+      (plan.get(a.orderId)?.sequence ?? 999) - (plan.get(b.orderId)?.sequence ?? 999);
+
+    const driverRoutes = drivers
+      .map((driver) => ({
+        key: driver.id,
+        driverId: driver.id as string | null,
+        name: driver.name,
+        color: driver.color,
+        stops: deliveries.filter((stop) => routeKey(stop) === driver.id).sort(bySequence),
+      }))
+      .filter((route) => route.stops.length > 0);
+
+    const unassigned = deliveries.filter((stop) => routeKey(stop) === UNASSIGNED).sort(bySequence);
+
+    return unassigned.length > 0 || driverRoutes.length === 0
+      ? [
+        ...driverRoutes,
+        { key: UNASSIGNED, driverId: null, name: 'Unassigned', color: UNASSIGNED_COLOR, stops: unassigned },
+      ]
+      : driverRoutes;
+  }, [deliveries, drivers, plan]);
+
+  const handleToggleDriver = (driverId: string, checked: boolean) => {
+    setSelectedDriverIds((current) =>
+      checked ? [...current, driverId] : current.filter((id) => id !== driverId)
+    );
+  };
+
+  const handlePlanRoutes = async () => {
+    try {
+      const [data, err] = await planRoutes({
+        deliveries,
+        depotAddress,
+        startTime,
+        stopDuration,
+        // Keep the drivers in settings order so route colors stay put
+        driverIds: drivers.filter((driver) => selectedDriverIds.includes(driver.id)).map((driver) => driver.id),
+        balanceBy,
+      });
+
+      if (err) {
+        toast.error('Failed to plan routes: ' + err.message);
+        return;
+      }
+
+      setPlan(new Map(data.routes.flatMap((route) =>
+        route.segments.map((segment) => [
+          segment.orderId,
+          { driverId: route.driverId, sequence: segment.sequence },
+        ] as const)
+      )));
+      setPlanVersion((version) => version + 1);
+
+      toast.success(
+        data.routes.length > 1
+          ? `Planned ${data.routes.length} routes`
+          : 'Planned a single route'
+      );
+
+      if (data.lateStops.length > 0) {
+        toast.warning(
+          `${data.lateStops.length} stop${data.lateStops.length === 1 ? '' : 's'} can't be reached within the booked delivery window`,
+          { duration: 8000 }
+        );
+      }
+    } catch (error) {
+      toast.error('Failed to plan routes');
+      console.error(error);
+    }
+  };
+
+  if (isLoadingPlan) {
+    return <div className="text-muted-foreground">Loading saved routes...</div>;
+  }
+
+  const routeMap = (route: typeof routes[number]) => (
+    <DeliveryMapView
+      key={`${route.key}-${planVersion}`}
+      deliveries={route.stops}
+      depotAddress={depotAddress}
+      deliveryDate={deliveryDate}
+      startTime={startTime}
+      stopDuration={stopDuration}
+      driverId={route.driverId}
+      routeColor={route.driverId ? route.color : undefined}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Split Controls */}
+      {drivers.length > 0 && (
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="text-sm font-medium">Drivers</div>
+            <div className="flex flex-wrap gap-2">
+              <Select value={balanceBy} onValueChange={(value) => setBalanceBy(value as RouteBalance)}>
+                <SelectTrigger className="h-9 w-[170px]" title="What to even out between routes">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ROUTE_BALANCE.DURATION}>Balance drive time</SelectItem>
+                  <SelectItem value={ROUTE_BALANCE.STOPS}>Balance stop count</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handlePlanRoutes}
+                disabled={isPlanning || deliveries.length === 0}
+                title="Split the deliveries between the selected drivers and optimize each route"
+              >
+                <Split className="h-4 w-4 mr-1" />
+                {isPlanning
+                  ? 'Planning...'
+                  : selectedDriverIds.length > 1
+                    ? `Split into ${selectedDriverIds.length} routes`
+                    : 'Plan one route'}
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {drivers.map((driver) => (
+              <div key={driver.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`driver-${deliveryDate}-${driver.id}`}
+                  checked={selectedDriverIds.includes(driver.id)}
+                  onCheckedChange={(checked) => handleToggleDriver(driver.id, checked === true)}
+                />
+                <Label htmlFor={`driver-${deliveryDate}-${driver.id}`} className="flex items-center gap-1.5 text-sm font-normal">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: driver.color }} />
+                  {driver.name}
+                  {driver.vehicleName && <span className="text-muted-foreground">· {driver.vehicleName}</span>}
+                  {driver.maxStops && <span className="text-muted-foreground">· max {driver.maxStops}</span>}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {routes.length === 1 ? (
+        routeMap(routes[0])
+      ) : (
+        <>
+          {/* Overview of every route */}
+          {isLoaded && (
+            <div className="h-[300px] sm:h-[400px] w-full rounded-lg overflow-hidden border">
+              <GoogleMap
+                mapContainerStyle={{ width: '100%', height: '100%' }}
+                center={depotAddress}
+                zoom={11}
+              >
+                <Marker
+                  position={depotAddress}
+                  icon={{
+                    path: google.maps.SymbolPath.CIRCLE,
+                    scale: 10,
+                    fillColor: '#4CAF50',
+                    fillOpacity: 1,
+                    strokeColor: '#ffffff',
+                    strokeWeight: 2,
+                  }}
+                  title={depotAddress.name}
+                />
+                {routes.map((route) => (
+                  <Polyline
+                    key={`line-${route.key}`}
+                    path={[depotAddress, ...route.stops, depotAddress].map(({ lat, lng }) => ({ lat, lng }))}
+                    options={{ strokeColor: route.color, strokeWeight: 3, strokeOpacity: 0.8 }}
+                  />
+                ))}
+                {routes.flatMap((route) => route.stops.map((stop, index) => (
+                  <Marker
+                    key={stop.orderId}
+                    position={{ lat: stop.lat, lng: stop.lng }}
+                    label={{ text: `${index + 1}`, color: 'white', fontSize: '11px' }}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: 10,
+                      fillColor: route.color,
+                      fillOpacity: 1,
+                      strokeColor: '#ffffff',
+                      strokeWeight: 2,
+                    }}
+                    title={`${route.name}: ${stop.customerName}`}
+                  />
+                )))}
+              </GoogleMap>
+            </div>
+          )}
+
+          {/* One tab per route */}
+          <Tabs defaultValue={routes[0].key} className="w-full">
+            <TabsList className="flex flex-wrap h-auto">
+              {routes.map((route) => (
+                <TabsTrigger key={route.key} value={route.key} className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: route.color }} />
+                  {route.name} ({route.stops.length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {routes.map((route) => (
+              <TabsContent key={route.key} value={route.key} className="mt-4 space-y-3">
+                <div className="flex justify-end">
+                  <ExportDeliveryButton
+                    deliveryDate={deliveryDate}
+                    driverId={route.driverId}
+                    label={route.driverId ? `Export ${route.name}'s Route` : 'Export Unassigned Stops'}
+                  />
+                </div>
+                {routeMap(route)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { DeliveryMapView } from "./delivery-map-view";
+import { DeliveryRoutesView } from "./delivery-routes-view";
 import { formatCents } from "@/utils/tax";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import { Navigation, Bell } from "lucide-react";
 import { useServerAction } from "zsa-react";
 import { notifyDeliveryETA } from "../../../_actions/notify-delivery-eta.action";
 import { toast } from "sonner";
+import { getOrderNumber } from "@/utils/order-number";
 
 interface DeliveryStop {
   orderId: string;
@@ -21,8 +22,11 @@ interface DeliveryStop {
   };
   lat: number;
   lng: number;
+  geocodeQuality?: string;
   customerName: string;
   timeWindow?: string;
+  timeSlotStart?: string;
+  timeSlotEnd?: string;
 }
 
 interface OrderData {
@@ -44,6 +48,13 @@ interface Props {
   deliveryDate: string; // ISO date "2024-10-26"
   orders: OrderData[];
   deliveryStops: DeliveryStop[];
+  drivers: Array<{
+    id: string;
+    name: string;
+    color: string;
+    vehicleName: string | null;
+    maxStops: number | null;
+  }>;
   depotAddress: {
     lat: number;
     lng: number;
@@ -52,7 +63,7 @@ interface Props {
   startTime?: string; // "09:00:00" or current time
 }
 
-export function DeliveryViewTabs({ deliveryDate, orders, deliveryStops, depotAddress, startTime = "09:00:00" }: Props) {
+export function DeliveryViewTabs({ deliveryDate, orders, deliveryStops, drivers, depotAddress, startTime = "09:00:00" }: Props) {
   const { execute: sendNotifications, isPending: isSendingNotifications } = useServerAction(notifyDeliveryETA);
 
   // Send delivery ETA notifications to customers
@@ -150,7 +161,7 @@ export function DeliveryViewTabs({ deliveryDate, orders, deliveryStops, depotAdd
                   >
                     <div className="flex items-center gap-2 flex-wrap">
                       <span className="font-mono text-xs sm:text-sm">
-                        #{orderData.order.id.slice(-8)}
+                        #{getOrderNumber(orderData.order.id)}
                       </span>
                       <Badge variant="outline" className="text-xs">
                         {orderData.order.status}
@@ -224,10 +235,11 @@ export function DeliveryViewTabs({ deliveryDate, orders, deliveryStops, depotAdd
 
       <TabsContent value="map" className="mt-4">
         {deliveryStops.length > 0 ? (
-          <DeliveryMapView
+          <DeliveryRoutesView
             deliveries={deliveryStops}
             depotAddress={depotAddress}
             deliveryDate={deliveryDate}
+            drivers={drivers}
             startTime={startTime}
             stopDuration={300}
           />
@@ -1,6 +1,9 @@
 import { PageHeader } from "@/components/page-header";
 import { getOrdersByFulfillmentAction } from "../../_actions/orders-by-fulfillment.action";
-import { geocodeDeliveryAddresses } from "../../_actions/geocode-delivery-addresses.action";
+import {
+  geocodeDeliveryAddresses,
+  getDeliveryLocationsAction,
+} from "../../_actions/geocode-delivery-addresses.action";
 import { getSessionFromCookie } from "@/utils/auth";
 import type { Metadata } from "next";
 import {
@@ -20,6 +23,10 @@ import { ExportPickupButton } from "../_components/export-pickup-button";
 import { FulfillmentFilters } from "../_components/fulfillment-filters";
 import { NuqsAdapter } from "nuqs/adapters/next/app";
 import { DeliveryViewTabs } from "./_components/delivery-view-tabs";
+import { CapacityUtilization } from "./_components/capacity-utilization";
+import { getCapacityUtilizationAction } from "../../_actions/production-capacity.action";
+import { getDriversAction } from "../../_actions/driver.action";
+import { getOrderNumber } from "@/utils/order-number";
 
 export const metadata: Metadata = {
   title: "Orders by Fulfillment",
@@ -89,6 +96,14 @@ export default async function OrdersByFulfillmentPage({
 
   const { deliveries, pickups, summary } = result;
 
+  const [capacities] = await getCapacityUtilizationAction({ startDate, endDate });
+
+  // Active drivers can each take a route on busy days
+  const [allDrivers] = await getDriversAction();
+  const drivers = (allDrivers ?? [])
+    .filter((driver) => driver.isActive)
+    .map(({ id, name, color, vehicleName, maxStops }) => ({ id, name, color, vehicleName, maxStops }));
+
   return (
     <NuqsAdapter>
       <PageHeader
@@ -168,6 +183,10 @@ export default async function OrdersByFulfillmentPage({
           </Card>
         </div>
 
+        {capacities && capacities.length > 0 && (
+          <CapacityUtilization capacities={capacities} />
+        )}
+
         {/* Deliveries by Date */}
         {deliveries.length > 0 && (
           <div className="space-y-4">
@@ -180,62 +199,40 @@ export default async function OrdersByFulfillmentPage({
                   !orderData.order.pickupLocationId
               );
 
-              // Geocode all delivery addresses for this date
-              const addresses = deliveryOnlyOrders
-                .map((orderData) => {
-                  if (!orderData.order.deliveryAddressJson) return null;
-                  try {
-                    return JSON.parse(orderData.order.deliveryAddressJson);
-                  } catch {
-                    return null;
-                  }
-                })
-                .filter(Boolean);
-
-              // Geocode addresses if Google Maps API key is available
-              let geocodedAddresses: Array<{
-                street: string;
-                city: string;
-                state: string;
-                zip: string;
-                lat: number;
-                lng: number;
-              }> = [];
-
-              if (addresses.length > 0 && process.env.GOOGLE_MAPS_API_KEY) {
-                const [data, err] = await geocodeDeliveryAddresses({ addresses });
-                if (!err && data) {
-                  geocodedAddresses = data.filter((addr): addr is {
-                    street: string;
-                    city: string;
-                    state: string;
-                    zip: string;
-                    lat: number;
-                    lng: number;
-                  } => addr !== null);
-                } else if (err) {
-                  console.error('Geocoding error:', err);
-                }
+              // Stored coordinates; orders from before geocoding are geocoded once here
+              const [locations, locationsErr] = await getDeliveryLocationsAction({
+                orderIds: deliveryOnlyOrders.map((orderData) => orderData.order.id),
+              });
+              if (locationsErr) {
+                console.error('Geocoding error:', locationsErr);
               }
+              const locationsByOrder = new Map(
+                (locations ?? []).map((location) => [location.orderId, location])
+              );
 
-              // Create delivery stops with geocoded coordinates
+              // Create delivery stops for orders that could be located
               const deliveryStops = deliveryOnlyOrders
-                .map((orderData, index) => {
-                  const geocoded = geocodedAddresses[index];
-                  if (!geocoded) return null;
+                .map((orderData) => {
+                  const location = locationsByOrder.get(orderData.order.id);
+                  if (!location || !orderData.order.deliveryAddressJson) return null;
+
+                  const address = JSON.parse(orderData.order.deliveryAddressJson);
 
                   return {
                     orderId: orderData.order.id,
                     address: {
-                      street: geocoded.street,
-                      city: geocoded.city,
-                      state: geocoded.state,
-                      zip: geocoded.zip,
+                      street: address.street,
+                      city: address.city,
+                      state: address.state,
+                      zip: address.zip,
                     },
-                    lat: geocoded.lat,
-                    lng: geocoded.lng,
+                    lat: location.lat,
+                    lng: location.lng,
+                    geocodeQuality: location.quality,
                     customerName: orderData.order.customerName,
                     timeWindow: orderData.order.deliveryTimeWindow || undefined,
+                    timeSlotStart: orderData.order.timeSlotStart || undefined,
+                    timeSlotEnd: orderData.order.timeSlotEnd || undefined,
                   };
                 })
                 .filter(Boolean) as Array<{
@@ -243,8 +240,11 @@ export default async function OrdersByFulfillmentPage({
                   address: { street: string; city: string; state: string; zip: string };
                   lat: number;
                   lng: number;
+                  geocodeQuality: string;
                   customerName: string;
                   timeWindow?: string;
+                  timeSlotStart?: string;
+                  timeSlotEnd?: string;
                 }>;
 
               // Get depot address from current user's profile
@@ -306,6 +306,7 @@ export default async function OrdersByFulfillmentPage({
                       deliveryDate={delivery.date}
                       orders={deliveryOnlyOrders}
                       deliveryStops={deliveryStops}
+                      drivers={drivers}
                       depotAddress={depotAddress}
                       startTime={startTime}
                     />
@@ -361,7 +362,7 @@ export default async function OrdersByFulfillmentPage({
                             <div className="space-y-1">
                               <div className="flex items-center gap-2">
                                 <span className="font-mono text-sm">
-                                  #{orderData.order.id.slice(-8)}
+                                  #{getOrderNumber(orderData.order.id)}
                                 </span>
                                 <Badge variant="outline">
                                   {orderData.order.status}
@@ -15,6 +15,8 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import Image from "next/image";
+import { ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
+import { AuditHistoryPanel } from "../../audit/_components/audit-history-panel";
 
 export default async function ProductDetailPage({
   params,
@@ -210,6 +212,13 @@ export default async function ProductDetailPage({
           )}
         </div>
       </div>
+
+      <div className="mt-6">
+        <AuditHistoryPanel
+          entityType={ADMIN_AUDIT_ENTITY_TYPE.PRODUCT}
+          entityId={product.id}
+        />
+      </div>
     </div>
   );
 }
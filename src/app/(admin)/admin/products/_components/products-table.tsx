@@ -155,6 +155,22 @@ export function ProductsTable({ products }: { products: Product[] }) {
                 >
                   {product.quantityAvailable}
                 </span>
+                {product.customizations?.type === "size_variants" && (
+                  <div className="mt-1 space-y-0.5">
+                    {product.customizations.variants.map((variant) => (
+                      <div
+                        key={variant.id}
+                        className={
+                          variant.quantityAvailable > 0
+                            ? "text-xs text-muted-foreground"
+                            : "text-xs text-destructive"
+                        }
+                      >
+                        {variant.name}: {variant.quantityAvailable}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </TableCell>
               <TableCell>{getStatusBadge(product.status)}</TableCell>
               <TableCell>
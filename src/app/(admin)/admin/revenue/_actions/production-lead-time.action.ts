@@ -0,0 +1,19 @@
+"use server";
+
+import { adminAction } from "@/lib/admin-action";
+import { z } from "zod";
+import { getProductionLeadTimes } from "@/utils/order-status-events";
+
+const getProductionLeadTimesInputSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+/**
+ * Time from payment to ready for orders that became ready in the period
+ */
+export const getProductionLeadTimesAction = adminAction.createServerAction()
+  .input(getProductionLeadTimesInputSchema)
+  .handler(async ({ input }) => {
+    return await getProductionLeadTimes(input);
+  });
@@ -1,17 +1,17 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
 import { orderTable, merchantFeeTable, PAYMENT_STATUS } from "@/db/schema";
-import { and, gte, lte, sql, eq } from "drizzle-orm";
+import { and, gte, lte, sql, eq, inArray } from "drizzle-orm";
 
 const getRevenueStatsInputSchema = z.object({
   startDate: z.coerce.date(),
   endDate: z.coerce.date(),
 });
 
-export const getRevenueStatsAction = createServerAction()
+export const getRevenueStatsAction = adminAction.createServerAction()
   .input(getRevenueStatsInputSchema)
   .handler(async ({ input }) => {
     const db = getDB();
@@ -28,6 +28,7 @@ export const getRevenueStatsAction = createServerAction()
         totalFees: sql<number>`COALESCE(SUM(${merchantFeeTable.totalFee}), 0)`,
         stripeFees: sql<number>`COALESCE(SUM(CASE WHEN ${merchantFeeTable.merchantProvider} = 'stripe' THEN ${merchantFeeTable.totalFee} ELSE 0 END), 0)`,
         squareFees: sql<number>`COALESCE(SUM(CASE WHEN ${merchantFeeTable.merchantProvider} = 'square' THEN ${merchantFeeTable.totalFee} ELSE 0 END), 0)`,
+        totalRefunds: sql<number>`COALESCE(SUM(${merchantFeeTable.refundedAmount}), 0)`,
         netRevenue: sql<number>`COALESCE(SUM(${merchantFeeTable.netAmount}), 0)`,
         avgOrderValue: sql<number>`COALESCE(AVG(${orderTable.totalAmount}), 0)`,
         avgFee: sql<number>`COALESCE(AVG(${merchantFeeTable.totalFee}), 0)`,
@@ -38,7 +39,8 @@ export const getRevenueStatsAction = createServerAction()
       .leftJoin(merchantFeeTable, eq(merchantFeeTable.orderId, orderTable.id))
       .where(
         and(
-          eq(orderTable.paymentStatus, PAYMENT_STATUS.PAID),
+          // Refunded orders still count; their refunds are netted out below
+          inArray(orderTable.paymentStatus, [PAYMENT_STATUS.PAID, PAYMENT_STATUS.REFUNDED]),
           gte(orderTable.createdAt, new Date(startTimestamp * 1000)),
           lte(orderTable.createdAt, new Date(endTimestamp * 1000))
         )
@@ -53,6 +55,7 @@ export const getRevenueStatsAction = createServerAction()
         orderCount: sql<number>`COUNT(DISTINCT ${orderTable.id})`,
         grossRevenue: sql<number>`COALESCE(SUM(${orderTable.totalAmount}), 0)`,
         totalFees: sql<number>`COALESCE(SUM(${merchantFeeTable.totalFee}), 0)`,
+        totalRefunds: sql<number>`COALESCE(SUM(${merchantFeeTable.refundedAmount}), 0)`,
         netRevenue: sql<number>`COALESCE(SUM(${merchantFeeTable.netAmount}), 0)`,
         avgFee: sql<number>`COALESCE(AVG(${merchantFeeTable.totalFee}), 0)`,
       })
@@ -60,7 +63,8 @@ export const getRevenueStatsAction = createServerAction()
       .leftJoin(merchantFeeTable, eq(merchantFeeTable.orderId, orderTable.id))
       .where(
         and(
-          eq(orderTable.paymentStatus, PAYMENT_STATUS.PAID),
+          // Refunded orders still count; their refunds are netted out below
+          inArray(orderTable.paymentStatus, [PAYMENT_STATUS.PAID, PAYMENT_STATUS.REFUNDED]),
           gte(orderTable.createdAt, new Date(startTimestamp * 1000)),
           lte(orderTable.createdAt, new Date(endTimestamp * 1000))
         )
@@ -72,6 +76,7 @@ export const getRevenueStatsAction = createServerAction()
         totalOrders: Number(stats.totalOrders) || 0,
         grossRevenue: Number(stats.grossRevenue) || 0,
         totalFees: Number(stats.totalFees) || 0,
+        totalRefunds: Number(stats.totalRefunds) || 0,
         netRevenue: Number(stats.netRevenue) || 0,
         avgOrderValue: Number(stats.avgOrderValue) || 0,
         avgFee: Number(stats.avgFee) || 0,
@@ -85,6 +90,7 @@ export const getRevenueStatsAction = createServerAction()
         orderCount: Number(row.orderCount) || 0,
         grossRevenue: Number(row.grossRevenue) || 0,
         totalFees: Number(row.totalFees) || 0,
+        totalRefunds: Number(row.totalRefunds) || 0,
         netRevenue: Number(row.netRevenue) || 0,
         avgFee: Number(row.avgFee) || 0,
         feePercentage: row.grossRevenue
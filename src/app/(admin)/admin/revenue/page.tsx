@@ -1,4 +1,5 @@
 import { getRevenueStatsAction } from "./_actions/revenue-stats.action";
+import { getProductionLeadTimesAction } from "./_actions/production-lead-time.action";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -18,6 +19,7 @@ import {
   endOfYear
 } from "date-fns";
 import { NuqsAdapter } from "nuqs/adapters/next/app";
+import { ORDER_STATUS, ORDER_STATUS_LABELS } from "@/db/schema";
 
 function formatCurrency(cents: number): string {
   return new Intl.NumberFormat("en-US", {
@@ -26,6 +28,27 @@ function formatCurrency(cents: number): string {
   }).format(cents / 100);
 }
 
+// 95 minutes -> "1h 35m"
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) {
+    return "—";
+  }
+
+  const rounded = Math.round(minutes);
+  if (rounded < 60) {
+    return `${rounded}m`;
+  }
+
+  const hours = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  return remainder > 0 ? `${hours}h ${remainder}m` : `${hours}h`;
+}
+
+function getOrderStatusLabel(status: string): string {
+  const key = Object.entries(ORDER_STATUS).find(([, value]) => value === status)?.[0];
+  return key ? ORDER_STATUS_LABELS[key as keyof typeof ORDER_STATUS] : status;
+}
+
 type SearchParams = Promise<{
   period?: string;
   startDate?: string;
@@ -56,7 +79,10 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
     endDate = endOfMonth(now);
   }
 
-  const [stats, error] = await getRevenueStatsAction({ startDate, endDate });
+  const [[stats, error], [leadTimes]] = await Promise.all([
+    getRevenueStatsAction({ startDate, endDate }),
+    getProductionLeadTimesAction({ startDate, endDate }),
+  ]);
 
   if (error) {
     return (
@@ -117,7 +143,7 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
       </div>
 
       {/* Overview Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-7 gap-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -134,6 +160,22 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Refunds
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-red-600">
+              -{formatCurrency(stats.overview.totalRefunds)}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Returned to customers
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -163,7 +205,7 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
               {formatCurrency(stats.overview.netRevenue)}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              After processing fees
+              After refunds and processing fees
             </p>
           </CardContent>
         </Card>
@@ -253,6 +295,7 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
                   <TableHead>Provider</TableHead>
                   <TableHead className="text-right">Orders</TableHead>
                   <TableHead className="text-right">Gross Revenue</TableHead>
+                  <TableHead className="text-right">Refunds</TableHead>
                   <TableHead className="text-right">Fees</TableHead>
                   <TableHead className="text-right">Fee %</TableHead>
                   <TableHead className="text-right">Net Revenue</TableHead>
@@ -270,6 +313,9 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
                     <TableCell className="text-right">
                       {formatCurrency(provider.grossRevenue)}
                     </TableCell>
+                    <TableCell className="text-right text-red-600">
+                      {formatCurrency(provider.totalRefunds)}
+                    </TableCell>
                     <TableCell className="text-right text-red-600">
                       {formatCurrency(provider.totalFees)}
                     </TableCell>
@@ -287,6 +333,60 @@ export default async function RevenuePage({ searchParams }: { searchParams: Sear
         </Card>
       )}
 
+      {/* Production Lead Time */}
+      {leadTimes && leadTimes.orderCount > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Production Lead Time</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              From payment to ready for pickup or out for delivery, for the{" "}
+              {leadTimes.orderCount} {leadTimes.orderCount === 1 ? "order" : "orders"} that became ready in this period
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Average</p>
+                <p className="text-2xl font-bold">{formatMinutes(leadTimes.averageMinutes)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Median</p>
+                <p className="text-2xl font-bold">{formatMinutes(leadTimes.medianMinutes)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">90th Percentile</p>
+                <p className="text-2xl font-bold">{formatMinutes(leadTimes.p90Minutes)}</p>
+              </div>
+            </div>
+
+            {leadTimes.stages.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Orders</TableHead>
+                    <TableHead className="text-right">Avg Time in Stage</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leadTimes.stages.map((stage) => (
+                    <TableRow key={stage.status}>
+                      <TableCell className="font-medium">
+                        {getOrderStatusLabel(stage.status)}
+                      </TableCell>
+                      <TableCell className="text-right">{stage.orderCount}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMinutes(stage.averageMinutes)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* No data message */}
       {stats.overview.totalOrders === 0 && (
         <Card>
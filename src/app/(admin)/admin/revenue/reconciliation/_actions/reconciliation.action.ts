@@ -0,0 +1,110 @@
+"use server";
+
+import { z } from "zod";
+import { endOfDay, startOfDay } from "date-fns";
+import { adminAction } from "@/lib/admin-action";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  paymentReconciliationStatusTuple,
+} from "@/db/schema";
+import { MERCHANT_PROVIDER_TYPES } from "@/lib/merchant-provider/types";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import {
+  getPaymentReconciliations,
+  reconcilePayments,
+  resolvePaymentReconciliation,
+  type PaymentReconciliationStatus,
+} from "@/utils/payment-reconciliation";
+
+/**
+ * Get flagged and repaired payments, newest payment first
+ */
+export const getPaymentReconciliationsAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      status: z.enum(paymentReconciliationStatusTuple).optional(),
+    })
+  )
+  .handler(async ({ input }) => {
+    return getPaymentReconciliations({
+      status: input.status as PaymentReconciliationStatus | undefined,
+    });
+  });
+
+/**
+ * Check provider payments in a date range against our orders
+ */
+export const runPaymentReconciliationAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      startDate: z.string().date(), // YYYY-MM-DD
+      endDate: z.string().date(), // YYYY-MM-DD
+      merchantProvider: z.enum(MERCHANT_PROVIDER_TYPES).optional(),
+      autoRepair: z.boolean().default(true),
+    })
+  )
+  .handler(async ({ input, ctx }) => {
+    const beginTime = startOfDay(new Date(`${input.startDate}T00:00:00`));
+    const endTime = endOfDay(new Date(`${input.endDate}T00:00:00`));
+
+    if (beginTime > endTime) {
+      throw new Error("Start date must be before end date");
+    }
+
+    const result = await reconcilePayments({
+      beginTime,
+      endTime,
+      merchantProvider: input.merchantProvider,
+      autoRepair: input.autoRepair,
+    });
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "payment_reconciliation.run",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.PAYMENT,
+      after: {
+        merchantProvider: result.merchantProvider,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        checked: result.checked,
+        repairedOrderIds: result.repaired.map((row) => row.orderId),
+        unmatchedPaymentIds: result.unmatched.map((row) => row.paymentId),
+      },
+    });
+
+    return {
+      merchantProvider: result.merchantProvider,
+      checked: result.checked,
+      matched: result.matched,
+      repaired: result.repaired.length,
+      unmatched: result.unmatched.length,
+    };
+  });
+
+/**
+ * Mark a flagged payment as handled (refunded, order re-entered by hand, ...)
+ */
+export const resolvePaymentReconciliationAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      id: z.string(),
+      note: z.string().trim().min(1, "Describe how the payment was resolved").max(1000),
+    })
+  )
+  .handler(async ({ input, ctx }) => {
+    const row = await resolvePaymentReconciliation(input);
+
+    if (!row) {
+      throw new Error("Reconciliation entry not found");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "payment_reconciliation.resolve",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.PAYMENT,
+      entityId: row.paymentId,
+      after: { status: row.status, note: row.note, orderId: row.orderId },
+    });
+
+    return row;
+  });
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { resolvePaymentReconciliationAction } from "../_actions/reconciliation.action";
+
+interface ResolveReconciliationDialogProps {
+  id: string;
+  paymentId: string;
+}
+
+export function ResolveReconciliationDialog({ id, paymentId }: ResolveReconciliationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  async function handleResolve() {
+    setIsLoading(true);
+    try {
+      const [, err] = await resolvePaymentReconciliationAction({ id, note });
+
+      if (err) {
+        toast.error(err.message || "Failed to resolve payment");
+        return;
+      }
+
+      toast.success("Payment marked as resolved");
+      setOpen(false);
+      setNote("");
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Resolve</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Payment</DialogTitle>
+          <DialogDescription>
+            Record how payment <span className="font-mono">{paymentId}</span> was
+            handled. Resolved payments are skipped by later reconciliation runs.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. Refunded in Square dashboard, duplicate charge"
+          rows={3}
+        />
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleResolve} disabled={isLoading || !note.trim()}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark Resolved
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
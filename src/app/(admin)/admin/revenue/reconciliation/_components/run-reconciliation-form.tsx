@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { format, subDays } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { runPaymentReconciliationAction } from "../_actions/reconciliation.action";
+
+export function RunReconciliationForm() {
+  const router = useRouter();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [autoRepair, setAutoRepair] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleRun() {
+    setIsLoading(true);
+    try {
+      const [result, err] = await runPaymentReconciliationAction({
+        startDate,
+        endDate,
+        autoRepair,
+      });
+
+      if (err) {
+        toast.error(err.message || "Failed to reconcile payments");
+        return;
+      }
+
+      toast.success(
+        `Checked ${result.checked} ${result.merchantProvider} payments: ` +
+        `${result.repaired} repaired, ${result.unmatched} unmatched`
+      );
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="reconcile-start" className="text-xs text-muted-foreground">From</Label>
+        <Input
+          id="reconcile-start"
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="h-9"
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor="reconcile-end" className="text-xs text-muted-foreground">To</Label>
+        <Input
+          id="reconcile-end"
+          type="date"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          className="h-9"
+        />
+      </div>
+      <div className="flex items-center gap-2 h-9">
+        <Checkbox
+          id="reconcile-auto-repair"
+          checked={autoRepair}
+          onCheckedChange={(checked) => setAutoRepair(checked === true)}
+        />
+        <Label htmlFor="reconcile-auto-repair" className="text-sm">
+          Finalize pending orders automatically
+        </Label>
+      </div>
+      <Button onClick={handleRun} disabled={isLoading || !startDate || !endDate} className="h-9">
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Run Reconciliation
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { PageHeader } from "@/components/page-header";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  PAYMENT_RECONCILIATION_STATUS,
+  PAYMENT_RECONCILIATION_STATUS_COLORS,
+  PAYMENT_RECONCILIATION_STATUS_LABELS,
+  paymentReconciliationStatusTuple,
+} from "@/db/schema";
+import type { PaymentReconciliationStatus } from "@/utils/payment-reconciliation";
+import { getPaymentReconciliationsAction } from "./_actions/reconciliation.action";
+import { ResolveReconciliationDialog } from "./_components/resolve-reconciliation-dialog";
+import { RunReconciliationForm } from "./_components/run-reconciliation-form";
+import { getOrderNumber } from "@/utils/order-number";
+
+export const metadata: Metadata = {
+  title: "Payment Reconciliation",
+  description: "Provider payments that have no matching order",
+};
+
+function formatCurrency(cents: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(cents / 100);
+}
+
+function getStatusKey(status: string) {
+  return Object.entries(PAYMENT_RECONCILIATION_STATUS).find(
+    ([, value]) => value === status
+  )?.[0] as keyof typeof PAYMENT_RECONCILIATION_STATUS | undefined;
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    status?: string;
+  }>;
+}
+
+export default async function PaymentReconciliationPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+
+  const status = paymentReconciliationStatusTuple.includes(params.status ?? "")
+    ? (params.status as PaymentReconciliationStatus)
+    : undefined;
+
+  const [rows, err] = await getPaymentReconciliationsAction({ status });
+
+  if (err) {
+    throw new Error(err.message);
+  }
+
+  const filters: { label: string; status?: PaymentReconciliationStatus }[] = [
+    { label: "All" },
+    ...Object.entries(PAYMENT_RECONCILIATION_STATUS).map(([key, value]) => ({
+      label: PAYMENT_RECONCILIATION_STATUS_LABELS[key as keyof typeof PAYMENT_RECONCILIATION_STATUS],
+      status: value,
+    })),
+  ];
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/revenue", label: "Revenue" },
+          { href: "/admin/revenue/reconciliation", label: "Payment Reconciliation" },
+        ]}
+      />
+      <div className="container mx-auto py-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Payment Reconciliation</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Payments the provider captured that no order points at. Checkout
+            orders still awaiting payment are finalized automatically; the rest
+            are flagged here.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Run Reconciliation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RunReconciliationForm />
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap gap-2">
+          {filters.map((filter) => (
+            <Button
+              key={filter.label}
+              variant={filter.status === status ? "default" : "outline"}
+              size="sm"
+              asChild
+            >
+              <Link
+                href={
+                  filter.status
+                    ? `/admin/revenue/reconciliation?status=${filter.status}`
+                    : "/admin/revenue/reconciliation"
+                }
+              >
+                {filter.label}
+              </Link>
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {rows.length} {rows.length === 1 ? "payment" : "payments"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No payments need attention.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Payment</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Captured</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const statusKey = getStatusKey(row.status);
+
+                    return (
+                      <TableRow key={row.id}>
+                        <TableCell className="font-mono text-xs">{row.paymentId}</TableCell>
+                        <TableCell className="capitalize">{row.merchantProvider}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(row.paymentCreatedAt), "MMM d, yyyy h:mm a")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="secondary"
+                            className={statusKey ? PAYMENT_RECONCILIATION_STATUS_COLORS[statusKey] : ""}
+                          >
+                            {statusKey ? PAYMENT_RECONCILIATION_STATUS_LABELS[statusKey] : row.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {row.orderId ? (
+                            <Link
+                              href={`/admin/orders/${row.orderId}`}
+                              className="font-mono text-xs underline"
+                            >
+                              #{getOrderNumber(row.orderId)}
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs text-sm text-muted-foreground">
+                          {row.note}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.status === PAYMENT_RECONCILIATION_STATUS.UNMATCHED && (
+                            <ResolveReconciliationDialog id={row.id} paymentId={row.paymentId} />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -1,24 +1,20 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { userTable } from "@/db/schema";
+import { userTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq } from "drizzle-orm";
-import { requireAdmin } from "@/utils/auth";
+import { recordAdminAudit } from "@/utils/admin-audit";
 
 const adminNotificationPreferencesSchema = z.object({
   emailNewOrders: z.boolean(),
   newOrderEmailAddress: z.string().email().nullable(),
 });
 
-export const getAdminNotificationPreferencesAction = createServerAction()
-  .handler(async () => {
-    const admin = await requireAdmin();
-
-    if (!admin) {
-      throw new Error("Unauthorized");
-    }
+export const getAdminNotificationPreferencesAction = adminAction.createServerAction()
+  .handler(async ({ ctx }) => {
+    const admin = ctx.session;
 
     const db = getDB();
 
@@ -45,17 +41,20 @@ export const getAdminNotificationPreferencesAction = createServerAction()
     }
   });
 
-export const updateAdminNotificationPreferencesAction = createServerAction()
+export const updateAdminNotificationPreferencesAction = adminAction.createServerAction()
   .input(adminNotificationPreferencesSchema)
-  .handler(async ({ input }) => {
-    const admin = await requireAdmin();
-
-    if (!admin) {
-      throw new Error("Unauthorized");
-    }
+  .handler(async ({ input, ctx }) => {
+    const admin = ctx.session;
 
     const db = getDB();
 
+    const existing = await db.query.userTable.findFirst({
+      where: eq(userTable.id, admin.userId),
+      columns: {
+        adminNotificationPreferences: true,
+      },
+    });
+
     await db
       .update(userTable)
       .set({
@@ -63,5 +62,14 @@ export const updateAdminNotificationPreferencesAction = createServerAction()
       })
       .where(eq(userTable.id, admin.userId));
 
+    await recordAdminAudit({
+      session: admin,
+      action: "user.update_admin_notification_preferences",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.USER,
+      entityId: admin.userId,
+      before: existing,
+      after: { adminNotificationPreferences: JSON.stringify(input) },
+    });
+
     return { success: true };
   });
@@ -1,17 +1,15 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { homeNotificationTable } from "@/db/schema";
+import { homeNotificationTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { requireAdmin } from "@/utils/auth";
 
 // List all home notifications
-export const listHomeNotificationsAction = createServerAction()
+export const listHomeNotificationsAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB();
     const notifications = await db
       .select()
@@ -22,7 +20,7 @@ export const listHomeNotificationsAction = createServerAction()
   });
 
 // Create a home notification
-export const createHomeNotificationAction = createServerAction()
+export const createHomeNotificationAction = adminAction.createServerAction()
   .input(
     z.object({
       title: z.string().min(1, "Title is required").max(255),
@@ -35,9 +33,7 @@ export const createHomeNotificationAction = createServerAction()
       endDate: z.date().optional(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
     const [notification] = await db
       .insert(homeNotificationTable)
@@ -53,11 +49,19 @@ export const createHomeNotificationAction = createServerAction()
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "home_notification.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: notification.id,
+      after: notification,
+    });
+
     return notification;
   });
 
 // Update a home notification
-export const updateHomeNotificationAction = createServerAction()
+export const updateHomeNotificationAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
@@ -71,10 +75,13 @@ export const updateHomeNotificationAction = createServerAction()
       endDate: z.date().optional(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
+    const existing = await db
+      .select()
+      .from(homeNotificationTable)
+      .where(eq(homeNotificationTable.id, input.id))
+      .get();
     const [notification] = await db
       .update(homeNotificationTable)
       .set({
@@ -91,21 +98,33 @@ export const updateHomeNotificationAction = createServerAction()
       .where(eq(homeNotificationTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "home_notification.update",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: input.id,
+      before: existing,
+      after: notification,
+    });
+
     return notification;
   });
 
 // Toggle active status
-export const toggleHomeNotificationActiveAction = createServerAction()
+export const toggleHomeNotificationActiveAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
       isActive: z.boolean(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
+    const existing = await db
+      .select()
+      .from(homeNotificationTable)
+      .where(eq(homeNotificationTable.id, input.id))
+      .get();
     const [notification] = await db
       .update(homeNotificationTable)
       .set({
@@ -115,23 +134,39 @@ export const toggleHomeNotificationActiveAction = createServerAction()
       .where(eq(homeNotificationTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "home_notification.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: input.id,
+      before: existing,
+      after: notification,
+    });
+
     return notification;
   });
 
 // Delete a home notification
-export const deleteHomeNotificationAction = createServerAction()
+export const deleteHomeNotificationAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
-    await db
+    const [deletedNotification] = await db
       .delete(homeNotificationTable)
-      .where(eq(homeNotificationTable.id, input.id));
+      .where(eq(homeNotificationTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "home_notification.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: input.id,
+      before: deletedNotification,
+    });
 
     return { success: true };
   });
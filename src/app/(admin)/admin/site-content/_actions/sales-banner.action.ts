@@ -1,17 +1,15 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { adminAction } from "@/lib/admin-action";
+import { recordAdminAudit } from "@/utils/admin-audit";
 import { z } from "zod";
 import { getDB } from "@/db";
-import { salesBannerTable } from "@/db/schema";
+import { salesBannerTable, ADMIN_AUDIT_ENTITY_TYPE } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
-import { requireAdmin } from "@/utils/auth";
 
 // Get the most recent sales banner
-export const getSalesBannerAction = createServerAction()
+export const getSalesBannerAction = adminAction.createServerAction()
   .handler(async () => {
-    await requireAdmin();
-
     const db = getDB();
     const [banner] = await db
       .select()
@@ -23,7 +21,7 @@ export const getSalesBannerAction = createServerAction()
   });
 
 // Create or update sales banner (upsert approach)
-export const upsertSalesBannerAction = createServerAction()
+export const upsertSalesBannerAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string().optional(), // If provided, update; otherwise create
@@ -37,13 +35,17 @@ export const upsertSalesBannerAction = createServerAction()
       ctaLink: z.string().max(500).optional(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
 
     // If ID provided, update existing banner
     if (input.id) {
+      const existing = await db
+        .select()
+        .from(salesBannerTable)
+        .where(eq(salesBannerTable.id, input.id))
+        .get();
+
       const [banner] = await db
         .update(salesBannerTable)
         .set({
@@ -60,6 +62,15 @@ export const upsertSalesBannerAction = createServerAction()
         .where(eq(salesBannerTable.id, input.id))
         .returning();
 
+      await recordAdminAudit({
+        session: ctx.session,
+        action: "sales_banner.update",
+        entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+        entityId: input.id,
+        before: existing,
+        after: banner,
+      });
+
       return banner;
     }
 
@@ -78,21 +89,32 @@ export const upsertSalesBannerAction = createServerAction()
       })
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "sales_banner.create",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: banner.id,
+      after: banner,
+    });
+
     return banner;
   });
 
 // Toggle active status
-export const toggleSalesBannerActiveAction = createServerAction()
+export const toggleSalesBannerActiveAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
       isActive: z.boolean(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
+    const existing = await db
+      .select()
+      .from(salesBannerTable)
+      .where(eq(salesBannerTable.id, input.id))
+      .get();
     const [banner] = await db
       .update(salesBannerTable)
       .set({
@@ -102,23 +124,39 @@ export const toggleSalesBannerActiveAction = createServerAction()
       .where(eq(salesBannerTable.id, input.id))
       .returning();
 
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "sales_banner.toggle",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: input.id,
+      before: existing,
+      after: banner,
+    });
+
     return banner;
   });
 
 // Delete a sales banner
-export const deleteSalesBannerAction = createServerAction()
+export const deleteSalesBannerAction = adminAction.createServerAction()
   .input(
     z.object({
       id: z.string(),
     })
   )
-  .handler(async ({ input }) => {
-    await requireAdmin();
-
+  .handler(async ({ input, ctx }) => {
     const db = getDB();
-    await db
+    const [deletedBanner] = await db
       .delete(salesBannerTable)
-      .where(eq(salesBannerTable.id, input.id));
+      .where(eq(salesBannerTable.id, input.id))
+      .returning();
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "sales_banner.delete",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.SITE_CONTENT,
+      entityId: input.id,
+      before: deletedBanner,
+    });
 
     return { success: true };
   });
@@ -0,0 +1,145 @@
+import { PageHeader } from "@/components/page-header";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  WEBHOOK_EVENT_STATUS,
+  WEBHOOK_SIGNATURE_STATUS,
+} from "@/db/schema";
+import { formatDateTime } from "@/utils/format-date";
+import { getWebhookEventAction } from "../_actions/webhook-events.action";
+import { ReplayWebhookButton } from "../_components/replay-webhook-button";
+import { WebhookEventStatusBadge } from "../_components/webhook-event-status-badge";
+import { getOrderNumber } from "@/utils/order-number";
+
+export const metadata: Metadata = {
+  title: "Webhook Event",
+  description: "Payload and processing result of a webhook delivery",
+};
+
+interface PageProps {
+  params: Promise<{
+    eventId: string;
+  }>;
+}
+
+// Show JSON bodies indented; anything else as received
+function formatPayload(text: string | null): string {
+  if (!text) return "";
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+export default async function WebhookEventPage({ params }: PageProps) {
+  const { eventId } = await params;
+
+  const [event, err] = await getWebhookEventAction({ id: eventId });
+
+  if (err || !event) {
+    notFound();
+  }
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/webhooks", label: "Webhook Events" },
+          { href: `/admin/webhooks/${event.id}`, label: event.eventType ?? "Event" },
+        ]}
+      />
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{event.eventType ?? "Unknown event"}</h1>
+            <p className="text-sm text-muted-foreground mt-1 font-mono">
+              {event.eventId ?? event.id}
+            </p>
+          </div>
+          {event.status === WEBHOOK_EVENT_STATUS.FAILED &&
+            event.signatureStatus === WEBHOOK_SIGNATURE_STATUS.VALID && (
+              <ReplayWebhookButton id={event.id} />
+            )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Status</dt>
+                <dd className="mt-1"><WebhookEventStatusBadge status={event.status} /></dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Provider</dt>
+                <dd className="mt-1 capitalize">{event.provider}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Received</dt>
+                <dd className="mt-1">{formatDateTime(event.createdAt)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Signature</dt>
+                <dd className="mt-1 capitalize">{event.signatureStatus}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Attempts</dt>
+                <dd className="mt-1">
+                  {event.attempts}
+                  {event.lastAttemptAt && ` (last ${formatDateTime(event.lastAttemptAt)})`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Order</dt>
+                <dd className="mt-1">
+                  {event.orderId ? (
+                    <Link
+                      href={`/admin/orders/${event.orderId}`}
+                      className="font-mono underline"
+                    >
+                      #{getOrderNumber(event.orderId)}
+                    </Link>
+                  ) : (
+                    "—"
+                  )}
+                </dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Result</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {event.result ? (
+              <pre className="text-xs bg-muted rounded-md p-4 overflow-x-auto whitespace-pre-wrap break-all">
+                {formatPayload(event.result)}
+              </pre>
+            ) : (
+              <p className="text-sm text-muted-foreground">Not handled yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payload</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <pre className="text-xs bg-muted rounded-md p-4 overflow-x-auto max-h-[600px]">
+              {formatPayload(event.payload)}
+            </pre>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
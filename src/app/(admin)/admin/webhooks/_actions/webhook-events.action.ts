@@ -0,0 +1,79 @@
+"use server";
+
+import { z } from "zod";
+import { adminAction } from "@/lib/admin-action";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  webhookEventStatusTuple,
+} from "@/db/schema";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import {
+  getWebhookEvent,
+  getWebhookEvents,
+  replayWebhookEvent,
+  type WebhookEventStatus,
+} from "@/utils/webhook-events";
+
+/**
+ * Get received webhook events, newest first
+ */
+export const getWebhookEventsAction = adminAction.createServerAction()
+  .input(
+    z.object({
+      status: z.enum(webhookEventStatusTuple).optional(),
+      provider: z.string().optional(),
+    })
+  )
+  .handler(async ({ input }) => {
+    return getWebhookEvents({
+      status: input.status as WebhookEventStatus | undefined,
+      provider: input.provider,
+    });
+  });
+
+/**
+ * Get a single webhook event with its payload
+ */
+export const getWebhookEventAction = adminAction.createServerAction()
+  .input(z.object({ id: z.string() }))
+  .handler(async ({ input }) => {
+    const webhookEvent = await getWebhookEvent(input.id);
+
+    if (!webhookEvent) {
+      throw new Error("Webhook event not found");
+    }
+
+    return webhookEvent;
+  });
+
+/**
+ * Run a failed webhook event through its provider's handler again
+ */
+export const replayWebhookEventAction = adminAction.createServerAction()
+  .input(z.object({ id: z.string() }))
+  .handler(async ({ input, ctx }) => {
+    const { webhookEvent, duplicate } = await replayWebhookEvent(input.id);
+
+    if (duplicate) {
+      throw new Error("This event is already being processed");
+    }
+
+    await recordAdminAudit({
+      session: ctx.session,
+      action: "webhook_event.replay",
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.WEBHOOK_EVENT,
+      entityId: webhookEvent.id,
+      after: {
+        provider: webhookEvent.provider,
+        eventType: webhookEvent.eventType,
+        status: webhookEvent.status,
+        attempts: webhookEvent.attempts,
+        orderId: webhookEvent.orderId,
+      },
+    });
+
+    return {
+      status: webhookEvent.status,
+      result: webhookEvent.result,
+    };
+  });
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Loader2, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { WEBHOOK_EVENT_STATUS } from "@/db/schema";
+import { replayWebhookEventAction } from "../_actions/webhook-events.action";
+
+interface ReplayWebhookButtonProps {
+  id: string;
+}
+
+export function ReplayWebhookButton({ id }: ReplayWebhookButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  async function handleReplay() {
+    setIsLoading(true);
+    try {
+      const [result, err] = await replayWebhookEventAction({ id });
+
+      if (err) {
+        toast.error(err.message || "Failed to replay event");
+        return;
+      }
+
+      if (result.status === WEBHOOK_EVENT_STATUS.FAILED) {
+        toast.error(`Replay failed: ${result.result ?? "unknown error"}`);
+      } else {
+        toast.success(`Event ${result.status}`);
+      }
+      router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleReplay} disabled={isLoading}>
+      {isLoading ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RotateCw className="mr-2 h-4 w-4" />
+      )}
+      Replay
+    </Button>
+  );
+}
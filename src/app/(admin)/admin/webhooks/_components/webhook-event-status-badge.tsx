@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  WEBHOOK_EVENT_STATUS,
+  WEBHOOK_EVENT_STATUS_COLORS,
+  WEBHOOK_EVENT_STATUS_LABELS,
+} from "@/db/schema";
+
+interface WebhookEventStatusBadgeProps {
+  status: string;
+}
+
+export function WebhookEventStatusBadge({ status }: WebhookEventStatusBadgeProps) {
+  const statusKey = Object.entries(WEBHOOK_EVENT_STATUS).find(
+    ([, value]) => value === status
+  )?.[0] as keyof typeof WEBHOOK_EVENT_STATUS | undefined;
+
+  return (
+    <Badge
+      variant="secondary"
+      className={statusKey ? WEBHOOK_EVENT_STATUS_COLORS[statusKey] : ""}
+    >
+      {statusKey ? WEBHOOK_EVENT_STATUS_LABELS[statusKey] : status}
+    </Badge>
+  );
+}
@@ -0,0 +1,186 @@
+import { PageHeader } from "@/components/page-header";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  WEBHOOK_EVENT_STATUS,
+  WEBHOOK_EVENT_STATUS_LABELS,
+  WEBHOOK_SIGNATURE_STATUS,
+  webhookEventStatusTuple,
+} from "@/db/schema";
+import { formatDateTime } from "@/utils/format-date";
+import type { WebhookEventStatus } from "@/utils/webhook-events";
+import { getWebhookEventsAction } from "./_actions/webhook-events.action";
+import { ReplayWebhookButton } from "./_components/replay-webhook-button";
+import { WebhookEventStatusBadge } from "./_components/webhook-event-status-badge";
+import { getOrderNumber } from "@/utils/order-number";
+
+export const metadata: Metadata = {
+  title: "Webhook Events",
+  description: "Webhook deliveries from payment providers",
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    status?: string;
+  }>;
+}
+
+export default async function WebhookEventsPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+
+  const status = webhookEventStatusTuple.includes(params.status ?? "")
+    ? (params.status as WebhookEventStatus)
+    : undefined;
+
+  const [events, err] = await getWebhookEventsAction({ status });
+
+  if (err) {
+    throw new Error(err.message);
+  }
+
+  const filters: { label: string; status?: WebhookEventStatus }[] = [
+    { label: "All" },
+    ...Object.entries(WEBHOOK_EVENT_STATUS).map(([key, value]) => ({
+      label: WEBHOOK_EVENT_STATUS_LABELS[key as keyof typeof WEBHOOK_EVENT_STATUS],
+      status: value,
+    })),
+  ];
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/webhooks", label: "Webhook Events" },
+        ]}
+      />
+      <div className="container mx-auto py-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Webhook Events</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Every delivery from Square and Stripe, newest first. Retried
+            deliveries of the same event are only handled once.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {filters.map((filter) => (
+            <Button
+              key={filter.label}
+              variant={filter.status === status ? "default" : "outline"}
+              size="sm"
+              asChild
+            >
+              <Link
+                href={
+                  filter.status
+                    ? `/admin/webhooks?status=${filter.status}`
+                    : "/admin/webhooks"
+                }
+              >
+                {filter.label}
+              </Link>
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {events.length} {events.length === 1 ? "event" : "events"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No webhook events match this filter.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Signature</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDateTime(event.createdAt)}
+                      </TableCell>
+                      <TableCell className="capitalize">{event.provider}</TableCell>
+                      <TableCell>
+                        <Link
+                          href={`/admin/webhooks/${event.id}`}
+                          className="underline"
+                        >
+                          {event.eventType ?? "Unknown"}
+                        </Link>
+                        {event.eventId && (
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {event.eventId}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            event.signatureStatus === WEBHOOK_SIGNATURE_STATUS.VALID
+                              ? "secondary"
+                              : "destructive"
+                          }
+                          className="capitalize"
+                        >
+                          {event.signatureStatus}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <WebhookEventStatusBadge status={event.status} />
+                      </TableCell>
+                      <TableCell className="text-right">{event.attempts}</TableCell>
+                      <TableCell>
+                        {event.orderId ? (
+                          <Link
+                            href={`/admin/orders/${event.orderId}`}
+                            className="font-mono text-xs underline"
+                          >
+                            #{getOrderNumber(event.orderId)}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {event.status === WEBHOOK_EVENT_STATUS.FAILED && (
+                          <ReplayWebhookButton id={event.id} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
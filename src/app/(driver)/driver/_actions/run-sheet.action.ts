@@ -0,0 +1,231 @@
+"use server";
+
+import { z } from "zod";
+import { ZSAError } from "zsa";
+import { and, asc, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  orderTable,
+  orderItemTable,
+  productTable,
+  ORDER_STATUS,
+  deliveryFailureReasonTuple,
+  DELIVERY_FAILURE_REASON,
+} from "@/db/schema";
+import { driverAction } from "@/lib/driver-action";
+import { updateDeliveryStatus } from "@/utils/delivery-status";
+import type { KVSession } from "@/utils/kv-session";
+import { PROOF_OF_DELIVERY_PREFIX } from "@/utils/upload-image";
+import { getMountainISODate } from "@/utils/timezone";
+import { getOrderNumber } from "@/utils/order-number";
+
+/**
+ * Make sure the order is a stop on this driver's route
+ */
+async function requireDriverStop(orderId: string, driverId: string) {
+  const db = getDB();
+
+  const [stop] = await db
+    .select({ id: orderTable.id, deliveryStatus: orderTable.deliveryStatus })
+    .from(orderTable)
+    .where(and(
+      eq(orderTable.id, orderId),
+      eq(orderTable.deliveryDriverId, driverId)
+    ))
+    .limit(1);
+
+  if (!stop) {
+    throw new ZSAError("FORBIDDEN", "This stop isn't on your route");
+  }
+
+  return stop;
+}
+
+/**
+ * A driver at the door has the order with them, so a stop nobody marked out
+ * for delivery is started first. The workflow doesn't allow arriving at a
+ * stop that never left the bakery.
+ */
+async function startStopIfNeeded(
+  session: KVSession,
+  stop: { id: string; deliveryStatus: string | null }
+) {
+  if (!stop.deliveryStatus || ["pending", "confirmed", "preparing"].includes(stop.deliveryStatus)) {
+    await updateDeliveryStatus({
+      session,
+      orderId: stop.id,
+      deliveryStatus: "out_for_delivery",
+    });
+  }
+}
+
+/**
+ * The driver's stops for a day, in route order
+ */
+export const getRunSheetAction = driverAction.createServerAction()
+  .input(z.object({
+    date: z.string().optional(), // ISO date "2024-10-26", defaults to today
+  }))
+  .handler(async ({ input, ctx }) => {
+    const db = getDB();
+    const date = input.date || getMountainISODate();
+
+    const orders = await db
+      .select()
+      .from(orderTable)
+      .where(and(
+        eq(orderTable.deliveryDriverId, ctx.driver.id),
+        eq(orderTable.fulfillmentMethod, "delivery"),
+        sql`substr(${orderTable.deliveryDate}, 1, 10) = ${date}`,
+        notInArray(orderTable.status, [ORDER_STATUS.PENDING_PAYMENT, ORDER_STATUS.CANCELLED])
+      ))
+      .orderBy(asc(orderTable.deliverySequence));
+
+    const items = orders.length > 0
+      ? await db
+        .select({
+          orderId: orderItemTable.orderId,
+          quantity: orderItemTable.quantity,
+          productName: productTable.name,
+        })
+        .from(orderItemTable)
+        .innerJoin(productTable, eq(orderItemTable.productId, productTable.id))
+        .where(inArray(orderItemTable.orderId, orders.map((order) => order.id)))
+      : [];
+
+    const stops = orders.map((order) => {
+      let address = null;
+      if (order.deliveryAddressJson) {
+        try {
+          address = JSON.parse(order.deliveryAddressJson) as {
+            street: string;
+            city: string;
+            state: string;
+            zip: string;
+          };
+        } catch {
+          address = null;
+        }
+      }
+
+      return {
+        orderId: order.id,
+        orderNumber: getOrderNumber(order.id),
+        sequence: order.deliverySequence,
+        customerName: order.customerName,
+        customerPhone: order.customerPhone,
+        address,
+        deliveryInstructions: order.deliveryInstructions,
+        timeSlotStart: order.timeSlotStart,
+        timeSlotEnd: order.timeSlotEnd,
+        estimatedArrivalTime: order.estimatedArrivalTime,
+        deliveryStatus: order.deliveryStatus,
+        deliveryArrivedAt: order.deliveryArrivedAt,
+        deliveredAt: order.deliveredAt,
+        deliveryRecipientName: order.deliveryRecipientName,
+        hasProofImage: !!order.deliveryProofImageKey,
+        deliveryFailureReason: order.deliveryFailureReason,
+        deliveryFailureNote: order.deliveryFailureNote,
+        items: items
+          .filter((item) => item.orderId === order.id)
+          .map(({ productName, quantity }) => ({ productName, quantity })),
+      };
+    });
+
+    return {
+      driver: {
+        id: ctx.driver.id,
+        name: ctx.driver.name,
+        vehicleName: ctx.driver.vehicleName,
+      },
+      date,
+      stops,
+    };
+  });
+
+/**
+ * Driver reached the stop
+ */
+export const markStopArrivedAction = driverAction.createServerAction()
+  .input(z.object({
+    orderId: z.string(),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const stop = await requireDriverStop(input.orderId, ctx.driver.id);
+    await startStopIfNeeded(ctx.session, stop);
+
+    await updateDeliveryStatus({
+      session: ctx.session,
+      orderId: input.orderId,
+      deliveryStatus: "arrived",
+    });
+
+    return { success: true };
+  });
+
+/**
+ * Handed over or left at the door, with a photo and/or who took it
+ */
+export const markStopDeliveredAction = driverAction.createServerAction()
+  .input(z.object({
+    orderId: z.string(),
+    recipientName: z.string().trim().max(255).optional(),
+    proofImageKey: z.string().max(255).optional(), // From POST /api/delivery-proof/[orderId]
+  }))
+  .handler(async ({ input, ctx }) => {
+    const stop = await requireDriverStop(input.orderId, ctx.driver.id);
+
+    if (!input.recipientName && !input.proofImageKey) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "Take a photo or enter who received the order");
+    }
+
+    // Only photos uploaded for this order can be attached to it
+    if (input.proofImageKey && !input.proofImageKey.startsWith(`${PROOF_OF_DELIVERY_PREFIX}${input.orderId}/`)) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "Invalid proof of delivery photo");
+    }
+
+    await startStopIfNeeded(ctx.session, stop);
+    await updateDeliveryStatus({
+      session: ctx.session,
+      orderId: input.orderId,
+      deliveryStatus: "delivered",
+      proof: {
+        deliveryRecipientName: input.recipientName || null,
+        deliveryProofImageKey: input.proofImageKey || null,
+      },
+      notifyCustomer: true,
+    });
+
+    return { success: true };
+  });
+
+/**
+ * Couldn't complete the stop. The order stays on the route so it can be
+ * retried or rescheduled from the admin.
+ */
+export const markStopFailedAction = driverAction.createServerAction()
+  .input(z.object({
+    orderId: z.string(),
+    reason: z.enum(deliveryFailureReasonTuple),
+    note: z.string().trim().max(1000).optional(),
+  }))
+  .handler(async ({ input, ctx }) => {
+    const stop = await requireDriverStop(input.orderId, ctx.driver.id);
+
+    if (input.reason === DELIVERY_FAILURE_REASON.OTHER && !input.note) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "Add a note explaining what happened");
+    }
+
+    await startStopIfNeeded(ctx.session, stop);
+    await updateDeliveryStatus({
+      session: ctx.session,
+      orderId: input.orderId,
+      deliveryStatus: "failed",
+      proof: {
+        deliveryFailureReason: input.reason,
+        deliveryFailureNote: input.note || null,
+      },
+    });
+
+    return { success: true };
+  });
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { Camera, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { markStopDeliveredAction } from "../_actions/run-sheet.action";
+import type { RunSheetStop } from "./run-sheet";
+
+interface DeliveredDialogProps {
+  stop: RunSheetStop | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Proof of delivery: a photo of the order at the door, the name of whoever
+ * took it, or both
+ */
+export function DeliveredDialog({ stop, onOpenChange }: DeliveredDialogProps) {
+  const router = useRouter();
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [recipientName, setRecipientName] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { execute: markDelivered, isPending: isSaving } = useServerAction(markStopDeliveredAction);
+
+  // Start fresh for each stop
+  useEffect(() => {
+    setPhoto(null);
+    setPhotoPreview(null);
+    setRecipientName("");
+  }, [stop?.orderId]);
+
+  // Release the preview when it's replaced
+  useEffect(() => {
+    return () => {
+      if (photoPreview) {
+        URL.revokeObjectURL(photoPreview);
+      }
+    };
+  }, [photoPreview]);
+
+  const handlePhotoChange = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    setPhoto(file);
+    setPhotoPreview(URL.createObjectURL(file));
+  };
+
+  const handleSubmit = async () => {
+    if (!stop) {
+      return;
+    }
+
+    if (!photo && !recipientName.trim()) {
+      toast.error("Take a photo or enter who received the order");
+      return;
+    }
+
+    let proofImageKey: string | undefined;
+
+    if (photo) {
+      setIsUploading(true);
+
+      try {
+        const formData = new FormData();
+        formData.append("file", photo);
+
+        const response = await fetch(`/api/delivery-proof/${stop.orderId}`, {
+          method: "POST",
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const error = await response.json() as { message?: string };
+          throw new Error(error.message || "Failed to upload photo");
+        }
+
+        ({ key: proofImageKey } = await response.json() as { key: string });
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to upload photo");
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    const [, err] = await markDelivered({
+      orderId: stop.orderId,
+      recipientName: recipientName.trim() || undefined,
+      proofImageKey,
+    });
+
+    if (err) {
+      toast.error(err.message);
+      return;
+    }
+
+    toast.success(`Delivered to ${stop.customerName}`);
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  const isSubmitting = isUploading || isSaving;
+
+  return (
+    <Dialog open={!!stop} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delivered</DialogTitle>
+          <DialogDescription>
+            {stop?.customerName}
+            {stop?.address && ` · ${stop.address.street}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proof-photo">Photo</Label>
+            {photoPreview && (
+              <div className="relative aspect-[4/3] w-full overflow-hidden rounded-md border">
+                <Image
+                  src={photoPreview}
+                  alt="Proof of delivery"
+                  fill
+                  unoptimized
+                  className="object-cover"
+                />
+              </div>
+            )}
+            <Button asChild variant="outline" size="lg" className="w-full">
+              <label htmlFor="proof-photo" className="cursor-pointer">
+                <Camera className="mr-2 h-4 w-4" />
+                {photo ? "Retake photo" : "Take photo"}
+              </label>
+            </Button>
+            <input
+              id="proof-photo"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              capture="environment"
+              className="hidden"
+              onChange={(event) => handlePhotoChange(event.target.files?.[0])}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recipient-name">Received by</Label>
+            <Input
+              id="recipient-name"
+              placeholder="Leave empty if left at the door"
+              value={recipientName}
+              onChange={(event) => setRecipientName(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-green-600 hover:bg-green-700 text-white"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isUploading ? "Uploading..." : "Confirm Delivery"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
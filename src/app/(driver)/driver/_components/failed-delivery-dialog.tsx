@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { DELIVERY_FAILURE_REASON, DELIVERY_FAILURE_REASON_LABELS } from "@/db/schema";
+import { markStopFailedAction } from "../_actions/run-sheet.action";
+import type { RunSheetStop } from "./run-sheet";
+
+type DeliveryFailureReason = typeof DELIVERY_FAILURE_REASON[keyof typeof DELIVERY_FAILURE_REASON];
+
+interface FailedDeliveryDialogProps {
+  stop: RunSheetStop | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FailedDeliveryDialog({ stop, onOpenChange }: FailedDeliveryDialogProps) {
+  const router = useRouter();
+  const [reason, setReason] = useState<DeliveryFailureReason | "">("");
+  const [note, setNote] = useState("");
+
+  const { execute: markFailed, isPending } = useServerAction(markStopFailedAction);
+
+  // Start fresh for each stop
+  useEffect(() => {
+    setReason("");
+    setNote("");
+  }, [stop?.orderId]);
+
+  const handleSubmit = async () => {
+    if (!stop) {
+      return;
+    }
+
+    if (!reason) {
+      toast.error("Pick a reason");
+      return;
+    }
+
+    const [, err] = await markFailed({
+      orderId: stop.orderId,
+      reason,
+      note: note.trim() || undefined,
+    });
+
+    if (err) {
+      toast.error(err.message);
+      return;
+    }
+
+    toast.success("Delivery marked as failed");
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={!!stop} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Couldn&apos;t Deliver</DialogTitle>
+          <DialogDescription>
+            {stop?.customerName}
+            {stop?.address && ` · ${stop.address.street}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={reason}
+            onValueChange={(value) => setReason(value as DeliveryFailureReason)}
+          >
+            {(Object.keys(DELIVERY_FAILURE_REASON) as (keyof typeof DELIVERY_FAILURE_REASON)[]).map((key) => (
+              <div key={key} className="flex items-center space-x-3 py-1">
+                <RadioGroupItem value={DELIVERY_FAILURE_REASON[key]} id={`failure-${key}`} />
+                <Label htmlFor={`failure-${key}`} className="text-base font-normal">
+                  {DELIVERY_FAILURE_REASON_LABELS[key]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="failure-note">
+              Note{reason === DELIVERY_FAILURE_REASON.OTHER ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="failure-note"
+              placeholder="What happened? Where is the order now?"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark Failed
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
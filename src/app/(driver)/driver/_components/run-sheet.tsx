@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import {
+  Camera,
+  CheckCircle2,
+  Clock,
+  MapPin,
+  Navigation,
+  Phone,
+  XCircle,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { DELIVERY_FAILURE_REASON, DELIVERY_FAILURE_REASON_LABELS } from "@/db/schema";
+import { markStopArrivedAction } from "../_actions/run-sheet.action";
+import { DeliveredDialog } from "./delivered-dialog";
+import { FailedDeliveryDialog } from "./failed-delivery-dialog";
+
+export interface RunSheetStop {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  customerPhone: string | null;
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+  } | null;
+  deliveryInstructions: string | null;
+  timeSlotStart: string | null;
+  timeSlotEnd: string | null;
+  estimatedArrivalTime: string | null;
+  deliveryStatus: string | null;
+  deliveredAt: Date | null;
+  deliveryRecipientName: string | null;
+  hasProofImage: boolean;
+  deliveryFailureReason: string | null;
+  deliveryFailureNote: string | null;
+  items: { productName: string; quantity: number }[];
+  navigationUrl: string | null;
+}
+
+interface RunSheetProps {
+  driverName: string;
+  vehicleName: string | null;
+  date: string; // ISO date "2024-10-26"
+  stops: RunSheetStop[];
+}
+
+const isFinished = (stop: RunSheetStop) =>
+  stop.deliveryStatus === "delivered" || stop.deliveryStatus === "failed";
+
+function failureReasonLabel(reason: string | null) {
+  const key = Object.entries(DELIVERY_FAILURE_REASON).find(([, value]) => value === reason)?.[0];
+  return key ? DELIVERY_FAILURE_REASON_LABELS[key as keyof typeof DELIVERY_FAILURE_REASON] : reason;
+}
+
+// "09:15:00" or "09:15" → "9:15 AM"
+function formatTime(time: string) {
+  return format(parseISO(`2000-01-01T${time}`), "h:mm a");
+}
+
+/**
+ * The driver's stops in route order, built for a phone held in one hand:
+ * big buttons, the next stop highlighted, finished stops dimmed.
+ */
+export function RunSheet({ driverName, vehicleName, date, stops }: RunSheetProps) {
+  const router = useRouter();
+  const [deliveringStop, setDeliveringStop] = useState<RunSheetStop | null>(null);
+  const [failingStop, setFailingStop] = useState<RunSheetStop | null>(null);
+
+  const { execute: markArrived, isPending: isMarkingArrived } = useServerAction(markStopArrivedAction);
+
+  const finishedCount = stops.filter(isFinished).length;
+  const nextStop = stops.find((stop) => !isFinished(stop));
+
+  const handleArrived = async (stop: RunSheetStop) => {
+    const [, err] = await markArrived({ orderId: stop.orderId });
+
+    if (err) {
+      toast.error(err.message);
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-xl font-bold">
+          {format(parseISO(date), "EEEE, MMMM d")}
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {driverName}
+          {vehicleName && ` · ${vehicleName}`}
+          {stops.length > 0 && ` · ${finishedCount} of ${stops.length} stops done`}
+        </p>
+      </div>
+
+      {stops.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No stops assigned to you for this day
+          </CardContent>
+        </Card>
+      )}
+
+      {stops.map((stop, index) => {
+        const finished = isFinished(stop);
+        const isNext = stop.orderId === nextStop?.orderId;
+
+        return (
+          <Card
+            key={stop.orderId}
+            className={cn(
+              isNext && "ring-2 ring-primary",
+              finished && "opacity-60"
+            )}
+          >
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary text-sm font-bold text-primary-foreground">
+                    {index + 1}
+                  </span>
+                  <div>
+                    <p className="font-semibold">{stop.customerName}</p>
+                    {stop.address ? (
+                      <p className="text-sm">
+                        {stop.address.street}, {stop.address.city}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-destructive">No address on file</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">#{stop.orderNumber}</p>
+                  </div>
+                </div>
+                {stop.deliveryStatus === "delivered" && (
+                  <Badge className="bg-green-600 hover:bg-green-600">Delivered</Badge>
+                )}
+                {stop.deliveryStatus === "failed" && (
+                  <Badge variant="destructive">Failed</Badge>
+                )}
+                {stop.deliveryStatus === "arrived" && (
+                  <Badge variant="secondary">Arrived</Badge>
+                )}
+              </div>
+
+              {(stop.timeSlotStart || stop.estimatedArrivalTime) && (
+                <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  {stop.timeSlotStart && stop.timeSlotEnd
+                    ? `Booked ${formatTime(stop.timeSlotStart)} - ${formatTime(stop.timeSlotEnd)}`
+                    : null}
+                  {stop.timeSlotStart && stop.estimatedArrivalTime && " · "}
+                  {stop.estimatedArrivalTime && `ETA ${formatTime(stop.estimatedArrivalTime)}`}
+                </p>
+              )}
+
+              {stop.items.length > 0 && (
+                <ul className="text-sm">
+                  {stop.items.map((item, itemIndex) => (
+                    <li key={itemIndex}>
+                      {item.quantity} × {item.productName}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {stop.deliveryInstructions && (
+                <p className="rounded-md bg-muted p-2 text-sm">
+                  {stop.deliveryInstructions}
+                </p>
+              )}
+
+              {/* Outcome */}
+              {stop.deliveryStatus === "delivered" && (
+                <p className="flex items-center gap-1.5 text-sm">
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  {stop.deliveredAt && format(new Date(stop.deliveredAt), "h:mm a")}
+                  {stop.deliveryRecipientName && ` · Received by ${stop.deliveryRecipientName}`}
+                  {stop.hasProofImage && (
+                    <a
+                      href={`/api/delivery-proof/${stop.orderId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-1 inline-flex items-center gap-1 underline"
+                    >
+                      <Camera className="h-4 w-4" />
+                      Photo
+                    </a>
+                  )}
+                </p>
+              )}
+              {stop.deliveryStatus === "failed" && (
+                <p className="flex items-center gap-1.5 text-sm text-destructive">
+                  <XCircle className="h-4 w-4" />
+                  {failureReasonLabel(stop.deliveryFailureReason)}
+                  {stop.deliveryFailureNote && ` · ${stop.deliveryFailureNote}`}
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                {stop.navigationUrl && (
+                  <Button asChild size="lg" variant={isNext ? "default" : "outline"}>
+                    <a href={stop.navigationUrl} target="_blank" rel="noopener noreferrer">
+                      <Navigation className="mr-2 h-4 w-4" />
+                      Navigate
+                    </a>
+                  </Button>
+                )}
+                {stop.customerPhone && (
+                  <Button asChild size="lg" variant="outline">
+                    <a href={`tel:${stop.customerPhone}`}>
+                      <Phone className="mr-2 h-4 w-4" />
+                      Call
+                    </a>
+                  </Button>
+                )}
+
+                {!finished && stop.deliveryStatus !== "arrived" && (
+                  <Button
+                    size="lg"
+                    variant="secondary"
+                    className="col-span-2"
+                    onClick={() => handleArrived(stop)}
+                    disabled={isMarkingArrived}
+                  >
+                    <MapPin className="mr-2 h-4 w-4" />
+                    Arrived
+                  </Button>
+                )}
+
+                {!finished && (
+                  <>
+                    <Button
+                      size="lg"
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => setDeliveringStop(stop)}
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Delivered
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="destructive"
+                      onClick={() => setFailingStop(stop)}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Failed
+                    </Button>
+                  </>
+                )}
+
+                {/* A failed stop can still be delivered on a second attempt */}
+                {stop.deliveryStatus === "failed" && (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    className="col-span-2"
+                    onClick={() => setDeliveringStop(stop)}
+                  >
+                    Delivered on retry
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <DeliveredDialog
+        stop={deliveringStop}
+        onOpenChange={(open) => !open && setDeliveringStop(null)}
+      />
+      <FailedDeliveryDialog
+        stop={failingStop}
+        onOpenChange={(open) => !open && setFailingStop(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Truck } from "lucide-react";
+import { requireDriver } from "@/utils/auth";
+
+export default async function DriverLayout({ children }: { children: React.ReactNode }) {
+  const session = await requireDriver({ doNotThrowError: true });
+
+  if (!session) {
+    return redirect('/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="mx-auto flex h-14 max-w-lg items-center justify-between px-4">
+          <Link href="/driver" className="flex items-center gap-2 font-semibold">
+            <Truck className="h-5 w-5" />
+            Run Sheet
+          </Link>
+          <Link href="/" className="text-sm text-muted-foreground">
+            Sweet Angel Bakery
+          </Link>
+        </div>
+      </header>
+      <main className="mx-auto max-w-lg px-4 py-4 pb-16">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { Metadata } from "next";
+import { Card, CardContent } from "@/components/ui/card";
+import { getSessionFromCookie } from "@/utils/auth";
+import {
+  generateGoogleMapsAddressUrl,
+  generateGoogleMapsDirectionsUrl,
+} from "@/utils/google-maps";
+import { getRunSheetAction } from "./_actions/run-sheet.action";
+import { RunSheet } from "./_components/run-sheet";
+
+export const metadata: Metadata = {
+  title: "Run Sheet",
+  description: "Your delivery stops for the day",
+};
+
+// Always show the latest stop statuses
+export const dynamic = "force-dynamic";
+
+interface PageProps {
+  searchParams: Promise<{
+    date?: string; // ISO date, defaults to today
+  }>;
+}
+
+export default async function DriverRunSheetPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const [runSheet, err] = await getRunSheetAction({ date: params.date });
+
+  if (err) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center space-y-2">
+          <p className="font-semibold">No route to show</p>
+          <p className="text-sm text-muted-foreground">{err.message}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Each stop navigates from the one before it; the first from the driver's
+  // saved address, or from wherever they are if they haven't saved one
+  const session = await getSessionFromCookie();
+  const user = session?.user;
+  let previousAddress = user?.streetAddress1 && user.city && user.state && user.zipCode
+    ? { street: user.streetAddress1, city: user.city, state: user.state, zip: user.zipCode }
+    : null;
+
+  const stops = runSheet.stops.map((stop) => {
+    let navigationUrl: string | null = null;
+
+    if (stop.address) {
+      navigationUrl = previousAddress
+        ? generateGoogleMapsDirectionsUrl(previousAddress, stop.address)
+        : generateGoogleMapsAddressUrl(stop.address);
+      previousAddress = stop.address;
+    }
+
+    return { ...stop, navigationUrl };
+  });
+
+  return (
+    <RunSheet
+      driverName={runSheet.driver.name}
+      vehicleName={runSheet.driver.vehicleName}
+      date={runSheet.date}
+      stops={stops}
+    />
+  );
+}
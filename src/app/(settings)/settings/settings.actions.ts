@@ -8,6 +8,7 @@ import { eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { userSettingsSchema } from "@/schemas/settings.schema";
 import { updateAllSessionsOfUser } from "@/utils/kv-session";
+import { geocodeUserAddress } from "@/utils/geocoding";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
 
 export const updateUserProfileAction = createServerAction()
@@ -29,6 +30,13 @@ export const updateUserProfileAction = createServerAction()
             })
             .where(eq(userTable.id, session.user.id));
 
+          // Best effort: the address is saved either way
+          try {
+            await geocodeUserAddress(session.user.id);
+          } catch (error) {
+            console.error("Failed to geocode saved address:", error);
+          }
+
           await updateAllSessionsOfUser(session.user.id)
 
           revalidatePath("/settings");
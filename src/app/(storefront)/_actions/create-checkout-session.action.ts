@@ -1,6 +1,6 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { createServerAction, ZSAError } from "zsa";
 import { z } from "zod";
 import { getMerchantProvider } from "@/lib/merchant-provider/factory";
 import { SITE_URL } from "@/constants";
@@ -10,6 +10,8 @@ import { getDB } from "@/db";
 import { orderItemCustomizationsSchema } from "@/schemas/customizations.schema";
 import type { CheckoutLineItem } from "@/lib/merchant-provider/types";
 import type { SizeVariantsConfig } from "@/types/customizations";
+import { CART_CHANGED_ERROR, type CartChangedErrorData } from "@/types/checkout";
+import { priceCheckout } from "@/utils/checkout-pricing";
 
 const createCheckoutSessionInputSchema = z.object({
   items: z.array(
@@ -52,8 +54,20 @@ export const createCheckoutSessionAction = createServerAction()
       throw new Error("Some products not found");
     }
 
+    // The hosted page charges what we send it; never trust client prices
+    const pricing = await priceCheckout({ items: input.items, products });
+
+    if (pricing.changes.length > 0) {
+      const cartChanged: CartChangedErrorData = {
+        type: CART_CHANGED_ERROR,
+        message: "Your cart has changed since you started checkout. Please review it and try again.",
+        changes: pricing.changes,
+      };
+      throw new ZSAError("CONFLICT", cartChanged);
+    }
+
     // Validate inventory (implementation stays the same)
-    for (const item of input.items) {
+    for (const item of pricing.items) {
       const product = products.find((p) => p.id === item.productId);
       if (!product) {
         throw new Error(`Product ${item.productId} not found`);
@@ -85,7 +99,7 @@ export const createCheckoutSessionAction = createServerAction()
     }
 
     // Build line items for merchant provider
-    const lineItems: CheckoutLineItem[] = input.items.map((item) => {
+    const lineItems: CheckoutLineItem[] = pricing.items.map((item) => {
       const product = products.find((p) => p.id === item.productId)!;
 
       return {
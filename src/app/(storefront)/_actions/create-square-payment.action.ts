@@ -1,19 +1,70 @@
 "use server";
 
-import { createServerAction } from "zsa";
+import { createServerAction, ZSAError } from "zsa";
 import { z } from "zod";
 import { getMerchantProvider } from "@/lib/merchant-provider/factory";
 import { getDB } from "@/db";
-import { productTable, orderTable, orderItemTable, merchantFeeTable, pickupLocationTable, ORDER_STATUS, PAYMENT_STATUS } from "@/db/schema";
-import { inArray, eq, sql } from "drizzle-orm";
+import { productTable, pickupLocationTable, PAYMENT_STATUS, NOTIFICATION_TYPE } from "@/db/schema";
+import { inArray, eq } from "drizzle-orm";
 import { orderItemCustomizationsSchema } from "@/schemas/customizations.schema";
 import { calculateTax } from "@/utils/tax";
-import { calculateMerchantFee } from "@/lib/merchant-provider/fee-calculator";
-import type { SizeVariantsConfig } from "@/types/customizations";
-import type { SquareFetchProvider } from "@/lib/merchant-provider/providers/square-fetch";
+import { PaymentDeclinedError, type PaymentCreateResult } from "@/lib/merchant-provider/types";
+import type { ProductCustomizations } from "@/types/customizations";
+import { getSessionFromCookie } from "@/utils/auth";
+import { priceCheckout } from "@/utils/checkout-pricing";
+import { dispatchOrderNotification } from "@/utils/notifications";
+import { getOrderTrackingUrl } from "@/utils/order-tracking";
+import { geocodeOrderAddress } from "@/utils/geocoding";
+import { CART_CHANGED_ERROR, type CartChangedErrorData } from "@/types/checkout";
+import {
+  canPurchaseFromDrop,
+  getCustomerDropPurchaseCounts,
+  getDropInfoForProducts,
+  releaseDropQuantity,
+  reserveDropQuantity,
+} from "@/utils/drops";
+import {
+  createPendingPaymentOrder,
+  deriveCheckoutKey,
+  failPendingPaymentOrder,
+  finalizePaidOrder,
+  getOrderByCheckoutKey,
+} from "@/utils/order-persistence";
+import {
+  getAvailableQuantity,
+  getReservedQuantities,
+  releaseCheckoutStock,
+} from "@/utils/stock-reservations";
+import { getOrderNumber } from "@/utils/order-number";
+
+// A pending order younger than this is assumed to belong to a request
+// that's still charging the card, not an abandoned one
+const PAYMENT_IN_PROGRESS_WINDOW_MS = 2 * 60 * 1000;
+
+// Saved on the order only after priceCheckout has checked them for the
+// selected fulfillment method
+const FULFILLMENT_FIELDS = [
+  "streetAddress1",
+  "streetAddress2",
+  "city",
+  "state",
+  "zipCode",
+  "deliveryFee",
+  "deliveryDate",
+  "deliveryZoneId",
+  "deliveryTimeWindow",
+  "pickupLocationId",
+  "pickupDate",
+  "pickupTimeWindow",
+  "timeSlotStart",
+] as const;
 
 const createSquarePaymentInputSchema = z.object({
-  sourceId: z.string(), // Token from Square Web Payments SDK
+  // Card token from the Square Web Payments SDK, or the PaymentIntent the Stripe
+  // Payment Element confirmed. Left out to start a Stripe payment.
+  sourceId: z.string().optional(),
+  checkoutAttemptId: z.string().min(1).max(100), // Generated once per checkout attempt by the client
+  reservationToken: z.string().min(1).max(100).optional(), // Stock held for this shopper at checkout
   items: z.array(
     z.object({
       productId: z.string(),
@@ -43,7 +94,13 @@ const createSquarePaymentInputSchema = z.object({
   pickupLocationId: z.string().optional(),
   pickupDate: z.string().optional(),
   pickupTimeWindow: z.string().optional(),
-});
+  timeSlotStart: z.string().regex(/^\d{2}:\d{2}$/).optional(), // Selected delivery or pickup slot
+}).refine(
+  // Dates, fees and slots are only checked for the chosen method, so an
+  // order without one can't carry any
+  (input) => input.fulfillmentMethod || FULFILLMENT_FIELDS.every((field) => input[field] === undefined),
+  { message: "Choose delivery or pickup", path: ["fulfillmentMethod"] }
+);
 
 export const createSquarePaymentAction = createServerAction()
   .input(createSquarePaymentInputSchema)
@@ -51,9 +108,8 @@ export const createSquarePaymentAction = createServerAction()
     const provider = await getMerchantProvider();
     const db = getDB();
 
-    // Only works with Square
-    if (provider.name !== "square") {
-      throw new Error("This action only works with Square provider");
+    if (!input.sourceId && !provider.preparePayment) {
+      throw new Error("Card details are required");
     }
 
     // Fetch products to validate availability
@@ -64,124 +120,151 @@ export const createSquarePaymentAction = createServerAction()
       .from(productTable)
       .where(inArray(productTable.id, uniqueProductIds));
 
-    if (products.length !== uniqueProductIds.length) {
-      throw new Error("Some products not found");
+    // Recalculate everything that affects the charge; never trust client prices
+    const pricing = await priceCheckout({
+      items: input.items,
+      products,
+      fulfillmentMethod: input.fulfillmentMethod,
+      zipCode: input.zipCode,
+      deliveryFee: input.deliveryFee,
+      deliveryDate: input.deliveryDate,
+      pickupLocationId: input.pickupLocationId,
+      pickupDate: input.pickupDate,
+      timeSlotStart: input.timeSlotStart,
+    });
+
+    if (pricing.changes.length > 0) {
+      const cartChanged: CartChangedErrorData = {
+        type: CART_CHANGED_ERROR,
+        message: "Your cart has changed since you started checkout. Please review it and try again.",
+        changes: pricing.changes,
+      };
+      throw new ZSAError("CONFLICT", cartChanged);
+    }
+
+    const items = pricing.items;
+
+    // A booked slot replaces the free-text window shown to customers and staff
+    const deliveryTimeWindow = input.fulfillmentMethod === "delivery" && pricing.timeSlot
+      ? pricing.timeSlot.label
+      : input.deliveryTimeWindow || null;
+    const pickupTimeWindow = input.fulfillmentMethod === "pickup" && pricing.timeSlot
+      ? pricing.timeSlot.label
+      : input.pickupTimeWindow || null;
+
+    // Totals from server-calculated prices (including delivery fee)
+    const { subtotal, deliveryFee } = pricing;
+
+    // Same attempt + same cart = same key, so double-submits and retries
+    // can't create a second order or charge the card twice
+    const checkoutKey = await deriveCheckoutKey({
+      checkoutAttemptId: input.checkoutAttemptId,
+      customerEmail: input.customerEmail,
+      items,
+      deliveryFee,
+    });
+
+    const existingOrder = await getOrderByCheckoutKey(checkoutKey);
+
+    if (existingOrder?.paymentStatus === PAYMENT_STATUS.PAID) {
+      return {
+        orderId: existingOrder.id,
+        paymentId: existingOrder.paymentIntentId,
+        orderNumber: getOrderNumber(existingOrder.id),
+      };
     }
 
-    // Validate inventory
-    for (const item of input.items) {
+    if (existingOrder?.paymentStatus === PAYMENT_STATUS.FAILED) {
+      throw new Error("This payment attempt failed. Please try again.");
+    }
+
+    // Providers that confirm the payment in the browser never charge here, so
+    // the same attempt coming back is the client finishing its payment
+    if (
+      existingOrder &&
+      !provider.preparePayment &&
+      Date.now() - existingOrder.createdAt.getTime() < PAYMENT_IN_PROGRESS_WINDOW_MS
+    ) {
+      throw new Error("Your payment is already being processed");
+    }
+
+    // Validate inventory, leaving out stock other shoppers are holding at checkout
+    const reserved = await getReservedQuantities(uniqueProductIds, input.reservationToken);
+
+    for (const item of items) {
       const product = products.find((p) => p.id === item.productId);
       if (!product) {
         throw new Error(`Product ${item.productId} not found`);
       }
 
-      const productCustomizations = product.customizations
-        ? JSON.parse(product.customizations)
-        : null;
-
-      let availableQuantity = product.quantityAvailable;
-
-      if (
-        productCustomizations?.type === "size_variants" &&
-        item.customizations?.type === "size_variant"
-      ) {
-        const sizeConfig = productCustomizations as SizeVariantsConfig;
-        const variantId = item.customizations.selectedVariantId;
-        const variant = sizeConfig.variants.find((v) => v.id === variantId);
-        if (variant) {
-          availableQuantity = variant.quantityAvailable;
-        }
-      }
+      const availableQuantity = getAvailableQuantity({
+        product: {
+          ...product,
+          customizations: product.customizations
+            ? (JSON.parse(product.customizations) as ProductCustomizations)
+            : null,
+        },
+        variantId: item.customizations?.type === "size_variant"
+          ? item.customizations.selectedVariantId
+          : null,
+        reserved,
+      });
 
       if (availableQuantity < item.quantity) {
         throw new Error(`Insufficient inventory for ${product.name}`);
       }
     }
 
-    // Calculate totals (including delivery fee)
-    const subtotal = input.items.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-    const deliveryFee = input.deliveryFee || 0;
-    const subtotalWithDelivery = subtotal + deliveryFee;
-
-    // Create payment with Square using tokenized card
-    const squareProvider = provider as SquareFetchProvider;
+    // Enforce product drop access windows and per-customer limits
+    const dropInfo = await getDropInfoForProducts(uniqueProductIds);
+    const dropQuantities = new Map<string, number>();
+
+    for (const item of items) {
+      const drop = dropInfo.get(item.productId);
+      if (drop) {
+        dropQuantities.set(
+          drop.dropItemId,
+          (dropQuantities.get(drop.dropItemId) || 0) + item.quantity
+        );
+      }
+    }
 
-    // Step 1: Create an order with line items and taxes
-    const lineItems = input.items.map((item) => ({
-      name: item.name,
-      quantity: String(item.quantity),
-      base_price_money: {
-        amount: item.price,
-        currency: "USD",
-      },
-    }));
+    if (dropQuantities.size > 0) {
+      // Loyalty membership comes from the session, never from client input
+      const session = await getSessionFromCookie();
+      const isLoyaltyMember = !!session?.user;
 
-    // Add delivery fee as a line item if present
-    if (deliveryFee > 0) {
-      lineItems.push({
-        name: "Delivery Fee",
-        quantity: "1",
-        base_price_money: {
-          amount: deliveryFee,
-          currency: "USD",
-        },
+      const purchaseCounts = await getCustomerDropPurchaseCounts({
+        dropItemIds: [...dropQuantities.keys()],
+        customerEmail: input.customerEmail,
+        userId: session?.user?.id,
+        excludeOrderId: existingOrder?.id,
       });
-    }
 
-    const orderResponse = await squareProvider.request<{
-      order: {
-        id: string;
-        total_money: { amount: number; currency: string };
-        total_tax_money: { amount: number; currency: string };
-      };
-    }>("/v2/orders", {
-      method: "POST",
-      body: JSON.stringify({
-        idempotency_key: crypto.randomUUID(),
-        order: {
-          location_id: process.env.NEXT_PUBLIC_SQUARE_LOCATION_ID,
-          line_items: lineItems,
-          // Apply Idaho sales tax (6%) at order level
-          taxes: [
-            {
-              uid: "idaho-sales-tax",
-              name: "Idaho Sales Tax",
-              percentage: "6.0",
-              scope: "ORDER",
-            },
-          ],
-        },
-      }),
-    });
+      for (const drop of dropInfo.values()) {
+        const requested = dropQuantities.get(drop.dropItemId);
+        if (!requested) continue;
 
-    const squareOrder = orderResponse.order;
-    const tax = squareOrder.total_tax_money?.amount || 0;
-    const totalAmount = squareOrder.total_money?.amount || (subtotalWithDelivery + tax);
-
-    // Step 2: Create payment and link it to the order
-    const paymentResponse = await squareProvider.request<{ payment: { id: string; status: string } }>("/v2/payments", {
-      method: "POST",
-      body: JSON.stringify({
-        idempotency_key: crypto.randomUUID(),
-        source_id: input.sourceId,
-        amount_money: {
-          amount: totalAmount,
-          currency: "USD",
-        },
-        location_id: process.env.NEXT_PUBLIC_SQUARE_LOCATION_ID,
-        buyer_email_address: input.customerEmail,
-        note: `Order for ${input.customerName}`,
-        order_id: squareOrder.id, // Link payment to order
-      }),
-    });
+        const product = products.find((p) => p.id === drop.productId);
+        const productName = product?.name || drop.dropName;
 
-    const payment = paymentResponse.payment;
+        if (!canPurchaseFromDrop({ status: drop.status, isLoyaltyMember })) {
+          throw new Error(
+            isLoyaltyMember
+              ? `${productName} is not available yet`
+              : `${productName} is currently available to loyalty members only`
+          );
+        }
 
-    if (!payment || payment.status !== "COMPLETED") {
-      throw new Error("Payment failed or incomplete");
+        const alreadyPurchased = purchaseCounts.get(drop.dropItemId) || 0;
+        if (drop.maxPerCustomer > 0 && alreadyPurchased + requested > drop.maxPerCustomer) {
+          const remainingAllowance = Math.max(drop.maxPerCustomer - alreadyPurchased, 0);
+          throw new Error(
+            `${productName} is limited to ${drop.maxPerCustomer} per customer` +
+            (alreadyPurchased > 0 ? ` (you can add ${remainingAllowance} more)` : "")
+          );
+        }
+      }
     }
 
     // Build delivery address (both legacy string and new JSON formats)
@@ -205,144 +288,255 @@ export const createSquarePaymentAction = createServerAction()
       })
       : null;
 
-    // Create order in database
-    const [order] = await db
-      .insert(orderTable)
-      .values({
-        customerEmail: input.customerEmail,
-        customerName: input.customerName,
-        customerPhone: input.customerPhone || null,
-        subtotal,
-        tax,
-        totalAmount,
-        paymentStatus: PAYMENT_STATUS.PAID,
-        status: ORDER_STATUS.PENDING,
-        merchantProvider: "square",
-        paymentIntentId: payment.id,
-        stripePaymentIntentId: payment.id,
-        userId: input.userId || null,
-        deliveryAddress,
-        deliveryAddressJson,
-        // Fulfillment method
-        fulfillmentMethod: input.fulfillmentMethod || null,
-        // Delivery fields
-        deliveryDate: input.deliveryDate || null,
-        deliveryFee: deliveryFee || null,
-        deliveryZoneId: input.deliveryZoneId || null,
-        deliveryTimeWindow: input.deliveryTimeWindow || null,
-        // Pickup fields
-        pickupLocationId: input.pickupLocationId || null,
-        pickupDate: input.pickupDate || null,
-        pickupTimeWindow: input.pickupTimeWindow || null,
-      })
-      .returning();
+    // Claim drop quantity before charging so concurrent checkouts can't oversell.
+    // A stale pending order from an abandoned request already holds its claims.
+    const claimedDropQuantities: { dropItemId: string; quantity: number }[] = [];
+    const releaseClaimedDropQuantities = async () => {
+      for (const claim of claimedDropQuantities) {
+        await releaseDropQuantity(claim);
+      }
+    };
 
-    // Calculate and record merchant fee
-    const feeCalculation = calculateMerchantFee({
-      orderAmount: order.totalAmount,
-      merchantProvider: "square",
-    });
+    let pendingOrder = existingOrder;
 
-    await db.insert(merchantFeeTable).values({
-      orderId: order.id,
-      merchantProvider: "square",
-      orderAmount: feeCalculation.orderAmount,
-      percentageFee: feeCalculation.percentageFee,
-      fixedFee: feeCalculation.fixedFee,
-      totalFee: feeCalculation.totalFee,
-      netAmount: feeCalculation.netAmount,
-      paymentIntentId: payment.id,
-      calculatedAt: new Date(),
-    });
+    if (!pendingOrder) {
+      for (const [dropItemId, quantity] of dropQuantities) {
+        const reserved = await reserveDropQuantity({ dropItemId, quantity });
+        if (!reserved) {
+          await releaseClaimedDropQuantities();
+          const drop = [...dropInfo.values()].find((d) => d.dropItemId === dropItemId);
+          const product = products.find((p) => p.id === drop?.productId);
+          throw new Error(`${product?.name || "A drop item"} has sold out`);
+        }
+        claimedDropQuantities.push({ dropItemId, quantity });
+      }
 
-    // Create order items and reduce inventory
-    for (const item of input.items) {
-      await db.insert(orderItemTable).values({
-        orderId: order.id,
-        productId: item.productId,
-        quantity: item.quantity,
-        priceAtPurchase: item.price,
-        customizations: item.customizations
-          ? JSON.stringify(item.customizations)
-          : null,
+      // Save the order before charging so a payment can never exist without one
+      try {
+        pendingOrder = await createPendingPaymentOrder({
+          order: {
+            customerEmail: input.customerEmail,
+            customerName: input.customerName,
+            customerPhone: input.customerPhone || null,
+            subtotal,
+            // Estimate until the provider reports what it actually charged
+            tax: calculateTax(subtotal + deliveryFee),
+            totalAmount: subtotal + deliveryFee + calculateTax(subtotal + deliveryFee),
+            merchantProvider: provider.name,
+            checkoutKey,
+            userId: input.userId || null,
+            deliveryAddress,
+            deliveryAddressJson,
+            // Fulfillment method
+            fulfillmentMethod: input.fulfillmentMethod || null,
+            // Delivery fields
+            deliveryDate: input.deliveryDate || null,
+            deliveryFee: deliveryFee || null,
+            deliveryZoneId: pricing.deliveryZoneId,
+            deliveryTimeWindow,
+            // Pickup fields
+            pickupLocationId: input.pickupLocationId || null,
+            pickupDate: input.pickupDate || null,
+            pickupTimeWindow,
+            timeSlotStart: pricing.timeSlot?.start ?? null,
+            timeSlotEnd: pricing.timeSlot?.end ?? null,
+          },
+          items: items.map((item) => ({
+            ...item,
+            dropItemId: dropInfo.get(item.productId)?.dropItemId ?? null,
+          })),
+        });
+      } catch (error) {
+        await releaseClaimedDropQuantities();
+
+        // A concurrent submit of the same attempt won the unique checkout key
+        if (await getOrderByCheckoutKey(checkoutKey)) {
+          throw new Error("Your payment is already being processed");
+        }
+        throw error;
+      }
+    } else {
+      // Resuming an abandoned attempt: its drop claims are released on failure
+      for (const [dropItemId, quantity] of dropQuantities) {
+        claimedDropQuantities.push({ dropItemId, quantity });
+      }
+    }
+
+    // Charge the tokenized card (delivery fee is its own line item)
+    const lineItems = items.map((item) => ({
+      name: item.name,
+      price: item.price,
+      quantity: item.quantity,
+    }));
+
+    if (deliveryFee > 0) {
+      lineItems.push({
+        name: "Delivery Fee",
+        price: deliveryFee,
+        quantity: 1,
+      });
+    }
+
+    // Stripe's Payment Element confirms the payment in the browser: this first
+    // call hands back the PaymentIntent's client secret, and once it's
+    // confirmed the client calls again with the PaymentIntent ID as the source.
+    // The order stays pending_payment with its drop claims until then.
+    if (!input.sourceId) {
+      if (!provider.preparePayment) {
+        throw new Error("Card details are required");
+      }
+
+      const { clientSecret } = await provider.preparePayment({
+        lineItems,
+        customerEmail: input.customerEmail,
+        note: `Order for ${input.customerName}`,
+        idempotencyKey: checkoutKey,
+        referenceId: pendingOrder.id,
       });
 
-      // Reduce inventory
-      await db
-        .update(productTable)
-        .set({
-          quantityAvailable: sql`${productTable.quantityAvailable} - ${item.quantity}`,
-        })
-        .where(eq(productTable.id, item.productId));
+      return { clientSecret };
     }
 
-    // Send confirmation email
+    let payment: PaymentCreateResult;
+
+    // Only a definite decline fails the order and releases its drop claims.
+    // A timeout or network error may still have charged the card, so the
+    // order stays pending_payment for reconciliation to settle.
     try {
-      const { sendOrderConfirmationEmail } = await import("@/utils/email");
+      payment = await provider.createPayment({
+        sourceId: input.sourceId,
+        lineItems,
+        customerEmail: input.customerEmail,
+        note: `Order for ${input.customerName}`,
+        idempotencyKey: checkoutKey,
+        referenceId: pendingOrder.id,
+      });
+    } catch (error) {
+      if (error instanceof PaymentDeclinedError) {
+        await failPendingPaymentOrder(pendingOrder.id);
+        await releaseClaimedDropQuantities();
+        throw error;
+      }
 
-      // Prepare delivery address
-      let deliveryAddressFormatted: string | null = null;
-      if (deliveryAddressJson && deliveryAddressJson !== "null") {
-        try {
-          const addr = JSON.parse(deliveryAddressJson);
-          deliveryAddressFormatted = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
-        } catch {
-          deliveryAddressFormatted = deliveryAddress;
-        }
-      } else {
-        deliveryAddressFormatted = deliveryAddress;
+      console.error(`Payment outcome unknown for order ${pendingOrder.id}:`, error);
+      throw new Error("We couldn't confirm your payment. Please check your email for a confirmation before trying again.");
+    }
+
+    if (payment.status === "failed") {
+      await failPendingPaymentOrder(pendingOrder.id);
+      await releaseClaimedDropQuantities();
+      throw new Error("Payment failed");
+    }
+
+    if (payment.status !== "paid") {
+      throw new Error("Your payment is still processing. Please check your email for a confirmation before trying again.");
+    }
+
+    const { tax, totalAmount } = payment;
+
+    // Payment details, merchant fee and inventory land in a single D1 batch.
+    // If this fails the customer has paid for a pending_payment order, which
+    // payment reconciliation finalizes from the order ID on the payment.
+    const { order, alreadyFinalized } = await finalizePaidOrder({
+      orderId: pendingOrder.id,
+      payment,
+      merchantProvider: provider.name,
+    });
+
+    // The stock is deducted now, so the checkout hold can go
+    if (input.reservationToken) {
+      await releaseCheckoutStock(input.reservationToken);
+    }
+
+    if (alreadyFinalized) {
+      return {
+        orderId: order.id,
+        paymentId: payment.paymentId,
+        orderNumber: getOrderNumber(order.id),
+      };
+    }
+
+    // Geocode once now so route planning never has to
+    if (input.fulfillmentMethod === "delivery") {
+      try {
+        await geocodeOrderAddress(order.id);
+      } catch (error) {
+        console.error("Failed to geocode delivery address:", error);
       }
+    }
 
-      // Fetch pickup location if needed
-      let pickupLocationFormatted: { name: string; address: string } | null = null;
-      if (input.pickupLocationId) {
-        const pickupLoc = await db
-          .select()
-          .from(pickupLocationTable)
-          .where(eq(pickupLocationTable.id, input.pickupLocationId))
-          .get();
+    // Send confirmation email (and SMS for customers who opted in)
+    await dispatchOrderNotification({
+      orderId: order.id,
+      type: NOTIFICATION_TYPE.ORDER_CONFIRMATION,
+      sendConfirmationEmail: async () => {
+        const { sendOrderConfirmationEmail } = await import("@/utils/email");
+
+        // Prepare delivery address
+        let deliveryAddressFormatted: string | null = null;
+        if (deliveryAddressJson && deliveryAddressJson !== "null") {
+          try {
+            const addr = JSON.parse(deliveryAddressJson);
+            deliveryAddressFormatted = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
+          } catch {
+            deliveryAddressFormatted = deliveryAddress;
+          }
+        } else {
+          deliveryAddressFormatted = deliveryAddress;
+        }
 
-        if (pickupLoc) {
-          let pickupAddress = "";
-          if (pickupLoc.address && pickupLoc.address !== "null") {
-            try {
-              const addr = JSON.parse(pickupLoc.address);
-              pickupAddress = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
-            } catch {
-              pickupAddress = pickupLoc.address;
+        // Fetch pickup location if needed
+        let pickupLocationFormatted: { name: string; address: string } | null = null;
+        if (input.pickupLocationId) {
+          const pickupLoc = await db
+            .select()
+            .from(pickupLocationTable)
+            .where(eq(pickupLocationTable.id, input.pickupLocationId))
+            .get();
+
+          if (pickupLoc) {
+            let pickupAddress = "";
+            if (pickupLoc.address && pickupLoc.address !== "null") {
+              try {
+                const addr = JSON.parse(pickupLoc.address);
+                pickupAddress = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
+              } catch {
+                pickupAddress = pickupLoc.address;
+              }
             }
+            pickupLocationFormatted = {
+              name: pickupLoc.name,
+              address: pickupAddress,
+            };
           }
-          pickupLocationFormatted = {
-            name: pickupLoc.name,
-            address: pickupAddress,
-          };
         }
-      }
 
-      await sendOrderConfirmationEmail({
-        email: input.customerEmail,
-        customerName: input.customerName,
-        orderNumber: order.id.substring(4, 12).toUpperCase(),
-        orderItems: input.items.map((item) => ({
-          name: item.name,
-          quantity: item.quantity,
-          price: item.price,
-        })),
-        subtotal,
-        tax,
-        deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
-        total: totalAmount,
-        fulfillmentMethod: input.fulfillmentMethod || null,
-        deliveryDate: input.deliveryDate || null,
-        deliveryTimeWindow: input.deliveryTimeWindow || null,
-        deliveryAddress: deliveryAddressFormatted,
-        pickupDate: input.pickupDate || null,
-        pickupTimeWindow: input.pickupTimeWindow || null,
-        pickupLocation: pickupLocationFormatted,
-      });
-    } catch (error) {
-      console.error("[Square Payment] Error sending confirmation email:", error);
-    }
+        await sendOrderConfirmationEmail({
+          email: input.customerEmail,
+          customerName: input.customerName,
+          orderNumber: getOrderNumber(order.id),
+          orderItems: items.map((item) => ({
+            name: item.name,
+            quantity: item.quantity,
+            price: item.price,
+          })),
+          subtotal,
+          tax,
+          deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
+          // Explain any delivery fee rules that were applied (e.g. free delivery thresholds)
+          deliveryFeeNotes: pricing.deliveryFeeNotes,
+          total: totalAmount,
+          fulfillmentMethod: input.fulfillmentMethod || null,
+          deliveryDate: input.deliveryDate || null,
+          deliveryTimeWindow,
+          deliveryAddress: deliveryAddressFormatted,
+          pickupDate: input.pickupDate || null,
+          pickupTimeWindow,
+          pickupLocation: pickupLocationFormatted,
+          trackingUrl: getOrderTrackingUrl(order.trackingToken),
+        });
+      },
+    });
 
     // Send admin notification email
     try {
@@ -388,7 +582,7 @@ export const createSquarePaymentAction = createServerAction()
       }
 
       // Collect order items with customizations for admin view
-      const itemsWithCustomizations = input.items.map((item) => ({
+      const itemsWithCustomizations = items.map((item) => ({
         name: item.name,
         quantity: item.quantity,
         price: item.price,
@@ -399,7 +593,7 @@ export const createSquarePaymentAction = createServerAction()
         customerName: input.customerName,
         customerEmail: input.customerEmail,
         customerPhone: input.customerPhone || null,
-        orderNumber: order.id.substring(4, 12).toUpperCase(),
+        orderNumber: getOrderNumber(order.id),
         orderId: order.id,
         orderItems: itemsWithCustomizations,
         subtotal,
@@ -408,10 +602,10 @@ export const createSquarePaymentAction = createServerAction()
         total: totalAmount,
         fulfillmentMethod: input.fulfillmentMethod || null,
         deliveryDate: input.deliveryDate || null,
-        deliveryTimeWindow: input.deliveryTimeWindow || null,
+        deliveryTimeWindow,
         deliveryAddress: deliveryAddressFormatted,
         pickupDate: input.pickupDate || null,
-        pickupTimeWindow: input.pickupTimeWindow || null,
+        pickupTimeWindow,
         pickupLocation: pickupLocationFormatted,
       });
     } catch (error) {
@@ -422,7 +616,7 @@ export const createSquarePaymentAction = createServerAction()
 
     return {
       orderId: order.id,
-      paymentId: payment.id,
-      orderNumber: order.id.substring(4, 12).toUpperCase(),
+      paymentId: payment.paymentId,
+      orderNumber: getOrderNumber(order.id),
     };
   });
@@ -0,0 +1,464 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import {
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  REFUND_STATUS,
+  categoryTable,
+  merchantFeeTable,
+  orderRefundTable,
+  orderTable,
+  productTable,
+} from "@/db/schema";
+import { MOCK_CARD_TOKENS } from "@/lib/merchant-provider/providers/mock";
+import { createLocalD1, type LocalDB } from "@/test/local-d1";
+import { OrderNotPayableError, finalizePaidOrder } from "@/utils/order-persistence";
+import { refundOrder } from "@/utils/refunds";
+import { calculateTax } from "@/utils/tax";
+import { createSquarePaymentAction } from "./create-square-payment.action";
+
+const { testDB } = vi.hoisted(() => ({
+  testDB: { current: null as LocalDB | null },
+}));
+
+vi.mock("@/db", () => ({
+  getDB: () => {
+    if (!testDB.current) throw new Error("Local D1 isn't ready");
+    return testDB.current;
+  },
+}));
+
+// Nothing leaves the process: no customer or admin emails, no SMS
+vi.mock("@/utils/notifications", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/utils/notifications")>()),
+  dispatchOrderNotification: vi.fn(),
+}));
+
+vi.mock("@/utils/email", () => ({
+  sendOrderConfirmationEmail: vi.fn(),
+  sendAdminNewOrderEmail: vi.fn(),
+  sendOrderRefundEmail: vi.fn(),
+}));
+
+const PRICE = 450;
+const STOCK = 10;
+
+let dispose: () => Promise<void>;
+let categoryId: string;
+
+beforeAll(async () => {
+  vi.stubEnv("MERCHANT_PROVIDER", "mock");
+  vi.stubEnv("MOCK_MERCHANT_SCENARIO", "success");
+  vi.stubEnv("MOCK_MERCHANT_TIMEOUT_MS", "10");
+
+  const localD1 = await createLocalD1();
+  testDB.current = localD1.db;
+  dispose = localD1.dispose;
+
+  // Migrated databases still require the legacy product.categoryId
+  const [category] = await localD1.db
+    .insert(categoryTable)
+    .values({ name: "Cookies", slug: "test-cookies" })
+    .returning();
+  categoryId = category.id;
+}, 60_000);
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await dispose?.();
+});
+
+beforeEach(() => {
+  vi.stubEnv("MOCK_MERCHANT_SCENARIO", "success");
+});
+
+function getDB(): LocalDB {
+  return testDB.current!;
+}
+
+async function createProduct(): Promise<string> {
+  const [product] = await getDB()
+    .insert(productTable)
+    .values({ name: "Chocolate Chip Cookie", categoryId, price: PRICE, quantityAvailable: STOCK })
+    .returning();
+
+  return product.id;
+}
+
+async function getStock(productId: string): Promise<number> {
+  const product = await getDB()
+    .select()
+    .from(productTable)
+    .where(eq(productTable.id, productId))
+    .get();
+
+  return product!.quantityAvailable;
+}
+
+async function getOrder(orderId: string) {
+  return await getDB()
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .get();
+}
+
+async function getOrderByEmail(customerEmail: string) {
+  return await getDB()
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.customerEmail, customerEmail))
+    .get();
+}
+
+async function getFees(orderId: string) {
+  return await getDB()
+    .select()
+    .from(merchantFeeTable)
+    .where(eq(merchantFeeTable.orderId, orderId));
+}
+
+async function checkout({
+  productId,
+  quantity = 2,
+  sourceId = MOCK_CARD_TOKENS.success,
+  checkoutAttemptId = crypto.randomUUID(),
+  customerEmail = `${crypto.randomUUID()}@example.com`,
+}: {
+  productId: string;
+  quantity?: number;
+  sourceId?: string;
+  checkoutAttemptId?: string;
+  customerEmail?: string;
+}) {
+  const [data, err] = await createSquarePaymentAction({
+    sourceId,
+    checkoutAttemptId,
+    items: [{ productId, quantity, name: "Chocolate Chip Cookie", price: PRICE }],
+    customerEmail,
+    customerName: "Test Customer",
+  });
+
+  // The mock provider charges the card token on the server, like Square
+  if (data && "clientSecret" in data) {
+    throw new Error("Expected a charged payment, not a client secret");
+  }
+
+  return [data, err] as const;
+}
+
+describe("checkout with the mock provider", () => {
+  it("charges the card and finalizes the order", async () => {
+    const productId = await createProduct();
+
+    const [data, err] = await checkout({ productId, quantity: 2 });
+
+    expect(err).toBeNull();
+    const order = await getOrder(data!.orderId);
+    expect(order).toMatchObject({
+      status: ORDER_STATUS.PENDING,
+      paymentStatus: PAYMENT_STATUS.PAID,
+      merchantProvider: "mock",
+      paymentIntentId: data!.paymentId,
+      subtotal: PRICE * 2,
+      tax: calculateTax(PRICE * 2),
+      totalAmount: PRICE * 2 + calculateTax(PRICE * 2),
+    });
+    expect(await getStock(productId)).toBe(STOCK - 2);
+    expect(await getFees(order!.id)).toHaveLength(1);
+  });
+
+  it("returns the same order when the same attempt is submitted twice", async () => {
+    const productId = await createProduct();
+    const attempt = { productId, checkoutAttemptId: crypto.randomUUID(), customerEmail: "twice@example.com" };
+
+    const [first] = await checkout(attempt);
+    const [second, err] = await checkout(attempt);
+
+    expect(err).toBeNull();
+    expect(second!.orderId).toBe(first!.orderId);
+    expect(await getStock(productId)).toBe(STOCK - 2);
+    expect(await getFees(first!.orderId)).toHaveLength(1);
+  });
+
+  it("rejects delivery details without a fulfillment method", async () => {
+    const productId = await createProduct();
+    const customerEmail = "no-method@example.com";
+
+    const [data, err] = await createSquarePaymentAction({
+      sourceId: MOCK_CARD_TOKENS.success,
+      checkoutAttemptId: crypto.randomUUID(),
+      items: [{ productId, quantity: 2, name: "Chocolate Chip Cookie", price: PRICE }],
+      customerEmail,
+      customerName: "Test Customer",
+      streetAddress1: "1 Main St",
+      zipCode: "84101",
+      deliveryDate: "2030-01-01",
+    });
+
+    expect(data).toBeNull();
+    expect(err?.code).toBe("INPUT_PARSE_ERROR");
+    expect(await getOrderByEmail(customerEmail)).toBeUndefined();
+    expect(await getStock(productId)).toBe(STOCK);
+  });
+
+  it("cancels the order and leaves stock alone when the card is declined", async () => {
+    const productId = await createProduct();
+    const customerEmail = "declined@example.com";
+
+    const [data, err] = await checkout({ productId, sourceId: MOCK_CARD_TOKENS.declined, customerEmail });
+
+    expect(data).toBeNull();
+    expect(err?.message).toContain("CARD_DECLINED");
+    expect(await getOrderByEmail(customerEmail)).toMatchObject({
+      status: ORDER_STATUS.CANCELLED,
+      paymentStatus: PAYMENT_STATUS.FAILED,
+      paymentIntentId: null,
+    });
+    expect(await getStock(productId)).toBe(STOCK);
+  });
+
+  it("keeps the order pending when the provider times out, so a retry can finish it", async () => {
+    const productId = await createProduct();
+    const attempt = { productId, checkoutAttemptId: crypto.randomUUID(), customerEmail: "timeout@example.com" };
+
+    const [data, err] = await checkout({ ...attempt, sourceId: MOCK_CARD_TOKENS.timeout });
+
+    expect(data).toBeNull();
+    expect(err?.message).toContain("couldn't confirm your payment");
+    const pending = await getOrderByEmail(attempt.customerEmail);
+    expect(pending).toMatchObject({
+      status: ORDER_STATUS.PENDING_PAYMENT,
+      paymentStatus: PAYMENT_STATUS.PENDING,
+    });
+    expect(await getStock(productId)).toBe(STOCK);
+    expect(await getFees(pending!.id)).toHaveLength(0);
+
+    // Retrying right away is refused while the first request may still be charging
+    const [, inProgressErr] = await checkout(attempt);
+    expect(inProgressErr?.message).toContain("already being processed");
+
+    // Once the in-progress window has passed, the retry reuses the pending order
+    await getDB()
+      .update(orderTable)
+      .set({ createdAt: new Date(Date.now() - 5 * 60 * 1000) })
+      .where(eq(orderTable.id, pending!.id));
+
+    const [retried, retryErr] = await checkout(attempt);
+
+    expect(retryErr).toBeNull();
+    expect(retried!.orderId).toBe(pending!.id);
+    expect(await getOrder(pending!.id)).toMatchObject({ paymentStatus: PAYMENT_STATUS.PAID });
+    expect(await getStock(productId)).toBe(STOCK - 2);
+  });
+
+  it("finalizes an order once when two requests finalize it at the same time", async () => {
+    const productId = await createProduct();
+    const customerEmail = "race@example.com";
+
+    await checkout({ productId, sourceId: MOCK_CARD_TOKENS.timeout, customerEmail });
+    const pending = await getOrderByEmail(customerEmail);
+
+    const payment = { paymentId: "mock_pay_race", tax: pending!.tax, totalAmount: pending!.totalAmount };
+    const results = await Promise.all([
+      finalizePaidOrder({ orderId: pending!.id, payment, merchantProvider: "mock" }),
+      finalizePaidOrder({ orderId: pending!.id, payment, merchantProvider: "mock" }),
+    ]);
+
+    expect(results.filter((result) => !result.alreadyFinalized)).toHaveLength(1);
+    expect(await getStock(productId)).toBe(STOCK - 2);
+    expect(await getFees(pending!.id)).toHaveLength(1);
+  });
+
+  it("won't revive an order whose payment already failed", async () => {
+    const productId = await createProduct();
+    const customerEmail = "late-payment@example.com";
+
+    await checkout({ productId, sourceId: MOCK_CARD_TOKENS.declined, customerEmail });
+    const failed = await getOrderByEmail(customerEmail);
+
+    const payment = { paymentId: "mock_pay_late", tax: failed!.tax, totalAmount: failed!.totalAmount };
+    await expect(
+      finalizePaidOrder({ orderId: failed!.id, payment, merchantProvider: "mock" })
+    ).rejects.toThrow(OrderNotPayableError);
+
+    expect(await getOrderByEmail(customerEmail)).toMatchObject({
+      status: ORDER_STATUS.CANCELLED,
+      paymentStatus: PAYMENT_STATUS.FAILED,
+    });
+    expect(await getStock(productId)).toBe(STOCK);
+    expect(await getFees(failed!.id)).toHaveLength(0);
+  });
+});
+
+describe("checkout with the Stripe Payment Element", () => {
+  // Just enough of the PaymentIntents API: creates are idempotent per key
+  const paymentIntents = new Map<string, Record<string, unknown>>();
+
+  beforeEach(() => {
+    vi.stubEnv("MERCHANT_PROVIDER", "stripe");
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_local");
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname } = new URL(url);
+      const headers = init.headers as Record<string, string>;
+
+      if (init.method === "POST" && pathname === "/v1/payment_intents") {
+        const key = headers["Idempotency-Key"];
+        if (!paymentIntents.has(key)) {
+          const params = new URLSearchParams(init.body as string);
+          const id = `pi_${crypto.randomUUID().replaceAll("-", "")}`;
+          paymentIntents.set(key, {
+            id,
+            client_secret: `${id}_secret_test`,
+            status: "requires_payment_method",
+            amount: Number(params.get("amount")),
+            currency: "usd",
+            created: Math.floor(Date.now() / 1000),
+            metadata: { orderId: params.get("metadata[orderId]") },
+          });
+        }
+        return Response.json(paymentIntents.get(key));
+      }
+
+      const paymentIntent = [...paymentIntents.values()].find(
+        (intent) => pathname === `/v1/payment_intents/${intent.id}`
+      );
+      return paymentIntent
+        ? Response.json(paymentIntent)
+        : Response.json({ error: { type: "invalid_request_error" } }, { status: 404 });
+    }));
+  });
+
+  afterEach(() => {
+    vi.stubEnv("MERCHANT_PROVIDER", "mock");
+    vi.unstubAllGlobals();
+  });
+
+  // What the Payment Element does in the browser
+  function confirmInBrowser(clientSecret: string): string {
+    const paymentIntent = [...paymentIntents.values()].find(
+      (intent) => intent.client_secret === clientSecret
+    )!;
+    paymentIntent.status = "succeeded";
+    return paymentIntent.id as string;
+  }
+
+  function stripeCheckout(productId: string, customerEmail: string, sourceId?: string) {
+    return createSquarePaymentAction({
+      sourceId,
+      checkoutAttemptId: `attempt-${customerEmail}`,
+      items: [{ productId, quantity: 2, name: "Chocolate Chip Cookie", price: PRICE }],
+      customerEmail,
+      customerName: "Test Customer",
+    });
+  }
+
+  it("finalizes the order once the client has confirmed the PaymentIntent", async () => {
+    const productId = await createProduct();
+    const customerEmail = "stripe@example.com";
+
+    const [prepared, prepareErr] = await stripeCheckout(productId, customerEmail);
+
+    expect(prepareErr).toBeNull();
+    expect(prepared).toEqual({ clientSecret: expect.stringContaining("_secret_") });
+    expect(await getOrderByEmail(customerEmail)).toMatchObject({
+      status: ORDER_STATUS.PENDING_PAYMENT,
+      paymentStatus: PAYMENT_STATUS.PENDING,
+    });
+    expect(await getStock(productId)).toBe(STOCK);
+
+    // Trying again (say, after a declined card) reuses the same PaymentIntent
+    const [again] = await stripeCheckout(productId, customerEmail);
+    expect(again).toEqual(prepared);
+
+    const paymentIntentId = confirmInBrowser((prepared as { clientSecret: string }).clientSecret);
+    const [data, err] = await stripeCheckout(productId, customerEmail, paymentIntentId);
+
+    expect(err).toBeNull();
+    expect(data).toMatchObject({ paymentId: paymentIntentId });
+    expect(await getOrderByEmail(customerEmail)).toMatchObject({
+      status: ORDER_STATUS.PENDING,
+      paymentStatus: PAYMENT_STATUS.PAID,
+      merchantProvider: "stripe",
+      paymentIntentId,
+      totalAmount: PRICE * 2 + calculateTax(PRICE * 2),
+    });
+    expect(await getStock(productId)).toBe(STOCK - 2);
+  });
+
+  it("won't finalize an order with a PaymentIntent prepared for another one", async () => {
+    const productId = await createProduct();
+
+    const [other] = await stripeCheckout(productId, "someone-else@example.com");
+    const paymentIntentId = confirmInBrowser((other as { clientSecret: string }).clientSecret);
+
+    await stripeCheckout(productId, "stripe-mismatch@example.com");
+    const [data, err] = await stripeCheckout(productId, "stripe-mismatch@example.com", paymentIntentId);
+
+    expect(data).toBeNull();
+    expect(err?.message).toContain("couldn't confirm your payment");
+    expect(await getOrderByEmail("stripe-mismatch@example.com")).toMatchObject({
+      paymentStatus: PAYMENT_STATUS.PENDING,
+      paymentIntentId: null,
+    });
+  });
+});
+
+describe("refunds with the mock provider", () => {
+  it("refunds the whole order and restocks it", async () => {
+    const productId = await createProduct();
+    const [data] = await checkout({ productId, quantity: 3 });
+
+    const result = await refundOrder({
+      orderId: data!.orderId,
+      reason: "Customer changed their mind",
+      restock: true,
+    });
+
+    const order = await getOrder(data!.orderId);
+    expect(result.isFullyRefunded).toBe(true);
+    expect(result.refund).toMatchObject({ status: REFUND_STATUS.SUCCEEDED, amount: order!.totalAmount });
+    expect(order!.paymentStatus).toBe(PAYMENT_STATUS.REFUNDED);
+    expect(await getStock(productId)).toBe(STOCK);
+
+    const [fee] = await getFees(data!.orderId);
+    expect(fee.refundedAmount).toBe(order!.totalAmount);
+  });
+
+  it("records what the provider refunded when it returns less than requested", async () => {
+    const productId = await createProduct();
+    const [data] = await checkout({ productId });
+    vi.stubEnv("MOCK_MERCHANT_SCENARIO", "partial_refund");
+
+    const result = await refundOrder({
+      orderId: data!.orderId,
+      reason: "Broken cookie",
+      amount: 400,
+      restock: false,
+    });
+
+    expect(result.refund.amount).toBe(200);
+    expect(result.totalRefunded).toBe(200);
+    expect(result.isFullyRefunded).toBe(false);
+    expect(await getOrder(data!.orderId)).toMatchObject({ paymentStatus: PAYMENT_STATUS.PAID });
+  });
+
+  it("keeps a failed ledger row when the provider rejects the refund", async () => {
+    const productId = await createProduct();
+    const [data] = await checkout({ productId });
+    vi.stubEnv("MOCK_MERCHANT_SCENARIO", "declined");
+
+    await expect(
+      refundOrder({ orderId: data!.orderId, reason: "Late delivery", restock: true })
+    ).rejects.toThrow("rejected the refund");
+
+    const refunds = await getDB()
+      .select()
+      .from(orderRefundTable)
+      .where(eq(orderRefundTable.orderId, data!.orderId));
+
+    expect(refunds).toMatchObject([{ status: REFUND_STATUS.FAILED }]);
+    expect(await getStock(productId)).toBe(STOCK - 2);
+    expect(await getOrder(data!.orderId)).toMatchObject({ paymentStatus: PAYMENT_STATUS.PAID });
+  });
+});
@@ -9,6 +9,8 @@ import {
   getAvailablePickupDates,
 } from "@/utils/delivery";
 import { getMountainISODate } from "@/utils/timezone";
+import { getFullDates } from "@/utils/production-capacity";
+import { getDateTimeSlots } from "@/utils/time-slots";
 
 /**
  * Get delivery options for a cart
@@ -49,6 +51,7 @@ export const getCartDeliveryOptionsAction = createServerAction()
         available: false,
         deliveryDates: [],
         feeAmount: 0,
+        feeAdjustments: [],
         zoneName: null,
         zoneId: null,
       };
@@ -56,6 +59,7 @@ export const getCartDeliveryOptionsAction = createServerAction()
 
     // Calculate delivery fee if ZIP code provided
     let feeAmount = 0;
+    let feeAdjustments: Array<{ reason: string; amount: number }> = [];
     let zoneName: string | null = null;
     let zoneId: string | null = null;
 
@@ -71,27 +75,52 @@ export const getCartDeliveryOptionsAction = createServerAction()
           available: false,
           deliveryDates: [],
           feeAmount: 0,
+          feeAdjustments: [],
           zoneName: null,
           zoneId: null,
         };
       }
 
       feeAmount = feeResult.feeAmount;
+      feeAdjustments = feeResult.breakdown.adjustments.map(({ reason, amount }) => ({ reason, amount }));
       zoneName = feeResult.appliedZone.name;
       zoneId = feeResult.appliedZone.id;
     }
 
+    // Dates the bakery can't make this cart for are shown as fully booked
+    const fullDates = await getFullDates({
+      dates: deliveryDateOptions.map((option) => getMountainISODate(option.deliveryDate)),
+      items,
+    });
+
+    const timeSlots = await getDateTimeSlots({
+      fulfillmentMethod: "delivery",
+      dates: deliveryDateOptions.map((option) => ({
+        date: getMountainISODate(option.deliveryDate),
+        config: option.slotConfig,
+      })),
+    });
+
     return {
       available: true,
-      deliveryDates: deliveryDateOptions.map(option => ({
+      deliveryDates: deliveryDateOptions.map(option => {
         // Return ISO date strings in Mountain Time (YYYY-MM-DD)
-        deliveryDate: getMountainISODate(option.deliveryDate),
-        cutoffDate: option.cutoffDate.toISOString(),
-        timeWindow: option.timeWindow,
-        dayOfWeek: option.schedule?.dayOfWeek ?? option.deliveryDate.getDay(),
-        scheduleName: option.schedule?.name ?? 'One-time Delivery',
-      })),
+        const deliveryDate = getMountainISODate(option.deliveryDate);
+        const dateSlots = timeSlots.get(deliveryDate) ?? [];
+
+        return {
+          deliveryDate,
+          cutoffDate: option.cutoffDate.toISOString(),
+          timeWindow: option.timeWindow,
+          dayOfWeek: option.schedule?.dayOfWeek ?? option.deliveryDate.getDay(),
+          scheduleName: option.schedule?.name ?? 'One-time Delivery',
+          // Full when production capacity can't take the cart or every slot is booked
+          isFull: fullDates.has(deliveryDate) || (dateSlots.length > 0 && dateSlots.every((slot) => slot.isFull)),
+          timeSlots: dateSlots,
+        };
+      }),
       feeAmount,
+      feeAdjustments,
       zoneName,
       zoneId,
     };
@@ -131,17 +160,38 @@ export const getCartPickupOptionsAction = createServerAction()
           maxDates: 4, // Show up to 4 pickup date options
         });
 
+        const fullDates = await getFullDates({
+          dates: pickupDates.map((date) => getMountainISODate(date.pickupDate)),
+          items,
+        });
+
+        const timeSlots = await getDateTimeSlots({
+          fulfillmentMethod: "pickup",
+          dates: pickupDates.map((date) => ({
+            date: getMountainISODate(date.pickupDate),
+            config: date.slotConfig,
+          })),
+          pickupLocationId: loc.id,
+        });
+
         return {
           id: loc.id,
           name: loc.name,
           address: JSON.parse(loc.address),
           instructions: loc.instructions,
-          pickupDates: pickupDates.map((date) => ({
+          pickupDates: pickupDates.map((date) => {
             // Return ISO date strings in Mountain Time (YYYY-MM-DD)
-            pickupDate: getMountainISODate(date.pickupDate),
-            cutoffDate: date.cutoffDate.toISOString(),
-            pickupTimeWindow: date.timeWindow,
-          })),
+            const pickupDate = getMountainISODate(date.pickupDate);
+            const dateSlots = timeSlots.get(pickupDate) ?? [];
+
+            return {
+              pickupDate,
+              cutoffDate: date.cutoffDate.toISOString(),
+              pickupTimeWindow: date.timeWindow,
+              isFull: fullDates.has(pickupDate) || (dateSlots.length > 0 && dateSlots.every((slot) => slot.isFull)),
+              timeSlots: dateSlots,
+            };
+          }),
         };
       })
     );
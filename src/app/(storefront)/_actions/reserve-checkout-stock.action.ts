@@ -0,0 +1,45 @@
+"use server";
+
+import { createServerAction } from "zsa";
+import { z } from "zod";
+import { getIP } from "@/utils/get-IP";
+import { MAX_RESERVATION_LINES, reserveCheckoutStock } from "@/utils/stock-reservations";
+import { RATE_LIMITS, withRateLimit } from "@/utils/with-rate-limit";
+
+/**
+ * Hold the cart's stock while the customer is on the checkout page.
+ * Calling again with the same token replaces the previous hold and
+ * restarts its timer; an empty cart just releases it.
+ */
+export const reserveCheckoutStockAction = createServerAction()
+  .input(
+    z.object({
+      reservationToken: z.string().min(1).max(100),
+      items: z.array(
+        z.object({
+          productId: z.string(),
+          variantId: z.string().optional(),
+          quantity: z.number().int().positive(),
+        })
+      ).max(MAX_RESERVATION_LINES),
+    })
+  )
+  .handler(async ({ input }) => {
+    return withRateLimit(async () => {
+      const { expiresAt, lines } = await reserveCheckoutStock({
+        reservationToken: input.reservationToken,
+        lines: input.items,
+        ipAddress: await getIP(),
+      });
+
+      return {
+        expiresAt,
+        items: lines.map((line) => ({
+          productId: line.productId,
+          requested: line.requested,
+          reserved: line.quantity,
+          limited: line.limited,
+        })),
+      };
+    }, RATE_LIMITS.STOCK_RESERVATION);
+  });
@@ -5,10 +5,32 @@ import { z } from "zod";
 import { getDB } from "@/db";
 import { productTable, categoryTable, productCategoryTable, PRODUCT_STATUS } from "@/db/schema";
 import { eq, and, desc, ne, sql, notInArray, inArray } from "drizzle-orm";
+import { getSessionFromCookie } from "@/utils/auth";
+import { canPurchaseFromDrop, getDropInfoForProducts, type ProductDropInfo } from "@/utils/drops";
+import { applyReservationsToProduct, getReservedQuantities } from "@/utils/stock-reservations";
+import type { ProductCustomizations } from "@/types/customizations";
 
 // Hardcoded category slugs excluded from dynamic navigation
 const HARDCODED_CATEGORY_SLUGS = ['cakes', 'cookies', 'gift-boxes', 'custom-orders'];
 
+// Drop details exposed to the storefront for gating the add-to-cart button
+function toStorefrontDrop(drop: ProductDropInfo | undefined, isLoyaltyMember: boolean) {
+  if (!drop) {
+    return null;
+  }
+
+  return {
+    name: drop.dropName,
+    status: drop.status,
+    loyaltyEarlyAccessStart: drop.loyaltyEarlyAccessStart,
+    publicReleaseStart: drop.publicReleaseStart,
+    endTime: drop.endTime,
+    remainingQuantity: drop.remainingQuantity,
+    maxPerCustomer: drop.maxPerCustomer,
+    canPurchase: canPurchaseFromDrop({ status: drop.status, isLoyaltyMember }),
+  };
+}
+
 // Get products for storefront (only active/featured)
 export const getStorefrontProductsAction = createServerAction()
   .input(
@@ -78,23 +100,44 @@ export const getStorefrontProductsAction = createServerAction()
         desc(productTable.createdAt)
       );
 
-    // Parse customizations JSON and calculate effective stock
-    const parsedProducts = products.map((p) => {
-      const customizations = p.customizations ? JSON.parse(p.customizations) : null;
+    const session = await getSessionFromCookie();
+    const dropInfo = await getDropInfoForProducts(products.map((p) => p.id));
+    const reserved = await getReservedQuantities(products.map((p) => p.id));
+
+    // Parse customizations JSON and calculate effective stock, leaving out
+    // what shoppers are holding at checkout
+    const parsedProducts = products.map((product) => {
+      const p = applyReservationsToProduct(
+        {
+          ...product,
+          customizations: product.customizations
+            ? (JSON.parse(product.customizations) as ProductCustomizations)
+            : null,
+        },
+        reserved
+      );
+      const customizations = p.customizations;
 
       // For products with size variants, calculate total stock across all variants
       let effectiveStock = p.quantityAvailable;
       if (customizations?.type === "size_variants" && customizations.variants) {
         effectiveStock = customizations.variants.reduce(
-          (sum: number, variant: { quantityAvailable: number }) => sum + variant.quantityAvailable,
+          (sum, variant) => sum + variant.quantityAvailable,
           0
         );
       }
 
+      // Drop items can't sell more than the drop's remaining quantity
+      const drop = toStorefrontDrop(dropInfo.get(p.id), !!session?.user);
+      if (drop) {
+        effectiveStock = Math.min(effectiveStock, drop.remainingQuantity);
+      }
+
       return {
         ...p,
         customizations,
         effectiveStock,
+        drop,
       };
     });
 
@@ -145,10 +188,22 @@ export const getStorefrontProductAction = createServerAction()
       return null;
     }
 
-    // Parse customizations JSON
+    const session = await getSessionFromCookie();
+    const dropInfo = await getDropInfoForProducts([product.id]);
+    const reserved = await getReservedQuantities([product.id]);
+
+    // Parse customizations JSON; stock excludes what's held at checkout
     return {
-      ...product,
-      customizations: product.customizations ? JSON.parse(product.customizations) : null,
+      ...applyReservationsToProduct(
+        {
+          ...product,
+          customizations: product.customizations
+            ? (JSON.parse(product.customizations) as ProductCustomizations)
+            : null,
+        },
+        reserved
+      ),
+      drop: toStorefrontDrop(dropInfo.get(product.id), !!session?.user),
     };
   });
 
@@ -9,9 +9,13 @@ import {
   CardFooter,
   CardHeader,
 } from "@/components/ui/card";
-import { ShoppingCart, Plus, Minus } from "lucide-react";
+import { ShoppingCart, Plus, Minus, Lock } from "lucide-react";
 import { useCart } from "@/state/cart-context";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import Link from "next/link";
+import type { Route } from "next";
+import { DROP_STATUS } from "@/db/schema";
 import { ProductVariantSelector } from "./product-variant-selector";
 import type {
   ProductCustomizations,
@@ -32,6 +36,15 @@ type Product = {
     name: string;
     slug: string;
   } | null;
+  drop?: {
+    name: string;
+    status: string;
+    publicReleaseStart: Date;
+    loyaltyEarlyAccessStart: Date;
+    remainingQuantity: number;
+    maxPerCustomer: number;
+    canPurchase: boolean;
+  } | null;
 };
 
 export function ProductCard({
@@ -49,8 +62,10 @@ export function ProductCard({
     hasVariants && product?.customizations?.type === "size_variants"
       ? product.customizations.variants
       : [];
+  // Same default as ProductVariantSelector: skip sold-out sizes when possible
+  const inStockVariants = variants.filter((v) => v.quantityAvailable > 0);
   const defaultVariant = hasVariants
-    ? variants.find((v) => v.isDefault) || variants[0]
+    ? inStockVariants.find((v) => v.isDefault) || inStockVariants[0] || variants[0]
     : null;
 
   const [selectedVariantId, setSelectedVariantId] = useState<string>(
@@ -66,9 +81,19 @@ export function ProductCard({
     : null;
 
   // Use variant quantity if available, otherwise use product quantity
-  const availableQuantity =
+  let availableQuantity =
     selectedVariant?.quantityAvailable ?? product.quantityAvailable;
 
+  // Drops cap the quantity by what's left in the drop and the per-customer limit
+  const drop = product.drop;
+  if (drop) {
+    availableQuantity = Math.min(availableQuantity, drop.remainingQuantity);
+    if (drop.maxPerCustomer > 0) {
+      availableQuantity = Math.min(availableQuantity, drop.maxPerCustomer);
+    }
+  }
+  const isDropLocked = !!drop && !drop.canPurchase;
+
   // Generate cart item ID based on product and selected variant
   const cartItemId = hasVariants
     ? `${product.id}_${selectedVariantId}`
@@ -86,6 +111,11 @@ export function ProductCard({
   };
 
   function handleAddToCart() {
+    if (isDropLocked) {
+      toast.error("This drop isn't available to you yet");
+      return;
+    }
+
     if (isOutOfStock) {
       toast.error("This item is out of stock");
       return;
@@ -211,6 +241,28 @@ export function ProductCard({
               {formatPrice(selectedPrice)}
             </p>
           )}
+          {drop && (
+            <div className={`space-y-1 ${compact ? "text-xs" : "text-sm"}`}>
+              <p className="font-semibold text-primary uppercase tracking-wide">
+                {drop.name}
+              </p>
+              {drop.status === DROP_STATUS.SCHEDULED && (
+                <p className="text-muted-foreground">
+                  Members get early access {format(new Date(drop.loyaltyEarlyAccessStart), "MMM d 'at' h:mm a")}
+                </p>
+              )}
+              {drop.status === DROP_STATUS.LOYALTY_ACTIVE && (
+                <p className="text-muted-foreground">
+                  Members-only early access · Public release {format(new Date(drop.publicReleaseStart), "MMM d 'at' h:mm a")}
+                </p>
+              )}
+              {drop.maxPerCustomer > 0 && (
+                <p className="text-muted-foreground">
+                  Limit {drop.maxPerCustomer} per customer
+                </p>
+              )}
+            </div>
+          )}
           {isOutOfStock ? (
             <p className={`font-semibold text-destructive ${compact ? "text-xs" : "text-sm"}`}>
               Out of Stock
@@ -260,6 +312,29 @@ export function ProductCard({
               </p>
             )}
           </div>
+        ) : isDropLocked ? (
+          drop?.status === DROP_STATUS.LOYALTY_ACTIVE ? (
+            <Button
+              asChild
+              variant="outline"
+              className="w-full"
+              size={compact ? "default" : "lg"}
+            >
+              <Link href={"/signup" as Route}>
+                <Lock className="mr-2 h-4 w-4" />
+                Join to Shop Early Access
+              </Link>
+            </Button>
+          ) : (
+            <Button
+              className="w-full"
+              size={compact ? "default" : "lg"}
+              disabled
+            >
+              <Lock className="mr-2 h-4 w-4" />
+              Coming Soon
+            </Button>
+          )
         ) : (
           <Button
             onClick={handleAddToCart}
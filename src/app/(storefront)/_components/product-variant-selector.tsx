@@ -22,8 +22,11 @@ export function ProductVariantSelector({
   onVariantChange,
   className,
 }: ProductVariantSelectorProps) {
+  const inStockVariants = config.variants.filter((v) => v.quantityAvailable > 0);
   const defaultVariant =
-    config.variants.find((v) => v.isDefault) || config.variants[0];
+    inStockVariants.find((v) => v.isDefault) ||
+    inStockVariants[0] ||
+    config.variants[0];
   const [selectedVariantId, setSelectedVariantId] = useState<string>(
     defaultVariant?.id || ""
   );
@@ -58,9 +61,18 @@ export function ProductVariantSelector({
         </SelectTrigger>
         <SelectContent>
           {config.variants.map((variant) => (
-            <SelectItem key={variant.id} value={variant.id}>
+            <SelectItem
+              key={variant.id}
+              value={variant.id}
+              disabled={variant.quantityAvailable <= 0}
+            >
               <div className="flex items-center justify-between w-full gap-4">
-                <span>{variant.name}</span>
+                <span>
+                  {variant.name}
+                  {variant.quantityAvailable <= 0 && (
+                    <span className="text-xs text-destructive ml-2">Sold out</span>
+                  )}
+                </span>
                 <span className="font-semibold text-primary">
                   {formatPrice(variant.priceInCents)}
                 </span>
@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import type { Route } from "next";
-import { ShoppingCart, Menu, User, Shield } from "lucide-react";
+import { ShoppingCart, Menu, User, Shield, Truck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useCart } from "@/state/cart-context";
@@ -33,7 +33,7 @@ export function StorefrontNav({ dynamicCategories }: StorefrontNavProps) {
     lastName: string | null;
     email: string | null;
     phone: string | null;
-    role: "admin" | "user";
+    role: "admin" | "user" | "driver";
   } | null>(null);
   const [isLoadingUser, setIsLoadingUser] = useState(true);
 
@@ -115,6 +115,14 @@ export function StorefrontNav({ dynamicCategories }: StorefrontNavProps) {
                       </Link>
                     </Button>
                   )}
+                  {currentUser?.role === "driver" && (
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link href="/driver">
+                        <Truck className="h-5 w-5" />
+                        <span className="sr-only">Run Sheet</span>
+                      </Link>
+                    </Button>
+                  )}
                   {currentUser ? (
                     <Button variant="ghost" size="icon" asChild>
                       <Link href="/profile">
@@ -207,6 +215,15 @@ export function StorefrontNav({ dynamicCategories }: StorefrontNavProps) {
                           Admin
                         </Link>
                       )}
+                      {currentUser.role === "driver" && (
+                        <Link
+                          href="/driver"
+                          className="text-lg font-medium hover:text-primary hover:bg-muted/50 transition-colors px-4 py-3 rounded-md"
+                          onClick={() => setIsOpen(false)}
+                        >
+                          Run Sheet
+                        </Link>
+                      )}
                     </>
                   )}
                   {!currentUser && (
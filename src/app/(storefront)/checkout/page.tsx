@@ -16,19 +16,24 @@ import { useSearchParams } from "next/navigation";
 import { useState, useMemo, useEffect } from "react";
 import { createCheckoutSessionAction } from "../_actions/create-checkout-session.action";
 import { useServerAction } from "zsa-react";
-import { Loader2, Pencil } from "lucide-react";
+import { Clock, Loader2, Pencil } from "lucide-react";
 import Link from "next/link";
 import { calculateOrderTotals, formatCents } from "@/utils/tax";
 import { getCurrentLoyaltyCustomerAction } from "../_actions/get-current-loyalty-customer.action";
 import { toast } from "sonner";
 import { SquarePaymentForm } from "@/components/square-payment-form";
+import { StripePaymentForm } from "@/components/stripe-payment-form";
+import { useConfigStore } from "@/state/config";
 import {
   FulfillmentMethodSelector,
   type FulfillmentSelection,
 } from "@/components/fulfillment-method-selector";
+import { parseCartChangedError, type CartChange, type CartChangedErrorData } from "@/types/checkout";
+import { CountdownTimer } from "@/components/countdown-timer";
+import { useStockReservation } from "@/hooks/useStockReservation";
 
 export default function CheckoutPage() {
-  const { items, totalAmount, clearCart } = useCart();
+  const { items, totalAmount, clearCart, removeItem, updatePrice } = useCart();
   const searchParams = useSearchParams();
   const [customerName, setCustomerName] = useState("");
   const [customerEmail, setCustomerEmail] = useState("");
@@ -56,7 +61,22 @@ export default function CheckoutPage() {
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [fulfillmentSelection, setFulfillmentSelection] =
     useState<FulfillmentSelection | null>(null);
-  const useWebPayments = true; // Always use Square Web Payments SDK
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([]);
+  // Bumped to remount the fulfillment selector so it reloads fees and dates
+  const [fulfillmentKey, setFulfillmentKey] = useState(0);
+  const useWebPayments = true; // Always take the card on this page
+  // The form matches the server's MERCHANT_PROVIDER (the mock provider takes Square tokens)
+  const merchantProvider = useConfigStore((store) => store.merchantProvider);
+  const PaymentForm = merchantProvider === "stripe" ? StripePaymentForm : SquarePaymentForm;
+
+  // Hold the cart's stock while the customer fills in the form
+  const reservation = useStockReservation({
+    onAdjusted: (changes) => {
+      setFulfillmentSelection(null);
+      setFulfillmentKey((key) => key + 1);
+      setCartChanges(changes);
+    },
+  });
 
   const { execute: getLoyaltyCustomer } = useServerAction(
     getCurrentLoyaltyCustomerAction
@@ -103,6 +123,33 @@ export default function CheckoutPage() {
     };
   }, [totalAmount, fulfillmentSelection]);
 
+  // Bring the cart in line with what the server will actually charge
+  function handleCartChanged({ changes }: CartChangedErrorData) {
+    const submittedItems = [...items];
+
+    for (const change of changes) {
+      const item =
+        change.itemIndex !== undefined ? submittedItems[change.itemIndex] : undefined;
+
+      if (change.type === "item_unavailable" && item) {
+        removeItem(item.cartItemId);
+      }
+
+      if (
+        change.type === "price_changed" &&
+        item &&
+        change.currentAmount !== undefined
+      ) {
+        updatePrice(item.cartItemId, change.currentAmount);
+      }
+    }
+
+    // Fees and dates depend on the cart, so have the customer pick fulfillment again
+    setFulfillmentSelection(null);
+    setFulfillmentKey((key) => key + 1);
+    setCartChanges(changes);
+  }
+
   function formatPrice(cents: number) {
     return `$${(cents / 100).toFixed(2)}`;
   }
@@ -114,7 +161,7 @@ export default function CheckoutPage() {
       return;
     }
 
-    // Don't submit form if using Web Payments (handled by SquarePaymentForm component)
+    // Don't submit form if using Web Payments (handled by the payment form component)
     if (useWebPayments) {
       return;
     }
@@ -149,6 +196,12 @@ export default function CheckoutPage() {
     });
 
     if (err) {
+      const cartChanged = parseCartChangedError(err);
+      if (cartChanged) {
+        handleCartChanged(cartChanged);
+        return;
+      }
+
       console.error("Checkout error:", err);
       return;
     }
@@ -484,6 +537,7 @@ export default function CheckoutPage() {
 
           {/* Fulfillment Method Selection - Moved above payment */}
           <FulfillmentMethodSelector
+            key={fulfillmentKey}
             cartItems={items.map((item) => ({
               productId: item.productId,
               quantity: item.quantity,
@@ -494,6 +548,53 @@ export default function CheckoutPage() {
             onSelectionChange={setFulfillmentSelection}
           />
 
+          {cartChanges.length > 0 && (
+            <div className="p-4 bg-amber-50 text-amber-900 rounded-md border border-amber-200">
+              <p className="font-semibold">Your cart was updated</p>
+              <ul className="mt-1 text-sm list-disc list-inside space-y-0.5">
+                {cartChanges.map((change, index) => (
+                  <li key={index}>{change.message}</li>
+                ))}
+              </ul>
+              <p className="mt-2 text-sm">
+                Please review your order and fulfillment details before paying.
+              </p>
+            </div>
+          )}
+
+          {reservation.isExpired ? (
+            <div className="p-4 bg-amber-50 text-amber-900 rounded-md border border-amber-200">
+              <p className="font-semibold">Your hold on these items has expired</p>
+              <p className="mt-1 text-sm">
+                Other customers can buy them now. Hold them again to finish checking out.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                disabled={reservation.isReserving}
+                onClick={() => reservation.renew()}
+              >
+                {reservation.isReserving && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Hold my items again
+              </Button>
+            </div>
+          ) : (
+            reservation.expiresAt && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                <span>Your items are held for</span>
+                <CountdownTimer
+                  endDateTime={reservation.expiresAt}
+                  className="font-semibold text-foreground"
+                />
+              </div>
+            )
+          )}
+
           {/* Payment Information Card */}
           <Card>
             <CardHeader>
@@ -501,47 +602,56 @@ export default function CheckoutPage() {
               <CardDescription>Complete your order securely</CardDescription>
             </CardHeader>
             <CardContent>
-              {isLoadingLoyalty ? (
+              {isLoadingLoyalty || !merchantProvider ? (
                 <div className="flex items-center justify-center py-12">
                   <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
                 </div>
               ) : (
                 <>
-                  {/* Show Square Web Payments form or redirect button */}
+                  {/* Show the Square or Stripe payment form, or the redirect button */}
                   {useWebPayments ? (
-                    <SquarePaymentForm
-                      items={items.map((item) => ({
-                        productId: item.productId,
-                        quantity: item.quantity,
-                        customizations: item.customizations || undefined,
-                        name: item.name,
-                        price: item.price,
-                      }))}
-                      customerEmail={customerEmail}
-                      customerName={customerName}
-                      customerPhone={customerPhone || undefined}
-                      joinLoyalty={joinLoyalty}
-                      smsOptIn={smsOptIn}
-                      userId={currentUser?.id}
-                      streetAddress1={streetAddress1 || undefined}
-                      streetAddress2={streetAddress2 || undefined}
-                      city={city || undefined}
-                      state={state || undefined}
-                      zipCode={zipCode || undefined}
-                      fulfillmentMethod={fulfillmentSelection?.method}
-                      deliveryFee={fulfillmentSelection?.deliveryFee}
-                      deliveryDate={fulfillmentSelection?.deliveryDate}
-                      deliveryZoneId={fulfillmentSelection?.deliveryZoneId}
-                      deliveryTimeWindow={
-                        fulfillmentSelection?.deliveryTimeWindow
-                      }
-                      pickupLocationId={fulfillmentSelection?.pickupLocationId}
-                      pickupDate={fulfillmentSelection?.pickupDate}
-                      pickupTimeWindow={fulfillmentSelection?.pickupTimeWindow}
-                      onSuccess={() => {
-                        clearCart();
-                      }}
-                    />
+                    reservation.isExpired ? (
+                      <p className="text-sm text-muted-foreground">
+                        Hold your items again above to pay.
+                      </p>
+                    ) : (
+                      <PaymentForm
+                        items={items.map((item) => ({
+                          productId: item.productId,
+                          quantity: item.quantity,
+                          customizations: item.customizations || undefined,
+                          name: item.name,
+                          price: item.price,
+                        }))}
+                        customerEmail={customerEmail}
+                        customerName={customerName}
+                        customerPhone={customerPhone || undefined}
+                        joinLoyalty={joinLoyalty}
+                        smsOptIn={smsOptIn}
+                        userId={currentUser?.id}
+                        streetAddress1={streetAddress1 || undefined}
+                        streetAddress2={streetAddress2 || undefined}
+                        city={city || undefined}
+                        state={state || undefined}
+                        zipCode={zipCode || undefined}
+                        fulfillmentMethod={fulfillmentSelection?.method}
+                        deliveryFee={fulfillmentSelection?.deliveryFee}
+                        deliveryDate={fulfillmentSelection?.deliveryDate}
+                        deliveryZoneId={fulfillmentSelection?.deliveryZoneId}
+                        deliveryTimeWindow={
+                          fulfillmentSelection?.deliveryTimeWindow
+                        }
+                        pickupLocationId={fulfillmentSelection?.pickupLocationId}
+                        pickupDate={fulfillmentSelection?.pickupDate}
+                        pickupTimeWindow={fulfillmentSelection?.pickupTimeWindow}
+                        timeSlotStart={fulfillmentSelection?.timeSlotStart}
+                        reservationToken={reservation.reservationToken ?? undefined}
+                        onSuccess={() => {
+                          clearCart();
+                        }}
+                        onCartChanged={handleCartChanged}
+                      />
+                    )
                   ) : (
                     <form onSubmit={handleCheckout}>
                       <Button
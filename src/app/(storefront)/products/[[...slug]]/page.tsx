@@ -110,9 +110,8 @@ export default async function ProductsPage({
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 max-w-7xl mx-auto">
             {products.map((product) => {
               // Check if product is out of stock (considering variants)
-              const hasVariants = product.customizations?.type === "size_variants";
-              const isOutOfStock = hasVariants
-                ? product.customizations.variants.every((v: { quantityAvailable: number }) => v.quantityAvailable <= 0)
+              const isOutOfStock = product.customizations?.type === "size_variants"
+                ? product.customizations.variants.every((v) => v.quantityAvailable <= 0)
                 : product.quantityAvailable <= 0;
 
               return (
@@ -27,6 +27,8 @@ export const getNotificationPreferencesAction = createServerAction()
 
     return {
       preferences,
+      phone: user.phone,
+      phoneVerified: !!user.phoneVerified,
     };
   });
 
@@ -41,6 +43,10 @@ export const updateNotificationPreferencesAction = createServerAction()
       throw new Error("Not authenticated");
     }
 
+    if ((input.preferences.smsDelivery || input.preferences.smsDrops) && !user.phoneVerified) {
+      throw new Error("Verify your phone number in Settings before turning on SMS notifications");
+    }
+
     const db = getDB();
 
     // Update user's notification preferences
@@ -0,0 +1,75 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { getCurrentLoyaltyCustomer } from "../_lib/get-loyalty-customer";
+import { getDB } from "@/db";
+import { userTable } from "@/db/schema";
+import { updateAllSessionsOfUser } from "@/utils/kv-session";
+import {
+  PHONE_VERIFICATION_ERRORS,
+  normalizePhoneNumber,
+  sendPhoneVerificationCode,
+  verifyPhoneCode,
+} from "@/utils/phone-verification";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+async function getCustomerPhone() {
+  const customer = await getCurrentLoyaltyCustomer();
+
+  if (!customer) {
+    throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+  }
+
+  if (customer.phoneVerified) {
+    throw new ZSAError("PRECONDITION_FAILED", "Your phone number is already verified");
+  }
+
+  const phone = customer.phone ? normalizePhoneNumber(customer.phone) : null;
+
+  if (!phone) {
+    throw new ZSAError("PRECONDITION_FAILED", "Save a valid phone number before verifying it");
+  }
+
+  return { customer, phone };
+}
+
+export const sendPhoneVerificationCodeAction = createServerAction()
+  .input(z.object({}))
+  .handler(async () => {
+    const { customer, phone } = await getCustomerPhone();
+
+    return withRateLimit(
+      async () => {
+        const { expiresAt } = await sendPhoneVerificationCode(phone);
+        return { success: true, expiresAt };
+      },
+      { ...RATE_LIMITS.PHONE_VERIFICATION, userIdentifier: customer.id }
+    );
+  });
+
+export const verifyPhoneAction = createServerAction()
+  .input(z.object({
+    code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+  }))
+  .handler(async ({ input }) => {
+    const { customer, phone } = await getCustomerPhone();
+
+    const result = await verifyPhoneCode(phone, input.code);
+
+    if (result !== "verified") {
+      throw new ZSAError("PRECONDITION_FAILED", PHONE_VERIFICATION_ERRORS[result]);
+    }
+
+    const db = getDB();
+
+    await db
+      .update(userTable)
+      .set({ phoneVerified: 1 })
+      .where(eq(userTable.id, customer.id));
+
+    await updateAllSessionsOfUser(customer.id);
+
+    return { success: true };
+  });
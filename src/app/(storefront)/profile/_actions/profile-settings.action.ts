@@ -7,6 +7,9 @@ import { getDB } from "@/db";
 import { userTable } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { updateAllSessionsOfUser } from "@/utils/kv-session";
+import { parseNotificationPreferences } from "@/utils/notifications";
+import { geocodeUserAddress } from "@/utils/geocoding";
+import { normalizePhoneNumber } from "@/utils/phone-verification";
 
 export const getProfileSettingsAction = createServerAction()
   .input(z.object({}))
@@ -22,6 +25,7 @@ export const getProfileSettingsAction = createServerAction()
       lastName: customer.lastName,
       email: customer.email,
       phone: customer.phone,
+      phoneVerified: !!customer.phoneVerified,
       streetAddress1: customer.streetAddress1,
       streetAddress2: customer.streetAddress2,
       city: customer.city,
@@ -48,6 +52,18 @@ export const updateProfileSettingsAction = createServerAction()
       throw new Error("Not authenticated");
     }
 
+    const phone = input.phone?.trim() || null;
+
+    if (phone && !normalizePhoneNumber(phone)) {
+      throw new Error("Please enter a valid phone number");
+    }
+
+    // A new number has to be verified again before we text it
+    const phoneChanged =
+      (phone && normalizePhoneNumber(phone)) !==
+      (customer.phone && normalizePhoneNumber(customer.phone));
+    const preferences = parseNotificationPreferences(customer.notificationPreferences);
+
     const db = getDB();
 
     await db
@@ -55,7 +71,15 @@ export const updateProfileSettingsAction = createServerAction()
       .set({
         firstName: input.firstName,
         lastName: input.lastName,
-        phone: input.phone,
+        phone,
+        ...(phoneChanged && {
+          phoneVerified: 0,
+          notificationPreferences: JSON.stringify({
+            ...preferences,
+            smsDelivery: false,
+            smsDrops: false,
+          }),
+        }),
         streetAddress1: input.streetAddress1,
         streetAddress2: input.streetAddress2,
         city: input.city,
@@ -64,8 +88,18 @@ export const updateProfileSettingsAction = createServerAction()
       })
       .where(eq(userTable.id, customer.id));
 
+    // Best effort: the address is saved either way
+    try {
+      await geocodeUserAddress(customer.id);
+    } catch (error) {
+      console.error("Failed to geocode saved address:", error);
+    }
+
     // Update all sessions with the new user data
     await updateAllSessionsOfUser(customer.id);
 
-    return { success: true };
+    return {
+      success: true,
+      phoneVerificationRequired: !!phone && phoneChanged,
+    };
   });
@@ -17,6 +17,7 @@ import {
   updateNotificationPreferencesAction,
 } from "../_actions/notification-preferences.action";
 import { useServerAction } from "zsa-react";
+import Link from "next/link";
 
 interface NotificationPreferences {
   emailNewFlavors: boolean;
@@ -32,6 +33,7 @@ export default function NotificationsPage() {
     smsDelivery: false,
     smsDrops: false,
   });
+  const [phoneVerified, setPhoneVerified] = useState(false);
 
   const { execute: getPreferences, isPending: isLoading } = useServerAction(
     getNotificationPreferencesAction
@@ -47,6 +49,7 @@ export default function NotificationsPage() {
       const [data] = await getPreferences({});
       if (data?.preferences) {
         setPreferences(data.preferences);
+        setPhoneVerified(data.phoneVerified);
       }
     }
     loadPreferences();
@@ -134,7 +137,7 @@ export default function NotificationsPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>SMS Notifications (coming soon)</CardTitle>
+          <CardTitle>SMS Notifications</CardTitle>
           <CardDescription>
             Receive text messages for order updates and time-sensitive alerts
           </CardDescription>
@@ -152,6 +155,7 @@ export default function NotificationsPage() {
             <Switch
               id="smsDelivery"
               checked={preferences.smsDelivery}
+              disabled={!phoneVerified}
               onCheckedChange={(checked) =>
                 updatePreference("smsDelivery", checked)
               }
@@ -170,16 +174,26 @@ export default function NotificationsPage() {
             <Switch
               id="smsDrops"
               checked={preferences.smsDrops}
+              disabled={!phoneVerified}
               onCheckedChange={(checked) =>
                 updatePreference("smsDrops", checked)
               }
             />
           </div>
 
-          <p className="text-xs text-muted-foreground">
-            Note: SMS notifications require a phone number. Update your phone
-            number in Settings.
-          </p>
+          {!phoneVerified && (
+            <p className="text-xs text-muted-foreground">
+              Note: SMS notifications require a verified phone number. Add and
+              verify your phone number in{" "}
+              <Link
+                href="/profile/settings"
+                className="text-primary underline underline-offset-4 hover:no-underline"
+              >
+                Settings
+              </Link>
+              .
+            </p>
+          )}
         </CardContent>
       </Card>
 
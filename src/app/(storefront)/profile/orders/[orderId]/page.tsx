@@ -24,6 +24,10 @@ import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow, format } from "date-fns";
 import { notFound, redirect } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
+import { getOrderStatusEvents } from "@/utils/order-status-events";
+import { OrderStatusTimeline } from "@/components/order-status-timeline";
+import { getOrderNumber } from "@/utils/order-number";
 
 /**
  * Parse ISO date string for display only.
@@ -107,6 +111,8 @@ export default async function OrderDetailsPage({ params }: Props) {
     .where(eq(orderItemTable.orderId, orderId))
     .all();
 
+  const statusEvents = await getOrderStatusEvents(orderId);
+
   // Fetch pickup location if this is a pickup order
   let pickupLocation = null;
   if (order.pickupLocationId) {
@@ -162,7 +168,7 @@ export default async function OrderDetailsPage({ params }: Props) {
         <div className="flex items-start justify-between mb-2">
           <div>
             <h1 className="text-3xl font-display font-bold">
-              Order #{order.id.substring(4, 12).toUpperCase()}
+              Order #{getOrderNumber(order.id)}
             </h1>
             <p className="text-muted-foreground flex items-center gap-2 mt-1">
               <CalendarIcon className="h-4 w-4" />
@@ -259,6 +265,22 @@ export default async function OrderDetailsPage({ params }: Props) {
               );
             })}
           </div>
+
+          {statusEvents.length > 0 && (
+            <div className="mt-6 border-t pt-6">
+              <p className="text-sm font-medium mb-3">History</p>
+              <OrderStatusTimeline events={statusEvents} />
+            </div>
+          )}
+
+          {order.trackingToken && (
+            <Link
+              href={`/track/${order.trackingToken}`}
+              className="mt-4 inline-block text-sm font-medium text-primary hover:underline"
+            >
+              Live tracking page →
+            </Link>
+          )}
         </CardContent>
       </Card>
 
@@ -22,6 +22,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
+import { getOrderNumber } from "@/utils/order-number";
 
 // Disable caching - always fetch fresh order data
 export const dynamic = "force-dynamic";
@@ -124,7 +125,7 @@ export default async function OrdersPage() {
                   <div className="flex items-start justify-between">
                     <div>
                       <CardTitle className="text-lg">
-                        Order #{order.id.substring(4, 12).toUpperCase()}
+                        Order #{getOrderNumber(order.id)}
                       </CardTitle>
                       <CardDescription>
                         Placed{" "}
@@ -11,11 +11,15 @@ import {
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2 } from "lucide-react";
+import { CheckCircle, Loader2 } from "lucide-react";
 import {
   getProfileSettingsAction,
   updateProfileSettingsAction,
 } from "../_actions/profile-settings.action";
+import {
+  sendPhoneVerificationCodeAction,
+  verifyPhoneAction,
+} from "../_actions/phone-verification.action";
 import { useServerAction } from "zsa-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import type { Route } from "next";
@@ -30,6 +34,10 @@ export default function SettingsPage() {
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
+  const [savedPhone, setSavedPhone] = useState("");
+  const [phoneVerified, setPhoneVerified] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationCode, setVerificationCode] = useState("");
   const [streetAddress1, setStreetAddress1] = useState("");
   const [streetAddress2, setStreetAddress2] = useState("");
   const [city, setCity] = useState("");
@@ -44,6 +52,12 @@ export default function SettingsPage() {
     isPending: isUpdating,
     error,
   } = useServerAction(updateProfileSettingsAction);
+  const { execute: sendCode, isPending: isSendingCode } = useServerAction(
+    sendPhoneVerificationCodeAction
+  );
+  const { execute: verifyPhone, isPending: isVerifying } = useServerAction(
+    verifyPhoneAction
+  );
 
   useEffect(() => {
     async function loadSettings() {
@@ -53,6 +67,8 @@ export default function SettingsPage() {
         setLastName(data.lastName || "");
         setEmail(data.email || "");
         setPhone(data.phone || "");
+        setSavedPhone(data.phone || "");
+        setPhoneVerified(data.phoneVerified);
         setStreetAddress1(data.streetAddress1 || "");
         setStreetAddress2(data.streetAddress2 || "");
         setCity(data.city || "");
@@ -66,7 +82,7 @@ export default function SettingsPage() {
   async function handleSave(e: React.FormEvent) {
     e.preventDefault();
 
-    const [, err] = await updateSettings({
+    const [data, err] = await updateSettings({
       firstName,
       lastName,
       phone: phone || null,
@@ -79,6 +95,15 @@ export default function SettingsPage() {
 
     if (!err) {
       toast.success("Settings saved successfully!");
+      if (phone !== savedPhone) {
+        setSavedPhone(phone);
+        setCodeSent(false);
+        setVerificationCode("");
+      }
+      if (data.phoneVerificationRequired) {
+        setPhoneVerified(false);
+        toast.info("Verify your new phone number to receive SMS notifications");
+      }
       if (callbackUrl) {
         // Redirect back to callback URL with a timestamp to trigger refresh
         const separator = callbackUrl.includes("?") ? "&" : "?";
@@ -87,6 +112,32 @@ export default function SettingsPage() {
     }
   }
 
+  async function handleSendCode() {
+    const [, err] = await sendCode({});
+
+    if (err) {
+      toast.error(err.message || "Failed to send verification code");
+      return;
+    }
+
+    setCodeSent(true);
+    toast.success("Verification code sent");
+  }
+
+  async function handleVerify() {
+    const [, err] = await verifyPhone({ code: verificationCode });
+
+    if (err) {
+      toast.error(err.message || "Failed to verify phone number");
+      return;
+    }
+
+    setPhoneVerified(true);
+    setCodeSent(false);
+    setVerificationCode("");
+    toast.success("Phone number verified!");
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -169,6 +220,69 @@ export default function SettingsPage() {
                 Used for SMS notifications. You can manage SMS preferences in
                 the Notifications tab.
               </p>
+
+              {phone && phone === savedPhone && phoneVerified && (
+                <p className="flex items-center gap-1 text-xs text-green-600">
+                  <CheckCircle className="h-3 w-3" />
+                  Verified
+                </p>
+              )}
+
+              {phone && phone !== savedPhone && (
+                <p className="text-xs text-amber-600">
+                  Save your changes, then verify this number to get SMS
+                  notifications.
+                </p>
+              )}
+
+              {phone && phone === savedPhone && !phoneVerified && (
+                <div className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {codeSent
+                        ? "Enter the 6-digit code we texted you"
+                        : "This number isn't verified yet"}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSendCode}
+                      disabled={isSendingCode}
+                    >
+                      {isSendingCode && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      {codeSent ? "Resend" : "Send Code"}
+                    </Button>
+                  </div>
+                  {codeSent && (
+                    <div className="flex gap-2">
+                      <Input
+                        id="phoneVerificationCode"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        maxLength={6}
+                        placeholder="123456"
+                        value={verificationCode}
+                        onChange={(e) =>
+                          setVerificationCode(e.target.value.replace(/\D/g, ""))
+                        }
+                      />
+                      <Button
+                        type="button"
+                        onClick={handleVerify}
+                        disabled={isVerifying || verificationCode.length !== 6}
+                      >
+                        {isVerifying && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Verify
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="pt-4 border-t">
@@ -44,8 +44,9 @@ export function LoyaltySignupCTA({ customerEmail, customerName }: Props) {
       notificationPreferences: {
         emailNewFlavors: true,
         emailDrops: true,
-        smsDelivery: phone ? true : false,
-        smsDrops: phone ? true : false,
+        // SMS stays off until the number is verified in profile settings
+        smsDelivery: false,
+        smsDrops: false,
       },
     });
 
@@ -131,7 +132,8 @@ export function LoyaltySignupCTA({ customerEmail, customerName }: Props) {
               />
             </div>
             <p className="text-xs text-muted-foreground">
-              Get SMS order updates and drop notifications
+              Verify it in your profile to get SMS order updates and drop
+              notifications
             </p>
           </div>
 
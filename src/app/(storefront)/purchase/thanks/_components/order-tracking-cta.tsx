@@ -10,6 +10,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Package, LogIn, UserPlus } from "lucide-react";
+import { getOrderNumber } from "@/utils/order-number";
 
 type Props = {
 	orderId: string;
@@ -23,7 +24,7 @@ export function OrderTrackingCTA({
 	emailExistsInDatabase,
 }: Props) {
 	// Extract short order number for display
-	const orderNumber = orderId.substring(4, 12).toUpperCase();
+	const orderNumber = getOrderNumber(orderId);
 
 	// Create callback URL for after login/signup
 	const callbackUrl = `/profile/orders/${orderId}`;
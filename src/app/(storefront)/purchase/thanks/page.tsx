@@ -14,7 +14,7 @@ import {
   PAYMENT_STATUS_COLORS,
 } from "@/db/schema";
 import { eq, sql } from "drizzle-orm";
-import { CheckCircle2 } from "lucide-react";
+import { CheckCircle2, Truck } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -24,9 +24,13 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { OrderTrackingCTA } from "./_components/order-tracking-cta";
 import { getSessionFromCookie } from "@/utils/auth";
+import { getMerchantProvider } from "@/lib/merchant-provider/factory";
+import type { StripeFetchProvider } from "@/lib/merchant-provider/providers/stripe-fetch";
+import { getOrderNumber } from "@/utils/order-number";
 
 // Disable caching - always fetch fresh order data
 export const dynamic = "force-dynamic";
@@ -96,13 +100,23 @@ async function getOrderFromSession(
     };
   }
 
+  // For Stripe Checkout, the session points at the payment the webhook stores
+  const stripePaymentIntentId = provider === "stripe" && sessionId
+    ? await ((await getMerchantProvider("stripe")) as StripeFetchProvider)
+      .getCheckoutSessionPaymentId(sessionId)
+    : null;
+
   // For Square webhook-based flow, fetch the most recent order
   // Try to find order by looking for recent Square orders
   // Since Square webhooks are async, we might need to wait a bit
   const [order] = await db
     .select()
     .from(orderTable)
-    .where(eq(orderTable.merchantProvider, "square"))
+    .where(
+      provider === "stripe"
+        ? eq(orderTable.paymentIntentId, stripePaymentIntentId ?? "")
+        : eq(orderTable.merchantProvider, "square")
+    )
     .orderBy(sql`${orderTable.createdAt} DESC`)
     .limit(1);
 
@@ -169,6 +183,15 @@ async function OrderDetails({
   const currentSession = await getSessionFromCookie();
   const isLoggedIn = !!currentSession;
 
+  // The tracking link is a secret, and this page can be opened with just an
+  // order number. Only show it to the signed-in owner or to the shopper
+  // returning from their own Stripe Checkout session; guests get it by email.
+  const ownsOrder = !!order && isLoggedIn && (
+    order.userId === currentSession.user.id ||
+    currentSession.user.email?.toLowerCase() === order.customerEmail.toLowerCase()
+  );
+  const canFollowOrder = ownsOrder || (provider === "stripe" && !!sessionId);
+
   // If user is logged in and order exists and order has no userId, link it automatically
   if (
     isLoggedIn &&
@@ -274,7 +297,7 @@ async function OrderDetails({
           <CardDescription>
             {orderId === "Processing..."
               ? orderId
-              : `Order #${orderId.substring(4, 12).toUpperCase()}`}
+              : `Order #${getOrderNumber(orderId)}`}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -397,6 +420,17 @@ async function OrderDetails({
         </CardContent>
       </Card>
 
+      {canFollowOrder && order.trackingToken && (
+        <div className="mt-6">
+          <Button asChild className="w-full" size="lg" variant="outline">
+            <Link href={`/track/${order.trackingToken}`}>
+              <Truck className="mr-2 h-4 w-4" />
+              Follow Your Order Live
+            </Link>
+          </Button>
+        </div>
+      )}
+
       {!isLoggedIn && customerEmail && order && (
         <div className="mt-6">
           <OrderTrackingCTA
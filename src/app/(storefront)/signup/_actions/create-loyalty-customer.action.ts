@@ -8,12 +8,18 @@ import { eq } from "drizzle-orm";
 import { createMagicLinkToken } from "@/utils/auth";
 import { sendMagicLinkEmail } from "@/utils/email";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import {
+  PHONE_VERIFICATION_ERRORS,
+  normalizePhoneNumber,
+  verifyPhoneCode,
+} from "@/utils/phone-verification";
 
 const createUserSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   phone: z.string().optional(),
+  phoneVerificationCode: z.string().optional(), // Code texted to `phone`, required for SMS notifications
   orderId: z.string().optional(), // Order ID to link after signup
   notificationPreferences: z.object({
     emailNewFlavors: z.boolean().default(true),
@@ -40,13 +46,36 @@ export const createUserAction = createServerAction()
       throw new Error("An account with this email already exists. Please login instead.");
     }
 
+    const phone = input.phone?.trim() || null;
+
+    if (phone && !normalizePhoneNumber(phone)) {
+      throw new Error("Please enter a valid phone number");
+    }
+
+    // Only numbers proven with a texted code can receive SMS
+    let phoneVerified = false;
+    if (phone && input.phoneVerificationCode) {
+      const result = await verifyPhoneCode(normalizePhoneNumber(phone)!, input.phoneVerificationCode);
+
+      if (result !== "verified") {
+        throw new Error(PHONE_VERIFICATION_ERRORS[result]);
+      }
+
+      phoneVerified = true;
+    }
+
     // Create user
-    const notificationPrefs = input.notificationPreferences || {
+    const requestedPrefs = input.notificationPreferences || {
       emailNewFlavors: true,
       emailDrops: true,
       smsDelivery: false,
       smsDrops: false,
     };
+    const notificationPrefs = {
+      ...requestedPrefs,
+      smsDelivery: phoneVerified && requestedPrefs.smsDelivery,
+      smsDrops: phoneVerified && requestedPrefs.smsDrops,
+    };
 
     const [user] = await db
       .insert(userTable)
@@ -54,9 +83,9 @@ export const createUserAction = createServerAction()
         email: input.email.toLowerCase(),
         firstName: input.firstName,
         lastName: input.lastName,
-        phone: input.phone || null,
+        phone,
         emailVerified: null,
-        phoneVerified: 0,
+        phoneVerified: phoneVerified ? 1 : 0,
         role: "user",
         notificationPreferences: JSON.stringify(notificationPrefs),
       })
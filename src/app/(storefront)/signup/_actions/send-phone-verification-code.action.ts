@@ -0,0 +1,56 @@
+"use server";
+
+import { z } from "zod";
+import { createServerAction, ZSAError } from "zsa";
+import {
+  isSupportedPhoneCountry,
+  normalizePhoneNumber,
+  sendPhoneVerificationCode,
+} from "@/utils/phone-verification";
+import { validateTurnstileToken } from "@/utils/validate-captcha";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { catchaSchema } from "@/schemas/catcha.schema";
+import { isTurnstileEnabled } from "@/flags";
+
+/**
+ * Text a verification code during signup, before the account exists.
+ * Requires the captcha and is limited per IP and per phone number so it
+ * can't be used to spam someone.
+ */
+export const sendSignupPhoneVerificationCodeAction = createServerAction()
+  .input(z.object({
+    phone: z.string().min(1, "Enter a phone number"),
+    captchaToken: catchaSchema,
+  }))
+  .handler(async ({ input }) => {
+    const phone = normalizePhoneNumber(input.phone);
+
+    if (!phone) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "Please enter a valid phone number");
+    }
+
+    if (!isSupportedPhoneCountry(phone)) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "We can only text US and Canadian phone numbers");
+    }
+
+    return withRateLimit(
+      async () => {
+        if (await isTurnstileEnabled()) {
+          const success = input.captchaToken && await validateTurnstileToken(input.captchaToken);
+
+          if (!success) {
+            throw new ZSAError("INPUT_PARSE_ERROR", "Please complete the captcha");
+          }
+        }
+
+        return withRateLimit(
+          async () => {
+            const { expiresAt } = await sendPhoneVerificationCode(phone);
+            return { success: true, expiresAt };
+          },
+          { ...RATE_LIMITS.PHONE_VERIFICATION, userIdentifier: phone }
+        );
+      },
+      RATE_LIMITS.PHONE_VERIFICATION
+    );
+  });
@@ -12,11 +12,15 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Mail, CheckCircle, User, Phone } from "lucide-react";
+import { Mail, CheckCircle, User, Phone, Loader2 } from "lucide-react";
 import { createLoyaltyCustomerAction } from "./_actions/create-loyalty-customer.action";
+import { sendSignupPhoneVerificationCodeAction } from "./_actions/send-phone-verification-code.action";
 import { useServerAction } from "zsa-react";
+import { Captcha } from "@/components/captcha";
+import { useConfigStore } from "@/state/config";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
+import { toast } from "sonner";
 
 export default function SignupPage() {
   const searchParams = useSearchParams();
@@ -34,6 +38,12 @@ export default function SignupPage() {
     smsDrops: false,
   });
   const [submitted, setSubmitted] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationCode, setVerificationCode] = useState("");
+  // Turnstile tokens are single use, so the widget is remounted after each send
+  const [captchaToken, setCaptchaToken] = useState("");
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const { isTurnstileEnabled } = useConfigStore();
 
   // Update email if it changes in URL
   useEffect(() => {
@@ -45,15 +55,48 @@ export default function SignupPage() {
   const { execute, isPending, error } = useServerAction(
     createLoyaltyCustomerAction
   );
+  const { execute: sendCode, isPending: isSendingCode } = useServerAction(
+    sendSignupPhoneVerificationCodeAction
+  );
+
+  const wantsSms = formData.smsDelivery || formData.smsDrops;
+
+  function handlePhoneChange(phone: string) {
+    // A code only proves the number it was sent to
+    setFormData({ ...formData, phone, smsDelivery: false, smsDrops: false });
+    setCodeSent(false);
+    setVerificationCode("");
+  }
+
+  async function handleSendCode() {
+    const [, err] = await sendCode({ phone: formData.phone, captchaToken });
+
+    setCaptchaToken("");
+    setCaptchaKey((key) => key + 1);
+
+    if (err) {
+      toast.error(err.message || "Failed to send verification code");
+      return;
+    }
+
+    setCodeSent(true);
+    toast.success("Verification code sent");
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
+    if (wantsSms && !verificationCode) {
+      toast.error("Verify your phone number to get SMS notifications");
+      return;
+    }
+
     const [, err] = await execute({
       email: formData.email,
       firstName: formData.firstName,
       lastName: formData.lastName,
       phone: formData.phone || undefined,
+      phoneVerificationCode: verificationCode || undefined,
       orderId: orderIdParam || undefined,
       notificationPreferences: {
         emailNewFlavors: formData.emailNewFlavors,
@@ -189,9 +232,7 @@ export default function SignupPage() {
                     type="tel"
                     placeholder="(208) 555-0123"
                     value={formData.phone}
-                    onChange={(e) =>
-                      setFormData({ ...formData, phone: e.target.value })
-                    }
+                    onChange={(e) => handlePhoneChange(e.target.value)}
                     className="pl-9"
                   />
                 </div>
@@ -200,6 +241,44 @@ export default function SignupPage() {
                 </p>
               </div>
 
+              {formData.phone && (
+                <div className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {codeSent
+                        ? "Enter the 6-digit code we texted you"
+                        : "Verify your number to turn on SMS notifications"}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSendCode}
+                      disabled={isSendingCode || Boolean(isTurnstileEnabled && !captchaToken)}
+                    >
+                      {isSendingCode && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      {codeSent ? "Resend" : "Send Code"}
+                    </Button>
+                  </div>
+                  <Captcha key={captchaKey} onSuccess={setCaptchaToken} />
+                  {codeSent && (
+                    <Input
+                      id="phoneVerificationCode"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={verificationCode}
+                      onChange={(e) =>
+                        setVerificationCode(e.target.value.replace(/\D/g, ""))
+                      }
+                    />
+                  )}
+                </div>
+              )}
+
               <div className="space-y-3 pt-2">
                 <Label className="text-sm font-medium">
                   Notification Preferences
@@ -254,6 +333,7 @@ export default function SignupPage() {
                         <Checkbox
                           id="smsDelivery"
                           checked={formData.smsDelivery}
+                          disabled={!codeSent}
                           onCheckedChange={(checked) =>
                             setFormData({
                               ...formData,
@@ -266,7 +346,7 @@ export default function SignupPage() {
                             htmlFor="smsDelivery"
                             className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                           >
-                            SMS me delivery updates (coming soon)
+                            SMS me delivery updates
                           </label>
                         </div>
                       </div>
@@ -275,6 +355,7 @@ export default function SignupPage() {
                         <Checkbox
                           id="smsDrops"
                           checked={formData.smsDrops}
+                          disabled={!codeSent}
                           onCheckedChange={(checked) =>
                             setFormData({
                               ...formData,
@@ -287,7 +368,7 @@ export default function SignupPage() {
                             htmlFor="smsDrops"
                             className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                           >
-                            SMS me about product drops (coming soon)
+                            SMS me about product drops
                           </label>
                         </div>
                       </div>
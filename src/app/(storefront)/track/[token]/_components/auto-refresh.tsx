@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Re-fetches the tracking page every minute, and straight away when the
+ * customer comes back to the tab, so status changes show up on their own
+ */
+export function AutoRefresh({ enabled }: { enabled: boolean }) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        router.refresh();
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        router.refresh();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [enabled, router]);
+
+  return null;
+}
@@ -0,0 +1,232 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import {
+  CheckCircle2Icon,
+  ChefHatIcon,
+  ClockIcon,
+  MapPinIcon,
+  PackageIcon,
+  TruckIcon,
+  XCircleIcon,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getOrderTracking, type TrackingStep } from "@/utils/order-tracking";
+import { formatDateTime } from "@/utils/format-date";
+import { AutoRefresh } from "./_components/auto-refresh";
+
+export const metadata: Metadata = {
+  title: "Track Your Order",
+  description: "Follow your Sweet Angel Bakery order",
+  // Tracking links are private to whoever received them
+  robots: { index: false, follow: false },
+};
+
+// Always show the latest statuses
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const STEP_ICONS: Record<string, typeof PackageIcon> = {
+  placed: PackageIcon,
+  confirmed: CheckCircle2Icon,
+  baking: ChefHatIcon,
+  on_the_way: TruckIcon,
+  ready: MapPinIcon,
+  delivered: CheckCircle2Icon,
+  picked_up: CheckCircle2Icon,
+};
+
+function formatFulfillmentDate(date: string): string {
+  return format(parseISO(date.substring(0, 10)), "EEEE, MMMM d");
+}
+
+function StepIcon({ step }: { step: TrackingStep }) {
+  const Icon = step.state === "failed" ? XCircleIcon : STEP_ICONS[step.key] ?? PackageIcon;
+
+  return (
+    <div
+      className={`rounded-full p-2 shrink-0 ${
+        step.state === "failed"
+          ? "bg-red-100 text-red-600 dark:bg-red-950 dark:text-red-400"
+          : step.state === "current"
+            ? "bg-primary text-primary-foreground ring-4 ring-primary/20"
+            : step.state === "done"
+              ? "bg-primary text-primary-foreground"
+              : "bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500"
+      }`}
+    >
+      <Icon className="h-5 w-5" />
+    </div>
+  );
+}
+
+interface Props {
+  params: Promise<{ token: string }>;
+}
+
+export default async function TrackOrderPage({ params }: Props) {
+  const { token } = await params;
+  const tracking = await getOrderTracking(token);
+
+  if (!tracking) {
+    notFound();
+  }
+
+  const isDelivery = tracking.fulfillmentMethod === "delivery";
+  const { routeProgress } = tracking;
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12 px-4 space-y-6">
+      <AutoRefresh enabled={!tracking.isFinished} />
+
+      <div>
+        <h1 className="text-3xl font-display font-bold">
+          Order #{tracking.orderNumber}
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Hi {tracking.customerName.split(" ")[0]}, here&apos;s where your order is.
+        </p>
+      </div>
+
+      {tracking.isCancelled ? (
+        <Card className="border-red-200 dark:border-red-800">
+          <CardContent className="pt-6 flex items-center gap-3">
+            <XCircleIcon className="h-6 w-6 text-red-600 shrink-0" />
+            <p>This order was cancelled. Contact us if you have any questions.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {(tracking.eta || routeProgress) && (
+            <Card className="bg-primary/5 border-primary/20">
+              <CardContent className="pt-6 space-y-3">
+                {tracking.eta && (
+                  <div className="flex items-center gap-3">
+                    <ClockIcon className="h-5 w-5 text-primary shrink-0" />
+                    <div>
+                      <p className="text-sm text-muted-foreground">Estimated arrival</p>
+                      <p className="text-lg font-semibold">{tracking.eta}</p>
+                    </div>
+                  </div>
+                )}
+                {routeProgress && (
+                  <div className="flex items-center gap-3">
+                    <TruckIcon className="h-5 w-5 text-primary shrink-0" />
+                    <div>
+                      <p className="text-lg font-semibold">
+                        You&apos;re stop {routeProgress.stopNumber} of {routeProgress.totalStops}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {routeProgress.stopsAhead === 0
+                          ? "You're next!"
+                          : `${routeProgress.stopsAhead} ${routeProgress.stopsAhead === 1 ? "stop" : "stops"} before yours`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Order Status</CardTitle>
+              {!tracking.isFinished && (
+                <CardDescription>This page updates automatically</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {tracking.steps.map((step, index) => (
+                  <li key={step.key} className="flex gap-4">
+                    <div className="flex flex-col items-center">
+                      <StepIcon step={step} />
+                      {index < tracking.steps.length - 1 && (
+                        <div
+                          className={`w-0.5 flex-1 mt-2 ${
+                            step.state === "done" ? "bg-primary" : "bg-gray-200 dark:bg-gray-700"
+                          }`}
+                        />
+                      )}
+                    </div>
+                    <div className="pb-2">
+                      <div className="flex items-center gap-2">
+                        <p
+                          className={
+                            step.state === "current" || step.state === "failed"
+                              ? "font-semibold"
+                              : step.state === "done"
+                                ? "font-medium"
+                                : "text-muted-foreground"
+                          }
+                        >
+                          {step.label}
+                        </p>
+                        {step.state === "current" && <Badge variant="secondary">Now</Badge>}
+                      </div>
+                      {step.detail && (
+                        <p className="text-sm text-muted-foreground">{step.detail}</p>
+                      )}
+                      {step.at && (
+                        <p className="text-xs text-muted-foreground">{formatDateTime(step.at)}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{isDelivery ? "Delivery" : "Pickup"} Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {isDelivery ? (
+            tracking.deliveryDate && (
+              <p>
+                <span className="text-muted-foreground">Delivery:</span>{" "}
+                {formatFulfillmentDate(tracking.deliveryDate)}
+                {tracking.deliveryTimeWindow && `, ${tracking.deliveryTimeWindow}`}
+              </p>
+            )
+          ) : (
+            <>
+              {tracking.pickupLocationName && (
+                <p>
+                  <span className="text-muted-foreground">Location:</span>{" "}
+                  {tracking.pickupLocationName}
+                </p>
+              )}
+              {tracking.pickupDate && (
+                <p>
+                  <span className="text-muted-foreground">Pickup:</span>{" "}
+                  {formatFulfillmentDate(tracking.pickupDate)}
+                  {tracking.pickupTimeWindow && `, ${tracking.pickupTimeWindow}`}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="border-t pt-3 space-y-1">
+            {tracking.items.map((item, index) => (
+              <div key={index} className="flex justify-between">
+                <span>{item.productName}</span>
+                <span className="text-muted-foreground">× {item.quantity}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { and, eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { driverTable, orderTable, ROLES_ENUM } from "@/db/schema";
+import { requireDriver } from "@/utils/auth";
+import { uploadProofOfDeliveryPhoto } from "@/utils/upload-image";
+
+/**
+ * Admins can see every order's photo; drivers only the stops on their route
+ */
+async function canAccessOrder(orderId: string): Promise<boolean> {
+  const session = await requireDriver({ doNotThrowError: true });
+
+  if (!session) {
+    return false;
+  }
+
+  if (session.user.role === ROLES_ENUM.ADMIN) {
+    return true;
+  }
+
+  const db = getDB();
+  const [stop] = await db
+    .select({ id: orderTable.id })
+    .from(orderTable)
+    .innerJoin(driverTable, eq(orderTable.deliveryDriverId, driverTable.id))
+    .where(and(
+      eq(orderTable.id, orderId),
+      eq(driverTable.userId, session.user.id)
+    ))
+    .limit(1);
+
+  return !!stop;
+}
+
+// Serves an order's proof of delivery photo from R2
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    if (!(await canAccessOrder(orderId))) {
+      return new NextResponse("Not authorized", { status: 403 });
+    }
+
+    const db = getDB();
+    const [order] = await db
+      .select({ deliveryProofImageKey: orderTable.deliveryProofImageKey })
+      .from(orderTable)
+      .where(eq(orderTable.id, orderId))
+      .limit(1);
+
+    if (!order?.deliveryProofImageKey) {
+      return new NextResponse("Image not found", { status: 404 });
+    }
+
+    const { env } = await getCloudflareContext();
+    const object = await env.PRODUCT_IMAGES.get(order.deliveryProofImageKey);
+
+    if (!object) {
+      return new NextResponse("Image not found", { status: 404 });
+    }
+
+    const headers = new Headers();
+    headers.set("Content-Type", object.httpMetadata?.contentType || "image/jpeg");
+    headers.set("Cache-Control", "private, max-age=3600");
+
+    return new NextResponse(object.body, {
+      headers,
+    });
+  } catch (error) {
+    console.error("Error fetching proof of delivery:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
+
+// Uploads a photo taken at the door; the run sheet saves the returned key
+// on the order when the driver marks the stop delivered
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+
+    if (!(await canAccessOrder(orderId))) {
+      return NextResponse.json(
+        { message: "Not authorized" },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { message: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const key = await uploadProofOfDeliveryPhoto({ file, orderId });
+
+    return NextResponse.json({ key });
+  } catch (error) {
+    console.error("Error uploading proof of delivery:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Failed to upload photo" },
+      { status: 500 }
+    );
+  }
+}
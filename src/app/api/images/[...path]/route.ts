@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { PROOF_OF_DELIVERY_PREFIX } from "@/utils/upload-image";
 
 // This route serves images from R2 storage
 export async function GET(
@@ -11,6 +12,11 @@ export async function GET(
     const { path } = await params;
     const key = path.join("/");
 
+    // Delivery photos are private, see /api/delivery-proof
+    if (key.startsWith(PROOF_OF_DELIVERY_PREFIX)) {
+      return new NextResponse("Image not found", { status: 404 });
+    }
+
     // Get the image from R2
     const object = await env.PRODUCT_IMAGES.get(key);
 
@@ -0,0 +1,63 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { createSmsProvider, isSmsProviderType } from "@/lib/sms-provider/factory";
+import type { SmsWebhookEvent } from "@/lib/sms-provider/types";
+import { handleSmsWebhookEvent } from "@/utils/sms-webhooks";
+
+// Delivery receipts and inbound messages (STOP/HELP) from SMS providers.
+// Each provider posts to its own path, e.g. /api/webhooks/sms/twilio
+async function handleWebhook(
+  req: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerType } = await params;
+
+  if (!isSmsProviderType(providerType)) {
+    return NextResponse.json({ error: "Unknown SMS provider" }, { status: 404 });
+  }
+
+  // Providers sign the public URL, so use x-forwarded-host if available (for ngrok/proxies)
+  const forwardedHost = req.headers.get("x-forwarded-host");
+  const forwardedProto = req.headers.get("x-forwarded-proto") || "https";
+  const webhookUrl = forwardedHost
+    ? `${forwardedProto}://${forwardedHost}${req.nextUrl.pathname}${req.nextUrl.search}`
+    : req.url;
+
+  let events: SmsWebhookEvent[];
+
+  try {
+    const provider = await createSmsProvider(providerType);
+    events = await provider.verifyWebhook({
+      method: req.method,
+      url: webhookUrl,
+      headers: req.headers,
+      body: req.method === "GET" ? "" : await req.text(),
+    });
+  } catch (err) {
+    console.error(`[SMS Webhook] Rejected ${providerType} webhook:`, err);
+    return NextResponse.json({ error: "Webhook verification failed" }, { status: 401 });
+  }
+
+  try {
+    for (const event of events) {
+      await handleSmsWebhookEvent(providerType, event);
+    }
+  } catch (err) {
+    console.error(`[SMS Webhook] Error processing ${providerType} webhook:`, err);
+    return NextResponse.json({ error: "Webhook processing failed" }, { status: 500 });
+  }
+
+  // Twilio expects TwiML; an empty response means "don't reply"
+  if (providerType === "twilio") {
+    return new NextResponse("<Response></Response>", {
+      headers: { "Content-Type": "text/xml" },
+    });
+  }
+
+  return NextResponse.json({ received: true, events: events.length });
+}
+
+export const POST = handleWebhook;
+
+// Vonage can deliver webhooks as GET requests
+export const GET = handleWebhook;
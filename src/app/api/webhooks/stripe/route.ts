@@ -0,0 +1,122 @@
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { getMerchantProvider } from "@/lib/merchant-provider/factory";
+import { WEBHOOK_EVENT_STATUS, WEBHOOK_SIGNATURE_STATUS } from "@/db/schema";
+import { receiveWebhookEvent, recordRejectedWebhook } from "@/utils/webhook-events";
+
+// Stripe webhooks are handled even when Stripe isn't the active provider,
+// so orders taken before switching processors keep receiving updates.
+export async function POST(req: NextRequest) {
+  const body = await req.text();
+  const headersList = await headers();
+  const signature = headersList.get("stripe-signature");
+
+  if (!signature) {
+    await recordRejectedWebhook({
+      provider: "stripe",
+      payload: body,
+      signature: null,
+      signatureStatus: WEBHOOK_SIGNATURE_STATUS.MISSING,
+      error: "Missing stripe-signature header",
+    });
+    return NextResponse.json(
+      { error: "Missing stripe-signature header" },
+      { status: 400 }
+    );
+  }
+
+  if (!process.env.STRIPE_WEBHOOK_SECRET || !process.env.STRIPE_SECRET_KEY) {
+    console.warn("[Stripe Webhook] Stripe is not configured - ignoring webhook");
+    // Return 200 to prevent Stripe from retrying
+    return NextResponse.json(
+      {
+        received: true,
+        processed: false,
+        message: "Webhook secret not configured"
+      },
+      { status: 200 }
+    );
+  }
+
+  try {
+    const provider = await getMerchantProvider("stripe");
+
+    let event;
+    try {
+      event = await provider.verifyWebhook(body, signature);
+    } catch (err) {
+      console.error("[Stripe Webhook] Signature verification failed:", err);
+      await recordRejectedWebhook({
+        provider: provider.name,
+        payload: body,
+        signature,
+        signatureStatus: WEBHOOK_SIGNATURE_STATUS.INVALID,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return NextResponse.json(
+        { error: "Invalid signature" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Stripe Webhook] Handling ${event.type} event (ID: ${event.id})`);
+
+    // Store the event and handle it, unless an earlier delivery already did
+    const { webhookEvent, duplicate, result } = await receiveWebhookEvent({
+      provider,
+      event,
+      payload: body,
+      signature,
+    });
+
+    if (duplicate) {
+      console.log(`[Stripe Webhook] Event ${event.id} already ${webhookEvent.status}, skipping`);
+
+      if (webhookEvent.status === WEBHOOK_EVENT_STATUS.RECEIVED) {
+        return NextResponse.json(
+          { error: "Event is already being processed" },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        received: true,
+        duplicate: true,
+        eventId: event.id,
+        eventType: event.type,
+      });
+    }
+
+    // The handler threw, so let Stripe retry
+    if (!result) {
+      console.error(`[Stripe Webhook] Event ${event.id} failed: ${webhookEvent.result}`);
+      return NextResponse.json(
+        { error: "Webhook processing failed" },
+        { status: 500 }
+      );
+    }
+
+    if (result.processed) {
+      console.log(`[Stripe Webhook] Successfully processed event ${event.id}`);
+      if (result.orderId) {
+        console.log(`[Stripe Webhook] Created/updated order ${result.orderId}`);
+      }
+    } else if (result.error) {
+      console.warn(`[Stripe Webhook] Event ${event.type} not processed: ${result.error}`);
+    }
+
+    return NextResponse.json({
+      received: true,
+      processed: result.processed,
+      eventId: event.id,
+      eventType: event.type,
+    });
+  } catch (err) {
+    console.error("[Stripe Webhook] Error processing webhook:", err);
+    return NextResponse.json(
+      { error: "Webhook processing failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -37,6 +37,69 @@ function parseLocalDate(isoDateString: string): Date {
   return new Date(year, month - 1, day);
 }
 
+interface TimeSlotOption {
+  start: string; // "10:00" - HH:mm format
+  end: string;
+  label: string; // "10:00 AM - 10:30 AM"
+  isFull: boolean;
+}
+
+function TimeSlotPicker({
+  label,
+  slots,
+  value,
+  onChange,
+}: {
+  label: string;
+  slots: TimeSlotOption[];
+  value: string;
+  onChange: (start: string) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-semibold">{label}</Label>
+      <RadioGroup
+        value={value}
+        onValueChange={onChange}
+        className="grid grid-cols-2 sm:grid-cols-3 gap-2"
+      >
+        {slots.map((slot) => (
+          <div
+            key={slot.start}
+            className={`flex items-center gap-2 rounded-md border p-2 transition-colors ${
+              slot.isFull
+                ? "border-muted opacity-60 cursor-not-allowed"
+                : value === slot.start
+                  ? "border-primary bg-primary/5 cursor-pointer"
+                  : "border-muted hover:border-primary/50 cursor-pointer"
+            }`}
+            onClick={() => {
+              if (!slot.isFull) {
+                onChange(slot.start);
+              }
+            }}
+          >
+            <RadioGroupItem
+              value={slot.start}
+              id={`slot-${slot.start}`}
+              disabled={slot.isFull}
+            />
+            <Label
+              htmlFor={`slot-${slot.start}`}
+              className="text-xs cursor-pointer"
+            >
+              {slot.label}
+              {slot.isFull && (
+                <span className="block text-destructive font-semibold">Full</span>
+              )}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
+
 export interface FulfillmentSelection {
   method: "delivery" | "pickup";
   deliveryZipCode?: string;
@@ -48,6 +111,7 @@ export interface FulfillmentSelection {
   pickupDate?: string;
   pickupTimeWindow?: string;
   pickupLocationName?: string;
+  timeSlotStart?: string; // Booked slot, when the date offers slots
 }
 
 interface FulfillmentMethodSelectorProps {
@@ -73,6 +137,7 @@ export function FulfillmentMethodSelector({
   const [selectedPickupLocationId, setSelectedPickupLocationId] =
     useState<string>("");
   const [selectedPickupDate, setSelectedPickupDate] = useState<string>("");
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState<string>("");
   const [deliveryOptions, setDeliveryOptions] = useState<{
     available: boolean;
     deliveryDates: Array<{
@@ -81,8 +146,11 @@ export function FulfillmentMethodSelector({
       timeWindow: string;
       dayOfWeek: number;
       scheduleName: string;
+      isFull: boolean; // Production capacity can't take this cart, or every slot is booked
+      timeSlots: TimeSlotOption[];
     }>;
     feeAmount: number;
+    feeAdjustments: Array<{ reason: string; amount: number }>;
     zoneName: string | null;
     zoneId: string | null;
   } | null>(null);
@@ -97,6 +165,8 @@ export function FulfillmentMethodSelector({
         pickupDate: string;
         cutoffDate: string;
         pickupTimeWindow: string;
+        isFull: boolean;
+        timeSlots: TimeSlotOption[];
       }>;
     }>;
   } | null>(null);
@@ -116,9 +186,10 @@ export function FulfillmentMethodSelector({
         if (data.locations?.length > 0) {
           const firstLocation = data.locations[0];
           setSelectedPickupLocationId(firstLocation.id);
-          // Auto-select first pickup date for first location
-          if (firstLocation.pickupDates?.length > 0) {
-            setSelectedPickupDate(firstLocation.pickupDates[0].pickupDate);
+          // Auto-select first bookable pickup date for first location
+          const firstOpenDate = firstLocation.pickupDates?.find((d) => !d.isFull);
+          if (firstOpenDate) {
+            setSelectedPickupDate(firstOpenDate.pickupDate);
           }
         }
       }
@@ -134,7 +205,13 @@ export function FulfillmentMethodSelector({
     }
   }, [deliveryZipCode, isPreviewMode]);
 
-  // Load delivery options when ZIP code changes
+  // Fee rules can depend on the cart total (e.g. free delivery thresholds)
+  const cartSubtotal = cartItems.reduce(
+    (sum, item) => sum + item.price * item.quantity,
+    0
+  );
+
+  // Load delivery options when ZIP code or cart total changes
   useEffect(() => {
     async function loadDeliveryOptions() {
       const activeZip = isPreviewMode ? previewZipCode : deliveryZipCode;
@@ -148,13 +225,13 @@ export function FulfillmentMethodSelector({
         console.log('[FulfillmentSelector] Delivery options received:', data);
         if (data) {
           setDeliveryOptions(data);
-          // Auto-select first delivery date if available
-          if (
-            data.deliveryDates &&
-            data.deliveryDates.length > 0 &&
-            !selectedDeliveryDate
-          ) {
-            setSelectedDeliveryDate(data.deliveryDates[0].deliveryDate);
+          // Auto-select first bookable delivery date, or move off one that filled up
+          const firstOpenDate = data.deliveryDates?.find((d) => !d.isFull);
+          const selectedOption = data.deliveryDates?.find(
+            (d) => d.deliveryDate === selectedDeliveryDate
+          );
+          if (!selectedOption || selectedOption.isFull) {
+            setSelectedDeliveryDate(firstOpenDate?.deliveryDate ?? "");
           }
         }
       }
@@ -164,10 +241,41 @@ export function FulfillmentMethodSelector({
       loadDeliveryOptions();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [previewZipCode, deliveryZipCode, method, isPreviewMode]);
+  }, [previewZipCode, deliveryZipCode, method, isPreviewMode, cartSubtotal]);
+
+  // Slots offered for the selected date, if it has any
+  const selectedDateSlots: TimeSlotOption[] =
+    (method === "delivery"
+      ? deliveryOptions?.deliveryDates.find(
+        (d) => d.deliveryDate === selectedDeliveryDate
+      )?.timeSlots
+      : pickupOptions?.locations
+        .find((loc) => loc.id === selectedPickupLocationId)
+        ?.pickupDates.find((d) => d.pickupDate === selectedPickupDate)
+        ?.timeSlots) ?? [];
+
+  // Auto-select the first open slot, or move off one that filled up
+  useEffect(() => {
+    const selectedSlot = selectedDateSlots.find((slot) => slot.start === selectedTimeSlot);
+    if (!selectedSlot || selectedSlot.isFull) {
+      setSelectedTimeSlot(selectedDateSlots.find((slot) => !slot.isFull)?.start ?? "");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    method,
+    selectedDeliveryDate,
+    selectedPickupLocationId,
+    selectedPickupDate,
+    deliveryOptions,
+    pickupOptions,
+  ]);
 
   // Notify parent of selection changes
   useEffect(() => {
+    const selectedSlot = selectedDateSlots.find((slot) => slot.start === selectedTimeSlot);
+    // Dates with slots can't be booked without one
+    const isSlotMissing = selectedDateSlots.length > 0 && !selectedSlot;
+
     const activeZip = isPreviewMode ? previewZipCode : deliveryZipCode;
 
     if (
@@ -175,7 +283,8 @@ export function FulfillmentMethodSelector({
       activeZip &&
       activeZip.length >= 5 &&
       deliveryOptions?.available &&
-      selectedDeliveryDate
+      selectedDeliveryDate &&
+      !isSlotMissing
     ) {
       // Find the selected delivery date details
       const selectedDateOption = deliveryOptions.deliveryDates.find(
@@ -188,13 +297,15 @@ export function FulfillmentMethodSelector({
         deliveryFee: deliveryOptions.feeAmount,
         deliveryDate: selectedDeliveryDate,
         deliveryZoneId: deliveryOptions.zoneId || undefined,
-        deliveryTimeWindow: selectedDateOption?.timeWindow || undefined,
+        deliveryTimeWindow: selectedSlot?.label || selectedDateOption?.timeWindow || undefined,
+        timeSlotStart: selectedSlot?.start,
       });
     } else if (
       method === "pickup" &&
       selectedPickupLocationId &&
       selectedPickupDate &&
-      pickupOptions?.available
+      pickupOptions?.available &&
+      !isSlotMissing
     ) {
       const selectedLocation = pickupOptions.locations.find(
         (loc) => loc.id === selectedPickupLocationId
@@ -206,8 +317,9 @@ export function FulfillmentMethodSelector({
         method: "pickup",
         pickupLocationId: selectedPickupLocationId,
         pickupDate: selectedPickupDate,
-        pickupTimeWindow: selectedDateOption?.pickupTimeWindow,
+        pickupTimeWindow: selectedSlot?.label || selectedDateOption?.pickupTimeWindow,
         pickupLocationName: selectedLocation?.name,
+        timeSlotStart: selectedSlot?.start,
         deliveryFee: 0, // Pickup is always free
       });
     } else {
@@ -221,6 +333,7 @@ export function FulfillmentMethodSelector({
     selectedDeliveryDate,
     selectedPickupLocationId,
     selectedPickupDate,
+    selectedTimeSlot,
     deliveryOptions,
     pickupOptions,
     isPreviewMode,
@@ -328,22 +441,27 @@ export function FulfillmentMethodSelector({
                                   (dateOption) => (
                                     <div
                                       key={dateOption.deliveryDate}
-                                      className={`rounded-md border p-3 cursor-pointer transition-colors ${
-                                        selectedDeliveryDate ===
-                                        dateOption.deliveryDate
-                                          ? "border-primary bg-primary/5"
-                                          : "border-muted hover:border-primary/50"
+                                      className={`rounded-md border p-3 transition-colors ${
+                                        dateOption.isFull
+                                          ? "border-muted opacity-60 cursor-not-allowed"
+                                          : selectedDeliveryDate ===
+                                            dateOption.deliveryDate
+                                            ? "border-primary bg-primary/5 cursor-pointer"
+                                            : "border-muted hover:border-primary/50 cursor-pointer"
                                       }`}
-                                      onClick={() =>
-                                        setSelectedDeliveryDate(
-                                          dateOption.deliveryDate
-                                        )
-                                      }
+                                      onClick={() => {
+                                        if (!dateOption.isFull) {
+                                          setSelectedDeliveryDate(
+                                            dateOption.deliveryDate
+                                          );
+                                        }
+                                      }}
                                     >
                                       <div className="flex items-start gap-2">
                                         <RadioGroupItem
                                           value={dateOption.deliveryDate}
                                           id={dateOption.deliveryDate}
+                                          disabled={dateOption.isFull}
                                           className="mt-0.5"
                                         />
                                         <div className="flex-1 space-y-1">
@@ -359,6 +477,11 @@ export function FulfillmentMethodSelector({
                                                 "EEEE, MMMM d"
                                               )}
                                             </Label>
+                                            {dateOption.isFull && (
+                                              <span className="text-xs font-semibold text-destructive">
+                                                Fully booked
+                                              </span>
+                                            )}
                                           </div>
                                           {dateOption.timeWindow && (
                                             <div className="text-xs text-muted-foreground">
@@ -380,6 +503,16 @@ export function FulfillmentMethodSelector({
                               </RadioGroup>
                             </div>
 
+                            {/* Delivery Time Slot Selection */}
+                            {selectedDateSlots.length > 0 && (
+                              <TimeSlotPicker
+                                label="Choose Delivery Time:"
+                                slots={selectedDateSlots}
+                                value={selectedTimeSlot}
+                                onChange={setSelectedTimeSlot}
+                              />
+                            )}
+
                             {/* Delivery Fee Display */}
                             <div className="rounded-md bg-muted/50 p-3 space-y-2 text-sm">
                               <div className="flex justify-between">
@@ -392,6 +525,28 @@ export function FulfillmentMethodSelector({
                                     : "FREE"}
                                 </span>
                               </div>
+                              {deliveryOptions.feeAdjustments.length > 0 && (
+                                <ul className="text-xs space-y-1">
+                                  {deliveryOptions.feeAdjustments.map((adjustment) => (
+                                    <li
+                                      key={adjustment.reason}
+                                      className={`flex justify-between ${
+                                        adjustment.amount > 0
+                                          ? "text-muted-foreground"
+                                          : "text-green-700 dark:text-green-400"
+                                      }`}
+                                    >
+                                      <span>{adjustment.reason}</span>
+                                      {adjustment.amount !== 0 && (
+                                        <span>
+                                          {adjustment.amount < 0 ? "-" : "+"}
+                                          {formatCents(Math.abs(adjustment.amount))}
+                                        </span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
                               {deliveryOptions.zoneName && (
                                 <div className="text-xs text-muted-foreground pt-1 border-t">
                                   {deliveryOptions.zoneName}
@@ -465,11 +620,8 @@ export function FulfillmentMethodSelector({
                               const location = pickupOptions.locations.find(
                                 (loc) => loc.id === locationId
                               );
-                              if (location && location.pickupDates && location.pickupDates.length > 0) {
-                                setSelectedPickupDate(
-                                  location.pickupDates[0].pickupDate
-                                );
-                              }
+                              const firstOpenDate = location?.pickupDates?.find((d) => !d.isFull);
+                              setSelectedPickupDate(firstOpenDate?.pickupDate ?? "");
                             }}
                             className="space-y-2"
                           >
@@ -484,11 +636,8 @@ export function FulfillmentMethodSelector({
                                 onClick={() => {
                                   setSelectedPickupLocationId(location.id);
                                   // Auto-select first date for new location
-                                  if (location.pickupDates?.length > 0) {
-                                    setSelectedPickupDate(
-                                      location.pickupDates[0].pickupDate
-                                    );
-                                  }
+                                  const firstOpenDate = location.pickupDates?.find((d) => !d.isFull);
+                                  setSelectedPickupDate(firstOpenDate?.pickupDate ?? "");
                                 }}
                               >
                                 <div className="flex items-start gap-2">
@@ -543,19 +692,24 @@ export function FulfillmentMethodSelector({
                                 ?.pickupDates.map((dateOption) => (
                                   <div
                                     key={dateOption.pickupDate}
-                                    className={`rounded-md border p-3 cursor-pointer transition-colors ${
-                                      selectedPickupDate === dateOption.pickupDate
-                                        ? "border-primary bg-primary/5"
-                                        : "border-muted hover:border-primary/50"
+                                    className={`rounded-md border p-3 transition-colors ${
+                                      dateOption.isFull
+                                        ? "border-muted opacity-60 cursor-not-allowed"
+                                        : selectedPickupDate === dateOption.pickupDate
+                                          ? "border-primary bg-primary/5 cursor-pointer"
+                                          : "border-muted hover:border-primary/50 cursor-pointer"
                                     }`}
-                                    onClick={() =>
-                                      setSelectedPickupDate(dateOption.pickupDate)
-                                    }
+                                    onClick={() => {
+                                      if (!dateOption.isFull) {
+                                        setSelectedPickupDate(dateOption.pickupDate);
+                                      }
+                                    }}
                                   >
                                     <div className="flex items-start gap-2">
                                       <RadioGroupItem
                                         value={dateOption.pickupDate}
                                         id={dateOption.pickupDate}
+                                        disabled={dateOption.isFull}
                                         className="mt-0.5"
                                       />
                                       <div className="flex-1 space-y-1">
@@ -569,6 +723,11 @@ export function FulfillmentMethodSelector({
                                               "EEEE, MMMM d"
                                             )}
                                           </Label>
+                                          {dateOption.isFull && (
+                                            <span className="text-xs font-semibold text-destructive">
+                                              Fully booked
+                                            </span>
+                                          )}
                                         </div>
                                         {dateOption.pickupTimeWindow && (
                                           <div className="text-xs text-muted-foreground">
@@ -589,6 +748,16 @@ export function FulfillmentMethodSelector({
                             </RadioGroup>
                           </div>
                         )}
+
+                        {/* Pickup Time Slot Selection */}
+                        {selectedDateSlots.length > 0 && (
+                          <TimeSlotPicker
+                            label="Choose Pickup Time:"
+                            slots={selectedDateSlots}
+                            value={selectedTimeSlot}
+                            onChange={setSelectedTimeSlot}
+                          />
+                        )}
                       </div>
                     )}
                   </div>
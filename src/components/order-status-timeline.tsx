@@ -0,0 +1,41 @@
+import type { OrderStatusEvent } from "@/db/schema";
+import { getOrderStatusEventLabel } from "@/utils/order-status-events";
+import { formatDateTime } from "@/utils/format-date";
+
+interface OrderStatusTimelineProps {
+  events: Pick<OrderStatusEvent, "id" | "field" | "fromStatus" | "toStatus" | "actorEmail" | "note" | "createdAt">[];
+  // Admins see who made each change and its note; customers only see what happened when
+  showActors?: boolean;
+}
+
+/**
+ * Every status change of an order, oldest first
+ */
+export function OrderStatusTimeline({ events, showActors = false }: OrderStatusTimelineProps) {
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No status changes have been recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <p className="font-medium">{getOrderStatusEventLabel(event.field, event.toStatus)}</p>
+          <p className="text-sm text-muted-foreground">
+            {formatDateTime(event.createdAt)}
+            {showActors && ` · ${event.actorEmail ?? "System"}`}
+            {showActors && event.fromStatus && ` · from ${getOrderStatusEventLabel(event.field, event.fromStatus)}`}
+          </p>
+          {showActors && event.note && (
+            <p className="text-sm text-muted-foreground italic">{event.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -20,9 +20,11 @@ export function SizeVariantSelector({
   onVariantChange,
   className,
 }: SizeVariantSelectorProps) {
+  const inStockVariants = config.variants.filter((v) => v.quantityAvailable > 0);
   const [selected, setSelected] = useState<string>(
     selectedVariantId ||
-      config.variants.find((v) => v.isDefault)?.id ||
+      inStockVariants.find((v) => v.isDefault)?.id ||
+      inStockVariants[0]?.id ||
       config.variants[0]?.id ||
       ""
   );
@@ -48,35 +50,49 @@ export function SizeVariantSelector({
 
       <RadioGroup value={selected} onValueChange={handleChange}>
         <div className="grid gap-3">
-          {config.variants.map((variant) => (
-            <div key={variant.id} className="relative">
-              <RadioGroupItem
-                value={variant.id}
-                id={variant.id}
-                className="peer sr-only"
-              />
-              <Label
-                htmlFor={variant.id}
-                className={cn(
-                  "flex flex-col gap-2 p-4 rounded-lg border-2 cursor-pointer transition-all",
-                  "hover:bg-accent hover:border-primary/50",
-                  "peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/5"
-                )}
-              >
-                <div className="flex items-center justify-between">
-                  <span className="font-semibold">{variant.name}</span>
-                  <span className="font-bold text-primary">
-                    {formatPrice(variant.priceInCents)}
-                  </span>
-                </div>
-                {variant.description && (
-                  <span className="text-sm text-muted-foreground">
-                    {variant.description}
+          {config.variants.map((variant) => {
+            const isSoldOut = variant.quantityAvailable <= 0;
+
+            return (
+              <div key={variant.id} className="relative">
+                <RadioGroupItem
+                  value={variant.id}
+                  id={variant.id}
+                  disabled={isSoldOut}
+                  className="peer sr-only"
+                />
+                <Label
+                  htmlFor={variant.id}
+                  className={cn(
+                    "flex flex-col gap-2 p-4 rounded-lg border-2 cursor-pointer transition-all",
+                    "hover:bg-accent hover:border-primary/50",
+                    "peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/5",
+                    isSoldOut && "cursor-not-allowed opacity-50 hover:bg-transparent hover:border-border"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{variant.name}</span>
+                    <span className="font-bold text-primary">
+                      {formatPrice(variant.priceInCents)}
+                    </span>
+                  </div>
+                  {variant.description && (
+                    <span className="text-sm text-muted-foreground">
+                      {variant.description}
+                    </span>
+                  )}
+                  <span
+                    className={cn(
+                      "text-xs",
+                      isSoldOut ? "text-destructive font-medium" : "text-muted-foreground"
+                    )}
+                  >
+                    {isSoldOut ? "Sold out" : `${variant.quantityAvailable} available`}
                   </span>
-                )}
-              </Label>
-            </div>
-          ))}
+                </Label>
+              </div>
+            );
+          })}
         </div>
       </RadioGroup>
 
@@ -2,14 +2,18 @@
 
 import { PaymentForm, CreditCard } from "react-square-web-payments-sdk";
 import { Loader2 } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useServerAction } from "zsa-react";
 import { createSquarePaymentAction } from "@/app/(storefront)/_actions/create-square-payment.action";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import type { OrderItemCustomizations } from "@/types/customizations";
+import {
+  parseCartChangedError,
+  type CartChangedErrorData,
+} from "@/types/checkout";
 
-interface SquarePaymentFormProps {
+export interface SquarePaymentFormProps {
   items: Array<{
     productId: string;
     quantity: number;
@@ -37,7 +41,11 @@ interface SquarePaymentFormProps {
   pickupLocationId?: string;
   pickupDate?: string;
   pickupTimeWindow?: string;
+  timeSlotStart?: string; // Booked delivery or pickup slot
+  reservationToken?: string; // Stock held for this customer on the checkout page
   onSuccess: () => void;
+  // Called when the server rejects the cart because prices or availability changed
+  onCartChanged?: (data: CartChangedErrorData) => void;
 }
 
 export function SquarePaymentForm({
@@ -61,11 +69,17 @@ export function SquarePaymentForm({
   pickupLocationId,
   pickupDate,
   pickupTimeWindow,
+  timeSlotStart,
+  reservationToken,
   onSuccess,
+  onCartChanged,
 }: SquarePaymentFormProps) {
   const router = useRouter();
   const [isProcessing, setIsProcessing] = useState(false);
   const { execute } = useServerAction(createSquarePaymentAction);
+  // Identifies this checkout attempt so a resubmit can't charge twice.
+  // Only replaced once the server has answered with an error.
+  const checkoutAttemptId = useRef(crypto.randomUUID());
 
   const applicationId = process.env.NEXT_PUBLIC_SQUARE_APPLICATION_ID;
   const locationId = process.env.NEXT_PUBLIC_SQUARE_LOCATION_ID;
@@ -125,6 +139,7 @@ export function SquarePaymentForm({
           try {
             const [data, err] = await execute({
               sourceId: token.token,
+              checkoutAttemptId: checkoutAttemptId.current,
               items,
               customerEmail,
               customerName,
@@ -145,9 +160,21 @@ export function SquarePaymentForm({
               pickupLocationId,
               pickupDate,
               pickupTimeWindow,
+              timeSlotStart,
+              reservationToken,
             });
 
             if (err) {
+              checkoutAttemptId.current = crypto.randomUUID();
+
+              const cartChanged = parseCartChangedError(err);
+              if (cartChanged) {
+                toast.error(cartChanged.message);
+                onCartChanged?.(cartChanged);
+                setIsProcessing(false);
+                return;
+              }
+
               console.error("Payment error:", err);
               toast.error(err.message || "Payment failed. Please try again.");
               setIsProcessing(false);
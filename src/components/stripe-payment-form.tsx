@@ -0,0 +1,218 @@
+"use client";
+
+import { loadStripe } from "@stripe/stripe-js";
+import {
+  Elements,
+  PaymentElement,
+  useElements,
+  useStripe,
+} from "@stripe/react-stripe-js";
+import { Loader2 } from "lucide-react";
+import { useRef, useState } from "react";
+import { useServerAction } from "zsa-react";
+import { createSquarePaymentAction } from "@/app/(storefront)/_actions/create-square-payment.action";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { SquarePaymentFormProps } from "@/components/square-payment-form";
+import { parseCartChangedError } from "@/types/checkout";
+import { calculateOrderTotals } from "@/utils/tax";
+
+const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+
+// Load Stripe.js once per page, not on every render
+const stripePromise = publishableKey ? loadStripe(publishableKey) : null;
+
+type StripePaymentFormProps = SquarePaymentFormProps;
+
+export function StripePaymentForm(props: StripePaymentFormProps) {
+  const { items, customerEmail, customerName, fulfillmentMethod, deliveryFee } = props;
+
+  // Validate required customer information
+  if (!customerEmail || !customerName) {
+    return (
+      <div className="p-4 bg-amber-50 text-amber-900 rounded-md border border-amber-200">
+        <p className="font-semibold">Please complete customer information</p>
+        <p className="text-sm">Fill in your name and email above to continue</p>
+      </div>
+    );
+  }
+
+  // Validate fulfillment method is selected
+  if (!fulfillmentMethod) {
+    return (
+      <div className="p-4 bg-amber-50 text-amber-900 rounded-md border border-amber-200">
+        <p className="font-semibold">Please select delivery or pickup</p>
+        <p className="text-sm">Choose how you&apos;d like to receive your order above</p>
+      </div>
+    );
+  }
+
+  if (!stripePromise) {
+    return (
+      <div className="p-4 bg-destructive/10 text-destructive rounded-md">
+        <p className="font-semibold">Configuration Error</p>
+        <p className="text-sm">Stripe publishable key not configured</p>
+      </div>
+    );
+  }
+
+  const itemsTotal = items.reduce(
+    (sum, item) => sum + item.price * item.quantity,
+    0
+  );
+  const { total } = calculateOrderTotals(itemsTotal + (deliveryFee || 0));
+
+  return (
+    <div className="space-y-4">
+      {/* The PaymentIntent is created on submit, once the server has priced the order */}
+      <Elements
+        stripe={stripePromise}
+        options={{
+          mode: "payment",
+          amount: total,
+          currency: "usd",
+          allowedPaymentMethodTypes: ["card"],
+        }}
+      >
+        <StripeCheckoutForm {...props} />
+      </Elements>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Payments are securely processed by Stripe
+      </p>
+    </div>
+  );
+}
+
+function StripeCheckoutForm({
+  onSuccess,
+  onCartChanged,
+  ...checkoutInput
+}: StripePaymentFormProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const router = useRouter();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { execute } = useServerAction(createSquarePaymentAction);
+  // Identifies this checkout attempt so a resubmit reuses its order and
+  // PaymentIntent. Only replaced once the server has answered with an error.
+  const checkoutAttemptId = useRef(crypto.randomUUID());
+
+  const handleServerError = (err: { code?: string; data?: unknown; message?: string }) => {
+    checkoutAttemptId.current = crypto.randomUUID();
+
+    const cartChanged = parseCartChangedError(err);
+    if (cartChanged) {
+      toast.error(cartChanged.message);
+      onCartChanged?.(cartChanged);
+      setIsProcessing(false);
+      return;
+    }
+
+    console.error("Payment error:", err);
+    toast.error(err.message || "Payment failed. Please try again.");
+    setIsProcessing(false);
+  };
+
+  const completeCheckout = (orderNumber: string) => {
+    toast.success("Payment successful!");
+    onSuccess();
+    // Redirect to thank you page
+    router.push(`/purchase/thanks?order=${orderNumber}`);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      // Check the card details before the server creates a PaymentIntent
+      const { error: submitError } = await elements.submit();
+      if (submitError) {
+        toast.error(submitError.message || "Please check your card details");
+        setIsProcessing(false);
+        return;
+      }
+
+      const input = { ...checkoutInput, checkoutAttemptId: checkoutAttemptId.current };
+
+      const [prepared, prepareErr] = await execute(input);
+      if (prepareErr) {
+        handleServerError(prepareErr);
+        return;
+      }
+
+      // This attempt was already paid for (e.g. the last response never arrived)
+      if (prepared?.orderNumber) {
+        completeCheckout(prepared.orderNumber);
+        return;
+      }
+
+      if (!prepared?.clientSecret) {
+        setIsProcessing(false);
+        return;
+      }
+
+      // Card-only, so 3D Secure is the only extra step and it opens in a modal
+      const { error, paymentIntent } = await stripe.confirmPayment({
+        elements,
+        clientSecret: prepared.clientSecret,
+        redirect: "if_required",
+      });
+
+      // Declines keep the attempt, so trying again reuses the same PaymentIntent.
+      // One that already went through still has to be finished below.
+      const paymentIntentId = error?.payment_intent?.status === "succeeded"
+        ? error.payment_intent.id
+        : paymentIntent?.id;
+
+      if (!paymentIntentId) {
+        toast.error(error?.message || "Payment failed. Please try again.");
+        setIsProcessing(false);
+        return;
+      }
+
+      const [data, err] = await execute({ ...input, sourceId: paymentIntentId });
+      if (err) {
+        handleServerError(err);
+        return;
+      }
+
+      if (data?.orderNumber) {
+        completeCheckout(data.orderNumber);
+      }
+    } catch (error) {
+      console.error("Payment error:", error);
+      toast.error("Payment failed. Please try again.");
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+
+      <Button
+        type="submit"
+        className="w-full"
+        size="lg"
+        disabled={!stripe || !elements || isProcessing}
+      >
+        {isProcessing ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing Payment...
+          </>
+        ) : (
+          "Pay Now"
+        )}
+      </Button>
+    </form>
+  );
+}
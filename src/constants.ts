@@ -10,6 +10,16 @@ export const GITHUB_REPO_URL = "https://github.com/LubomirGeorgiev/cloudflare-wo
 export const SITE_DOMAIN = new URL(SITE_URL).hostname
 export const PASSWORD_RESET_TOKEN_EXPIRATION_SECONDS = 24 * 60 * 60 // 24 hours
 export const EMAIL_VERIFICATION_TOKEN_EXPIRATION_SECONDS = 24 * 60 * 60 // 24 hours
+export const PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS = 10 * 60 // 10 minutes
+export const PHONE_VERIFICATION_MAX_ATTEMPTS = 5
+// Verification codes are only texted to +1 numbers (US and Canada). These are the
+// +1 area codes outside the US states and Canada: Caribbean countries, US
+// territories and premium-rate 900 numbers, the usual SMS pumping targets
+export const PHONE_VERIFICATION_EXCLUDED_AREA_CODES = [
+  "242", "246", "264", "268", "284", "340", "345", "441", "473", "649",
+  "658", "664", "670", "671", "684", "721", "758", "767", "784", "787",
+  "809", "829", "849", "868", "869", "876", "900", "939",
+]
 export const MAX_SESSIONS_PER_USER = 5;
 export const SESSION_COOKIE_NAME = "session";
 export const GOOGLE_OAUTH_STATE_COOKIE_NAME = "google-oauth-state";
@@ -0,0 +1,5 @@
+-- Link order items to the product drop item they were purchased from
+-- (used to enforce per-customer drop limits)
+
+ALTER TABLE `order_item` ADD `dropItemId` text REFERENCES product_drop_item(id);
+CREATE INDEX `order_item_drop_item_id_idx` ON `order_item` (`dropItemId`);
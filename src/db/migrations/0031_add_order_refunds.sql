@@ -0,0 +1,25 @@
+-- Refund ledger: one row per (partial) refund issued for an order
+CREATE TABLE `order_refund` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`orderId` text NOT NULL,
+	`merchantProvider` text(50) NOT NULL,
+	`providerRefundId` text(255),
+	`amount` integer NOT NULL,
+	`reason` text(1000) NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`items` text(5000),
+	`restocked` integer DEFAULT 0 NOT NULL,
+	`refundedByUserId` text,
+	FOREIGN KEY (`orderId`) REFERENCES `order`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`refundedByUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);--> statement-breakpoint
+
+CREATE INDEX `order_refund_order_id_idx` ON `order_refund` (`orderId`);--> statement-breakpoint
+CREATE INDEX `order_refund_created_at_idx` ON `order_refund` (`createdAt`);--> statement-breakpoint
+
+-- Track refunded units per line and refunded totals for revenue netting
+ALTER TABLE `order_item` ADD `refundedQuantity` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `merchant_fee` ADD `refundedAmount` integer DEFAULT 0 NOT NULL;
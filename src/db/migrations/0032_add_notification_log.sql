@@ -0,0 +1,19 @@
+-- Log of every customer email/SMS sent about an order
+CREATE TABLE `notification_log` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`orderId` text,
+	`userId` text,
+	`type` text NOT NULL,
+	`channel` text NOT NULL,
+	`recipient` text(255) NOT NULL,
+	`status` text NOT NULL,
+	`error` text(1000),
+	FOREIGN KEY (`orderId`) REFERENCES `order`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);--> statement-breakpoint
+
+CREATE INDEX `notification_log_order_id_idx` ON `notification_log` (`orderId`);--> statement-breakpoint
+CREATE INDEX `notification_log_created_at_idx` ON `notification_log` (`createdAt`);
@@ -0,0 +1,7 @@
+-- Track which SMS provider sent a message and its delivery receipt status
+ALTER TABLE `notification_log` ADD `provider` text(50);--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `providerMessageId` text(255);--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `deliveryStatus` text;--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `deliveryError` text(1000);--> statement-breakpoint
+ALTER TABLE `notification_log` ADD `deliveryStatusAt` integer;--> statement-breakpoint
+CREATE INDEX `notification_log_provider_message_id_idx` ON `notification_log` (`providerMessageId`);
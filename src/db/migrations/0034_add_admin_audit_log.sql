@@ -0,0 +1,20 @@
+-- Audit trail of changes made from the admin panel
+CREATE TABLE `admin_audit_log` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`actorUserId` text,
+	`actorEmail` text(255),
+	`action` text(100) NOT NULL,
+	`entityType` text NOT NULL,
+	`entityId` text(255),
+	`before` text(10000),
+	`after` text(10000),
+	`ipAddress` text(100),
+	FOREIGN KEY (`actorUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);--> statement-breakpoint
+
+CREATE INDEX `admin_audit_log_entity_idx` ON `admin_audit_log` (`entityType`,`entityId`);--> statement-breakpoint
+CREATE INDEX `admin_audit_log_actor_user_id_idx` ON `admin_audit_log` (`actorUserId`);--> statement-breakpoint
+CREATE INDEX `admin_audit_log_created_at_idx` ON `admin_audit_log` (`createdAt`);
@@ -0,0 +1,24 @@
+-- Orders are saved as pending_payment before the card is charged; checkoutKey
+-- deduplicates retries of the same checkout attempt
+ALTER TABLE `order` ADD `checkoutKey` text(64);--> statement-breakpoint
+CREATE UNIQUE INDEX `order_checkoutKey_unique` ON `order` (`checkoutKey`);--> statement-breakpoint
+
+-- Provider payments the reconciliation job couldn't match to a paid order
+CREATE TABLE `payment_reconciliation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`merchantProvider` text(50) NOT NULL,
+	`paymentId` text(255) NOT NULL,
+	`amount` integer NOT NULL,
+	`paymentCreatedAt` integer NOT NULL,
+	`status` text DEFAULT 'unmatched' NOT NULL,
+	`orderId` text,
+	`note` text(1000),
+	FOREIGN KEY (`orderId`) REFERENCES `order`(`id`) ON UPDATE no action ON DELETE set null
+);--> statement-breakpoint
+
+CREATE UNIQUE INDEX `payment_reconciliation_paymentId_unique` ON `payment_reconciliation` (`paymentId`);--> statement-breakpoint
+CREATE INDEX `payment_reconciliation_status_idx` ON `payment_reconciliation` (`status`);--> statement-breakpoint
+CREATE INDEX `payment_reconciliation_payment_created_at_idx` ON `payment_reconciliation` (`paymentCreatedAt`);
@@ -0,0 +1,28 @@
+-- Every webhook delivery from a payment provider, deduplicated on the
+-- provider's event ID so retried deliveries are only handled once
+CREATE TABLE `webhook_event` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`provider` text(50) NOT NULL,
+	`eventId` text(255),
+	`eventType` text(255),
+	`payload` text NOT NULL,
+	`signature` text(500),
+	`signatureStatus` text NOT NULL,
+	`status` text DEFAULT 'received' NOT NULL,
+	`result` text(5000),
+	`orderId` text,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`lastAttemptAt` integer,
+	FOREIGN KEY (`orderId`) REFERENCES `order`(`id`) ON UPDATE no action ON DELETE set null
+);--> statement-breakpoint
+
+CREATE UNIQUE INDEX `webhook_event_provider_event_id_unique` ON `webhook_event` (`provider`,`eventId`);--> statement-breakpoint
+CREATE INDEX `webhook_event_status_idx` ON `webhook_event` (`status`);--> statement-breakpoint
+CREATE INDEX `webhook_event_created_at_idx` ON `webhook_event` (`createdAt`);--> statement-breakpoint
+
+-- Refunds issued from the provider dashboard are recorded from their webhooks,
+-- keyed on the provider's refund ID
+CREATE UNIQUE INDEX `order_refund_providerRefundId_unique` ON `order_refund` (`providerRefundId`);
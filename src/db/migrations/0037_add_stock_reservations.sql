@@ -0,0 +1,17 @@
+-- Stock held for shoppers on the checkout page; rows past expiresAt no longer count
+CREATE TABLE `stock_reservation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`reservationToken` text(100) NOT NULL,
+	`productId` text NOT NULL,
+	`variantId` text(255),
+	`quantity` integer NOT NULL,
+	`expiresAt` integer NOT NULL,
+	FOREIGN KEY (`productId`) REFERENCES `product`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+
+CREATE INDEX `stock_reservation_token_idx` ON `stock_reservation` (`reservationToken`);--> statement-breakpoint
+CREATE INDEX `stock_reservation_product_id_idx` ON `stock_reservation` (`productId`);--> statement-breakpoint
+CREATE INDEX `stock_reservation_expires_at_idx` ON `stock_reservation` (`expiresAt`);
@@ -0,0 +1,18 @@
+-- Units the bakery can produce per fulfillment date, in total or per category
+CREATE TABLE `production_capacity` (
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`update_counter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text(255) NOT NULL,
+	`category_id` text,
+	`day_of_week` integer,
+	`date` text(20),
+	`max_units` integer NOT NULL,
+	`is_active` integer DEFAULT 1 NOT NULL,
+	FOREIGN KEY (`category_id`) REFERENCES `category`(`id`) ON UPDATE no action ON DELETE cascade
+);--> statement-breakpoint
+
+CREATE INDEX `production_capacity_is_active_idx` ON `production_capacity` (`is_active`);--> statement-breakpoint
+CREATE INDEX `production_capacity_category_id_idx` ON `production_capacity` (`category_id`);--> statement-breakpoint
+CREATE INDEX `production_capacity_date_idx` ON `production_capacity` (`date`);
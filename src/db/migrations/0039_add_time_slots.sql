@@ -0,0 +1,11 @@
+-- Bookable time slots for deliveries and pickups, with a per-slot order limit
+ALTER TABLE `delivery_schedule` ADD `slot_start_time` text(10);--> statement-breakpoint
+ALTER TABLE `delivery_schedule` ADD `slot_end_time` text(10);--> statement-breakpoint
+ALTER TABLE `delivery_schedule` ADD `slot_duration_minutes` integer;--> statement-breakpoint
+ALTER TABLE `delivery_schedule` ADD `slot_capacity` integer;--> statement-breakpoint
+ALTER TABLE `pickup_location` ADD `slot_start_time` text(10);--> statement-breakpoint
+ALTER TABLE `pickup_location` ADD `slot_end_time` text(10);--> statement-breakpoint
+ALTER TABLE `pickup_location` ADD `slot_duration_minutes` integer;--> statement-breakpoint
+ALTER TABLE `pickup_location` ADD `slot_capacity` integer;--> statement-breakpoint
+ALTER TABLE `order` ADD `time_slot_start` text(10);--> statement-breakpoint
+ALTER TABLE `order` ADD `time_slot_end` text(10);
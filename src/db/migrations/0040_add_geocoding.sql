@@ -0,0 +1,20 @@
+-- Geocoded coordinates for order and saved user addresses, plus a cache per address
+CREATE TABLE `geocode_cache` (
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`update_counter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`address_key` text(500) NOT NULL,
+	`lat` real NOT NULL,
+	`lng` real NOT NULL,
+	`quality` text(20) NOT NULL,
+	`formatted_address` text(500)
+);--> statement-breakpoint
+
+CREATE UNIQUE INDEX `geocode_cache_address_key_unique` ON `geocode_cache` (`address_key`);--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_lat` real;--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_lng` real;--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_geocode_quality` text(20);--> statement-breakpoint
+ALTER TABLE `user` ADD `latitude` real;--> statement-breakpoint
+ALTER TABLE `user` ADD `longitude` real;--> statement-breakpoint
+ALTER TABLE `user` ADD `geocodeQuality` text(20);
@@ -0,0 +1,17 @@
+-- Drivers and their vehicles, with one delivery route per driver per day
+CREATE TABLE `driver` (
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`update_counter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text(255) NOT NULL,
+	`phone` text(50),
+	`vehicle_name` text(255),
+	`max_stops` integer,
+	`color` text(20) DEFAULT '#2563eb' NOT NULL,
+	`is_active` integer DEFAULT 1 NOT NULL
+);--> statement-breakpoint
+
+CREATE INDEX `driver_is_active_idx` ON `driver` (`is_active`);--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_driver_id` text REFERENCES `driver`(`id`) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `order_delivery_driver_id_idx` ON `order` (`delivery_driver_id`);
@@ -0,0 +1,9 @@
+-- Driver logins and proof of delivery recorded from the driver run sheet
+ALTER TABLE `driver` ADD `user_id` text REFERENCES `user`(`id`) ON DELETE set null;--> statement-breakpoint
+CREATE UNIQUE INDEX `driver_user_id_unique` ON `driver` (`user_id`);--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_arrived_at` integer;--> statement-breakpoint
+ALTER TABLE `order` ADD `delivered_at` integer;--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_recipient_name` text(255);--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_proof_image_key` text(255);--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_failure_reason` text;--> statement-breakpoint
+ALTER TABLE `order` ADD `delivery_failure_note` text(1000);
@@ -0,0 +1,4 @@
+-- Secret for the customer's order tracking link; existing orders get one too
+ALTER TABLE `order` ADD `tracking_token` text(64);--> statement-breakpoint
+UPDATE `order` SET `tracking_token` = lower(hex(randomblob(16))) WHERE `tracking_token` IS NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX `order_tracking_token_unique` ON `order` (`tracking_token`);
@@ -0,0 +1,19 @@
+-- Every change to an order's status, delivery status or pickup status, with who made it
+CREATE TABLE `order_status_event` (
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`update_counter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`order_id` text NOT NULL,
+	`field` text NOT NULL,
+	`from_status` text(50),
+	`to_status` text(50) NOT NULL,
+	`actor_user_id` text,
+	`actor_email` text(255),
+	`note` text(1000),
+	FOREIGN KEY (`order_id`) REFERENCES `order`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`actor_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);--> statement-breakpoint
+
+CREATE INDEX `order_status_event_order_id_idx` ON `order_status_event` (`order_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `order_status_event_to_status_idx` ON `order_status_event` (`field`,`to_status`,`created_at`);
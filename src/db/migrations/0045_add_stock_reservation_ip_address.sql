@@ -0,0 +1,3 @@
+-- Lets checkout cap how much stock one visitor can hold across reservation tokens
+ALTER TABLE `stock_reservation` ADD `ipAddress` text(100);--> statement-breakpoint
+CREATE INDEX `stock_reservation_ip_address_idx` ON `stock_reservation` (`ipAddress`);
@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, integer, real, text, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { relations, sql } from "drizzle-orm";
 import { type InferSelectModel } from "drizzle-orm";
 
@@ -7,6 +7,7 @@ import { createId } from '@paralleldrive/cuid2'
 export const ROLES_ENUM = {
   ADMIN: 'admin',
   USER: 'user',
+  DRIVER: 'driver', // Sees their own delivery route at /driver
 } as const;
 
 const roleTuple = Object.values(ROLES_ENUM) as [string, ...string[]];
@@ -80,6 +81,10 @@ export const userTable = sqliteTable("user", {
   city: text({ length: 100 }),
   state: text({ length: 50 }),
   zipCode: text({ length: 20 }),
+  // Geocoded delivery address (see GEOCODE_QUALITY)
+  latitude: real(),
+  longitude: real(),
+  geocodeQuality: text({ length: 20 }),
 }, (table) => ([
   index('email_idx').on(table.email),
   index('google_account_id_idx').on(table.googleAccountId),
@@ -195,6 +200,7 @@ export const PAYMENT_STATUS = {
   PAID: 'paid',            // Payment successful
   FAILED: 'failed',        // Payment failed
   REFUNDED: 'refunded',    // Payment refunded
+  DISPUTED: 'disputed',    // Customer opened a chargeback with their bank
 } as const;
 
 export const paymentStatusTuple = Object.values(PAYMENT_STATUS) as [string, ...string[]];
@@ -204,6 +210,7 @@ export const PAYMENT_STATUS_LABELS: Record<keyof typeof PAYMENT_STATUS, string>
   PAID: 'Paid',
   FAILED: 'Failed',
   REFUNDED: 'Refunded',
+  DISPUTED: 'Disputed',
 } as const;
 
 export const PAYMENT_STATUS_COLORS: Record<keyof typeof PAYMENT_STATUS, string> = {
@@ -211,10 +218,12 @@ export const PAYMENT_STATUS_COLORS: Record<keyof typeof PAYMENT_STATUS, string>
   PAID: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
   FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
   REFUNDED: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+  DISPUTED: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
 } as const;
 
 // Order Fulfillment Status - workflow from order placement to completion
 export const ORDER_STATUS = {
+  PENDING_PAYMENT: 'pending_payment', // Saved before charging the card, not a real order yet
   PENDING: 'pending',              // Order placed, awaiting confirmation
   CONFIRMED: 'confirmed',          // Order confirmed by bakery staff
 
@@ -239,6 +248,7 @@ export const orderStatusTuple = Object.values(ORDER_STATUS) as [string, ...strin
 
 // Helper to get human-readable status labels
 export const ORDER_STATUS_LABELS: Record<keyof typeof ORDER_STATUS, string> = {
+  PENDING_PAYMENT: 'Awaiting Payment',
   PENDING: 'Processing', // E-commerce standard - order received and being prepared
   CONFIRMED: 'Confirmed',
   IN_PRODUCTION: 'In Production',
@@ -255,6 +265,7 @@ export const ORDER_STATUS_LABELS: Record<keyof typeof ORDER_STATUS, string> = {
 
 // Status color coding for UI
 export const ORDER_STATUS_COLORS: Record<keyof typeof ORDER_STATUS, string> = {
+  PENDING_PAYMENT: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
   PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
   CONFIRMED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
   IN_PRODUCTION: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
@@ -279,6 +290,11 @@ export const deliveryScheduleTable = sqliteTable("delivery_schedule", {
   cutoffTime: text('cutoff_time', { length: 10 }).notNull(), // "23:59" format
   leadTimeDays: integer('lead_time_days').default(2).notNull(), // Minimum days before delivery (default 2 per requirements)
   deliveryTimeWindow: text('delivery_time_window', { length: 100 }), // "9:00 AM - 5:00 PM"
+  // Bookable delivery slots; no slots are offered when slotDurationMinutes is null
+  slotStartTime: text('slot_start_time', { length: 10 }), // "09:00" - first slot starts
+  slotEndTime: text('slot_end_time', { length: 10 }), // "17:00" - last slot ends
+  slotDurationMinutes: integer('slot_duration_minutes'), // 120 = 2-hour windows
+  slotCapacity: integer('slot_capacity'), // Max orders per slot, null = unlimited
   isActive: integer('is_active').default(1).notNull(), // 1=active, 0=inactive
 }, (table) => ([
   index('delivery_schedule_day_of_week_idx').on(table.dayOfWeek),
@@ -345,10 +361,55 @@ export const pickupLocationTable = sqliteTable("pickup_location", {
   cutoffDay: integer('cutoff_day'), // Day when orders stop (2=Tuesday)
   cutoffTime: text('cutoff_time', { length: 10 }), // "23:59"
   leadTimeDays: integer('lead_time_days').default(0).notNull(), // Minimum days before pickup
+  // Bookable pickup slots; no slots are offered when slotDurationMinutes is null
+  slotStartTime: text('slot_start_time', { length: 10 }), // "10:00" - first slot starts
+  slotEndTime: text('slot_end_time', { length: 10 }), // "18:00" - last slot ends
+  slotDurationMinutes: integer('slot_duration_minutes'), // 30 = 30-minute slots
+  slotCapacity: integer('slot_capacity'), // Max orders per slot, null = unlimited
 }, (table) => ([
   index('pickup_location_is_active_idx').on(table.isActive),
 ]));
 
+// How precisely an address was located, best first
+export const GEOCODE_QUALITY = {
+  MANUAL: 'manual',             // Pinned by an admin on the map
+  ROOFTOP: 'rooftop',           // The exact building
+  INTERPOLATED: 'interpolated', // Estimated between two points on the street
+  APPROXIMATE: 'approximate',   // Street, ZIP code or area center
+} as const;
+
+export type GeocodeQuality = typeof GEOCODE_QUALITY[keyof typeof GEOCODE_QUALITY];
+
+// Geocode Cache - coordinates per normalized address, so each address is geocoded once
+export const geocodeCacheTable = sqliteTable("geocode_cache", {
+  ...snakeCommonColumns,
+  id: text().primaryKey().$defaultFn(() => `geo_${createId()}`).notNull(),
+  addressKey: text('address_key', { length: 500 }).notNull().unique(), // "123 main st|boise|id|83702"
+  lat: real().notNull(),
+  lng: real().notNull(),
+  quality: text({ length: 20 }).notNull(), // GEOCODE_QUALITY value
+  formattedAddress: text('formatted_address', { length: 500 }), // As returned by Google
+});
+
+// Delivery fee rule types
+export const DELIVERY_FEE_RULE_TYPE = {
+  BASE: 'base',                         // Sets the fee for every delivery
+  ZONE: 'zone',                         // Sets the fee for a specific delivery zone
+  ORDER_AMOUNT: 'order_amount',         // Applies once the subtotal reaches a minimum
+  PRODUCT_CATEGORY: 'product_category', // Applies when the cart has products in given categories
+  CUSTOM: 'custom',                     // Adds a flat surcharge (or discount if negative)
+} as const;
+
+export const deliveryFeeRuleTypeTuple = Object.values(DELIVERY_FEE_RULE_TYPE) as [string, ...string[]];
+
+export const DELIVERY_FEE_RULE_TYPE_LABELS: Record<keyof typeof DELIVERY_FEE_RULE_TYPE, string> = {
+  BASE: 'Base Fee',
+  ZONE: 'Zone',
+  ORDER_AMOUNT: 'Order Amount',
+  PRODUCT_CATEGORY: 'Product Category',
+  CUSTOM: 'Custom Surcharge',
+} as const;
+
 // Delivery Fee Rules - configurable fee rules (order amount, product category, custom)
 export const deliveryFeeRuleTable = sqliteTable("delivery_fee_rule", {
   ...snakeCommonColumns,
@@ -370,6 +431,63 @@ export const deliveryFeeRuleTable = sqliteTable("delivery_fee_rule", {
   index('delivery_fee_rule_type_idx').on(table.ruleType),
 ]));
 
+// Production Capacity - units the bakery can make per fulfillment date, in total
+// or for one category. The most specific active limit wins for each scope:
+// a specific date over a day of week over every day.
+export const productionCapacityTable = sqliteTable("production_capacity", {
+  ...snakeCommonColumns,
+  id: text().primaryKey().$defaultFn(() => `pcap_${createId()}`).notNull(),
+  name: text({ length: 255 }).notNull(), // "Daily bake limit", "Custom cakes"
+  categoryId: text('category_id').references(() => categoryTable.id, { onDelete: 'cascade' }), // null = all products
+  dayOfWeek: integer('day_of_week'), // 0-6, null = every day
+  date: text({ length: 20 }), // ISO date "2025-12-24" for a one-day limit, null = recurring
+  maxUnits: integer('max_units').notNull(), // Units that can be booked for the date
+  isActive: integer('is_active').default(1).notNull(), // 1=active, 0=inactive
+}, (table) => ([
+  index('production_capacity_is_active_idx').on(table.isActive),
+  index('production_capacity_category_id_idx').on(table.categoryId),
+  index('production_capacity_date_idx').on(table.date),
+]));
+
+// Drivers - each one drives one delivery route per day
+export const driverTable = sqliteTable("driver", {
+  ...snakeCommonColumns,
+  id: text().primaryKey().$defaultFn(() => `drv_${createId()}`).notNull(),
+  name: text({ length: 255 }).notNull(), // "Maria"
+  phone: text({ length: 50 }),
+  vehicleName: text('vehicle_name', { length: 255 }), // "White van", "Honda Civic"
+  maxStops: integer('max_stops'), // Most stops the vehicle can carry, null = unlimited
+  color: text({ length: 20 }).default('#2563eb').notNull(), // Route color on the map
+  isActive: integer('is_active').default(1).notNull(), // 1=active, 0=inactive
+  userId: text('user_id').references(() => userTable.id, { onDelete: 'set null' }), // Login that opens this driver's run sheet
+}, (table) => ([
+  index('driver_is_active_idx').on(table.isActive),
+  uniqueIndex('driver_user_id_unique').on(table.userId),
+]));
+
+// Why a driver couldn't complete a delivery
+export const DELIVERY_FAILURE_REASON = {
+  NO_ONE_HOME: 'no_one_home',
+  NO_SAFE_PLACE: 'no_safe_place',     // Nobody home and nowhere to leave it
+  ADDRESS_NOT_FOUND: 'address_not_found',
+  NO_ACCESS: 'no_access',             // Gate, buzzer or building access
+  REFUSED: 'refused',
+  DAMAGED: 'damaged',
+  OTHER: 'other',
+} as const;
+
+export const deliveryFailureReasonTuple = Object.values(DELIVERY_FAILURE_REASON) as [string, ...string[]];
+
+export const DELIVERY_FAILURE_REASON_LABELS: Record<keyof typeof DELIVERY_FAILURE_REASON, string> = {
+  NO_ONE_HOME: 'No one home',
+  NO_SAFE_PLACE: 'No safe place to leave it',
+  ADDRESS_NOT_FOUND: 'Address not found',
+  NO_ACCESS: 'Couldn\'t get access',
+  REFUSED: 'Refused by recipient',
+  DAMAGED: 'Order damaged',
+  OTHER: 'Other',
+} as const;
+
 // Product Delivery Rules - per-product restrictions and requirements
 export const productDeliveryRulesTable = sqliteTable("product_delivery_rules", {
   ...snakeCommonColumns,
@@ -407,6 +525,10 @@ export const orderTable = sqliteTable("order", {
   merchantProvider: text({ length: 50 }).default('stripe').notNull(), // 'stripe' or 'square'
   stripePaymentIntentId: text({ length: 255 }), // Legacy field, keeping for backward compatibility
   paymentIntentId: text({ length: 255 }), // Provider payment intent ID (Stripe/Square)
+  // Derived from the cart and checkout attempt; also the provider idempotency key
+  checkoutKey: text({ length: 64 }).unique(),
+  // Secret in the customer's tracking link (/track/[token]), so guests can follow the order too
+  trackingToken: text('tracking_token', { length: 64 }).$defaultFn(() => crypto.randomUUID().replace(/-/g, '')).unique(),
   fulfillmentType: text({ length: 50 }), // DEPRECATED: use fulfillmentMethod instead
   pickupTime: integer({
     mode: "timestamp",
@@ -424,14 +546,28 @@ export const orderTable = sqliteTable("order", {
   deliveryInstructions: text('delivery_instructions', { length: 1000 }), // Customer instructions
   deliveryFee: integer('delivery_fee'), // In cents
   deliveryZoneId: text('delivery_zone_id').references(() => deliveryZoneTable.id), // Zone used for delivery
-  deliveryStatus: text('delivery_status', { length: 50 }), // pending, confirmed, preparing, out_for_delivery, delivered
+  deliveryStatus: text('delivery_status', { length: 50 }), // pending, confirmed, preparing, out_for_delivery, arrived, delivered, failed
+  deliveryLat: real('delivery_lat'), // Geocoded delivery address
+  deliveryLng: real('delivery_lng'),
+  deliveryGeocodeQuality: text('delivery_geocode_quality', { length: 20 }), // GEOCODE_QUALITY value
 
   // Route optimization fields (for delivery route planning)
-  deliverySequence: integer('delivery_sequence'), // Order in delivery route (0, 1, 2, 3...)
+  deliveryDriverId: text('delivery_driver_id').references(() => driverTable.id, { onDelete: 'set null' }), // Route the stop is on, null = the single unassigned route
+  deliverySequence: integer('delivery_sequence'), // Order in the driver's route (0, 1, 2, 3...)
   estimatedArrivalTime: text('estimated_arrival_time', { length: 20 }), // "09:15:00" - HH:mm:ss format
   routeDurationFromPrevious: integer('route_duration_from_previous'), // Seconds from previous stop
   routeDistanceFromPrevious: integer('route_distance_from_previous'), // Meters from previous stop
 
+  // Proof of delivery (recorded by the driver from the run sheet)
+  deliveryArrivedAt: integer('delivery_arrived_at', { mode: "timestamp" }), // Driver reached the stop
+  deliveredAt: integer('delivered_at', { mode: "timestamp" }),
+  deliveryRecipientName: text('delivery_recipient_name', { length: 255 }), // Who took the order, if anyone
+  deliveryProofImageKey: text('delivery_proof_image_key', { length: 255 }), // Private R2 key, served by /api/delivery-proof
+  deliveryFailureReason: text('delivery_failure_reason', {
+    enum: deliveryFailureReasonTuple,
+  }),
+  deliveryFailureNote: text('delivery_failure_note', { length: 1000 }),
+
   // Delivery notification tracking (for spam prevention and status display)
   deliveryNotificationSentAt: integer('delivery_notification_sent_at', { mode: "timestamp" }), // When notification was last sent
   deliveryNotificationCount: integer('delivery_notification_count').default(0), // How many times notification has been sent
@@ -442,6 +578,10 @@ export const orderTable = sqliteTable("order", {
   pickupTimeWindow: text('pickup_time_window', { length: 100 }), // "9:00 AM - 6:00 PM"
   pickupStatus: text('pickup_status', { length: 50 }), // pending, confirmed, preparing, ready_for_pickup, picked_up
   pickupInstructions: text('pickup_instructions', { length: 1000 }), // Customer instructions
+
+  // Booked time slot for the delivery or pickup (null when no slots were offered)
+  timeSlotStart: text('time_slot_start', { length: 10 }), // "10:00" - HH:mm format
+  timeSlotEnd: text('time_slot_end', { length: 10 }), // "10:30" - HH:mm format
 }, (table) => ([
   index('order_user_id_idx').on(table.userId),
   index('order_payment_status_idx').on(table.paymentStatus),
@@ -454,6 +594,7 @@ export const orderTable = sqliteTable("order", {
   index('order_delivery_date_idx').on(table.deliveryDate),
   index('order_pickup_date_idx').on(table.pickupDate),
   index('order_pickup_location_id_idx').on(table.pickupLocationId),
+  index('order_delivery_driver_id_idx').on(table.deliveryDriverId),
 ]));
 
 // Order items table
@@ -467,9 +608,30 @@ export const orderItemTable = sqliteTable("order_item", {
   // Customer's selected customizations - stored as JSON
   // Contains what size/options were selected and the final calculated price
   customizations: text({ length: 5000 }), // Stored as JSON string
+  // Drop item this line was purchased from (null for regular inventory)
+  dropItemId: text().references(() => productDropItemTable.id),
+  refundedQuantity: integer().default(0).notNull(), // Units refunded so far
 }, (table) => ([
   index('order_item_order_id_idx').on(table.orderId),
   index('order_item_product_id_idx').on(table.productId),
+  index('order_item_drop_item_id_idx').on(table.dropItemId),
+]));
+
+// Stock Reservation table - stock held for a shopper while they're on the checkout page
+export const stockReservationTable = sqliteTable("stock_reservation", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `rsv_${createId()}`).notNull(),
+  reservationToken: text({ length: 100 }).notNull(), // Generated by the shopper's browser
+  productId: text().notNull().references(() => productTable.id, { onDelete: 'cascade' }),
+  variantId: text({ length: 255 }), // Size variant, null for products without variants
+  quantity: integer().notNull(),
+  ipAddress: text({ length: 100 }), // Caps how much one visitor can hold across tokens
+  expiresAt: integer({ mode: "timestamp" }).notNull(),
+}, (table) => ([
+  index('stock_reservation_token_idx').on(table.reservationToken),
+  index('stock_reservation_ip_address_idx').on(table.ipAddress),
+  index('stock_reservation_product_id_idx').on(table.productId),
+  index('stock_reservation_expires_at_idx').on(table.expiresAt),
 ]));
 
 // Product Drop status types
@@ -482,6 +644,20 @@ export const DROP_STATUS = {
 
 export const dropStatusTuple = Object.values(DROP_STATUS) as [string, ...string[]];
 
+export const DROP_STATUS_LABELS: Record<keyof typeof DROP_STATUS, string> = {
+  SCHEDULED: 'Scheduled',
+  LOYALTY_ACTIVE: 'Early Access',
+  PUBLIC_ACTIVE: 'Live',
+  ENDED: 'Ended',
+} as const;
+
+export const DROP_STATUS_COLORS: Record<keyof typeof DROP_STATUS, string> = {
+  SCHEDULED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  LOYALTY_ACTIVE: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  PUBLIC_ACTIVE: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  ENDED: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+} as const;
+
 // Product Drops table
 export const productDropTable = sqliteTable("product_drop", {
   ...commonColumns,
@@ -535,7 +711,8 @@ export const merchantFeeTable = sqliteTable("merchant_fee", {
   totalFee: integer().notNull(), // Total fee in cents (calculated)
 
   // Net revenue
-  netAmount: integer().notNull(), // Order amount minus fees
+  netAmount: integer().notNull(), // Order amount minus refunds and fees
+  refundedAmount: integer().default(0).notNull(), // Total refunded in cents
 
   // Metadata
   paymentIntentId: text({ length: 255 }), // Provider's payment ID
@@ -549,6 +726,314 @@ export const merchantFeeTable = sqliteTable("merchant_fee", {
   index('merchant_fee_created_at_idx').on(table.createdAt),
 ]));
 
+// Refund status types
+export const REFUND_STATUS = {
+  PENDING: 'pending',       // Submitted to the provider, not settled yet
+  SUCCEEDED: 'succeeded',   // Refund completed
+  FAILED: 'failed',         // Provider rejected the refund
+} as const;
+
+export const refundStatusTuple = Object.values(REFUND_STATUS) as [string, ...string[]];
+
+export const REFUND_STATUS_LABELS: Record<keyof typeof REFUND_STATUS, string> = {
+  PENDING: 'Pending',
+  SUCCEEDED: 'Refunded',
+  FAILED: 'Failed',
+} as const;
+
+// Customer notification types
+export const NOTIFICATION_TYPE = {
+  ORDER_CONFIRMATION: 'order_confirmation',
+  READY_FOR_PICKUP: 'ready_for_pickup',
+  OUT_FOR_DELIVERY: 'out_for_delivery',
+  DELIVERED: 'delivered',
+} as const;
+
+export const notificationTypeTuple = Object.values(NOTIFICATION_TYPE) as [string, ...string[]];
+
+export const NOTIFICATION_TYPE_LABELS: Record<keyof typeof NOTIFICATION_TYPE, string> = {
+  ORDER_CONFIRMATION: 'Order Confirmation',
+  READY_FOR_PICKUP: 'Ready for Pickup',
+  OUT_FOR_DELIVERY: 'Out for Delivery',
+  DELIVERED: 'Delivered',
+} as const;
+
+export const NOTIFICATION_CHANNEL = {
+  EMAIL: 'email',
+  SMS: 'sms',
+} as const;
+
+export const notificationChannelTuple = Object.values(NOTIFICATION_CHANNEL) as [string, ...string[]];
+
+export const NOTIFICATION_STATUS = {
+  SENT: 'sent',
+  FAILED: 'failed',
+} as const;
+
+export const notificationStatusTuple = Object.values(NOTIFICATION_STATUS) as [string, ...string[]];
+
+export const NOTIFICATION_STATUS_COLORS: Record<keyof typeof NOTIFICATION_STATUS, string> = {
+  SENT: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+} as const;
+
+// Carrier delivery status for SMS, reported by provider delivery receipts
+export const SMS_DELIVERY_STATUS = {
+  SENT: 'sent',
+  DELIVERED: 'delivered',
+  FAILED: 'failed',
+} as const;
+
+export const smsDeliveryStatusTuple = Object.values(SMS_DELIVERY_STATUS) as [string, ...string[]];
+
+export const SMS_DELIVERY_STATUS_LABELS: Record<keyof typeof SMS_DELIVERY_STATUS, string> = {
+  SENT: 'Sent to carrier',
+  DELIVERED: 'Delivered',
+  FAILED: 'Undelivered',
+} as const;
+
+// Notification Log table - every email/SMS sent to a customer about an order
+export const notificationLogTable = sqliteTable("notification_log", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `nlog_${createId()}`).notNull(),
+  orderId: text().references(() => orderTable.id, { onDelete: 'cascade' }),
+  userId: text().references(() => userTable.id),
+  type: text({
+    enum: notificationTypeTuple,
+  }).notNull(),
+  channel: text({
+    enum: notificationChannelTuple,
+  }).notNull(),
+  recipient: text({ length: 255 }).notNull(), // Email address or E.164 phone number
+  status: text({
+    enum: notificationStatusTuple,
+  }).notNull(),
+  error: text({ length: 1000 }),
+  // SMS only: which provider accepted the message and its id there,
+  // so delivery receipts can be matched back to this row
+  provider: text({ length: 50 }),
+  providerMessageId: text({ length: 255 }),
+  deliveryStatus: text({
+    enum: smsDeliveryStatusTuple,
+  }),
+  deliveryError: text({ length: 1000 }),
+  deliveryStatusAt: integer({ mode: "timestamp" }),
+}, (table) => ([
+  index('notification_log_order_id_idx').on(table.orderId),
+  index('notification_log_created_at_idx').on(table.createdAt),
+  index('notification_log_provider_message_id_idx').on(table.providerMessageId),
+]));
+
+// Order Refund table - ledger of every (partial) refund issued for an order
+export const orderRefundTable = sqliteTable("order_refund", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `ref_${createId()}`).notNull(),
+  orderId: text().notNull().references(() => orderTable.id, { onDelete: 'cascade' }),
+  merchantProvider: text({ length: 50 }).notNull(),
+  providerRefundId: text({ length: 255 }).unique(), // Refund ID returned by the provider
+  amount: integer().notNull(), // Refunded amount in cents
+  reason: text({ length: 1000 }).notNull(),
+  status: text({
+    enum: refundStatusTuple,
+  }).default(REFUND_STATUS.PENDING).notNull(),
+  // Refunded line items - JSON array of { orderItemId, quantity, amount }
+  items: text({ length: 5000 }),
+  restocked: integer().default(0).notNull(), // 1 = inventory returned to stock
+  refundedByUserId: text().references(() => userTable.id),
+}, (table) => ([
+  index('order_refund_order_id_idx').on(table.orderId),
+  index('order_refund_created_at_idx').on(table.createdAt),
+]));
+
+// Which of the order's status columns an event changed
+export const ORDER_STATUS_EVENT_FIELD = {
+  STATUS: 'status',
+  DELIVERY_STATUS: 'delivery_status',
+  PICKUP_STATUS: 'pickup_status',
+} as const;
+
+export const orderStatusEventFieldTuple = Object.values(ORDER_STATUS_EVENT_FIELD) as [string, ...string[]];
+
+export const ORDER_STATUS_EVENT_FIELD_LABELS: Record<keyof typeof ORDER_STATUS_EVENT_FIELD, string> = {
+  STATUS: 'Order',
+  DELIVERY_STATUS: 'Delivery',
+  PICKUP_STATUS: 'Pickup',
+};
+
+// Order Status Event table - one row per status transition, so the history survives later updates
+export const orderStatusEventTable = sqliteTable("order_status_event", {
+  ...snakeCommonColumns,
+  id: text().primaryKey().$defaultFn(() => `ose_${createId()}`).notNull(),
+  orderId: text('order_id').notNull().references(() => orderTable.id, { onDelete: 'cascade' }),
+  field: text({
+    enum: orderStatusEventFieldTuple,
+  }).notNull(),
+  fromStatus: text('from_status', { length: 50 }), // Null for the order's first status
+  toStatus: text('to_status', { length: 50 }).notNull(),
+  // Null when the change came from the system (payment webhooks, checkout)
+  actorUserId: text('actor_user_id').references(() => userTable.id, { onDelete: 'set null' }),
+  actorEmail: text('actor_email', { length: 255 }),
+  note: text({ length: 1000 }),
+}, (table) => ([
+  index('order_status_event_order_id_idx').on(table.orderId, table.createdAt),
+  index('order_status_event_to_status_idx').on(table.field, table.toStatus, table.createdAt),
+]));
+
+// Provider payments checked by the reconciliation job
+export const PAYMENT_RECONCILIATION_STATUS = {
+  UNMATCHED: 'unmatched',   // Payment captured but no order points at it
+  REPAIRED: 'repaired',     // Pending-payment order was finalized automatically
+  RESOLVED: 'resolved',     // Handled manually by an admin (refunded, re-entered, ...)
+} as const;
+
+export const paymentReconciliationStatusTuple = Object.values(PAYMENT_RECONCILIATION_STATUS) as [string, ...string[]];
+
+export const PAYMENT_RECONCILIATION_STATUS_LABELS: Record<keyof typeof PAYMENT_RECONCILIATION_STATUS, string> = {
+  UNMATCHED: 'Unmatched',
+  REPAIRED: 'Auto-repaired',
+  RESOLVED: 'Resolved',
+} as const;
+
+export const PAYMENT_RECONCILIATION_STATUS_COLORS: Record<keyof typeof PAYMENT_RECONCILIATION_STATUS, string> = {
+  UNMATCHED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  REPAIRED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  RESOLVED: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+} as const;
+
+// Payment Reconciliation table - provider payments with no matching paid order
+export const paymentReconciliationTable = sqliteTable("payment_reconciliation", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `prec_${createId()}`).notNull(),
+  merchantProvider: text({ length: 50 }).notNull(),
+  paymentId: text({ length: 255 }).notNull().unique(), // Provider payment ID
+  amount: integer().notNull(), // in cents
+  paymentCreatedAt: integer({ mode: "timestamp" }).notNull(),
+  status: text({
+    enum: paymentReconciliationStatusTuple,
+  }).default(PAYMENT_RECONCILIATION_STATUS.UNMATCHED).notNull(),
+  // Order the payment belongs to, once known (from the payment reference)
+  orderId: text().references(() => orderTable.id, { onDelete: 'set null' }),
+  note: text({ length: 1000 }),
+}, (table) => ([
+  index('payment_reconciliation_status_idx').on(table.status),
+  index('payment_reconciliation_payment_created_at_idx').on(table.paymentCreatedAt),
+]));
+
+// Webhook deliveries from payment providers, kept for dedupe and replay
+export const WEBHOOK_EVENT_STATUS = {
+  RECEIVED: 'received',     // Stored, handler hasn't finished yet
+  PROCESSED: 'processed',   // Handler applied the event
+  IGNORED: 'ignored',       // Verified, but not an event we act on
+  FAILED: 'failed',         // Handler threw or couldn't apply the event; can be replayed
+  REJECTED: 'rejected',     // Signature didn't verify; never handled
+} as const;
+
+export const webhookEventStatusTuple = Object.values(WEBHOOK_EVENT_STATUS) as [string, ...string[]];
+
+export const WEBHOOK_EVENT_STATUS_LABELS: Record<keyof typeof WEBHOOK_EVENT_STATUS, string> = {
+  RECEIVED: 'Received',
+  PROCESSED: 'Processed',
+  IGNORED: 'Ignored',
+  FAILED: 'Failed',
+  REJECTED: 'Rejected',
+} as const;
+
+export const WEBHOOK_EVENT_STATUS_COLORS: Record<keyof typeof WEBHOOK_EVENT_STATUS, string> = {
+  RECEIVED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  PROCESSED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  IGNORED: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  REJECTED: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+} as const;
+
+export const WEBHOOK_SIGNATURE_STATUS = {
+  VALID: 'valid',
+  INVALID: 'invalid',
+  MISSING: 'missing',
+} as const;
+
+export const webhookSignatureStatusTuple = Object.values(WEBHOOK_SIGNATURE_STATUS) as [string, ...string[]];
+
+export const WEBHOOK_SIGNATURE_STATUS_LABELS: Record<keyof typeof WEBHOOK_SIGNATURE_STATUS, string> = {
+  VALID: 'Valid',
+  INVALID: 'Invalid',
+  MISSING: 'Missing',
+} as const;
+
+// Webhook Event table - every delivery a provider sends us, verified or not
+export const webhookEventTable = sqliteTable("webhook_event", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `whev_${createId()}`).notNull(),
+  provider: text({ length: 50 }).notNull(), // square, stripe or mock
+  eventId: text({ length: 255 }), // Provider event ID, null when the signature didn't verify
+  eventType: text({ length: 255 }),
+  payload: text().notNull(), // Raw request body, exactly as received
+  signature: text({ length: 500 }),
+  signatureStatus: text({
+    enum: webhookSignatureStatusTuple,
+  }).notNull(),
+  status: text({
+    enum: webhookEventStatusTuple,
+  }).default(WEBHOOK_EVENT_STATUS.RECEIVED).notNull(),
+  result: text({ length: 5000 }), // JSON handler result, or the error message
+  orderId: text().references(() => orderTable.id, { onDelete: 'set null' }),
+  attempts: integer().default(0).notNull(),
+  lastAttemptAt: integer({ mode: "timestamp" }),
+}, (table) => ([
+  uniqueIndex('webhook_event_provider_event_id_unique').on(table.provider, table.eventId),
+  index('webhook_event_status_idx').on(table.status),
+  index('webhook_event_created_at_idx').on(table.createdAt),
+]));
+
+// Entities whose admin changes are recorded in the audit log
+export const ADMIN_AUDIT_ENTITY_TYPE = {
+  PRODUCT: 'product',
+  CATEGORY: 'category',
+  ORDER: 'order',
+  DELIVERY_SETTINGS: 'delivery_settings',
+  SITE_CONTENT: 'site_content',
+  USER: 'user',
+  PAYMENT: 'payment',
+  WEBHOOK_EVENT: 'webhook_event',
+  DROP: 'drop',
+} as const;
+
+export const adminAuditEntityTypeTuple = Object.values(ADMIN_AUDIT_ENTITY_TYPE) as [string, ...string[]];
+
+export const ADMIN_AUDIT_ENTITY_TYPE_LABELS: Record<keyof typeof ADMIN_AUDIT_ENTITY_TYPE, string> = {
+  PRODUCT: 'Product',
+  CATEGORY: 'Category',
+  ORDER: 'Order',
+  DELIVERY_SETTINGS: 'Delivery Settings',
+  SITE_CONTENT: 'Site Content',
+  USER: 'User',
+  PAYMENT: 'Payment',
+  WEBHOOK_EVENT: 'Webhook Event',
+  DROP: 'Product Drop',
+} as const;
+
+// Admin Audit Log table - who changed what from the admin panel, and how
+export const adminAuditLogTable = sqliteTable("admin_audit_log", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `aud_${createId()}`).notNull(),
+  // Kept nullable so deleting an admin keeps their history; the email stays readable
+  actorUserId: text().references(() => userTable.id, { onDelete: 'set null' }),
+  actorEmail: text({ length: 255 }),
+  action: text({ length: 100 }).notNull(), // e.g. "product.update", "order.status_change"
+  entityType: text({
+    enum: adminAuditEntityTypeTuple,
+  }).notNull(),
+  entityId: text({ length: 255 }),
+  // JSON objects of the changed fields only (full record on create/delete)
+  before: text({ length: 10000 }),
+  after: text({ length: 10000 }),
+  ipAddress: text({ length: 100 }),
+}, (table) => ([
+  index('admin_audit_log_entity_idx').on(table.entityType, table.entityId),
+  index('admin_audit_log_actor_user_id_idx').on(table.actorUserId),
+  index('admin_audit_log_created_at_idx').on(table.createdAt),
+]));
+
 // Relations
 export const categoryRelations = relations(categoryTable, ({ many }) => ({
   products: many(productTable),
@@ -570,6 +1055,8 @@ export const orderRelations = relations(orderTable, ({ one, many }) => ({
   }),
   items: many(orderItemTable),
   merchantFees: many(merchantFeeTable),
+  refunds: many(orderRefundTable),
+  notifications: many(notificationLogTable),
   deliveryZone: one(deliveryZoneTable, {
     fields: [orderTable.deliveryZoneId],
     references: [deliveryZoneTable.id],
@@ -578,6 +1065,10 @@ export const orderRelations = relations(orderTable, ({ one, many }) => ({
     fields: [orderTable.pickupLocationId],
     references: [pickupLocationTable.id],
   }),
+  deliveryDriver: one(driverTable, {
+    fields: [orderTable.deliveryDriverId],
+    references: [driverTable.id],
+  }),
 }));
 
 export const orderItemRelations = relations(orderItemTable, ({ one }) => ({
@@ -589,6 +1080,10 @@ export const orderItemRelations = relations(orderItemTable, ({ one }) => ({
     fields: [orderItemTable.productId],
     references: [productTable.id],
   }),
+  dropItem: one(productDropItemTable, {
+    fields: [orderItemTable.dropItemId],
+    references: [productDropItemTable.id],
+  }),
 }));
 
 export const userRelations = relations(userTable, ({ many }) => ({
@@ -607,7 +1102,7 @@ export const productDropRelations = relations(productDropTable, ({ many }) => ({
   items: many(productDropItemTable),
 }));
 
-export const productDropItemRelations = relations(productDropItemTable, ({ one }) => ({
+export const productDropItemRelations = relations(productDropItemTable, ({ one, many }) => ({
   drop: one(productDropTable, {
     fields: [productDropItemTable.dropId],
     references: [productDropTable.id],
@@ -616,6 +1111,7 @@ export const productDropItemRelations = relations(productDropItemTable, ({ one }
     fields: [productDropItemTable.productId],
     references: [productTable.id],
   }),
+  orderItems: many(orderItemTable),
 }));
 
 export const merchantFeeRelations = relations(merchantFeeTable, ({ one }) => ({
@@ -625,6 +1121,35 @@ export const merchantFeeRelations = relations(merchantFeeTable, ({ one }) => ({
   }),
 }));
 
+export const notificationLogRelations = relations(notificationLogTable, ({ one }) => ({
+  order: one(orderTable, {
+    fields: [notificationLogTable.orderId],
+    references: [orderTable.id],
+  }),
+  user: one(userTable, {
+    fields: [notificationLogTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const orderRefundRelations = relations(orderRefundTable, ({ one }) => ({
+  order: one(orderTable, {
+    fields: [orderRefundTable.orderId],
+    references: [orderTable.id],
+  }),
+  refundedBy: one(userTable, {
+    fields: [orderRefundTable.refundedByUserId],
+    references: [userTable.id],
+  }),
+}));
+
+export const adminAuditLogRelations = relations(adminAuditLogTable, ({ one }) => ({
+  actor: one(userTable, {
+    fields: [adminAuditLogTable.actorUserId],
+    references: [userTable.id],
+  }),
+}));
+
 export const deliveryZoneRelations = relations(deliveryZoneTable, ({ many }) => ({
   feeRules: many(deliveryFeeRuleTable),
   orders: many(orderTable),
@@ -684,13 +1209,23 @@ export type Order = InferSelectModel<typeof orderTable>;
 export type OrderItem = InferSelectModel<typeof orderItemTable>;
 export type ProductDrop = InferSelectModel<typeof productDropTable>;
 export type ProductDropItem = InferSelectModel<typeof productDropItemTable>;
+export type StockReservation = InferSelectModel<typeof stockReservationTable>;
 export type MerchantFee = InferSelectModel<typeof merchantFeeTable>;
+export type OrderRefund = InferSelectModel<typeof orderRefundTable>;
+export type NotificationLog = InferSelectModel<typeof notificationLogTable>;
+export type AdminAuditLog = InferSelectModel<typeof adminAuditLogTable>;
+export type OrderStatusEvent = InferSelectModel<typeof orderStatusEventTable>;
+export type PaymentReconciliation = InferSelectModel<typeof paymentReconciliationTable>;
+export type WebhookEventRecord = InferSelectModel<typeof webhookEventTable>;
 export type DeliverySchedule = InferSelectModel<typeof deliveryScheduleTable>;
 export type DeliveryCalendarClosure = InferSelectModel<typeof deliveryCalendarClosureTable>;
 export type DeliveryOneOffDate = InferSelectModel<typeof deliveryOneOffDateTable>;
 export type DeliveryZone = InferSelectModel<typeof deliveryZoneTable>;
 export type PickupLocation = InferSelectModel<typeof pickupLocationTable>;
+export type GeocodeCache = InferSelectModel<typeof geocodeCacheTable>;
 export type DeliveryFeeRule = InferSelectModel<typeof deliveryFeeRuleTable>;
+export type ProductionCapacity = InferSelectModel<typeof productionCapacityTable>;
+export type Driver = InferSelectModel<typeof driverTable>;
 export type ProductDeliveryRules = InferSelectModel<typeof productDeliveryRulesTable>;
 export type HomeNotification = InferSelectModel<typeof homeNotificationTable>;
 export type SalesBanner = InferSelectModel<typeof salesBannerTable>;
@@ -1,6 +1,7 @@
 import "server-only"
 
 import { cache } from "react"
+import { getCurrentProviderType } from "@/lib/merchant-provider/factory"
 
 export async function isGoogleSSOEnabled() {
   return Boolean(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET)
@@ -14,5 +15,6 @@ export const getConfig = cache(async () => {
   return {
     isGoogleSSOEnabled: await isGoogleSSOEnabled(),
     isTurnstileEnabled: await isTurnstileEnabled(),
+    merchantProvider: getCurrentProviderType(),
   }
 })
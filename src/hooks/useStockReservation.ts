@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useServerAction } from "zsa-react";
+import { reserveCheckoutStockAction } from "@/app/(storefront)/_actions/reserve-checkout-stock.action";
+import { useCart } from "@/state/cart-context";
+import type { CartChange } from "@/types/checkout";
+
+const RESERVATION_TOKEN_STORAGE_KEY = "sweet-angel-reservation";
+
+/**
+ * Hold the cart's stock while the checkout page is open. The hold is renewed
+ * whenever the cart changes; lines that can no longer be fully held are
+ * reduced or removed from the cart and reported through onAdjusted.
+ */
+export function useStockReservation({
+  onAdjusted,
+}: {
+  onAdjusted?: (changes: CartChange[]) => void;
+} = {}) {
+  const { items, removeItem, updateQuantity } = useCart();
+  const [reservationToken, setReservationToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [isExpired, setIsExpired] = useState(false);
+  const { execute, isPending } = useServerAction(reserveCheckoutStockAction);
+
+  // Only the latest request may update the cart
+  const requestId = useRef(0);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const onAdjustedRef = useRef(onAdjusted);
+  onAdjustedRef.current = onAdjusted;
+
+  // One token per browser, so a reload replaces the hold instead of adding one
+  useEffect(() => {
+    let token = localStorage.getItem(RESERVATION_TOKEN_STORAGE_KEY);
+    if (!token) {
+      token = crypto.randomUUID();
+      localStorage.setItem(RESERVATION_TOKEN_STORAGE_KEY, token);
+    }
+    setReservationToken(token);
+  }, []);
+
+  const reserve = useCallback(async () => {
+    if (!reservationToken) return;
+
+    const submittedItems = itemsRef.current;
+    const id = ++requestId.current;
+
+    const [data, err] = await execute({
+      reservationToken,
+      items: submittedItems.map((item) => ({
+        productId: item.productId,
+        variantId:
+          item.customizations?.type === "size_variant"
+            ? item.customizations.selectedVariantId
+            : undefined,
+        quantity: item.quantity,
+      })),
+    });
+
+    if (id !== requestId.current) return;
+
+    if (err) {
+      // Checkout still works without a hold; payment re-checks stock
+      console.error("Failed to reserve stock:", err);
+      setExpiresAt(null);
+      return;
+    }
+
+    setExpiresAt(new Date(data.expiresAt));
+    setIsExpired(false);
+
+    const changes: CartChange[] = [];
+    data.items.forEach((line, index) => {
+      const item = submittedItems[index];
+      // Lines over the hold limit stay as they are; payment re-checks stock
+      if (!item || line.limited || line.reserved >= line.requested) return;
+
+      if (line.reserved === 0) {
+        removeItem(item.cartItemId);
+        changes.push({
+          type: "item_unavailable",
+          message: `${item.name} just sold out and was removed from your cart`,
+          itemIndex: index,
+          productId: item.productId,
+        });
+      } else {
+        updateQuantity(item.cartItemId, line.reserved);
+        changes.push({
+          type: "quantity_reduced",
+          message: `Only ${line.reserved} of ${item.name} left, so we reduced your quantity`,
+          itemIndex: index,
+          productId: item.productId,
+        });
+      }
+    });
+
+    if (changes.length > 0) {
+      onAdjustedRef.current?.(changes);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reservationToken]);
+
+  // Re-reserve whenever the lines or quantities change
+  const cartSignature = items
+    .map((item) => `${item.cartItemId}:${item.quantity}`)
+    .join("|");
+
+  useEffect(() => {
+    // An emptied cart's hold simply runs out (a paid one is released by the server)
+    if (cartSignature) {
+      reserve();
+    }
+  }, [reserve, cartSignature]);
+
+  // Stop counting down as soon as the hold lapses
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timeout = setTimeout(
+      () => setIsExpired(true),
+      Math.max(0, expiresAt.getTime() - Date.now())
+    );
+    return () => clearTimeout(timeout);
+  }, [expiresAt]);
+
+  return {
+    reservationToken,
+    expiresAt,
+    isExpired,
+    isReserving: isPending,
+    renew: reserve,
+  };
+}
@@ -0,0 +1,42 @@
+import "server-only";
+import { headers } from "next/headers";
+import { createServerActionProcedure, ZSAError } from "zsa";
+import { requireAdmin } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+/**
+ * Base procedure for every admin server action.
+ *
+ * The admin layout only redirects page visits; server actions can be called
+ * directly, so each one has to check the role itself. Build admin actions
+ * with `adminAction.createServerAction()` instead of `createServerAction()`
+ * and the handler receives the admin's session as `ctx.session`.
+ *
+ * Every call is logged with the acting admin, including reads and exports
+ * the audit log doesn't cover. Procedures aren't told which action they run
+ * for, so the log carries Next's server action ID and the calling page.
+ */
+export const adminAction = createServerActionProcedure()
+  .handler(async () => {
+    const session = await requireAdmin();
+
+    if (!session) {
+      throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+    }
+
+    await withRateLimit(async () => undefined, {
+      ...RATE_LIMITS.ADMIN_ACTION,
+      userIdentifier: session.user.id,
+    });
+
+    const headersList = await headers();
+    console.log(JSON.stringify({
+      event: "admin_action",
+      userId: session.user.id,
+      email: session.user.email,
+      actionId: headersList.get("next-action"),
+      page: headersList.get("referer"),
+    }));
+
+    return { session };
+  });
@@ -0,0 +1,42 @@
+import "server-only";
+import { createServerActionProcedure, ZSAError } from "zsa";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { driverTable } from "@/db/schema";
+import { requireDriver } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+/**
+ * Base procedure for every driver run sheet action.
+ *
+ * Drivers only ever act on their own route, so besides the role check this
+ * resolves the driver profile linked to the login. Build driver actions with
+ * `driverAction.createServerAction()`; the handler receives `ctx.session` and
+ * `ctx.driver`.
+ */
+export const driverAction = createServerActionProcedure()
+  .handler(async () => {
+    const session = await requireDriver();
+
+    if (!session) {
+      throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+    }
+
+    await withRateLimit(async () => undefined, {
+      ...RATE_LIMITS.DRIVER_ACTION,
+      userIdentifier: session.user.id,
+    });
+
+    const db = getDB();
+    const [driver] = await db
+      .select()
+      .from(driverTable)
+      .where(eq(driverTable.userId, session.user.id))
+      .limit(1);
+
+    if (!driver) {
+      throw new ZSAError("FORBIDDEN", "No driver profile is linked to your account");
+    }
+
+    return { session, driver };
+  });
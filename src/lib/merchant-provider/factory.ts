@@ -1,27 +1,47 @@
 import "server-only";
 import type { IMerchantProvider, MerchantProviderType } from "./types";
 
-let providerInstance: IMerchantProvider | null = null;
+const providerInstances = new Map<MerchantProviderType, IMerchantProvider>();
 
-export async function getMerchantProvider(): Promise<IMerchantProvider> {
-	if (providerInstance) return providerInstance;
+/**
+ * Get a merchant provider. Without a type this is the active provider used
+ * for new payments (MERCHANT_PROVIDER); pass an order's merchantProvider to
+ * refund or look up payments taken by a different processor.
+ */
+export async function getMerchantProvider(
+	providerType: MerchantProviderType = getCurrentProviderType()
+): Promise<IMerchantProvider> {
+	const cached = providerInstances.get(providerType);
+	if (cached) return cached;
 
-	const providerType = (process.env.MERCHANT_PROVIDER ||
-		"square") as MerchantProviderType;
+	let provider: IMerchantProvider;
 
 	switch (providerType) {
 		case "square": {
 			// Use fetch-based provider (Edge runtime compatible)
 			const { SquareFetchProvider } = await import("./providers/square-fetch");
-			providerInstance = new SquareFetchProvider();
+			provider = new SquareFetchProvider();
+			break;
+		}
+		case "stripe": {
+			// Use fetch-based provider (Edge runtime compatible)
+			const { StripeFetchProvider } = await import("./providers/stripe-fetch");
+			provider = new StripeFetchProvider();
+			break;
+		}
+		case "mock": {
+			// Offline provider for local development and integration tests
+			const { MockMerchantProvider } = await import("./providers/mock");
+			provider = new MockMerchantProvider();
 			break;
 		}
 		default:
 			throw new Error(`Unknown merchant provider: ${providerType}`);
 	}
 
-	await providerInstance.initialize();
-	return providerInstance;
+	await provider.initialize();
+	providerInstances.set(providerType, provider);
+	return provider;
 }
 
 // Helper to get current provider type without initializing
@@ -29,7 +49,7 @@ export function getCurrentProviderType(): MerchantProviderType {
 	return (process.env.MERCHANT_PROVIDER || "square") as MerchantProviderType;
 }
 
-// Reset provider instance (useful for testing)
+// Reset provider instances (useful for testing)
 export function resetProviderInstance(): void {
-	providerInstance = null;
+	providerInstances.clear();
 }
@@ -11,6 +11,15 @@ export const PROVIDER_FEE_CONFIG: Record<MerchantProviderType, FeeConfig> = {
 		percentageFee: 290, // 2.9%
 		fixedFee: 30, // $0.30
 	},
+	stripe: {
+		percentageFee: 290, // 2.9%
+		fixedFee: 30, // $0.30
+	},
+	// Mirrors Square so revenue reports look realistic in local development
+	mock: {
+		percentageFee: 290,
+		fixedFee: 30,
+	},
 };
 
 export interface FeeCalculationResult {
@@ -63,3 +72,41 @@ export function calculateMerchantFee({
 		netAmount,
 	};
 }
+
+/**
+ * Recalculate merchant fees after refunds
+ * Providers return the percentage portion of the fee on the refunded amount
+ * but keep the fixed fee, so only the percentage is recalculated.
+ *
+ * Example:
+ * Order total: $25.00, refunded: $10.00
+ * - Percentage amount: 1500 * 290 / 10000 = 43.5 → 44 cents
+ * - Total fee: 44 + 30 = 74 cents
+ * - Net amount: 2500 - 1000 - 74 = 1426 cents ($14.26)
+ */
+export function calculateRefundAdjustedMerchantFee({
+	orderAmount,
+	refundedAmount,
+	merchantProvider,
+}: {
+	orderAmount: number;
+	refundedAmount: number;
+	merchantProvider: MerchantProviderType;
+}): FeeCalculationResult {
+	const config = PROVIDER_FEE_CONFIG[merchantProvider];
+	const retainedAmount = Math.max(orderAmount - refundedAmount, 0);
+
+	const percentageFeeAmount = Math.round(
+		(retainedAmount * config.percentageFee) / 10000
+	);
+
+	const totalFee = percentageFeeAmount + config.fixedFee;
+
+	return {
+		orderAmount,
+		percentageFee: config.percentageFee,
+		fixedFee: config.fixedFee,
+		totalFee,
+		netAmount: retainedAmount - totalFee,
+	};
+}
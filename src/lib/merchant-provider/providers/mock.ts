@@ -0,0 +1,307 @@
+import "server-only";
+import type {
+  IMerchantProvider,
+  CheckoutOptions,
+  CheckoutResult,
+  PaymentCreateOptions,
+  PaymentCreateResult,
+  WebhookEvent,
+  WebhookResult,
+  ProductCreateOptions,
+  ProductCreateResult,
+  RefundOptions,
+  RefundResult,
+  PaymentDetails,
+  PaymentListOptions,
+} from "../types";
+import { PaymentDeclinedError } from "../types";
+import { getDB } from "@/db";
+import { orderTable, PAYMENT_STATUS } from "@/db/schema";
+import { and, eq, gte, isNotNull, lte } from "drizzle-orm";
+import { calculateTax } from "@/utils/tax";
+
+/**
+ * Offline merchant provider for local development and integration tests.
+ *
+ * Nothing leaves the process: payments are approved locally, webhooks are
+ * signed with a local HMAC secret and payment lookups read the order table.
+ * Failure scenarios are picked with MOCK_MERCHANT_SCENARIO, or per payment
+ * by passing one of the MOCK_CARD_TOKENS as the source ID.
+ */
+
+export type MockMerchantScenario = "success" | "declined" | "timeout" | "partial_refund";
+
+const MOCK_SCENARIOS: MockMerchantScenario[] = ["success", "declined", "timeout", "partial_refund"];
+
+// Source IDs that force a scenario for a single payment
+export const MOCK_CARD_TOKENS = {
+  success: "mock-card-ok",
+  declined: "mock-card-declined",
+  timeout: "mock-card-timeout",
+} as const;
+
+const DEFAULT_WEBHOOK_SECRET = "mock_webhook_secret";
+const DEFAULT_TIMEOUT_MS = 1000;
+
+function getScenario(): MockMerchantScenario {
+  const scenario = process.env.MOCK_MERCHANT_SCENARIO as MockMerchantScenario | undefined;
+  return scenario && MOCK_SCENARIOS.includes(scenario) ? scenario : "success";
+}
+
+function getWebhookSecret(): string {
+  return process.env.MOCK_MERCHANT_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET;
+}
+
+/**
+ * Wait like a hung processor would, then fail the request
+ */
+async function simulateTimeout(): Promise<never> {
+  const timeoutMs = Number(process.env.MOCK_MERCHANT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+  throw new Error(`Mock merchant request timed out after ${timeoutMs}ms`);
+}
+
+function mockId(prefix: string): string {
+  return `mock_${prefix}_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Sign a webhook body the same way Square does:
+ * base64(HMAC-SHA256(notification_url + body)). Tests use this to send
+ * events to /api/webhooks/square that the mock provider will accept.
+ */
+export async function signMockWebhook(body: string, webhookUrl: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getWebhookSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${webhookUrl}${body}`));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+export class MockMerchantProvider implements IMerchantProvider {
+  readonly name = "mock" as const;
+
+  async initialize(): Promise<void> {
+    if (process.env.NODE_ENV === "production" && process.env.MOCK_MERCHANT_ALLOW_PRODUCTION !== "true") {
+      throw new Error("The mock merchant provider cannot be used in production");
+    }
+  }
+
+  async createCheckout(options: CheckoutOptions): Promise<CheckoutResult> {
+    if (getScenario() === "timeout") {
+      await simulateTimeout();
+    }
+
+    // There is no hosted page, so send the customer straight to the success URL
+    const sessionId = mockId("checkout");
+    const url = options.successUrl.replace(/\{CHECKOUT_SESSION_ID\}/, sessionId) + "&provider=mock";
+
+    console.log(`[Mock Merchant] Checkout ${sessionId} for ${options.lineItems.length} line item(s)`);
+
+    return {
+      sessionId,
+      url,
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    };
+  }
+
+  async createPayment(options: PaymentCreateOptions): Promise<PaymentCreateResult> {
+    const scenario =
+      options.sourceId === MOCK_CARD_TOKENS.declined ? "declined"
+      : options.sourceId === MOCK_CARD_TOKENS.timeout ? "timeout"
+      : options.sourceId === MOCK_CARD_TOKENS.success ? "success"
+      : getScenario();
+
+    if (scenario === "timeout") {
+      await simulateTimeout();
+    }
+
+    if (scenario === "declined") {
+      throw new PaymentDeclinedError("Mock merchant error: CARD_DECLINED: Card was declined");
+    }
+
+    // Same order-level tax Square would apply
+    const subtotal = options.lineItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const tax = calculateTax(subtotal);
+    // Like a real processor, retries with the same idempotency key get the same payment
+    const paymentId = options.idempotencyKey ? `mock_pay_${options.idempotencyKey}` : mockId("pay");
+
+    console.log(`[Mock Merchant] Payment ${paymentId} approved for ${subtotal + tax} cents`);
+
+    return {
+      paymentId,
+      providerOrderId: mockId("order"),
+      status: "paid",
+      tax,
+      totalAmount: subtotal + tax,
+    };
+  }
+
+  async verifyWebhook(body: string, signature: string, webhookUrl?: string): Promise<WebhookEvent> {
+    const expectedSignature = await signMockWebhook(body, webhookUrl || "");
+
+    if (signature !== expectedSignature) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    return this.parseWebhookEvent(body);
+  }
+
+  parseWebhookEvent(body: string): WebhookEvent {
+    const event = JSON.parse(body);
+
+    return {
+      id: event.event_id || crypto.randomUUID(),
+      type: event.type,
+      createdAt: event.created_at ? new Date(event.created_at) : new Date(),
+      data: event.data,
+    };
+  }
+
+  /**
+   * Handles Square-shaped payment events for orders that already exist
+   * (created by createPayment). There is no remote catalog order to build
+   * a new order from.
+   */
+  async handleWebhook(event: WebhookEvent): Promise<WebhookResult> {
+    if (event.type !== "payment.created" && event.type !== "payment.updated") {
+      return { processed: false };
+    }
+
+    const payment = (event.data as { object?: { payment?: unknown } })?.object
+      ?.payment as { id: string; status: string } | null;
+
+    if (!payment) {
+      return { processed: false, error: "No payment data" };
+    }
+
+    const paymentStatus = this.mapPaymentStatus(payment.status);
+
+    const db = getDB();
+    const order = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.paymentIntentId, payment.id))
+      .get();
+
+    if (!order) {
+      return { processed: false, paymentStatus, error: `No order for payment ${payment.id}` };
+    }
+
+    if (paymentStatus === "failed" && order.paymentStatus !== PAYMENT_STATUS.FAILED) {
+      await db
+        .update(orderTable)
+        .set({ paymentStatus: PAYMENT_STATUS.FAILED, updatedAt: new Date() })
+        .where(eq(orderTable.id, order.id));
+    }
+
+    return { processed: true, orderId: order.id, paymentStatus };
+  }
+
+  async createProduct(options: ProductCreateOptions): Promise<ProductCreateResult> {
+    const variantIds: Record<string, string> = {};
+    for (const variant of options.variants || []) {
+      variantIds[variant.id] = mockId("variation");
+    }
+
+    return {
+      productId: mockId("item"),
+      priceId: mockId("variation"),
+      variantIds,
+    };
+  }
+
+  async refundPayment(options: RefundOptions): Promise<RefundResult> {
+    const scenario = getScenario();
+
+    if (scenario === "timeout") {
+      await simulateTimeout();
+    }
+
+    const payment = await this.getPayment(options.paymentId);
+    const requested = options.amount ?? payment.amount;
+
+    if (scenario === "declined") {
+      return { refundId: mockId("refund"), status: "failed", amount: requested };
+    }
+
+    // The processor only returns part of what was asked for
+    const amount = scenario === "partial_refund" ? Math.floor(requested / 2) : requested;
+
+    console.log(`[Mock Merchant] Refunded ${amount} of ${requested} cents for ${options.paymentId}`);
+
+    return {
+      refundId: mockId("refund"),
+      status: "succeeded",
+      amount,
+    };
+  }
+
+  async getPayment(paymentId: string): Promise<PaymentDetails> {
+    const db = getDB();
+    const order = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.paymentIntentId, paymentId))
+      .get();
+
+    if (!order) {
+      throw new Error(`Mock merchant error: NOT_FOUND: Payment ${paymentId} not found`);
+    }
+
+    return {
+      id: paymentId,
+      status: order.paymentStatus as PaymentDetails["status"],
+      amount: order.totalAmount,
+      currency: "USD",
+      createdAt: order.createdAt,
+      referenceId: order.id,
+    };
+  }
+
+  async listPayments(options: PaymentListOptions): Promise<PaymentDetails[]> {
+    const db = getDB();
+    const orders = await db
+      .select()
+      .from(orderTable)
+      .where(
+        and(
+          eq(orderTable.merchantProvider, "mock"),
+          isNotNull(orderTable.paymentIntentId),
+          gte(orderTable.createdAt, options.beginTime),
+          lte(orderTable.createdAt, options.endTime)
+        )
+      );
+
+    return orders.map((order) => ({
+      id: order.paymentIntentId!,
+      status: order.paymentStatus as PaymentDetails["status"],
+      amount: order.totalAmount,
+      currency: "USD",
+      createdAt: order.createdAt,
+      referenceId: order.id,
+    }));
+  }
+
+  private mapPaymentStatus(
+    status: string
+  ): "pending" | "paid" | "failed" | "refunded" {
+    switch (status) {
+      case "COMPLETED":
+        return "paid";
+      case "FAILED":
+      case "CANCELED":
+        return "failed";
+      default:
+        return "pending";
+    }
+  }
+}
@@ -3,6 +3,8 @@ import type {
   IMerchantProvider,
   CheckoutOptions,
   CheckoutResult,
+  PaymentCreateOptions,
+  PaymentCreateResult,
   WebhookEvent,
   WebhookResult,
   ProductCreateOptions,
@@ -10,8 +12,10 @@ import type {
   RefundOptions,
   RefundResult,
   PaymentDetails,
+  PaymentListOptions,
   OrderItemCustomizations,
 } from "../types";
+import { PaymentDeclinedError } from "../types";
 import { getDB } from "@/db";
 import {
   orderTable,
@@ -20,10 +24,16 @@ import {
   merchantFeeTable,
   userTable,
   ORDER_STATUS,
+  ORDER_STATUS_EVENT_FIELD,
   PAYMENT_STATUS,
+  NOTIFICATION_TYPE,
 } from "@/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { calculateMerchantFee } from "../fee-calculator";
+import { adjustInventory, getSelectedVariantId } from "@/utils/inventory";
+import { getOrderTrackingUrl } from "@/utils/order-tracking";
+import { recordOrderStatusEvent } from "@/utils/order-status-events";
+import { getOrderNumber } from "@/utils/order-number";
 
 /**
  * Square provider implementation using fetch API (Edge runtime compatible)
@@ -85,6 +95,11 @@ export class SquareFetchProvider implements IMerchantProvider {
         return `${err.code || 'UNKNOWN'}: ${err.detail || 'No detail'}${err.field ? ` (field: ${err.field})` : ''}`;
       }).join(', ') || response.statusText;
 
+      // Square puts card declines in the PAYMENT_METHOD_ERROR category
+      if (errors?.some((err) => err.category === "PAYMENT_METHOD_ERROR")) {
+        throw new PaymentDeclinedError(`Square API error: ${errorDetails}`);
+      }
+
       throw new Error(`Square API error: ${errorDetails}`);
     }
 
@@ -164,6 +179,85 @@ export class SquareFetchProvider implements IMerchantProvider {
     };
   }
 
+  /**
+   * Charge a card tokenized by the Web Payments SDK.
+   * Square calculates the tax, so an order is created first and the payment
+   * is linked to it.
+   */
+  async createPayment(options: PaymentCreateOptions): Promise<PaymentCreateResult> {
+    // Step 1: Create an order with line items and taxes
+    const orderResponse = await this.request<{
+      order: {
+        id: string;
+        total_money: { amount: number; currency: string };
+        total_tax_money: { amount: number; currency: string };
+      };
+    }>("/v2/orders", {
+      method: "POST",
+      body: JSON.stringify({
+        // Retrying a checkout attempt returns the same Square order and payment
+        idempotency_key: options.idempotencyKey ? `${options.idempotencyKey}-order` : crypto.randomUUID(),
+        order: {
+          location_id: this.locationId,
+          reference_id: options.referenceId,
+          line_items: options.lineItems.map((item) => ({
+            name: item.name,
+            quantity: String(item.quantity),
+            base_price_money: {
+              amount: item.price,
+              currency: "USD",
+            },
+          })),
+          // Apply Idaho sales tax (6%) at order level
+          taxes: [
+            {
+              uid: "idaho-sales-tax",
+              name: "Idaho Sales Tax",
+              percentage: "6.0",
+              scope: "ORDER",
+            },
+          ],
+        },
+      }),
+    });
+
+    const squareOrder = orderResponse.order;
+    const subtotal = options.lineItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const tax = squareOrder.total_tax_money?.amount || 0;
+    const totalAmount = squareOrder.total_money?.amount || (subtotal + tax);
+
+    // Step 2: Create payment and link it to the order
+    const paymentResponse = await this.request<{ payment: { id: string; status: string } }>("/v2/payments", {
+      method: "POST",
+      body: JSON.stringify({
+        idempotency_key: options.idempotencyKey || crypto.randomUUID(),
+        source_id: options.sourceId,
+        amount_money: {
+          amount: totalAmount,
+          currency: "USD",
+        },
+        location_id: this.locationId,
+        buyer_email_address: options.customerEmail,
+        note: options.note,
+        order_id: squareOrder.id, // Link payment to order
+        reference_id: options.referenceId,
+      }),
+    });
+
+    const payment = paymentResponse.payment;
+
+    return {
+      paymentId: payment.id,
+      providerOrderId: squareOrder.id,
+      status: this.mapPaymentStatus(payment.status),
+      tax,
+      totalAmount,
+    };
+  }
+
   async verifyWebhook(body: string, signature: string, webhookUrl?: string): Promise<WebhookEvent> {
     const webhookSecret = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
     if (!webhookSecret) {
@@ -242,6 +336,10 @@ export class SquareFetchProvider implements IMerchantProvider {
 
     console.log(`[Square Webhook] ✓ Signature verified with URL: "${matchedUrl || '(body only)'}"`);
 
+    return this.parseWebhookEvent(body);
+  }
+
+  parseWebhookEvent(body: string): WebhookEvent {
     const event = JSON.parse(body);
 
     return {
@@ -258,15 +356,154 @@ export class SquareFetchProvider implements IMerchantProvider {
       case "payment.updated":
         return await this.handlePaymentEvent(event);
 
+      case "refund.created":
+      case "refund.updated":
+        return await this.handleRefundEvent(event);
+
       case "order.created":
       case "order.updated":
         return { processed: true };
 
       default:
+        // dispute.created, dispute.state.updated, dispute.evidence.*, ...
+        if (event.type.startsWith("dispute.")) {
+          return await this.handleDisputeEvent(event);
+        }
         return { processed: false };
     }
   }
 
+  /**
+   * Keep the refund ledger in sync, including refunds issued from the
+   * Square Dashboard
+   */
+  private async handleRefundEvent(event: WebhookEvent): Promise<WebhookResult> {
+    const refund = (event.data as { object?: { refund?: unknown } })?.object
+      ?.refund as {
+        id: string;
+        status: string;
+        payment_id: string;
+        amount_money?: { amount: number };
+      } | null;
+
+    if (!refund) {
+      return { processed: false, error: "No refund data" };
+    }
+
+    const { syncProviderRefund } = await import("@/utils/refunds");
+
+    const result = await syncProviderRefund({
+      paymentId: refund.payment_id,
+      providerRefundId: refund.id,
+      amount: Number(refund.amount_money?.amount ?? 0),
+      status:
+        refund.status === "COMPLETED"
+          ? "succeeded"
+          : refund.status === "REJECTED" || refund.status === "FAILED"
+            ? "failed"
+            : "pending",
+    });
+
+    if (!result) {
+      return { processed: false, error: `No order for payment ${refund.payment_id}` };
+    }
+
+    const order = await getDB()
+      .select({ paymentStatus: orderTable.paymentStatus })
+      .from(orderTable)
+      .where(eq(orderTable.id, result.orderId))
+      .get();
+
+    return {
+      processed: true,
+      orderId: result.orderId,
+      paymentStatus: order?.paymentStatus as WebhookResult["paymentStatus"],
+    };
+  }
+
+  /**
+   * Flag disputed payments and settle them once the bank decides
+   */
+  private async handleDisputeEvent(event: WebhookEvent): Promise<WebhookResult> {
+    const dispute = (event.data as { object?: { dispute?: unknown } })?.object
+      ?.dispute as {
+        id: string;
+        state: string;
+        disputed_payment?: { payment_id?: string };
+      } | null;
+
+    const paymentId = dispute?.disputed_payment?.payment_id;
+    if (!dispute || !paymentId) {
+      return { processed: false, error: "No dispute data" };
+    }
+
+    const db = getDB();
+    const order = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.paymentIntentId, paymentId))
+      .get();
+
+    if (!order) {
+      return { processed: false, error: `No order for payment ${paymentId}` };
+    }
+
+    // Any order that was paid can be disputed, including refunded ones
+    const wasPaid =
+      order.paymentStatus === PAYMENT_STATUS.PAID ||
+      order.paymentStatus === PAYMENT_STATUS.DISPUTED ||
+      order.paymentStatus === PAYMENT_STATUS.REFUNDED;
+
+    if (!wasPaid) {
+      console.warn(
+        `[Square] Skipping dispute ${dispute.id} (${dispute.state}): order ${order.id} payment is ${order.paymentStatus}`
+      );
+      return {
+        processed: false,
+        orderId: order.id,
+        error: `Order ${order.id} was never paid (payment is ${order.paymentStatus})`,
+      };
+    }
+
+    let paymentStatus: typeof PAYMENT_STATUS[keyof typeof PAYMENT_STATUS];
+    switch (dispute.state) {
+      case "WON":
+      case "INQUIRY_CLOSED": {
+        // Back to whatever the refund ledger says
+        const { getRefundedAmount } = await import("@/utils/refunds");
+        const refunded = await getRefundedAmount(order.id);
+        paymentStatus = refunded >= order.totalAmount
+          ? PAYMENT_STATUS.REFUNDED
+          : PAYMENT_STATUS.PAID;
+        break;
+      }
+      case "LOST":
+      case "ACCEPTED":
+        // The bank returned the money to the cardholder
+        paymentStatus = PAYMENT_STATUS.REFUNDED;
+        break;
+      default:
+        paymentStatus = PAYMENT_STATUS.DISPUTED;
+    }
+
+    if (order.paymentStatus !== paymentStatus) {
+      await db
+        .update(orderTable)
+        .set({ paymentStatus, updatedAt: new Date() })
+        .where(eq(orderTable.id, order.id));
+
+      console.log(
+        `[Square] Dispute ${dispute.id} is ${dispute.state}, order ${order.id} payment is now ${paymentStatus}`
+      );
+    }
+
+    return {
+      processed: true,
+      orderId: order.id,
+      paymentStatus: paymentStatus as WebhookResult["paymentStatus"],
+    };
+  }
+
   private async handlePaymentEvent(
     event: WebhookEvent
   ): Promise<WebhookResult> {
@@ -282,6 +519,7 @@ export class SquareFetchProvider implements IMerchantProvider {
         status: string;
         order_id?: string;
         buyer_email_address?: string;
+        reference_id?: string;
       } | null;
 
     if (!payment) {
@@ -332,6 +570,25 @@ export class SquareFetchProvider implements IMerchantProvider {
       };
     }
 
+    // Checkout page payments carry our order ID. If that order isn't paid yet,
+    // checkout is still finishing it (or payment reconciliation will), so
+    // don't build a duplicate order from the Square order
+    if (payment.reference_id) {
+      const referencedOrder = await db
+        .select({ id: orderTable.id })
+        .from(orderTable)
+        .where(eq(orderTable.id, payment.reference_id))
+        .get();
+
+      if (referencedOrder) {
+        return {
+          processed: true,
+          orderId: referencedOrder.id,
+          paymentStatus: "paid",
+        };
+      }
+    }
+
     // Get order details from Square
     const orderResult = await this.request<{
       order: {
@@ -446,6 +703,14 @@ export class SquareFetchProvider implements IMerchantProvider {
       })
       .returning();
 
+    await recordOrderStatusEvent({
+      orderId: order.id,
+      field: ORDER_STATUS_EVENT_FIELD.STATUS,
+      fromStatus: null,
+      toStatus: ORDER_STATUS.PENDING,
+      note: "Payment confirmed",
+    });
+
     // Calculate and record merchant fee
     const feeCalculation = calculateMerchantFee({
       orderAmount: order.totalAmount,
@@ -475,83 +740,89 @@ export class SquareFetchProvider implements IMerchantProvider {
           ? JSON.stringify(item.customizations)
           : null,
       });
-
-      // Reduce inventory
-      await db
-        .update(productTable)
-        .set({
-          quantityAvailable: sql`${productTable.quantityAvailable} - ${item.quantity}`,
-        })
-        .where(eq(productTable.id, item.productId));
     }
 
-    // Send confirmation email
-    try {
-      const { sendOrderConfirmationEmail } = await import("@/utils/email");
-
-      if (customerEmail) {
-        // Prepare delivery address
-        let deliveryAddressFormatted: string | null = null;
-        if (order.deliveryAddressJson && order.deliveryAddressJson !== "null") {
-          try {
-            const addr = JSON.parse(order.deliveryAddressJson);
-            deliveryAddressFormatted = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
-          } catch {
-            deliveryAddressFormatted = null;
+    // Reduce inventory (size variant stock for variant products)
+    await adjustInventory(
+      items.map((item) => ({
+        productId: item.productId,
+        variantId: getSelectedVariantId(item.customizations),
+        quantity: -item.quantity,
+      }))
+    );
+
+    // Send confirmation email (and SMS for customers who opted in)
+    if (customerEmail) {
+      const { dispatchOrderNotification } = await import("@/utils/notifications");
+
+      await dispatchOrderNotification({
+        orderId: order.id,
+        type: NOTIFICATION_TYPE.ORDER_CONFIRMATION,
+        sendConfirmationEmail: async () => {
+          const { sendOrderConfirmationEmail } = await import("@/utils/email");
+
+          // Prepare delivery address
+          let deliveryAddressFormatted: string | null = null;
+          if (order.deliveryAddressJson && order.deliveryAddressJson !== "null") {
+            try {
+              const addr = JSON.parse(order.deliveryAddressJson);
+              deliveryAddressFormatted = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
+            } catch {
+              deliveryAddressFormatted = null;
+            }
           }
-        }
 
-        // Fetch pickup location if needed
-        let pickupLocationFormatted: { name: string; address: string } | null = null;
-        if (order.pickupLocationId) {
-          const { pickupLocationTable } = await import("@/db/schema");
-          const pickupLoc = await db
-            .select()
-            .from(pickupLocationTable)
-            .where(eq(pickupLocationTable.id, order.pickupLocationId))
-            .get();
-
-          if (pickupLoc) {
-            let pickupAddress = "";
-            if (pickupLoc.address && pickupLoc.address !== "null") {
-              try {
-                const addr = JSON.parse(pickupLoc.address);
-                pickupAddress = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
-              } catch {
-                pickupAddress = pickupLoc.address;
+          // Fetch pickup location if needed
+          let pickupLocationFormatted: { name: string; address: string } | null = null;
+          if (order.pickupLocationId) {
+            const { pickupLocationTable } = await import("@/db/schema");
+            const pickupLoc = await db
+              .select()
+              .from(pickupLocationTable)
+              .where(eq(pickupLocationTable.id, order.pickupLocationId))
+              .get();
+
+            if (pickupLoc) {
+              let pickupAddress = "";
+              if (pickupLoc.address && pickupLoc.address !== "null") {
+                try {
+                  const addr = JSON.parse(pickupLoc.address);
+                  pickupAddress = `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
+                } catch {
+                  pickupAddress = pickupLoc.address;
+                }
               }
+              pickupLocationFormatted = {
+                name: pickupLoc.name,
+                address: pickupAddress,
+              };
             }
-            pickupLocationFormatted = {
-              name: pickupLoc.name,
-              address: pickupAddress,
-            };
           }
-        }
 
-        await sendOrderConfirmationEmail({
-          email: customerEmail,
-          customerName,
-          orderNumber: order.id.substring(4, 12).toUpperCase(),
-          orderItems: items.map((item) => ({
-            name: item.name,
-            quantity: item.quantity,
-            price: item.price,
-          })),
-          subtotal,
-          tax,
-          deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
-          total: totalAmount,
-          fulfillmentMethod: (order.fulfillmentMethod as "delivery" | "pickup" | null) || null,
-          deliveryDate: order.deliveryDate || null,
-          deliveryTimeWindow: order.deliveryTimeWindow || null,
-          deliveryAddress: deliveryAddressFormatted,
-          pickupDate: order.pickupDate || null,
-          pickupTimeWindow: order.pickupTimeWindow || null,
-          pickupLocation: pickupLocationFormatted,
-        });
-      }
-    } catch (error) {
-      console.error("[Square] Error sending confirmation email:", error);
+          await sendOrderConfirmationEmail({
+            email: customerEmail,
+            customerName,
+            orderNumber: getOrderNumber(order.id),
+            orderItems: items.map((item) => ({
+              name: item.name,
+              quantity: item.quantity,
+              price: item.price,
+            })),
+            subtotal,
+            tax,
+            deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
+            total: totalAmount,
+            fulfillmentMethod: (order.fulfillmentMethod as "delivery" | "pickup" | null) || null,
+            deliveryDate: order.deliveryDate || null,
+            deliveryTimeWindow: order.deliveryTimeWindow || null,
+            deliveryAddress: deliveryAddressFormatted,
+            pickupDate: order.pickupDate || null,
+            pickupTimeWindow: order.pickupTimeWindow || null,
+            pickupLocation: pickupLocationFormatted,
+            trackingUrl: getOrderTrackingUrl(order.trackingToken),
+          });
+        },
+      });
     }
 
     // Send admin notification email
@@ -608,7 +879,7 @@ export class SquareFetchProvider implements IMerchantProvider {
         customerName,
         customerEmail: customerEmail || "No email provided",
         customerPhone: customerPhone || null,
-        orderNumber: order.id.substring(4, 12).toUpperCase(),
+        orderNumber: getOrderNumber(order.id),
         orderId: order.id,
         orderItems: itemsWithCustomizations,
         subtotal,
@@ -760,6 +1031,7 @@ export class SquareFetchProvider implements IMerchantProvider {
         status: string;
         total_money: { amount: number; currency: string };
         created_at: string;
+        reference_id?: string;
       };
     }>(`/v2/payments/${paymentId}`);
 
@@ -771,9 +1043,52 @@ export class SquareFetchProvider implements IMerchantProvider {
       amount: payment.total_money.amount,
       currency: payment.total_money.currency,
       createdAt: new Date(payment.created_at),
+      referenceId: payment.reference_id,
     };
   }
 
+  async listPayments(options: PaymentListOptions): Promise<PaymentDetails[]> {
+    const payments: PaymentDetails[] = [];
+    let cursor: string | undefined;
+
+    // Square pages results (100 per page) with a cursor
+    do {
+      const params = new URLSearchParams({
+        begin_time: options.beginTime.toISOString(),
+        end_time: options.endTime.toISOString(),
+        location_id: this.locationId,
+        sort_order: "ASC",
+      });
+      if (cursor) params.set("cursor", cursor);
+
+      const result = await this.request<{
+        payments?: Array<{
+          id: string;
+          status: string;
+          total_money: { amount: number; currency: string };
+          created_at: string;
+          reference_id?: string;
+        }>;
+        cursor?: string;
+      }>(`/v2/payments?${params.toString()}`);
+
+      for (const payment of result.payments || []) {
+        payments.push({
+          id: payment.id,
+          status: this.mapPaymentStatus(payment.status),
+          amount: payment.total_money.amount,
+          currency: payment.total_money.currency,
+          createdAt: new Date(payment.created_at),
+          referenceId: payment.reference_id,
+        });
+      }
+
+      cursor = result.cursor;
+    } while (cursor);
+
+    return payments;
+  }
+
   private mapPaymentStatus(
     status: string
   ): "pending" | "paid" | "failed" | "refunded" {
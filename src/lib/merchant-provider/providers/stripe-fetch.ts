@@ -0,0 +1,824 @@
+import "server-only";
+import type {
+  IMerchantProvider,
+  CheckoutOptions,
+  CheckoutResult,
+  PaymentCreateOptions,
+  PaymentCreateResult,
+  PaymentPrepareOptions,
+  PaymentPrepareResult,
+  WebhookEvent,
+  WebhookResult,
+  ProductCreateOptions,
+  ProductCreateResult,
+  RefundOptions,
+  RefundResult,
+  PaymentDetails,
+  PaymentListOptions,
+  OrderItemCustomizations,
+} from "../types";
+import { PaymentDeclinedError } from "../types";
+import { getDB } from "@/db";
+import {
+  orderTable,
+  productTable,
+  userTable,
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  NOTIFICATION_TYPE,
+} from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { calculateTax } from "@/utils/tax";
+import { getOrderTrackingUrl } from "@/utils/order-tracking";
+import { calculateMerchantFee } from "../fee-calculator";
+import { getOrderNumber } from "@/utils/order-number";
+import { createPendingPaymentOrder, finalizePaidOrder } from "@/utils/order-persistence";
+import { hmac, timingSafeEqual, toHex } from "@/utils/signature";
+
+const STRIPE_API_URL = "https://api.stripe.com";
+const STRIPE_API_VERSION = "2024-06-20";
+
+// Reject webhook events signed more than 5 minutes ago (replay protection)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Stripe metadata values are limited to 500 characters
+const MAX_METADATA_VALUE_LENGTH = 500;
+
+type FormValue = string | number | boolean | null | undefined | FormObject | FormValue[];
+interface FormObject {
+  [key: string]: FormValue;
+}
+
+/**
+ * Encode nested params the way Stripe expects them:
+ * { line_items: [{ price: "p" }] } -> line_items[0][price]=p
+ */
+function encodeForm(params: FormObject): string {
+  const pairs: string[] = [];
+
+  const append = (key: string, value: FormValue) => {
+    if (value === undefined || value === null) return;
+
+    if (Array.isArray(value)) {
+      value.forEach((entry, index) => append(`${key}[${index}]`, entry));
+    } else if (typeof value === "object") {
+      for (const [childKey, childValue] of Object.entries(value)) {
+        append(`${key}[${childKey}]`, childValue);
+      }
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    append(key, value);
+  }
+
+  return pairs.join("&");
+}
+
+interface StripePaymentIntent {
+  id: string;
+  status: string;
+  amount: number;
+  amount_received?: number;
+  currency: string;
+  created: number;
+  client_secret?: string;
+  metadata?: Record<string, string>;
+  latest_charge?: { refunded?: boolean } | string | null;
+  last_payment_error?: { message?: string } | null;
+}
+
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  expires_at?: number;
+  payment_status: "paid" | "unpaid" | "no_payment_required";
+  payment_intent: string | null;
+  amount_subtotal?: number;
+  amount_total?: number;
+  customer_details?: { email?: string | null; name?: string | null; phone?: string | null } | null;
+  customer_email?: string | null;
+  metadata?: Record<string, string>;
+  line_items?: {
+    data: Array<{
+      description?: string;
+      quantity?: number;
+      amount_total?: number;
+      price?: {
+        unit_amount?: number;
+        product?: { name?: string; metadata?: Record<string, string> } | string;
+      };
+    }>;
+  };
+}
+
+/**
+ * Stripe provider implementation using fetch API (Edge runtime compatible)
+ * Does NOT use the Stripe SDK, mirroring SquareFetchProvider
+ */
+export class StripeFetchProvider implements IMerchantProvider {
+  readonly name = "stripe" as const;
+  private secretKey: string;
+
+  constructor() {
+    this.secretKey = process.env.STRIPE_SECRET_KEY || "";
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.secretKey) throw new Error("STRIPE_SECRET_KEY not configured");
+  }
+
+  /**
+   * Make a form-encoded request to the Stripe API
+   * @public Exposed for direct API calls (e.g., Payment Element setup)
+   */
+  async request<T = unknown>(
+    endpoint: string,
+    options: { method?: "GET" | "POST"; params?: FormObject; idempotencyKey?: string } = {}
+  ): Promise<T> {
+    const method = options.method || "GET";
+
+    const response = await fetch(`${STRIPE_API_URL}${endpoint}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "Stripe-Version": STRIPE_API_VERSION,
+        ...(options.idempotencyKey && { "Idempotency-Key": options.idempotencyKey }),
+      },
+      body: method === "POST" && options.params ? encodeForm(options.params) : undefined,
+    });
+
+    const data = await response.json() as Record<string, unknown>;
+
+    if (!response.ok) {
+      console.error("[Stripe] API Error Response:", JSON.stringify(data, null, 2));
+      console.error("[Stripe] Status:", response.status);
+
+      const error = data.error as { type?: string; code?: string; decline_code?: string; message?: string; param?: string } | undefined;
+      const errorDetails = error
+        ? `${(error.decline_code || error.code || error.type || "UNKNOWN").toUpperCase()}: ${error.message || "No detail"}${error.param ? ` (param: ${error.param})` : ""}`
+        : response.statusText;
+
+      if (error?.type === "card_error") {
+        throw new PaymentDeclinedError(`Stripe API error: ${errorDetails}`);
+      }
+
+      throw new Error(`Stripe API error: ${errorDetails}`);
+    }
+
+    return data as T;
+  }
+
+  async createCheckout(options: CheckoutOptions): Promise<CheckoutResult> {
+    const subtotal = options.lineItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const tax = calculateTax(subtotal);
+
+    const lineItems: FormObject[] = options.lineItems.map((item) => {
+      const customizations = item.customizations ? JSON.stringify(item.customizations) : undefined;
+
+      return {
+        quantity: item.quantity,
+        price_data: {
+          currency: "usd",
+          unit_amount: item.price,
+          product_data: {
+            name: item.name,
+            description: item.description || undefined,
+            images: item.imageUrl ? [item.imageUrl] : undefined,
+            // Lets the webhook map line items back to our products
+            metadata: {
+              productId: item.productId,
+              customizations:
+                customizations && customizations.length <= MAX_METADATA_VALUE_LENGTH
+                  ? customizations
+                  : undefined,
+            },
+          },
+        },
+      };
+    });
+
+    // Checkout Sessions don't know about Idaho sales tax, so it's its own line
+    if (tax > 0) {
+      lineItems.push({
+        quantity: 1,
+        price_data: {
+          currency: "usd",
+          unit_amount: tax,
+          product_data: {
+            name: "Idaho Sales Tax",
+            metadata: { kind: "tax" },
+          },
+        },
+      });
+    }
+
+    // Filter out empty metadata values
+    const cleanMetadata: Record<string, string> = {};
+    if (options.metadata) {
+      for (const [key, value] of Object.entries(options.metadata)) {
+        if (value && value.trim()) {
+          cleanMetadata[key] = value.slice(0, MAX_METADATA_VALUE_LENGTH);
+        }
+      }
+    }
+
+    // Stripe fills in {CHECKOUT_SESSION_ID} itself
+    const session = await this.request<StripeCheckoutSession>("/v1/checkout/sessions", {
+      method: "POST",
+      idempotencyKey: crypto.randomUUID(),
+      params: {
+        mode: "payment",
+        line_items: lineItems,
+        customer_email: options.customerEmail,
+        success_url: `${options.successUrl}&provider=stripe`,
+        cancel_url: options.cancelUrl,
+        metadata: cleanMetadata,
+        payment_intent_data: {
+          receipt_email: options.customerEmail,
+          metadata: cleanMetadata,
+        },
+      },
+    });
+
+    if (!session.url) {
+      throw new Error("Stripe API error: Checkout session has no URL");
+    }
+
+    return {
+      sessionId: session.id,
+      url: session.url,
+      expiresAt: session.expires_at ? new Date(session.expires_at * 1000) : undefined,
+    };
+  }
+
+  /**
+   * Create the PaymentIntent the Payment Element confirms in the browser.
+   * Stripe doesn't calculate Idaho sales tax, so it's added here. Retries of
+   * a checkout attempt reuse its idempotency key and get the same
+   * PaymentIntent back.
+   */
+  async preparePayment(options: PaymentPrepareOptions): Promise<PaymentPrepareResult> {
+    const subtotal = options.lineItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const tax = calculateTax(subtotal);
+
+    const paymentIntent = await this.request<StripePaymentIntent>("/v1/payment_intents", {
+      method: "POST",
+      idempotencyKey: options.idempotencyKey || crypto.randomUUID(),
+      params: {
+        amount: subtotal + tax,
+        currency: "usd",
+        // Card-only flow: fail instead of requiring a redirect we can't follow
+        automatic_payment_methods: {
+          enabled: true,
+          allow_redirects: "never",
+        },
+        receipt_email: options.customerEmail,
+        description: options.note,
+        metadata: {
+          subtotal,
+          tax,
+          orderId: options.referenceId,
+        },
+      },
+    });
+
+    if (!paymentIntent.client_secret) {
+      throw new Error(`Stripe returned no client secret for ${paymentIntent.id}`);
+    }
+
+    return {
+      paymentId: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+    };
+  }
+
+  /**
+   * Look up a PaymentIntent the client confirmed with the Payment Element.
+   * Nothing is charged here. The PaymentIntent must have been prepared for
+   * this order and amount, so a customer can't pay with someone else's.
+   */
+  async createPayment(options: PaymentCreateOptions): Promise<PaymentCreateResult> {
+    const subtotal = options.lineItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const tax = calculateTax(subtotal);
+    const totalAmount = subtotal + tax;
+
+    const paymentIntent = await this.request<StripePaymentIntent>(
+      `/v1/payment_intents/${encodeURIComponent(options.sourceId)}`
+    );
+
+    if (
+      paymentIntent.metadata?.orderId !== options.referenceId ||
+      paymentIntent.amount !== totalAmount
+    ) {
+      throw new Error(`PaymentIntent ${paymentIntent.id} wasn't prepared for order ${options.referenceId}`);
+    }
+
+    return {
+      paymentId: paymentIntent.id,
+      status: this.mapPaymentStatus(paymentIntent.status),
+      tax,
+      totalAmount,
+    };
+  }
+
+  async verifyWebhook(body: string, signature: string): Promise<WebhookEvent> {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      throw new Error("STRIPE_WEBHOOK_SECRET not configured");
+    }
+
+    // Stripe-Signature: t=<timestamp>,v1=<hex hmac>[,v1=<hex hmac>...]
+    let timestamp: string | null = null;
+    const signatures: string[] = [];
+
+    for (const part of signature.split(",")) {
+      const [key, value] = part.split("=", 2);
+      if (key === "t") timestamp = value;
+      if (key === "v1" && value) signatures.push(value);
+    }
+
+    if (!timestamp || signatures.length === 0) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+    if (!Number.isFinite(age) || Math.abs(age) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new Error("Webhook timestamp outside the tolerance zone");
+    }
+
+    // Stripe signs HMAC-SHA256(`${timestamp}.${body}`, webhook_secret)
+    const expectedSignature = toHex(await hmac("SHA-256", webhookSecret, `${timestamp}.${body}`));
+
+    if (!signatures.some((sig) => timingSafeEqual(sig, expectedSignature))) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    return this.parseWebhookEvent(body);
+  }
+
+  parseWebhookEvent(body: string): WebhookEvent {
+    const event = JSON.parse(body);
+
+    return {
+      id: event.id,
+      type: event.type,
+      createdAt: new Date(event.created * 1000),
+      data: event.data,
+    };
+  }
+
+  async handleWebhook(event: WebhookEvent): Promise<WebhookResult> {
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        return await this.handleCheckoutCompleted(event);
+
+      case "payment_intent.payment_failed":
+        return await this.handlePaymentFailed(event);
+
+      case "payment_intent.succeeded":
+      case "charge.refunded":
+        // Orders are created by createPayment or the checkout event and refunds
+        // are recorded when they are issued, so there is nothing left to do
+        return { processed: true };
+
+      default:
+        return { processed: false };
+    }
+  }
+
+  private async handleCheckoutCompleted(event: WebhookEvent): Promise<WebhookResult> {
+    const eventSession = (event.data as { object?: StripeCheckoutSession })?.object;
+
+    if (!eventSession) {
+      return { processed: false, error: "No checkout session data" };
+    }
+
+    if (eventSession.payment_status !== "paid") {
+      // Delayed payment methods send checkout.session.async_payment_succeeded later
+      return { processed: true, paymentStatus: "pending" };
+    }
+
+    const paymentIntentId = eventSession.payment_intent;
+    if (!paymentIntentId) {
+      return { processed: false, error: "No payment intent on checkout session" };
+    }
+
+    const db = getDB();
+    const existingOrder = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.paymentIntentId, paymentIntentId))
+      .get();
+
+    if (existingOrder?.paymentStatus === PAYMENT_STATUS.PAID) {
+      console.log(`[Stripe] Order already exists for payment ${paymentIntentId}, skipping webhook creation`);
+      return {
+        processed: true,
+        orderId: existingOrder.id,
+        paymentStatus: "paid",
+      };
+    }
+
+    // Webhook payloads don't include line items, so fetch them
+    const session = await this.request<StripeCheckoutSession>(
+      `/v1/checkout/sessions/${eventSession.id}?expand[]=line_items.data.price.product`
+    );
+    const metadata = session.metadata || {};
+
+    const customerEmail = session.customer_details?.email || session.customer_email || "";
+    const customerName = metadata.customerName || session.customer_details?.name || "Guest";
+    const customerPhone = metadata.customerPhone || session.customer_details?.phone || "";
+    let userId = metadata.userId || null;
+
+    // Auto-link order to user if email exists in database
+    if (!userId && customerEmail) {
+      const [existingUser] = await db
+        .select()
+        .from(userTable)
+        .where(eq(userTable.email, customerEmail.toLowerCase()))
+        .limit(1);
+
+      if (existingUser) {
+        userId = existingUser.id;
+        console.log(`[Stripe] Auto-linked order to user ${userId} (${customerEmail})`);
+      }
+    }
+
+    const items: Array<{
+      productId: string;
+      quantity: number;
+      customizations?: OrderItemCustomizations;
+      name: string;
+      price: number;
+    }> = [];
+
+    const allProducts = await db.select().from(productTable);
+    let tax = 0;
+
+    for (const lineItem of session.line_items?.data || []) {
+      const stripeProduct = typeof lineItem.price?.product === "object" ? lineItem.price.product : undefined;
+      const lineMetadata = stripeProduct?.metadata || {};
+
+      if (lineMetadata.kind === "tax") {
+        tax += lineItem.amount_total || 0;
+        continue;
+      }
+
+      const name = stripeProduct?.name || lineItem.description || "";
+      const product =
+        allProducts.find((p) => p.id === lineMetadata.productId) ||
+        allProducts.find((p) => p.name === name);
+      if (!product) continue;
+
+      let customizations: OrderItemCustomizations | undefined;
+      if (lineMetadata.customizations) {
+        try {
+          customizations = JSON.parse(lineMetadata.customizations);
+        } catch {
+          customizations = undefined;
+        }
+      }
+
+      items.push({
+        productId: product.id,
+        quantity: lineItem.quantity || 1,
+        customizations,
+        name,
+        price: lineItem.price?.unit_amount ?? product.price,
+      });
+    }
+
+    if (items.length === 0) {
+      return { processed: false, error: "No valid products" };
+    }
+
+    const subtotal = items.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0
+    );
+    const deliveryFee = metadata.deliveryFee ? parseInt(metadata.deliveryFee) : 0;
+    const totalAmount = session.amount_total || (subtotal + deliveryFee + tax);
+
+    const deliveryAddressJson = metadata.streetAddress1
+      ? JSON.stringify({
+        street: metadata.streetAddress1,
+        street2: metadata.streetAddress2 || null,
+        city: metadata.city || null,
+        state: metadata.state || null,
+        zip: metadata.zipCode || null,
+      })
+      : null;
+
+    // Saved pending with its items in one batch, then finalized in another, so
+    // a failure part way leaves an order the next delivery of this event finishes
+    const pendingOrder = existingOrder ?? await createPendingPaymentOrder({
+      order: {
+        customerEmail,
+        customerName,
+        customerPhone: customerPhone || null,
+        subtotal,
+        tax,
+        totalAmount,
+        merchantProvider: "stripe",
+        paymentIntentId,
+        stripePaymentIntentId: paymentIntentId,
+        userId,
+        // Fulfillment fields from metadata
+        fulfillmentMethod: metadata.fulfillmentMethod as "delivery" | "pickup" | null || null,
+        deliveryDate: metadata.deliveryDate || null,
+        deliveryFee: deliveryFee || null,
+        deliveryZoneId: metadata.deliveryZoneId || null,
+        deliveryTimeWindow: metadata.deliveryTimeWindow || null,
+        pickupDate: metadata.pickupDate || null,
+        pickupLocationId: metadata.pickupLocationId || null,
+        pickupTimeWindow: metadata.pickupTimeWindow || null,
+        deliveryAddressJson,
+      },
+      items,
+    });
+
+    // An order cancelled while the customer was paying stays cancelled; the
+    // unprocessed event is left in the webhook log for an admin to refund
+    if (pendingOrder.status === ORDER_STATUS.CANCELLED) {
+      console.error(`[Stripe] Payment ${paymentIntentId} captured for cancelled order ${pendingOrder.id}`);
+      return { processed: false, orderId: pendingOrder.id, error: "Payment captured for a cancelled order" };
+    }
+
+    const { order, alreadyFinalized } = await finalizePaidOrder({
+      orderId: pendingOrder.id,
+      payment: { paymentId: paymentIntentId, tax, totalAmount },
+      merchantProvider: "stripe",
+    });
+
+    if (alreadyFinalized) {
+      return { processed: true, orderId: order.id, paymentStatus: "paid" };
+    }
+
+    const orderNumber = getOrderNumber(order.id);
+    const deliveryAddressFormatted = metadata.streetAddress1
+      ? `${metadata.streetAddress1}\n${metadata.city}, ${metadata.state} ${metadata.zipCode}`
+      : null;
+    const orderItems = items.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+    }));
+
+    // Send confirmation email (and SMS for customers who opted in)
+    if (customerEmail) {
+      const { dispatchOrderNotification } = await import("@/utils/notifications");
+
+      await dispatchOrderNotification({
+        orderId: order.id,
+        type: NOTIFICATION_TYPE.ORDER_CONFIRMATION,
+        sendConfirmationEmail: async () => {
+          const { sendOrderConfirmationEmail } = await import("@/utils/email");
+
+          await sendOrderConfirmationEmail({
+            email: customerEmail,
+            customerName,
+            orderNumber,
+            orderItems,
+            subtotal,
+            tax,
+            deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
+            total: totalAmount,
+            fulfillmentMethod: (order.fulfillmentMethod as "delivery" | "pickup" | null) || null,
+            deliveryDate: order.deliveryDate || null,
+            deliveryTimeWindow: order.deliveryTimeWindow || null,
+            deliveryAddress: deliveryAddressFormatted,
+            pickupDate: order.pickupDate || null,
+            pickupTimeWindow: order.pickupTimeWindow || null,
+            pickupLocation: null,
+            trackingUrl: getOrderTrackingUrl(order.trackingToken),
+          });
+        },
+      });
+    }
+
+    // Send admin notification email
+    try {
+      const { sendAdminNewOrderEmail } = await import("@/utils/email");
+
+      await sendAdminNewOrderEmail({
+        customerName,
+        customerEmail: customerEmail || "No email provided",
+        customerPhone: customerPhone || null,
+        orderNumber,
+        orderId: order.id,
+        orderItems: items.map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          customizations: item.customizations ? JSON.stringify(item.customizations) : null,
+        })),
+        subtotal,
+        tax,
+        deliveryFee: deliveryFee > 0 ? deliveryFee : undefined,
+        total: totalAmount,
+        fulfillmentMethod: (order.fulfillmentMethod as "delivery" | "pickup" | null) || null,
+        deliveryDate: order.deliveryDate || null,
+        deliveryTimeWindow: order.deliveryTimeWindow || null,
+        deliveryAddress: deliveryAddressFormatted,
+        pickupDate: order.pickupDate || null,
+        pickupTimeWindow: order.pickupTimeWindow || null,
+        pickupLocation: null,
+      });
+    } catch (error) {
+      console.error("[Stripe] Error sending admin notification email:", error);
+    }
+
+    console.log(`[Stripe] Order ${order.id} created successfully`);
+
+    return {
+      processed: true,
+      orderId: order.id,
+      paymentStatus: "paid",
+      feeInfo: calculateMerchantFee({
+        orderAmount: order.totalAmount,
+        merchantProvider: "stripe",
+      }),
+    };
+  }
+
+  private async handlePaymentFailed(event: WebhookEvent): Promise<WebhookResult> {
+    const paymentIntent = (event.data as { object?: StripePaymentIntent })?.object;
+
+    if (!paymentIntent) {
+      return { processed: false, error: "No payment intent data" };
+    }
+
+    const db = getDB();
+    const order = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.paymentIntentId, paymentIntent.id))
+      .get();
+
+    if (order && order.paymentStatus !== PAYMENT_STATUS.FAILED) {
+      await db
+        .update(orderTable)
+        .set({ paymentStatus: PAYMENT_STATUS.FAILED, updatedAt: new Date() })
+        .where(eq(orderTable.id, order.id));
+    }
+
+    console.log(
+      `[Stripe] Payment ${paymentIntent.id} failed: ${paymentIntent.last_payment_error?.message || "unknown reason"}`
+    );
+
+    return { processed: true, orderId: order?.id, paymentStatus: "failed" };
+  }
+
+  async createProduct(options: ProductCreateOptions): Promise<ProductCreateResult> {
+    const product = await this.request<{ id: string; default_price: string | null }>("/v1/products", {
+      method: "POST",
+      idempotencyKey: crypto.randomUUID(),
+      params: {
+        name: options.name,
+        description: options.description || undefined,
+        images: options.imageUrl ? [options.imageUrl] : undefined,
+        metadata: options.metadata,
+        default_price_data: {
+          currency: "usd",
+          unit_amount: options.price,
+        },
+      },
+    });
+
+    // Each size variant gets its own price on the product
+    const variantIds: Record<string, string> = {};
+    for (const variant of options.variants || []) {
+      const price = await this.request<{ id: string }>("/v1/prices", {
+        method: "POST",
+        idempotencyKey: crypto.randomUUID(),
+        params: {
+          product: product.id,
+          currency: "usd",
+          unit_amount: variant.price,
+          nickname: variant.name,
+          metadata: { variantId: variant.id },
+        },
+      });
+      variantIds[variant.id] = price.id;
+    }
+
+    return {
+      productId: product.id,
+      priceId: product.default_price || undefined,
+      variantIds,
+    };
+  }
+
+  async refundPayment(options: RefundOptions): Promise<RefundResult> {
+    const refund = await this.request<{ id: string; status: string; amount: number }>("/v1/refunds", {
+      method: "POST",
+      idempotencyKey: crypto.randomUUID(),
+      params: {
+        payment_intent: options.paymentId,
+        amount: options.amount,
+        // Stripe only accepts a fixed set of reasons; keep ours as metadata
+        reason: "requested_by_customer",
+        metadata: options.reason
+          ? { reason: options.reason.slice(0, MAX_METADATA_VALUE_LENGTH) }
+          : undefined,
+      },
+    });
+
+    return {
+      refundId: refund.id,
+      status:
+        refund.status === "succeeded" ? "succeeded"
+        : refund.status === "failed" || refund.status === "canceled" ? "failed"
+        : "pending",
+      amount: refund.amount,
+    };
+  }
+
+  async getPayment(paymentId: string): Promise<PaymentDetails> {
+    const paymentIntent = await this.request<StripePaymentIntent>(
+      `/v1/payment_intents/${paymentId}?expand[]=latest_charge`
+    );
+
+    const fullyRefunded =
+      typeof paymentIntent.latest_charge === "object" && !!paymentIntent.latest_charge?.refunded;
+
+    return {
+      id: paymentIntent.id,
+      status: fullyRefunded ? "refunded" : this.mapPaymentStatus(paymentIntent.status),
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency.toUpperCase(),
+      createdAt: new Date(paymentIntent.created * 1000),
+      referenceId: paymentIntent.metadata?.orderId,
+    };
+  }
+
+  async listPayments(options: PaymentListOptions): Promise<PaymentDetails[]> {
+    const payments: PaymentDetails[] = [];
+    let startingAfter: string | undefined;
+
+    // Stripe pages results (100 per page) by the last ID seen
+    do {
+      const params = new URLSearchParams({
+        "created[gte]": String(Math.floor(options.beginTime.getTime() / 1000)),
+        "created[lte]": String(Math.floor(options.endTime.getTime() / 1000)),
+        limit: "100",
+      });
+      if (startingAfter) params.set("starting_after", startingAfter);
+
+      const result = await this.request<{ data: StripePaymentIntent[]; has_more: boolean }>(
+        `/v1/payment_intents?${params.toString()}`
+      );
+
+      for (const paymentIntent of result.data) {
+        payments.push({
+          id: paymentIntent.id,
+          status: this.mapPaymentStatus(paymentIntent.status),
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency.toUpperCase(),
+          createdAt: new Date(paymentIntent.created * 1000),
+          referenceId: paymentIntent.metadata?.orderId,
+        });
+      }
+
+      startingAfter = result.has_more ? result.data[result.data.length - 1]?.id : undefined;
+    } while (startingAfter);
+
+    return payments;
+  }
+
+  /**
+   * Look up the payment behind a Checkout Session (used by the thanks page)
+   */
+  async getCheckoutSessionPaymentId(sessionId: string): Promise<string | null> {
+    const session = await this.request<StripeCheckoutSession>(`/v1/checkout/sessions/${sessionId}`);
+    return session.payment_intent;
+  }
+
+  private mapPaymentStatus(
+    status: string
+  ): "pending" | "paid" | "failed" | "refunded" {
+    switch (status) {
+      case "succeeded":
+        return "paid";
+      case "requires_payment_method":
+      case "canceled":
+        return "failed";
+      default:
+        return "pending";
+    }
+  }
+}
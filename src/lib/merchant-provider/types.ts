@@ -1,7 +1,25 @@
 import "server-only";
 import type { OrderItemCustomizations } from "@/types/customizations";
 
-export type MerchantProviderType = "square";
+export const MERCHANT_PROVIDER_TYPES = ["square", "stripe", "mock"] as const;
+
+export type MerchantProviderType = (typeof MERCHANT_PROVIDER_TYPES)[number];
+
+export function isMerchantProviderType(value: string | null | undefined): value is MerchantProviderType {
+	return MERCHANT_PROVIDER_TYPES.includes(value as MerchantProviderType);
+}
+
+/**
+ * The provider answered and refused the card, so nothing was charged. Any
+ * other error from createPayment (a timeout, a dropped connection) leaves the
+ * outcome unknown.
+ */
+export class PaymentDeclinedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PaymentDeclinedError";
+	}
+}
 
 export interface CheckoutLineItem {
 	productId: string;
@@ -50,7 +68,7 @@ export interface FeeInfo {
 export interface WebhookResult {
 	processed: boolean;
 	orderId?: string;
-	paymentStatus?: "pending" | "paid" | "failed" | "refunded";
+	paymentStatus?: "pending" | "paid" | "failed" | "refunded" | "disputed";
 	feeInfo?: FeeInfo;
 	error?: string;
 }
@@ -86,12 +104,46 @@ export interface RefundResult {
 	amount: number; // cents
 }
 
+export interface PaymentCreateOptions {
+	sourceId: string; // Card token (Square) or the PaymentIntent ID the Payment Element confirmed (Stripe)
+	lineItems: Array<{
+		name: string;
+		price: number; // cents
+		quantity: number;
+	}>;
+	customerEmail?: string;
+	note?: string;
+	idempotencyKey?: string; // Same key for retries of one checkout attempt (max 40 chars)
+	referenceId?: string; // Our order ID, stored on the payment for reconciliation
+}
+
+export interface PaymentCreateResult {
+	paymentId: string;
+	providerOrderId?: string;
+	status: "pending" | "paid" | "failed" | "refunded";
+	tax: number; // cents, as calculated by the provider
+	totalAmount: number; // cents, including tax
+}
+
+export type PaymentPrepareOptions = Omit<PaymentCreateOptions, "sourceId">;
+
+export interface PaymentPrepareResult {
+	paymentId: string;
+	clientSecret: string; // Passed to the provider's client-side SDK to confirm the payment
+}
+
 export interface PaymentDetails {
 	id: string;
 	status: "pending" | "paid" | "failed" | "refunded";
 	amount: number;
 	currency: string;
 	createdAt: Date;
+	referenceId?: string; // Order ID passed to createPayment, if any
+}
+
+export interface PaymentListOptions {
+	beginTime: Date;
+	endTime: Date;
 }
 
 export interface IMerchantProvider {
@@ -107,11 +159,29 @@ export interface IMerchantProvider {
 	 */
 	createCheckout(options: CheckoutOptions): Promise<CheckoutResult>;
 
+	/**
+	 * Charge a tokenized card (Idaho sales tax is added on top of the line items).
+	 * For providers with preparePayment, look up the payment the client confirmed.
+	 */
+	createPayment(options: PaymentCreateOptions): Promise<PaymentCreateResult>;
+
+	/**
+	 * Create a payment for the client to confirm in the browser (Stripe's
+	 * Payment Element). Providers that charge a card token server-side don't
+	 * implement it.
+	 */
+	preparePayment?(options: PaymentPrepareOptions): Promise<PaymentPrepareResult>;
+
 	/**
 	 * Verify and process webhook events
 	 */
 	verifyWebhook(body: string, signature: string, webhookUrl?: string): Promise<WebhookEvent>;
 
+	/**
+	 * Parse a webhook body that was already verified (used to replay stored events)
+	 */
+	parseWebhookEvent(body: string): WebhookEvent;
+
 	/**
 	 * Handle webhook event and create order
 	 */
@@ -131,4 +201,9 @@ export interface IMerchantProvider {
 	 * Get payment details
 	 */
 	getPayment(paymentId: string): Promise<PaymentDetails>;
+
+	/**
+	 * List payments taken in a time range (used for reconciliation)
+	 */
+	listPayments(options: PaymentListOptions): Promise<PaymentDetails[]>;
 }
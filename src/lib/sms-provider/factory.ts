@@ -0,0 +1,91 @@
+import "server-only";
+import type { ISmsProvider, SmsProviderType } from "./types";
+import { isSmsMockMode } from "./mock-transport";
+import isProd from "@/utils/is-prod";
+
+// Order in which configured providers are tried. If one errors, the next is used.
+const SMS_PROVIDER_PRIORITY: SmsProviderType[] = ["sns", "vonage", "twilio"];
+
+const SMS_PROVIDER_TYPES: SmsProviderType[] = [...SMS_PROVIDER_PRIORITY, "console"];
+
+let providerInstances: ISmsProvider[] | null = null;
+
+export async function createSmsProvider(providerType: SmsProviderType): Promise<ISmsProvider> {
+	switch (providerType) {
+		case "sns": {
+			const { SnsSmsProvider } = await import("./providers/sns");
+			return new SnsSmsProvider();
+		}
+		case "vonage": {
+			const { VonageSmsProvider } = await import("./providers/vonage");
+			return new VonageSmsProvider();
+		}
+		case "twilio": {
+			const { TwilioSmsProvider } = await import("./providers/twilio");
+			return new TwilioSmsProvider();
+		}
+		case "console": {
+			const { ConsoleSmsProvider } = await import("./providers/console");
+			return new ConsoleSmsProvider();
+		}
+		default:
+			throw new Error(`Unknown SMS provider: ${providerType}`);
+	}
+}
+
+export function isSmsProviderType(value: string): value is SmsProviderType {
+	return SMS_PROVIDER_TYPES.includes(value as SmsProviderType);
+}
+
+/**
+ * Provider types to try, in order.
+ *
+ * SMS_PROVIDER can list providers explicitly (e.g. "twilio,sns"). When unset,
+ * every configured provider is used in the default priority order, except in
+ * development where messages are only logged. SMS_PROVIDER=mock uses all
+ * providers with the mock transport.
+ */
+export function getCurrentSmsProviderTypes(): SmsProviderType[] {
+	if (isSmsMockMode()) {
+		return SMS_PROVIDER_PRIORITY;
+	}
+
+	const providerTypes = (process.env.SMS_PROVIDER || "")
+		.split(",")
+		.map((provider) => provider.trim().toLowerCase())
+		.filter(Boolean) as SmsProviderType[];
+
+	if (providerTypes.length > 0) {
+		return providerTypes;
+	}
+
+	return isProd ? SMS_PROVIDER_PRIORITY : ["console"];
+}
+
+/**
+ * Get the configured SMS providers in failover order
+ */
+export async function getSmsProviders(): Promise<ISmsProvider[]> {
+	if (providerInstances) return providerInstances;
+
+	const providers: ISmsProvider[] = [];
+
+	for (const providerType of getCurrentSmsProviderTypes()) {
+		const provider = await createSmsProvider(providerType);
+
+		if (!provider.isConfigured()) {
+			continue;
+		}
+
+		await provider.initialize();
+		providers.push(provider);
+	}
+
+	providerInstances = providers;
+	return providerInstances;
+}
+
+// Reset provider instances (useful for testing)
+export function resetSmsProviderInstances(): void {
+	providerInstances = null;
+}
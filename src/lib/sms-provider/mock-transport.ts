@@ -0,0 +1,90 @@
+import "server-only";
+import type { SendSmsOptions, SmsProviderType } from "./types";
+
+/**
+ * Setting SMS_PROVIDER=mock routes every provider request to an in-memory
+ * outbox instead of the network, so the full send path (phone normalization,
+ * request signing, failover) can be exercised offline and in any environment.
+ * SMS_MOCK_FAIL_PROVIDERS (e.g. "sns") makes the listed providers fail.
+ */
+
+export interface MockSMSMessage {
+  provider: SmsProviderType;
+  messageId: string;
+  to: string;
+  message: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  sentAt: Date;
+}
+
+const mockOutbox: MockSMSMessage[] = [];
+
+export function isSmsMockMode(): boolean {
+  return process.env.SMS_PROVIDER === "mock";
+}
+
+function getMockFailingProviders(): string[] {
+  return (process.env.SMS_MOCK_FAIL_PROVIDERS || "")
+    .split(",")
+    .map((provider) => provider.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Messages "sent" while in mock mode, oldest first
+ */
+export function getMockSMSMessages(): MockSMSMessage[] {
+  return [...mockOutbox];
+}
+
+export function clearMockSMSMessages() {
+  mockOutbox.length = 0;
+}
+
+/**
+ * fetch() for provider requests. In mock mode the request is recorded and a
+ * canned provider response is returned instead.
+ */
+export async function smsProviderFetch(
+  provider: SmsProviderType,
+  sms: SendSmsOptions,
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string }
+): Promise<Response> {
+  if (!isSmsMockMode()) {
+    return fetch(url, init);
+  }
+
+  if (getMockFailingProviders().includes(provider)) {
+    return new Response(`Mock ${provider} failure`, { status: 503 });
+  }
+
+  const messageId = `mock-${provider}-${mockOutbox.length + 1}`;
+
+  mockOutbox.push({
+    provider,
+    messageId,
+    to: sms.to,
+    message: sms.message,
+    url,
+    headers: init.headers,
+    body: init.body,
+    sentAt: new Date(),
+  });
+
+  console.log(`[SMS mock] ${provider} -> ${sms.to}: ${sms.message}`);
+
+  switch (provider) {
+    case "sns":
+      return new Response(
+        `<PublishResponse><PublishResult><MessageId>${messageId}</MessageId></PublishResult></PublishResponse>`,
+        { status: 200 }
+      );
+    case "vonage":
+      return Response.json({ messages: [{ status: "0", "message-id": messageId, to: sms.to }] });
+    default:
+      return Response.json({ sid: messageId, status: "queued" }, { status: 201 });
+  }
+}
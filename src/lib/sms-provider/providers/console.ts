@@ -0,0 +1,43 @@
+import "server-only";
+import type {
+  ISmsProvider,
+  SendSmsOptions,
+  SendSmsResult,
+  SmsWebhookEvent,
+  SmsWebhookRequest,
+} from "../types";
+import isProd from "@/utils/is-prod";
+
+/**
+ * Development provider that logs messages to the console instead of sending them.
+ *
+ * Its webhook accepts unsigned JSON events outside production, so delivery
+ * receipts and STOP/HELP replies can be simulated locally:
+ *   curl -X POST localhost:3000/api/webhooks/sms/console \
+ *     -d '{"type":"inbound_message","from":"+12085551234","text":"STOP"}'
+ */
+export class ConsoleSmsProvider implements ISmsProvider {
+  readonly name = "console" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async initialize(): Promise<void> {}
+
+  async sendMessage({ to, message }: SendSmsOptions): Promise<SendSmsResult> {
+    console.warn("\n\n\nSMS would be sent to:", to);
+    console.warn("Message:", message);
+
+    return { messageId: `console-${crypto.randomUUID()}` };
+  }
+
+  async verifyWebhook({ body }: SmsWebhookRequest): Promise<SmsWebhookEvent[]> {
+    if (isProd) {
+      throw new Error("Console SMS webhooks are disabled in production");
+    }
+
+    const events = JSON.parse(body) as SmsWebhookEvent | SmsWebhookEvent[];
+    return Array.isArray(events) ? events : [events];
+  }
+}
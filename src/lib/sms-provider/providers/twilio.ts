@@ -0,0 +1,117 @@
+import "server-only";
+import type {
+  ISmsProvider,
+  SendSmsOptions,
+  SendSmsResult,
+  SmsDeliveryReceiptStatus,
+  SmsWebhookEvent,
+  SmsWebhookRequest,
+} from "../types";
+import { isSmsMockMode, smsProviderFetch } from "../mock-transport";
+import { hmac, timingSafeEqual, toBase64 } from "@/utils/signature";
+import { SITE_URL } from "@/constants";
+
+// Twilio message statuses -> our delivery status
+const TWILIO_DELIVERY_STATUS: Record<string, SmsDeliveryReceiptStatus> = {
+  accepted: "sent",
+  queued: "sent",
+  sending: "sent",
+  sent: "sent",
+  delivered: "delivered",
+  undelivered: "failed",
+  failed: "failed",
+};
+
+/**
+ * Twilio provider (~$0.0079/SMS + carrier fees)
+ *
+ * Status callbacks are requested per message. Point the number's
+ * "A message comes in" webhook at /api/webhooks/sms/twilio for STOP/HELP.
+ */
+export class TwilioSmsProvider implements ISmsProvider {
+  readonly name = "twilio" as const;
+  private accountSid: string;
+  private authToken: string;
+  private fromNumber: string;
+
+  constructor() {
+    const useMockCredentials = isSmsMockMode() && !process.env.TWILIO_ACCOUNT_SID;
+
+    this.accountSid = useMockCredentials ? "ACmock" : process.env.TWILIO_ACCOUNT_SID || "";
+    this.authToken = useMockCredentials ? "mock-twilio-token" : process.env.TWILIO_AUTH_TOKEN || "";
+    this.fromNumber = useMockCredentials
+      ? "+15005550006"
+      : process.env.TWILIO_FROM_NUMBER || process.env.SMS_FROM_NUMBER || "";
+  }
+
+  isConfigured(): boolean {
+    return !!this.accountSid && !!this.authToken && !!this.fromNumber;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.accountSid || !this.authToken) throw new Error("Twilio credentials not configured");
+    if (!this.fromNumber) throw new Error("TWILIO_FROM_NUMBER not configured");
+  }
+
+  async sendMessage({ to, message }: SendSmsOptions): Promise<SendSmsResult> {
+    const endpoint = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+    const body = new URLSearchParams({
+      To: to,
+      From: this.fromNumber,
+      Body: message,
+      StatusCallback: `${SITE_URL}/api/webhooks/sms/twilio`,
+    }).toString();
+
+    const response = await smsProviderFetch("twilio", { to, message }, endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to send SMS via Twilio: ${error}`);
+    }
+
+    const result = await response.json() as { sid?: string };
+    return { messageId: result.sid ?? null };
+  }
+
+  async verifyWebhook({ url, headers, body }: SmsWebhookRequest): Promise<SmsWebhookEvent[]> {
+    const signature = headers.get("x-twilio-signature");
+    if (!signature) {
+      throw new Error("Missing X-Twilio-Signature header");
+    }
+
+    // Twilio signs the full URL followed by each POST param (sorted) as key + value
+    const params = Object.fromEntries(new URLSearchParams(body));
+    const payload = Object.keys(params)
+      .sort()
+      .reduce((data, key) => `${data}${key}${params[key]}`, url);
+    const expectedSignature = toBase64(await hmac("SHA-1", this.authToken, payload));
+
+    if (!timingSafeEqual(signature, expectedSignature)) {
+      throw new Error("Invalid Twilio webhook signature");
+    }
+
+    // Status callback
+    if (params.MessageStatus && params.MessageSid) {
+      return [{
+        type: "delivery_receipt",
+        messageId: params.MessageSid,
+        status: TWILIO_DELIVERY_STATUS[params.MessageStatus] ?? "sent",
+        error: params.ErrorCode ? `Twilio error code ${params.ErrorCode}` : undefined,
+      }];
+    }
+
+    // Inbound message
+    if (params.From && params.Body !== undefined) {
+      return [{ type: "inbound_message", from: params.From, text: params.Body }];
+    }
+
+    return [];
+  }
+}
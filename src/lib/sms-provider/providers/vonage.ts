@@ -0,0 +1,155 @@
+import "server-only";
+import type {
+  ISmsProvider,
+  SendSmsOptions,
+  SendSmsResult,
+  SmsDeliveryReceiptStatus,
+  SmsWebhookEvent,
+  SmsWebhookRequest,
+} from "../types";
+import { isSmsMockMode, smsProviderFetch } from "../mock-transport";
+import { hmac, timingSafeEqual, toHex } from "@/utils/signature";
+import { SITE_URL } from "@/constants";
+
+// Vonage delivery receipt statuses -> our delivery status
+const VONAGE_DELIVERY_STATUS: Record<string, SmsDeliveryReceiptStatus> = {
+  accepted: "sent",
+  buffered: "sent",
+  delivered: "delivered",
+  expired: "failed",
+  failed: "failed",
+  rejected: "failed",
+};
+
+// Reject webhooks signed more than 5 minutes ago (replay protection)
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Vonage (formerly Nexmo) provider (~$0.0076/SMS)
+ *
+ * Delivery receipts and inbound messages are sent to /api/webhooks/sms/vonage.
+ * Webhooks must be signed with VONAGE_SIGNATURE_SECRET using the
+ * "HMAC SHA-256" signature method (set in the Vonage dashboard).
+ */
+export class VonageSmsProvider implements ISmsProvider {
+  readonly name = "vonage" as const;
+  private apiKey: string;
+  private apiSecret: string;
+
+  constructor() {
+    const useMockCredentials = isSmsMockMode() && !process.env.VONAGE_API_KEY;
+
+    this.apiKey = useMockCredentials ? "mock-vonage-key" : process.env.VONAGE_API_KEY || "";
+    this.apiSecret = useMockCredentials ? "mock-vonage-secret" : process.env.VONAGE_API_SECRET || "";
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && !!this.apiSecret;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.isConfigured()) throw new Error("Vonage API credentials not configured");
+  }
+
+  async sendMessage({ to, message }: SendSmsOptions): Promise<SendSmsResult> {
+    const endpoint = "https://rest.nexmo.com/sms/json";
+    const response = await smsProviderFetch("vonage", { to, message }, endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: process.env.SMS_FROM_NUMBER || "SweetAngel",
+        // Vonage expects the number without the leading +
+        to: to.replace(/^\+/, ""),
+        text: message,
+        callback: `${SITE_URL}/api/webhooks/sms/vonage`,
+        api_key: this.apiKey,
+        api_secret: this.apiSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to send SMS via Vonage: ${error}`);
+    }
+
+    // Vonage returns 200 even when a message is rejected, so check each status
+    const result = await response.json() as {
+      messages?: Array<{ status: string; "message-id"?: string; "error-text"?: string }>;
+    };
+    const rejected = result.messages?.find((msg) => msg.status !== "0");
+
+    if (rejected) {
+      throw new Error(`Failed to send SMS via Vonage: ${rejected["error-text"] || `status ${rejected.status}`}`);
+    }
+
+    return { messageId: result.messages?.[0]?.["message-id"] ?? null };
+  }
+
+  async verifyWebhook({ url, headers, body }: SmsWebhookRequest): Promise<SmsWebhookEvent[]> {
+    const signatureSecret = process.env.VONAGE_SIGNATURE_SECRET;
+    if (!signatureSecret) {
+      throw new Error("VONAGE_SIGNATURE_SECRET not configured");
+    }
+
+    // Webhooks arrive as GET query params, a form POST or a JSON POST
+    // depending on the dashboard settings
+    const params: Record<string, string> = Object.fromEntries(new URL(url).searchParams);
+    if (body) {
+      const contentType = headers.get("content-type") || "";
+      const bodyParams: Record<string, unknown> = contentType.includes("application/json")
+        ? JSON.parse(body)
+        : Object.fromEntries(new URLSearchParams(body));
+
+      for (const [key, value] of Object.entries(bodyParams)) {
+        params[key] = String(value);
+      }
+    }
+
+    const { sig: signature, ...signedParams } = params;
+    if (!signature) {
+      throw new Error("Missing Vonage webhook signature");
+    }
+
+    // Vonage signs "&key=value" pairs sorted by key, with & and = in values replaced by _
+    const payload = Object.keys(signedParams)
+      .sort()
+      .map((key) => `&${key}=${signedParams[key].replace(/[&=]/g, "_")}`)
+      .join("");
+    const expectedSignature = toHex(await hmac("SHA-256", signatureSecret, payload));
+
+    if (!timingSafeEqual(signature.toLowerCase(), expectedSignature)) {
+      throw new Error("Invalid Vonage webhook signature");
+    }
+
+    // The timestamp is signed, so a captured request can't refresh it
+    const age = Math.floor(Date.now() / 1000) - Number(params.timestamp);
+    if (!params.timestamp || !Number.isFinite(age) || Math.abs(age) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new Error("Vonage webhook timestamp outside the tolerance zone");
+    }
+
+    // Inbound message
+    if (params.msisdn && params.text !== undefined && !params.status) {
+      return [{
+        type: "inbound_message",
+        from: `+${params.msisdn.replace(/\D/g, "")}`,
+        text: params.text,
+      }];
+    }
+
+    // Delivery receipt
+    if (params.messageId && params.status) {
+      const errorCode = params["err-code"];
+
+      return [{
+        type: "delivery_receipt",
+        messageId: params.messageId,
+        status: VONAGE_DELIVERY_STATUS[params.status] ?? "sent",
+        error: errorCode && errorCode !== "0" ? `Vonage error code ${errorCode} (${params.status})` : undefined,
+      }];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,60 @@
+import "server-only";
+
+export type SmsProviderType = "sns" | "vonage" | "twilio" | "console";
+
+export interface SendSmsOptions {
+	to: string; // E.164
+	message: string;
+}
+
+export interface SendSmsResult {
+	messageId: string | null; // Provider's id for the message, used to match delivery receipts
+}
+
+export type SmsDeliveryReceiptStatus = "sent" | "delivered" | "failed";
+
+export interface SmsDeliveryReceipt {
+	type: "delivery_receipt";
+	messageId: string;
+	status: SmsDeliveryReceiptStatus;
+	error?: string;
+}
+
+export interface SmsInboundMessage {
+	type: "inbound_message";
+	from: string; // E.164
+	text: string;
+}
+
+export type SmsWebhookEvent = SmsDeliveryReceipt | SmsInboundMessage;
+
+export interface SmsWebhookRequest {
+	method: string;
+	url: string; // Public URL the provider called, used for signature verification
+	headers: Headers;
+	body: string;
+}
+
+export interface ISmsProvider {
+	readonly name: SmsProviderType;
+
+	/**
+	 * Whether credentials for this provider are set
+	 */
+	isConfigured(): boolean;
+
+	/**
+	 * Initialize the provider with credentials
+	 */
+	initialize(): Promise<void>;
+
+	/**
+	 * Send a text message
+	 */
+	sendMessage(options: SendSmsOptions): Promise<SendSmsResult>;
+
+	/**
+	 * Verify a webhook request and parse its delivery receipts / inbound messages
+	 */
+	verifyWebhook(request: SmsWebhookRequest): Promise<SmsWebhookEvent[]>;
+}
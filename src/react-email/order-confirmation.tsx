@@ -26,6 +26,8 @@ interface OrderConfirmationEmailProps {
   subtotal?: number;
   tax?: number;
   deliveryFee?: number;
+  // Explanations of applied delivery fee rules, e.g. "Free delivery over $75 applied"
+  deliveryFeeNotes?: string[];
   total?: number;
   fulfillmentMethod?: "delivery" | "pickup" | null;
   // Delivery fields
@@ -39,6 +41,8 @@ interface OrderConfirmationEmailProps {
     name: string;
     address: string;
   } | null;
+  // Public tracking page for this order
+  trackingUrl?: string | null;
 }
 
 export const OrderConfirmationEmail = ({
@@ -51,6 +55,7 @@ export const OrderConfirmationEmail = ({
   subtotal = 3200,
   tax = 256,
   deliveryFee = 0,
+  deliveryFeeNotes = [],
   total = 3456,
   fulfillmentMethod = "delivery",
   deliveryDate = "2025-11-15",
@@ -59,6 +64,7 @@ export const OrderConfirmationEmail = ({
   pickupDate = null,
   pickupTimeWindow = null,
   pickupLocation = null,
+  trackingUrl = null,
 }: OrderConfirmationEmailProps) => {
   function formatPrice(cents: number) {
     return `$${(cents / 100).toFixed(2)}`;
@@ -148,17 +154,25 @@ export const OrderConfirmationEmail = ({
               </Column>
             </Row>
 
-            {deliveryFee && deliveryFee > 0 && (
+            {((deliveryFee && deliveryFee > 0) || deliveryFeeNotes.length > 0) && (
               <Row style={summaryRow}>
                 <Column>
                   <Text style={summaryText}>Delivery Fee</Text>
                 </Column>
                 <Column align="right">
-                  <Text style={summaryText}>{formatPrice(deliveryFee)}</Text>
+                  <Text style={summaryText}>
+                    {deliveryFee && deliveryFee > 0 ? formatPrice(deliveryFee) : "FREE"}
+                  </Text>
                 </Column>
               </Row>
             )}
 
+            {deliveryFeeNotes.map((note) => (
+              <Text key={note} style={feeNoteText}>
+                {note}
+              </Text>
+            ))}
+
             <Hr style={divider} />
 
             <Row style={totalRow}>
@@ -247,6 +261,14 @@ export const OrderConfirmationEmail = ({
             for delivery.
           </Text>
 
+          {trackingUrl && (
+            <Section style={buttonContainer}>
+              <Link style={button} href={trackingUrl}>
+                Track Your Order
+              </Link>
+            </Section>
+          )}
+
           <Text style={paragraph}>
             <strong>Loyalty Program Member?</strong> You now have access to:
           </Text>
@@ -289,6 +311,7 @@ OrderConfirmationEmail.PreviewProps = {
   subtotal: 5800,
   tax: 522,
   deliveryFee: 500,
+  deliveryFeeNotes: ["Weekend delivery surcharge"],
   total: 6822,
   fulfillmentMethod: "delivery",
   deliveryDate: "2025-11-15",
@@ -411,6 +434,12 @@ const summaryText = {
   margin: "0",
 };
 
+const feeNoteText = {
+  color: "#2f855a",
+  fontSize: "13px",
+  margin: "2px 0 0",
+};
+
 const totalRow = {
   marginTop: "8px",
 };
@@ -0,0 +1,235 @@
+import {
+  Body,
+  Container,
+  Column,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Row,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_URL } from "@/constants";
+
+interface OrderRefundEmailProps {
+  customerName?: string;
+  orderNumber?: string;
+  refundAmount?: number;
+  totalRefunded?: number;
+  orderTotal?: number;
+  reason?: string;
+  refundedItems?: Array<{
+    name: string;
+    quantity: number;
+    amount: number; // Line refund including tax
+  }>;
+  isFullRefund?: boolean;
+  isCancelled?: boolean;
+}
+
+export const OrderRefundEmail = ({
+  customerName = "Valued Customer",
+  orderNumber = "ABC12345",
+  refundAmount = 848,
+  totalRefunded = 848,
+  orderTotal = 3456,
+  reason = "Item unavailable",
+  refundedItems = [{ name: "Chocolate Chip Cookie", quantity: 2, amount: 848 }],
+  isFullRefund = false,
+  isCancelled = false,
+}: OrderRefundEmailProps) => {
+  function formatPrice(cents: number) {
+    return `$${(cents / 100).toFixed(2)}`;
+  }
+
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={heading}>
+            {isCancelled ? "Order Cancelled" : "Refund Issued"}
+          </Heading>
+          <Text style={paragraph}>Hi {customerName},</Text>
+          <Text style={paragraph}>
+            {isCancelled
+              ? `Your order #${orderNumber} has been cancelled and we've issued a refund to your original payment method.`
+              : `We've issued a ${isFullRefund ? "full" : "partial"} refund for your order #${orderNumber} to your original payment method.`}
+          </Text>
+
+          <Section style={refundBox}>
+            <Text style={refundLabel}>Refund Amount</Text>
+            <Text style={refundValue}>{formatPrice(refundAmount)}</Text>
+            {reason && <Text style={reasonText}>Reason: {reason}</Text>}
+          </Section>
+
+          {refundedItems.length > 0 && (
+            <Section style={orderBox}>
+              <Text style={sectionTitle}>Refunded Items</Text>
+              <Hr style={divider} />
+              {refundedItems.map((item, index) => (
+                <Row key={index} style={itemRow}>
+                  <Column>
+                    <Text style={itemText}>
+                      {item.name}{" "}
+                      <span style={quantityText}>x{item.quantity}</span>
+                    </Text>
+                  </Column>
+                  <Column align="right" style={itemPrice}>
+                    <Text style={itemText}>{formatPrice(item.amount)}</Text>
+                  </Column>
+                </Row>
+              ))}
+            </Section>
+          )}
+
+          {totalRefunded !== refundAmount && (
+            <Text style={paragraph}>
+              In total, {formatPrice(totalRefunded)} of your{" "}
+              {formatPrice(orderTotal)} order has now been refunded.
+            </Text>
+          )}
+
+          <Text style={paragraph}>
+            Refunds usually appear on your statement within 5-10 business days,
+            depending on your bank.
+          </Text>
+
+          <Text style={paragraph}>
+            If you have any questions, just reply to this email and we&apos;ll be
+            happy to help.
+          </Text>
+
+          <Text style={footer}>Sweet Angel Bakery • {SITE_URL}</Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+OrderRefundEmail.PreviewProps = {
+  customerName: "Sarah Johnson",
+  orderNumber: "SAB12345",
+  refundAmount: 848,
+  totalRefunded: 848,
+  orderTotal: 3456,
+  reason: "Item unavailable",
+  refundedItems: [{ name: "Chocolate Chip Cookie", quantity: 2, amount: 848 }],
+  isFullRefund: false,
+  isCancelled: false,
+} as OrderRefundEmailProps;
+
+export default OrderRefundEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  padding: "30px 0",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "8px",
+  boxShadow: "0 2px 8px rgba(0,0,0,0.05)",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const heading = {
+  color: "#1a1a1a",
+  fontSize: "28px",
+  fontWeight: "bold",
+  textAlign: "center" as const,
+  margin: "0 0 30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "16px 0",
+};
+
+const refundBox = {
+  backgroundColor: "#f0fdf4",
+  border: "2px solid #22c55e",
+  borderRadius: "8px",
+  padding: "24px",
+  margin: "24px 0",
+  textAlign: "center" as const,
+};
+
+const refundLabel = {
+  color: "#14532d",
+  fontSize: "14px",
+  fontWeight: "600",
+  textTransform: "uppercase" as const,
+  letterSpacing: "0.5px",
+  margin: "0 0 8px",
+};
+
+const refundValue = {
+  color: "#15803d",
+  fontSize: "28px",
+  fontWeight: "bold",
+  margin: "0",
+};
+
+const reasonText = {
+  color: "#64748b",
+  fontSize: "14px",
+  margin: "12px 0 0",
+};
+
+const orderBox = {
+  backgroundColor: "#f8f9fa",
+  border: "1px solid #e9ecef",
+  borderRadius: "6px",
+  padding: "24px",
+  margin: "24px 0",
+};
+
+const sectionTitle = {
+  color: "#1a1a1a",
+  fontSize: "18px",
+  fontWeight: "bold",
+  margin: "0",
+};
+
+const divider = {
+  borderColor: "#e9ecef",
+  margin: "16px 0",
+};
+
+const itemRow = {
+  margin: "12px 0",
+};
+
+const itemPrice = {
+  width: "100px",
+};
+
+const itemText = {
+  color: "#525f7f",
+  fontSize: "15px",
+  lineHeight: "20px",
+  margin: "0",
+};
+
+const quantityText = {
+  color: "#8898aa",
+  fontSize: "14px",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "14px",
+  lineHeight: "20px",
+  textAlign: "center" as const,
+  margin: "32px 0 0",
+};
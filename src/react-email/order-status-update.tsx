@@ -0,0 +1,238 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_URL } from "@/constants";
+
+type OrderStatusUpdate = "ready_for_pickup" | "out_for_delivery" | "delivered";
+
+interface OrderStatusUpdateEmailProps {
+  customerName?: string;
+  orderNumber?: string;
+  status?: OrderStatusUpdate;
+  deliveryTimeWindow?: string | null;
+  deliveryAddress?: string | null;
+  pickupTimeWindow?: string | null;
+  pickupLocation?: {
+    name: string;
+    address: string;
+  } | null;
+  trackingUrl?: string | null;
+}
+
+const STATUS_CONTENT: Record<OrderStatusUpdate, { heading: string; intro: string }> = {
+  ready_for_pickup: {
+    heading: "Your Order is Ready!",
+    intro: "Your order is boxed up and ready for pickup.",
+  },
+  out_for_delivery: {
+    heading: "Your Order is On The Way!",
+    intro: "Your order has left the bakery and is on its way to you.",
+  },
+  delivered: {
+    heading: "Your Order Was Delivered",
+    intro: "Your order has been delivered. We hope you enjoy every bite!",
+  },
+};
+
+export const OrderStatusUpdateEmail = ({
+  customerName = "Valued Customer",
+  orderNumber = "ABC12345",
+  status = "ready_for_pickup",
+  deliveryTimeWindow = null,
+  deliveryAddress = null,
+  pickupTimeWindow = "10:00 AM - 2:00 PM",
+  pickupLocation = {
+    name: "Sweet Angel Bakery",
+    address: "123 Main St\nBoise, ID 83702",
+  },
+  trackingUrl = null,
+}: OrderStatusUpdateEmailProps) => {
+  const content = STATUS_CONTENT[status];
+
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={heading}>{content.heading}</Heading>
+          <Text style={paragraph}>Hi {customerName},</Text>
+          <Text style={paragraph}>{content.intro}</Text>
+
+          <Section style={detailsBox}>
+            <Text style={orderNumberText}>Order #{orderNumber}</Text>
+            <Hr style={divider} />
+
+            {status === "ready_for_pickup" && pickupLocation && (
+              <>
+                <Text style={detailLabel}>Pickup Location</Text>
+                <Text style={detailValue}>{pickupLocation.name}</Text>
+                {pickupLocation.address.split("\n").map((line, index) => (
+                  <Text key={index} style={detailValue}>
+                    {line}
+                  </Text>
+                ))}
+                {pickupTimeWindow && (
+                  <>
+                    <Text style={{ ...detailLabel, marginTop: "16px" }}>
+                      Pickup Window
+                    </Text>
+                    <Text style={detailValue}>{pickupTimeWindow}</Text>
+                  </>
+                )}
+              </>
+            )}
+
+            {status !== "ready_for_pickup" && deliveryAddress && (
+              <>
+                <Text style={detailLabel}>Delivery Address</Text>
+                {deliveryAddress.split("\n").map((line, index) => (
+                  <Text key={index} style={detailValue}>
+                    {line}
+                  </Text>
+                ))}
+              </>
+            )}
+
+            {status === "out_for_delivery" && deliveryTimeWindow && (
+              <>
+                <Text style={{ ...detailLabel, marginTop: "16px" }}>
+                  Expected Arrival
+                </Text>
+                <Text style={detailValue}>{deliveryTimeWindow}</Text>
+              </>
+            )}
+          </Section>
+
+          {trackingUrl && (
+            <Section style={buttonContainer}>
+              <Link style={button} href={trackingUrl}>
+                Track Your Order
+              </Link>
+            </Section>
+          )}
+
+          <Text style={paragraph}>
+            If you have any questions, just reply to this email and we&apos;ll be
+            happy to help.
+          </Text>
+
+          <Text style={footer}>Sweet Angel Bakery • {SITE_URL}</Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+OrderStatusUpdateEmail.PreviewProps = {
+  customerName: "Sarah Johnson",
+  orderNumber: "SAB12345",
+  status: "out_for_delivery",
+  deliveryTimeWindow: "4:00 PM - 8:00 PM",
+  deliveryAddress: "456 Elm Street\nBoise, ID 83702",
+  trackingUrl: "https://sweetangelbakery.com/track/example",
+} as OrderStatusUpdateEmailProps;
+
+export default OrderStatusUpdateEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  padding: "30px 0",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "8px",
+  boxShadow: "0 2px 8px rgba(0,0,0,0.05)",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const heading = {
+  color: "#1a1a1a",
+  fontSize: "28px",
+  fontWeight: "bold",
+  textAlign: "center" as const,
+  margin: "0 0 30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "16px 0",
+};
+
+const detailsBox = {
+  backgroundColor: "#f0f9ff",
+  border: "1px solid #bae6fd",
+  borderRadius: "6px",
+  padding: "24px",
+  margin: "24px 0",
+};
+
+const orderNumberText = {
+  color: "#1a1a1a",
+  fontSize: "18px",
+  fontWeight: "bold",
+  textAlign: "center" as const,
+  margin: "0",
+};
+
+const divider = {
+  borderColor: "#bae6fd",
+  margin: "16px 0",
+};
+
+const detailLabel = {
+  color: "#64748b",
+  fontSize: "13px",
+  fontWeight: "600",
+  textTransform: "uppercase" as const,
+  letterSpacing: "0.5px",
+  margin: "0 0 4px 0",
+};
+
+const detailValue = {
+  color: "#1a1a1a",
+  fontSize: "15px",
+  lineHeight: "22px",
+  margin: "0",
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "32px 0",
+};
+
+const button = {
+  backgroundColor: "#000",
+  borderRadius: "6px",
+  color: "#fff",
+  display: "inline-block",
+  fontSize: "16px",
+  fontWeight: "600",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  padding: "14px 32px",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "14px",
+  lineHeight: "20px",
+  textAlign: "center" as const,
+  margin: "32px 0 0",
+};
@@ -27,6 +27,7 @@ type CartContextType = {
   addItem: (item: Omit<CartItem, "quantity">) => void;
   removeItem: (cartItemId: string) => void;
   updateQuantity: (cartItemId: string, quantity: number) => void;
+  updatePrice: (cartItemId: string, price: number) => void;
   clearCart: () => void;
   totalAmount: number;
 };
@@ -125,6 +126,14 @@ export function CartProvider({ children }: { children: ReactNode }) {
     );
   }
 
+  function updatePrice(cartItemId: string, price: number) {
+    setItems((currentItems) =>
+      currentItems.map((item) =>
+        item.cartItemId === cartItemId ? { ...item, price } : item
+      )
+    );
+  }
+
   function clearCart() {
     setItems([]);
   }
@@ -141,6 +150,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
         addItem,
         removeItem,
         updateQuantity,
+        updatePrice,
         clearCart,
         totalAmount,
       }}
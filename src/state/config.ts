@@ -1,17 +1,21 @@
 import { create } from 'zustand'
 import { combine } from 'zustand/middleware'
+import type { MerchantProviderType } from '@/lib/merchant-provider/types'
 
 export const useConfigStore = create(
   combine(
     {
       isGoogleSSOEnabled: false,
       isTurnstileEnabled: false,
+      // Null until the config has loaded, so checkout doesn't mount the wrong payment form
+      merchantProvider: null as MerchantProviderType | null,
     },
     (set) => ({
-      setConfig: (config: { isGoogleSSOEnabled: boolean, isTurnstileEnabled: boolean }) => {
+      setConfig: (config: { isGoogleSSOEnabled: boolean, isTurnstileEnabled: boolean, merchantProvider: MerchantProviderType }) => {
         set({
           isGoogleSSOEnabled: config.isGoogleSSOEnabled,
           isTurnstileEnabled: config.isTurnstileEnabled,
+          merchantProvider: config.merchantProvider,
         })
       },
     })
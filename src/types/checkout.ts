@@ -0,0 +1,55 @@
+/**
+ * Checkout types shared between the payment action and the checkout UI
+ */
+
+export const CART_CHANGED_ERROR = "CART_CHANGED" as const;
+
+export type CartChangeType =
+  | "price_changed"
+  | "item_unavailable"
+  | "quantity_reduced"
+  | "delivery_fee_changed"
+  | "delivery_unavailable"
+  | "date_unavailable"
+  | "time_slot_unavailable";
+
+export interface CartChange {
+  type: CartChangeType;
+  message: string; // Customer-facing explanation
+  itemIndex?: number; // Position of the item in the submitted cart
+  productId?: string;
+  previousAmount?: number; // In cents - what the client submitted
+  currentAmount?: number; // In cents - what the server calculated
+}
+
+/**
+ * Payload of the CONFLICT error thrown when the submitted cart no longer
+ * matches current prices, fees or fulfillment availability
+ */
+export interface CartChangedErrorData {
+  type: typeof CART_CHANGED_ERROR;
+  message: string;
+  changes: CartChange[];
+}
+
+/**
+ * Extract cart changes from a server action error, if that's what it is.
+ * zsa serializes object error data to a JSON string on the way to the client.
+ */
+export function parseCartChangedError(error: {
+  code?: string;
+  data?: unknown;
+}): CartChangedErrorData | null {
+  if (error.code !== "CONFLICT" || !error.data) {
+    return null;
+  }
+
+  try {
+    const data = (
+      typeof error.data === "string" ? JSON.parse(error.data) : error.data
+    ) as CartChangedErrorData;
+    return data?.type === CART_CHANGED_ERROR ? data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Admin Audit Log
+ *
+ * Records who changed what from the admin panel. Each entry stores the acting
+ * admin, the action name, the affected entity and a before/after snapshot of
+ * only the fields that changed, so the history reads as a diff.
+ */
+
+import "server-only";
+
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ADMIN_AUDIT_ENTITY_TYPE,
+  adminAuditLogTable,
+  type AdminAuditLog,
+} from "@/db/schema";
+import type { KVSession } from "@/utils/kv-session";
+import { getIP } from "@/utils/get-IP";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AdminAuditEntityType = typeof ADMIN_AUDIT_ENTITY_TYPE[keyof typeof ADMIN_AUDIT_ENTITY_TYPE];
+
+type AuditSnapshot = Record<string, unknown>;
+
+export interface AdminAuditDiff {
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "updateCounter"]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toSnapshot(value: object | null | undefined): AuditSnapshot | null {
+  if (!value) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !IGNORED_FIELDS.has(key))
+  );
+}
+
+/**
+ * Reduce two snapshots to the fields that differ.
+ * Creates and deletes keep the whole record on their side.
+ */
+export function diffAuditSnapshots(
+  before: object | null | undefined,
+  after: object | null | undefined
+): AdminAuditDiff {
+  const beforeSnapshot = toSnapshot(before);
+  const afterSnapshot = toSnapshot(after);
+
+  if (!beforeSnapshot || !afterSnapshot) {
+    return { before: beforeSnapshot, after: afterSnapshot };
+  }
+
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+  const keys = new Set([...Object.keys(beforeSnapshot), ...Object.keys(afterSnapshot)]);
+
+  for (const key of keys) {
+    const previous = beforeSnapshot[key] ?? null;
+    const next = afterSnapshot[key] ?? null;
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changedBefore[key] = previous;
+      changedAfter[key] = next;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+export function parseAuditSnapshot(json: string | null): AuditSnapshot | null {
+  if (!json) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record an admin change.
+ *
+ * Pass the record as it was before the change and as it is after; either
+ * side may be omitted for creates and deletes. Updates that didn't change
+ * anything are skipped. Failures are logged rather than thrown so auditing
+ * never blocks the admin action itself.
+ */
+export async function recordAdminAudit({
+  session,
+  action,
+  entityType,
+  entityId,
+  before,
+  after,
+}: {
+  session: KVSession;
+  action: string;
+  entityType: AdminAuditEntityType;
+  entityId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}): Promise<void> {
+  try {
+    const diff = diffAuditSnapshots(before, after);
+
+    if (
+      diff.before &&
+      diff.after &&
+      Object.keys(diff.before).length === 0 &&
+      Object.keys(diff.after).length === 0
+    ) {
+      return;
+    }
+
+    const db = getDB();
+    await db.insert(adminAuditLogTable).values({
+      actorUserId: session.user.id,
+      actorEmail: session.user.email,
+      action,
+      entityType,
+      entityId: entityId ?? null,
+      before: diff.before ? JSON.stringify(diff.before) : null,
+      after: diff.after ? JSON.stringify(diff.after) : null,
+      ipAddress: await getIP(),
+    });
+  } catch (error) {
+    console.error(`[Admin Audit] Error recording ${action}:`, error);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getAdminAuditLogs({
+  entityType,
+  entityId,
+  actorUserId,
+  limit = 100,
+}: {
+  entityType?: AdminAuditEntityType;
+  entityId?: string;
+  actorUserId?: string;
+  limit?: number;
+}): Promise<AdminAuditLog[]> {
+  const db = getDB();
+  const conditions: SQL[] = [];
+
+  if (entityType) {
+    conditions.push(eq(adminAuditLogTable.entityType, entityType));
+  }
+
+  if (entityId) {
+    conditions.push(eq(adminAuditLogTable.entityId, entityId));
+  }
+
+  if (actorUserId) {
+    conditions.push(eq(adminAuditLogTable.actorUserId, actorUserId));
+  }
+
+  return db
+    .select()
+    .from(adminAuditLogTable)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAuditLogTable.createdAt))
+    .limit(limit);
+}
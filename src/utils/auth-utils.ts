@@ -1,2 +1,3 @@
 export const getResetTokenKey = (token: string) => `password-reset:${token}`;
 export const getVerificationTokenKey = (token: string) => `email-verification:${token}`;
+export const getPhoneVerificationKey = (phone: string) => `phone-verification:${phone}`;
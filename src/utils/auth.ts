@@ -266,6 +266,35 @@ export const requireAdmin = cache(async ({
   return session;
 });
 
+/**
+ * Drivers and admins (who often drive a route themselves)
+ */
+export const requireDriver = cache(async ({
+  doNotThrowError = false,
+}: {
+  doNotThrowError?: boolean;
+} = {}) => {
+  const session = await getSessionFromCookie();
+
+  if (!session) {
+    if (doNotThrowError) {
+      return null;
+    }
+
+    throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+  }
+
+  if (session.user.role !== ROLES_ENUM.DRIVER && session.user.role !== ROLES_ENUM.ADMIN) {
+    if (doNotThrowError) {
+      return null;
+    }
+
+    throw new ZSAError("FORBIDDEN", "Not authorized");
+  }
+
+  return session;
+});
+
 interface DisposableEmailResponse {
   disposable: string;
 }
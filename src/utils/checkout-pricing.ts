@@ -0,0 +1,306 @@
+/**
+ * Checkout Pricing
+ *
+ * The client submits the cart it rendered, but prices, delivery fees and
+ * fulfillment dates can change between page load and payment. Everything
+ * that affects the charge is recalculated here from the database; any
+ * difference is reported as a cart change instead of being silently applied.
+ */
+
+import "server-only";
+
+import { PRODUCT_STATUS, type Product } from "@/db/schema";
+import type { OrderItemCustomizations } from "@/types/customizations";
+import type { CartChange } from "@/types/checkout";
+import {
+  calculateDeliveryFee,
+  getAvailableDeliveryDates,
+  getAvailablePickupDates,
+} from "@/utils/delivery";
+import {
+  calculateOrderItemPrice,
+  parseProductCustomizations,
+  validateCustomizations,
+} from "@/utils/product-customizations";
+import { getFullDates } from "@/utils/production-capacity";
+import { getDateTimeSlots, type TimeSlotConfig } from "@/utils/time-slots";
+import { getMountainISODate } from "@/utils/timezone";
+import { formatCents } from "@/utils/tax";
+
+// Same number of pickup dates the checkout offers per location
+const PICKUP_DATE_OPTIONS = 4;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CheckoutPricingItem {
+  productId: string;
+  quantity: number;
+  customizations?: OrderItemCustomizations;
+  name: string;
+  price: number; // In cents - as submitted by the client
+}
+
+export interface CheckoutPricingInput {
+  items: CheckoutPricingItem[];
+  products: Product[];
+  fulfillmentMethod?: "delivery" | "pickup";
+  zipCode?: string;
+  deliveryFee?: number;
+  deliveryDate?: string;
+  pickupLocationId?: string;
+  pickupDate?: string;
+  timeSlotStart?: string; // "10:00" - HH:mm format
+}
+
+export interface CheckoutPricingResult {
+  items: CheckoutPricingItem[]; // Items with server-calculated prices
+  subtotal: number;
+  deliveryFee: number;
+  deliveryZoneId: string | null;
+  deliveryFeeNotes: string[]; // Applied fee rules, for the confirmation email
+  timeSlot: { start: string; end: string; label: string } | null; // null when the date has no slots
+  changes: CartChange[];
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+async function isDateFull(date: string, items: CheckoutPricingItem[]): Promise<boolean> {
+  const fullDates = await getFullDates({ dates: [date], items });
+  return fullDates.has(date);
+}
+
+/**
+ * The booked slot when the date offers slots, or the change to report when
+ * the customer didn't pick one or it's gone
+ */
+async function checkTimeSlot({
+  fulfillmentMethod,
+  date,
+  config,
+  pickupLocationId,
+  timeSlotStart,
+}: {
+  fulfillmentMethod: "delivery" | "pickup";
+  date: string;
+  config: TimeSlotConfig | null;
+  pickupLocationId?: string;
+  timeSlotStart?: string;
+}): Promise<{ timeSlot: CheckoutPricingResult["timeSlot"]; change: CartChange | null }> {
+  const slots = (await getDateTimeSlots({
+    fulfillmentMethod,
+    dates: [{ date, config }],
+    pickupLocationId,
+  })).get(date) ?? [];
+
+  if (slots.length === 0) {
+    return { timeSlot: null, change: null };
+  }
+
+  const slot = slots.find((s) => s.start === timeSlotStart);
+
+  if (!slot) {
+    return {
+      timeSlot: null,
+      change: {
+        type: "time_slot_unavailable",
+        message: timeSlotStart
+          ? `The ${fulfillmentMethod} time you selected is no longer available`
+          : `Please choose a ${fulfillmentMethod} time`,
+      },
+    };
+  }
+
+  if (slot.isFull) {
+    return {
+      timeSlot: null,
+      change: {
+        type: "time_slot_unavailable",
+        message: `The ${fulfillmentMethod} time you selected (${slot.label}) is now fully booked`,
+      },
+    };
+  }
+
+  return { timeSlot: { start: slot.start, end: slot.end, label: slot.label }, change: null };
+}
+
+/**
+ * Recalculate line prices, the delivery fee and fulfillment date and time
+ * slot availability for a checkout. `changes` is empty when the client's cart is still accurate.
+ */
+export async function priceCheckout({
+  items,
+  products,
+  fulfillmentMethod,
+  zipCode,
+  deliveryFee: submittedDeliveryFee,
+  deliveryDate,
+  pickupLocationId,
+  pickupDate,
+  timeSlotStart,
+}: CheckoutPricingInput): Promise<CheckoutPricingResult> {
+  const changes: CartChange[] = [];
+  const pricedItems: CheckoutPricingItem[] = [];
+
+  items.forEach((item, itemIndex) => {
+    const product = products.find((p) => p.id === item.productId);
+
+    if (!product || product.status === PRODUCT_STATUS.INACTIVE) {
+      changes.push({
+        type: "item_unavailable",
+        message: `${item.name} is no longer available`,
+        itemIndex,
+        productId: item.productId,
+      });
+      return;
+    }
+
+    const productCustomizations = parseProductCustomizations(product.customizations);
+
+    if (item.customizations) {
+      const { valid } = validateCustomizations(productCustomizations, item.customizations);
+      if (!valid) {
+        changes.push({
+          type: "item_unavailable",
+          message: `The options you selected for ${item.name} are no longer available`,
+          itemIndex,
+          productId: item.productId,
+        });
+        return;
+      }
+    }
+
+    const price = calculateOrderItemPrice(
+      { price: product.price, customizations: productCustomizations },
+      item.customizations
+    );
+
+    if (price !== item.price) {
+      changes.push({
+        type: "price_changed",
+        message: `${item.name} is now ${formatCents(price)} (was ${formatCents(item.price)})`,
+        itemIndex,
+        productId: item.productId,
+        previousAmount: item.price,
+        currentAmount: price,
+      });
+    }
+
+    pricedItems.push({ ...item, price });
+  });
+
+  const subtotal = pricedItems.reduce(
+    (sum, item) => sum + item.price * item.quantity,
+    0
+  );
+
+  // The checkout offers dates based on the first product in the cart
+  const firstProductId = items[0]?.productId;
+
+  let deliveryFee = 0;
+  let deliveryZoneId: string | null = null;
+  let deliveryFeeNotes: string[] = [];
+  let timeSlot: CheckoutPricingResult["timeSlot"] = null;
+
+  if (fulfillmentMethod === "delivery") {
+    const feeResult = zipCode
+      ? await calculateDeliveryFee({ cartItems: pricedItems, deliveryZipCode: zipCode })
+      : null;
+
+    if (!feeResult?.appliedZone) {
+      changes.push({
+        type: "delivery_unavailable",
+        message: "Delivery is not available to this address",
+      });
+    } else {
+      deliveryFee = feeResult.feeAmount;
+      deliveryZoneId = feeResult.appliedZone.id;
+      deliveryFeeNotes = feeResult.breakdown.adjustments
+        .filter((adjustment) => adjustment.ruleId)
+        .map((adjustment) => adjustment.reason);
+
+      if (deliveryFee !== (submittedDeliveryFee || 0)) {
+        changes.push({
+          type: "delivery_fee_changed",
+          message: `Delivery fee is now ${formatCents(deliveryFee)} (was ${formatCents(submittedDeliveryFee || 0)})`,
+          previousAmount: submittedDeliveryFee || 0,
+          currentAmount: deliveryFee,
+        });
+      }
+    }
+
+    const availableDates = await getAvailableDeliveryDates({ productId: firstProductId });
+    const selectedDate = availableDates.find(
+      (option) => getMountainISODate(option.deliveryDate) === deliveryDate
+    );
+
+    if (!selectedDate || !deliveryDate) {
+      changes.push({
+        type: "date_unavailable",
+        message: "The delivery date you selected is no longer available",
+      });
+    } else if (await isDateFull(deliveryDate, pricedItems)) {
+      changes.push({
+        type: "date_unavailable",
+        message: "The delivery date you selected is now fully booked",
+      });
+    } else {
+      const slotCheck = await checkTimeSlot({
+        fulfillmentMethod: "delivery",
+        date: deliveryDate,
+        config: selectedDate.slotConfig,
+        timeSlotStart,
+      });
+      timeSlot = slotCheck.timeSlot;
+      if (slotCheck.change) changes.push(slotCheck.change);
+    }
+  }
+
+  if (fulfillmentMethod === "pickup") {
+    const availableDates = pickupLocationId
+      ? await getAvailablePickupDates({
+        pickupLocationId,
+        productId: firstProductId,
+        maxDates: PICKUP_DATE_OPTIONS,
+      })
+      : [];
+    const selectedDate = availableDates.find(
+      (option) => getMountainISODate(option.pickupDate) === pickupDate
+    );
+
+    if (!selectedDate || !pickupDate) {
+      changes.push({
+        type: "date_unavailable",
+        message: "The pickup date you selected is no longer available",
+      });
+    } else if (await isDateFull(pickupDate, pricedItems)) {
+      changes.push({
+        type: "date_unavailable",
+        message: "The pickup date you selected is now fully booked",
+      });
+    } else {
+      const slotCheck = await checkTimeSlot({
+        fulfillmentMethod: "pickup",
+        date: pickupDate,
+        config: selectedDate.slotConfig,
+        pickupLocationId,
+        timeSlotStart,
+      });
+      timeSlot = slotCheck.timeSlot;
+      if (slotCheck.change) changes.push(slotCheck.change);
+    }
+  }
+
+  return {
+    items: pricedItems,
+    subtotal,
+    deliveryFee,
+    deliveryZoneId,
+    deliveryFeeNotes,
+    timeSlot,
+    changes,
+  };
+}
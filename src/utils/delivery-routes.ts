@@ -0,0 +1,76 @@
+/**
+ * Delivery Routes
+ *
+ * A delivery date has one route per driver. Each delivery order stores the
+ * driver it's assigned to and its place in that driver's route, along with
+ * the planned arrival and the leg from the previous stop. Orders without a
+ * driver form the single unassigned route, which is how every day works
+ * until it's split across drivers.
+ */
+
+import "server-only";
+
+import { eq, inArray } from "drizzle-orm";
+import { getDB } from "@/db";
+import { ADMIN_AUDIT_ENTITY_TYPE, orderTable } from "@/db/schema";
+import type { KVSession } from "@/utils/kv-session";
+import { recordAdminAudit } from "@/utils/admin-audit";
+
+export interface RouteStopPlan {
+  orderId: string;
+  sequence: number; // Place in the driver's route
+  estimatedArrival: string; // "09:15:00"
+  durationFromPrevious: number; // seconds
+  distanceFromPrevious: number; // meters
+  driverId?: string | null; // undefined leaves the assignment as it is
+}
+
+/**
+ * Store the planned sequence and timing on each order, auditing each order
+ * whose place in a route changed
+ */
+export async function saveRouteStops(
+  stops: RouteStopPlan[],
+  { session, action }: { session: KVSession; action: string }
+): Promise<void> {
+  const db = getDB();
+
+  const routeColumns = {
+    id: orderTable.id,
+    deliveryDriverId: orderTable.deliveryDriverId,
+    deliverySequence: orderTable.deliverySequence,
+    estimatedArrivalTime: orderTable.estimatedArrivalTime,
+  };
+  const before = stops.length > 0
+    ? await db
+        .select(routeColumns)
+        .from(orderTable)
+        .where(inArray(orderTable.id, stops.map((stop) => stop.orderId)))
+    : [];
+
+  for (const stop of stops) {
+    const [updated] = await db
+      .update(orderTable)
+      .set({
+        ...(stop.driverId !== undefined && { deliveryDriverId: stop.driverId }),
+        deliverySequence: stop.sequence,
+        estimatedArrivalTime: stop.estimatedArrival,
+        routeDurationFromPrevious: stop.durationFromPrevious,
+        routeDistanceFromPrevious: stop.distanceFromPrevious,
+        updatedAt: new Date(),
+      })
+      .where(eq(orderTable.id, stop.orderId))
+      .returning(routeColumns);
+
+    if (!updated) continue;
+
+    await recordAdminAudit({
+      session,
+      action,
+      entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+      entityId: stop.orderId,
+      before: before.find((order) => order.id === stop.orderId),
+      after: updated,
+    });
+  }
+}
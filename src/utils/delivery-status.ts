@@ -0,0 +1,161 @@
+/**
+ * Delivery Status
+ *
+ * Moves a delivery order through its fulfillment workflow:
+ * pending → confirmed → preparing → out_for_delivery → arrived → delivered,
+ * or failed when the driver can't complete the stop. The admin order screens
+ * and the driver run sheet both go through here, so every change is checked
+ * against the workflow, moves the order status along with it, is audited and
+ * the customer hears about it the same way.
+ */
+
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  orderTable,
+  ADMIN_AUDIT_ENTITY_TYPE,
+  DELIVERY_FAILURE_REASON,
+  DELIVERY_FAILURE_REASON_LABELS,
+  ORDER_STATUS_EVENT_FIELD,
+  type Order,
+} from "@/db/schema";
+import type { KVSession } from "@/utils/kv-session";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { recordOrderStatusEvent } from "@/utils/order-status-events";
+import { assertFulfillmentStatusChange, getSyncedOrderStatus } from "@/utils/order-status-workflow";
+import {
+  dispatchOrderNotification,
+  getNotificationTypeForFulfillmentStatus,
+} from "@/utils/notifications";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DeliveryStatus =
+  | "pending"
+  | "confirmed"
+  | "preparing"
+  | "out_for_delivery"
+  | "arrived"
+  | "delivered"
+  | "failed";
+
+// What the driver recorded at the door
+export type DeliveryProof = Partial<Pick<
+  Order,
+  "deliveryRecipientName" | "deliveryProofImageKey" | "deliveryFailureReason" | "deliveryFailureNote"
+>>;
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+// What the status history says about the proof, e.g. "No one home: Left a note"
+function describeProof(proof: DeliveryProof): string | null {
+  const reasonKey = Object.entries(DELIVERY_FAILURE_REASON)
+    .find(([, value]) => value === proof.deliveryFailureReason)?.[0];
+
+  if (reasonKey) {
+    const reason = DELIVERY_FAILURE_REASON_LABELS[reasonKey as keyof typeof DELIVERY_FAILURE_REASON];
+    return proof.deliveryFailureNote ? `${reason}: ${proof.deliveryFailureNote}` : reason;
+  }
+
+  return proof.deliveryRecipientName ? `Received by ${proof.deliveryRecipientName}` : null;
+}
+
+/**
+ * Set an order's delivery status, with any proof recorded alongside it.
+ * Arriving and delivering are timestamped here; a delivery clears the
+ * failure from an earlier attempt. Throws if the workflow doesn't allow the
+ * change.
+ */
+export async function updateDeliveryStatus({
+  session,
+  orderId,
+  deliveryStatus,
+  proof = {},
+  notifyCustomer = false,
+}: {
+  session: KVSession;
+  orderId: string;
+  deliveryStatus: DeliveryStatus;
+  proof?: DeliveryProof;
+  notifyCustomer?: boolean;
+}): Promise<void> {
+  const db = getDB();
+
+  const [existing] = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error("Order not found");
+  }
+
+  assertFulfillmentStatusChange(existing, "delivery", deliveryStatus);
+  const syncedStatus = getSyncedOrderStatus(existing, deliveryStatus);
+
+  const changes: Partial<Order> = {
+    deliveryStatus,
+    ...(syncedStatus && { status: syncedStatus }),
+    ...(deliveryStatus === "arrived" && { deliveryArrivedAt: new Date() }),
+    ...(deliveryStatus === "delivered" && {
+      deliveredAt: new Date(),
+      deliveryFailureReason: null,
+      deliveryFailureNote: null,
+    }),
+    ...proof,
+  };
+
+  await db
+    .update(orderTable)
+    .set({
+      ...changes,
+      updatedAt: new Date(),
+    })
+    .where(eq(orderTable.id, orderId));
+
+  await recordOrderStatusEvent({
+    orderId,
+    field: ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS,
+    fromStatus: existing.deliveryStatus,
+    toStatus: deliveryStatus,
+    session,
+    note: describeProof(proof),
+  });
+
+  if (syncedStatus) {
+    await recordOrderStatusEvent({
+      orderId,
+      field: ORDER_STATUS_EVENT_FIELD.STATUS,
+      fromStatus: existing.status,
+      toStatus: syncedStatus,
+      session,
+      note: "Synced from delivery status",
+    });
+  }
+
+  await recordAdminAudit({
+    session,
+    action: "order.update_delivery_status",
+    entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+    entityId: orderId,
+    before: Object.fromEntries(
+      Object.keys(changes).map((key) => [key, existing[key as keyof Order]])
+    ),
+    after: changes,
+  });
+
+  const notificationType = getNotificationTypeForFulfillmentStatus(deliveryStatus);
+  if (notifyCustomer && notificationType) {
+    await dispatchOrderNotification({
+      orderId,
+      type: notificationType,
+    });
+  }
+}
@@ -11,8 +11,11 @@
 import "server-only";
 
 import { eq, and, inArray } from "drizzle-orm";
-import type { DeliverySchedule, DeliveryZone, PickupLocation, ProductDeliveryRules, DeliveryCalendarClosure, Order, DeliveryOneOffDate } from "@/db/schema";
+import type { DeliverySchedule, DeliveryZone, PickupLocation, ProductDeliveryRules, DeliveryCalendarClosure, Order, DeliveryOneOffDate, DeliveryFeeRule } from "@/db/schema";
 import {
+  DELIVERY_FEE_RULE_TYPE,
+  deliveryFeeRuleTable,
+  productCategoryTable,
   deliveryScheduleTable,
   deliveryZoneTable,
   pickupLocationTable,
@@ -22,6 +25,7 @@ import {
   orderTable,
 } from "@/db/schema";
 import { getDB } from "@/db";
+import { getTimeSlotConfig, type TimeSlotConfig } from "./time-slots";
 import {
   getCurrentMountainTime,
   getMountainDayOfWeek,
@@ -43,6 +47,7 @@ export interface DeliveryDateResult {
   deliveryDate: Date;
   cutoffDate: Date;
   timeWindow: string;
+  slotConfig: TimeSlotConfig | null; // null = no bookable slots for this date
   schedule: DeliverySchedule;
 }
 
@@ -50,6 +55,7 @@ export interface PickupDateResult {
   pickupDate: Date;
   cutoffDate: Date;
   timeWindow: string;
+  slotConfig: TimeSlotConfig | null; // null = no bookable slots for this date
 }
 
 export interface PickupLocationWithDate extends PickupLocation {
@@ -58,12 +64,18 @@ export interface PickupLocationWithDate extends PickupLocation {
   instructions: string | null;
 }
 
+export interface DeliveryFeeAdjustment {
+  reason: string; // Customer-facing explanation, e.g. "Free delivery over $75 applied"
+  amount: number; // Change to the fee in cents (negative = discount)
+  ruleId?: string;
+}
+
 export interface DeliveryFeeResult {
   feeAmount: number; // In cents
   appliedZone: DeliveryZone | null;
   breakdown: {
     zoneFee: number;
-    adjustments: Array<{ reason: string; amount: number }>;
+    adjustments: DeliveryFeeAdjustment[];
   };
 }
 
@@ -235,6 +247,7 @@ export async function getAvailableDeliveryDates({
       deliveryDate: nextDeliveryDate,
       cutoffDate,
       timeWindow: schedule.deliveryTimeWindow || '',
+      slotConfig: getTimeSlotConfig(schedule),
       schedule,
     });
   }
@@ -283,6 +296,7 @@ export async function getAvailableDeliveryDates({
       deliveryDate: oneOffDate,
       cutoffDate,
       timeWindow,
+      slotConfig: getTimeSlotConfig(defaultSchedule, oneOff),
       schedule: defaultSchedule, // Use default schedule as reference (may be undefined)
     });
   }
@@ -418,6 +432,7 @@ export async function getAvailablePickupDates({
       pickupDate,
       cutoffDate,
       timeWindow: location.pickupTimeWindows,
+      slotConfig: getTimeSlotConfig(location),
     });
 
     if (pickupOptions.length >= maxDates) break;
@@ -466,6 +481,7 @@ export async function getAvailablePickupDates({
       pickupDate: oneOffDate,
       cutoffDate,
       timeWindow,
+      slotConfig: getTimeSlotConfig(location, oneOff),
     });
 
     if (pickupOptions.length >= maxDates) break;
@@ -533,17 +549,64 @@ export async function getAvailablePickupLocations({
 // DELIVERY FEE CALCULATION
 // ============================================================================
 
+function formatFeeCents(cents: number): string {
+  const dollars = cents / 100;
+  return Number.isInteger(dollars) ? `$${dollars}` : `$${dollars.toFixed(2)}`;
+}
+
+/**
+ * Check whether a fee rule's conditions match the current cart
+ */
+function deliveryFeeRuleMatches({
+  rule,
+  zone,
+  subtotal,
+  cartCategoryIds,
+}: {
+  rule: DeliveryFeeRule;
+  zone: DeliveryZone;
+  subtotal: number;
+  cartCategoryIds: Set<string>;
+}): boolean {
+  // A free delivery threshold only kicks in once the subtotal reaches it
+  if (rule.freeDeliveryThreshold !== null && subtotal < rule.freeDeliveryThreshold) {
+    return false;
+  }
+
+  switch (rule.ruleType) {
+    case DELIVERY_FEE_RULE_TYPE.BASE:
+    case DELIVERY_FEE_RULE_TYPE.CUSTOM:
+      return true;
+    case DELIVERY_FEE_RULE_TYPE.ZONE:
+      return rule.deliveryZoneId === zone.id;
+    case DELIVERY_FEE_RULE_TYPE.ORDER_AMOUNT:
+      return subtotal >= (rule.minimumOrderAmount ?? 0);
+    case DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY: {
+      const categoryIds = rule.productCategoryIds
+        ? (JSON.parse(rule.productCategoryIds) as string[])
+        : [];
+      return categoryIds.some((id) => cartCategoryIds.has(id));
+    }
+    default:
+      return false;
+  }
+}
+
 /**
- * Calculate delivery fee for an order based on ZIP code zone
+ * Calculate delivery fee for an order based on ZIP code zone and fee rules
  *
  * Algorithm:
  * 1. If fulfillment method is PICKUP → Fee = $0.00 (ALWAYS FREE)
  * 2. For DELIVERY:
  *    a. Lookup delivery zone by customer's ZIP code
  *    b. Start with zone-based fee ($5 local, $10 extended)
- *    c. Check if order meets free delivery threshold → Fee = $0
- *    d. Apply product category fee overrides (highest priority)
- *    e. Return final calculated fee
+ *    c. Evaluate active delivery fee rules from lowest to highest priority,
+ *       so higher priority rules override lower ones:
+ *       - base/zone/order_amount/product_category rules set the fee
+ *       - custom rules add a surcharge
+ *       - any rule with a free delivery threshold makes delivery free once
+ *         the subtotal reaches it
+ *    d. Return final calculated fee with one adjustment per applied rule
  */
 export async function calculateDeliveryFee({
   cartItems,
@@ -586,11 +649,63 @@ export async function calculateDeliveryFee({
   }
 
   // Start with zone-based fee
-  const feeAmount = matchedZone.feeAmount;
-  const adjustments: Array<{ reason: string; amount: number }> = [];
+  let feeAmount = matchedZone.feeAmount;
+  const adjustments: DeliveryFeeAdjustment[] = [];
 
-  // Check for free delivery thresholds (would be implemented with delivery fee rules)
-  // For now, just return zone-based fee
+  const rules = await db
+    .select()
+    .from(deliveryFeeRuleTable)
+    .where(eq(deliveryFeeRuleTable.isActive, 1))
+    .all();
+
+  // Lowest priority first so higher priority rules have the final say
+  rules.sort((a, b) => a.priority - b.priority);
+
+  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  // Only look up categories when a category rule needs them
+  const cartCategoryIds = new Set<string>();
+  const productIds = [...new Set(cartItems.map((item) => item.productId))];
+  if (
+    productIds.length > 0 &&
+    rules.some((rule) => rule.ruleType === DELIVERY_FEE_RULE_TYPE.PRODUCT_CATEGORY)
+  ) {
+    const associations = await db
+      .select({ categoryId: productCategoryTable.categoryId })
+      .from(productCategoryTable)
+      .where(inArray(productCategoryTable.productId, productIds));
+
+    for (const association of associations) {
+      cartCategoryIds.add(association.categoryId);
+    }
+  }
+
+  for (const rule of rules) {
+    if (!deliveryFeeRuleMatches({ rule, zone: matchedZone, subtotal, cartCategoryIds })) {
+      continue;
+    }
+
+    let nextFee: number;
+    let reason: string;
+
+    if (rule.freeDeliveryThreshold !== null) {
+      nextFee = 0;
+      reason = `Free delivery over ${formatFeeCents(rule.freeDeliveryThreshold)} applied`;
+    } else if (rule.ruleType === DELIVERY_FEE_RULE_TYPE.CUSTOM) {
+      nextFee = feeAmount + rule.feeAmount;
+      reason = rule.name;
+    } else {
+      nextFee = rule.feeAmount;
+      reason = rule.name;
+    }
+
+    nextFee = Math.max(0, nextFee);
+
+    if (nextFee !== feeAmount) {
+      adjustments.push({ reason, amount: nextFee - feeAmount, ruleId: rule.id });
+      feeAmount = nextFee;
+    }
+  }
 
   return {
     feeAmount,
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  DROP_STATUS,
+  categoryTable,
+  productDropItemTable,
+  productDropTable,
+  productTable,
+} from "@/db/schema";
+import { createLocalD1, type LocalDB } from "@/test/local-d1";
+import { getDropInfoForProducts } from "./drops";
+
+const { testDB } = vi.hoisted(() => ({
+  testDB: { current: null as LocalDB | null },
+}));
+
+vi.mock("@/db", () => ({
+  getDB: () => {
+    if (!testDB.current) throw new Error("Local D1 isn't ready");
+    return testDB.current;
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+let dispose: () => Promise<void>;
+let categoryId: string;
+
+beforeAll(async () => {
+  const localD1 = await createLocalD1();
+  testDB.current = localD1.db;
+  dispose = localD1.dispose;
+
+  // Migrated databases still require the legacy product.categoryId
+  const [category] = await localD1.db
+    .insert(categoryTable)
+    .values({ name: "Cookies", slug: "drop-cookies" })
+    .returning();
+  categoryId = category.id;
+}, 60_000);
+
+afterAll(async () => {
+  await dispose?.();
+});
+
+function getDB(): LocalDB {
+  return testDB.current!;
+}
+
+// Stored statuses are whatever the last sync left behind
+async function createDrop({
+  status,
+  loyaltyEarlyAccessStart,
+  publicReleaseStart,
+  endTime = null,
+}: {
+  status: (typeof DROP_STATUS)[keyof typeof DROP_STATUS];
+  loyaltyEarlyAccessStart: Date;
+  publicReleaseStart: Date;
+  endTime?: Date | null;
+}) {
+  const [product] = await getDB()
+    .insert(productTable)
+    .values({ name: "Drop Cookie", categoryId, price: 500, quantityAvailable: 20 })
+    .returning();
+
+  const [drop] = await getDB()
+    .insert(productDropTable)
+    .values({ name: "Weekend Drop", status, loyaltyEarlyAccessStart, publicReleaseStart, endTime })
+    .returning();
+
+  await getDB()
+    .insert(productDropItemTable)
+    .values({ dropId: drop.id, productId: product.id, limitedQuantity: 10, remainingQuantity: 10 });
+
+  return { productId: product.id, drop };
+}
+
+async function getStoredDrops() {
+  return await getDB().select().from(productDropTable);
+}
+
+describe("getDropInfoForProducts", () => {
+  it("derives the status from the drop's times without writing", async () => {
+    const now = new Date();
+    const live = await createDrop({
+      status: DROP_STATUS.SCHEDULED,
+      loyaltyEarlyAccessStart: new Date(now.getTime() - 2 * HOUR),
+      publicReleaseStart: new Date(now.getTime() - HOUR),
+    });
+    const earlyAccess = await createDrop({
+      status: DROP_STATUS.SCHEDULED,
+      loyaltyEarlyAccessStart: new Date(now.getTime() - HOUR),
+      publicReleaseStart: new Date(now.getTime() + HOUR),
+    });
+    const before = await getStoredDrops();
+
+    const info = await getDropInfoForProducts([live.productId, earlyAccess.productId], now);
+
+    expect(info.get(live.productId)?.status).toBe(DROP_STATUS.PUBLIC_ACTIVE);
+    expect(info.get(earlyAccess.productId)?.status).toBe(DROP_STATUS.LOYALTY_ACTIVE);
+    expect(await getStoredDrops()).toEqual(before);
+  });
+
+  it("leaves out drops whose end time has passed, even before a sync", async () => {
+    const now = new Date();
+    const ended = await createDrop({
+      status: DROP_STATUS.PUBLIC_ACTIVE,
+      loyaltyEarlyAccessStart: new Date(now.getTime() - 3 * HOUR),
+      publicReleaseStart: new Date(now.getTime() - 2 * HOUR),
+      endTime: new Date(now.getTime() - HOUR),
+    });
+
+    const info = await getDropInfoForProducts([ended.productId], now);
+
+    expect(info.has(ended.productId)).toBe(false);
+  });
+});
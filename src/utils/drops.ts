@@ -0,0 +1,292 @@
+/**
+ * Product Drop Utilities
+ *
+ * Limited-quantity product releases. Loyalty members (customers with an
+ * account) can buy during the early access window, everyone else once the
+ * public release starts. Status is derived from the drop timestamps at read
+ * time, so storefront reads never write. syncDropStatuses persists it for the
+ * admin drop list.
+ */
+
+import "server-only";
+
+import { and, eq, gt, gte, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  DROP_STATUS,
+  PAYMENT_STATUS,
+  orderItemTable,
+  orderTable,
+  productDropItemTable,
+  productDropTable,
+  type ProductDrop,
+} from "@/db/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DropStatus = typeof DROP_STATUS[keyof typeof DROP_STATUS];
+
+export interface ProductDropInfo {
+  dropId: string;
+  dropItemId: string;
+  dropName: string;
+  productId: string;
+  status: DropStatus;
+  loyaltyEarlyAccessStart: Date;
+  publicReleaseStart: Date;
+  endTime: Date | null;
+  limitedQuantity: number;
+  remainingQuantity: number;
+  maxPerCustomer: number; // 0 = no limit
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Compute the status a drop should be in at a given moment
+ */
+export function getDropStatusAt(
+  drop: Pick<ProductDrop, "loyaltyEarlyAccessStart" | "publicReleaseStart"> & {
+    endTime?: Date | null;
+  },
+  now: Date = new Date()
+): DropStatus {
+  const time = now.getTime();
+
+  if (drop.endTime && time >= new Date(drop.endTime).getTime()) {
+    return DROP_STATUS.ENDED;
+  }
+
+  if (time >= new Date(drop.publicReleaseStart).getTime()) {
+    return DROP_STATUS.PUBLIC_ACTIVE;
+  }
+
+  if (time >= new Date(drop.loyaltyEarlyAccessStart).getTime()) {
+    return DROP_STATUS.LOYALTY_ACTIVE;
+  }
+
+  return DROP_STATUS.SCHEDULED;
+}
+
+/**
+ * Whether a customer can purchase from a drop in the given status
+ */
+export function canPurchaseFromDrop({
+  status,
+  isLoyaltyMember,
+}: {
+  status: DropStatus;
+  isLoyaltyMember: boolean;
+}): boolean {
+  if (status === DROP_STATUS.PUBLIC_ACTIVE) {
+    return true;
+  }
+
+  if (status === DROP_STATUS.LOYALTY_ACTIVE) {
+    return isLoyaltyMember;
+  }
+
+  return false;
+}
+
+/**
+ * Persist status transitions (scheduled → loyalty_active → public_active → ended)
+ * for every drop that hasn't ended yet. Returns the number of drops updated.
+ */
+export async function syncDropStatuses(now: Date = new Date()): Promise<number> {
+  const db = getDB();
+
+  const openDrops = await db
+    .select({
+      id: productDropTable.id,
+      status: productDropTable.status,
+      loyaltyEarlyAccessStart: productDropTable.loyaltyEarlyAccessStart,
+      publicReleaseStart: productDropTable.publicReleaseStart,
+      endTime: productDropTable.endTime,
+    })
+    .from(productDropTable)
+    .where(ne(productDropTable.status, DROP_STATUS.ENDED));
+
+  let updated = 0;
+
+  for (const drop of openDrops) {
+    const nextStatus = getDropStatusAt(drop, now);
+
+    if (nextStatus !== drop.status) {
+      await db
+        .update(productDropTable)
+        .set({ status: nextStatus, updatedAt: new Date() })
+        .where(eq(productDropTable.id, drop.id));
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Get the drop each product currently belongs to (if any).
+ * Ended drops no longer gate a product. When a product is in several open
+ * drops, the one that opens first wins. Read-only: the status comes from the
+ * drop's times, not the stored status column.
+ */
+export async function getDropInfoForProducts(
+  productIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, ProductDropInfo>> {
+  const result = new Map<string, ProductDropInfo>();
+
+  if (productIds.length === 0) {
+    return result;
+  }
+
+  const db = getDB();
+  const rows = await db
+    .select({
+      dropId: productDropTable.id,
+      dropItemId: productDropItemTable.id,
+      dropName: productDropTable.name,
+      productId: productDropItemTable.productId,
+      loyaltyEarlyAccessStart: productDropTable.loyaltyEarlyAccessStart,
+      publicReleaseStart: productDropTable.publicReleaseStart,
+      endTime: productDropTable.endTime,
+      limitedQuantity: productDropItemTable.limitedQuantity,
+      remainingQuantity: productDropItemTable.remainingQuantity,
+      maxPerCustomer: productDropItemTable.maxPerCustomer,
+    })
+    .from(productDropItemTable)
+    .innerJoin(productDropTable, eq(productDropItemTable.dropId, productDropTable.id))
+    .where(
+      and(
+        inArray(productDropItemTable.productId, productIds),
+        or(isNull(productDropTable.endTime), gt(productDropTable.endTime, now))
+      )
+    )
+    .orderBy(productDropTable.loyaltyEarlyAccessStart);
+
+  for (const row of rows) {
+    if (!result.has(row.productId)) {
+      result.set(row.productId, { ...row, status: getDropStatusAt(row, now) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sum how many units of each drop item a customer has already bought.
+ * Customers are matched by account or by email so guest purchases count too.
+ * Pass excludeOrderId when retrying a checkout so its own pending order
+ * doesn't count against the limit.
+ */
+export async function getCustomerDropPurchaseCounts({
+  dropItemIds,
+  customerEmail,
+  userId,
+  excludeOrderId,
+}: {
+  dropItemIds: string[];
+  customerEmail: string;
+  userId?: string | null;
+  excludeOrderId?: string;
+}): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+
+  if (dropItemIds.length === 0) {
+    return counts;
+  }
+
+  const db = getDB();
+  const customerMatch = userId
+    ? or(eq(orderTable.customerEmail, customerEmail), eq(orderTable.userId, userId))
+    : eq(orderTable.customerEmail, customerEmail);
+
+  const rows = await db
+    .select({
+      dropItemId: orderItemTable.dropItemId,
+      quantity: sql<number>`SUM(${orderItemTable.quantity})`,
+    })
+    .from(orderItemTable)
+    .innerJoin(orderTable, eq(orderItemTable.orderId, orderTable.id))
+    .where(
+      and(
+        inArray(orderItemTable.dropItemId, dropItemIds),
+        ne(orderTable.paymentStatus, PAYMENT_STATUS.FAILED),
+        excludeOrderId ? ne(orderTable.id, excludeOrderId) : undefined,
+        customerMatch
+      )
+    )
+    .groupBy(orderItemTable.dropItemId);
+
+  for (const row of rows) {
+    if (row.dropItemId) {
+      counts.set(row.dropItemId, Number(row.quantity) || 0);
+    }
+  }
+
+  return counts;
+}
+
+// ============================================================================
+// INVENTORY
+// ============================================================================
+
+/**
+ * Atomically claim drop quantity. The decrement only applies when enough
+ * units remain, so concurrent checkouts can never oversell a drop.
+ * Returns false when the drop item is sold out.
+ */
+export async function reserveDropQuantity({
+  dropItemId,
+  quantity,
+}: {
+  dropItemId: string;
+  quantity: number;
+}): Promise<boolean> {
+  const db = getDB();
+
+  const updated = await db
+    .update(productDropItemTable)
+    .set({
+      remainingQuantity: sql`${productDropItemTable.remainingQuantity} - ${quantity}`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(productDropItemTable.id, dropItemId),
+        gte(productDropItemTable.remainingQuantity, quantity)
+      )
+    )
+    .returning({ id: productDropItemTable.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Return previously claimed drop quantity (e.g. when a payment fails)
+ */
+export async function releaseDropQuantity({
+  dropItemId,
+  quantity,
+}: {
+  dropItemId: string;
+  quantity: number;
+}): Promise<void> {
+  const db = getDB();
+
+  await db
+    .update(productDropItemTable)
+    .set({
+      remainingQuantity: sql`${productDropItemTable.remainingQuantity} + ${quantity}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(productDropItemTable.id, dropItemId));
+}
@@ -7,6 +7,8 @@ import { VerifyEmail } from "@/react-email/verify-email";
 import { MagicLinkEmail } from "@/react-email/magic-link";
 import { OrderConfirmationEmail } from "@/react-email/order-confirmation";
 import { AdminNewOrderEmail } from "@/react-email/admin-new-order";
+import { OrderRefundEmail } from "@/react-email/order-refund";
+import { OrderStatusUpdateEmail } from "@/react-email/order-status-update";
 import isProd from "./is-prod";
 import { getDB } from "@/db";
 import { eq } from "drizzle-orm";
@@ -280,6 +282,7 @@ export async function sendOrderConfirmationEmail({
   subtotal,
   tax,
   deliveryFee,
+  deliveryFeeNotes,
   total,
   fulfillmentMethod,
   deliveryDate,
@@ -288,6 +291,7 @@ export async function sendOrderConfirmationEmail({
   pickupDate,
   pickupTimeWindow,
   pickupLocation,
+  trackingUrl,
 }: {
   email: string;
   customerName: string;
@@ -300,6 +304,7 @@ export async function sendOrderConfirmationEmail({
   subtotal: number;
   tax: number;
   deliveryFee?: number;
+  deliveryFeeNotes?: string[];
   total: number;
   fulfillmentMethod?: "delivery" | "pickup" | null;
   deliveryDate?: string | null;
@@ -311,6 +316,7 @@ export async function sendOrderConfirmationEmail({
     name: string;
     address: string;
   } | null;
+  trackingUrl?: string | null;
 }) {
   if (!isProd) {
     console.warn('\n\n\nOrder confirmation email would be sent to:', email);
@@ -327,6 +333,7 @@ export async function sendOrderConfirmationEmail({
     subtotal,
     tax,
     deliveryFee,
+    deliveryFeeNotes,
     total,
     fulfillmentMethod,
     deliveryDate,
@@ -335,6 +342,7 @@ export async function sendOrderConfirmationEmail({
     pickupDate,
     pickupTimeWindow,
     pickupLocation,
+    trackingUrl,
   }));
 
   const provider = await getEmailProvider();
@@ -360,6 +368,151 @@ export async function sendOrderConfirmationEmail({
   }
 }
 
+export async function sendOrderRefundEmail({
+  email,
+  customerName,
+  orderNumber,
+  refundAmount,
+  totalRefunded,
+  orderTotal,
+  reason,
+  refundedItems,
+  isFullRefund,
+  isCancelled,
+}: {
+  email: string;
+  customerName: string;
+  orderNumber: string;
+  refundAmount: number;
+  totalRefunded: number;
+  orderTotal: number;
+  reason: string;
+  refundedItems: Array<{
+    name: string;
+    quantity: number;
+    amount: number;
+  }>;
+  isFullRefund: boolean;
+  isCancelled: boolean;
+}) {
+  if (!isProd) {
+    console.warn('\n\n\nOrder refund email would be sent to:', email);
+    console.warn('Order #:', orderNumber);
+    console.warn('Refund amount:', refundAmount);
+    console.warn('Reason:', reason);
+    return;
+  }
+
+  const html = await render(OrderRefundEmail({
+    customerName,
+    orderNumber,
+    refundAmount,
+    totalRefunded,
+    orderTotal,
+    reason,
+    refundedItems,
+    isFullRefund,
+    isCancelled,
+  }));
+
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  const subject = isCancelled
+    ? `Order Cancelled - Sweet Angel Bakery #${orderNumber}`
+    : `Refund Issued - Sweet Angel Bakery #${orderNumber}`;
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject,
+      html,
+      tags: [{ name: "type", value: "order-refund" }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email, name: customerName }],
+      subject,
+      htmlContent: html,
+      tags: ["order-refund"],
+    });
+  }
+}
+
+export async function sendOrderStatusUpdateEmail({
+  email,
+  customerName,
+  orderNumber,
+  status,
+  deliveryTimeWindow,
+  deliveryAddress,
+  pickupTimeWindow,
+  pickupLocation,
+  trackingUrl,
+}: {
+  email: string;
+  customerName: string;
+  orderNumber: string;
+  status: "ready_for_pickup" | "out_for_delivery" | "delivered";
+  deliveryTimeWindow?: string | null;
+  deliveryAddress?: string | null;
+  pickupTimeWindow?: string | null;
+  pickupLocation?: {
+    name: string;
+    address: string;
+  } | null;
+  trackingUrl?: string | null;
+}) {
+  if (!isProd) {
+    console.warn('\n\n\nOrder status email would be sent to:', email);
+    console.warn('Order #:', orderNumber);
+    console.warn('Status:', status);
+    return;
+  }
+
+  const html = await render(OrderStatusUpdateEmail({
+    customerName,
+    orderNumber,
+    status,
+    deliveryTimeWindow,
+    deliveryAddress,
+    pickupTimeWindow,
+    pickupLocation,
+    trackingUrl,
+  }));
+
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  const subjects = {
+    ready_for_pickup: `Your Order is Ready for Pickup - Sweet Angel Bakery #${orderNumber}`,
+    out_for_delivery: `Your Order is Out for Delivery - Sweet Angel Bakery #${orderNumber}`,
+    delivered: `Your Order Was Delivered - Sweet Angel Bakery #${orderNumber}`,
+  };
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject: subjects[status],
+      html,
+      tags: [{ name: "type", value: `order-${status.replace(/_/g, "-")}` }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email, name: customerName }],
+      subject: subjects[status],
+      htmlContent: html,
+      tags: [`order-${status.replace(/_/g, "-")}`],
+    });
+  }
+}
+
 export async function sendAdminNewOrderEmail({
   customerName,
   customerEmail,
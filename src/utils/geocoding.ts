@@ -0,0 +1,300 @@
+/**
+ * Geocoding
+ *
+ * Delivery addresses are geocoded once and the coordinates stored on the
+ * order (and on the customer's saved address). Lookups go through a cache
+ * keyed by the normalized address, so repeat customers and re-renders of the
+ * fulfillment page never call Google again. Without GOOGLE_MAPS_API_KEY only
+ * cached and stored coordinates are available.
+ *
+ * Admins can pin an address on the route planner map. A pin replaces the
+ * cached coordinates, so later orders to the same address use it too.
+ */
+
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  GEOCODE_QUALITY,
+  geocodeCacheTable,
+  orderTable,
+  userTable,
+  type GeocodeQuality,
+} from "@/db/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeocodeAddress {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  quality: GeocodeQuality;
+}
+
+interface GoogleGeocodeResponse {
+  status: string;
+  results?: Array<{
+    formatted_address: string;
+    partial_match?: boolean;
+    geometry: {
+      location: { lat: number; lng: number };
+      location_type: "ROOFTOP" | "RANGE_INTERPOLATED" | "GEOMETRIC_CENTER" | "APPROXIMATE";
+    };
+  }>;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Cache key for an address: lowercase, no punctuation, single spaces and a
+ * five-digit ZIP, so "123 Main St." and "123  main st" match
+ */
+export function normalizeAddressKey(address: GeocodeAddress): string {
+  const normalize = (value: string) =>
+    value.toLowerCase().replace(/[.,#]/g, " ").replace(/\s+/g, " ").trim();
+
+  return [
+    normalize(address.street),
+    normalize(address.city),
+    normalize(address.state),
+    address.zip.trim().slice(0, 5),
+  ].join("|");
+}
+
+function toGeocodeQuality(result: NonNullable<GoogleGeocodeResponse["results"]>[number]): GeocodeQuality {
+  if (result.partial_match) return GEOCODE_QUALITY.APPROXIMATE;
+
+  switch (result.geometry.location_type) {
+    case "ROOFTOP":
+      return GEOCODE_QUALITY.ROOFTOP;
+    case "RANGE_INTERPOLATED":
+      return GEOCODE_QUALITY.INTERPOLATED;
+    default:
+      return GEOCODE_QUALITY.APPROXIMATE;
+  }
+}
+
+async function geocodeWithGoogle(
+  address: GeocodeAddress
+): Promise<(GeocodeResult & { formattedAddress: string }) | null> {
+  if (!process.env.GOOGLE_MAPS_API_KEY) return null;
+
+  const addressString = `${address.street}, ${address.city}, ${address.state} ${address.zip}`;
+
+  try {
+    const response = await fetch(
+      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(addressString)}&key=${process.env.GOOGLE_MAPS_API_KEY}`
+    );
+    const data = (await response.json()) as GoogleGeocodeResponse;
+    const result = data.results?.[0];
+
+    if (!result) {
+      console.warn(`[Geocoding] No result for "${addressString}": ${data.status}`);
+      return null;
+    }
+
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      quality: toGeocodeQuality(result),
+      formattedAddress: result.formatted_address,
+    };
+  } catch (error) {
+    console.error(`[Geocoding] Failed to geocode "${addressString}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Coordinates for an address, from the cache or Google. Returns null when
+ * the address can't be found or there's no API key for a cache miss.
+ */
+export async function geocodeAddress(address: GeocodeAddress): Promise<GeocodeResult | null> {
+  const db = getDB();
+  const addressKey = normalizeAddressKey(address);
+
+  const cached = await db
+    .select()
+    .from(geocodeCacheTable)
+    .where(eq(geocodeCacheTable.addressKey, addressKey))
+    .get();
+
+  if (cached) {
+    return { lat: cached.lat, lng: cached.lng, quality: cached.quality as GeocodeQuality };
+  }
+
+  const result = await geocodeWithGoogle(address);
+  if (!result) return null;
+
+  await db
+    .insert(geocodeCacheTable)
+    .values({ addressKey, ...result })
+    .onConflictDoNothing({ target: geocodeCacheTable.addressKey });
+
+  return { lat: result.lat, lng: result.lng, quality: result.quality };
+}
+
+// ============================================================================
+// ORDERS AND USERS
+// ============================================================================
+
+function parseAddressJson(addressJson: string | null): GeocodeAddress | null {
+  if (!addressJson || addressJson === "null") return null;
+
+  try {
+    const address = JSON.parse(addressJson) as Partial<GeocodeAddress>;
+    if (!address.street || !address.city || !address.state || !address.zip) return null;
+    return address as GeocodeAddress;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Geocode an order's delivery address and store the coordinates on it.
+ * Orders that already have coordinates are returned as they are.
+ */
+export async function geocodeOrderAddress(orderId: string): Promise<GeocodeResult | null> {
+  const db = getDB();
+
+  const order = await db
+    .select({
+      deliveryAddressJson: orderTable.deliveryAddressJson,
+      deliveryLat: orderTable.deliveryLat,
+      deliveryLng: orderTable.deliveryLng,
+      deliveryGeocodeQuality: orderTable.deliveryGeocodeQuality,
+    })
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .get();
+
+  if (!order) return null;
+
+  if (order.deliveryLat !== null && order.deliveryLng !== null) {
+    return {
+      lat: order.deliveryLat,
+      lng: order.deliveryLng,
+      quality: (order.deliveryGeocodeQuality ?? GEOCODE_QUALITY.APPROXIMATE) as GeocodeQuality,
+    };
+  }
+
+  const address = parseAddressJson(order.deliveryAddressJson);
+  if (!address) return null;
+
+  const result = await geocodeAddress(address);
+  if (!result) return null;
+
+  await db
+    .update(orderTable)
+    .set({
+      deliveryLat: result.lat,
+      deliveryLng: result.lng,
+      deliveryGeocodeQuality: result.quality,
+    })
+    .where(eq(orderTable.id, orderId));
+
+  return result;
+}
+
+/**
+ * Geocode a customer's saved address, clearing the coordinates when the
+ * address was removed or can't be found
+ */
+export async function geocodeUserAddress(userId: string): Promise<GeocodeResult | null> {
+  const db = getDB();
+
+  const user = await db
+    .select({
+      streetAddress1: userTable.streetAddress1,
+      city: userTable.city,
+      state: userTable.state,
+      zipCode: userTable.zipCode,
+    })
+    .from(userTable)
+    .where(eq(userTable.id, userId))
+    .get();
+
+  const result = user?.streetAddress1 && user.city && user.state && user.zipCode
+    ? await geocodeAddress({
+      street: user.streetAddress1, // Like orders, the unit line doesn't change the location
+      city: user.city,
+      state: user.state,
+      zip: user.zipCode,
+    })
+    : null;
+
+  await db
+    .update(userTable)
+    .set({
+      latitude: result?.lat ?? null,
+      longitude: result?.lng ?? null,
+      geocodeQuality: result?.quality ?? null,
+    })
+    .where(eq(userTable.id, userId));
+
+  return result;
+}
+
+/**
+ * Pin an order's delivery location by hand. The pin also replaces the
+ * cached coordinates for the address. Returns the previous coordinates.
+ */
+export async function pinOrderLocation({
+  orderId,
+  lat,
+  lng,
+}: {
+  orderId: string;
+  lat: number;
+  lng: number;
+}): Promise<{ lat: number | null; lng: number | null; quality: string | null }> {
+  const db = getDB();
+
+  const order = await db
+    .select({
+      deliveryAddressJson: orderTable.deliveryAddressJson,
+      deliveryLat: orderTable.deliveryLat,
+      deliveryLng: orderTable.deliveryLng,
+      deliveryGeocodeQuality: orderTable.deliveryGeocodeQuality,
+    })
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .get();
+
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  await db
+    .update(orderTable)
+    .set({ deliveryLat: lat, deliveryLng: lng, deliveryGeocodeQuality: GEOCODE_QUALITY.MANUAL })
+    .where(eq(orderTable.id, orderId));
+
+  const address = parseAddressJson(order.deliveryAddressJson);
+  if (address) {
+    await db
+      .insert(geocodeCacheTable)
+      .values({ addressKey: normalizeAddressKey(address), lat, lng, quality: GEOCODE_QUALITY.MANUAL })
+      .onConflictDoUpdate({
+        target: geocodeCacheTable.addressKey,
+        set: { lat, lng, quality: GEOCODE_QUALITY.MANUAL },
+      });
+  }
+
+  return {
+    lat: order.deliveryLat,
+    lng: order.deliveryLng,
+    quality: order.deliveryGeocodeQuality,
+  };
+}
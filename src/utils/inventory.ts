@@ -0,0 +1,196 @@
+/**
+ * Inventory
+ *
+ * Plain products keep their stock in productTable.quantityAvailable. Products
+ * with size variants keep it per variant, in the quantityAvailable of each
+ * variant inside productTable.customizations. These helpers adjust whichever
+ * counter an order item was sold from, with a single UPDATE per item so the
+ * statements can run inside a D1 batch.
+ */
+
+import "server-only";
+
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  orderItemTable,
+  productTable,
+  type Order,
+} from "@/db/schema";
+import type { OrderItemCustomizations } from "@/types/customizations";
+import { releaseDropQuantity } from "@/utils/drops";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InventoryAdjustment {
+  productId: string;
+  variantId?: string | null; // Size variant the units came from
+  quantity: number; // Positive restocks, negative deducts
+}
+
+// ============================================================================
+// ADJUSTMENTS
+// ============================================================================
+
+/**
+ * Size variant an order item was sold as, from its stored or parsed customizations
+ */
+export function getSelectedVariantId(
+  customizations: OrderItemCustomizations | string | null | undefined
+): string | null {
+  if (!customizations) return null;
+
+  let parsed: OrderItemCustomizations;
+  try {
+    parsed = typeof customizations === "string"
+      ? JSON.parse(customizations) as OrderItemCustomizations
+      : customizations;
+  } catch {
+    return null;
+  }
+
+  return parsed?.type === "size_variant" ? parsed.selectedVariantId : null;
+}
+
+/**
+ * Build the UPDATE for one adjustment. Variant stock is changed inside the
+ * customizations JSON (never below zero, which the product form rejects);
+ * when the variant no longer exists the product-level stock is used instead.
+ * Pass `condition` to only adjust when it holds when the statement runs.
+ */
+export function buildInventoryAdjustment(
+  { productId, variantId, quantity }: InventoryAdjustment,
+  condition?: SQL
+) {
+  const db = getDB();
+
+  if (!variantId) {
+    return db
+      .update(productTable)
+      .set({
+        quantityAvailable: sql`${productTable.quantityAvailable} + ${quantity}`,
+      })
+      .where(and(eq(productTable.id, productId), condition));
+  }
+
+  const variantIndex = sql`(
+    SELECT v.key FROM json_each(${productTable.customizations}, '$.variants') AS v
+    WHERE json_extract(v.value, '$.id') = ${variantId}
+  )`;
+  const variantPath = sql`'$.variants[' || ${variantIndex} || '].quantityAvailable'`;
+
+  return db
+    .update(productTable)
+    .set({
+      customizations: sql`CASE WHEN ${variantIndex} IS NULL
+        THEN ${productTable.customizations}
+        ELSE json_set(
+          ${productTable.customizations},
+          ${variantPath},
+          MAX(0, COALESCE(json_extract(${productTable.customizations}, ${variantPath}), 0) + ${quantity})
+        )
+      END`,
+      quantityAvailable: sql`CASE WHEN ${variantIndex} IS NULL
+        THEN ${productTable.quantityAvailable} + ${quantity}
+        ELSE ${productTable.quantityAvailable}
+      END`,
+    })
+    .where(and(eq(productTable.id, productId), condition));
+}
+
+/**
+ * Apply several adjustments in one batch
+ */
+export async function adjustInventory(adjustments: InventoryAdjustment[]): Promise<void> {
+  const [first, ...rest] = adjustments
+    .filter((adjustment) => adjustment.quantity !== 0)
+    .map((adjustment) => buildInventoryAdjustment(adjustment));
+
+  if (!first) return;
+
+  await getDB().batch([first, ...rest]);
+}
+
+// ============================================================================
+// CANCELLATIONS
+// ============================================================================
+
+/**
+ * Whether the order's items were taken out of stock. Pending-payment orders
+ * and failed payments never reduced inventory.
+ */
+export function hasDeductedInventory(order: Pick<Order, "status" | "paymentStatus">): boolean {
+  return (
+    order.status !== ORDER_STATUS.PENDING_PAYMENT &&
+    order.paymentStatus !== PAYMENT_STATUS.FAILED
+  );
+}
+
+async function getOpenOrderItems(orderId: string) {
+  const db = getDB();
+
+  const items = await db
+    .select()
+    .from(orderItemTable)
+    .where(eq(orderItemTable.orderId, orderId));
+
+  // Refunded units are left alone; refunds decide on their own whether to restock
+  return items
+    .map((item) => ({ ...item, openQuantity: item.quantity - item.refundedQuantity }))
+    .filter((item) => item.openQuantity > 0);
+}
+
+/**
+ * Put a cancelled order's unrefunded units back in stock and in their drops
+ */
+export async function restockOrderItems(orderId: string): Promise<void> {
+  const items = await getOpenOrderItems(orderId);
+
+  await adjustInventory(
+    items.map((item) => ({
+      productId: item.productId,
+      variantId: getSelectedVariantId(item.customizations),
+      quantity: item.openQuantity,
+    }))
+  );
+
+  for (const item of items) {
+    if (item.dropItemId) {
+      await releaseDropQuantity({ dropItemId: item.dropItemId, quantity: item.openQuantity });
+    }
+  }
+}
+
+/**
+ * Give back the drop quantity an unpaid order claimed at checkout. Its stock
+ * was never deducted, so only the drops change.
+ */
+export async function releaseOrderDropClaims(orderId: string): Promise<void> {
+  const items = await getOpenOrderItems(orderId);
+
+  for (const item of items) {
+    if (item.dropItemId) {
+      await releaseDropQuantity({ dropItemId: item.dropItemId, quantity: item.openQuantity });
+    }
+  }
+}
+
+/**
+ * Take the units out of stock again when a cancellation is undone. Drop
+ * quantities aren't reclaimed since the drop may have sold out meanwhile.
+ */
+export async function deductOrderItems(orderId: string): Promise<void> {
+  const items = await getOpenOrderItems(orderId);
+
+  await adjustInventory(
+    items.map((item) => ({
+      productId: item.productId,
+      variantId: getSelectedVariantId(item.customizations),
+      quantity: -item.openQuantity,
+    }))
+  );
+}
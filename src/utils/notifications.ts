@@ -0,0 +1,317 @@
+/**
+ * Customer Notification Dispatcher
+ *
+ * Sends order emails and SMS messages for order creation and fulfillment
+ * milestones. Email is always sent for these transactional events; SMS only
+ * goes to customers with an account and a verified phone number who turned on
+ * `smsDelivery` in their notification preferences. Every send is recorded in
+ * the notification log, which also keeps the same milestone from being
+ * announced twice.
+ */
+
+import "server-only";
+
+import { and, eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  NOTIFICATION_CHANNEL,
+  NOTIFICATION_STATUS,
+  NOTIFICATION_TYPE,
+  ORDER_STATUS,
+  SMS_DELIVERY_STATUS,
+  notificationLogTable,
+  orderTable,
+  pickupLocationTable,
+  userTable,
+  type NotificationLog,
+  type Order,
+} from "@/db/schema";
+import {
+  formatPhoneNumber,
+  sendOrderConfirmationSMS,
+  sendOrderDeliveredSMS,
+  sendOrderOutForDeliverySMS,
+  sendOrderReadySMS,
+  type SendSMSResult,
+} from "@/utils/sms";
+import { getOrderTrackingUrl } from "@/utils/order-tracking";
+import { getOrderNumber } from "@/utils/order-number";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderNotificationType = typeof NOTIFICATION_TYPE[keyof typeof NOTIFICATION_TYPE];
+
+export interface CustomerNotificationPreferences {
+  emailNewFlavors: boolean;
+  emailDrops: boolean;
+  smsDelivery: boolean;
+  smsDrops: boolean;
+}
+
+const DEFAULT_NOTIFICATION_PREFERENCES: CustomerNotificationPreferences = {
+  emailNewFlavors: true,
+  emailDrops: true,
+  smsDelivery: false,
+  smsDrops: false,
+};
+
+// Fulfillment status values (delivery/pickup) that customers are told about
+const FULFILLMENT_STATUS_NOTIFICATIONS: Record<string, OrderNotificationType> = {
+  ready_for_pickup: NOTIFICATION_TYPE.READY_FOR_PICKUP,
+  out_for_delivery: NOTIFICATION_TYPE.OUT_FOR_DELIVERY,
+  delivered: NOTIFICATION_TYPE.DELIVERED,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function parseNotificationPreferences(
+  preferencesJson: string | null | undefined
+): CustomerNotificationPreferences {
+  if (!preferencesJson) {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+
+  try {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...JSON.parse(preferencesJson) };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+/**
+ * Map a delivery/pickup status to the notification it should trigger, if any
+ */
+export function getNotificationTypeForFulfillmentStatus(
+  status: string
+): OrderNotificationType | null {
+  return FULFILLMENT_STATUS_NOTIFICATIONS[status] ?? null;
+}
+
+/**
+ * Map an order status change to the notification it should trigger, if any.
+ * Completing a delivery order means it was delivered.
+ */
+export function getNotificationTypeForOrderStatus(
+  order: Pick<Order, "status" | "fulfillmentMethod">
+): OrderNotificationType | null {
+  switch (order.status) {
+    case ORDER_STATUS.READY_FOR_PICKUP:
+      return NOTIFICATION_TYPE.READY_FOR_PICKUP;
+    case ORDER_STATUS.OUT_FOR_DELIVERY:
+      return NOTIFICATION_TYPE.OUT_FOR_DELIVERY;
+    case ORDER_STATUS.COMPLETED:
+      return order.fulfillmentMethod === "delivery" ? NOTIFICATION_TYPE.DELIVERED : null;
+    default:
+      return null;
+  }
+}
+
+function formatAddress(addressJson: string | null): string | null {
+  if (!addressJson || addressJson === "null") {
+    return null;
+  }
+
+  try {
+    const addr = JSON.parse(addressJson);
+    return `${addr.street}\n${addr.city}, ${addr.state} ${addr.zip}`;
+  } catch {
+    return addressJson;
+  }
+}
+
+async function recordNotification(
+  values: typeof notificationLogTable.$inferInsert
+): Promise<NotificationLog> {
+  const db = getDB();
+  const [log] = await db.insert(notificationLogTable).values(values).returning();
+  return log;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Send the email and SMS for an order event and log the results.
+ *
+ * The confirmation email is built from checkout data the order row doesn't
+ * keep (e.g. applied fee rules), so callers pass it in as `sendConfirmationEmail`.
+ * Failures are logged rather than thrown so notifications never break the
+ * order flow.
+ */
+export async function dispatchOrderNotification({
+  orderId,
+  type,
+  sendConfirmationEmail,
+}: {
+  orderId: string;
+  type: OrderNotificationType;
+  sendConfirmationEmail?: () => Promise<void>;
+}): Promise<NotificationLog[]> {
+  const db = getDB();
+  const logs: NotificationLog[] = [];
+
+  try {
+    const order = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.id, orderId))
+      .get();
+
+    if (!order) {
+      console.error(`[Notifications] Order ${orderId} not found`);
+      return logs;
+    }
+
+    // Guests can't set preferences, so match accounts by id first, then email
+    const user = await db
+      .select({
+        id: userTable.id,
+        phone: userTable.phone,
+        phoneVerified: userTable.phoneVerified,
+        notificationPreferences: userTable.notificationPreferences,
+      })
+      .from(userTable)
+      .where(
+        order.userId
+          ? eq(userTable.id, order.userId)
+          : eq(userTable.email, order.customerEmail)
+      )
+      .get();
+
+    const preferences = parseNotificationPreferences(user?.notificationPreferences);
+
+    const alreadySent = await db
+      .select({ channel: notificationLogTable.channel })
+      .from(notificationLogTable)
+      .where(
+        and(
+          eq(notificationLogTable.orderId, orderId),
+          eq(notificationLogTable.type, type),
+          eq(notificationLogTable.status, NOTIFICATION_STATUS.SENT)
+        )
+      );
+    const sentChannels = new Set(alreadySent.map((log) => log.channel));
+
+    const orderNumber = getOrderNumber(order.id);
+    const trackingUrl = getOrderTrackingUrl(order.trackingToken);
+
+    // Email
+    if (!sentChannels.has(NOTIFICATION_CHANNEL.EMAIL)) {
+      let sendEmail: (() => Promise<void>) | null = null;
+
+      if (type === NOTIFICATION_TYPE.ORDER_CONFIRMATION) {
+        sendEmail = sendConfirmationEmail ?? null;
+      } else {
+        sendEmail = async () => {
+          const { sendOrderStatusUpdateEmail } = await import("@/utils/email");
+
+          let pickupLocation: { name: string; address: string } | null = null;
+          if (type === NOTIFICATION_TYPE.READY_FOR_PICKUP && order.pickupLocationId) {
+            const location = await db
+              .select()
+              .from(pickupLocationTable)
+              .where(eq(pickupLocationTable.id, order.pickupLocationId))
+              .get();
+
+            if (location) {
+              pickupLocation = {
+                name: location.name,
+                address: formatAddress(location.address) || "",
+              };
+            }
+          }
+
+          await sendOrderStatusUpdateEmail({
+            email: order.customerEmail,
+            customerName: order.customerName,
+            orderNumber,
+            status: type as "ready_for_pickup" | "out_for_delivery" | "delivered",
+            deliveryTimeWindow: order.deliveryTimeWindow,
+            deliveryAddress: formatAddress(order.deliveryAddressJson) || order.deliveryAddress,
+            pickupTimeWindow: order.pickupTimeWindow,
+            pickupLocation,
+            trackingUrl,
+          });
+        };
+      }
+
+      if (sendEmail) {
+        try {
+          await sendEmail();
+          logs.push(await recordNotification({
+            orderId,
+            userId: user?.id ?? null,
+            type,
+            channel: NOTIFICATION_CHANNEL.EMAIL,
+            recipient: order.customerEmail,
+            status: NOTIFICATION_STATUS.SENT,
+          }));
+        } catch (error) {
+          console.error(`[Notifications] Error sending ${type} email:`, error);
+          logs.push(await recordNotification({
+            orderId,
+            userId: user?.id ?? null,
+            type,
+            channel: NOTIFICATION_CHANNEL.EMAIL,
+            recipient: order.customerEmail,
+            status: NOTIFICATION_STATUS.FAILED,
+            error: error instanceof Error ? error.message : "Failed to send email",
+          }));
+        }
+      }
+    }
+
+    // SMS only goes to the account's verified number, not the one typed at checkout
+    if (
+      user?.phone &&
+      user.phoneVerified &&
+      preferences.smsDelivery &&
+      !sentChannels.has(NOTIFICATION_CHANNEL.SMS)
+    ) {
+      const to = formatPhoneNumber(user.phone);
+      const smsOptions = { to, orderNumber, customerName: order.customerName };
+      let result: SendSMSResult;
+
+      switch (type) {
+        case NOTIFICATION_TYPE.ORDER_CONFIRMATION:
+          result = await sendOrderConfirmationSMS({ ...smsOptions, trackingUrl });
+          break;
+        case NOTIFICATION_TYPE.READY_FOR_PICKUP:
+          result = await sendOrderReadySMS({ ...smsOptions, trackingUrl });
+          break;
+        case NOTIFICATION_TYPE.OUT_FOR_DELIVERY:
+          result = await sendOrderOutForDeliverySMS({
+            ...smsOptions,
+            deliveryTimeWindow: order.deliveryTimeWindow,
+            trackingUrl,
+          });
+          break;
+        default:
+          result = await sendOrderDeliveredSMS(smsOptions);
+      }
+
+      logs.push(await recordNotification({
+        orderId,
+        userId: user.id,
+        type,
+        channel: NOTIFICATION_CHANNEL.SMS,
+        recipient: to,
+        status: result.success ? NOTIFICATION_STATUS.SENT : NOTIFICATION_STATUS.FAILED,
+        error: result.error ?? null,
+        provider: result.provider ?? null,
+        providerMessageId: result.messageId ?? null,
+        deliveryStatus: result.success ? SMS_DELIVERY_STATUS.SENT : null,
+        deliveryStatusAt: result.success ? new Date() : null,
+      }));
+    }
+  } catch (error) {
+    console.error(`[Notifications] Error dispatching ${type} for order ${orderId}:`, error);
+  }
+
+  return logs;
+}
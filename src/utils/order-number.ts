@@ -0,0 +1,8 @@
+/**
+ * Order number shown to customers and staff (e.g. "ord_k3j9x2m1..." -> "K3J9X2M1").
+ * Receipts, texts, tracking pages and run sheets all use it, so a customer
+ * can quote it to anyone.
+ */
+export function getOrderNumber(orderId: string): string {
+  return orderId.substring(4, 12).toUpperCase();
+}
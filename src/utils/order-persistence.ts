@@ -0,0 +1,331 @@
+/**
+ * Order Persistence
+ *
+ * Checkout saves the order as "pending_payment" (with its items) before the
+ * card is charged, then finalizes it in a single D1 batch once the provider
+ * confirms the payment. If the request dies in between, the pending row and
+ * the order ID stored on the provider's payment let the reconciliation job
+ * finish the order instead of leaving a charge with no order.
+ */
+
+import "server-only";
+
+import { and, eq, ne, sql } from "drizzle-orm";
+import { createId } from "@paralleldrive/cuid2";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  ORDER_STATUS_EVENT_FIELD,
+  PAYMENT_STATUS,
+  merchantFeeTable,
+  orderItemTable,
+  orderTable,
+  type Order,
+} from "@/db/schema";
+import { calculateMerchantFee } from "@/lib/merchant-provider/fee-calculator";
+import type { MerchantProviderType } from "@/lib/merchant-provider/types";
+import { buildInventoryAdjustment, getSelectedVariantId } from "@/utils/inventory";
+import { recordOrderStatusEvent } from "@/utils/order-status-events";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type NewOrder = typeof orderTable.$inferInsert;
+type NewOrderItem = typeof orderItemTable.$inferInsert;
+
+export interface PendingOrderItem {
+  productId: string;
+  quantity: number;
+  price: number; // cents
+  customizations?: unknown;
+  dropItemId?: string | null;
+}
+
+export interface FinalizeOrderPayment {
+  paymentId: string;
+  tax: number; // cents, as charged by the provider
+  totalAmount: number; // cents, as charged by the provider
+}
+
+/**
+ * A payment arrived for an order that is no longer waiting for one (it was
+ * cancelled or its payment failed). The order is left alone; the payment
+ * needs a refund or a human.
+ */
+export class OrderNotPayableError extends Error {
+  constructor(orderId: string, status: string) {
+    super(`Order ${orderId} is ${status} and can't be finalized`);
+    this.name = "OrderNotPayableError";
+  }
+}
+
+// ============================================================================
+// CHECKOUT KEY
+// ============================================================================
+
+/**
+ * Deterministic key for one checkout attempt. The same attempt with the same
+ * cart always produces the same key, so a double-submit or a retry after a
+ * network error reuses the pending order and the provider's idempotency
+ * instead of charging twice. 40 hex chars fits every provider's key limit.
+ */
+export async function deriveCheckoutKey({
+  checkoutAttemptId,
+  customerEmail,
+  items,
+  deliveryFee,
+}: {
+  checkoutAttemptId: string;
+  customerEmail: string;
+  items: PendingOrderItem[];
+  deliveryFee: number;
+}): Promise<string> {
+  const cart = items
+    .map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.price,
+      customizations: item.customizations ?? null,
+    }))
+    .sort((a, b) =>
+      JSON.stringify(a).localeCompare(JSON.stringify(b))
+    );
+
+  const payload = JSON.stringify({
+    checkoutAttemptId,
+    customerEmail: customerEmail.toLowerCase(),
+    cart,
+    deliveryFee,
+  });
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(payload)
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 40);
+}
+
+// ============================================================================
+// PENDING ORDERS
+// ============================================================================
+
+export async function getOrderByCheckoutKey(checkoutKey: string): Promise<Order | undefined> {
+  const db = getDB();
+
+  return await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.checkoutKey, checkoutKey))
+    .get();
+}
+
+/**
+ * Save the order and its items as pending_payment in one batch. Inventory is
+ * only reduced when the payment is confirmed.
+ */
+export async function createPendingPaymentOrder({
+  order,
+  items,
+}: {
+  order: Omit<NewOrder, "id" | "status" | "paymentStatus">;
+  items: PendingOrderItem[];
+}): Promise<Order> {
+  const db = getDB();
+  const orderId = `ord_${createId()}`;
+
+  const itemValues: NewOrderItem[] = items.map((item) => ({
+    orderId,
+    productId: item.productId,
+    quantity: item.quantity,
+    priceAtPurchase: item.price,
+    customizations: item.customizations ? JSON.stringify(item.customizations) : null,
+    dropItemId: item.dropItemId ?? null,
+  }));
+
+  const [[pendingOrder]] = await db.batch([
+    db
+      .insert(orderTable)
+      .values({
+        ...order,
+        id: orderId,
+        status: ORDER_STATUS.PENDING_PAYMENT,
+        paymentStatus: PAYMENT_STATUS.PENDING,
+      })
+      .returning(),
+    db.insert(orderItemTable).values(itemValues),
+  ]);
+
+  return pendingOrder;
+}
+
+/**
+ * Mark a pending order as failed after the provider rejected the payment
+ */
+export async function failPendingPaymentOrder(orderId: string): Promise<void> {
+  const db = getDB();
+
+  await db
+    .update(orderTable)
+    .set({
+      paymentStatus: PAYMENT_STATUS.FAILED,
+      status: ORDER_STATUS.CANCELLED,
+      updatedAt: new Date(),
+    })
+    .where(eq(orderTable.id, orderId));
+
+  await recordOrderStatusEvent({
+    orderId,
+    field: ORDER_STATUS_EVENT_FIELD.STATUS,
+    fromStatus: ORDER_STATUS.PENDING_PAYMENT,
+    toStatus: ORDER_STATUS.CANCELLED,
+    note: "Payment failed",
+  });
+}
+
+// ============================================================================
+// FINALIZATION
+// ============================================================================
+
+/**
+ * Turn a pending order into a paid one: payment details, merchant fee and
+ * inventory (product or size variant stock) are written in a single D1 batch, so either all of it lands or
+ * none of it does. Safe to call again for an order that's already paid, even
+ * while another request (checkout and reconciliation) is finalizing it.
+ * Only pending_payment orders are finalized: cancelled ones have already given
+ * back their stock and drop claims, so throws OrderNotPayableError for those.
+ */
+export async function finalizePaidOrder({
+  orderId,
+  payment,
+  merchantProvider,
+}: {
+  orderId: string;
+  payment: FinalizeOrderPayment;
+  merchantProvider: MerchantProviderType;
+}): Promise<{ order: Order; alreadyFinalized: boolean }> {
+  const db = getDB();
+
+  const existing = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .get();
+
+  if (!existing) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  if (existing.paymentStatus === PAYMENT_STATUS.PAID) {
+    return { order: existing, alreadyFinalized: true };
+  }
+
+  if (existing.status !== ORDER_STATUS.PENDING_PAYMENT) {
+    throw new OrderNotPayableError(orderId, existing.status);
+  }
+
+  const items = await db
+    .select({
+      productId: orderItemTable.productId,
+      quantity: orderItemTable.quantity,
+      customizations: orderItemTable.customizations,
+    })
+    .from(orderItemTable)
+    .where(eq(orderItemTable.orderId, orderId));
+
+  const feeCalculation = calculateMerchantFee({
+    orderAmount: payment.totalAmount,
+    merchantProvider,
+  });
+
+  const now = new Date();
+
+  // The order is marked paid last, and everything before it only runs while
+  // it's still unpaid. D1 runs a batch as one transaction, so when two
+  // requests finalize the same order the second batch changes nothing.
+  const isUnpaid = and(
+    eq(orderTable.id, orderId),
+    eq(orderTable.status, ORDER_STATUS.PENDING_PAYMENT),
+    ne(orderTable.paymentStatus, PAYMENT_STATUS.PAID)
+  );
+  const orderIsUnpaid = sql`exists (select 1 from ${orderTable} where ${isUnpaid})`;
+
+  const results = await db.batch([
+    db.insert(merchantFeeTable).select((qb) =>
+      qb
+        .select({
+          createdAt: sql`${sql.param(now, merchantFeeTable.createdAt)}`.as("createdAt"),
+          updatedAt: sql`${sql.param(now, merchantFeeTable.updatedAt)}`.as("updatedAt"),
+          updateCounter: sql`0`.as("updateCounter"),
+          id: sql`${`mfee_${createId()}`}`.as("id"),
+          orderId: orderTable.id,
+          merchantProvider: sql`${merchantProvider}`.as("merchantProvider"),
+          orderAmount: sql`${feeCalculation.orderAmount}`.as("orderAmount"),
+          percentageFee: sql`${feeCalculation.percentageFee}`.as("percentageFee"),
+          fixedFee: sql`${feeCalculation.fixedFee}`.as("fixedFee"),
+          totalFee: sql`${feeCalculation.totalFee}`.as("totalFee"),
+          netAmount: sql`${feeCalculation.netAmount}`.as("netAmount"),
+          refundedAmount: sql`0`.as("refundedAmount"),
+          paymentIntentId: sql`${payment.paymentId}`.as("paymentIntentId"),
+          calculatedAt: sql`${sql.param(now, merchantFeeTable.calculatedAt)}`.as("calculatedAt"),
+        })
+        .from(orderTable)
+        .where(isUnpaid)
+    ),
+    ...items.map((item) =>
+      buildInventoryAdjustment(
+        {
+          productId: item.productId,
+          variantId: getSelectedVariantId(item.customizations),
+          quantity: -item.quantity,
+        },
+        orderIsUnpaid
+      )
+    ),
+    db
+      .update(orderTable)
+      .set({
+        paymentStatus: PAYMENT_STATUS.PAID,
+        status: ORDER_STATUS.PENDING,
+        merchantProvider,
+        paymentIntentId: payment.paymentId,
+        stripePaymentIntentId: payment.paymentId,
+        tax: payment.tax,
+        totalAmount: payment.totalAmount,
+        updatedAt: now,
+      })
+      .where(isUnpaid)
+      .returning(),
+  ]);
+
+  const [order] = results[results.length - 1] as Order[];
+
+  // Another request finalized (or cancelled) it first
+  if (!order) {
+    const finalized = await db
+      .select()
+      .from(orderTable)
+      .where(eq(orderTable.id, orderId))
+      .get();
+
+    if (finalized?.paymentStatus !== PAYMENT_STATUS.PAID) {
+      throw new OrderNotPayableError(orderId, finalized?.status ?? "missing");
+    }
+
+    return { order: finalized, alreadyFinalized: true };
+  }
+
+  await recordOrderStatusEvent({
+    orderId,
+    field: ORDER_STATUS_EVENT_FIELD.STATUS,
+    fromStatus: existing.status,
+    toStatus: ORDER_STATUS.PENDING,
+    note: "Payment confirmed",
+  });
+
+  return { order, alreadyFinalized: false };
+}
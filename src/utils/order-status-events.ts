@@ -0,0 +1,274 @@
+/**
+ * Order Status Events
+ *
+ * The order row only holds the current `status`, `deliveryStatus` and
+ * `pickupStatus`. Every change to one of them also adds a row to
+ * `order_status_event`, so we can show the order's history and measure how
+ * long production takes.
+ */
+
+import "server-only";
+
+import { and, asc, eq, gte, inArray, lte, or } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  orderStatusEventTable,
+  orderTable,
+  ORDER_STATUS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_EVENT_FIELD,
+  ORDER_STATUS_EVENT_FIELD_LABELS,
+  type OrderStatusEvent,
+} from "@/db/schema";
+import type { KVSession } from "@/utils/kv-session";
+import { FULFILLMENT_STATUS_LABELS } from "@/utils/order-status-workflow";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderStatusEventField = typeof ORDER_STATUS_EVENT_FIELD[keyof typeof ORDER_STATUS_EVENT_FIELD];
+
+export interface StageDuration {
+  status: string;
+  orderCount: number;
+  averageMinutes: number;
+}
+
+export interface ProductionLeadTimes {
+  orderCount: number;
+  averageMinutes: number | null;
+  medianMinutes: number | null;
+  p90Minutes: number | null;
+  stages: StageDuration[];
+}
+
+// Statuses the kitchen moves an order through before it's ready
+const PRODUCTION_STATUSES: string[] = [
+  ORDER_STATUS.PENDING,
+  ORDER_STATUS.CONFIRMED,
+  ORDER_STATUS.IN_PRODUCTION,
+  ORDER_STATUS.BAKING,
+  ORDER_STATUS.BAKED,
+  ORDER_STATUS.COOLING,
+  ORDER_STATUS.DECORATING,
+  ORDER_STATUS.PACKAGING,
+];
+
+// An order counts as ready once any of its statuses says so
+const READY_CONDITION = or(
+  and(
+    eq(orderStatusEventTable.field, ORDER_STATUS_EVENT_FIELD.STATUS),
+    inArray(orderStatusEventTable.toStatus, [ORDER_STATUS.READY_FOR_PICKUP, ORDER_STATUS.OUT_FOR_DELIVERY])
+  ),
+  and(
+    eq(orderStatusEventTable.field, ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS),
+    eq(orderStatusEventTable.toStatus, "ready_for_pickup")
+  ),
+  and(
+    eq(orderStatusEventTable.field, ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS),
+    eq(orderStatusEventTable.toStatus, "out_for_delivery")
+  )
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isReadyEvent(event: Pick<OrderStatusEvent, "field" | "toStatus">): boolean {
+  switch (event.field) {
+    case ORDER_STATUS_EVENT_FIELD.STATUS:
+      return event.toStatus === ORDER_STATUS.READY_FOR_PICKUP || event.toStatus === ORDER_STATUS.OUT_FOR_DELIVERY;
+    case ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS:
+      return event.toStatus === "ready_for_pickup";
+    default:
+      return event.toStatus === "out_for_delivery";
+  }
+}
+
+/**
+ * "Baking", or "Delivery: Out for Delivery" for the fulfillment statuses
+ */
+export function getOrderStatusEventLabel(field: string, status: string): string {
+  if (field === ORDER_STATUS_EVENT_FIELD.STATUS) {
+    const key = Object.entries(ORDER_STATUS).find(([, value]) => value === status)?.[0];
+    return key ? ORDER_STATUS_LABELS[key as keyof typeof ORDER_STATUS] : status;
+  }
+
+  const fieldKey = Object.entries(ORDER_STATUS_EVENT_FIELD).find(([, value]) => value === field)?.[0];
+  const fieldLabel = fieldKey ? ORDER_STATUS_EVENT_FIELD_LABELS[fieldKey as keyof typeof ORDER_STATUS_EVENT_FIELD] : field;
+  return `${fieldLabel}: ${FULFILLMENT_STATUS_LABELS[status as keyof typeof FULFILLMENT_STATUS_LABELS] ?? status}`;
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return (end.getTime() - start.getTime()) / 60000;
+}
+
+function percentile(sortedValues: number[], fraction: number): number | null {
+  if (sortedValues.length === 0) {
+    return null;
+  }
+
+  const index = Math.min(sortedValues.length - 1, Math.ceil(fraction * sortedValues.length) - 1);
+  return sortedValues[Math.max(0, index)];
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record a status change. Pass the session of whoever made it, or null when
+ * the system did (payment webhooks, checkout). Unchanged statuses are skipped.
+ * Failures are logged rather than thrown so the history never blocks the
+ * status change itself.
+ */
+export async function recordOrderStatusEvent({
+  orderId,
+  field,
+  fromStatus,
+  toStatus,
+  session = null,
+  note = null,
+}: {
+  orderId: string;
+  field: OrderStatusEventField;
+  fromStatus: string | null | undefined;
+  toStatus: string;
+  session?: KVSession | null;
+  note?: string | null;
+}): Promise<void> {
+  if (fromStatus === toStatus) {
+    return;
+  }
+
+  try {
+    const db = getDB();
+    await db.insert(orderStatusEventTable).values({
+      orderId,
+      field,
+      fromStatus: fromStatus ?? null,
+      toStatus,
+      actorUserId: session?.user.id ?? null,
+      actorEmail: session?.user.email ?? null,
+      note,
+    });
+  } catch (error) {
+    console.error(`[Order Status Events] Error recording ${field} change for ${orderId}:`, error);
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * An order's status history, oldest first
+ */
+export async function getOrderStatusEvents(orderId: string): Promise<OrderStatusEvent[]> {
+  const db = getDB();
+
+  return await db
+    .select()
+    .from(orderStatusEventTable)
+    .where(eq(orderStatusEventTable.orderId, orderId))
+    .orderBy(asc(orderStatusEventTable.createdAt));
+}
+
+/**
+ * How long orders that became ready between `startDate` and `endDate` took
+ * to get there, from payment to ready for pickup or out for delivery, and
+ * how long they sat in each production status on the way.
+ */
+export async function getProductionLeadTimes({
+  startDate,
+  endDate,
+}: {
+  startDate: Date;
+  endDate: Date;
+}): Promise<ProductionLeadTimes> {
+  const db = getDB();
+
+  const readyOrderIds = db
+    .selectDistinct({ orderId: orderStatusEventTable.orderId })
+    .from(orderStatusEventTable)
+    .where(and(
+      READY_CONDITION,
+      gte(orderStatusEventTable.createdAt, startDate),
+      lte(orderStatusEventTable.createdAt, endDate)
+    ));
+
+  const events = await db
+    .select({
+      orderId: orderStatusEventTable.orderId,
+      field: orderStatusEventTable.field,
+      toStatus: orderStatusEventTable.toStatus,
+      createdAt: orderStatusEventTable.createdAt,
+      orderCreatedAt: orderTable.createdAt,
+    })
+    .from(orderStatusEventTable)
+    .innerJoin(orderTable, eq(orderStatusEventTable.orderId, orderTable.id))
+    .where(inArray(orderStatusEventTable.orderId, readyOrderIds))
+    .orderBy(asc(orderStatusEventTable.createdAt));
+
+  const eventsByOrder = new Map<string, typeof events>();
+  for (const event of events) {
+    eventsByOrder.set(event.orderId, [...(eventsByOrder.get(event.orderId) ?? []), event]);
+  }
+
+  const leadTimes: number[] = [];
+  const stageTotals = new Map<string, { minutes: number; orderCount: number }>();
+
+  for (const orderEvents of eventsByOrder.values()) {
+    const ready = orderEvents.find(isReadyEvent);
+
+    // Only count the order's first time becoming ready, and only inside the window
+    if (!ready || ready.createdAt < startDate || ready.createdAt > endDate) {
+      continue;
+    }
+
+    // Orders paid before history was recorded start from when they were placed
+    const paid = orderEvents.find((event) =>
+      event.field === ORDER_STATUS_EVENT_FIELD.STATUS && event.toStatus === ORDER_STATUS.PENDING
+    );
+    leadTimes.push(minutesBetween(paid?.createdAt ?? ready.orderCreatedAt, ready.createdAt));
+
+    // Time in a production status runs until the next order status change
+    const statusEvents = orderEvents.filter((event) =>
+      event.field === ORDER_STATUS_EVENT_FIELD.STATUS && event.createdAt <= ready.createdAt
+    );
+    statusEvents.forEach((event, index) => {
+      const next = statusEvents[index + 1];
+      if (!next || !PRODUCTION_STATUSES.includes(event.toStatus)) {
+        return;
+      }
+
+      const totals = stageTotals.get(event.toStatus) ?? { minutes: 0, orderCount: 0 };
+      stageTotals.set(event.toStatus, {
+        minutes: totals.minutes + minutesBetween(event.createdAt, next.createdAt),
+        orderCount: totals.orderCount + 1,
+      });
+    });
+  }
+
+  const sorted = [...leadTimes].sort((a, b) => a - b);
+
+  return {
+    orderCount: sorted.length,
+    averageMinutes: sorted.length > 0
+      ? sorted.reduce((sum, minutes) => sum + minutes, 0) / sorted.length
+      : null,
+    medianMinutes: percentile(sorted, 0.5),
+    p90Minutes: percentile(sorted, 0.9),
+    stages: PRODUCTION_STATUSES
+      .filter((status) => stageTotals.has(status))
+      .map((status) => {
+        const totals = stageTotals.get(status)!;
+        return {
+          status,
+          orderCount: totals.orderCount,
+          averageMinutes: totals.minutes / totals.orderCount,
+        };
+      }),
+  };
+}
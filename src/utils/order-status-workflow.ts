@@ -0,0 +1,365 @@
+/**
+ * Order Status Workflow
+ *
+ * Which status changes an order is allowed to make, for its overall status
+ * and for its delivery or pickup status, and how a change to one moves the
+ * other along so they don't drift apart.
+ *
+ * Changes made by staff or drivers are checked against the graphs below.
+ * The status that follows along is only ever moved forward, and may skip
+ * steps: marking a pickup order picked up completes it even if nobody set
+ * Packaging first.
+ *
+ * The admin dialogs use this to offer only the legal next steps, so it must
+ * stay free of server-only imports.
+ */
+
+import {
+  ORDER_STATUS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_EVENT_FIELD,
+  PAYMENT_STATUS,
+  type Order,
+} from "@/db/schema";
+import type { DeliveryStatus } from "@/utils/delivery-status";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderStatus = typeof ORDER_STATUS[keyof typeof ORDER_STATUS];
+
+export type PickupStatus =
+  | "pending"
+  | "confirmed"
+  | "preparing"
+  | "ready_for_pickup"
+  | "picked_up";
+
+export type FulfillmentMethod = "delivery" | "pickup";
+
+type WorkflowOrder = Pick<
+  Order,
+  "status" | "paymentStatus" | "fulfillmentMethod" | "fulfillmentType" | "deliveryStatus" | "pickupStatus"
+>;
+
+// The fulfillment status to follow along with an order status change
+export interface SyncedFulfillmentStatus {
+  field: typeof ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS | typeof ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS;
+  status: DeliveryStatus | PickupStatus;
+}
+
+// ============================================================================
+// TRANSITION GRAPHS
+// ============================================================================
+
+const PRODUCTION_STATUSES: OrderStatus[] = [
+  ORDER_STATUS.IN_PRODUCTION,
+  ORDER_STATUS.BAKING,
+  ORDER_STATUS.BAKED,
+  ORDER_STATUS.COOLING,
+  ORDER_STATUS.DECORATING,
+  ORDER_STATUS.PACKAGING,
+];
+
+// The kitchen's steps, in order
+const KITCHEN_SEQUENCE: OrderStatus[] = [ORDER_STATUS.CONFIRMED, ...PRODUCTION_STATUSES];
+
+/**
+ * Not every item goes through every production step (cookies aren't
+ * decorated, pre-made items skip the oven), so from confirmed on an order can
+ * jump ahead to any later step, but never back. Ready means out for delivery
+ * or ready for pickup depending on how the order is fulfilled.
+ *
+ * Only a confirmed payment (`finalizePaidOrder`) turns a pending_payment
+ * order into a live one, and only paid orders can be reopened once cancelled.
+ */
+function getOrderStatusGraph(
+  order: Pick<WorkflowOrder, "paymentStatus" | "fulfillmentMethod" | "fulfillmentType">
+): Record<OrderStatus, OrderStatus[]> {
+  const method = getOrderFulfillmentMethod(order);
+  const ready: OrderStatus[] = method === "delivery"
+    ? [ORDER_STATUS.OUT_FOR_DELIVERY]
+    : method === "pickup"
+      ? [ORDER_STATUS.READY_FOR_PICKUP]
+      : [ORDER_STATUS.READY_FOR_PICKUP, ORDER_STATUS.OUT_FOR_DELIVERY];
+
+  // Any later kitchen step, straight to ready, or cancelled
+  const ahead = (status: OrderStatus): OrderStatus[] => [
+    ...KITCHEN_SEQUENCE.slice(KITCHEN_SEQUENCE.indexOf(status) + 1),
+    ...ready,
+    ORDER_STATUS.CANCELLED,
+  ];
+
+  return {
+    [ORDER_STATUS.PENDING_PAYMENT]: [ORDER_STATUS.CANCELLED],
+    [ORDER_STATUS.PENDING]: [ORDER_STATUS.CONFIRMED, ORDER_STATUS.CANCELLED],
+    [ORDER_STATUS.CONFIRMED]: ahead(ORDER_STATUS.CONFIRMED),
+    [ORDER_STATUS.IN_PRODUCTION]: ahead(ORDER_STATUS.IN_PRODUCTION),
+    [ORDER_STATUS.BAKING]: ahead(ORDER_STATUS.BAKING),
+    [ORDER_STATUS.BAKED]: ahead(ORDER_STATUS.BAKED),
+    [ORDER_STATUS.COOLING]: ahead(ORDER_STATUS.COOLING),
+    [ORDER_STATUS.DECORATING]: ahead(ORDER_STATUS.DECORATING),
+    [ORDER_STATUS.PACKAGING]: ahead(ORDER_STATUS.PACKAGING),
+    [ORDER_STATUS.READY_FOR_PICKUP]: [ORDER_STATUS.COMPLETED, ORDER_STATUS.CANCELLED],
+    [ORDER_STATUS.OUT_FOR_DELIVERY]: [ORDER_STATUS.COMPLETED, ORDER_STATUS.CANCELLED],
+    [ORDER_STATUS.COMPLETED]: [],
+    // Reopening a cancelled order takes its items out of stock again
+    [ORDER_STATUS.CANCELLED]: order.paymentStatus === PAYMENT_STATUS.PAID ? [ORDER_STATUS.PENDING] : [],
+  };
+}
+
+// A failed stop can be sent out again, or the driver may get it there after all
+const DELIVERY_STATUS_GRAPH: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ["confirmed", "preparing", "out_for_delivery"],
+  confirmed: ["preparing", "out_for_delivery"],
+  preparing: ["out_for_delivery"],
+  out_for_delivery: ["arrived", "delivered", "failed"],
+  arrived: ["delivered", "failed"],
+  failed: ["out_for_delivery", "arrived", "delivered"],
+  delivered: [],
+};
+
+const PICKUP_STATUS_GRAPH: Record<PickupStatus, PickupStatus[]> = {
+  pending: ["confirmed", "preparing", "ready_for_pickup"],
+  confirmed: ["preparing", "ready_for_pickup"],
+  preparing: ["ready_for_pickup"],
+  ready_for_pickup: ["picked_up"],
+  picked_up: [],
+};
+
+// How far along each status is, for keeping the two in step
+const ORDER_STATUS_PROGRESS: Partial<Record<OrderStatus, number>> = {
+  [ORDER_STATUS.PENDING]: 0,
+  [ORDER_STATUS.CONFIRMED]: 1,
+  ...Object.fromEntries(PRODUCTION_STATUSES.map((status) => [status, 2])),
+  [ORDER_STATUS.READY_FOR_PICKUP]: 3,
+  [ORDER_STATUS.OUT_FOR_DELIVERY]: 3,
+  [ORDER_STATUS.COMPLETED]: 4,
+};
+
+const FULFILLMENT_STATUS_PROGRESS: Record<string, number> = {
+  pending: 0,
+  confirmed: 1,
+  preparing: 2,
+  ready_for_pickup: 3,
+  out_for_delivery: 3,
+  arrived: 3,
+  failed: 3,
+  picked_up: 4,
+  delivered: 4,
+};
+
+// Delivery and pickup statuses are plain strings on the order
+export const FULFILLMENT_STATUS_LABELS: Record<DeliveryStatus | PickupStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  preparing: "Preparing",
+  ready_for_pickup: "Ready for Pickup",
+  picked_up: "Picked Up",
+  out_for_delivery: "Out for Delivery",
+  arrived: "Driver Arrived",
+  delivered: "Delivered",
+  failed: "Delivery Failed",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getOrderStatusLabel(status: string): string {
+  const key = Object.entries(ORDER_STATUS).find(([, value]) => value === status)?.[0];
+  return key ? ORDER_STATUS_LABELS[key as keyof typeof ORDER_STATUS] : status;
+}
+
+function getFulfillmentStatusLabel(status: string): string {
+  return FULFILLMENT_STATUS_LABELS[status as DeliveryStatus | PickupStatus] ?? status;
+}
+
+/**
+ * Older orders only have the deprecated `fulfillmentType`
+ */
+export function getOrderFulfillmentMethod(
+  order: Pick<Order, "fulfillmentMethod" | "fulfillmentType">
+): FulfillmentMethod | null {
+  const method = order.fulfillmentMethod || order.fulfillmentType;
+  return method === "delivery" || method === "pickup" ? method : null;
+}
+
+// Cancelled and unpaid orders aren't going anywhere
+function isFulfillable(status: string): boolean {
+  return status !== ORDER_STATUS.CANCELLED && status !== ORDER_STATUS.PENDING_PAYMENT;
+}
+
+// ============================================================================
+// ALLOWED TRANSITIONS
+// ============================================================================
+
+/**
+ * The statuses an order can move to next
+ */
+export function getNextOrderStatuses(
+  order: Pick<WorkflowOrder, "status" | "paymentStatus" | "fulfillmentMethod" | "fulfillmentType">
+): OrderStatus[] {
+  return getOrderStatusGraph(order)[order.status as OrderStatus] ?? [];
+}
+
+/**
+ * The delivery or pickup statuses an order can move to next. Orders that
+ * haven't had one set yet start from pending.
+ */
+export function getNextFulfillmentStatuses(
+  method: FulfillmentMethod,
+  currentStatus: string | null
+): (DeliveryStatus | PickupStatus)[] {
+  const graph: Record<string, (DeliveryStatus | PickupStatus)[]> = method === "delivery"
+    ? DELIVERY_STATUS_GRAPH
+    : PICKUP_STATUS_GRAPH;
+  return graph[currentStatus || "pending"] ?? [];
+}
+
+/**
+ * Why the order can't move to `toStatus` from where it is now, or null if it can
+ */
+export function getOrderStatusChangeError(order: WorkflowOrder, toStatus: string): string | null {
+  if (order.status === toStatus) {
+    return null;
+  }
+
+  if (!getNextOrderStatuses(order).includes(toStatus as OrderStatus)) {
+    return `Can't change an order from ${getOrderStatusLabel(order.status)} to ${getOrderStatusLabel(toStatus)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Why the order's delivery or pickup status can't move to `toStatus`, or null
+ * if it can
+ */
+export function getFulfillmentStatusChangeError(
+  order: WorkflowOrder,
+  method: FulfillmentMethod,
+  toStatus: DeliveryStatus | PickupStatus
+): string | null {
+  if (getOrderFulfillmentMethod(order) !== method) {
+    return `This order isn't a ${method} order`;
+  }
+
+  if (!isFulfillable(order.status)) {
+    return `${getOrderStatusLabel(order.status)} orders can't be fulfilled`;
+  }
+
+  const currentStatus = (method === "delivery" ? order.deliveryStatus : order.pickupStatus) || "pending";
+  if (currentStatus === toStatus) {
+    return null;
+  }
+
+  if (!getNextFulfillmentStatuses(method, currentStatus).includes(toStatus)) {
+    return `Can't change ${method} from ${getFulfillmentStatusLabel(currentStatus)} to ${getFulfillmentStatusLabel(toStatus)}`;
+  }
+
+  return null;
+}
+
+export function assertOrderStatusChange(order: WorkflowOrder, toStatus: string): void {
+  const error = getOrderStatusChangeError(order, toStatus);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+export function assertFulfillmentStatusChange(
+  order: WorkflowOrder,
+  method: FulfillmentMethod,
+  toStatus: DeliveryStatus | PickupStatus
+): void {
+  const error = getFulfillmentStatusChangeError(order, method, toStatus);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+// ============================================================================
+// SYNCING
+// ============================================================================
+
+/**
+ * The delivery or pickup status that goes with a new order status, if it
+ * should move forward
+ */
+export function getSyncedFulfillmentStatus(
+  order: WorkflowOrder,
+  toStatus: string
+): SyncedFulfillmentStatus | null {
+  const method = getOrderFulfillmentMethod(order);
+  if (!method) {
+    return null;
+  }
+
+  let status: DeliveryStatus | PickupStatus | null = null;
+  if (toStatus === ORDER_STATUS.CONFIRMED) {
+    status = "confirmed";
+  } else if (PRODUCTION_STATUSES.includes(toStatus as OrderStatus)) {
+    status = "preparing";
+  } else if (toStatus === ORDER_STATUS.READY_FOR_PICKUP || toStatus === ORDER_STATUS.OUT_FOR_DELIVERY) {
+    status = method === "delivery" ? "out_for_delivery" : "ready_for_pickup";
+  } else if (toStatus === ORDER_STATUS.COMPLETED) {
+    status = method === "delivery" ? "delivered" : "picked_up";
+  }
+
+  const currentStatus = (method === "delivery" ? order.deliveryStatus : order.pickupStatus) || "pending";
+  if (!status || FULFILLMENT_STATUS_PROGRESS[status] <= FULFILLMENT_STATUS_PROGRESS[currentStatus]) {
+    return null;
+  }
+
+  return {
+    field: method === "delivery"
+      ? ORDER_STATUS_EVENT_FIELD.DELIVERY_STATUS
+      : ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS,
+    status,
+  };
+}
+
+/**
+ * The order status that goes with a new delivery or pickup status, if it
+ * should move forward
+ */
+export function getSyncedOrderStatus(
+  order: WorkflowOrder,
+  toStatus: DeliveryStatus | PickupStatus
+): OrderStatus | null {
+  if (!isFulfillable(order.status)) {
+    return null;
+  }
+
+  let status: OrderStatus | null = null;
+  switch (toStatus) {
+    case "confirmed":
+      status = ORDER_STATUS.CONFIRMED;
+      break;
+    case "preparing":
+      status = ORDER_STATUS.IN_PRODUCTION;
+      break;
+    case "ready_for_pickup":
+      status = ORDER_STATUS.READY_FOR_PICKUP;
+      break;
+    case "out_for_delivery":
+    case "arrived":
+    case "failed":
+      status = ORDER_STATUS.OUT_FOR_DELIVERY;
+      break;
+    case "delivered":
+    case "picked_up":
+      status = ORDER_STATUS.COMPLETED;
+      break;
+  }
+
+  const currentProgress = ORDER_STATUS_PROGRESS[order.status as OrderStatus] ?? 0;
+  const syncedProgress = status ? ORDER_STATUS_PROGRESS[status] : undefined;
+  if (!status || syncedProgress === undefined || syncedProgress <= currentProgress) {
+    return null;
+  }
+
+  return status;
+}
@@ -0,0 +1,297 @@
+/**
+ * Order Tracking
+ *
+ * Every order has a random tracking token, and its link opens a public
+ * tracking page. Anyone with the link can follow the order, so guests don't
+ * need an account. The page shows the production and fulfillment timeline,
+ * the delivery ETA and, once the route is out, the order's place in it.
+ */
+
+import "server-only";
+
+import { and, asc, eq, isNull, notInArray, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  orderTable,
+  orderItemTable,
+  productTable,
+  pickupLocationTable,
+  ORDER_STATUS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_EVENT_FIELD,
+  DELIVERY_FAILURE_REASON,
+  DELIVERY_FAILURE_REASON_LABELS,
+  type Order,
+  type OrderStatusEvent,
+} from "@/db/schema";
+import { SITE_URL } from "@/constants";
+import { generalizeDeliveryETA } from "@/utils/delivery-eta";
+import { getOrderStatusEvents } from "@/utils/order-status-events";
+import { getOrderNumber } from "@/utils/order-number";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TrackingStepState = "done" | "current" | "upcoming" | "failed";
+
+export interface TrackingStep {
+  key: string;
+  label: string;
+  state: TrackingStepState;
+  detail: string | null;
+  at: Date | null;
+}
+
+export interface RouteProgress {
+  stopNumber: number; // This order's place in the driver's route
+  totalStops: number;
+  stopsAhead: number; // Earlier stops the driver hasn't finished yet
+}
+
+export interface OrderTracking {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  fulfillmentMethod: "delivery" | "pickup";
+  isCancelled: boolean;
+  isFinished: boolean; // Nothing left to change, so the page stops refreshing
+  steps: TrackingStep[];
+  eta: string | null;
+  routeProgress: RouteProgress | null;
+  deliveryDate: string | null;
+  deliveryTimeWindow: string | null;
+  pickupDate: string | null;
+  pickupTimeWindow: string | null;
+  pickupLocationName: string | null;
+  items: { productName: string; quantity: number }[];
+}
+
+// Orders that aren't real (yet) or won't be delivered
+const INACTIVE_STATUSES = [ORDER_STATUS.PENDING_PAYMENT, ORDER_STATUS.CANCELLED];
+
+// How far each status has taken the order:
+// 0 placed, 1 confirmed, 2 in the kitchen, 3 ready or on the way, 4 done
+const ORDER_STATUS_PROGRESS: Record<string, number> = {
+  [ORDER_STATUS.PENDING]: 0,
+  [ORDER_STATUS.CONFIRMED]: 1,
+  [ORDER_STATUS.IN_PRODUCTION]: 2,
+  [ORDER_STATUS.BAKING]: 2,
+  [ORDER_STATUS.BAKED]: 2,
+  [ORDER_STATUS.COOLING]: 2,
+  [ORDER_STATUS.DECORATING]: 2,
+  [ORDER_STATUS.PACKAGING]: 2,
+  [ORDER_STATUS.READY_FOR_PICKUP]: 3,
+  [ORDER_STATUS.OUT_FOR_DELIVERY]: 3,
+  [ORDER_STATUS.COMPLETED]: 4,
+};
+
+const FULFILLMENT_STATUS_PROGRESS: Record<string, number> = {
+  pending: 0,
+  confirmed: 1,
+  preparing: 2,
+  ready_for_pickup: 3,
+  out_for_delivery: 3,
+  arrived: 3,
+  failed: 3,
+  picked_up: 4,
+  delivered: 4,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getOrderTrackingUrl(trackingToken: string | null | undefined): string | null {
+  return trackingToken ? `${SITE_URL}/track/${trackingToken}` : null;
+}
+
+function getOrderStatusLabel(status: string): string | null {
+  const key = Object.entries(ORDER_STATUS).find(([, value]) => value === status)?.[0];
+  return key ? ORDER_STATUS_LABELS[key as keyof typeof ORDER_STATUS] : null;
+}
+
+function getFailureReasonLabel(reason: string | null): string | null {
+  const key = Object.entries(DELIVERY_FAILURE_REASON).find(([, value]) => value === reason)?.[0];
+  return key ? DELIVERY_FAILURE_REASON_LABELS[key as keyof typeof DELIVERY_FAILURE_REASON] : null;
+}
+
+/**
+ * Timeline from placed to delivered or picked up. The order status and the
+ * fulfillment status are updated separately, so whichever is further along wins.
+ * A step's time is when the status history first reached it.
+ */
+function buildTrackingSteps(order: Order, isDelivery: boolean, events: OrderStatusEvent[]): TrackingStep[] {
+  const fulfillmentStatus = isDelivery ? order.deliveryStatus : order.pickupStatus;
+  const progress = Math.max(
+    ORDER_STATUS_PROGRESS[order.status] ?? 0,
+    FULFILLMENT_STATUS_PROGRESS[fulfillmentStatus ?? ""] ?? 0
+  );
+  const deliveryFailed = isDelivery && order.deliveryStatus === "failed";
+
+  const steps: Omit<TrackingStep, "state">[] = [
+    { key: "placed", label: "Order Placed", detail: null, at: order.createdAt },
+    { key: "confirmed", label: "Confirmed", detail: null, at: null },
+    {
+      key: "baking",
+      label: "In the Kitchen",
+      // Name the exact production step while it's happening
+      detail: ORDER_STATUS_PROGRESS[order.status] === 2 ? getOrderStatusLabel(order.status) : null,
+      at: null,
+    },
+    isDelivery
+      ? {
+        key: "on_the_way",
+        label: "Out for Delivery",
+        detail: deliveryFailed
+          ? `We couldn't deliver your order${getFailureReasonLabel(order.deliveryFailureReason) ? ` (${getFailureReasonLabel(order.deliveryFailureReason)})` : ""}. We'll be in touch to arrange another time.`
+          : order.deliveryStatus === "arrived"
+            ? "Your driver has arrived"
+            : null,
+        at: order.deliveryStatus === "arrived" ? order.deliveryArrivedAt : null,
+      }
+      : { key: "ready", label: "Ready for Pickup", detail: null, at: null },
+    isDelivery
+      ? {
+        key: "delivered",
+        label: "Delivered",
+        detail: order.deliveryRecipientName ? `Received by ${order.deliveryRecipientName}` : null,
+        at: order.deliveredAt,
+      }
+      : { key: "picked_up", label: "Picked Up", detail: null, at: null },
+  ];
+
+  const reachedAt = (index: number) => events.find((event) => (
+    event.field === ORDER_STATUS_EVENT_FIELD.STATUS
+      ? ORDER_STATUS_PROGRESS[event.toStatus]
+      : FULFILLMENT_STATUS_PROGRESS[event.toStatus]
+  ) >= index)?.createdAt ?? null;
+
+  return steps.map((step, index) => ({
+    ...step,
+    at: step.at ?? (index <= progress ? reachedAt(index) : null),
+    state: index < progress || progress === 4
+      ? "done"
+      : index === progress
+        ? (deliveryFailed ? "failed" : "current")
+        : "upcoming",
+  }));
+}
+
+/**
+ * Where the order sits in its driver's route, once the route is out
+ */
+async function getRouteProgress(order: Order): Promise<RouteProgress | null> {
+  if (
+    !order.deliveryDate ||
+    order.deliverySequence === null ||
+    (order.deliveryStatus !== "out_for_delivery" && order.deliveryStatus !== "arrived")
+  ) {
+    return null;
+  }
+
+  const db = getDB();
+
+  const routeStops = await db
+    .select({
+      id: orderTable.id,
+      deliveryStatus: orderTable.deliveryStatus,
+    })
+    .from(orderTable)
+    .where(and(
+      eq(orderTable.fulfillmentMethod, "delivery"),
+      sql`substr(${orderTable.deliveryDate}, 1, 10) = ${order.deliveryDate.substring(0, 10)}`,
+      order.deliveryDriverId
+        ? eq(orderTable.deliveryDriverId, order.deliveryDriverId)
+        : isNull(orderTable.deliveryDriverId),
+      notInArray(orderTable.status, INACTIVE_STATUSES)
+    ))
+    .orderBy(asc(orderTable.deliverySequence));
+
+  const index = routeStops.findIndex((stop) => stop.id === order.id);
+
+  if (index === -1) {
+    return null;
+  }
+
+  return {
+    stopNumber: index + 1,
+    totalStops: routeStops.length,
+    stopsAhead: routeStops
+      .slice(0, index)
+      .filter((stop) => stop.deliveryStatus !== "delivered" && stop.deliveryStatus !== "failed")
+      .length,
+  };
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Everything the tracking page shows, or null for an unknown token
+ */
+export async function getOrderTracking(trackingToken: string): Promise<OrderTracking | null> {
+  const db = getDB();
+
+  const [order] = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.trackingToken, trackingToken))
+    .limit(1);
+
+  if (!order || order.status === ORDER_STATUS.PENDING_PAYMENT) {
+    return null;
+  }
+
+  const isDelivery = (order.fulfillmentMethod || order.fulfillmentType) === "delivery";
+  const isCancelled = order.status === ORDER_STATUS.CANCELLED;
+
+  const items = await db
+    .select({
+      productName: productTable.name,
+      quantity: orderItemTable.quantity,
+    })
+    .from(orderItemTable)
+    .innerJoin(productTable, eq(orderItemTable.productId, productTable.id))
+    .where(eq(orderItemTable.orderId, order.id));
+
+  let pickupLocationName: string | null = null;
+  if (!isDelivery && order.pickupLocationId) {
+    const [location] = await db
+      .select({ name: pickupLocationTable.name })
+      .from(pickupLocationTable)
+      .where(eq(pickupLocationTable.id, order.pickupLocationId))
+      .limit(1);
+    pickupLocationName = location?.name ?? null;
+  }
+
+  const steps = buildTrackingSteps(order, isDelivery, await getOrderStatusEvents(order.id));
+  const isFinished = isCancelled || steps.every((step) => step.state === "done");
+  const deliveryFailed = isDelivery && order.deliveryStatus === "failed";
+
+  const eta = isDelivery && order.deliveryDate && !isFinished && !deliveryFailed
+    ? generalizeDeliveryETA({
+      estimatedArrivalTime: order.estimatedArrivalTime,
+      deliveryDate: order.deliveryDate.substring(0, 10),
+    })
+    : null;
+
+  return {
+    orderId: order.id,
+    orderNumber: getOrderNumber(order.id),
+    customerName: order.customerName,
+    fulfillmentMethod: isDelivery ? "delivery" : "pickup",
+    isCancelled,
+    isFinished,
+    steps,
+    eta,
+    routeProgress: isCancelled ? null : await getRouteProgress(order),
+    deliveryDate: order.deliveryDate,
+    deliveryTimeWindow: order.deliveryTimeWindow,
+    pickupDate: order.pickupDate,
+    pickupTimeWindow: order.pickupTimeWindow,
+    pickupLocationName,
+    items,
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Payment Reconciliation
+ *
+ * Lists the payments a merchant provider captured in a date range and checks
+ * each one against orderTable.paymentIntentId. A payment with no matching
+ * order is either finalized automatically (when it references a
+ * pending_payment order saved by checkout) or flagged for an admin in the
+ * payment_reconciliation table.
+ */
+
+import "server-only";
+
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  PAYMENT_RECONCILIATION_STATUS,
+  PAYMENT_STATUS,
+  orderTable,
+  paymentReconciliationTable,
+  type PaymentReconciliation,
+} from "@/db/schema";
+import { getCurrentProviderType, getMerchantProvider } from "@/lib/merchant-provider/factory";
+import type { MerchantProviderType, PaymentDetails } from "@/lib/merchant-provider/types";
+import { finalizePaidOrder } from "@/utils/order-persistence";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaymentReconciliationStatus =
+  typeof PAYMENT_RECONCILIATION_STATUS[keyof typeof PAYMENT_RECONCILIATION_STATUS];
+
+export interface ReconcilePaymentsOptions {
+  beginTime: Date;
+  endTime: Date;
+  merchantProvider?: MerchantProviderType; // Defaults to the active provider
+  autoRepair?: boolean; // Finalize pending_payment orders the payment points at
+}
+
+export interface ReconcilePaymentsResult {
+  merchantProvider: MerchantProviderType;
+  checked: number;
+  matched: number;
+  repaired: PaymentReconciliation[];
+  unmatched: PaymentReconciliation[];
+}
+
+// D1 allows at most 100 bound parameters per query
+const LOOKUP_CHUNK_SIZE = 90;
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+async function getOrdersByPaymentIds(paymentIds: string[]): Promise<Set<string>> {
+  const db = getDB();
+  const matched = new Set<string>();
+
+  for (let i = 0; i < paymentIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows = await db
+      .select({ paymentIntentId: orderTable.paymentIntentId })
+      .from(orderTable)
+      .where(inArray(orderTable.paymentIntentId, paymentIds.slice(i, i + LOOKUP_CHUNK_SIZE)));
+
+    for (const row of rows) {
+      if (row.paymentIntentId) matched.add(row.paymentIntentId);
+    }
+  }
+
+  return matched;
+}
+
+async function getResolvedPaymentIds(paymentIds: string[]): Promise<Set<string>> {
+  const db = getDB();
+  const resolved = new Set<string>();
+
+  for (let i = 0; i < paymentIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const rows = await db
+      .select({ paymentId: paymentReconciliationTable.paymentId })
+      .from(paymentReconciliationTable)
+      .where(
+        and(
+          eq(paymentReconciliationTable.status, PAYMENT_RECONCILIATION_STATUS.RESOLVED),
+          inArray(paymentReconciliationTable.paymentId, paymentIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+        )
+      );
+
+    for (const row of rows) resolved.add(row.paymentId);
+  }
+
+  return resolved;
+}
+
+/**
+ * Finalize the order a payment references, if it is still waiting for one.
+ * Returns the referenced order's ID (when it exists), whether it was repaired
+ * and, for payments that landed on a cancelled order, why it wasn't.
+ */
+async function repairReferencedOrder(
+  payment: PaymentDetails,
+  merchantProvider: MerchantProviderType,
+  autoRepair: boolean
+): Promise<{ orderId: string | null; repaired: boolean; note?: string }> {
+  if (!payment.referenceId) return { orderId: null, repaired: false };
+
+  const db = getDB();
+  const order = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, payment.referenceId))
+    .get();
+
+  if (!order) return { orderId: null, repaired: false };
+
+  // Cancelled orders already gave back their stock and drop claims, so a
+  // payment that lands on one is refunded or reviewed, never finalized
+  if (order.status === ORDER_STATUS.CANCELLED && order.paymentStatus !== PAYMENT_STATUS.PAID) {
+    return {
+      orderId: order.id,
+      repaired: false,
+      note: "Payment was captured for a cancelled order. Refund it or review before resolving.",
+    };
+  }
+
+  // Only captured payments for orders that never recorded one. Finalizing
+  // from a refunded payment would deduct stock for money we gave back, so
+  // those (like anything else) need a human.
+  if (
+    !autoRepair ||
+    payment.status !== "paid" ||
+    order.paymentIntentId ||
+    order.paymentStatus === PAYMENT_STATUS.PAID
+  ) {
+    return { orderId: order.id, repaired: false };
+  }
+
+  // Keep the tax checkout recorded, the provider's amount is authoritative
+  await finalizePaidOrder({
+    orderId: order.id,
+    payment: {
+      paymentId: payment.id,
+      tax: order.tax,
+      totalAmount: payment.amount,
+    },
+    merchantProvider,
+  });
+
+  return { orderId: order.id, repaired: true };
+}
+
+async function recordReconciliation({
+  payment,
+  merchantProvider,
+  status,
+  orderId,
+  note,
+}: {
+  payment: PaymentDetails;
+  merchantProvider: MerchantProviderType;
+  status: PaymentReconciliationStatus;
+  orderId?: string | null;
+  note: string;
+}): Promise<PaymentReconciliation> {
+  const db = getDB();
+
+  const [row] = await db
+    .insert(paymentReconciliationTable)
+    .values({
+      merchantProvider,
+      paymentId: payment.id,
+      amount: payment.amount,
+      paymentCreatedAt: payment.createdAt,
+      status,
+      orderId: orderId ?? null,
+      note,
+    })
+    .onConflictDoUpdate({
+      target: paymentReconciliationTable.paymentId,
+      set: {
+        status,
+        orderId: orderId ?? null,
+        note,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return row;
+}
+
+/**
+ * Compare provider payments in a date range with our orders, repairing or
+ * flagging every captured payment that has no order. Only paid payments are
+ * repaired; refunded ones are flagged for review. Payments already resolved
+ * by an admin are left alone.
+ */
+export async function reconcilePayments({
+  beginTime,
+  endTime,
+  merchantProvider = getCurrentProviderType(),
+  autoRepair = true,
+}: ReconcilePaymentsOptions): Promise<ReconcilePaymentsResult> {
+  const provider = await getMerchantProvider(merchantProvider);
+
+  const payments = (await provider.listPayments({ beginTime, endTime }))
+    .filter((payment) => payment.status === "paid" || payment.status === "refunded");
+
+  const matchedPaymentIds = await getOrdersByPaymentIds(payments.map((p) => p.id));
+  const orphans = payments.filter((payment) => !matchedPaymentIds.has(payment.id));
+
+  const resolvedIds = await getResolvedPaymentIds(orphans.map((p) => p.id));
+
+  const repaired: PaymentReconciliation[] = [];
+  const unmatched: PaymentReconciliation[] = [];
+
+  for (const payment of orphans) {
+    if (resolvedIds.has(payment.id)) continue;
+
+    let repair: { orderId: string | null; repaired: boolean; note?: string } = { orderId: null, repaired: false };
+    let repairError: string | null = null;
+
+    try {
+      repair = await repairReferencedOrder(payment, merchantProvider, autoRepair);
+    } catch (error) {
+      repairError = error instanceof Error ? error.message : String(error);
+      console.error(`[Reconciliation] Failed to repair payment ${payment.id}:`, error);
+    }
+
+    if (repair.repaired) {
+      repaired.push(
+        await recordReconciliation({
+          payment,
+          merchantProvider,
+          status: PAYMENT_RECONCILIATION_STATUS.REPAIRED,
+          orderId: repair.orderId,
+          note: "Pending-payment order finalized from the payment. The customer was not sent a confirmation.",
+        })
+      );
+      continue;
+    }
+
+    unmatched.push(
+      await recordReconciliation({
+        payment,
+        merchantProvider,
+        status: PAYMENT_RECONCILIATION_STATUS.UNMATCHED,
+        orderId: repair.orderId,
+        note: repairError
+          ? `Auto-repair failed: ${repairError}`
+          : repair.note
+          ? repair.note
+          : payment.status === "refunded"
+            ? "Payment was refunded but no order references it. Review before resolving."
+            : repair.orderId
+            ? "Payment references an order that wasn't finalized automatically"
+            : "No order references this payment",
+      })
+    );
+  }
+
+  console.log(
+    `[Reconciliation] ${merchantProvider}: ${payments.length} payments checked, ` +
+    `${repaired.length} repaired, ${unmatched.length} unmatched`
+  );
+
+  return {
+    merchantProvider,
+    checked: payments.length,
+    matched: payments.length - orphans.length,
+    repaired,
+    unmatched,
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getPaymentReconciliations({
+  status,
+  limit = 100,
+}: {
+  status?: PaymentReconciliationStatus;
+  limit?: number;
+} = {}): Promise<PaymentReconciliation[]> {
+  const db = getDB();
+
+  return await db
+    .select()
+    .from(paymentReconciliationTable)
+    .where(status ? eq(paymentReconciliationTable.status, status) : undefined)
+    .orderBy(desc(paymentReconciliationTable.paymentCreatedAt))
+    .limit(limit);
+}
+
+/**
+ * Mark a flagged payment as handled so later runs skip it
+ */
+export async function resolvePaymentReconciliation({
+  id,
+  note,
+}: {
+  id: string;
+  note: string;
+}): Promise<PaymentReconciliation | undefined> {
+  const db = getDB();
+
+  const [row] = await db
+    .update(paymentReconciliationTable)
+    .set({
+      status: PAYMENT_RECONCILIATION_STATUS.RESOLVED,
+      note,
+      updatedAt: new Date(),
+    })
+    .where(eq(paymentReconciliationTable.id, id))
+    .returning();
+
+  return row;
+}
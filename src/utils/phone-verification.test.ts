@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from "vitest";
+import { isSupportedPhoneCountry } from "./phone-verification";
+
+vi.mock("@opennextjs/cloudflare", () => ({
+  getCloudflareContext: vi.fn(),
+}));
+
+describe("isSupportedPhoneCountry", () => {
+  it("accepts US and Canadian numbers", () => {
+    expect(isSupportedPhoneCountry("+12085550134")).toBe(true);
+    expect(isSupportedPhoneCountry("+14165550134")).toBe(true);
+  });
+
+  it.each([
+    ["Jamaica", "+18765550134"],
+    ["the Dominican Republic", "+18095550134"],
+    ["the Dominican Republic", "+18295550134"],
+    ["the Dominican Republic", "+18495550134"],
+    ["Antigua", "+12685550134"],
+    ["Grenada", "+14735550134"],
+    ["Montserrat", "+16645550134"],
+    ["premium-rate 900 numbers", "+19005550134"],
+  ])("refuses +1 numbers in %s", (_where, phone) => {
+    expect(isSupportedPhoneCountry(phone)).toBe(false);
+  });
+
+  it("refuses other countries", () => {
+    expect(isSupportedPhoneCountry("+442079460958")).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import "server-only";
+
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { encodeHexLowerCase } from "@oslojs/encoding";
+import {
+  PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS,
+  PHONE_VERIFICATION_EXCLUDED_AREA_CODES,
+  PHONE_VERIFICATION_MAX_ATTEMPTS,
+} from "@/constants";
+import { getPhoneVerificationKey } from "@/utils/auth-utils";
+import { formatPhoneNumber, isValidPhoneNumber, sendSMS } from "@/utils/sms";
+
+/**
+ * One-time codes that prove a customer owns a phone number before we text it.
+ * Codes live in KV, keyed by the E.164 number, and expire after
+ * PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS. Only a hash of the code is stored.
+ */
+
+interface StoredPhoneVerification {
+  codeHash: string;
+  attempts: number;
+  expiresAt: string;
+}
+
+export type PhoneVerificationResult = "verified" | "invalid" | "expired" | "too_many_attempts";
+
+function getKV() {
+  const { env } = getCloudflareContext();
+
+  if (!env?.NEXT_INC_CACHE_KV) {
+    throw new Error("Can't connect to KV store");
+  }
+
+  return env.NEXT_INC_CACHE_KV;
+}
+
+async function hashCode(phone: string, code: string): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${phone}:${code}`));
+  return encodeHexLowerCase(new Uint8Array(hash));
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+/**
+ * Normalize a phone number to E.164, or null if it can't be texted
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  const formatted = formatPhoneNumber(phone);
+  return isValidPhoneNumber(formatted) ? formatted : null;
+}
+
+/**
+ * Whether verification codes can be texted to an E.164 number. Anyone can ask
+ * for a code, so anything but US and Canadian numbers is refused to keep
+ * premium-rate numbers from running up the SMS bill.
+ */
+export function isSupportedPhoneCountry(phone: string): boolean {
+  // +1 is shared by the whole North American Numbering Plan, so the area
+  // code decides whether it's a US or Canadian number
+  const match = phone.match(/^\+1(\d{3})\d{7}$/);
+
+  return !!match && !PHONE_VERIFICATION_EXCLUDED_AREA_CODES.includes(match[1]);
+}
+
+/**
+ * Text a new verification code to a phone number, replacing any earlier code
+ */
+export async function sendPhoneVerificationCode(phone: string): Promise<{ expiresAt: Date }> {
+  if (!isSupportedPhoneCountry(phone)) {
+    throw new Error("We can only text US and Canadian phone numbers");
+  }
+
+  const kv = getKV();
+  const code = generateCode();
+  const expiresAt = new Date(Date.now() + PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS * 1000);
+
+  const stored: StoredPhoneVerification = {
+    codeHash: await hashCode(phone, code),
+    attempts: 0,
+    expiresAt: expiresAt.toISOString(),
+  };
+
+  await kv.put(getPhoneVerificationKey(phone), JSON.stringify(stored), {
+    expirationTtl: PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS,
+  });
+
+  const result = await sendSMS({
+    to: phone,
+    message: `Your Sweet Angel Bakery verification code is ${code}. It expires in ${PHONE_VERIFICATION_CODE_EXPIRATION_SECONDS / 60} minutes.`,
+  });
+
+  if (!result.success) {
+    await kv.delete(getPhoneVerificationKey(phone));
+    throw new Error(result.error || "Failed to send verification code");
+  }
+
+  return { expiresAt };
+}
+
+/**
+ * Check a code for a phone number. A code can only be used once, and is
+ * discarded after PHONE_VERIFICATION_MAX_ATTEMPTS wrong guesses.
+ */
+export async function verifyPhoneCode(
+  phone: string,
+  code: string
+): Promise<PhoneVerificationResult> {
+  const kv = getKV();
+  const key = getPhoneVerificationKey(phone);
+  const stored = await kv.get<StoredPhoneVerification>(key, "json");
+
+  if (!stored || new Date(stored.expiresAt) < new Date()) {
+    return "expired";
+  }
+
+  if (stored.codeHash === await hashCode(phone, code.trim())) {
+    await kv.delete(key);
+    return "verified";
+  }
+
+  const attempts = stored.attempts + 1;
+
+  if (attempts >= PHONE_VERIFICATION_MAX_ATTEMPTS) {
+    await kv.delete(key);
+    return "too_many_attempts";
+  }
+
+  // KV needs at least 60 seconds of TTL
+  const remainingSeconds = Math.floor((new Date(stored.expiresAt).getTime() - Date.now()) / 1000);
+  await kv.put(key, JSON.stringify({ ...stored, attempts }), {
+    expirationTtl: Math.max(remainingSeconds, 60),
+  });
+
+  return "invalid";
+}
+
+export const PHONE_VERIFICATION_ERRORS: Record<Exclude<PhoneVerificationResult, "verified">, string> = {
+  invalid: "That code isn't right. Please try again.",
+  expired: "That code has expired. Please request a new one.",
+  too_many_attempts: "Too many incorrect attempts. Please request a new code.",
+};
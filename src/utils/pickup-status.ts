@@ -0,0 +1,108 @@
+/**
+ * Pickup Status
+ *
+ * Moves a pickup order through its fulfillment workflow:
+ * pending → confirmed → preparing → ready_for_pickup → picked_up.
+ * Every change is checked against the workflow, moves the order status along
+ * with it, and is audited, the same way delivery status changes are.
+ */
+
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { orderTable, ADMIN_AUDIT_ENTITY_TYPE, ORDER_STATUS_EVENT_FIELD, type Order } from "@/db/schema";
+import type { KVSession } from "@/utils/kv-session";
+import { recordAdminAudit } from "@/utils/admin-audit";
+import { recordOrderStatusEvent } from "@/utils/order-status-events";
+import {
+  assertFulfillmentStatusChange,
+  getSyncedOrderStatus,
+  type PickupStatus,
+} from "@/utils/order-status-workflow";
+import {
+  dispatchOrderNotification,
+  getNotificationTypeForFulfillmentStatus,
+} from "@/utils/notifications";
+
+/**
+ * Set an order's pickup status. Throws if the workflow doesn't allow the
+ * change.
+ */
+export async function updatePickupStatus({
+  session,
+  orderId,
+  pickupStatus,
+  notifyCustomer = false,
+}: {
+  session: KVSession;
+  orderId: string;
+  pickupStatus: PickupStatus;
+  notifyCustomer?: boolean;
+}): Promise<void> {
+  const db = getDB();
+
+  const [existing] = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error("Order not found");
+  }
+
+  assertFulfillmentStatusChange(existing, "pickup", pickupStatus);
+  const syncedStatus = getSyncedOrderStatus(existing, pickupStatus);
+
+  const changes: Partial<Order> = {
+    pickupStatus,
+    ...(syncedStatus && { status: syncedStatus }),
+  };
+
+  await db
+    .update(orderTable)
+    .set({
+      ...changes,
+      updatedAt: new Date(),
+    })
+    .where(eq(orderTable.id, orderId));
+
+  await recordOrderStatusEvent({
+    orderId,
+    field: ORDER_STATUS_EVENT_FIELD.PICKUP_STATUS,
+    fromStatus: existing.pickupStatus,
+    toStatus: pickupStatus,
+    session,
+  });
+
+  if (syncedStatus) {
+    await recordOrderStatusEvent({
+      orderId,
+      field: ORDER_STATUS_EVENT_FIELD.STATUS,
+      fromStatus: existing.status,
+      toStatus: syncedStatus,
+      session,
+      note: "Synced from pickup status",
+    });
+  }
+
+  await recordAdminAudit({
+    session,
+    action: "order.update_pickup_status",
+    entityType: ADMIN_AUDIT_ENTITY_TYPE.ORDER,
+    entityId: orderId,
+    before: Object.fromEntries(
+      Object.keys(changes).map((key) => [key, existing[key as keyof Order]])
+    ),
+    after: changes,
+  });
+
+  const notificationType = getNotificationTypeForFulfillmentStatus(pickupStatus);
+  if (notifyCustomer && notificationType) {
+    await dispatchOrderNotification({
+      orderId,
+      type: notificationType,
+    });
+  }
+}
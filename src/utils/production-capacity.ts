@@ -0,0 +1,269 @@
+/**
+ * Production Capacity
+ *
+ * The bakery can only make so many items per bake day. Capacity limits cap
+ * the units booked for a fulfillment date, either in total or for one
+ * category (e.g. custom cakes). Booked units are the unrefunded items of
+ * paid, non-cancelled orders delivered or picked up on that date. A date is
+ * full for a cart when adding the cart would go over any of its limits.
+ *
+ * Capacity is checked when dates are offered and again when the order is
+ * priced, so it's a soft limit: two carts checking out at the same moment
+ * can both take the last units.
+ */
+
+import "server-only";
+
+import { and, eq, inArray, ne, or, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  categoryTable,
+  orderItemTable,
+  orderTable,
+  productCategoryTable,
+  productionCapacityTable,
+  type ProductionCapacity,
+} from "@/db/schema";
+import { getMountainDayOfWeek, parseMountainISODate } from "@/utils/timezone";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CapacityLimit {
+  capacityId: string;
+  name: string;
+  categoryId: string | null; // null = all products
+  categoryName: string | null;
+  maxUnits: number;
+  bookedUnits: number;
+  remainingUnits: number;
+}
+
+export interface DateCapacity {
+  date: string; // ISO date "2025-12-24"
+  limits: CapacityLimit[];
+}
+
+export interface CapacityCartItem {
+  productId: string;
+  quantity: number;
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/**
+ * How specific a limit is for a date, or null when it doesn't apply
+ */
+function getLimitSpecificity(capacity: ProductionCapacity, date: string, dayOfWeek: number): number | null {
+  if (capacity.date) {
+    return capacity.date === date ? 2 : null;
+  }
+  if (capacity.dayOfWeek !== null) {
+    return capacity.dayOfWeek === dayOfWeek ? 1 : null;
+  }
+  return 0;
+}
+
+/**
+ * The limit that applies to each scope (all products, or a category) on a
+ * date: the most specific one, and the lowest of equally specific ones
+ */
+function resolveLimits(capacities: ProductionCapacity[], date: string): ProductionCapacity[] {
+  const dayOfWeek = getMountainDayOfWeek(parseMountainISODate(date));
+  const byScope = new Map<string, { capacity: ProductionCapacity; specificity: number }>();
+
+  for (const capacity of capacities) {
+    const specificity = getLimitSpecificity(capacity, date, dayOfWeek);
+    if (specificity === null) continue;
+
+    const scope = capacity.categoryId ?? "";
+    const current = byScope.get(scope);
+
+    if (
+      !current ||
+      specificity > current.specificity ||
+      (specificity === current.specificity && capacity.maxUnits < current.capacity.maxUnits)
+    ) {
+      byScope.set(scope, { capacity, specificity });
+    }
+  }
+
+  return [...byScope.values()].map(({ capacity }) => capacity);
+}
+
+async function getProductCategoryIds(productIds: string[]): Promise<Map<string, string[]>> {
+  const categoriesByProduct = new Map<string, string[]>();
+  if (productIds.length === 0) return categoriesByProduct;
+
+  const db = getDB();
+  const associations = await db
+    .select({
+      productId: productCategoryTable.productId,
+      categoryId: productCategoryTable.categoryId,
+    })
+    .from(productCategoryTable)
+    .where(inArray(productCategoryTable.productId, [...new Set(productIds)]));
+
+  for (const { productId, categoryId } of associations) {
+    categoriesByProduct.set(productId, [...(categoriesByProduct.get(productId) ?? []), categoryId]);
+  }
+
+  return categoriesByProduct;
+}
+
+/**
+ * Units per scope ("" for all products, otherwise a category ID)
+ */
+function countUnits(
+  items: CapacityCartItem[],
+  categoriesByProduct: Map<string, string[]>
+): Map<string, number> {
+  const units = new Map<string, number>();
+
+  for (const item of items) {
+    for (const scope of ["", ...(categoriesByProduct.get(item.productId) ?? [])]) {
+      units.set(scope, (units.get(scope) ?? 0) + item.quantity);
+    }
+  }
+
+  return units;
+}
+
+// ============================================================================
+// CAPACITY
+// ============================================================================
+
+/**
+ * Limits and booked units for each date. Dates without an active limit are
+ * left out of the map.
+ */
+export async function getDateCapacities(dates: string[]): Promise<Map<string, DateCapacity>> {
+  const result = new Map<string, DateCapacity>();
+  const uniqueDates = [...new Set(dates)];
+  if (uniqueDates.length === 0) return result;
+
+  const db = getDB();
+
+  const capacities = await db
+    .select()
+    .from(productionCapacityTable)
+    .where(eq(productionCapacityTable.isActive, 1));
+
+  const limitsByDate = new Map(
+    uniqueDates.map((date) => [date, resolveLimits(capacities, date)])
+  );
+  const limitedDates = uniqueDates.filter((date) => limitsByDate.get(date)!.length > 0);
+  if (limitedDates.length === 0) return result;
+
+  // Booked items, excluding orders that were never paid or were cancelled
+  const bookedItems = await db
+    .select({
+      productId: orderItemTable.productId,
+      quantity: orderItemTable.quantity,
+      refundedQuantity: orderItemTable.refundedQuantity,
+      fulfillmentMethod: orderTable.fulfillmentMethod,
+      deliveryDate: orderTable.deliveryDate,
+      pickupDate: orderTable.pickupDate,
+    })
+    .from(orderItemTable)
+    .innerJoin(orderTable, eq(orderItemTable.orderId, orderTable.id))
+    .where(
+      and(
+        // Stored dates may carry a time part; compare the day only
+        or(
+          inArray(sql`substr(${orderTable.deliveryDate}, 1, 10)`, limitedDates),
+          inArray(sql`substr(${orderTable.pickupDate}, 1, 10)`, limitedDates)
+        ),
+        ne(orderTable.status, ORDER_STATUS.CANCELLED),
+        ne(orderTable.status, ORDER_STATUS.PENDING_PAYMENT),
+        ne(orderTable.paymentStatus, PAYMENT_STATUS.FAILED)
+      )
+    );
+
+  const categoriesByProduct = await getProductCategoryIds(bookedItems.map((item) => item.productId));
+
+  const itemsByDate = new Map<string, CapacityCartItem[]>();
+  for (const item of bookedItems) {
+    const date = (item.fulfillmentMethod === "pickup" ? item.pickupDate : item.deliveryDate)
+      ?.substring(0, 10);
+    if (!date) continue;
+
+    itemsByDate.set(date, [
+      ...(itemsByDate.get(date) ?? []),
+      { productId: item.productId, quantity: item.quantity - item.refundedQuantity },
+    ]);
+  }
+
+  const categoryIds = [
+    ...new Set(capacities.map((capacity) => capacity.categoryId).filter((id): id is string => !!id)),
+  ];
+  const categories = categoryIds.length > 0
+    ? await db
+        .select({ id: categoryTable.id, name: categoryTable.name })
+        .from(categoryTable)
+        .where(inArray(categoryTable.id, categoryIds))
+    : [];
+
+  for (const date of limitedDates) {
+    const booked = countUnits(itemsByDate.get(date) ?? [], categoriesByProduct);
+
+    result.set(date, {
+      date,
+      limits: limitsByDate.get(date)!.map((capacity) => {
+        const bookedUnits = booked.get(capacity.categoryId ?? "") ?? 0;
+
+        return {
+          capacityId: capacity.id,
+          name: capacity.name,
+          categoryId: capacity.categoryId,
+          categoryName: categories.find((c) => c.id === capacity.categoryId)?.name ?? null,
+          maxUnits: capacity.maxUnits,
+          bookedUnits,
+          remainingUnits: Math.max(0, capacity.maxUnits - bookedUnits),
+        };
+      }),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Dates that can't take the cart without going over a limit. With an empty
+ * cart, dates where any limit is used up.
+ */
+export async function getFullDates({
+  dates,
+  items,
+}: {
+  dates: string[];
+  items: CapacityCartItem[];
+}): Promise<Set<string>> {
+  const fullDates = new Set<string>();
+
+  const capacities = await getDateCapacities(dates);
+  if (capacities.size === 0) return fullDates;
+
+  const categoriesByProduct = await getProductCategoryIds(items.map((item) => item.productId));
+  const cartUnits = countUnits(items, categoriesByProduct);
+
+  for (const { date, limits } of capacities.values()) {
+    const isFull = limits.some((limit) => {
+      const units = cartUnits.get(limit.categoryId ?? "") ?? 0;
+      return items.length > 0
+        ? units > 0 && units > limit.remainingUnits
+        : limit.remainingUnits <= 0;
+    });
+
+    if (isFull) {
+      fullDates.add(date);
+    }
+  }
+
+  return fullDates;
+}
@@ -0,0 +1,481 @@
+/**
+ * Order Refunds
+ *
+ * Refunds go through the merchant provider and are recorded in the
+ * order_refund ledger, so an order can be refunded in several partial steps.
+ * Each refund also updates the refunded quantities on order items, the
+ * merchant fee row used by revenue reporting and, optionally, inventory.
+ */
+
+import "server-only";
+
+import { and, eq, inArray, ne, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  REFUND_STATUS,
+  merchantFeeTable,
+  orderItemTable,
+  orderRefundTable,
+  orderTable,
+  productTable,
+  type OrderRefund,
+} from "@/db/schema";
+import { getMerchantProvider } from "@/lib/merchant-provider/factory";
+import { calculateRefundAdjustedMerchantFee } from "@/lib/merchant-provider/fee-calculator";
+import { isMerchantProviderType, type MerchantProviderType } from "@/lib/merchant-provider/types";
+import { releaseDropQuantity } from "@/utils/drops";
+import {
+  adjustInventory,
+  getSelectedVariantId,
+  hasDeductedInventory,
+  restockOrderItems,
+} from "@/utils/inventory";
+import { assertOrderStatusChange } from "@/utils/order-status-workflow";
+import { getOrderNumber } from "@/utils/order-number";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RefundLineItem {
+  orderItemId: string;
+  quantity: number;
+  amount: number; // Line total including its share of tax, in cents
+}
+
+export interface RefundOrderOptions {
+  orderId: string;
+  reason: string;
+  // Either refund specific line items, a fixed amount, or (neither) everything left
+  items?: Array<{ orderItemId: string; quantity: number }>;
+  amount?: number; // cents
+  restock: boolean;
+  cancelOrder?: boolean;
+  refundedByUserId?: string | null;
+}
+
+export interface RefundOrderResult {
+  refund: OrderRefund;
+  totalRefunded: number;
+  isFullyRefunded: boolean;
+  previousStatus: string; // Order status before a cancelling refund changed it
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Sum of all refunds that were not rejected by the provider
+ */
+export async function getRefundedAmount(orderId: string): Promise<number> {
+  const db = getDB();
+
+  const [result] = await db
+    .select({
+      total: sql<number>`COALESCE(SUM(${orderRefundTable.amount}), 0)`,
+    })
+    .from(orderRefundTable)
+    .where(
+      and(
+        eq(orderRefundTable.orderId, orderId),
+        ne(orderRefundTable.status, REFUND_STATUS.FAILED)
+      )
+    );
+
+  return Number(result?.total) || 0;
+}
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+/**
+ * Issue a full or partial refund for an order
+ */
+export async function refundOrder({
+  orderId,
+  reason,
+  items: requestedItems,
+  amount: requestedAmount,
+  restock,
+  cancelOrder = false,
+  refundedByUserId = null,
+}: RefundOrderOptions): Promise<RefundOrderResult> {
+  const db = getDB();
+
+  const order = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.id, orderId))
+    .get();
+
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  if (order.paymentStatus !== PAYMENT_STATUS.PAID) {
+    throw new Error("Only paid orders can be refunded");
+  }
+
+  if (!order.paymentIntentId) {
+    throw new Error("Order has no payment to refund");
+  }
+
+  if (cancelOrder) {
+    assertOrderStatusChange(order, ORDER_STATUS.CANCELLED);
+  }
+
+  const orderItems = await db
+    .select()
+    .from(orderItemTable)
+    .where(eq(orderItemTable.orderId, orderId));
+
+  const alreadyRefunded = await getRefundedAmount(orderId);
+  const refundableAmount = order.totalAmount - alreadyRefunded;
+
+  if (refundableAmount <= 0) {
+    throw new Error("Order has already been fully refunded");
+  }
+
+  // Tax is charged on the subtotal plus delivery, so refunded lines carry their share
+  const taxableAmount = order.subtotal + (order.deliveryFee || 0);
+  const withTax = (lineTotal: number) =>
+    taxableAmount > 0
+      ? lineTotal + Math.round((lineTotal * order.tax) / taxableAmount)
+      : lineTotal;
+
+  let refundLines: RefundLineItem[] = [];
+  let amount: number;
+
+  if (requestedItems && requestedItems.length > 0) {
+    for (const requested of requestedItems) {
+      const orderItem = orderItems.find((item) => item.id === requested.orderItemId);
+      if (!orderItem) {
+        throw new Error("Order item not found");
+      }
+
+      const refundableQuantity = orderItem.quantity - orderItem.refundedQuantity;
+      if (requested.quantity > refundableQuantity) {
+        throw new Error(
+          `Only ${refundableQuantity} unit(s) of this item can still be refunded`
+        );
+      }
+
+      refundLines.push({
+        orderItemId: orderItem.id,
+        quantity: requested.quantity,
+        amount: withTax(orderItem.priceAtPurchase * requested.quantity),
+      });
+    }
+
+    amount = Math.min(
+      refundLines.reduce((sum, line) => sum + line.amount, 0),
+      refundableAmount
+    );
+  } else if (requestedAmount !== undefined) {
+    amount = requestedAmount;
+  } else {
+    // Full refund of whatever is left, including every unrefunded unit
+    amount = refundableAmount;
+    refundLines = orderItems
+      .filter((item) => item.quantity > item.refundedQuantity)
+      .map((item) => {
+        const quantity = item.quantity - item.refundedQuantity;
+        return {
+          orderItemId: item.id,
+          quantity,
+          amount: withTax(item.priceAtPurchase * quantity),
+        };
+      });
+  }
+
+  if (amount <= 0) {
+    throw new Error("Refund amount must be greater than zero");
+  }
+
+  if (amount > refundableAmount) {
+    throw new Error(
+      `Refund exceeds the refundable balance of $${(refundableAmount / 100).toFixed(2)}`
+    );
+  }
+
+  // Refund through whichever processor took the payment, even if the store
+  // has since switched providers
+  if (!isMerchantProviderType(order.merchantProvider)) {
+    throw new Error(`Order was paid with an unsupported provider: ${order.merchantProvider}`);
+  }
+
+  const provider = await getMerchantProvider(order.merchantProvider);
+
+  const refundValues = {
+    orderId,
+    merchantProvider: order.merchantProvider,
+    amount,
+    reason,
+    items: refundLines.length > 0 ? JSON.stringify(refundLines) : null,
+    restocked: restock && refundLines.length > 0 ? 1 : 0,
+    refundedByUserId,
+  };
+
+  let providerRefund;
+  try {
+    providerRefund = await provider.refundPayment({
+      paymentId: order.paymentIntentId,
+      amount,
+      reason,
+    });
+  } catch (error) {
+    // Keep a record of the attempt so the ledger explains what happened
+    await db.insert(orderRefundTable).values({
+      ...refundValues,
+      status: REFUND_STATUS.FAILED,
+    });
+    throw error;
+  }
+
+  if (providerRefund.status === "failed") {
+    await db
+      .insert(orderRefundTable)
+      .values({
+        ...refundValues,
+        providerRefundId: providerRefund.refundId,
+        status: REFUND_STATUS.FAILED,
+      })
+      .onConflictDoUpdate({
+        target: orderRefundTable.providerRefundId,
+        set: { ...refundValues, status: REFUND_STATUS.FAILED, updatedAt: new Date() },
+      });
+    throw new Error("The payment provider rejected the refund");
+  }
+
+  // Record what the provider actually refunded, which can be less than requested
+  if (providerRefund.amount !== amount) {
+    console.warn(
+      `[Refunds] Requested ${amount} cents for order ${orderId} but the provider refunded ${providerRefund.amount}`
+    );
+  }
+
+  const refundStatus =
+    providerRefund.status === "succeeded"
+      ? REFUND_STATUS.SUCCEEDED
+      : REFUND_STATUS.PENDING;
+
+  // The provider's refund webhook can land before this insert; keep one
+  // ledger row per provider refund and let the admin's details win
+  const [refund] = await db
+    .insert(orderRefundTable)
+    .values({
+      ...refundValues,
+      amount: providerRefund.amount,
+      providerRefundId: providerRefund.refundId,
+      status: refundStatus,
+    })
+    .onConflictDoUpdate({
+      target: orderRefundTable.providerRefundId,
+      set: {
+        ...refundValues,
+        amount: providerRefund.amount,
+        status: refundStatus,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  // Mark refunded units and optionally put them back into inventory
+  for (const line of refundLines) {
+    await db
+      .update(orderItemTable)
+      .set({
+        refundedQuantity: sql`${orderItemTable.refundedQuantity} + ${line.quantity}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(orderItemTable.id, line.orderItemId));
+
+    if (restock) {
+      const orderItem = orderItems.find((item) => item.id === line.orderItemId);
+      if (!orderItem) continue;
+
+      await adjustInventory([{
+        productId: orderItem.productId,
+        variantId: getSelectedVariantId(orderItem.customizations),
+        quantity: line.quantity,
+      }]);
+
+      if (orderItem.dropItemId) {
+        await releaseDropQuantity({
+          dropItemId: orderItem.dropItemId,
+          quantity: line.quantity,
+        });
+      }
+    }
+  }
+
+  const totalRefunded = alreadyRefunded + refund.amount;
+  const isFullyRefunded = totalRefunded >= order.totalAmount;
+
+  // Net the refund out of revenue reporting
+  const feeCalculation = calculateRefundAdjustedMerchantFee({
+    orderAmount: order.totalAmount,
+    refundedAmount: totalRefunded,
+    merchantProvider: order.merchantProvider as MerchantProviderType,
+  });
+
+  await db
+    .update(merchantFeeTable)
+    .set({
+      totalFee: feeCalculation.totalFee,
+      netAmount: feeCalculation.netAmount,
+      refundedAmount: totalRefunded,
+      calculatedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(merchantFeeTable.orderId, orderId));
+
+  // Cancelling also returns the units that weren't refunded, unless the
+  // admin chose not to restock
+  if (cancelOrder && restock && order.status !== ORDER_STATUS.CANCELLED && hasDeductedInventory(order)) {
+    await restockOrderItems(orderId);
+  }
+
+  if (isFullyRefunded || cancelOrder) {
+    await db
+      .update(orderTable)
+      .set({
+        ...(isFullyRefunded && { paymentStatus: PAYMENT_STATUS.REFUNDED }),
+        ...(cancelOrder && { status: ORDER_STATUS.CANCELLED }),
+        updatedAt: new Date(),
+      })
+      .where(eq(orderTable.id, orderId));
+  }
+
+  // Let the customer know
+  try {
+    const { sendOrderRefundEmail } = await import("@/utils/email");
+    const products = await db
+      .select({ id: productTable.id, name: productTable.name })
+      .from(productTable)
+      .where(inArray(productTable.id, orderItems.map((item) => item.productId)));
+    const productNames = new Map(products.map((product) => [product.id, product.name]));
+
+    await sendOrderRefundEmail({
+      email: order.customerEmail,
+      customerName: order.customerName,
+      orderNumber: getOrderNumber(order.id),
+      refundAmount: refund.amount,
+      totalRefunded,
+      orderTotal: order.totalAmount,
+      reason,
+      refundedItems: refundLines.map((line) => {
+        const orderItem = orderItems.find((item) => item.id === line.orderItemId);
+        return {
+          name: (orderItem && productNames.get(orderItem.productId)) || "Item",
+          quantity: line.quantity,
+          amount: line.amount,
+        };
+      }),
+      isFullRefund: isFullyRefunded,
+      isCancelled: cancelOrder,
+    });
+  } catch (error) {
+    console.error("[Refund] Error sending refund email:", error);
+  }
+
+  return { refund, totalRefunded, isFullyRefunded, previousStatus: order.status };
+}
+
+// ============================================================================
+// PROVIDER WEBHOOKS
+// ============================================================================
+
+export interface SyncProviderRefundOptions {
+  paymentId: string; // Provider payment the refund belongs to
+  providerRefundId: string;
+  amount: number; // cents
+  status: "pending" | "succeeded" | "failed";
+}
+
+/**
+ * Record a refund reported by a provider webhook. Refunds issued from the
+ * admin panel are already in the ledger and only get their status updated;
+ * refunds issued from the provider's dashboard are added. Returns the order's
+ * ID, or null when no order took the payment.
+ */
+export async function syncProviderRefund({
+  paymentId,
+  providerRefundId,
+  amount,
+  status,
+}: SyncProviderRefundOptions): Promise<{ orderId: string; totalRefunded: number } | null> {
+  const db = getDB();
+
+  const order = await db
+    .select()
+    .from(orderTable)
+    .where(eq(orderTable.paymentIntentId, paymentId))
+    .get();
+
+  if (!order) {
+    return null;
+  }
+
+  const refundStatus =
+    status === "succeeded"
+      ? REFUND_STATUS.SUCCEEDED
+      : status === "failed"
+        ? REFUND_STATUS.FAILED
+        : REFUND_STATUS.PENDING;
+
+  await db
+    .insert(orderRefundTable)
+    .values({
+      orderId: order.id,
+      merchantProvider: order.merchantProvider,
+      providerRefundId,
+      amount,
+      reason: "Refunded from the payment provider's dashboard",
+      status: refundStatus,
+    })
+    .onConflictDoUpdate({
+      target: orderRefundTable.providerRefundId,
+      set: { amount, status: refundStatus, updatedAt: new Date() },
+    });
+
+  const totalRefunded = await getRefundedAmount(order.id);
+  const isFullyRefunded = totalRefunded >= order.totalAmount;
+
+  const feeCalculation = calculateRefundAdjustedMerchantFee({
+    orderAmount: order.totalAmount,
+    refundedAmount: totalRefunded,
+    merchantProvider: order.merchantProvider as MerchantProviderType,
+  });
+
+  await db
+    .update(merchantFeeTable)
+    .set({
+      totalFee: feeCalculation.totalFee,
+      netAmount: feeCalculation.netAmount,
+      refundedAmount: totalRefunded,
+      calculatedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(merchantFeeTable.orderId, order.id));
+
+  // A failed refund can take a fully refunded order back to paid
+  const paymentStatus = isFullyRefunded
+    ? PAYMENT_STATUS.REFUNDED
+    : order.paymentStatus === PAYMENT_STATUS.REFUNDED
+      ? PAYMENT_STATUS.PAID
+      : order.paymentStatus;
+
+  if (paymentStatus !== order.paymentStatus) {
+    await db
+      .update(orderTable)
+      .set({ paymentStatus, updatedAt: new Date() })
+      .where(eq(orderTable.id, order.id));
+  }
+
+  return { orderId: order.id, totalRefunded };
+}
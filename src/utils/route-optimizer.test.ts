@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  ROUTE_BALANCE,
+  getRouteLegs,
+  buildHaversineMatrix,
+  optimizeRouteOffline,
+  partitionStops,
+  type RouteStop,
+} from "./route-optimizer";
+
+const DEPOT = { lat: 43.6, lng: -116.2 };
+// About a kilometre north
+const KM = 0.009;
+
+function northOfDepot(km: number, window?: { start: string; end: string }): RouteStop {
+  return {
+    lat: DEPOT.lat + km * KM,
+    lng: DEPOT.lng,
+    ...(window && { timeSlotStart: window.start, timeSlotEnd: window.end }),
+  };
+}
+
+function sortedIndices(routes: number[][]): number[] {
+  return routes.flat().sort((a, b) => a - b);
+}
+
+describe("optimizeRouteOffline", () => {
+  it("visits stops along a road in order", () => {
+    const stops = [northOfDepot(2), northOfDepot(1), northOfDepot(3)];
+
+    const { order, legs } = optimizeRouteOffline({
+      depot: DEPOT,
+      stops,
+      startTime: "09:00:00",
+      stopDuration: 300,
+    });
+
+    expect(order).toEqual([1, 0, 2]);
+    expect(legs).toHaveLength(stops.length + 1); // Including the drive back
+  });
+
+  it("serves a stop inside its booked window ahead of nearer stops", () => {
+    // Ten minutes at each stop makes the far stop late if it goes last
+    const stops = [
+      northOfDepot(1),
+      northOfDepot(2),
+      northOfDepot(3, { start: "09:00", end: "09:10" }),
+    ];
+
+    const { order, legs } = optimizeRouteOffline({
+      depot: DEPOT,
+      stops,
+      startTime: "09:00:00",
+      stopDuration: 600,
+    });
+
+    expect(order[0]).toBe(2);
+    expect(legs[0].duration).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it("orders more stops than Google Directions allows", () => {
+    const stops = Array.from({ length: 40 }, (_, index) => ({
+      lat: DEPOT.lat + (index % 8) * KM,
+      lng: DEPOT.lng + Math.floor(index / 8) * KM,
+    }));
+    const matrix = buildHaversineMatrix(DEPOT, stops);
+
+    const { order, legs } = optimizeRouteOffline({
+      depot: DEPOT,
+      stops,
+      startTime: "09:00:00",
+      stopDuration: 300,
+      matrix,
+    });
+
+    const distance = (route: number[]) =>
+      getRouteLegs(matrix, route).reduce((sum, leg) => sum + leg.distance, 0);
+
+    expect([...order].sort((a, b) => a - b)).toEqual(stops.map((_, index) => index));
+    expect(legs).toHaveLength(stops.length + 1);
+    expect(distance(order)).toBeLessThan(distance(stops.map((_, index) => index)));
+  });
+});
+
+describe("partitionStops", () => {
+  const stops = Array.from({ length: 10 }, (_, index) => ({
+    lat: DEPOT.lat + Math.cos(index) * KM * 5,
+    lng: DEPOT.lng + Math.sin(index) * KM * 5,
+  }));
+
+  it.each([ROUTE_BALANCE.STOPS, ROUTE_BALANCE.DURATION])(
+    "keeps a route within its stop limit when balancing by %s",
+    (balanceBy) => {
+      const routes = partitionStops({
+        depot: DEPOT,
+        stops,
+        routeCount: 2,
+        balanceBy,
+        maxStops: [3, null],
+        startTime: "09:00:00",
+        stopDuration: 300,
+      });
+
+      expect(routes).toHaveLength(2);
+      expect(routes[0].length).toBeLessThanOrEqual(3);
+      expect(sortedIndices(routes)).toEqual(stops.map((_, index) => index));
+    }
+  );
+
+  it("throws when the routes can't carry every stop", () => {
+    expect(() =>
+      partitionStops({
+        depot: DEPOT,
+        stops,
+        routeCount: 2,
+        balanceBy: ROUTE_BALANCE.STOPS,
+        maxStops: [4, 4],
+        startTime: "09:00:00",
+        stopDuration: 300,
+      })
+    ).toThrow("can't carry all 10 stops");
+  });
+});
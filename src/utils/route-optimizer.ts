@@ -0,0 +1,442 @@
+/**
+ * Built-in Route Optimizer
+ *
+ * Orders delivery stops without calling Google, so route planning works
+ * offline, without an API key and past Google's 25-waypoint limit. Travel
+ * between stops is estimated from straight-line (haversine) distance with a
+ * road factor and an average driving speed, unless a distance matrix is
+ * passed in.
+ *
+ * The route starts with nearest neighbour by the time each stop can be
+ * served, then improves with 2-opt and Or-opt moves. Every candidate route is
+ * timed like the real one: the driver waits for a booked window to open,
+ * spends stopDuration at each stop and returns to the depot. Arriving after a
+ * window ends is penalized heavily, so windows win over distance.
+ *
+ * Busy days can be split across drivers. Stops are swept around the depot
+ * into one slice per route, starting at the widest gap between stops, then
+ * boundary stops move between neighbouring slices until the routes are
+ * balanced by stop count or estimated drive time.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const ROUTE_ENGINE = {
+  GOOGLE: "google",
+  BUILT_IN: "built_in",
+} as const;
+
+export type RouteEngine = (typeof ROUTE_ENGINE)[keyof typeof ROUTE_ENGINE];
+
+// Google Directions accepts at most this many waypoints per request
+export const GOOGLE_MAX_WAYPOINTS = 25;
+
+export const ROUTE_BALANCE = {
+  STOPS: "stops",
+  DURATION: "duration",
+} as const;
+
+export type RouteBalance = (typeof ROUTE_BALANCE)[keyof typeof ROUTE_BALANCE];
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteStop extends RoutePoint {
+  timeSlotStart?: string; // "10:00" - booked delivery window, HH:mm
+  timeSlotEnd?: string; // "12:00"
+}
+
+export interface RouteLeg {
+  duration: number; // seconds
+  distance: number; // meters
+}
+
+/**
+ * Travel between every pair of points. Index 0 is the depot, index i + 1 is
+ * stop i.
+ */
+export interface DistanceMatrix {
+  duration: number[][]; // seconds
+  distance: number[][]; // meters
+}
+
+// ============================================================================
+// DISTANCES
+// ============================================================================
+
+const EARTH_RADIUS_METERS = 6371000;
+// Roads are rarely straight; typical city detour over the straight line
+const ROAD_DISTANCE_FACTOR = 1.3;
+// 40 km/h, a mix of residential streets and arterials
+const AVERAGE_SPEED_METERS_PER_SECOND = 40000 / 3600;
+
+/**
+ * Straight-line distance between two points in meters
+ */
+export function haversineDistance(a: RoutePoint, b: RoutePoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Estimated road distances and drive times between the depot and stops
+ */
+export function buildHaversineMatrix(depot: RoutePoint, stops: RoutePoint[]): DistanceMatrix {
+  const points = [depot, ...stops];
+  const distance = points.map((from) =>
+    points.map((to) => Math.round(haversineDistance(from, to) * ROAD_DISTANCE_FACTOR))
+  );
+  const duration = distance.map((row) =>
+    row.map((meters) => Math.round(meters / AVERAGE_SPEED_METERS_PER_SECOND))
+  );
+
+  return { duration, distance };
+}
+
+/**
+ * Legs for visiting stops in order, including the return to the depot
+ */
+export function getRouteLegs(matrix: DistanceMatrix, order: number[]): RouteLeg[] {
+  const nodes = [0, ...order.map((stopIndex) => stopIndex + 1), 0];
+
+  return nodes.slice(1).map((node, index) => ({
+    duration: matrix.duration[nodes[index]][node],
+    distance: matrix.distance[nodes[index]][node],
+  }));
+}
+
+// ============================================================================
+// OPTIMIZATION
+// ============================================================================
+
+// A second late counts as much as this many seconds of driving
+const LATENESS_PENALTY = 100;
+const MAX_IMPROVEMENT_PASSES = 50;
+// Longest run of consecutive stops an Or-opt move relocates
+const OR_OPT_MAX_SEGMENT = 3;
+
+interface RouteContext {
+  matrix: DistanceMatrix;
+  windows: Array<{ start: number | null; end: number | null }>;
+  startTime: number; // seconds since midnight
+  stopDuration: number; // seconds
+}
+
+// "HH:mm" or "HH:mm:ss" as seconds since midnight
+function toSeconds(time: string): number {
+  const [hours, minutes, seconds = 0] = time.split(":").map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Time from leaving the depot to returning, plus the lateness penalty
+ */
+function routeCost(order: number[], context: RouteContext): number {
+  const { matrix, windows, startTime, stopDuration } = context;
+  let time = startTime;
+  let lateness = 0;
+  let previous = 0;
+
+  for (const stopIndex of order) {
+    const node = stopIndex + 1;
+    const window = windows[stopIndex];
+
+    time += matrix.duration[previous][node];
+    if (window.start !== null && time < window.start) {
+      time = window.start;
+    }
+    if (window.end !== null && time > window.end) {
+      lateness += time - window.end;
+    }
+    time += stopDuration;
+    previous = node;
+  }
+
+  time += matrix.duration[previous][0];
+  return time - startTime + LATENESS_PENALTY * lateness;
+}
+
+function createRouteContext({
+  stops,
+  matrix,
+  startTime,
+  stopDuration,
+}: {
+  stops: RouteStop[];
+  matrix: DistanceMatrix;
+  startTime: string;
+  stopDuration: number;
+}): RouteContext {
+  return {
+    matrix,
+    windows: stops.map((stop) => ({
+      start: stop.timeSlotStart ? toSeconds(stop.timeSlotStart) : null,
+      end: stop.timeSlotEnd ? toSeconds(stop.timeSlotEnd) : null,
+    })),
+    startTime: toSeconds(startTime),
+    stopDuration,
+  };
+}
+
+/**
+ * Repeatedly visit the stop that can be served soonest. A stop whose window
+ * hasn't opened can only be served once it does.
+ */
+function nearestNeighbourRoute(stopIndices: number[], context: RouteContext): number[] {
+  const { matrix, windows, startTime, stopDuration } = context;
+  const remaining = new Set(stopIndices);
+  const order: number[] = [];
+  let time = startTime;
+  let previous = 0;
+
+  while (remaining.size > 0) {
+    let next = -1;
+    let nextReady = Infinity;
+    let nextDuration = Infinity;
+
+    for (const stopIndex of remaining) {
+      const duration = matrix.duration[previous][stopIndex + 1];
+      const ready = Math.max(time + duration, windows[stopIndex].start ?? 0);
+
+      if (ready < nextReady || (ready === nextReady && duration < nextDuration)) {
+        next = stopIndex;
+        nextReady = ready;
+        nextDuration = duration;
+      }
+    }
+
+    order.push(next);
+    remaining.delete(next);
+    time = nextReady + stopDuration;
+    previous = next + 1;
+  }
+
+  return order;
+}
+
+interface Route {
+  order: number[];
+  cost: number;
+}
+
+/**
+ * One sweep of reversing runs of stops, keeping each reversal that makes the
+ * route cheaper
+ */
+function twoOpt(route: Route, context: RouteContext): Route {
+  let { order, cost } = route;
+
+  for (let i = 0; i < order.length - 1; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      const candidate = [
+        ...order.slice(0, i),
+        ...order.slice(i, j + 1).reverse(),
+        ...order.slice(j + 1),
+      ];
+      const candidateCost = routeCost(candidate, context);
+
+      if (candidateCost < cost) {
+        order = candidate;
+        cost = candidateCost;
+      }
+    }
+  }
+
+  return { order, cost };
+}
+
+/**
+ * One sweep of moving runs of up to three stops elsewhere in the route,
+ * keeping their direction, when that makes the route cheaper
+ */
+function orOpt(route: Route, context: RouteContext): Route {
+  let { order, cost } = route;
+
+  for (let length = 1; length <= Math.min(OR_OPT_MAX_SEGMENT, order.length - 1); length++) {
+    for (let i = 0; i + length <= order.length; i++) {
+      const segment = order.slice(i, i + length);
+      const rest = [...order.slice(0, i), ...order.slice(i + length)];
+
+      for (let j = 0; j <= rest.length; j++) {
+        if (j === i) continue; // Same position
+
+        const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)];
+        const candidateCost = routeCost(candidate, context);
+
+        if (candidateCost < cost) {
+          order = candidate;
+          cost = candidateCost;
+          break; // The run moved; continue from the next start position
+        }
+      }
+    }
+  }
+
+  return { order, cost };
+}
+
+/**
+ * Order stops for the shortest day that meets booked windows. Returns the
+ * stop indices in visiting order and the legs to drive, including the
+ * return to the depot.
+ */
+export function optimizeRouteOffline({
+  depot,
+  stops,
+  startTime,
+  stopDuration,
+  matrix = buildHaversineMatrix(depot, stops),
+}: {
+  depot: RoutePoint;
+  stops: RouteStop[];
+  startTime: string; // "09:00:00"
+  stopDuration: number; // seconds
+  matrix?: DistanceMatrix;
+}): { order: number[]; legs: RouteLeg[] } {
+  if (stops.length === 0) {
+    return { order: [], legs: [] };
+  }
+
+  const context = createRouteContext({ stops, matrix, startTime, stopDuration });
+  const initialOrder = nearestNeighbourRoute(stops.map((_, index) => index), context);
+  let route: Route = { order: initialOrder, cost: routeCost(initialOrder, context) };
+
+  // Sweep until neither move finds anything better
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    const improved = orOpt(twoOpt(route, context), context);
+    if (improved.cost >= route.cost) break;
+
+    route = improved;
+  }
+
+  return { order: route.order, legs: getRouteLegs(matrix, route.order) };
+}
+
+// ============================================================================
+// ROUTE SPLITTING
+// ============================================================================
+
+/**
+ * Stop indices in the order they're met sweeping around the depot, starting
+ * after the widest gap so no cluster of stops is cut in two
+ */
+function sweepOrder(depot: RoutePoint, stops: RoutePoint[]): number[] {
+  const angles = stops.map((stop) => Math.atan2(stop.lat - depot.lat, stop.lng - depot.lng));
+  const sorted = stops.map((_, index) => index).sort((a, b) => angles[a] - angles[b]);
+  if (sorted.length < 2) return sorted;
+
+  let widestGap = -1;
+  let start = 0;
+  sorted.forEach((stopIndex, position) => {
+    const next = sorted[(position + 1) % sorted.length];
+    const gap = (angles[next] - angles[stopIndex] + 2 * Math.PI) % (2 * Math.PI);
+    if (gap > widestGap) {
+      widestGap = gap;
+      start = (position + 1) % sorted.length;
+    }
+  });
+
+  return [...sorted.slice(start), ...sorted.slice(0, start)];
+}
+
+/**
+ * Split stops into routeCount routes of neighbouring stops. Returns the stop
+ * indices of each route, unordered; optimize each route separately. Routes
+ * never get more than their maxStops (null = unlimited). Throws when the
+ * routes can't carry every stop.
+ */
+export function partitionStops({
+  depot,
+  stops,
+  routeCount,
+  balanceBy,
+  maxStops = [],
+  startTime,
+  stopDuration,
+  matrix = buildHaversineMatrix(depot, stops),
+}: {
+  depot: RoutePoint;
+  stops: RouteStop[];
+  routeCount: number;
+  balanceBy: RouteBalance;
+  maxStops?: Array<number | null>;
+  startTime: string; // "09:00:00"
+  stopDuration: number; // seconds
+  matrix?: DistanceMatrix;
+}): number[][] {
+  const limits = Array.from({ length: routeCount }, (_, route) => maxStops[route] ?? Infinity);
+  if (limits.reduce((sum, limit) => sum + limit, 0) < stops.length) {
+    throw new Error(`The selected vehicles can't carry all ${stops.length} stops`);
+  }
+
+  // Even slice sizes, with overflow from small vehicles going to the others
+  const sizes = limits.map(() => 0);
+  for (let assigned = 0; assigned < stops.length; assigned++) {
+    let route = -1;
+    sizes.forEach((size, index) => {
+      if (size < limits[index] && (route === -1 || size < sizes[route])) {
+        route = index;
+      }
+    });
+    sizes[route]++;
+  }
+
+  const swept = sweepOrder(depot, stops);
+  const routes: number[][] = [];
+  let position = 0;
+  for (const size of sizes) {
+    routes.push(swept.slice(position, position + size));
+    position += size;
+  }
+
+  if (balanceBy === ROUTE_BALANCE.STOPS) {
+    return routes;
+  }
+
+  // Drive time balancing: hand boundary stops between neighbouring routes
+  // while that evens them out. Squared costs let a long route push stops
+  // along through its neighbours.
+  const context = createRouteContext({ stops, matrix, startTime, stopDuration });
+  const estimate = (route: number[]) =>
+    route.length === 0 ? 0 : routeCost(nearestNeighbourRoute(route, context), context);
+  const costs = routes.map(estimate);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let moved = false;
+
+    for (let left = 0; left < routes.length - 1; left++) {
+      const right = left + 1;
+      const [from, to] = costs[left] > costs[right] ? [left, right] : [right, left];
+      if (routes[from].length === 0 || routes[to].length >= limits[to]) continue;
+
+      // Slices stay contiguous: hand over the stop on the shared boundary
+      const stopIndex = from === left ? routes[from][routes[from].length - 1] : routes[from][0];
+      const fromRoute = routes[from].filter((index) => index !== stopIndex);
+      const toRoute = from === left ? [stopIndex, ...routes[to]] : [...routes[to], stopIndex];
+      const fromCost = estimate(fromRoute);
+      const toCost = estimate(toRoute);
+
+      if (fromCost ** 2 + toCost ** 2 < costs[from] ** 2 + costs[to] ** 2) {
+        routes[from] = fromRoute;
+        routes[to] = toRoute;
+        costs[from] = fromCost;
+        costs[to] = toCost;
+        moved = true;
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return routes;
+}
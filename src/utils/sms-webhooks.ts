@@ -0,0 +1,143 @@
+/**
+ * SMS Webhook Handling
+ *
+ * Applies provider delivery receipts to the notification log and handles
+ * inbound keyword replies. STOP-type keywords turn off `smsDelivery` and
+ * `smsDrops` for every account with that phone number; HELP gets a reply
+ * explaining what the messages are and how to opt out.
+ */
+
+import "server-only";
+
+import { and, eq, isNotNull, like } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  NOTIFICATION_CHANNEL,
+  notificationLogTable,
+  userTable,
+} from "@/db/schema";
+import { SITE_URL } from "@/constants";
+import type {
+  SmsDeliveryReceipt,
+  SmsInboundMessage,
+  SmsProviderType,
+  SmsWebhookEvent,
+} from "@/lib/sms-provider/types";
+import { parseNotificationPreferences } from "@/utils/notifications";
+import { formatPhoneNumber, sendSMS } from "@/utils/sms";
+
+// ============================================================================
+// KEYWORDS
+// ============================================================================
+
+// Standard CTIA opt-out and help keywords
+const STOP_KEYWORDS = ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT", "OPTOUT"];
+const HELP_KEYWORDS = ["HELP", "INFO"];
+
+export type SmsKeyword = "stop" | "help";
+
+export function getSmsKeyword(text: string): SmsKeyword | null {
+  const keyword = text.trim().toUpperCase().replace(/[^A-Z]/g, "");
+
+  if (STOP_KEYWORDS.includes(keyword)) {
+    return "stop";
+  }
+
+  if (HELP_KEYWORDS.includes(keyword)) {
+    return "help";
+  }
+
+  return null;
+}
+
+const HELP_MESSAGE = `Sweet Angel Bakery: order updates and drop alerts. Msg & data rates may apply. Manage alerts at ${SITE_URL}/profile/notifications. Reply STOP to opt out.`;
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+/**
+ * Turn off SMS notifications for every account using this phone number.
+ * Phones are stored as entered, so candidates are narrowed by their last
+ * four digits and then compared in E.164.
+ */
+export async function optOutOfSms(phoneNumber: string): Promise<string[]> {
+  const db = getDB();
+  const e164 = formatPhoneNumber(phoneNumber);
+
+  const candidates = await db
+    .select({
+      id: userTable.id,
+      phone: userTable.phone,
+      notificationPreferences: userTable.notificationPreferences,
+    })
+    .from(userTable)
+    .where(and(isNotNull(userTable.phone), like(userTable.phone, `%${e164.slice(-4)}`)));
+
+  const users = candidates.filter((user) => user.phone && formatPhoneNumber(user.phone) === e164);
+
+  for (const user of users) {
+    const preferences = parseNotificationPreferences(user.notificationPreferences);
+
+    await db
+      .update(userTable)
+      .set({
+        notificationPreferences: JSON.stringify({
+          ...preferences,
+          smsDelivery: false,
+          smsDrops: false,
+        }),
+      })
+      .where(eq(userTable.id, user.id));
+  }
+
+  return users.map((user) => user.id);
+}
+
+async function handleDeliveryReceipt(provider: SmsProviderType, receipt: SmsDeliveryReceipt) {
+  const db = getDB();
+
+  await db
+    .update(notificationLogTable)
+    .set({
+      deliveryStatus: receipt.status, // Same values as SMS_DELIVERY_STATUS
+      deliveryError: receipt.error ?? null,
+      deliveryStatusAt: new Date(),
+    })
+    .where(
+      and(
+        eq(notificationLogTable.channel, NOTIFICATION_CHANNEL.SMS),
+        eq(notificationLogTable.provider, provider),
+        eq(notificationLogTable.providerMessageId, receipt.messageId)
+      )
+    );
+}
+
+async function handleInboundMessage(message: SmsInboundMessage) {
+  const keyword = getSmsKeyword(message.text);
+
+  if (keyword === "stop") {
+    // Providers send the opt-out confirmation themselves
+    const userIds = await optOutOfSms(message.from);
+    console.log(`[SMS Webhook] STOP from ${message.from}: opted out ${userIds.length} account(s)`);
+  } else if (keyword === "help") {
+    await sendSMS({ to: message.from, message: HELP_MESSAGE });
+  }
+}
+
+/**
+ * Apply a verified webhook event from an SMS provider
+ */
+export async function handleSmsWebhookEvent(
+  provider: SmsProviderType,
+  event: SmsWebhookEvent
+): Promise<void> {
+  switch (event.type) {
+    case "delivery_receipt":
+      await handleDeliveryReceipt(provider, event);
+      break;
+    case "inbound_message":
+      await handleInboundMessage(event);
+      break;
+  }
+}
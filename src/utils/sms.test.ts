@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getCurrentSmsProviderTypes,
+  getSmsProviders,
+  resetSmsProviderInstances,
+} from "@/lib/sms-provider/factory";
+import { clearMockSMSMessages, getMockSMSMessages } from "@/lib/sms-provider/mock-transport";
+import { VonageSmsProvider } from "@/lib/sms-provider/providers/vonage";
+import { hmac, toHex } from "@/utils/signature";
+import { formatPhoneNumber, isValidPhoneNumber, sendSMS } from "./sms";
+
+beforeEach(() => {
+  resetSmsProviderInstances();
+  clearMockSMSMessages();
+  for (const name of [
+    "SMS_PROVIDER",
+    "SMS_MOCK_FAIL_PROVIDERS",
+    "AWS_SNS_ACCESS_KEY",
+    "AWS_SNS_SECRET_KEY",
+    "VONAGE_API_KEY",
+    "VONAGE_API_SECRET",
+    "TWILIO_ACCOUNT_SID",
+    "TWILIO_AUTH_TOKEN",
+  ]) {
+    vi.stubEnv(name, "");
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("formatPhoneNumber", () => {
+  it.each([
+    ["(208) 555-0134", "+12085550134"],
+    ["208.555.0134", "+12085550134"],
+    ["1 (208) 555-0134", "+12085550134"],
+    ["+1 208-555-0134", "+12085550134"],
+    ["+12085550134", "+12085550134"],
+  ])("normalizes %s to +1", (phone, expected) => {
+    expect(formatPhoneNumber(phone)).toBe(expected);
+  });
+
+  it("prefixes other digit counts with + as they are", () => {
+    expect(formatPhoneNumber("+44 20 7946 0958")).toBe("+442079460958");
+    expect(formatPhoneNumber("555-0134")).toBe("+5550134");
+  });
+
+  it("keeps the country code of international numbers", () => {
+    // 10 digits, which would otherwise be taken for a US number
+    expect(formatPhoneNumber("+64 9 123 4567")).toBe("+6491234567");
+    expect(formatPhoneNumber("0064 9 123 4567")).toBe("+6491234567");
+    expect(formatPhoneNumber("011 44 20 7946 0958")).toBe("+442079460958");
+  });
+});
+
+describe("isValidPhoneNumber", () => {
+  it("accepts E.164 numbers", () => {
+    expect(isValidPhoneNumber("+12085550134")).toBe(true);
+    expect(isValidPhoneNumber("+442079460958")).toBe(true);
+  });
+
+  it("rejects numbers that are too short or start with 0", () => {
+    expect(isValidPhoneNumber(formatPhoneNumber("555-0134"))).toBe(false);
+    expect(isValidPhoneNumber("+02085550134")).toBe(false);
+    expect(isValidPhoneNumber("2085550134")).toBe(false);
+  });
+});
+
+describe("SMS provider selection", () => {
+  it("only logs messages outside production when SMS_PROVIDER is unset", () => {
+    expect(getCurrentSmsProviderTypes()).toEqual(["console"]);
+  });
+
+  it("uses the providers SMS_PROVIDER lists, in that order", () => {
+    vi.stubEnv("SMS_PROVIDER", " Twilio, sns ");
+
+    expect(getCurrentSmsProviderTypes()).toEqual(["twilio", "sns"]);
+  });
+
+  it("skips listed providers without credentials", async () => {
+    vi.stubEnv("SMS_PROVIDER", "sns,vonage");
+    vi.stubEnv("VONAGE_API_KEY", "key");
+    vi.stubEnv("VONAGE_API_SECRET", "secret");
+
+    const providers = await getSmsProviders();
+
+    expect(providers.map((provider) => provider.name)).toEqual(["vonage"]);
+  });
+
+  it("tries every real provider in priority order in mock mode", () => {
+    vi.stubEnv("SMS_PROVIDER", "mock");
+
+    expect(getCurrentSmsProviderTypes()).toEqual(["sns", "vonage", "twilio"]);
+  });
+});
+
+describe("sendSMS", () => {
+  beforeEach(() => {
+    vi.stubEnv("SMS_PROVIDER", "mock");
+  });
+
+  it("sends to the normalized number with the first provider", async () => {
+    const result = await sendSMS({ to: "(208) 555-0134", message: "Your order is ready" });
+
+    expect(result).toMatchObject({ success: true, provider: "sns" });
+    expect(getMockSMSMessages()).toMatchObject([
+      { provider: "sns", to: "+12085550134", message: "Your order is ready" },
+    ]);
+  });
+
+  it("fails over to the next provider when one errors", async () => {
+    vi.stubEnv("SMS_MOCK_FAIL_PROVIDERS", "sns");
+
+    const result = await sendSMS({ to: "2085550134", message: "Out for delivery" });
+
+    expect(result).toMatchObject({ success: true, provider: "vonage" });
+    expect(getMockSMSMessages()).toMatchObject([{ provider: "vonage", to: "+12085550134" }]);
+  });
+
+  it("reports every provider's error when all of them fail", async () => {
+    vi.stubEnv("SMS_MOCK_FAIL_PROVIDERS", "sns,vonage,twilio");
+
+    const result = await sendSMS({ to: "2085550134", message: "Delivered" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.split("; ")).toHaveLength(3);
+    expect(getMockSMSMessages()).toHaveLength(0);
+  });
+
+  it("doesn't send to an invalid number", async () => {
+    const result = await sendSMS({ to: "555-0134", message: "Hi" });
+
+    expect(result).toEqual({ success: false, error: "Invalid phone number: 555-0134" });
+    expect(getMockSMSMessages()).toHaveLength(0);
+  });
+});
+
+describe("Vonage webhooks", () => {
+  async function signedReceipt(timestamp: number) {
+    const params: Record<string, string> = {
+      messageId: "msg_1",
+      status: "delivered",
+      timestamp: String(timestamp),
+    };
+    const payload = Object.keys(params).sort().map((key) => `&${key}=${params[key]}`).join("");
+    const sig = toHex(await hmac("SHA-256", "vonage-secret", payload));
+
+    return {
+      method: "GET",
+      url: `https://example.com/api/webhooks/sms/vonage?${new URLSearchParams({ ...params, sig })}`,
+      headers: new Headers(),
+      body: "",
+    };
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("VONAGE_SIGNATURE_SECRET", "vonage-secret");
+  });
+
+  it("accepts a freshly signed delivery receipt", async () => {
+    const events = await new VonageSmsProvider().verifyWebhook(
+      await signedReceipt(Math.floor(Date.now() / 1000))
+    );
+
+    expect(events).toMatchObject([{ type: "delivery_receipt", messageId: "msg_1", status: "delivered" }]);
+  });
+
+  it("rejects a signed request replayed after the tolerance window", async () => {
+    const request = await signedReceipt(Math.floor(Date.now() / 1000) - 10 * 60);
+
+    await expect(new VonageSmsProvider().verifyWebhook(request)).rejects.toThrow("tolerance");
+  });
+});
@@ -1,127 +1,60 @@
 import "server-only";
 
-import isProd from "./is-prod";
-
-type SMSProvider = "sns" | "vonage" | null;
+import { getSmsProviders } from "@/lib/sms-provider/factory";
+import type { SmsProviderType } from "@/lib/sms-provider/types";
 
 interface SendSMSOptions {
   to: string;
   message: string;
 }
 
-/**
- * Determine which SMS provider is configured
- */
-async function getSMSProvider(): Promise<SMSProvider> {
-  if (process.env.AWS_SNS_ACCESS_KEY && process.env.AWS_SNS_SECRET_KEY) {
-    return "sns";
-  }
-
-  if (process.env.VONAGE_API_KEY && process.env.VONAGE_API_SECRET) {
-    return "vonage";
-  }
-
-  return null;
-}
-
-/**
- * Send SMS via Amazon SNS (cheapest option ~$0.006/SMS)
- */
-async function sendSNSMessage({ to, message }: SendSMSOptions) {
-  if (!process.env.AWS_SNS_ACCESS_KEY || !process.env.AWS_SNS_SECRET_KEY) {
-    throw new Error("AWS SNS credentials not configured");
-  }
-
-  const region = process.env.AWS_REGION || "us-east-1";
-
-  // Note: This is a placeholder. In production, you would use the AWS SDK
-  // or implement proper AWS Signature V4 signing
-  // For now, this shows the structure needed
-
-  const endpoint = `https://sns.${region}.amazonaws.com/`;
-
-  // AWS SNS requires proper signature - this is simplified
-  // In production, use @aws-sdk/client-sns
-  const params = new URLSearchParams({
-    Action: "Publish",
-    Message: message,
-    PhoneNumber: to,
-    Version: "2010-03-31",
-  });
-
-  const response = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to send SMS via SNS: ${error}`);
-  }
-
-  return response.text();
+export interface SendSMSResult {
+  success: boolean;
+  error?: string;
+  provider?: SmsProviderType;
+  messageId?: string | null;
 }
 
 /**
- * Send SMS via Vonage (formerly Nexmo) (~$0.0076/SMS)
+ * Send SMS notification
+ *
+ * The recipient is normalized to E.164 first. Configured providers are tried
+ * in priority order until one accepts the message.
  */
-async function sendVonageMessage({ to, message }: SendSMSOptions) {
-  if (!process.env.VONAGE_API_KEY || !process.env.VONAGE_API_SECRET) {
-    throw new Error("Vonage API credentials not configured");
-  }
+export async function sendSMS({ to, message }: SendSMSOptions): Promise<SendSMSResult> {
+  const phoneNumber = formatPhoneNumber(to);
 
-  const response = await fetch("https://rest.nexmo.com/sms/json", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from: process.env.SMS_FROM_NUMBER || "SweetAngel",
-      to,
-      text: message,
-      api_key: process.env.VONAGE_API_KEY,
-      api_secret: process.env.VONAGE_API_SECRET,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json() as unknown;
-    throw new Error(`Failed to send SMS via Vonage: ${JSON.stringify(error)}`);
+  if (!isValidPhoneNumber(phoneNumber)) {
+    console.warn(`Invalid phone number for SMS: ${to}`);
+    return { success: false, error: `Invalid phone number: ${to}` };
   }
 
-  return response.json();
-}
-
-/**
- * Send SMS notification
- */
-export async function sendSMS({ to, message }: SendSMSOptions) {
-  if (!isProd) {
-    console.warn("\n\n\nSMS would be sent to:", to);
-    console.warn("Message:", message);
-    return;
-  }
+  const errors: string[] = [];
 
-  const provider = await getSMSProvider();
+  try {
+    const providers = await getSmsProviders();
 
-  if (!provider) {
-    console.warn("No SMS provider configured. Skipping SMS send.");
-    return;
-  }
+    if (providers.length === 0) {
+      console.warn("No SMS provider configured. Skipping SMS send.");
+      return { success: false, error: "No SMS provider configured" };
+    }
 
-  try {
-    if (provider === "sns") {
-      await sendSNSMessage({ to, message });
-    } else if (provider === "vonage") {
-      await sendVonageMessage({ to, message });
+    for (const provider of providers) {
+      try {
+        const { messageId } = await provider.sendMessage({ to: phoneNumber, message });
+        return { success: true, provider: provider.name, messageId };
+      } catch (error) {
+        console.error(`Failed to send SMS via ${provider.name}:`, error);
+        errors.push(error instanceof Error ? error.message : `Failed to send SMS via ${provider.name}`);
+      }
     }
   } catch (error) {
     console.error("Failed to send SMS:", error);
-    // Don't throw - SMS is optional, we don't want to break the flow
+    errors.push(error instanceof Error ? error.message : "Failed to send SMS");
   }
+
+  // Don't throw - SMS is optional, we don't want to break the flow
+  return { success: false, error: errors.join("; ") };
 }
 
 /**
@@ -131,13 +64,16 @@ export async function sendOrderConfirmationSMS({
   to,
   orderNumber,
   customerName,
+  trackingUrl,
 }: {
   to: string;
   orderNumber: string;
   customerName: string;
+  trackingUrl?: string | null;
 }) {
-  const message = `Hi ${customerName}! Your Sweet Angel Bakery order #${orderNumber} has been confirmed. We'll notify you when it's ready. Reply STOP to opt out.`;
-  await sendSMS({ to, message });
+  const tracking = trackingUrl ? ` Track it: ${trackingUrl}` : "";
+  const message = `Hi ${customerName}! Your Sweet Angel Bakery order #${orderNumber} has been confirmed. We'll notify you when it's ready.${tracking} Reply STOP to opt out.`;
+  return sendSMS({ to, message });
 }
 
 /**
@@ -147,13 +83,54 @@ export async function sendOrderReadySMS({
   to,
   orderNumber,
   customerName,
+  trackingUrl,
 }: {
   to: string;
   orderNumber: string;
   customerName: string;
+  trackingUrl?: string | null;
 }) {
-  const message = `Hi ${customerName}! Your order #${orderNumber} is ready for pickup at Sweet Angel Bakery. See you soon!`;
-  await sendSMS({ to, message });
+  const tracking = trackingUrl ? ` Details: ${trackingUrl}` : "";
+  const message = `Hi ${customerName}! Your order #${orderNumber} is ready for pickup at Sweet Angel Bakery. See you soon!${tracking}`;
+  return sendSMS({ to, message });
+}
+
+/**
+ * Send order out for delivery SMS
+ */
+export async function sendOrderOutForDeliverySMS({
+  to,
+  orderNumber,
+  customerName,
+  deliveryTimeWindow,
+  trackingUrl,
+}: {
+  to: string;
+  orderNumber: string;
+  customerName: string;
+  deliveryTimeWindow?: string | null;
+  trackingUrl?: string | null;
+}) {
+  const eta = deliveryTimeWindow ? ` Expected ${deliveryTimeWindow}.` : "";
+  const tracking = trackingUrl ? ` Follow along: ${trackingUrl}` : "";
+  const message = `Hi ${customerName}! Your Sweet Angel Bakery order #${orderNumber} is out for delivery.${eta}${tracking} Reply STOP to opt out.`;
+  return sendSMS({ to, message });
+}
+
+/**
+ * Send order delivered SMS
+ */
+export async function sendOrderDeliveredSMS({
+  to,
+  orderNumber,
+  customerName,
+}: {
+  to: string;
+  orderNumber: string;
+  customerName: string;
+}) {
+  const message = `Hi ${customerName}! Your Sweet Angel Bakery order #${orderNumber} has been delivered. Enjoy!`;
+  return sendSMS({ to, message });
 }
 
 /**
@@ -169,7 +146,7 @@ export async function sendDropNotificationSMS({
   earlyAccessTime: string;
 }) {
   const message = `Loyalty Member Early Access! ${dropName} drops ${earlyAccessTime}. Shop before the public at sweetangelbakery.com. Reply STOP to opt out.`;
-  await sendSMS({ to, message });
+  return sendSMS({ to, message });
 }
 
 /**
@@ -177,8 +154,16 @@ export async function sendDropNotificationSMS({
  * Example: (555) 123-4567 -> +15551234567
  */
 export function formatPhoneNumber(phone: string): string {
+  const trimmed = phone.trim();
+
+  // Already international: +44..., or the 00 / 011 dialing prefixes
+  const international = trimmed.match(/^(?:\+|00|011)(.*)$/);
+  if (international) {
+    return `+${international[1].replace(/\D/g, "")}`;
+  }
+
   // Remove all non-numeric characters
-  const digits = phone.replace(/\D/g, "");
+  const digits = trimmed.replace(/\D/g, "");
 
   // If it doesn't start with country code, assume US (+1)
   if (digits.length === 10) {
@@ -190,6 +175,12 @@ export function formatPhoneNumber(phone: string): string {
     return `+${digits}`;
   }
 
-  // Otherwise return as-is (already formatted or international)
-  return digits.startsWith("+") ? phone : `+${digits}`;
+  return `+${digits}`;
+}
+
+/**
+ * Check that a phone number is valid E.164 (+ and up to 15 digits)
+ */
+export function isValidPhoneNumber(phone: string): boolean {
+  return /^\+[1-9]\d{7,14}$/.test(phone);
 }
@@ -0,0 +1,264 @@
+/**
+ * Stock Reservations
+ *
+ * When a shopper opens the checkout page their cart lines are held for a few
+ * minutes, so someone else can't buy the last cake while they enter their
+ * card details. Reservations belong to a token generated by the shopper's
+ * browser; holds from other tokens are subtracted from stock everywhere
+ * stock is shown or checked. Expired rows simply stop counting and are
+ * purged the next time anyone reserves. Anyone can reserve without signing
+ * in, so each token and each IP address can only hold so many units.
+ */
+
+import "server-only";
+
+import { and, eq, gt, inArray, lte, ne, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import { productTable, stockReservationTable } from "@/db/schema";
+import type { ProductCustomizations } from "@/types/customizations";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReservationLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ReservedLine extends ReservationLine {
+  requested: number;
+  limited: boolean; // Held less than was available because of the per-shopper limits
+}
+
+export interface ReserveCheckoutStockResult {
+  expiresAt: Date;
+  lines: ReservedLine[]; // Same order as the request; quantity is what was held
+}
+
+// How long the checkout page holds stock
+export const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+// Most cart lines one reservation can cover
+export const MAX_RESERVATION_LINES = 30;
+
+// Most units one token, and all tokens from one IP address, can hold at once
+export const MAX_RESERVED_UNITS_PER_TOKEN = 50;
+export const MAX_RESERVED_UNITS_PER_IP = 100;
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+function reservationKey(productId: string, variantId?: string | null): string {
+  return `${productId}:${variantId ?? ""}`;
+}
+
+/**
+ * Quantities held by active reservations, keyed by product and variant.
+ * Pass the shopper's own token to leave their holds out.
+ */
+export async function getReservedQuantities(
+  productIds: string[],
+  excludeToken?: string | null
+): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>();
+  if (productIds.length === 0) return reserved;
+
+  const db = getDB();
+  const rows = await db
+    .select({
+      productId: stockReservationTable.productId,
+      variantId: stockReservationTable.variantId,
+      quantity: sql<number>`SUM(${stockReservationTable.quantity})`,
+    })
+    .from(stockReservationTable)
+    .where(
+      and(
+        inArray(stockReservationTable.productId, [...new Set(productIds)]),
+        gt(stockReservationTable.expiresAt, new Date()),
+        excludeToken ? ne(stockReservationTable.reservationToken, excludeToken) : undefined
+      )
+    )
+    .groupBy(stockReservationTable.productId, stockReservationTable.variantId);
+
+  for (const row of rows) {
+    reserved.set(reservationKey(row.productId, row.variantId), Number(row.quantity) || 0);
+  }
+
+  return reserved;
+}
+
+/**
+ * Stock of a product, or of one of its size variants, minus what's reserved
+ */
+export function getAvailableQuantity({
+  product,
+  variantId,
+  reserved,
+}: {
+  product: { id: string; quantityAvailable: number; customizations: ProductCustomizations };
+  variantId?: string | null;
+  reserved: Map<string, number>;
+}): number {
+  const variant =
+    variantId && product.customizations?.type === "size_variants"
+      ? product.customizations.variants.find((v) => v.id === variantId)
+      : undefined;
+
+  // Variants that no longer exist fall back to product stock, like inventory updates do
+  const stock = variant ? variant.quantityAvailable : product.quantityAvailable;
+  const held = reserved.get(reservationKey(product.id, variant ? variantId : null)) ?? 0;
+
+  return Math.max(0, stock - held);
+}
+
+/**
+ * Subtract active reservations from a product's stock for display, including
+ * the stock of each size variant
+ */
+export function applyReservationsToProduct<
+  T extends { id: string; quantityAvailable: number; customizations: ProductCustomizations }
+>(product: T, reserved: Map<string, number>): T {
+  const customizations = product.customizations?.type === "size_variants"
+    ? {
+        ...product.customizations,
+        variants: product.customizations.variants.map((variant) => ({
+          ...variant,
+          quantityAvailable: getAvailableQuantity({ product, variantId: variant.id, reserved }),
+        })),
+      }
+    : product.customizations;
+
+  return {
+    ...product,
+    quantityAvailable: getAvailableQuantity({ product, reserved }),
+    customizations,
+  };
+}
+
+// ============================================================================
+// RESERVING
+// ============================================================================
+
+/**
+ * Replace the token's holds with the given cart lines, holding as much of
+ * each line as is still available. Lines sharing a product (and variant)
+ * share its stock, in cart order. Payment re-checks stock, so a rare race
+ * between two shoppers reserving at the same instant can't oversell.
+ * Lines past the token's or IP address's unit limit are held only in part
+ * and flagged `limited`.
+ */
+export async function reserveCheckoutStock({
+  reservationToken,
+  lines,
+  ipAddress,
+}: {
+  reservationToken: string;
+  lines: ReservationLine[];
+  ipAddress?: string | null;
+}): Promise<ReserveCheckoutStockResult> {
+  const db = getDB();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MS);
+
+  await db.batch([
+    db.delete(stockReservationTable).where(lte(stockReservationTable.expiresAt, now)),
+    db.delete(stockReservationTable).where(eq(stockReservationTable.reservationToken, reservationToken)),
+  ]);
+
+  const productIds = [...new Set(lines.map((line) => line.productId))];
+  const products = productIds.length > 0
+    ? await db
+        .select({
+          id: productTable.id,
+          quantityAvailable: productTable.quantityAvailable,
+          customizations: productTable.customizations,
+        })
+        .from(productTable)
+        .where(inArray(productTable.id, productIds))
+    : [];
+
+  const productsById = new Map(
+    products.map((product) => [
+      product.id,
+      {
+        ...product,
+        customizations: product.customizations
+          ? (JSON.parse(product.customizations) as ProductCustomizations)
+          : null,
+      },
+    ])
+  );
+
+  // Start from other shoppers' holds and add ours as lines are granted
+  const reserved = await getReservedQuantities(productIds, reservationToken);
+
+  // Units this token may still hold, less what the IP's other tokens hold
+  let remainingUnits = MAX_RESERVED_UNITS_PER_TOKEN;
+  if (ipAddress) {
+    const [heldByIP] = await db
+      .select({ quantity: sql<number>`COALESCE(SUM(${stockReservationTable.quantity}), 0)` })
+      .from(stockReservationTable)
+      .where(
+        and(
+          eq(stockReservationTable.ipAddress, ipAddress),
+          gt(stockReservationTable.expiresAt, now)
+        )
+      );
+    remainingUnits = Math.min(
+      remainingUnits,
+      MAX_RESERVED_UNITS_PER_IP - (Number(heldByIP?.quantity) || 0)
+    );
+  }
+
+  const granted: ReservedLine[] = lines.map((line) => {
+    const product = productsById.get(line.productId);
+    if (!product) {
+      return { ...line, requested: line.quantity, quantity: 0, limited: false };
+    }
+
+    const available = getAvailableQuantity({ product, variantId: line.variantId, reserved });
+    const wanted = Math.max(0, Math.min(line.quantity, available));
+    const quantity = Math.max(0, Math.min(wanted, remainingUnits));
+    remainingUnits -= quantity;
+
+    const variantExists =
+      line.variantId &&
+      product.customizations?.type === "size_variants" &&
+      product.customizations.variants.some((v) => v.id === line.variantId);
+    const key = reservationKey(line.productId, variantExists ? line.variantId : null);
+    reserved.set(key, (reserved.get(key) ?? 0) + quantity);
+
+    return { ...line, requested: line.quantity, quantity, limited: quantity < wanted };
+  });
+
+  const rows = granted
+    .filter((line) => line.quantity > 0)
+    .map((line) => ({
+      reservationToken,
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      quantity: line.quantity,
+      ipAddress: ipAddress ?? null,
+      expiresAt,
+    }));
+
+  if (rows.length > 0) {
+    await db.insert(stockReservationTable).values(rows);
+  }
+
+  return { expiresAt, lines: granted };
+}
+
+/**
+ * Drop a token's holds, e.g. once its order is paid and stock was deducted
+ */
+export async function releaseCheckoutStock(reservationToken: string): Promise<void> {
+  const db = getDB();
+
+  await db
+    .delete(stockReservationTable)
+    .where(eq(stockReservationTable.reservationToken, reservationToken));
+}
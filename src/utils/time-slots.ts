@@ -0,0 +1,238 @@
+/**
+ * Time Slots
+ *
+ * Delivery schedules and pickup locations can split their day into bookable
+ * slots (e.g. 30-minute pickups, 2-hour delivery windows) with a maximum
+ * number of orders per slot. Slots are generated from the schedule or
+ * location config; a one-off date's time window override replaces the
+ * start and end times. Booked orders are paid, non-cancelled orders for the
+ * same date and slot start. Pickup slots are counted per location, delivery
+ * slots across all deliveries since they share the same drivers.
+ *
+ * Slots are checked when offered and again when the order is priced, so the
+ * per-slot limit is soft in the same way as production capacity.
+ */
+
+import "server-only";
+
+import { and, eq, inArray, isNotNull, ne, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ORDER_STATUS,
+  PAYMENT_STATUS,
+  orderTable,
+  type DeliveryOneOffDate,
+  type DeliverySchedule,
+} from "@/db/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TimeSlotSource = Pick<
+  DeliverySchedule,
+  "slotStartTime" | "slotEndTime" | "slotDurationMinutes" | "slotCapacity"
+>;
+
+export interface TimeSlotConfig {
+  startTime: string; // "09:00" - HH:mm format
+  endTime: string; // "17:00" - HH:mm format
+  durationMinutes: number;
+  capacity: number | null; // Max orders per slot, null = unlimited
+}
+
+export interface TimeSlot {
+  start: string; // "09:00" - HH:mm format
+  end: string; // "11:00" - HH:mm format
+  label: string; // "9:00 AM - 11:00 AM"
+  capacity: number | null;
+  bookedOrders: number;
+  isFull: boolean;
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Minutes since midnight for an "HH:mm" time
+ */
+export function parseSlotTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function toSlotTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${hours.toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+}
+
+function formatSlotTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const period = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 || 12;
+  return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`;
+}
+
+/**
+ * Customer-facing label, e.g. "10:00 AM - 10:30 AM"
+ */
+export function formatTimeSlotLabel(start: string, end: string): string {
+  return `${formatSlotTime(start)} - ${formatSlotTime(end)}`;
+}
+
+/**
+ * Slot config for a schedule or pickup location, or null when it doesn't
+ * offer slots. A one-off date's time window replaces the start and end.
+ */
+export function getTimeSlotConfig(
+  source: TimeSlotSource | undefined,
+  oneOff?: Pick<DeliveryOneOffDate, "timeWindowStart" | "timeWindowEnd">
+): TimeSlotConfig | null {
+  if (!source?.slotDurationMinutes) return null;
+
+  const startTime = oneOff?.timeWindowStart || source.slotStartTime;
+  const endTime = oneOff?.timeWindowEnd || source.slotEndTime;
+  if (!startTime || !endTime) return null;
+
+  return {
+    startTime,
+    endTime,
+    durationMinutes: source.slotDurationMinutes,
+    capacity: source.slotCapacity,
+  };
+}
+
+/**
+ * Slot columns to save for a schedule or pickup location. Throws when slots
+ * are enabled but the config can't produce any.
+ */
+export function toTimeSlotSource(input: Partial<TimeSlotSource>): TimeSlotSource {
+  if (!input.slotDurationMinutes) {
+    return { slotStartTime: null, slotEndTime: null, slotDurationMinutes: null, slotCapacity: null };
+  }
+
+  if (!input.slotStartTime || !input.slotEndTime) {
+    throw new Error("Time slots need a start and end time");
+  }
+
+  if (parseSlotTime(input.slotStartTime) + input.slotDurationMinutes > parseSlotTime(input.slotEndTime)) {
+    throw new Error("The slot length doesn't fit between the start and end time");
+  }
+
+  return {
+    slotStartTime: input.slotStartTime,
+    slotEndTime: input.slotEndTime,
+    slotDurationMinutes: input.slotDurationMinutes,
+    slotCapacity: input.slotCapacity ?? null,
+  };
+}
+
+/**
+ * Consecutive slots from the start time; a partial slot at the end is dropped
+ */
+export function generateTimeSlots(config: TimeSlotConfig): Array<{ start: string; end: string }> {
+  const slots: Array<{ start: string; end: string }> = [];
+  const end = parseSlotTime(config.endTime);
+
+  for (
+    let start = parseSlotTime(config.startTime);
+    start + config.durationMinutes <= end;
+    start += config.durationMinutes
+  ) {
+    slots.push({ start: toSlotTime(start), end: toSlotTime(start + config.durationMinutes) });
+  }
+
+  return slots;
+}
+
+// ============================================================================
+// BOOKINGS
+// ============================================================================
+
+/**
+ * Booked orders per date and slot start, keyed "2025-12-24 10:00"
+ */
+async function getBookedSlotCounts({
+  fulfillmentMethod,
+  dates,
+  pickupLocationId,
+}: {
+  fulfillmentMethod: "delivery" | "pickup";
+  dates: string[];
+  pickupLocationId?: string;
+}): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (dates.length === 0) return counts;
+
+  const db = getDB();
+  const dateColumn = fulfillmentMethod === "pickup" ? orderTable.pickupDate : orderTable.deliveryDate;
+  // Stored dates may carry a time part; compare the day only
+  const day = sql<string>`substr(${dateColumn}, 1, 10)`;
+
+  // Orders that were never paid or were cancelled don't hold a slot
+  const bookedOrders = await db
+    .select({
+      date: day,
+      timeSlotStart: orderTable.timeSlotStart,
+    })
+    .from(orderTable)
+    .where(
+      and(
+        eq(orderTable.fulfillmentMethod, fulfillmentMethod),
+        inArray(day, dates),
+        isNotNull(orderTable.timeSlotStart),
+        pickupLocationId ? eq(orderTable.pickupLocationId, pickupLocationId) : undefined,
+        ne(orderTable.status, ORDER_STATUS.CANCELLED),
+        ne(orderTable.status, ORDER_STATUS.PENDING_PAYMENT),
+        ne(orderTable.paymentStatus, PAYMENT_STATUS.FAILED)
+      )
+    );
+
+  for (const order of bookedOrders) {
+    const key = `${order.date} ${order.timeSlotStart}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return counts;
+}
+
+/**
+ * Slots with booked orders for each date. Dates whose config doesn't offer
+ * slots get an empty list.
+ */
+export async function getDateTimeSlots({
+  fulfillmentMethod,
+  dates,
+  pickupLocationId,
+}: {
+  fulfillmentMethod: "delivery" | "pickup";
+  dates: Array<{ date: string; config: TimeSlotConfig | null }>;
+  pickupLocationId?: string;
+}): Promise<Map<string, TimeSlot[]>> {
+  const slottedDates = dates.filter(({ config }) => config !== null);
+  const bookedCounts = await getBookedSlotCounts({
+    fulfillmentMethod,
+    dates: [...new Set(slottedDates.map(({ date }) => date))],
+    pickupLocationId,
+  });
+
+  return new Map(
+    dates.map(({ date, config }) => [
+      date,
+      config
+        ? generateTimeSlots(config).map(({ start, end }) => {
+          const bookedOrders = bookedCounts.get(`${date} ${start}`) ?? 0;
+          return {
+            start,
+            end,
+            label: formatTimeSlotLabel(start, end),
+            capacity: config.capacity,
+            bookedOrders,
+            isFull: config.capacity !== null && bookedOrders >= config.capacity,
+          };
+        })
+        : [],
+    ])
+  );
+}
@@ -2,13 +2,20 @@ import "server-only";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { createId } from "@paralleldrive/cuid2";
 
-export async function uploadProductImage({
+// Proof of delivery photos show customers' doorsteps, so they're kept out of
+// the public /api/images route and only served by /api/delivery-proof
+export const PROOF_OF_DELIVERY_PREFIX = "proof-of-delivery/";
+
+/**
+ * Validate an image and store it in R2 under the given key prefix
+ */
+async function putImage({
   file,
-  baseUrl,
+  prefix,
 }: {
   file: File;
-  baseUrl?: string;
-}): Promise<{ url: string; key: string }> {
+  prefix: string;
+}): Promise<string> {
   const { env } = await getCloudflareContext();
 
   // Validate file type
@@ -25,7 +32,7 @@ export async function uploadProductImage({
 
   // Generate unique key with original extension
   const extension = file.name.split(".").pop() || "jpg";
-  const key = `products/${createId()}.${extension}`;
+  const key = `${prefix}${createId()}.${extension}`;
 
   // Convert File to ArrayBuffer
   const arrayBuffer = await file.arrayBuffer();
@@ -37,6 +44,18 @@ export async function uploadProductImage({
     },
   });
 
+  return key;
+}
+
+export async function uploadProductImage({
+  file,
+  baseUrl,
+}: {
+  file: File;
+  baseUrl?: string;
+}): Promise<{ url: string; key: string }> {
+  const key = await putImage({ file, prefix: "products/" });
+
   // Return public URL - use absolute URL for external services like Stripe
   // If baseUrl is not provided, fall back to relative URL
   const relativePath = `/api/images/${key}`;
@@ -45,6 +64,19 @@ export async function uploadProductImage({
   return { url, key };
 }
 
+/**
+ * Store a driver's proof of delivery photo. Returns the private R2 key.
+ */
+export async function uploadProofOfDeliveryPhoto({
+  file,
+  orderId,
+}: {
+  file: File;
+  orderId: string;
+}): Promise<string> {
+  return putImage({ file, prefix: `${PROOF_OF_DELIVERY_PREFIX}${orderId}/` });
+}
+
 export async function deleteProductImage({
   key,
 }: {
@@ -0,0 +1,325 @@
+/**
+ * Webhook Events
+ *
+ * Every delivery from a payment provider is stored in webhook_event with its
+ * raw payload and signature status before it's handled. Providers retry
+ * deliveries, so events are deduplicated on the provider's event ID: an event
+ * that was processed (or ignored) is acknowledged without running the handler
+ * again, while a failed one is retried. Failed events can also be replayed
+ * from the admin panel.
+ */
+
+import "server-only";
+
+import { and, desc, eq, lt, or, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  WEBHOOK_EVENT_STATUS,
+  WEBHOOK_SIGNATURE_STATUS,
+  orderTable,
+  webhookEventTable,
+  type WebhookEventRecord,
+} from "@/db/schema";
+import { getMerchantProvider } from "@/lib/merchant-provider/factory";
+import {
+  isMerchantProviderType,
+  type IMerchantProvider,
+  type WebhookEvent,
+  type WebhookResult,
+} from "@/lib/merchant-provider/types";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WebhookEventStatus = typeof WEBHOOK_EVENT_STATUS[keyof typeof WEBHOOK_EVENT_STATUS];
+export type WebhookSignatureStatus = typeof WEBHOOK_SIGNATURE_STATUS[keyof typeof WEBHOOK_SIGNATURE_STATUS];
+
+export interface WebhookDeliveryResult {
+  webhookEvent: WebhookEventRecord;
+  duplicate: boolean; // Already handled, or being handled by another delivery
+  result?: WebhookResult;
+}
+
+// A delivery still "received" after this long is assumed to have died mid-handler
+const STALE_ATTEMPT_MS = 5 * 60 * 1000;
+
+// Anyone can post to a webhook URL, so only the start of a rejected body is kept
+const REJECTED_PAYLOAD_MAX_LENGTH = 4 * 1024;
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Store a delivery whose signature was missing or didn't verify. These are
+ * never handled or replayed. Only the first few KB of the body are kept, and
+ * deliveries past the per-IP rate limit aren't stored at all.
+ */
+export async function recordRejectedWebhook({
+  provider,
+  payload,
+  signature,
+  signatureStatus,
+  error,
+}: {
+  provider: string;
+  payload: string;
+  signature: string | null;
+  signatureStatus: WebhookSignatureStatus;
+  error: string;
+}): Promise<void> {
+  const db = getDB();
+
+  // Only for display; the body isn't trusted
+  let eventType: string | null = null;
+  try {
+    eventType = JSON.parse(payload)?.type ?? null;
+  } catch {
+    // Not JSON
+  }
+
+  const isTruncated = payload.length > REJECTED_PAYLOAD_MAX_LENGTH;
+
+  try {
+    await withRateLimit(
+      () => db.insert(webhookEventTable).values({
+        provider,
+        eventType: eventType ? String(eventType).slice(0, 255) : null,
+        payload: payload.slice(0, REJECTED_PAYLOAD_MAX_LENGTH),
+        signature: signature?.slice(0, 500) ?? null,
+        signatureStatus,
+        status: WEBHOOK_EVENT_STATUS.REJECTED,
+        result: (isTruncated
+          ? `${error} (payload truncated, ${payload.length} characters received)`
+          : error
+        ).slice(0, 5000),
+      }),
+      RATE_LIMITS.REJECTED_WEBHOOK
+    );
+  } catch (err) {
+    // The delivery is refused either way
+    console.warn(`[Webhooks] Rejected ${provider} delivery not stored:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Store a verified delivery (once per provider event ID) and handle it,
+ * unless it was already handled
+ */
+export async function receiveWebhookEvent({
+  provider,
+  event,
+  payload,
+  signature,
+}: {
+  provider: IMerchantProvider;
+  event: WebhookEvent;
+  payload: string;
+  signature: string;
+}): Promise<WebhookDeliveryResult> {
+  const db = getDB();
+
+  await db
+    .insert(webhookEventTable)
+    .values({
+      provider: provider.name,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+      signature: signature.slice(0, 500),
+      signatureStatus: WEBHOOK_SIGNATURE_STATUS.VALID,
+    })
+    .onConflictDoNothing({
+      target: [webhookEventTable.provider, webhookEventTable.eventId],
+    });
+
+  const webhookEvent = await db
+    .select()
+    .from(webhookEventTable)
+    .where(
+      and(
+        eq(webhookEventTable.provider, provider.name),
+        eq(webhookEventTable.eventId, event.id)
+      )
+    )
+    .get();
+
+  if (!webhookEvent) {
+    throw new Error(`Webhook event ${event.id} could not be stored`);
+  }
+
+  return await processWebhookEvent({ webhookEvent, event, provider });
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Claim the event for this attempt. Only new, failed and stale events can be
+ * claimed, so two deliveries of the same event never run the handler at once.
+ */
+async function claimWebhookEvent(id: string): Promise<WebhookEventRecord | undefined> {
+  const db = getDB();
+  const now = new Date();
+
+  const [claimed] = await db
+    .update(webhookEventTable)
+    .set({
+      status: WEBHOOK_EVENT_STATUS.RECEIVED,
+      attempts: sql`${webhookEventTable.attempts} + 1`,
+      lastAttemptAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(webhookEventTable.id, id),
+        or(
+          eq(webhookEventTable.status, WEBHOOK_EVENT_STATUS.FAILED),
+          and(
+            eq(webhookEventTable.status, WEBHOOK_EVENT_STATUS.RECEIVED),
+            or(
+              eq(webhookEventTable.attempts, 0),
+              lt(webhookEventTable.lastAttemptAt, new Date(now.getTime() - STALE_ATTEMPT_MS))
+            )
+          )
+        )
+      )
+    )
+    .returning();
+
+  return claimed;
+}
+
+async function processWebhookEvent({
+  webhookEvent,
+  event,
+  provider,
+}: {
+  webhookEvent: WebhookEventRecord;
+  event: WebhookEvent;
+  provider: IMerchantProvider;
+}): Promise<WebhookDeliveryResult> {
+  const db = getDB();
+
+  const claimed = await claimWebhookEvent(webhookEvent.id);
+  if (!claimed) {
+    return { webhookEvent, duplicate: true };
+  }
+
+  let status: WebhookEventStatus;
+  let result: WebhookResult | undefined;
+  let resultText: string;
+
+  try {
+    result = await provider.handleWebhook(event);
+    status = result.processed
+      ? WEBHOOK_EVENT_STATUS.PROCESSED
+      : result.error
+        ? WEBHOOK_EVENT_STATUS.FAILED
+        : WEBHOOK_EVENT_STATUS.IGNORED;
+    resultText = JSON.stringify(result);
+  } catch (error) {
+    console.error(`[Webhook Events] Handler failed for ${provider.name} event ${event.id}:`, error);
+    status = WEBHOOK_EVENT_STATUS.FAILED;
+    resultText = error instanceof Error ? error.message : String(error);
+  }
+
+  // The handler may report an order we don't have (e.g. a Square order ID)
+  let orderId: string | null = null;
+  if (result?.orderId) {
+    const order = await db
+      .select({ id: orderTable.id })
+      .from(orderTable)
+      .where(eq(orderTable.id, result.orderId))
+      .get();
+    orderId = order?.id ?? null;
+  }
+
+  const [updated] = await db
+    .update(webhookEventTable)
+    .set({
+      status,
+      result: resultText.slice(0, 5000),
+      orderId: orderId ?? claimed.orderId,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookEventTable.id, webhookEvent.id))
+    .returning();
+
+  return { webhookEvent: updated, duplicate: false, result };
+}
+
+/**
+ * Run a stored event through its provider's handler again
+ */
+export async function replayWebhookEvent(id: string): Promise<WebhookDeliveryResult> {
+  const db = getDB();
+
+  const webhookEvent = await db
+    .select()
+    .from(webhookEventTable)
+    .where(eq(webhookEventTable.id, id))
+    .get();
+
+  if (!webhookEvent) {
+    throw new Error("Webhook event not found");
+  }
+
+  if (webhookEvent.signatureStatus !== WEBHOOK_SIGNATURE_STATUS.VALID) {
+    throw new Error("Only events with a verified signature can be replayed");
+  }
+
+  if (webhookEvent.status !== WEBHOOK_EVENT_STATUS.FAILED) {
+    throw new Error("Only failed events can be replayed");
+  }
+
+  if (!isMerchantProviderType(webhookEvent.provider)) {
+    throw new Error(`Unsupported webhook provider: ${webhookEvent.provider}`);
+  }
+
+  const provider = await getMerchantProvider(webhookEvent.provider);
+  const event = provider.parseWebhookEvent(webhookEvent.payload);
+
+  return await processWebhookEvent({ webhookEvent, event, provider });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function getWebhookEvents({
+  status,
+  provider,
+  limit = 100,
+}: {
+  status?: WebhookEventStatus;
+  provider?: string;
+  limit?: number;
+} = {}): Promise<WebhookEventRecord[]> {
+  const db = getDB();
+
+  return await db
+    .select()
+    .from(webhookEventTable)
+    .where(
+      and(
+        status ? eq(webhookEventTable.status, status) : undefined,
+        provider ? eq(webhookEventTable.provider, provider) : undefined
+      )
+    )
+    .orderBy(desc(webhookEventTable.createdAt))
+    .limit(limit);
+}
+
+export async function getWebhookEvent(id: string): Promise<WebhookEventRecord | undefined> {
+  const db = getDB();
+
+  return await db
+    .select()
+    .from(webhookEventTable)
+    .where(eq(webhookEventTable.id, id))
+    .get();
+}
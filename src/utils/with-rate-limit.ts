@@ -102,6 +102,21 @@ export const RATE_LIMITS = {
     limit: 4,
     windowInSeconds: Math.floor(ms("1 hour") / 1000),
   },
+  PHONE_VERIFICATION: {
+    identifier: "phone-verification",
+    limit: 5,
+    windowInSeconds: Math.floor(ms("1 hour") / 1000),
+  },
+  ADMIN_ACTION: {
+    identifier: "admin-action",
+    limit: 300,
+    windowInSeconds: Math.floor(ms("5 minutes") / 1000),
+  },
+  DRIVER_ACTION: {
+    identifier: "driver-action",
+    limit: 120,
+    windowInSeconds: Math.floor(ms("5 minutes") / 1000),
+  },
   SETTINGS: {
     identifier: "settings",
     limit: 15,
@@ -112,4 +127,14 @@ export const RATE_LIMITS = {
     limit: 25,
     windowInSeconds: Math.floor(ms("5 minutes") / 1000),
   },
+  STOCK_RESERVATION: {
+    identifier: "stock-reservation",
+    limit: 60,
+    windowInSeconds: Math.floor(ms("10 minutes") / 1000),
+  },
+  REJECTED_WEBHOOK: {
+    identifier: "rejected-webhook",
+    limit: 20,
+    windowInSeconds: Math.floor(ms("10 minutes") / 1000),
+  },
 } as const;